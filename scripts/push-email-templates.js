@@ -89,8 +89,9 @@ async function pushTemplates() {
   console.log("   • Recovery email     — supabase/templates/recovery.html");
   console.log("");
   console.log(
-    "ℹ️  Note: supabase/templates/new-user-pending.html is sent by the app",
+    "ℹ️  Note: supabase/templates/new-user-pending.html and email-digest.html",
   );
+  console.log("   are sent by the app");
   console.log(
     "   via Resend — not pushed to Supabase auth. Add RESEND_API_KEY and",
   );
@@ -0,0 +1,59 @@
+#!/usr/bin/env tsx
+/**
+ * Send the email digests that are due, the same run the server starts
+ * hourly (src/lib/email-digest-schedule.ts). Useful locally and for an
+ * external cron when the server timer is not wanted.
+ *
+ * Requires:
+ *   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY — from .env / .env.local
+ *   RESEND_API_KEY — unless --dry-run
+ *
+ * Usage:
+ *   pnpm digest:send              send every digest that is due now
+ *   pnpm digest:send --force      ignore the schedule (still once per run)
+ *   pnpm digest:send --dry-run    build the digests and print them, send nothing
+ */
+
+import fs from "fs";
+import dotenv from "dotenv";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { runEmailDigests } from "@/lib/email-digest";
+
+// Load .env / .env.local
+const envFile = fs.existsSync(".env") ? ".env" : ".env.local";
+dotenv.config({ path: envFile });
+
+const args = new Set(process.argv.slice(2));
+const dryRun = args.has("--dry-run");
+const force = args.has("--force");
+
+async function main() {
+  if (!dryRun && !process.env.RESEND_API_KEY) {
+    console.error("❌ RESEND_API_KEY is not set. Use --dry-run to preview.");
+    process.exit(1);
+  }
+
+  const results = await runEmailDigests(createAdminClient(), {
+    dryRun,
+    force,
+  });
+
+  if (results.length === 0) {
+    console.log("ℹ️  No digests due.");
+    return;
+  }
+  for (const result of results) {
+    console.log(`${result.status.padEnd(8)} ${result.email}`);
+    if (result.digest) {
+      console.log(JSON.stringify(result.digest, null, 2));
+    }
+  }
+  if (results.some((result) => result.status === "failed")) {
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error("❌ Email digest run failed:", err);
+  process.exit(1);
+});
@@ -120,6 +120,59 @@ describe("API tokens routes", () => {
     expect(res.status).toBe(403);
   });
 
+  it("POST rejects boardIds the caller is not a member of", async () => {
+    mockSession.mockResolvedValue({
+      supabase: supabaseMock((t) => {
+        if (t === "users") {
+          return {
+            select: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                single: vi.fn().mockResolvedValue({
+                  data: { api_access_enabled: true },
+                  error: null,
+                }),
+              })),
+            })),
+          };
+        }
+        return {
+          select: vi.fn(() => ({
+            eq: vi.fn(() => ({
+              in: vi.fn().mockResolvedValue({ data: [], error: null }),
+            })),
+          })),
+        };
+      }) as never,
+      user: USER as never,
+    });
+    const res = await createToken(
+      req("/api/api-tokens", "POST", {
+        name: "CI",
+        scopes: ["cards:read"],
+        boardIds: ["3fa85f64-5717-4562-b3fc-2c963f66afa6"],
+      }),
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("POST rejects unknown scopes and past expiry dates", async () => {
+    mockSession.mockResolvedValue({
+      supabase: supabaseMock(() => ({})) as never,
+      user: USER as never,
+    });
+    const badScope = await createToken(
+      req("/api/api-tokens", "POST", { name: "X", scopes: ["admin"] }),
+    );
+    expect(badScope.status).toBe(400);
+    const pastExpiry = await createToken(
+      req("/api/api-tokens", "POST", {
+        name: "X",
+        expiresAt: "2000-01-01T00:00:00Z",
+      }),
+    );
+    expect(pastExpiry.status).toBe(400);
+  });
+
   it("DELETE soft-revokes by setting revoked_at", async () => {
     const TOKEN_UUID = "3fa85f64-5717-4562-b3fc-2c963f66afa6";
     const updateSpy = vi.fn(() => ({
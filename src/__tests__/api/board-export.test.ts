@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/boards/[id]/export/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/board-access", () => ({
+  getBoardRoleForUser: vi.fn(),
+}));
+
+const mockAuth = vi.mocked(getAuthorizedUser);
+const mockRole = vi.mocked(getBoardRoleForUser);
+
+const BOARD_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const USER = { id: "u1" };
+
+const req = (query = "?format=changeset") =>
+  new NextRequest(`http://localhost/api/boards/${BOARD_ID}/export${query}`);
+const ctx = { params: Promise.resolve({ id: BOARD_ID }) };
+
+const boardTables = () =>
+  supabaseMock({
+    boards: [{ data: { name: "Roadmap", description: null }, error: null }],
+    columns: [
+      { data: [{ id: 1, title: "Backlog", position: 1 }], error: null },
+    ],
+    cards: [
+      {
+        data: [
+          {
+            id: "c1",
+            column_id: 1,
+            title: "Plan",
+            description: null,
+            priority: "low",
+            due_date: null,
+            position: 1,
+          },
+        ],
+        error: null,
+      },
+    ],
+    card_subtasks: [
+      { data: [{ card_id: "c1", title: "Draft", position: 1 }], error: null },
+    ],
+  }).client;
+
+describe("GET /api/boards/[id]/export", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("returns 401 when not authenticated", async () => {
+    mockAuth.mockResolvedValue({ supabase: {} as never, user: null });
+    const res = await GET(req(), ctx);
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects unknown formats", async () => {
+    mockAuth.mockResolvedValue({
+      supabase: boardTables(),
+      user: USER as never,
+    });
+    const res = await GET(req("?format=csv"), ctx);
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 404 when the board is not visible", async () => {
+    mockAuth.mockResolvedValue({
+      supabase: boardTables(),
+      user: USER as never,
+    });
+    mockRole.mockResolvedValue(null);
+    const res = await GET(req(), ctx);
+    expect(res.status).toBe(404);
+  });
+
+  it("exports the board as a changeset attachment", async () => {
+    mockAuth.mockResolvedValue({
+      supabase: boardTables(),
+      user: USER as never,
+    });
+    mockRole.mockResolvedValue("viewer");
+    const res = await GET(req(), ctx);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Disposition")).toMatch(/attachment/);
+    expect(await res.json()).toEqual({
+      board: { name: "Roadmap" },
+      columns: [{ title: "Backlog", position: 1 }],
+      cards: [
+        {
+          columnRef: "Backlog",
+          title: "Plan",
+          priority: "low",
+          subtasks: [{ title: "Draft" }],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, POST } from "@/app/api/boards/[id]/views/route";
+import { DELETE, PATCH } from "@/app/api/boards/[id]/views/[viewId]/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import { DEFAULT_BOARD_FILTERS } from "@/lib/board-views";
+import { callArgs, supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/board-access", () => ({
+  getBoardRoleForUser: vi.fn(),
+}));
+
+const mockAuth = vi.mocked(getAuthorizedUser);
+const mockRole = vi.mocked(getBoardRoleForUser);
+
+const USER = { id: "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa" };
+const BOARD_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const VIEW_ID = "cccccccc-cccc-4ccc-8ccc-cccccccccccc";
+
+const viewRow = {
+  id: VIEW_ID,
+  board_id: BOARD_ID,
+  name: "My overdue cards",
+  is_shared: false,
+  filters: { ...DEFAULT_BOARD_FILTERS, dueDate: "overdue" },
+  view_mode: "board",
+  created_by: USER.id,
+  created_at: "2026-03-01T10:00:00Z",
+  updated_at: "2026-03-01T10:00:00Z",
+};
+
+const authenticate = (client: object) =>
+  mockAuth.mockResolvedValue({
+    supabase: client as never,
+    user: USER as never,
+  });
+
+const boardParams = (id = BOARD_ID) => ({ params: Promise.resolve({ id }) });
+const viewParams = {
+  params: Promise.resolve({ id: BOARD_ID, viewId: VIEW_ID }),
+};
+
+const jsonRequest = (method: string, body: unknown) =>
+  new NextRequest(`http://localhost/api/boards/${BOARD_ID}/views`, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+describe("/api/boards/[id]/views", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRole.mockResolvedValue("member");
+  });
+
+  it("returns 401 when not authenticated", async () => {
+    mockAuth.mockResolvedValue({ supabase: {} as never, user: null });
+
+    const res = await GET(
+      new NextRequest("http://localhost/api/boards/x/views"),
+      boardParams(),
+    );
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 404 for boards the user is not a member of", async () => {
+    const { client } = supabaseMock();
+    authenticate(client);
+    mockRole.mockResolvedValue(null);
+
+    const res = await GET(
+      new NextRequest("http://localhost/api/boards/x/views"),
+      boardParams(),
+    );
+    expect(res.status).toBe(404);
+  });
+
+  it("lists views in camelCase", async () => {
+    const { client } = supabaseMock({
+      board_saved_views: [{ data: [viewRow], error: null }],
+    });
+    authenticate(client);
+
+    const res = await GET(
+      new NextRequest("http://localhost/api/boards/x/views"),
+      boardParams(),
+    );
+    expect(res.status).toBe(200);
+    const { views } = await res.json();
+    expect(views).toEqual([
+      expect.objectContaining({
+        id: VIEW_ID,
+        isShared: false,
+        viewMode: "board",
+        createdBy: USER.id,
+        filters: { ...DEFAULT_BOARD_FILTERS, dueDate: "overdue" },
+      }),
+    ]);
+  });
+
+  it("rejects invalid filters", async () => {
+    const { client } = supabaseMock();
+    authenticate(client);
+
+    const res = await POST(
+      jsonRequest("POST", {
+        name: "Broken",
+        filters: { ...DEFAULT_BOARD_FILTERS, dueDate: "someday" },
+      }),
+      boardParams(),
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 409 once the per-user limit is reached", async () => {
+    const { client } = supabaseMock({
+      board_saved_views: [{ count: 50, error: null }],
+    });
+    authenticate(client);
+
+    const res = await POST(
+      jsonRequest("POST", { name: "One more", filters: DEFAULT_BOARD_FILTERS }),
+      boardParams(),
+    );
+    expect(res.status).toBe(409);
+  });
+
+  it("creates a view owned by the caller", async () => {
+    const { client, calls } = supabaseMock({
+      board_saved_views: [
+        { count: 0, error: null },
+        { data: { ...viewRow, is_shared: true }, error: null },
+      ],
+    });
+    authenticate(client);
+
+    const res = await POST(
+      jsonRequest("POST", {
+        name: "  My overdue cards ",
+        isShared: true,
+        filters: { ...DEFAULT_BOARD_FILTERS, dueDate: "overdue" },
+      }),
+      boardParams(),
+    );
+    expect(res.status).toBe(201);
+    expect(callArgs(calls, "insert")).toEqual([
+      {
+        board_id: BOARD_ID,
+        name: "My overdue cards",
+        is_shared: true,
+        filters: { ...DEFAULT_BOARD_FILTERS, dueDate: "overdue" },
+        view_mode: "board",
+        created_by: USER.id,
+      },
+    ]);
+    const { view } = await res.json();
+    expect(view.isShared).toBe(true);
+  });
+});
+
+describe("/api/boards/[id]/views/[viewId]", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("rejects an empty update", async () => {
+    const { client } = supabaseMock();
+    authenticate(client);
+
+    const res = await PATCH(jsonRequest("PATCH", {}), viewParams);
+    expect(res.status).toBe(400);
+  });
+
+  it("only updates the caller's own views", async () => {
+    const { client, calls } = supabaseMock({
+      board_saved_views: [{ data: null, error: null }],
+    });
+    authenticate(client);
+
+    const res = await PATCH(
+      jsonRequest("PATCH", { isShared: true }),
+      viewParams,
+    );
+    expect(res.status).toBe(404);
+    expect(calls).toContainEqual({
+      table: "board_saved_views",
+      method: "eq",
+      args: ["created_by", USER.id],
+    });
+  });
+
+  it("returns the updated view", async () => {
+    const { client } = supabaseMock({
+      board_saved_views: [
+        { data: { ...viewRow, view_mode: "table" }, error: null },
+      ],
+    });
+    authenticate(client);
+
+    const res = await PATCH(
+      jsonRequest("PATCH", { viewMode: "table" }),
+      viewParams,
+    );
+    expect(res.status).toBe(200);
+    expect((await res.json()).view.viewMode).toBe("table");
+  });
+
+  it("returns 404 when deleting someone else's view", async () => {
+    const { client } = supabaseMock({
+      board_saved_views: [{ data: [], error: null }],
+    });
+    authenticate(client);
+
+    const res = await DELETE(
+      new NextRequest("http://localhost/x", { method: "DELETE" }),
+      viewParams,
+    );
+    expect(res.status).toBe(404);
+  });
+
+  it("deletes the caller's view", async () => {
+    const { client } = supabaseMock({
+      board_saved_views: [{ data: [{ id: VIEW_ID }], error: null }],
+    });
+    authenticate(client);
+
+    const res = await DELETE(
+      new NextRequest("http://localhost/x", { method: "DELETE" }),
+      viewParams,
+    );
+    expect(res.status).toBe(200);
+  });
+});
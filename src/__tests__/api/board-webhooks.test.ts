@@ -0,0 +1,248 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import {
+  GET as listWebhooks,
+  POST as createWebhook,
+} from "@/app/api/boards/[id]/webhooks/route";
+import {
+  DELETE as deleteWebhook,
+  PATCH as updateWebhook,
+} from "@/app/api/boards/[id]/webhooks/[webhookId]/route";
+import { GET as listDeliveries } from "@/app/api/boards/[id]/webhooks/[webhookId]/deliveries/route";
+import { POST as testWebhook } from "@/app/api/boards/[id]/webhooks/[webhookId]/test/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import { sendWebhookPing } from "@/lib/webhooks/delivery";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/supabase/admin", () => ({
+  createAdminClient: vi.fn(),
+}));
+vi.mock("@/lib/board-access", () => ({
+  getBoardRoleForUser: vi.fn(),
+}));
+vi.mock("@/lib/webhooks/delivery", () => ({
+  sendWebhookPing: vi.fn(),
+}));
+
+const mockAuth = vi.mocked(getAuthorizedUser);
+const mockAdmin = vi.mocked(createAdminClient);
+const mockRole = vi.mocked(getBoardRoleForUser);
+const mockPing = vi.mocked(sendWebhookPing);
+
+const BOARD_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const WEBHOOK_ID = "cccccccc-cccc-4ccc-8ccc-cccccccccccc";
+const USER = { id: "u1" };
+
+const WEBHOOK_ROW = {
+  id: WEBHOOK_ID,
+  board_id: BOARD_ID,
+  url: "https://example.com/hook",
+  event_types: ["card.created"],
+  is_active: true,
+  created_by: "u1",
+  created_at: "2026-01-01T00:00:00.000Z",
+  updated_at: "2026-01-01T00:00:00.000Z",
+};
+
+/** Queue results per table (see supabaseMock) for the admin client. */
+function adminMock(results: Record<string, unknown[]>) {
+  const { client, calls } = supabaseMock(results);
+  mockAdmin.mockReturnValue(client);
+  return calls;
+}
+
+const ctx = { params: Promise.resolve({ id: BOARD_ID }) };
+const hookCtx = {
+  params: Promise.resolve({ id: BOARD_ID, webhookId: WEBHOOK_ID }),
+};
+const jsonRequest = (method: string, body?: unknown) =>
+  new NextRequest(`http://localhost/api/boards/${BOARD_ID}/webhooks`, {
+    method,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+
+describe("board webhooks API", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth.mockResolvedValue({ supabase: {}, user: USER } as never);
+    mockRole.mockResolvedValue("admin");
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    mockAuth.mockResolvedValue({ supabase: {}, user: null } as never);
+    const res = await listWebhooks(jsonRequest("GET"), ctx);
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 404 for boards the caller cannot see", async () => {
+    mockRole.mockResolvedValue(null);
+    const res = await listWebhooks(jsonRequest("GET"), ctx);
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 403 for members below admin", async () => {
+    mockRole.mockResolvedValue("member");
+    const res = await createWebhook(
+      jsonRequest("POST", {
+        url: "https://example.com/hook",
+        eventTypes: ["card.created"],
+      }),
+      ctx,
+    );
+    expect(res.status).toBe(403);
+  });
+
+  it("lists webhooks without their secrets", async () => {
+    adminMock({ board_webhooks: [{ data: [WEBHOOK_ROW], error: null }] });
+    const res = await listWebhooks(jsonRequest("GET"), ctx);
+    const body = await res.json();
+    expect(res.status).toBe(200);
+    expect(body.webhooks).toEqual([
+      expect.objectContaining({
+        id: WEBHOOK_ID,
+        url: "https://example.com/hook",
+        eventTypes: ["card.created"],
+        isActive: true,
+      }),
+    ]);
+    expect(body.webhooks[0]).not.toHaveProperty("secret");
+  });
+
+  it("creates a webhook and returns the generated secret once", async () => {
+    const calls = adminMock({
+      board_webhooks: [
+        { count: 0, error: null },
+        { data: WEBHOOK_ROW, error: null },
+      ],
+    });
+    const res = await createWebhook(
+      jsonRequest("POST", {
+        url: "https://example.com/hook",
+        eventTypes: ["card.created", "card.created"],
+      }),
+      ctx,
+    );
+    const body = await res.json();
+    expect(res.status).toBe(201);
+    expect(body.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    const insert = calls.find((c) => c.method === "insert");
+    expect(insert?.args[0]).toMatchObject({
+      board_id: BOARD_ID,
+      secret: body.secret,
+      event_types: ["card.created"],
+      created_by: "u1",
+    });
+  });
+
+  it("rejects unknown event types", async () => {
+    const res = await createWebhook(
+      jsonRequest("POST", {
+        url: "https://example.com/hook",
+        eventTypes: ["board.deleted"],
+      }),
+      ctx,
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("enforces the per-board webhook limit", async () => {
+    adminMock({ board_webhooks: [{ count: 10, error: null }] });
+    const res = await createWebhook(
+      jsonRequest("POST", {
+        url: "https://example.com/hook",
+        eventTypes: ["card.created"],
+      }),
+      ctx,
+    );
+    expect(res.status).toBe(409);
+  });
+
+  it("rotates the secret on PATCH", async () => {
+    const calls = adminMock({
+      board_webhooks: [{ data: WEBHOOK_ROW, error: null }],
+    });
+    const res = await updateWebhook(
+      jsonRequest("PATCH", { rotateSecret: true, isActive: false }),
+      hookCtx,
+    );
+    const body = await res.json();
+    expect(res.status).toBe(200);
+    expect(body.secret).toMatch(/^whsec_/);
+    const update = calls.find((c) => c.method === "update");
+    expect(update?.args[0]).toMatchObject({
+      is_active: false,
+      secret: body.secret,
+    });
+  });
+
+  it("rejects empty PATCH bodies", async () => {
+    const res = await updateWebhook(jsonRequest("PATCH", {}), hookCtx);
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 404 when deleting a webhook of another board", async () => {
+    adminMock({ board_webhooks: [{ data: null, error: null }] });
+    const res = await deleteWebhook(jsonRequest("DELETE"), hookCtx);
+    expect(res.status).toBe(404);
+  });
+
+  it("returns the delivery log", async () => {
+    adminMock({
+      board_webhooks: [{ data: { id: WEBHOOK_ID }, error: null }],
+      webhook_deliveries: [
+        {
+          data: [
+            {
+              id: "d1",
+              event_type: "card.created",
+              status: "failed",
+              attempts: 6,
+              last_status_code: 500,
+              last_error: "Receiver responded 500",
+              next_attempt_at: "2026-01-01T00:00:00.000Z",
+              created_at: "2026-01-01T00:00:00.000Z",
+              delivered_at: null,
+            },
+          ],
+          error: null,
+        },
+      ],
+    });
+    const res = await listDeliveries(jsonRequest("GET"), hookCtx);
+    const body = await res.json();
+    expect(res.status).toBe(200);
+    expect(body.deliveries[0]).toMatchObject({
+      id: "d1",
+      eventType: "card.created",
+      status: "failed",
+      lastStatusCode: 500,
+      nextAttemptAt: null,
+    });
+  });
+
+  it("sends a test ping", async () => {
+    adminMock({ board_webhooks: [{ data: { id: WEBHOOK_ID }, error: null }] });
+    mockPing.mockResolvedValue({
+      deliveryId: "d1",
+      status: "succeeded",
+      attempts: 1,
+      statusCode: 200,
+      error: null,
+    });
+    const res = await testWebhook(jsonRequest("POST"), hookCtx);
+    const body = await res.json();
+    expect(res.status).toBe(200);
+    expect(body.delivery.status).toBe("succeeded");
+    expect(mockPing).toHaveBeenCalledWith(
+      { id: WEBHOOK_ID, boardId: BOARD_ID },
+      "u1",
+      expect.any(Object),
+    );
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for multiple assignees on PATCH /api/cards/[id]: replacing the
+ * assignee list, the legacy single `assigneeId` and card_assigned
+ * notifications for newly added assignees.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { PATCH } from "@/app/api/cards/[id]/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { createNotifications } from "@/lib/notifications";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/supabase/admin", () => ({ createAdminClient: vi.fn() }));
+vi.mock("@/lib/board-access", () => ({
+  getBoardMutationAuthorization: vi.fn(),
+}));
+vi.mock("@/lib/notifications", () => ({ createNotifications: vi.fn() }));
+vi.mock("@/lib/webhooks/delivery", () => ({
+  dispatchWebhookEvent: vi.fn(),
+}));
+
+const CARD_ID = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
+const BOARD_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const USER = { id: "u1" };
+
+const cardRow = (assigneeId: string | null) => ({
+  id: CARD_ID,
+  board_id: BOARD_ID,
+  column_id: 1,
+  created_by: "u1",
+  title: "Release notes",
+  description: null,
+  priority: "medium",
+  start_date: null,
+  due_date: null,
+  assignee_id: assigneeId,
+  completed_at: null,
+  position: 1,
+  created_at: "2026-06-01T08:00:00Z",
+});
+
+function mockClient(previous: { primary: string | null; others: string[] }) {
+  const { client, calls } = supabaseMock({
+    cards: [
+      { data: cardRow(previous.primary), error: null },
+      { data: cardRow(null), error: null },
+    ],
+    card_assignees: [
+      {
+        data: [previous.primary, ...previous.others]
+          .filter((id): id is string => id !== null)
+          .map((userId, index) => ({
+            card_id: CARD_ID,
+            user_id: userId,
+            created_at: `2026-06-01T08:0${index}:00Z`,
+          })),
+        error: null,
+      },
+    ],
+  });
+  vi.mocked(getAuthorizedUser).mockResolvedValue({
+    supabase: client,
+    user: USER as never,
+  });
+  vi.mocked(createAdminClient).mockReturnValue(client);
+  return calls;
+}
+
+const patch = (body: Record<string, unknown>) =>
+  PATCH(
+    new NextRequest(`http://localhost/api/cards/${CARD_ID}`, {
+      method: "PATCH",
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: CARD_ID }) },
+  );
+
+describe("PATCH /api/cards/[id] assignees", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBoardMutationAuthorization).mockResolvedValue({
+      ok: true,
+      role: "member",
+    } as never);
+  });
+
+  it("replaces the assignees and notifies everyone newly added", async () => {
+    const calls = mockClient({ primary: "u2", others: ["u3"] });
+
+    const res = await patch({ assigneeIds: ["u4", "u1", "u2"] });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).card.assigneeIds).toEqual(["u4", "u1", "u2"]);
+    expect(calls).toContainEqual({
+      table: "cards",
+      method: "update",
+      args: [expect.objectContaining({ assignee_id: "u4" })],
+    });
+    expect(calls).toContainEqual({
+      table: "card_assignees",
+      method: "in",
+      args: ["user_id", ["u3"]],
+    });
+    expect(calls).toContainEqual({
+      table: "card_assignees",
+      method: "upsert",
+      args: [
+        [
+          { card_id: CARD_ID, user_id: "u4" },
+          { card_id: CARD_ID, user_id: "u1" },
+        ],
+        { onConflict: "card_id,user_id", ignoreDuplicates: true },
+      ],
+    });
+    const rows = vi.mocked(createNotifications).mock.calls[0]?.[1] ?? [];
+    expect(rows.map((row) => [row.user_id, row.type])).toEqual([
+      ["u4", "card_assigned"],
+    ]);
+  });
+
+  it("treats a single assigneeId as the whole assignee list", async () => {
+    const calls = mockClient({ primary: "u2", others: ["u3"] });
+
+    const res = await patch({ assigneeId: "u3" });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).card.assigneeIds).toEqual(["u3"]);
+    expect(calls).toContainEqual({
+      table: "card_assignees",
+      method: "in",
+      args: ["user_id", ["u2"]],
+    });
+    expect(calls.some((call) => call.method === "upsert")).toBe(false);
+    expect(vi.mocked(createNotifications).mock.calls[0]?.[1] ?? []).toEqual([]);
+  });
+
+  it("leaves the assignees alone when neither field is sent", async () => {
+    const calls = mockClient({ primary: "u2", others: ["u3"] });
+
+    const res = await patch({ title: "Release notes v2" });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).card.assigneeIds).toEqual(["u2", "u3"]);
+    expect(
+      calls.some(
+        (call) =>
+          call.table === "card_assignees" &&
+          (call.method === "delete" || call.method === "upsert"),
+      ),
+    ).toBe(false);
+  });
+
+  it("rejects more than the maximum number of assignees", async () => {
+    mockClient({ primary: null, others: [] });
+
+    const res = await patch({
+      assigneeIds: Array.from({ length: 11 }, (_, i) => `user-${i}`),
+    });
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Tests for card dependencies: linking and unlinking through
+ * /api/cards/[id]/dependencies, and the blocked check when bulk-update
+ * moves a card into a done column.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST as addDependency } from "@/app/api/cards/[id]/dependencies/route";
+import { DELETE as removeDependency } from "@/app/api/cards/[id]/dependencies/[dependencyId]/route";
+import { POST as bulkUpdateCards } from "@/app/api/cards/bulk-update/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/supabase/admin", () => ({ createAdminClient: vi.fn() }));
+vi.mock("@/lib/board-access", () => ({
+  getBoardMutationAuthorization: vi.fn(),
+}));
+vi.mock("@/lib/notifications", () => ({
+  createNotifications: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("@/lib/card-events", () => ({
+  recordCardEvents: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("@/lib/webhooks/delivery", () => ({
+  dispatchWebhookEvent: vi.fn().mockResolvedValue(undefined),
+}));
+
+const BOARD_ID = "11111111-1111-4111-8111-111111111111";
+const OTHER_BOARD_ID = "22222222-2222-4222-8222-222222222222";
+const CARD_A = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
+const CARD_B = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const DEPENDENCY_ID = "dddddddd-dddd-4ddd-8ddd-dddddddddddd";
+const USER = { id: "u1" };
+
+function mockClients(
+  results: Record<string, unknown[]>,
+  adminResults: Record<string, unknown[]> = {},
+) {
+  const user = supabaseMock(results);
+  const admin = supabaseMock(adminResults);
+  vi.mocked(getAuthorizedUser).mockResolvedValue({
+    supabase: user.client,
+    user: USER as never,
+  });
+  vi.mocked(createAdminClient).mockReturnValue(admin.client);
+  return { calls: user.calls, adminCalls: admin.calls };
+}
+
+const linkedCard = (id: string, boardId: string, title: string) => ({
+  id,
+  title,
+  board_id: boardId,
+  column_id: 1,
+  completed_at: null,
+  boards: { name: boardId === BOARD_ID ? "Team" : "Other" },
+});
+
+const postRequest = (body: unknown) =>
+  new NextRequest(`http://localhost/api/cards/${CARD_A}/dependencies`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+const cardParams = { params: Promise.resolve({ id: CARD_A }) };
+
+describe("POST /api/cards/[id]/dependencies", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBoardMutationAuthorization).mockResolvedValue({
+      ok: true,
+      role: "member",
+    });
+  });
+
+  it("links a blocker from another board and returns both directions", async () => {
+    const { calls } = mockClients(
+      {
+        cards: [
+          { data: { id: CARD_A, board_id: BOARD_ID }, error: null },
+          { data: { id: CARD_B, board_id: OTHER_BOARD_ID }, error: null },
+        ],
+        card_dependencies: [
+          { data: null, error: null },
+          {
+            data: [
+              {
+                id: DEPENDENCY_ID,
+                blocker_card_id: CARD_B,
+                blocked_card_id: CARD_A,
+                blocker: linkedCard(CARD_B, OTHER_BOARD_ID, "API ready"),
+                blocked: linkedCard(CARD_A, BOARD_ID, "Ship UI"),
+              },
+            ],
+            error: null,
+          },
+        ],
+      },
+      { card_dependencies: [{ data: [], error: null }] },
+    );
+
+    const res = await addDependency(
+      postRequest({ cardId: CARD_B, type: "blocked_by" }),
+      cardParams,
+    );
+
+    expect(res.status).toBe(201);
+    expect(calls).toContainEqual({
+      table: "card_dependencies",
+      method: "insert",
+      args: [
+        { blocker_card_id: CARD_B, blocked_card_id: CARD_A, created_by: "u1" },
+      ],
+    });
+    expect(await res.json()).toEqual({
+      blockedBy: [
+        {
+          dependencyId: DEPENDENCY_ID,
+          cardId: CARD_B,
+          title: "API ready",
+          boardId: OTHER_BOARD_ID,
+          boardName: "Other",
+          columnId: 1,
+          completedAt: null,
+        },
+      ],
+      blocks: [],
+    });
+  });
+
+  it("rejects a link that would close a cycle", async () => {
+    const { calls } = mockClients(
+      {
+        cards: [
+          { data: { id: CARD_A, board_id: BOARD_ID }, error: null },
+          { data: { id: CARD_B, board_id: BOARD_ID }, error: null },
+        ],
+      },
+      // CARD_B already blocks CARD_A, so A may not block B
+      {
+        card_dependencies: [
+          { data: [{ blocked_card_id: CARD_A }], error: null },
+        ],
+      },
+    );
+
+    const res = await addDependency(
+      postRequest({ cardId: CARD_B, type: "blocks" }),
+      cardParams,
+    );
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({ code: "dependency_cycle" });
+    expect(calls.some((call) => call.method === "insert")).toBe(false);
+  });
+
+  it("rejects self links and duplicates", async () => {
+    mockClients({});
+    const self = await addDependency(
+      postRequest({ cardId: CARD_A, type: "blocks" }),
+      cardParams,
+    );
+    expect(self.status).toBe(400);
+
+    mockClients(
+      {
+        cards: [
+          { data: { id: CARD_A, board_id: BOARD_ID }, error: null },
+          { data: { id: CARD_B, board_id: BOARD_ID }, error: null },
+        ],
+        card_dependencies: [
+          { data: null, error: { code: "23505", message: "duplicate key" } },
+        ],
+      },
+      { card_dependencies: [{ data: [], error: null }] },
+    );
+    const duplicate = await addDependency(
+      postRequest({ cardId: CARD_B, type: "blocks" }),
+      cardParams,
+    );
+    expect(duplicate.status).toBe(409);
+  });
+});
+
+describe("DELETE /api/cards/[id]/dependencies/[dependencyId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBoardMutationAuthorization).mockResolvedValue({
+      ok: true,
+      role: "member",
+    });
+  });
+
+  it("returns 404 for a link that does not belong to the card", async () => {
+    mockClients({
+      cards: [{ data: { id: CARD_A, board_id: BOARD_ID }, error: null }],
+      card_dependencies: [{ data: [], error: null }],
+    });
+
+    const res = await removeDependency(
+      new NextRequest(
+        `http://localhost/api/cards/${CARD_A}/dependencies/${DEPENDENCY_ID}`,
+        { method: "DELETE" },
+      ),
+      { params: Promise.resolve({ id: CARD_A, dependencyId: DEPENDENCY_ID }) },
+    );
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("POST /api/cards/bulk-update — blocked cards", () => {
+  const DONE = {
+    id: 3,
+    board_id: BOARD_ID,
+    is_done: true,
+    title: "Done",
+    wip_limit: null,
+    wip_limit_hard: false,
+  };
+  const move = () =>
+    bulkUpdateCards(
+      new NextRequest("http://localhost/api/cards/bulk-update", {
+        method: "POST",
+        body: JSON.stringify({
+          updates: [{ id: CARD_A, columnId: 3, position: 1 }],
+        }),
+      }),
+    );
+  const userResults = () => ({
+    cards: [
+      {
+        data: [
+          { id: CARD_A, board_id: BOARD_ID, column_id: 1, completed_at: null },
+        ],
+        error: null,
+      },
+    ],
+    columns: [{ data: [DONE], error: null }],
+  });
+  const blockerResults = (enforce: boolean) => ({
+    card_dependencies: [
+      {
+        data: [{ blocked_card_id: CARD_A, blocker: { completed_at: null } }],
+        error: null,
+      },
+    ],
+    boards: [{ data: { enforce_dependencies: enforce }, error: null }],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBoardMutationAuthorization).mockResolvedValue({
+      ok: true,
+      role: "member",
+    });
+  });
+
+  it("rejects the move on boards that enforce dependencies", async () => {
+    const { calls } = mockClients(userResults(), blockerResults(true));
+
+    const res = await move();
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({
+      code: "card_blocked",
+      cardIds: [CARD_A],
+    });
+    expect(calls.some((call) => call.method === "update")).toBe(false);
+  });
+
+  it("moves the card with a warning otherwise", async () => {
+    const { calls } = mockClients(userResults(), blockerResults(false));
+
+    const res = await move();
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ blockedCardIds: [CARD_A] });
+    expect(calls).toContainEqual(
+      expect.objectContaining({ table: "cards", method: "update" }),
+    );
+  });
+});
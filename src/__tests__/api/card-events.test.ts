@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET as listEvents } from "@/app/api/cards/[id]/events/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+
+const mockAuth = vi.mocked(getAuthorizedUser);
+
+const USER = { id: "u1" };
+const BOARD_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const CARD_ID = "cccccccc-cccc-4ccc-8ccc-cccccccccccc";
+
+const ctx = { params: Promise.resolve({ id: CARD_ID }) };
+const request = () =>
+  new NextRequest(`http://localhost/api/cards/${CARD_ID}/events`);
+
+/** cards → single() lookup; card_events → ordered, limited list. */
+function makeSupabase(card: unknown, events: unknown[]) {
+  const eventsChain = {
+    eq: vi.fn().mockReturnThis(),
+    order: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockResolvedValue({ data: events, error: null }),
+  };
+  const client = {
+    from: vi.fn((table: string) =>
+      table === "cards"
+        ? {
+            select: () => ({
+              eq: () => ({
+                single: vi.fn().mockResolvedValue({
+                  data: card,
+                  error: card ? null : { message: "not found" },
+                }),
+              }),
+            }),
+          }
+        : { select: () => eventsChain },
+    ),
+  };
+  return { client, eventsChain };
+}
+
+describe("GET /api/cards/[id]/events", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("returns 401 when not authenticated", async () => {
+    mockAuth.mockResolvedValue({ supabase: {} as never, user: null });
+    const res = await listEvents(request(), ctx);
+    expect(res.status).toBe(401);
+    expect(mockAuth).toHaveBeenCalledWith({ scope: "cards:read" });
+  });
+
+  it("returns 404 for cards the caller cannot see", async () => {
+    const { client } = makeSupabase(null, []);
+    mockAuth.mockResolvedValue({
+      supabase: client as never,
+      user: USER as never,
+    });
+    const res = await listEvents(request(), ctx);
+    expect(res.status).toBe(404);
+  });
+
+  it("returns the card history oldest first with the actor", async () => {
+    const { client, eventsChain } = makeSupabase(
+      { id: CARD_ID, board_id: BOARD_ID },
+      [
+        {
+          id: "e1",
+          event_type: "moved",
+          actor_id: "u1",
+          before: { columnId: 1, columnTitle: null },
+          after: { columnId: 2, columnTitle: "Doing" },
+          created_at: "2026-03-01T10:00:00.000Z",
+          users: {
+            id: "u1",
+            email: "ada@example.com",
+            name: "Ada",
+            avatar_url: null,
+          },
+        },
+        {
+          id: "e2",
+          event_type: "completed",
+          actor_id: null,
+          before: null,
+          after: "2026-03-02T10:00:00.000Z",
+          created_at: "2026-03-02T10:00:00.000Z",
+          users: null,
+        },
+      ],
+    );
+    mockAuth.mockResolvedValue({
+      supabase: client as never,
+      user: USER as never,
+    });
+
+    const res = await listEvents(request(), ctx);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(eventsChain.eq).toHaveBeenCalledWith("card_id", CARD_ID);
+    expect(eventsChain.order).toHaveBeenCalledWith("created_at", {
+      ascending: true,
+    });
+    expect(body.events).toEqual([
+      {
+        id: "e1",
+        type: "moved",
+        actorId: "u1",
+        actor: {
+          id: "u1",
+          email: "ada@example.com",
+          name: "Ada",
+          avatarUrl: null,
+        },
+        before: { columnId: 1, columnTitle: null },
+        after: { columnId: 2, columnTitle: "Doing" },
+        createdAt: "2026-03-01T10:00:00.000Z",
+      },
+      expect.objectContaining({ id: "e2", type: "completed", actor: null }),
+    ]);
+  });
+});
@@ -0,0 +1,374 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import {
+  GET as getCardLabels,
+  POST as addCardLabel,
+  PUT as setCardLabels,
+} from "@/app/api/cards/[id]/labels/route";
+import { DELETE as removeCardLabel } from "@/app/api/cards/[id]/labels/[labelId]/route";
+import { POST as bulkLabels } from "@/app/api/cards/bulk-labels/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+
+vi.mock("@/lib/board-access", () => ({
+  getBoardMutationAuthorization: vi.fn(),
+}));
+
+const mockGetAuthorizedUser = vi.mocked(getAuthorizedUser);
+const mockGetBoardMutationAuthorization = vi.mocked(
+  getBoardMutationAuthorization,
+);
+
+const BOARD_ID = "11111111-1111-4111-8111-111111111111";
+const CARD_ID = "22222222-2222-4222-8222-222222222222";
+const CARD_ID_2 = "44444444-4444-4444-8444-444444444444";
+const LABEL_ID = "55555555-5555-4555-8555-555555555555";
+const LABEL_ID_2 = "66666666-6666-4666-8666-666666666666";
+const AUTH_USER = { id: "33333333-3333-4333-8333-333333333333" };
+
+const LABEL_ROW = {
+  id: LABEL_ID,
+  board_id: BOARD_ID,
+  name: "Bug",
+  color: "#dc2626",
+  created_at: "2026-01-01T00:00:00.000Z",
+};
+
+const CARD_LABEL_ROW = {
+  card_id: CARD_ID,
+  label_id: LABEL_ID,
+  created_at: "2026-01-02T00:00:00.000Z",
+  labels: LABEL_ROW,
+};
+
+/** A query on a table with nothing queued fails the test (see supabaseMock). */
+function createSupabaseMock(results: Record<string, unknown[]>) {
+  const { client, calls } = supabaseMock(results, { strict: true });
+  return { supabase: client, calls };
+}
+
+const buildRequest = (path: string, method: string, body?: unknown) =>
+  body !== undefined
+    ? new NextRequest(`http://localhost:3000${path}`, {
+        method,
+        body: JSON.stringify(body),
+        headers: { "Content-Type": "application/json" },
+      })
+    : new NextRequest(`http://localhost:3000${path}`, { method });
+
+const cardParams = (id = CARD_ID) => ({ params: Promise.resolve({ id }) });
+
+function authenticate(supabase: unknown, user: unknown = AUTH_USER) {
+  mockGetAuthorizedUser.mockResolvedValue({
+    supabase: supabase as never,
+    user: user as never,
+  });
+}
+
+describe("card label routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetBoardMutationAuthorization.mockResolvedValue({
+      ok: true,
+      role: "member",
+    });
+  });
+
+  describe("GET /api/cards/[id]/labels", () => {
+    it("returns 401 when unauthenticated", async () => {
+      const { supabase } = createSupabaseMock({});
+      authenticate(supabase, null);
+
+      const res = await getCardLabels(
+        buildRequest(`/api/cards/${CARD_ID}/labels`, "GET"),
+        cardParams(),
+      );
+
+      expect(res.status).toBe(401);
+    });
+
+    it("returns the card's labels in camelCase", async () => {
+      const { supabase } = createSupabaseMock({
+        cards: [{ data: { id: CARD_ID }, error: null }],
+        card_labels: [{ data: [CARD_LABEL_ROW], error: null }],
+      });
+      authenticate(supabase);
+
+      const res = await getCardLabels(
+        buildRequest(`/api/cards/${CARD_ID}/labels`, "GET"),
+        cardParams(),
+      );
+
+      expect(res.status).toBe(200);
+      await expect(res.json()).resolves.toEqual({
+        labels: [
+          {
+            cardId: CARD_ID,
+            labelId: LABEL_ID,
+            createdAt: CARD_LABEL_ROW.created_at,
+            label: {
+              id: LABEL_ID,
+              boardId: BOARD_ID,
+              name: "Bug",
+              color: "#dc2626",
+              createdAt: LABEL_ROW.created_at,
+            },
+          },
+        ],
+      });
+    });
+  });
+
+  describe("POST /api/cards/[id]/labels", () => {
+    it("rejects viewers with the board access error", async () => {
+      mockGetBoardMutationAuthorization.mockResolvedValue({
+        ok: false,
+        status: 403,
+        error: "Insufficient permissions",
+      });
+      const { supabase, calls } = createSupabaseMock({
+        cards: [{ data: { id: CARD_ID, board_id: BOARD_ID }, error: null }],
+      });
+      authenticate(supabase);
+
+      const res = await addCardLabel(
+        buildRequest(`/api/cards/${CARD_ID}/labels`, "POST", {
+          labelId: LABEL_ID,
+        }),
+        cardParams(),
+      );
+
+      expect(res.status).toBe(403);
+      expect(calls.some((c) => c.table === "card_labels")).toBe(false);
+    });
+
+    it("rejects labels from another board", async () => {
+      const { supabase, calls } = createSupabaseMock({
+        cards: [{ data: { id: CARD_ID, board_id: BOARD_ID }, error: null }],
+        labels: [{ data: null, error: { code: "PGRST116" } }],
+      });
+      authenticate(supabase);
+
+      const res = await addCardLabel(
+        buildRequest(`/api/cards/${CARD_ID}/labels`, "POST", {
+          labelId: LABEL_ID,
+        }),
+        cardParams(),
+      );
+
+      expect(res.status).toBe(400);
+      expect(calls).toContainEqual({
+        table: "labels",
+        method: "eq",
+        args: ["board_id", BOARD_ID],
+      });
+      expect(calls.some((c) => c.table === "card_labels")).toBe(false);
+    });
+
+    it("attaches the label idempotently and returns the label set", async () => {
+      const { supabase, calls } = createSupabaseMock({
+        cards: [{ data: { id: CARD_ID, board_id: BOARD_ID }, error: null }],
+        labels: [{ data: { id: LABEL_ID }, error: null }],
+        card_labels: [{ error: null }, { data: [CARD_LABEL_ROW], error: null }],
+      });
+      authenticate(supabase);
+
+      const res = await addCardLabel(
+        buildRequest(`/api/cards/${CARD_ID}/labels`, "POST", {
+          labelId: LABEL_ID,
+        }),
+        cardParams(),
+      );
+
+      expect(res.status).toBe(201);
+      const body = await res.json();
+      expect(body.labels).toHaveLength(1);
+      expect(body.labels[0].label.name).toBe("Bug");
+      expect(calls).toContainEqual({
+        table: "card_labels",
+        method: "upsert",
+        args: [
+          { card_id: CARD_ID, label_id: LABEL_ID },
+          { onConflict: "card_id,label_id", ignoreDuplicates: true },
+        ],
+      });
+    });
+
+    it("returns 400 for an invalid label id", async () => {
+      const { supabase } = createSupabaseMock({});
+      authenticate(supabase);
+
+      const res = await addCardLabel(
+        buildRequest(`/api/cards/${CARD_ID}/labels`, "POST", {
+          labelId: "not-a-uuid",
+        }),
+        cardParams(),
+      );
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("PUT /api/cards/[id]/labels", () => {
+    it("adds missing labels and removes unselected ones", async () => {
+      const { supabase, calls } = createSupabaseMock({
+        cards: [{ data: { id: CARD_ID, board_id: BOARD_ID }, error: null }],
+        labels: [{ data: [{ id: LABEL_ID }], error: null }],
+        card_labels: [
+          { data: [{ label_id: LABEL_ID_2 }], error: null },
+          { error: null },
+          { error: null },
+          { data: [CARD_LABEL_ROW], error: null },
+        ],
+      });
+      authenticate(supabase);
+
+      const res = await setCardLabels(
+        buildRequest(`/api/cards/${CARD_ID}/labels`, "PUT", {
+          labelIds: [LABEL_ID],
+        }),
+        cardParams(),
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.added).toBe(1);
+      expect(body.removed).toBe(1);
+      expect(calls).toContainEqual({
+        table: "card_labels",
+        method: "in",
+        args: ["label_id", [LABEL_ID_2]],
+      });
+      expect(calls).toContainEqual({
+        table: "card_labels",
+        method: "insert",
+        args: [[{ card_id: CARD_ID, label_id: LABEL_ID }]],
+      });
+    });
+
+    it("rejects label ids that are not on the card's board", async () => {
+      const { supabase } = createSupabaseMock({
+        cards: [{ data: { id: CARD_ID, board_id: BOARD_ID }, error: null }],
+        labels: [{ data: [{ id: LABEL_ID }], error: null }],
+      });
+      authenticate(supabase);
+
+      const res = await setCardLabels(
+        buildRequest(`/api/cards/${CARD_ID}/labels`, "PUT", {
+          labelIds: [LABEL_ID, LABEL_ID_2],
+        }),
+        cardParams(),
+      );
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("DELETE /api/cards/[id]/labels/[labelId]", () => {
+    it("detaches the label", async () => {
+      const { supabase, calls } = createSupabaseMock({
+        cards: [{ data: { id: CARD_ID, board_id: BOARD_ID }, error: null }],
+        card_labels: [{ error: null }],
+      });
+      authenticate(supabase);
+
+      const res = await removeCardLabel(
+        buildRequest(`/api/cards/${CARD_ID}/labels/${LABEL_ID}`, "DELETE"),
+        { params: Promise.resolve({ id: CARD_ID, labelId: LABEL_ID }) },
+      );
+
+      expect(res.status).toBe(200);
+      expect(calls).toContainEqual({
+        table: "card_labels",
+        method: "eq",
+        args: ["label_id", LABEL_ID],
+      });
+    });
+  });
+
+  describe("POST /api/cards/bulk-labels", () => {
+    it("rejects cards from different boards", async () => {
+      const { supabase } = createSupabaseMock({
+        cards: [
+          {
+            data: [
+              { id: CARD_ID, board_id: BOARD_ID },
+              { id: CARD_ID_2, board_id: "other-board" },
+            ],
+            error: null,
+          },
+        ],
+      });
+      authenticate(supabase);
+
+      const res = await bulkLabels(
+        buildRequest("/api/cards/bulk-labels", "POST", {
+          cardIds: [CARD_ID, CARD_ID_2],
+          addLabelIds: [LABEL_ID],
+        }),
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it("requires at least one label change", async () => {
+      const { supabase } = createSupabaseMock({});
+      authenticate(supabase);
+
+      const res = await bulkLabels(
+        buildRequest("/api/cards/bulk-labels", "POST", {
+          cardIds: [CARD_ID],
+        }),
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it("adds labels to every selected card", async () => {
+      const { supabase, calls } = createSupabaseMock({
+        cards: [
+          {
+            data: [
+              { id: CARD_ID, board_id: BOARD_ID },
+              { id: CARD_ID_2, board_id: BOARD_ID },
+            ],
+            error: null,
+          },
+        ],
+        labels: [{ data: [{ id: LABEL_ID }], error: null }],
+        card_labels: [{ error: null }],
+      });
+      authenticate(supabase);
+
+      const res = await bulkLabels(
+        buildRequest("/api/cards/bulk-labels", "POST", {
+          cardIds: [CARD_ID, CARD_ID_2],
+          addLabelIds: [LABEL_ID],
+        }),
+      );
+
+      expect(res.status).toBe(200);
+      await expect(res.json()).resolves.toEqual({
+        success: true,
+        updatedCount: 2,
+      });
+      expect(calls).toContainEqual({
+        table: "card_labels",
+        method: "upsert",
+        args: [
+          [
+            { card_id: CARD_ID, label_id: LABEL_ID },
+            { card_id: CARD_ID_2, label_id: LABEL_ID },
+          ],
+          { onConflict: "card_id,label_id", ignoreDuplicates: true },
+        ],
+      });
+    });
+  });
+});
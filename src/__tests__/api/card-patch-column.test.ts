@@ -0,0 +1,242 @@
+/**
+ * Tests for column moves through PATCH /api/cards/[id]: done columns complete
+ * the card and hard WIP limits reject the move, like a drag on the board.
+ * Completing a recurring card creates its next instance.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { PATCH } from "@/app/api/cards/[id]/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { createNextRecurringCard } from "@/lib/card-recurrence";
+import { callArgs, supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/supabase/admin", () => ({ createAdminClient: vi.fn() }));
+vi.mock("@/lib/board-access", () => ({
+  getBoardMutationAuthorization: vi.fn(),
+}));
+vi.mock("@/lib/notifications", () => ({
+  createNotifications: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("@/lib/card-events", () => ({
+  diffCardEvents: vi.fn().mockReturnValue([]),
+  recordCardEvents: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("@/lib/webhooks/delivery", () => ({
+  dispatchWebhookEvent: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("@/lib/card-recurrence", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/card-recurrence")>()),
+  createNextRecurringCard: vi.fn().mockResolvedValue("next-card-id"),
+}));
+
+const mockAuth = vi.mocked(getAuthorizedUser);
+
+const CARD_ID = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
+const BOARD_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const USER = { id: "u1" };
+
+const EXISTING_CARD = {
+  id: CARD_ID,
+  board_id: BOARD_ID,
+  column_id: 1,
+  created_by: USER.id,
+  title: "Card",
+  description: null,
+  priority: "medium",
+  due_date: null,
+  assignee_id: null,
+  completed_at: null,
+};
+
+const params = { params: Promise.resolve({ id: CARD_ID }) };
+const request = (body: unknown) =>
+  new NextRequest(`http://localhost/api/cards/${CARD_ID}`, {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+
+/** Queue results per table (see supabaseMock) for the signed-in user. */
+function mockClient(results: Record<string, unknown[]>) {
+  const { client, calls } = supabaseMock(results);
+  mockAuth.mockResolvedValue({ supabase: client, user: USER as never });
+  return calls;
+}
+
+describe("PATCH /api/cards/[id] — column moves", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBoardMutationAuthorization).mockResolvedValue({
+      ok: true,
+      role: "member",
+    });
+    vi.mocked(createAdminClient).mockReturnValue({} as never);
+  });
+
+  it("completes the card when it moves into a done column", async () => {
+    const calls = mockClient({
+      cards: [
+        { data: EXISTING_CARD, error: null },
+        {
+          data: { ...EXISTING_CARD, column_id: 3, completed_at: "2026-03-01" },
+          error: null,
+        },
+      ],
+      columns: [
+        {
+          data: { id: 3, board_id: BOARD_ID, title: "Done", is_done: true },
+          error: null,
+        },
+      ],
+    });
+
+    const res = await PATCH(request({ columnId: 3 }), params);
+
+    expect(res.status).toBe(200);
+    const updates = callArgs(calls, "update");
+    expect(updates[0]).toMatchObject({
+      column_id: 3,
+      completed_at: expect.any(String),
+    });
+  });
+
+  it("reopens the card when it moves out of a done column", async () => {
+    const calls = mockClient({
+      cards: [
+        {
+          data: { ...EXISTING_CARD, completed_at: "2026-03-01T00:00:00Z" },
+          error: null,
+        },
+        { data: { ...EXISTING_CARD, column_id: 2 }, error: null },
+      ],
+      columns: [
+        {
+          data: { id: 2, board_id: BOARD_ID, title: "Doing", is_done: false },
+          error: null,
+        },
+      ],
+    });
+
+    const res = await PATCH(request({ columnId: 2 }), params);
+
+    expect(res.status).toBe(200);
+    const updates = callArgs(calls, "update");
+    expect(updates[0]).toMatchObject({ column_id: 2, completed_at: null });
+  });
+
+  it("rejects moving into a full hard-limit column", async () => {
+    const calls = mockClient({
+      cards: [
+        { data: EXISTING_CARD, error: null },
+        { count: 2, error: null },
+      ],
+      columns: [
+        {
+          data: {
+            id: 2,
+            board_id: BOARD_ID,
+            title: "Doing",
+            is_done: false,
+            wip_limit: 2,
+            wip_limit_hard: true,
+          },
+          error: null,
+        },
+      ],
+    });
+
+    const res = await PATCH(request({ columnId: 2 }), params);
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({ columnId: 2, wipLimit: 2 });
+    const updates = callArgs(calls, "update");
+    expect(updates).toEqual([]);
+  });
+});
+
+describe("PATCH /api/cards/[id] — recurring cards", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBoardMutationAuthorization).mockResolvedValue({
+      ok: true,
+      role: "member",
+    });
+    vi.mocked(createAdminClient).mockReturnValue({} as never);
+  });
+
+  it("creates the next instance when a recurring card is completed", async () => {
+    const completed = {
+      ...EXISTING_CARD,
+      column_id: 3,
+      completed_at: "2026-03-01T10:00:00.000Z",
+      recurrence_rule: "FREQ=DAILY",
+    };
+    mockClient({
+      cards: [
+        { data: EXISTING_CARD, error: null },
+        { data: completed, error: null },
+      ],
+      columns: [
+        {
+          data: { id: 3, board_id: BOARD_ID, title: "Done", is_done: true },
+          error: null,
+        },
+      ],
+    });
+
+    const res = await PATCH(request({ columnId: 3 }), params);
+
+    expect(res.status).toBe(200);
+    expect(createNextRecurringCard).toHaveBeenCalledWith(
+      expect.anything(),
+      completed,
+      { actorId: USER.id, completedAt: completed.completed_at },
+    );
+    expect(await res.json()).toMatchObject({
+      card: { recurrenceRule: "FREQ=DAILY" },
+      nextCardId: "next-card-id",
+    });
+  });
+
+  it("stores recurrence rules canonically and rejects unsupported ones", async () => {
+    const calls = mockClient({
+      cards: [
+        { data: EXISTING_CARD, error: null },
+        { data: EXISTING_CARD, error: null },
+      ],
+    });
+
+    const res = await PATCH(
+      request({ recurrenceRule: "rrule:freq=weekly;byday=fr,mo" }),
+      params,
+    );
+    expect(res.status).toBe(200);
+    const updates = callArgs(calls, "update");
+    expect(updates[0]).toEqual({ recurrence_rule: "FREQ=WEEKLY;BYDAY=MO,FR" });
+    expect(createNextRecurringCard).not.toHaveBeenCalled();
+
+    const invalid = await PATCH(
+      request({ recurrenceRule: "FREQ=YEARLY" }),
+      params,
+    );
+    expect(invalid.status).toBe(400);
+  });
+
+  it("rejects a done column as the recurrence column", async () => {
+    const calls = mockClient({
+      cards: [{ data: EXISTING_CARD, error: null }],
+      columns: [{ data: { id: 3, is_done: true }, error: null }],
+    });
+
+    const res = await PATCH(request({ recurrenceColumnId: 3 }), params);
+
+    expect(res.status).toBe(400);
+    const updates = callArgs(calls, "update");
+    expect(updates).toEqual([]);
+  });
+});
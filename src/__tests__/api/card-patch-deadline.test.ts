@@ -23,6 +23,10 @@ vi.mock("@/lib/board-access", () => ({
 vi.mock("@/lib/notifications", () => ({
   createNotifications: vi.fn().mockResolvedValue(undefined),
 }));
+vi.mock("@/lib/card-events", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/card-events")>()),
+  recordCardEvents: vi.fn().mockResolvedValue(undefined),
+}));
 
 const CARD_ID = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
 const BOARD_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
@@ -241,3 +245,46 @@ describe("PATCH /api/cards/[id] — deadline guard", () => {
     expect(res.status).toBe(200);
   });
 });
+
+describe("PATCH /api/cards/[id] — start date", () => {
+  const card = {
+    id: CARD_ID,
+    board_id: BOARD_ID,
+    column_id: 1,
+    created_by: CREATOR_ID,
+    start_date: null,
+    due_date: "2026-06-10T23:59:59.999Z",
+    assignee_id: null,
+    completed_at: null,
+  };
+
+  it("lets a non-creator change startDate without touching the deadline", async () => {
+    mockGetSessionUser.mockResolvedValue({
+      supabase: makeSupabase(OTHER_ID, card) as never,
+      user: { id: OTHER_ID } as never,
+    });
+
+    const res = await PATCH(
+      buildRequest({ startDate: "2026-06-01T00:00:00.000Z" }),
+      params,
+    );
+
+    expect(res.status).toBe(200);
+  });
+
+  it("rejects a start date after the due date", async () => {
+    mockGetSessionUser.mockResolvedValue({
+      supabase: makeSupabase(OTHER_ID, card) as never,
+      user: { id: OTHER_ID } as never,
+    });
+
+    const res = await PATCH(
+      buildRequest({ startDate: "2026-06-11T00:00:00.000Z" }),
+      params,
+    );
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toMatch(/start date/i);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Tests for the card trash: DELETE /api/cards/[id] moves the card to the
+ * trash, POST /api/cards/[id]/restore takes it out again and
+ * GET /api/boards/[id]/trash lists it for owners and admins.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { DELETE as deleteCard } from "@/app/api/cards/[id]/route";
+import { POST as restoreCard } from "@/app/api/cards/[id]/restore/route";
+import { GET as listTrash } from "@/app/api/boards/[id]/trash/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  getBoardMutationAuthorization,
+  getBoardRoleForUser,
+} from "@/lib/board-access";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/supabase/admin", () => ({ createAdminClient: vi.fn() }));
+vi.mock("@/lib/board-access", () => ({
+  getBoardMutationAuthorization: vi.fn(),
+  getBoardRoleForUser: vi.fn(),
+}));
+
+const BOARD_ID = "11111111-1111-4111-8111-111111111111";
+const CARD_ID = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
+const USER = { id: "u1" };
+
+function mockClients(
+  results: Record<string, unknown[]>,
+  adminResults: Record<string, unknown[]> = {},
+) {
+  const user = supabaseMock(results);
+  const admin = supabaseMock(adminResults);
+  vi.mocked(getAuthorizedUser).mockResolvedValue({
+    supabase: user.client,
+    user: USER as never,
+  });
+  vi.mocked(createAdminClient).mockReturnValue(admin.client);
+  return { calls: user.calls, adminCalls: admin.calls };
+}
+
+const cardParams = { params: Promise.resolve({ id: CARD_ID }) };
+
+describe("DELETE /api/cards/[id]", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const remove = () =>
+    deleteCard(
+      new NextRequest(`http://localhost/api/cards/${CARD_ID}`, {
+        method: "DELETE",
+      }),
+      cardParams,
+    );
+
+  it("moves the card to the trash instead of deleting it", async () => {
+    vi.mocked(getBoardMutationAuthorization).mockResolvedValue({
+      ok: true,
+      role: "admin",
+    });
+    const { calls, adminCalls } = mockClients({
+      cards: [{ data: { id: CARD_ID, board_id: BOARD_ID }, error: null }],
+    });
+
+    const res = await remove();
+
+    expect(res.status).toBe(200);
+    const update = adminCalls.find((call) => call.method === "update");
+    expect(update?.args[0]).toMatchObject({ deleted_by: "u1" });
+    expect(
+      [...calls, ...adminCalls].some((call) => call.method === "delete"),
+    ).toBe(false);
+    // Other viewers learn about the trashed card from this event
+    expect(adminCalls).toContainEqual({
+      table: "card_events",
+      method: "insert",
+      args: [[expect.objectContaining({ event_type: "trashed" })]],
+    });
+  });
+
+  it("rejects members like the delete policy does", async () => {
+    vi.mocked(getBoardMutationAuthorization).mockResolvedValue({
+      ok: true,
+      role: "member",
+    });
+    const { adminCalls } = mockClients({
+      cards: [{ data: { id: CARD_ID, board_id: BOARD_ID }, error: null }],
+    });
+
+    const res = await remove();
+
+    expect(res.status).toBe(403);
+    expect(adminCalls).toHaveLength(0);
+  });
+});
+
+describe("POST /api/cards/[id]/restore", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBoardMutationAuthorization).mockResolvedValue({
+      ok: true,
+      role: "owner",
+    });
+  });
+
+  const restore = () =>
+    restoreCard(
+      new NextRequest(`http://localhost/api/cards/${CARD_ID}/restore`, {
+        method: "POST",
+      }),
+      cardParams,
+    );
+
+  it("puts the card back at its original column and position", async () => {
+    const { adminCalls } = mockClients(
+      {},
+      {
+        cards: [
+          {
+            data: {
+              id: CARD_ID,
+              board_id: BOARD_ID,
+              column_id: 4,
+              position: 2,
+              deleted_at: "2026-06-01T08:00:00Z",
+            },
+            error: null,
+          },
+          { data: [], error: null },
+        ],
+      },
+    );
+
+    const res = await restore();
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      id: CARD_ID,
+      columnId: 4,
+      position: 2,
+    });
+    expect(adminCalls).toContainEqual({
+      table: "cards",
+      method: "update",
+      args: [{ deleted_at: null, deleted_by: null }],
+    });
+  });
+
+  it("returns 404 for a card that is not in the trash", async () => {
+    mockClients(
+      {},
+      {
+        cards: [
+          {
+            data: {
+              id: CARD_ID,
+              board_id: BOARD_ID,
+              column_id: 4,
+              position: 2,
+              deleted_at: null,
+            },
+            error: null,
+          },
+        ],
+      },
+    );
+
+    const res = await restore();
+
+    expect(res.status).toBe(404);
+    expect(getBoardMutationAuthorization).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/boards/[id]/trash", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const list = () =>
+    listTrash(
+      new NextRequest(`http://localhost/api/boards/${BOARD_ID}/trash`),
+      {
+        params: Promise.resolve({ id: BOARD_ID }),
+      },
+    );
+
+  it("lists trashed cards with who deleted them and when they expire", async () => {
+    vi.mocked(getBoardRoleForUser).mockResolvedValue("admin");
+    mockClients(
+      { boards: [{ data: { trash_retention_days: 7 }, error: null }] },
+      {
+        cards: [
+          {
+            data: [
+              {
+                id: CARD_ID,
+                title: "Misclicked",
+                column_id: 4,
+                position: 2,
+                deleted_at: "2026-06-01T08:00:00.000Z",
+                columns: { title: "Doing" },
+                deleter: { id: "u1", name: "Ada", email: "ada@example.com" },
+              },
+            ],
+            error: null,
+          },
+        ],
+      },
+    );
+
+    const res = await list();
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      retentionDays: 7,
+      cards: [
+        {
+          id: CARD_ID,
+          title: "Misclicked",
+          columnId: 4,
+          columnTitle: "Doing",
+          position: 2,
+          deletedAt: "2026-06-01T08:00:00.000Z",
+          deletedBy: { id: "u1", name: "Ada", email: "ada@example.com" },
+          purgeAt: "2026-06-08T08:00:00.000Z",
+        },
+      ],
+    });
+  });
+
+  it("is limited to owners and admins", async () => {
+    vi.mocked(getBoardRoleForUser).mockResolvedValue("member");
+    const { adminCalls } = mockClients({});
+
+    const res = await list();
+
+    expect(res.status).toBe(403);
+    expect(adminCalls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST as bulkUpdateCards } from "@/app/api/cards/bulk-update/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { callArgs, supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/supabase/admin", () => ({ createAdminClient: vi.fn() }));
+vi.mock("@/lib/board-access", () => ({
+  getBoardMutationAuthorization: vi.fn(),
+}));
+vi.mock("@/lib/notifications", () => ({
+  createNotifications: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("@/lib/card-events", () => ({
+  recordCardEvents: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("@/lib/webhooks/delivery", () => ({
+  dispatchWebhookEvent: vi.fn().mockResolvedValue(undefined),
+}));
+
+const mockAuth = vi.mocked(getAuthorizedUser);
+const mockAuthorization = vi.mocked(getBoardMutationAuthorization);
+
+const BOARD_ID = "11111111-1111-4111-8111-111111111111";
+const CARD_A = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
+const CARD_B = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const USER = { id: "u1" };
+
+const DOING = {
+  id: 2,
+  board_id: BOARD_ID,
+  is_done: false,
+  title: "Doing",
+  wip_limit: 2,
+  wip_limit_hard: true,
+};
+
+/** Queue results per table (see supabaseMock) for the signed-in user. */
+function mockClient(results: Record<string, unknown[]>) {
+  const { client, calls } = supabaseMock(results);
+  mockAuth.mockResolvedValue({ supabase: client, user: USER as never });
+  return calls;
+}
+
+const request = (updates: unknown[]) =>
+  new NextRequest("http://localhost/api/cards/bulk-update", {
+    method: "POST",
+    body: JSON.stringify({ updates }),
+  });
+
+describe("POST /api/cards/bulk-update — WIP limits", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthorization.mockResolvedValue({ ok: true } as never);
+  });
+
+  it("rejects moving a card into a full hard-limit column", async () => {
+    const calls = mockClient({
+      cards: [
+        {
+          data: [{ id: CARD_A, board_id: BOARD_ID, column_id: 1 }],
+          error: null,
+        },
+        {
+          data: [
+            { id: "c1", column_id: 2 },
+            { id: "c2", column_id: 2 },
+          ],
+          error: null,
+        },
+      ],
+      columns: [{ data: [DOING], error: null }],
+    });
+
+    const res = await bulkUpdateCards(
+      request([{ id: CARD_A, columnId: 2, position: 3 }]),
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(409);
+    expect(body).toMatchObject({ columnId: 2, wipLimit: 2 });
+    const updates = callArgs(calls, "update");
+    expect(updates).toEqual([]);
+  });
+
+  it("allows reordering inside a column that is at its limit", async () => {
+    const calls = mockClient({
+      cards: [
+        {
+          data: [
+            { id: CARD_A, board_id: BOARD_ID, column_id: 2 },
+            { id: CARD_B, board_id: BOARD_ID, column_id: 2 },
+          ],
+          error: null,
+        },
+        {
+          data: [
+            { id: CARD_A, column_id: 2 },
+            { id: CARD_B, column_id: 2 },
+          ],
+          error: null,
+        },
+      ],
+      columns: [{ data: [DOING], error: null }],
+      boards: [{ data: { owner_id: USER.id }, error: null }],
+    });
+
+    const res = await bulkUpdateCards(
+      request([
+        { id: CARD_A, columnId: 2, position: 2 },
+        { id: CARD_B, columnId: 2, position: 1 },
+      ]),
+    );
+
+    expect(res.status).toBe(200);
+    const updates = callArgs(calls, "update");
+    expect(updates).toHaveLength(2);
+  });
+
+  it("ignores advisory limits", async () => {
+    mockClient({
+      cards: [
+        {
+          data: [{ id: CARD_A, board_id: BOARD_ID, column_id: 1 }],
+          error: null,
+        },
+      ],
+      columns: [{ data: [{ ...DOING, wip_limit_hard: false }], error: null }],
+      boards: [{ data: { owner_id: USER.id }, error: null }],
+    });
+
+    const res = await bulkUpdateCards(
+      request([{ id: CARD_A, columnId: 2, position: 3 }]),
+    );
+
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,285 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET as listCards } from "@/app/api/cards/route";
+import { GET as getCard } from "@/app/api/cards/[id]/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import { decodeCursor, encodeCursor } from "@/lib/api/cursor";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/board-access", () => ({
+  getBoardMutationAuthorization: vi.fn(),
+  getBoardRoleForUser: vi.fn(),
+}));
+
+const mockAuth = vi.mocked(getAuthorizedUser);
+const mockRole = vi.mocked(getBoardRoleForUser);
+
+const USER = { id: "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa" };
+const BOARD_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const CARD_ID = "cccccccc-cccc-4ccc-8ccc-cccccccccccc";
+const C1 = "c1c1c1c1-0000-4000-8000-000000000001";
+const C2 = "c2c2c2c2-0000-4000-8000-000000000002";
+const C3 = "c3c3c3c3-0000-4000-8000-000000000003";
+
+const cardRow = (id: string, createdAt: string) => ({
+  id,
+  board_id: BOARD_ID,
+  column_id: 1,
+  title: `Card ${id}`,
+  description: null,
+  position: 1,
+  due_date: null,
+  priority: "high",
+  completed_at: null,
+  created_at: createdAt,
+  updated_at: createdAt,
+  created_by: USER.id,
+  created_via: "api",
+  external_ref: null,
+  assignee_id: null,
+  card_labels: [],
+});
+
+function makeListMock(rows: unknown[]) {
+  const chain = {
+    eq: vi.fn().mockReturnThis(),
+    in: vi.fn().mockReturnThis(),
+    lt: vi.fn().mockReturnThis(),
+    gte: vi.fn().mockReturnThis(),
+    or: vi.fn().mockReturnThis(),
+    order: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockResolvedValue({ data: rows, error: null }),
+  };
+  return { chain, client: { from: vi.fn(() => ({ select: () => chain })) } };
+}
+
+describe("GET /api/cards", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("returns 401 when not authenticated", async () => {
+    mockAuth.mockResolvedValue({ supabase: {} as never, user: null });
+    const res = await listCards(new NextRequest("http://localhost/api/cards"));
+    expect(res.status).toBe(401);
+    expect(mockAuth).toHaveBeenCalledWith({ scope: "cards:read" });
+  });
+
+  it("rejects invalid filters and cursors", async () => {
+    mockAuth.mockResolvedValue({ supabase: {} as never, user: USER as never });
+    const badPriority = await listCards(
+      new NextRequest("http://localhost/api/cards?priority=urgent"),
+    );
+    expect(badPriority.status).toBe(400);
+    const badCursor = await listCards(
+      new NextRequest("http://localhost/api/cards?cursor=garbage"),
+    );
+    expect(badCursor.status).toBe(400);
+  });
+
+  it("returns 404 for a board the caller cannot see", async () => {
+    mockAuth.mockResolvedValue({ supabase: {} as never, user: USER as never });
+    mockRole.mockResolvedValue(null);
+    const res = await listCards(
+      new NextRequest(`http://localhost/api/cards?boardId=${BOARD_ID}`),
+    );
+    expect(res.status).toBe(404);
+  });
+
+  it("applies filters and returns a cursor when more rows exist", async () => {
+    const rows = [
+      cardRow(C1, "2026-01-01T00:00:00"),
+      cardRow(C2, "2026-01-02T00:00:00"),
+      cardRow(C3, "2026-01-03T00:00:00"),
+    ];
+    const { chain, client } = makeListMock(rows);
+    mockAuth.mockResolvedValue({
+      supabase: client as never,
+      user: USER as never,
+    });
+    mockRole.mockResolvedValue("member");
+
+    const res = await listCards(
+      new NextRequest(
+        `http://localhost/api/cards?boardId=${BOARD_ID}&priority=high&limit=2`,
+      ),
+    );
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.cards.map((c: { id: string }) => c.id)).toEqual([C1, C2]);
+    expect(json.cards[0]).toMatchObject({
+      boardId: BOARD_ID,
+      priority: "high",
+      createdVia: "api",
+      labels: [],
+    });
+    expect(decodeCursor(json.nextCursor)).toEqual({
+      createdAt: "2026-01-02T00:00:00",
+      id: C2,
+    });
+    expect(chain.eq).toHaveBeenCalledWith("board_id", BOARD_ID);
+    expect(chain.eq).toHaveBeenCalledWith("priority", "high");
+    expect(chain.limit).toHaveBeenCalledWith(3);
+  });
+
+  it("continues after the cursor and ends with a null cursor", async () => {
+    const { chain, client } = makeListMock([
+      cardRow(C3, "2026-01-03T00:00:00"),
+    ]);
+    mockAuth.mockResolvedValue({
+      supabase: client as never,
+      user: USER as never,
+    });
+    const cursor = encodeCursor({ createdAt: "2026-01-02T00:00:00", id: C2 });
+
+    const res = await listCards(
+      new NextRequest(`http://localhost/api/cards?cursor=${cursor}&limit=2`),
+    );
+    const json = await res.json();
+    expect(json.cards).toHaveLength(1);
+    expect(json.nextCursor).toBeNull();
+    expect(chain.or).toHaveBeenCalledWith(
+      expect.stringContaining(`id.gt."${C2}"`),
+    );
+  });
+
+  it("rejects a card query that does not parse", async () => {
+    mockAuth.mockResolvedValue({ supabase: {} as never, user: USER as never });
+    const res = await listCards(
+      new NextRequest(
+        `http://localhost/api/cards?q=${encodeURIComponent("priority:urgent")}`,
+      ),
+    );
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json.details).toEqual([
+      expect.objectContaining({
+        code: "invalid-value",
+        term: "priority:urgent",
+      }),
+    ]);
+  });
+
+  it("filters the scanned rows by the card query", async () => {
+    const rows = [
+      { ...cardRow("c1", "2026-01-01T00:00:00"), assignee_id: USER.id },
+      cardRow("c2", "2026-01-02T00:00:00"),
+      {
+        ...cardRow("c3", "2026-01-03T00:00:00"),
+        assignee_id: USER.id,
+        completed_at: "2026-01-04T00:00:00",
+      },
+    ];
+    const { chain, client } = makeListMock(rows);
+    mockAuth.mockResolvedValue({
+      supabase: client as never,
+      user: USER as never,
+    });
+
+    const res = await listCards(
+      new NextRequest(
+        `http://localhost/api/cards?q=${encodeURIComponent("assignee:me -is:done")}&limit=2`,
+      ),
+    );
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.cards.map((c: { id: string }) => c.id)).toEqual(["c1"]);
+    // Fewer rows than a batch came back, so the scan reached the end.
+    expect(json.nextCursor).toBeNull();
+    expect(chain.limit).toHaveBeenCalledWith(200);
+  });
+});
+
+describe("GET /api/cards/[id]", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  it("returns 404 when the card is not visible", async () => {
+    mockAuth.mockResolvedValue({
+      supabase: {
+        from: () => ({
+          select: () => ({
+            eq: () => ({
+              single: vi
+                .fn()
+                .mockResolvedValue({ data: null, error: { code: "PGRST116" } }),
+            }),
+          }),
+        }),
+      } as never,
+      user: USER as never,
+    });
+    const res = await getCard(
+      new NextRequest(`http://localhost/api/cards/${CARD_ID}`),
+      params(CARD_ID),
+    );
+    expect(res.status).toBe(404);
+  });
+
+  it("returns the card with subtasks and counts", async () => {
+    const subtasksChain = {
+      eq: vi.fn().mockReturnThis(),
+      is: vi.fn().mockReturnThis(),
+      order: vi.fn().mockReturnValueOnce({
+        order: vi.fn().mockResolvedValue({
+          data: [
+            {
+              id: "s1",
+              card_id: CARD_ID,
+              title: "Sub",
+              completed_at: null,
+              position: 1,
+              created_at: "2026-01-01T00:00:00",
+            },
+          ],
+          error: null,
+        }),
+      }),
+    };
+    const commentsChain = {
+      eq: vi.fn().mockReturnThis(),
+      is: vi.fn().mockResolvedValue({ count: 3, error: null }),
+    };
+    const supabase = {
+      from: vi.fn((table: string) => {
+        if (table === "cards") {
+          return {
+            select: () => ({
+              eq: () => ({
+                single: vi.fn().mockResolvedValue({
+                  data: {
+                    ...cardRow(CARD_ID, "2026-01-01T00:00:00"),
+                    attachment_count: 2,
+                  },
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        if (table === "card_subtasks") return { select: () => subtasksChain };
+        return { select: () => commentsChain };
+      }),
+    };
+    mockAuth.mockResolvedValue({
+      supabase: supabase as never,
+      user: USER as never,
+    });
+
+    const res = await getCard(
+      new NextRequest(`http://localhost/api/cards/${CARD_ID}`),
+      params(CARD_ID),
+    );
+    expect(res.status).toBe(200);
+    const { card } = await res.json();
+    expect(card).toMatchObject({
+      id: CARD_ID,
+      commentsCount: 3,
+      attachmentCount: 2,
+      subtasks: [{ id: "s1", title: "Sub" }],
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { PATCH } from "@/app/api/changesets/board/[id]/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { dispatchWebhookEvent } from "@/lib/webhooks/delivery";
+import { callArgs, supabaseMock } from "../helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+}));
+vi.mock("@/lib/board-access", () => ({
+  getBoardMutationAuthorization: vi.fn(),
+}));
+vi.mock("@/lib/supabase/admin", () => ({
+  createAdminClient: vi.fn(),
+}));
+vi.mock("@/lib/webhooks/delivery", () => ({
+  dispatchWebhookEvent: vi.fn(),
+}));
+
+const mockAuth = vi.mocked(getAuthorizedUser);
+const mockBoardAuth = vi.mocked(getBoardMutationAuthorization);
+const mockAdmin = vi.mocked(createAdminClient);
+const mockDispatch = vi.mocked(dispatchWebhookEvent);
+
+const BOARD_ID = "3fa85f64-5717-4562-b3fc-2c963f66afa6";
+
+const validPayload = {
+  columns: [{ title: "Review", position: 3 }],
+  cards: [{ externalRef: "T-1", columnRef: "Review", title: "Plan" }],
+};
+
+const buildReq = (body: unknown) =>
+  new NextRequest(`http://localhost/api/changesets/board/${BOARD_ID}`, {
+    method: "PATCH",
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+
+const ctx = (id = BOARD_ID) => ({ params: Promise.resolve({ id }) });
+
+describe("PATCH /api/changesets/board/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockBoardAuth.mockResolvedValue({ ok: true, role: "member" });
+  });
+
+  it("returns 401 when unauthenticated", async () => {
+    mockAuth.mockResolvedValue({ supabase: {} as never, user: null });
+    const res = await PATCH(buildReq(validPayload), ctx());
+    expect(res.status).toBe(401);
+    expect(mockAuth).toHaveBeenCalledWith({ scope: "changesets:write" });
+  });
+
+  it("returns 400 on an invalid payload", async () => {
+    mockAuth.mockResolvedValue({
+      supabase: { rpc: vi.fn() } as never,
+      user: { id: "u1" } as never,
+    });
+    const res = await PATCH(
+      buildReq({ cards: [{ columnRef: "", title: "x" }] }),
+      ctx(),
+    );
+    expect(res.status).toBe(400);
+    expect((await res.json()).at).toBe("cards.0.columnRef");
+  });
+
+  it("returns the board authorization failure", async () => {
+    const rpcSpy = vi.fn();
+    mockAuth.mockResolvedValue({
+      supabase: { rpc: rpcSpy } as never,
+      user: { id: "u1" } as never,
+    });
+    mockBoardAuth.mockResolvedValue({
+      ok: false,
+      status: 403,
+      error: "Insufficient permissions",
+    });
+    const res = await PATCH(buildReq(validPayload), ctx());
+    expect(res.status).toBe(403);
+    expect(rpcSpy).not.toHaveBeenCalled();
+  });
+
+  it("calls the RPC with the board id and returns its counts", async () => {
+    const rpcResult = {
+      board: { id: BOARD_ID, name: "Q3", updated: false },
+      counts: {
+        columns: { created: 1, updated: 0, unchanged: 0 },
+        cards: { created: 1, updated: 0, unchanged: 0 },
+        subtasks: { created: 0, updated: 0, unchanged: 0 },
+      },
+      cards: [
+        {
+          id: "c1",
+          externalRef: "T-1",
+          title: "Plan",
+          columnId: 3,
+          status: "created",
+        },
+      ],
+    };
+    const rpcSpy = vi.fn().mockResolvedValue({ data: rpcResult, error: null });
+    mockAuth.mockResolvedValue({
+      supabase: { rpc: rpcSpy } as never,
+      user: { id: "u1" } as never,
+    });
+
+    const res = await PATCH(buildReq(validPayload), ctx());
+    expect(res.status).toBe(200);
+    expect(rpcSpy).toHaveBeenCalledWith(
+      "apply_board_changeset",
+      expect.objectContaining({ p_board_id: BOARD_ID }),
+    );
+    expect(await res.json()).toEqual(rpcResult);
+  });
+
+  it("maps unresolved references from the RPC to 400", async () => {
+    const rpcSpy = vi.fn().mockResolvedValue({
+      data: null,
+      error: {
+        code: "22023",
+        message: 'columnRef "Nope" does not match any column on this board',
+      },
+    });
+    mockAuth.mockResolvedValue({
+      supabase: { rpc: rpcSpy } as never,
+      user: { id: "u1" } as never,
+    });
+    const res = await PATCH(buildReq(validPayload), ctx());
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/columnRef "Nope"/);
+  });
+
+  it("maps a board the RPC cannot see to 404", async () => {
+    const rpcSpy = vi.fn().mockResolvedValue({
+      data: null,
+      error: { code: "P0002", message: `board ${BOARD_ID} not found` },
+    });
+    mockAuth.mockResolvedValue({
+      supabase: { rpc: rpcSpy } as never,
+      user: { id: "u1" } as never,
+    });
+    const res = await PATCH(buildReq(validPayload), ctx());
+    expect(res.status).toBe(404);
+    expect((await res.json()).error).toBe("Board not found");
+  });
+
+  it("records history and webhooks for changed cards and drops `changes`", async () => {
+    const before = {
+      id: "c2",
+      title: "Ship",
+      description: null,
+      assignee_id: null,
+      priority: "medium",
+      due_date: "2026-05-01T00:00:00+00:00",
+      column_id: 1,
+      completed_at: null,
+    };
+    const after = {
+      ...before,
+      due_date: "2026-05-08T00:00:00+00:00",
+      column_id: 3,
+      completed_at: "2026-04-20T10:00:00+00:00",
+    };
+    const rpcResult = {
+      board: { id: BOARD_ID, name: "Q3", updated: false },
+      counts: {
+        columns: { created: 0, updated: 0, unchanged: 1 },
+        cards: { created: 0, updated: 1, unchanged: 0, rejected: 0 },
+        subtasks: { created: 0, updated: 0, unchanged: 0 },
+      },
+      cards: [
+        {
+          id: "c2",
+          externalRef: "T-2",
+          title: "Ship",
+          columnId: 3,
+          status: "updated",
+        },
+      ],
+    };
+    const rpcSpy = vi.fn().mockResolvedValue({
+      data: {
+        ...rpcResult,
+        changes: [
+          { id: "c2", status: "updated", columnTitle: "Done", before, after },
+        ],
+      },
+      error: null,
+    });
+    mockAuth.mockResolvedValue({
+      supabase: { rpc: rpcSpy } as never,
+      user: { id: "u1" } as never,
+    });
+    const admin = supabaseMock();
+    mockAdmin.mockReturnValue(admin.client);
+
+    const res = await PATCH(buildReq(validPayload), ctx());
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(rpcResult);
+
+    const [events] = callArgs(admin.calls, "insert", "card_events") as [
+      { event_type: string; board_id: string; actor_id: string }[],
+    ];
+    expect(events.map((e) => e.event_type)).toEqual([
+      "due_date_changed",
+      "moved",
+      "completed",
+    ]);
+    expect(events[0]).toMatchObject({ board_id: BOARD_ID, actor_id: "u1" });
+    expect(mockDispatch.mock.calls.map(([event]) => event.type)).toEqual([
+      "card.moved",
+      "card.completed",
+      "deadline.changed",
+    ]);
+    expect(mockDispatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "deadline.changed",
+        data: expect.objectContaining({
+          previousDueDate: "2026-05-01T00:00:00.000Z",
+          newDueDate: "2026-05-08T00:00:00.000Z",
+          changeType: "direct",
+        }),
+      }),
+    );
+  });
+
+  it("sends card.created for cards the changeset created", async () => {
+    const after = {
+      id: "c1",
+      title: "Plan",
+      description: null,
+      assignee_id: null,
+      priority: "medium",
+      due_date: null,
+      column_id: 3,
+      completed_at: null,
+    };
+    const rpcSpy = vi.fn().mockResolvedValue({
+      data: {
+        cards: [],
+        changes: [
+          {
+            id: "c1",
+            status: "created",
+            columnTitle: "Review",
+            before: null,
+            after,
+          },
+        ],
+      },
+      error: null,
+    });
+    mockAuth.mockResolvedValue({
+      supabase: { rpc: rpcSpy } as never,
+      user: { id: "u1" } as never,
+    });
+    const admin = supabaseMock();
+    mockAdmin.mockReturnValue(admin.client);
+
+    const res = await PATCH(buildReq(validPayload), ctx());
+    expect(res.status).toBe(200);
+    expect(mockDispatch).toHaveBeenCalledTimes(1);
+    expect(mockDispatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "card.created",
+        boardId: BOARD_ID,
+        data: {
+          card: expect.objectContaining({ id: "c1", columnId: 3 }),
+        },
+      }),
+    );
+    expect(callArgs(admin.calls, "insert", "card_events")).toEqual([]);
+  });
+});
@@ -157,6 +157,63 @@ describe("POST /api/changesets/board", () => {
     expect(rpcSpy).not.toHaveBeenCalled();
   });
 
+  it("returns the plan without calling the RPC on dryRun", async () => {
+    const rpcSpy = vi.fn();
+    mockAuth.mockResolvedValue({
+      supabase: { rpc: rpcSpy } as never,
+      user: { id: "u1", tokenId: "t-dry" } as never,
+    });
+
+    const res = await POST(
+      new NextRequest("http://localhost/api/changesets/board?dryRun=true", {
+        method: "POST",
+        body: JSON.stringify(validPayload),
+        headers: {
+          "Content-Type": "application/json",
+          "idempotency-key": "dry",
+        },
+      }),
+    );
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.dryRun).toBe(true);
+    expect(body.counts).toEqual({ columns: 2, cards: 1, subtasks: 0 });
+    expect(body.columns[0].cards[0].title).toBe("Plan");
+    expect(rpcSpy).not.toHaveBeenCalled();
+    expect(mockAdmin).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 when the target group is not visible", async () => {
+    const rpcSpy = vi.fn();
+    mockAuth.mockResolvedValue({
+      supabase: {
+        rpc: rpcSpy,
+        from: vi.fn(() => ({
+          select: vi.fn(() => ({
+            eq: vi.fn(() => ({
+              maybeSingle: vi
+                .fn()
+                .mockResolvedValue({ data: null, error: null }),
+            })),
+          })),
+        })),
+      } as never,
+      user: { id: "u1" } as never,
+    });
+
+    const res = await POST(
+      buildReq({
+        ...validPayload,
+        board: {
+          name: "Q3",
+          groupId: "3fa85f64-5717-4562-b3fc-2c963f66afa6",
+        },
+      }),
+    );
+    expect(res.status).toBe(404);
+    expect(rpcSpy).not.toHaveBeenCalled();
+  });
+
   it("returns 429 when token rate limit is exceeded", async () => {
     _resetRateLimitForTests();
     const rpcSpy = vi.fn().mockResolvedValue({ data: {}, error: null });
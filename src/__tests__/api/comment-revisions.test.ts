@@ -0,0 +1,175 @@
+/**
+ * Tests for comment edit history (GET /api/comments/[id]/revisions) and the
+ * moderation view of deleted comments in GET /api/comments.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET as listComments } from "@/app/api/comments/route";
+import { GET as listRevisions } from "@/app/api/comments/[id]/revisions/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/supabase/admin", () => ({ createAdminClient: vi.fn() }));
+vi.mock("@/lib/board-access", () => ({ getBoardRoleForUser: vi.fn() }));
+vi.mock("@/lib/notifications", () => ({ createNotifications: vi.fn() }));
+vi.mock("@/lib/webhooks/delivery", () => ({
+  dispatchWebhookEvent: vi.fn(),
+}));
+
+const BOARD_ID = "11111111-1111-4111-8111-111111111111";
+const CARD_ID = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
+const COMMENT_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const USER = { id: "u1" };
+
+function mockClient(results: Record<string, unknown[]>) {
+  const { client, calls } = supabaseMock(results);
+  vi.mocked(getAuthorizedUser).mockResolvedValue({
+    supabase: client,
+    user: USER as never,
+  });
+  return calls;
+}
+
+const revisionsRequest = () =>
+  listRevisions(
+    new NextRequest(`http://localhost/api/comments/${COMMENT_ID}/revisions`),
+    { params: Promise.resolve({ id: COMMENT_ID }) },
+  );
+
+const commentRow = (deletedAt: string | null) => ({
+  data: {
+    id: COMMENT_ID,
+    deleted_at: deletedAt,
+    cards: { board_id: BOARD_ID },
+  },
+  error: null,
+});
+
+describe("GET /api/comments/[id]/revisions", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("returns the previous bodies, newest first", async () => {
+    const calls = mockClient({
+      comments: [commentRow(null)],
+      comment_revisions: [
+        {
+          data: [
+            {
+              id: "r2",
+              body: "second",
+              created_at: "2026-06-02T00:00:00Z",
+              editor: { id: "u2", name: "U2", email: "u2@example.com" },
+            },
+            {
+              id: "r1",
+              body: "first",
+              created_at: "2026-06-01T00:00:00Z",
+              editor: null,
+            },
+          ],
+          error: null,
+        },
+      ],
+    });
+
+    const res = await revisionsRequest();
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      revisions: [
+        {
+          id: "r2",
+          body: "second",
+          createdAt: "2026-06-02T00:00:00Z",
+          editor: { id: "u2", name: "U2", email: "u2@example.com" },
+        },
+        {
+          id: "r1",
+          body: "first",
+          createdAt: "2026-06-01T00:00:00Z",
+          editor: null,
+        },
+      ],
+    });
+    expect(calls).toContainEqual({
+      table: "comment_revisions",
+      method: "order",
+      args: ["created_at", { ascending: false }],
+    });
+    expect(getBoardRoleForUser).not.toHaveBeenCalled();
+  });
+
+  it("hides the history of a deleted comment from members", async () => {
+    vi.mocked(getBoardRoleForUser).mockResolvedValue("member");
+    const calls = mockClient({
+      comments: [commentRow("2026-06-03T00:00:00Z")],
+    });
+
+    const res = await revisionsRequest();
+
+    expect(res.status).toBe(403);
+    expect(calls.some((call) => call.table === "comment_revisions")).toBe(
+      false,
+    );
+  });
+
+  it("shows the history of a deleted comment to admins", async () => {
+    vi.mocked(getBoardRoleForUser).mockResolvedValue("admin");
+    mockClient({
+      comments: [commentRow("2026-06-03T00:00:00Z")],
+      comment_revisions: [{ data: [], error: null }],
+    });
+
+    const res = await revisionsRequest();
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ revisions: [] });
+  });
+});
+
+describe("GET /api/comments deleted bodies", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const comments = [
+    {
+      id: COMMENT_ID,
+      card_id: CARD_ID,
+      author_id: "u2",
+      body: "Off-topic rant",
+      parent_id: null,
+      created_at: "2026-06-01T00:00:00Z",
+      edited_at: null,
+      deleted_at: "2026-06-03T00:00:00Z",
+      users: { id: "u2", email: "u2@example.com", name: "U2" },
+      comment_reactions: [],
+    },
+  ];
+
+  const list = async () => {
+    mockClient({
+      cards: [{ data: { id: CARD_ID, board_id: BOARD_ID }, error: null }],
+      comments: [{ data: comments, error: null }],
+    });
+    const res = await listComments(
+      new NextRequest(`http://localhost/api/comments?cardId=${CARD_ID}`),
+    );
+    return (await res.json()) as { comments: { body: string }[] };
+  };
+
+  it("blanks the body for members", async () => {
+    vi.mocked(getBoardRoleForUser).mockResolvedValue("member");
+
+    expect((await list()).comments[0]?.body).toBe("");
+  });
+
+  it("keeps the body for board admins", async () => {
+    vi.mocked(getBoardRoleForUser).mockResolvedValue("owner");
+
+    expect((await list()).comments[0]?.body).toBe("Off-topic rant");
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Tests for comment replies (POST /api/comments with parentId) and
+ * reactions (POST /api/comments/[id]/reactions).
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST as createComment } from "@/app/api/comments/route";
+import { POST as toggleReaction } from "@/app/api/comments/[id]/reactions/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { createNotifications } from "@/lib/notifications";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/supabase/admin", () => ({ createAdminClient: vi.fn() }));
+vi.mock("@/lib/board-access", () => ({
+  getBoardMutationAuthorization: vi.fn(),
+}));
+vi.mock("@/lib/notifications", () => ({ createNotifications: vi.fn() }));
+vi.mock("@/lib/webhooks/delivery", () => ({
+  dispatchWebhookEvent: vi.fn(),
+}));
+
+const BOARD_ID = "11111111-1111-4111-8111-111111111111";
+const CARD_ID = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
+const PARENT_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const REPLY_ID = "cccccccc-cccc-4ccc-8ccc-cccccccccccc";
+const USER = { id: "u1" };
+
+function mockClient(results: Record<string, unknown[]>) {
+  const { client, calls } = supabaseMock(results);
+  vi.mocked(getAuthorizedUser).mockResolvedValue({
+    supabase: client,
+    user: USER as never,
+  });
+  return calls;
+}
+
+const card = { id: CARD_ID, board_id: BOARD_ID, assignee_id: null };
+
+describe("POST /api/comments with parentId", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const post = (body: Record<string, unknown>) =>
+    createComment(
+      new NextRequest("http://localhost/api/comments", {
+        method: "POST",
+        body: JSON.stringify({ cardId: CARD_ID, ...body }),
+      }),
+    );
+
+  it("stores the parent and notifies the parent comment's author", async () => {
+    const calls = mockClient({
+      cards: [{ data: card, error: null }],
+      comments: [
+        {
+          data: {
+            id: PARENT_ID,
+            card_id: CARD_ID,
+            author_id: "u2",
+            deleted_at: null,
+          },
+          error: null,
+        },
+        {
+          data: {
+            id: REPLY_ID,
+            card_id: CARD_ID,
+            author_id: "u1",
+            body: "Agreed",
+            parent_id: PARENT_ID,
+            created_at: "2026-06-01T08:00:00Z",
+            users: { id: "u1", email: "u1@example.com", name: "U1" },
+          },
+          error: null,
+        },
+      ],
+    });
+
+    const res = await post({ body: "Agreed", parentId: PARENT_ID });
+
+    expect(res.status).toBe(201);
+    expect(await res.json()).toMatchObject({
+      id: REPLY_ID,
+      parentId: PARENT_ID,
+      reactions: [],
+    });
+    const insert = calls.find((call) => call.method === "insert");
+    expect(insert?.args[0]).toMatchObject({ parent_id: PARENT_ID });
+    expect(vi.mocked(createNotifications).mock.calls[0]?.[1]).toEqual([
+      expect.objectContaining({ user_id: "u2", type: "comment_reply" }),
+    ]);
+  });
+
+  it("rejects a parent from another card", async () => {
+    const calls = mockClient({
+      cards: [{ data: card, error: null }],
+      comments: [
+        {
+          data: {
+            id: PARENT_ID,
+            card_id: "dddddddd-dddd-4ddd-8ddd-dddddddddddd",
+            author_id: "u2",
+            deleted_at: null,
+          },
+          error: null,
+        },
+      ],
+    });
+
+    const res = await post({ body: "Agreed", parentId: PARENT_ID });
+
+    expect(res.status).toBe(400);
+    expect(calls.some((call) => call.method === "insert")).toBe(false);
+  });
+
+  it("accepts bodies longer than the old 1000 character limit", async () => {
+    mockClient({
+      cards: [{ data: card, error: null }],
+      comments: [
+        {
+          data: {
+            id: REPLY_ID,
+            card_id: CARD_ID,
+            author_id: "u1",
+            body: "x".repeat(5000),
+            parent_id: null,
+            created_at: "2026-06-01T08:00:00Z",
+            users: { id: "u1", email: "u1@example.com", name: "U1" },
+          },
+          error: null,
+        },
+      ],
+    });
+
+    const res = await post({ body: "x".repeat(5000) });
+
+    expect(res.status).toBe(201);
+  });
+});
+
+describe("POST /api/comments/[id]/reactions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBoardMutationAuthorization).mockResolvedValue({
+      ok: true,
+      role: "member",
+    });
+  });
+
+  const react = (emoji: string) =>
+    toggleReaction(
+      new NextRequest(`http://localhost/api/comments/${PARENT_ID}/reactions`, {
+        method: "POST",
+        body: JSON.stringify({ emoji }),
+      }),
+      { params: Promise.resolve({ id: PARENT_ID }) },
+    );
+
+  const comment = {
+    data: { id: PARENT_ID, deleted_at: null, cards: { board_id: BOARD_ID } },
+    error: null,
+  };
+
+  it("adds the reaction and returns the summary", async () => {
+    const calls = mockClient({
+      comments: [comment],
+      comment_reactions: [
+        { data: null, error: null },
+        { data: null, error: null },
+        {
+          data: [
+            { emoji: "🎉", user_id: "u2" },
+            { emoji: "👍", user_id: "u1" },
+          ],
+          error: null,
+        },
+      ],
+    });
+
+    const res = await react("👍");
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      reactions: [
+        { emoji: "👍", count: 1, reacted: true, userIds: ["u1"] },
+        { emoji: "🎉", count: 1, reacted: false, userIds: ["u2"] },
+      ],
+    });
+    expect(calls).toContainEqual({
+      table: "comment_reactions",
+      method: "insert",
+      args: [{ comment_id: PARENT_ID, user_id: "u1", emoji: "👍" }],
+    });
+  });
+
+  it("removes a reaction the user already left", async () => {
+    const calls = mockClient({
+      comments: [comment],
+      comment_reactions: [
+        { data: { emoji: "👍" }, error: null },
+        { data: null, error: null },
+        { data: [], error: null },
+      ],
+    });
+
+    const res = await react("👍");
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ reactions: [] });
+    expect(calls.some((call) => call.method === "delete")).toBe(true);
+    expect(calls.some((call) => call.method === "insert")).toBe(false);
+  });
+
+  it("rejects emojis outside the palette", async () => {
+    mockClient({});
+
+    const res = await react("🦄");
+
+    expect(res.status).toBe(400);
+  });
+
+  it("does not let viewers react", async () => {
+    vi.mocked(getBoardMutationAuthorization).mockResolvedValue({
+      ok: false,
+      status: 403,
+      error: "Insufficient permissions",
+    });
+    const calls = mockClient({ comments: [comment] });
+
+    const res = await react("👍");
+
+    expect(res.status).toBe(403);
+    expect(calls.some((call) => call.table === "comment_reactions")).toBe(
+      false,
+    );
+  });
+});
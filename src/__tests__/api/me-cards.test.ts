@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/me/cards/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+
+const mockAuth = vi.mocked(getAuthorizedUser);
+
+const USER = { id: "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa" };
+const BOARD_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+
+const request = (query = "") =>
+  new NextRequest(`http://localhost/api/me/cards${query}`);
+
+describe("GET /api/me/cards", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns 401 when not authenticated", async () => {
+    const { client } = supabaseMock();
+    mockAuth.mockResolvedValue({ supabase: client as never, user: null });
+
+    const res = await GET(request());
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 400 for an invalid today parameter", async () => {
+    const { client } = supabaseMock();
+    mockAuth.mockResolvedValue({
+      supabase: client as never,
+      user: USER as never,
+    });
+
+    const res = await GET(request("?today=2026-02-30"));
+    expect(res.status).toBe(400);
+  });
+
+  it("groups open assigned cards and adds the board's done column", async () => {
+    const { client, calls } = supabaseMock({
+      cards: [
+        {
+          data: [
+            {
+              id: "c1",
+              title: "Overdue",
+              priority: "high",
+              start_date: null,
+              due_date: "2026-03-09T23:59:59.999Z",
+              created_by: USER.id,
+              board_id: BOARD_ID,
+              column_id: 1,
+              boards: { id: BOARD_ID, name: "Alpha", is_archived: false },
+              columns: { id: 1, title: "To Do" },
+            },
+            {
+              id: "c2",
+              title: "Someday",
+              priority: "low",
+              start_date: null,
+              due_date: null,
+              created_by: null,
+              board_id: BOARD_ID,
+              column_id: 1,
+              boards: { id: BOARD_ID, name: "Alpha", is_archived: false },
+              columns: { id: 1, title: "To Do" },
+            },
+          ],
+          error: null,
+        },
+      ],
+      columns: [{ data: [{ id: 3, board_id: BOARD_ID }], error: null }],
+    });
+    mockAuth.mockResolvedValue({
+      supabase: client as never,
+      user: USER as never,
+    });
+
+    const res = await GET(request("?today=2026-03-11"));
+    expect(res.status).toBe(200);
+    const body = await res.json();
+
+    expect(calls).toContainEqual({
+      table: "cards",
+      method: "eq",
+      args: ["card_assignees.user_id", USER.id],
+    });
+    expect(calls).toContainEqual({
+      table: "cards",
+      method: "is",
+      args: ["completed_at", null],
+    });
+    expect(body.today).toBe("2026-03-11");
+    const byBucket = Object.fromEntries(
+      body.groups.map((g: { bucket: string; cards: { id: string }[] }) => [
+        g.bucket,
+        g.cards.map((card) => card.id),
+      ]),
+    );
+    expect(byBucket).toEqual({
+      overdue: ["c1"],
+      today: [],
+      week: [],
+      later: [],
+      none: ["c2"],
+    });
+    expect(body.groups[0].cards[0]).toMatchObject({
+      boardName: "Alpha",
+      columnTitle: "To Do",
+      doneColumnId: 3,
+    });
+  });
+
+  it("returns 500 when the card query fails", async () => {
+    const { client } = supabaseMock({
+      cards: [{ data: null, error: { message: "boom" } }],
+    });
+    mockAuth.mockResolvedValue({
+      supabase: client as never,
+      user: USER as never,
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const res = await GET(request());
+    expect(res.status).toBe(500);
+  });
+});
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { PUT } from "@/app/api/profile/email-digest/route";
+import { getSessionUser } from "@/lib/supabase/server";
+
+vi.mock("@/lib/supabase/server", () => ({ getSessionUser: vi.fn() }));
+
+const mockUpdate = vi.fn();
+const mockEq = vi.fn();
+
+function mockSession(user: { id: string } | null) {
+  mockEq.mockResolvedValue({ error: null });
+  mockUpdate.mockReturnValue({ eq: mockEq });
+  vi.mocked(getSessionUser).mockResolvedValue({
+    supabase: { from: vi.fn(() => ({ update: mockUpdate })) },
+    user,
+  } as never);
+}
+
+const put = (body: unknown) =>
+  PUT(
+    new NextRequest("http://localhost/api/profile/email-digest", {
+      method: "PUT",
+      body: JSON.stringify(body),
+    }),
+  );
+
+describe("PUT /api/profile/email-digest", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("stores the chosen frequency on the caller's row", async () => {
+    mockSession({ id: "u1" });
+
+    const res = await put({ frequency: "weekly" });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ frequency: "weekly" });
+    expect(mockUpdate).toHaveBeenCalledWith({
+      email_digest_frequency: "weekly",
+    });
+    expect(mockEq).toHaveBeenCalledWith("id", "u1");
+  });
+
+  it("rejects unknown frequencies", async () => {
+    mockSession({ id: "u1" });
+
+    const res = await put({ frequency: "hourly" });
+
+    expect(res.status).toBe(400);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("requires a session", async () => {
+    mockSession(null);
+
+    const res = await put({ frequency: "daily" });
+
+    expect(res.status).toBe(401);
+  });
+});
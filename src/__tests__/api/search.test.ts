@@ -0,0 +1,207 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET as search } from "@/app/api/search/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { attachTokenRestrictions } from "@/lib/api-tokens/scopes";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+
+const mockAuth = vi.mocked(getAuthorizedUser);
+
+const USER = { id: "u1" };
+const BOARD_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const CARD_ID = "cccccccc-cccc-4ccc-8ccc-cccccccccccc";
+
+const request = (query: string) =>
+  new NextRequest(`http://localhost/api/search?${query}`);
+
+function mockSupabase(rows: unknown[], error: unknown = null) {
+  const client = { rpc: vi.fn().mockResolvedValue({ data: rows, error }) };
+  mockAuth.mockResolvedValue({
+    supabase: client as never,
+    user: USER as never,
+  });
+  return client;
+}
+
+describe("GET /api/search", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("returns 401 when not authenticated", async () => {
+    mockAuth.mockResolvedValue({ supabase: {} as never, user: null });
+    const res = await search(request("q=rechnung"));
+    expect(res.status).toBe(401);
+    expect(mockAuth).toHaveBeenCalledWith({ scope: "cards:read" });
+  });
+
+  it("rejects queries shorter than two characters", async () => {
+    const client = mockSupabase([]);
+    const res = await search(request("q=a"));
+    expect(res.status).toBe(400);
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+
+  it("skips the database when the query has no searchable words", async () => {
+    const client = mockSupabase([]);
+    const res = await search(request(`q=${encodeURIComponent("&& !!")}`));
+    expect(res.status).toBe(200);
+    expect((await res.json()).results).toEqual([]);
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+
+  it("runs a prefix query and returns camelCase results", async () => {
+    const client = mockSupabase([
+      {
+        result_type: "comment",
+        result_id: "m1",
+        card_id: CARD_ID,
+        board_id: BOARD_ID,
+        board_name: "Buchhaltung",
+        card_title: "Rechnungen prüfen",
+        snippet: "Die <mark>Rechnung</mark> fehlt noch",
+        rank: 0.4,
+      },
+    ]);
+
+    const res = await search(request("q=Rechnung%20fehlt&limit=5"));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(client.rpc).toHaveBeenCalledWith("search_board_content", {
+      p_query: "rechnung:* & fehlt:*",
+      p_limit: 5,
+      p_board_ids: null,
+    });
+    expect(body).toEqual({
+      query: "Rechnung fehlt",
+      results: [
+        {
+          type: "comment",
+          id: "m1",
+          cardId: CARD_ID,
+          cardTitle: "Rechnungen prüfen",
+          boardId: BOARD_ID,
+          boardName: "Buchhaltung",
+          snippet: "Die <mark>Rechnung</mark> fehlt noch",
+        },
+      ],
+    });
+  });
+
+  it("limits a board-restricted token's search to its boards", async () => {
+    const client = mockSupabase([]);
+    attachTokenRestrictions(client, { scopes: null, boardIds: [BOARD_ID] });
+
+    const res = await search(request("q=Rechnung"));
+
+    expect(res.status).toBe(200);
+    expect(client.rpc).toHaveBeenCalledWith("search_board_content", {
+      p_query: "rechnung:*",
+      p_limit: 20,
+      p_board_ids: [BOARD_ID],
+    });
+  });
+
+  it("narrows full-text hits by card query terms", async () => {
+    const OTHER_CARD_ID = "dddddddd-dddd-4ddd-8ddd-dddddddddddd";
+    const hit = (cardId: string) => ({
+      result_type: "card",
+      result_id: cardId,
+      card_id: cardId,
+      board_id: BOARD_ID,
+      board_name: "Buchhaltung",
+      card_title: "Rechnung",
+      snippet: "<mark>Rechnung</mark>",
+      rank: 0.5,
+    });
+    const cardsChain = {
+      select: vi.fn().mockReturnThis(),
+      in: vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: CARD_ID,
+            title: "Rechnung",
+            description: null,
+            assignee_id: USER.id,
+            priority: "high",
+            due_date: null,
+            completed_at: null,
+            created_via: "ui",
+            attachment_count: 0,
+            card_labels: [],
+          },
+          {
+            id: OTHER_CARD_ID,
+            title: "Rechnung",
+            description: null,
+            assignee_id: "someone-else",
+            priority: "high",
+            due_date: null,
+            completed_at: null,
+            created_via: "ui",
+            attachment_count: 0,
+            card_labels: [],
+          },
+        ],
+        error: null,
+      }),
+    };
+    const client = {
+      rpc: vi
+        .fn()
+        .mockResolvedValue({ data: [hit(CARD_ID), hit(OTHER_CARD_ID)] }),
+      from: vi.fn(() => cardsChain),
+    };
+    mockAuth.mockResolvedValue({
+      supabase: client as never,
+      user: USER as never,
+    });
+
+    const res = await search(
+      request(`q=${encodeURIComponent("rechnung assignee:me")}&limit=5`),
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(client.rpc).toHaveBeenCalledWith("search_board_content", {
+      p_query: "rechnung:*",
+      p_limit: 100,
+      p_board_ids: null,
+    });
+    expect(cardsChain.in).toHaveBeenCalledWith("id", [CARD_ID, OTHER_CARD_ID]);
+    expect(body.results.map((r: { cardId: string }) => r.cardId)).toEqual([
+      CARD_ID,
+    ]);
+  });
+
+  it("searches unknown fields as words", async () => {
+    const client = mockSupabase([]);
+    const res = await search(request(`q=${encodeURIComponent("Meeting: Q3")}`));
+    expect(res.status).toBe(200);
+    expect(client.rpc).toHaveBeenCalledWith("search_board_content", {
+      p_query: "meeting:* & q3:*",
+      p_limit: 20,
+      p_board_ids: null,
+    });
+  });
+
+  it("rejects invalid card query values", async () => {
+    const client = mockSupabase([]);
+    const res = await search(
+      request(`q=${encodeURIComponent("foo is:later")}`),
+    );
+    expect(res.status).toBe(400);
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+
+  it("returns 500 when the search RPC fails", async () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    mockSupabase([], { message: "boom" });
+    const res = await search(request("q=rechnung"));
+    expect(res.status).toBe(500);
+    consoleSpy.mockRestore();
+  });
+});
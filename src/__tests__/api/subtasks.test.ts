@@ -63,9 +63,15 @@ vi.mock("@/lib/supabase/server", () => ({
   getAuthorizedUser: mockGetSessionUser,
   getSessionUser: mockGetSessionUser,
 }));
+vi.mock("@/lib/supabase/admin", () => ({ createAdminClient: vi.fn() }));
+vi.mock("@/lib/card-events", () => ({
+  recordCardEvents: vi.fn().mockResolvedValue(undefined),
+}));
 
 // ── import routes after mocks ─────────────────────────────────────────────────
 
+const { recordCardEvents: mockRecordCardEvents } =
+  await import("@/lib/card-events");
 const { GET: getSubtasks, POST: createSubtask } =
   await import("@/app/api/cards/[id]/subtasks/route");
 const { PATCH: patchSubtask, DELETE: deleteSubtask } =
@@ -305,6 +311,16 @@ describe("DELETE /api/cards/[id]/subtasks/[subtaskId]", () => {
   it("soft-deletes and returns success", async () => {
     const supabase = {
       from: vi.fn(() => ({
+        select: vi.fn(() =>
+          makeChainable({
+            data: {
+              id: SUBTASK_ID,
+              title: "Old subtask",
+              cards: { board_id: "board-1" },
+            },
+            error: null,
+          }),
+        ),
         update: vi.fn(() => ({
           eq: vi.fn(() => ({
             eq: vi.fn(() => ({
@@ -325,5 +341,13 @@ describe("DELETE /api/cards/[id]/subtasks/[subtaskId]", () => {
     expect(res.status).toBe(200);
     const body = await res.json();
     expect(body.success).toBe(true);
+    expect(mockRecordCardEvents).toHaveBeenCalledWith(undefined, [
+      expect.objectContaining({
+        card_id: CARD_ID,
+        board_id: "board-1",
+        event_type: "subtask_deleted",
+        before: { id: SUBTASK_ID, title: "Old subtask" },
+      }),
+    ]);
   });
 });
@@ -0,0 +1,264 @@
+/**
+ * Tests for watching boards, columns and cards (/api/boards/[id]/watchers,
+ * /api/cards/[id]/watchers) and for the notifications watchers receive.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST as createComment } from "@/app/api/comments/route";
+import { POST as watch } from "@/app/api/boards/[id]/watchers/route";
+import { DELETE as unwatch } from "@/app/api/boards/[id]/watchers/[watchId]/route";
+import { GET as listCardWatchers } from "@/app/api/cards/[id]/watchers/route";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import { createNotifications } from "@/lib/notifications";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/supabase/server", () => ({
+  getAuthorizedUser: vi.fn(),
+  getSessionUser: vi.fn(),
+}));
+vi.mock("@/lib/supabase/admin", () => ({ createAdminClient: vi.fn() }));
+vi.mock("@/lib/board-access", () => ({ getBoardRoleForUser: vi.fn() }));
+vi.mock("@/lib/notifications", () => ({ createNotifications: vi.fn() }));
+vi.mock("@/lib/webhooks/delivery", () => ({
+  dispatchWebhookEvent: vi.fn(),
+}));
+
+const BOARD_ID = "11111111-1111-4111-8111-111111111111";
+const OTHER_BOARD_ID = "22222222-2222-4222-8222-222222222222";
+const CARD_ID = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
+const COMMENT_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+const WATCH_ID = "cccccccc-cccc-4ccc-8ccc-cccccccccccc";
+const USER = { id: "u1" };
+
+function mockClient(results: Record<string, unknown[]>) {
+  const { client, calls } = supabaseMock(results);
+  vi.mocked(getAuthorizedUser).mockResolvedValue({
+    supabase: client,
+    user: USER as never,
+  });
+  return calls;
+}
+
+const watchRow = (
+  id: string,
+  userId: string,
+  target: { columnId?: number; cardId?: string } = {},
+) => ({
+  id,
+  user_id: userId,
+  board_id: BOARD_ID,
+  column_id: target.columnId ?? null,
+  card_id: target.cardId ?? null,
+});
+
+describe("watcher notifications", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("notifies watchers about a comment once and auto-watches the author", async () => {
+    const calls = mockClient({
+      cards: [
+        {
+          data: {
+            id: CARD_ID,
+            board_id: BOARD_ID,
+            column_id: 7,
+            assignee_id: "u2",
+          },
+          error: null,
+        },
+      ],
+      comments: [
+        {
+          data: {
+            id: COMMENT_ID,
+            card_id: CARD_ID,
+            author_id: "u1",
+            body: "Ready for review",
+            parent_id: null,
+            created_at: "2026-06-01T08:00:00Z",
+            users: { id: "u1", email: "u1@example.com", name: "U1" },
+          },
+          error: null,
+        },
+      ],
+      watchers: [
+        {
+          data: [
+            watchRow("w1", "u1", { cardId: CARD_ID }),
+            watchRow("w2", "u2"),
+            watchRow("w3", "u3", { columnId: 7 }),
+            watchRow("w4", "u4", { columnId: 8 }),
+          ],
+          error: null,
+        },
+      ],
+    });
+
+    const res = await createComment(
+      new NextRequest("http://localhost/api/comments", {
+        method: "POST",
+        body: JSON.stringify({ cardId: CARD_ID, body: "Ready for review" }),
+      }),
+    );
+
+    expect(res.status).toBe(201);
+    const rows = vi.mocked(createNotifications).mock.calls[0]?.[1] ?? [];
+    expect(rows.map((row) => [row.user_id, row.type])).toEqual([
+      ["u2", "comment_on_assigned"],
+      ["u3", "comment"],
+    ]);
+    expect(rows[1]?.metadata).toMatchObject({
+      commentId: COMMENT_ID,
+      watch: { id: "w3", scope: "column" },
+    });
+    expect(calls).toContainEqual({
+      table: "watchers",
+      method: "insert",
+      args: [{ user_id: "u1", board_id: BOARD_ID, card_id: CARD_ID }],
+    });
+  });
+});
+
+describe("POST /api/boards/[id]/watchers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBoardRoleForUser).mockResolvedValue("viewer");
+  });
+
+  const post = (body: Record<string, unknown>) =>
+    watch(
+      new NextRequest(`http://localhost/api/boards/${BOARD_ID}/watchers`, {
+        method: "POST",
+        body: JSON.stringify(body),
+      }),
+      { params: Promise.resolve({ id: BOARD_ID }) },
+    );
+
+  it("lets viewers watch a column of the board", async () => {
+    const calls = mockClient({
+      columns: [{ data: { id: 7, board_id: BOARD_ID }, error: null }],
+      watchers: [
+        { data: null, error: null },
+        { data: watchRow(WATCH_ID, "u1", { columnId: 7 }), error: null },
+      ],
+    });
+
+    const res = await post({ columnId: 7 });
+
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({
+      watch: {
+        id: WATCH_ID,
+        scope: "column",
+        boardId: BOARD_ID,
+        columnId: 7,
+        cardId: null,
+      },
+    });
+    expect(calls).toContainEqual({
+      table: "watchers",
+      method: "insert",
+      args: [
+        { user_id: "u1", board_id: BOARD_ID, column_id: 7, card_id: null },
+      ],
+    });
+  });
+
+  it("returns the existing watch instead of adding a second one", async () => {
+    const calls = mockClient({
+      watchers: [{ data: watchRow(WATCH_ID, "u1"), error: null }],
+    });
+
+    const res = await post({});
+
+    expect(res.status).toBe(200);
+    expect(calls.some((call) => call.method === "insert")).toBe(false);
+  });
+
+  it("rejects a card from another board", async () => {
+    mockClient({
+      cards: [{ data: { id: CARD_ID, board_id: OTHER_BOARD_ID }, error: null }],
+    });
+
+    const res = await post({ cardId: CARD_ID });
+
+    expect(res.status).toBe(404);
+  });
+
+  it("rejects watching a column and a card at once", async () => {
+    mockClient({});
+
+    const res = await post({ columnId: 7, cardId: CARD_ID });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("DELETE /api/boards/[id]/watchers/[watchId]", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("only deletes the caller's own watch", async () => {
+    const calls = mockClient({ watchers: [{ data: [], error: null }] });
+
+    const res = await unwatch(
+      new NextRequest(
+        `http://localhost/api/boards/${BOARD_ID}/watchers/${WATCH_ID}`,
+        { method: "DELETE" },
+      ),
+      { params: Promise.resolve({ id: BOARD_ID, watchId: WATCH_ID }) },
+    );
+
+    expect(res.status).toBe(404);
+    expect(calls).toContainEqual({
+      table: "watchers",
+      method: "eq",
+      args: ["user_id", "u1"],
+    });
+  });
+});
+
+describe("GET /api/cards/[id]/watchers", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("lists direct and inherited watchers with the caller's watch", async () => {
+    mockClient({
+      cards: [
+        {
+          data: { id: CARD_ID, board_id: BOARD_ID, column_id: 7 },
+          error: null,
+        },
+      ],
+      watchers: [
+        {
+          data: [
+            {
+              ...watchRow("w1", "u1"),
+              users: { id: "u1", name: "U1", email: "u1@example.com" },
+            },
+            {
+              ...watchRow("w2", "u2", { cardId: CARD_ID }),
+              users: { id: "u2", name: null, email: "u2@example.com" },
+            },
+          ],
+          error: null,
+        },
+      ],
+    });
+
+    const res = await listCardWatchers(
+      new NextRequest(`http://localhost/api/cards/${CARD_ID}/watchers`),
+      { params: Promise.resolve({ id: CARD_ID }) },
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(
+      body.watchers.map((w: { id: string; scope: string }) => [w.id, w.scope]),
+    ).toEqual([
+      ["u1", "board"],
+      ["u2", "card"],
+    ]);
+    expect(body.watch).toMatchObject({ id: "w1", scope: "board" });
+  });
+});
@@ -56,6 +56,12 @@ describe("board-permissions", () => {
       expect(isAssignedToUser({ assigneeId: "user-2" }, "user-1")).toBe(false);
       expect(isAssignedToUser({ assigneeId: null }, "user-1")).toBe(false);
       expect(isAssignedToUser({ assigneeId: "user-1" }, null)).toBe(false);
+      expect(
+        isAssignedToUser(
+          { assigneeId: "user-2", assigneeIds: ["user-2", "user-1"] },
+          "user-1",
+        ),
+      ).toBe(true);
     });
   });
 
@@ -2,8 +2,10 @@ import { describe, expect, it } from "vitest";
 import { t } from "@/lib/i18n";
 import {
   createColumnSchema,
+  createEditColumnSchema,
   getColumnMutationErrorMessage,
   getDeleteColumnDescription,
+  parseWipLimitInput,
 } from "@/components/columns/column-dialog.utils";
 
 describe("column-dialog utils", () => {
@@ -36,4 +38,20 @@ describe("column-dialog utils", () => {
       t("columns.deleteColumnWithCards", { title: "Backlog", count: "3" }),
     );
   });
+
+  it("accepts an empty or positive WIP limit and rejects anything else", () => {
+    const schema = createEditColumnSchema();
+    const parse = (wipLimit: string) =>
+      schema.safeParse({ title: "Doing", wipLimit, wipLimitHard: false });
+
+    expect(parse("").success).toBe(true);
+    expect(parse(" 5 ").success).toBe(true);
+    expect(parse("0").error?.issues[0]?.message).toBe(
+      t("columns.wipLimitInvalid"),
+    );
+    expect(parse("2.5").success).toBe(false);
+    expect(parse("1000").success).toBe(false);
+    expect(parseWipLimitInput("")).toBeNull();
+    expect(parseWipLimitInput(" 5 ")).toBe(5);
+  });
 });
@@ -39,11 +39,21 @@ const createCard = (overrides: Partial<TestCard> = {}): TestCard => ({
   title: "Investigate assignee bug",
   description: null,
   position: 1,
+  startDate: null,
   dueDate: null,
   priority: "medium",
   completedAt: null,
   createdAt: new Date("2026-03-05T12:00:00Z"),
+  updatedAt: new Date("2026-03-05T12:00:00Z"),
   createdVia: "ui",
+  externalRef: null,
+  attachmentCount: 0,
+  recurrenceRule: null,
+  recurrenceColumnId: null,
+  recurrenceSourceId: null,
+  deletedAt: null,
+  deletedBy: null,
+  trashedExternalRef: null,
   assigneeId: null,
   createdBy: null,
   labels: [],
@@ -93,6 +103,30 @@ describe("KanbanCard assignee display", () => {
     expect(screen.getByText("Ada Lovelace")).toBeInTheDocument();
   });
 
+  it("stacks every assignee with the primary assignee's name first", () => {
+    const members = ["Ada", "Grace", "Linus", "Ken", "Barbara"].map(
+      (name, index) =>
+        createUser({ id: `user-${index}`, name, email: `${name}@example.com` }),
+    );
+
+    render(
+      <KanbanCard
+        card={createCard({
+          assigneeId: "user-1",
+          assigneeIds: ["user-1", "user-0", "user-2", "user-3", "user-4"],
+        })}
+        boardMembers={members}
+        currentUser={null}
+      />,
+    );
+
+    expect(screen.getByText("Grace +4")).toBeInTheDocument();
+    expect(screen.getByTitle("Ada")).toBeInTheDocument();
+    expect(screen.getByTitle("Linus")).toBeInTheDocument();
+    expect(screen.queryByTitle("Ken")).not.toBeInTheDocument();
+    expect(screen.getByText("+2")).toBeInTheDocument();
+  });
+
   it("renders the card without an assignee footer when no assignee data exists", () => {
     render(
       <KanbanCard card={createCard()} boardMembers={[]} currentUser={null} />,
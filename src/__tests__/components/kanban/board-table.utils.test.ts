@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyBoardTableUpdates,
+  buildBoardTableRows,
+  sortBoardTableRows,
+  toggleBoardTableSort,
+  type BoardTableCard,
+  type BoardTableColumn,
+} from "@/components/kanban/board-table.utils";
+import type { User } from "@/types/database";
+
+const makeUser = (id: string, name: string): User => ({
+  id,
+  email: `${id}@example.com`,
+  name,
+  avatarUrl: null,
+  apiAccessEnabled: false,
+  createdAt: new Date("2026-01-01"),
+});
+
+const makeCard = (
+  id: string,
+  columnId: number,
+  position: number,
+  overrides: Partial<BoardTableCard> = {},
+): BoardTableCard => ({
+  id,
+  boardId: "board-1",
+  columnId,
+  title: id,
+  description: null,
+  position,
+  startDate: null,
+  dueDate: null,
+  priority: "medium",
+  completedAt: null,
+  createdAt: new Date("2026-01-01"),
+  updatedAt: new Date("2026-01-01"),
+  createdVia: "ui",
+  externalRef: null,
+  attachmentCount: 0,
+  recurrenceRule: null,
+  recurrenceColumnId: null,
+  recurrenceSourceId: null,
+  deletedAt: null,
+  deletedBy: null,
+  trashedExternalRef: null,
+  assigneeId: null,
+  createdBy: null,
+  labels: [],
+  comments: [],
+  ...overrides,
+});
+
+const makeColumn = (
+  id: number,
+  position: number,
+  cards: BoardTableCard[],
+): BoardTableColumn => ({
+  id,
+  boardId: "board-1",
+  title: `Column ${id}`,
+  position,
+  isDone: false,
+  wipLimit: null,
+  wipLimitHard: false,
+  createdAt: new Date("2026-01-01"),
+  cards,
+});
+
+const ada = makeUser("u-ada", "Ada");
+const bob = makeUser("u-bob", "Bob");
+
+describe("buildBoardTableRows", () => {
+  it("lists filtered cards column by column in board order", () => {
+    const todo = makeColumn(1, 2, []);
+    const doing = makeColumn(2, 1, []);
+    const rows = buildBoardTableRows([todo, doing], {
+      1: [makeCard("b", 1, 2), makeCard("a", 1, 1)],
+      2: [makeCard("c", 2, 1)],
+    });
+
+    expect(rows.map(({ card, column }) => [card.id, column.id])).toEqual([
+      ["c", 2],
+      ["b", 1],
+      ["a", 1],
+    ]);
+  });
+});
+
+describe("sortBoardTableRows", () => {
+  const column = makeColumn(1, 1, []);
+  const rows = [
+    makeCard("a", 1, 1, {
+      assigneeId: bob.id,
+      dueDate: new Date("2026-03-01"),
+    }),
+    makeCard("b", 1, 2),
+    makeCard("c", 1, 3, {
+      assigneeId: ada.id,
+      dueDate: new Date("2026-02-01"),
+    }),
+  ].map((card) => ({ card, column }));
+
+  it("keeps the board order without a sort", () => {
+    expect(sortBoardTableRows(rows, null, [ada, bob])).toBe(rows);
+  });
+
+  it("sorts by assignee name with unassigned cards last", () => {
+    const ids = (direction: "asc" | "desc") =>
+      sortBoardTableRows(rows, { key: "assignee", direction }, [ada, bob]).map(
+        ({ card }) => card.id,
+      );
+    expect(ids("asc")).toEqual(["c", "a", "b"]);
+    expect(ids("desc")).toEqual(["a", "c", "b"]);
+  });
+
+  it("sorts by due date and subtask progress", () => {
+    expect(
+      sortBoardTableRows(rows, { key: "dueDate", direction: "asc" }, []).map(
+        ({ card }) => card.id,
+      ),
+    ).toEqual(["c", "a", "b"]);
+
+    const withProgress = [
+      makeCard("x", 1, 1, { subtaskProgress: { completed: 1, total: 4 } }),
+      makeCard("y", 1, 2, { subtaskProgress: { completed: 0, total: 0 } }),
+      makeCard("z", 1, 3, { subtaskProgress: { completed: 2, total: 2 } }),
+    ].map((card) => ({ card, column }));
+    expect(
+      sortBoardTableRows(
+        withProgress,
+        { key: "subtasks", direction: "desc" },
+        [],
+      ).map(({ card }) => card.id),
+    ).toEqual(["z", "x", "y"]);
+  });
+});
+
+describe("toggleBoardTableSort", () => {
+  it("cycles ascending, descending, then off", () => {
+    const asc = toggleBoardTableSort(null, "title");
+    expect(asc).toEqual({ key: "title", direction: "asc" });
+    const desc = toggleBoardTableSort(asc, "title");
+    expect(desc).toEqual({ key: "title", direction: "desc" });
+    expect(toggleBoardTableSort(desc, "title")).toBeNull();
+    expect(toggleBoardTableSort(desc, "priority")).toEqual({
+      key: "priority",
+      direction: "asc",
+    });
+  });
+});
+
+describe("applyBoardTableUpdates", () => {
+  it("updates cards in place and moves cards between columns", () => {
+    const columns = [
+      makeColumn(1, 1, [makeCard("a", 1, 1), makeCard("b", 1, 2)]),
+      makeColumn(2, 2, [makeCard("c", 2, 1)]),
+    ];
+
+    const result = applyBoardTableUpdates(columns, [
+      makeCard("a", 1, 1, { priority: "high" }),
+      makeCard("b", 2, 2),
+    ]);
+
+    expect(result[0]!.cards.map((card) => [card.id, card.priority])).toEqual([
+      ["a", "high"],
+    ]);
+    expect(result[1]!.cards.map((card) => card.id)).toEqual(["c", "b"]);
+  });
+});
@@ -4,6 +4,7 @@ import {
   getEditCardAttachmentErrorMessage,
   getEditCardDueDateInputValue,
   normalizeEditCardDueDateForApi,
+  normalizeEditCardStartDateForApi,
 } from "@/components/kanban/edit-card-dialog.utils";
 
 describe("edit-card-dialog utils", () => {
@@ -60,4 +61,11 @@ describe("edit-card-dialog utils", () => {
     expect(normalizeEditCardDueDateForApi("2026-02-30")).toBeNull();
     expect(normalizeEditCardDueDateForApi("")).toBeNull();
   });
+
+  it("stores start dates at the start of the UTC day", () => {
+    expect(normalizeEditCardStartDateForApi("2026-03-10")).toBe(
+      "2026-03-10T00:00:00.000Z",
+    );
+    expect(normalizeEditCardStartDateForApi("2026-13-01")).toBeNull();
+  });
 });
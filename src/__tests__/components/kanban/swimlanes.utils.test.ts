@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_LANE_KEY,
+  applySwimlaneFieldChange,
+  buildSwimlanes,
+  getSwimlaneCellId,
+  getSwimlaneFieldChange,
+  parseSwimlaneCellId,
+  type SwimlaneCard,
+} from "@/components/kanban/swimlanes.utils";
+import type { Label, User } from "@/types/database";
+
+const makeUser = (id: string, name: string): User => ({
+  id,
+  email: `${id}@example.com`,
+  name,
+  avatarUrl: null,
+  apiAccessEnabled: false,
+  createdAt: new Date("2026-01-01"),
+});
+
+const makeLabel = (id: string, name: string): Label => ({
+  id,
+  boardId: "board-1",
+  name,
+  color: "#6b7280",
+  createdAt: new Date("2026-01-01"),
+});
+
+const ada = makeUser("u-ada", "Ada");
+const bob = makeUser("u-bob", "Bob");
+const bug = makeLabel("l-bug", "Bug");
+const ux = makeLabel("l-ux", "UX");
+
+const makeCard = (
+  id: string,
+  columnId: number,
+  position: number,
+  overrides: Partial<SwimlaneCard> = {},
+): SwimlaneCard => ({
+  id,
+  boardId: "board-1",
+  columnId,
+  title: id,
+  description: null,
+  position,
+  startDate: null,
+  dueDate: null,
+  priority: "medium",
+  completedAt: null,
+  createdAt: new Date("2026-01-01"),
+  updatedAt: new Date("2026-01-01"),
+  createdVia: "ui",
+  externalRef: null,
+  attachmentCount: 0,
+  recurrenceRule: null,
+  recurrenceColumnId: null,
+  recurrenceSourceId: null,
+  deletedAt: null,
+  deletedBy: null,
+  trashedExternalRef: null,
+  assigneeId: null,
+  createdBy: null,
+  labels: [],
+  comments: [],
+  ...overrides,
+});
+
+const withLabels = (...labels: Label[]) =>
+  labels.map((label) => ({
+    cardId: "card",
+    labelId: label.id,
+    createdAt: new Date("2026-01-01"),
+    label,
+  }));
+
+const context = { members: [bob, ada], labels: [ux, bug] };
+
+describe("buildSwimlanes", () => {
+  it("groups cards by assignee with an empty lane for every member", () => {
+    const lanes = buildSwimlanes(
+      "assignee",
+      [
+        makeCard("a", 1, 2, { assigneeId: ada.id }),
+        makeCard("b", 1, 1, { assigneeId: ada.id }),
+        makeCard("c", 2, 1),
+      ],
+      context,
+    );
+
+    expect(lanes.map((lane) => [lane.key, lane.count])).toEqual([
+      [ada.id, 2],
+      [bob.id, 0],
+      [EMPTY_LANE_KEY, 1],
+    ]);
+    expect(lanes[0]!.cardsByColumn[1]!.map((card) => card.id)).toEqual([
+      "b",
+      "a",
+    ]);
+  });
+
+  it("uses fixed priority lanes without an empty lane", () => {
+    const lanes = buildSwimlanes(
+      "priority",
+      [makeCard("a", 1, 1, { priority: "low" })],
+      context,
+    );
+    expect(lanes.map((lane) => lane.key)).toEqual(["high", "medium", "low"]);
+    expect(lanes[2]!.count).toBe(1);
+  });
+
+  it("places multi-label cards in the lane of their first label by name", () => {
+    const lanes = buildSwimlanes(
+      "label",
+      [makeCard("a", 1, 1, { labels: withLabels(ux, bug) })],
+      context,
+    );
+    expect(lanes.map((lane) => [lane.key, lane.count])).toEqual([
+      [bug.id, 1],
+      [ux.id, 0],
+      [EMPTY_LANE_KEY, 0],
+    ]);
+  });
+});
+
+describe("swimlane cell ids", () => {
+  it("round-trips lane key and column id", () => {
+    const id = getSwimlaneCellId(ada.id, 7);
+    expect(parseSwimlaneCellId(id)).toEqual({ laneKey: ada.id, columnId: 7 });
+  });
+
+  it("ignores card and column drop ids", () => {
+    expect(parseSwimlaneCellId("column-drop-3")).toBeNull();
+    expect(parseSwimlaneCellId("a")).toBeNull();
+  });
+});
+
+describe("getSwimlaneFieldChange", () => {
+  it("returns null when the card stays in its lane", () => {
+    const card = makeCard("a", 1, 1, { assigneeId: ada.id });
+    expect(getSwimlaneFieldChange(card, "assignee", ada.id)).toBeNull();
+  });
+
+  it("reassigns or unassigns the card in assignee mode", () => {
+    const card = makeCard("a", 1, 1, { assigneeId: ada.id });
+    expect(getSwimlaneFieldChange(card, "assignee", bob.id)).toEqual({
+      kind: "assignees",
+      assigneeIds: [bob.id],
+    });
+    expect(getSwimlaneFieldChange(card, "assignee", EMPTY_LANE_KEY)).toEqual({
+      kind: "assignees",
+      assigneeIds: [],
+    });
+  });
+
+  it("swaps only the lane's assignee and keeps co-assignees", () => {
+    const cyd = makeUser("u-cyd", "Cyd");
+    const card = makeCard("a", 1, 1, {
+      assigneeId: ada.id,
+      assigneeIds: [ada.id, cyd.id],
+      assignees: [ada, cyd],
+    });
+
+    const change = getSwimlaneFieldChange(card, "assignee", bob.id);
+    expect(change).toEqual({
+      kind: "assignees",
+      assigneeIds: [bob.id, cyd.id],
+    });
+    expect(applySwimlaneFieldChange(card, change!, context)).toMatchObject({
+      assigneeId: bob.id,
+      assigneeIds: [bob.id, cyd.id],
+      assignee: bob,
+      assignees: [bob, cyd],
+    });
+    // Dropping onto a co-assignee's lane makes them the primary
+    expect(getSwimlaneFieldChange(card, "assignee", cyd.id)).toEqual({
+      kind: "assignees",
+      assigneeIds: [cyd.id],
+    });
+  });
+
+  it("changes the priority in priority mode", () => {
+    expect(
+      getSwimlaneFieldChange(makeCard("a", 1, 1), "priority", "high"),
+    ).toEqual({ kind: "priority", priority: "high" });
+  });
+
+  it("swaps the lane label and keeps the other labels", () => {
+    const other = makeLabel("l-zeta", "Zeta");
+    const card = makeCard("a", 1, 1, { labels: withLabels(bug, other) });
+    expect(getSwimlaneFieldChange(card, "label", ux.id)).toEqual({
+      kind: "labels",
+      labelIds: [other.id, ux.id],
+    });
+    expect(getSwimlaneFieldChange(card, "label", EMPTY_LANE_KEY)).toEqual({
+      kind: "labels",
+      labelIds: [],
+    });
+  });
+});
+
+describe("applySwimlaneFieldChange", () => {
+  it("updates the local assignee and labels", () => {
+    const card = makeCard("a", 1, 1, { labels: withLabels(bug) });
+
+    expect(
+      applySwimlaneFieldChange(
+        card,
+        { kind: "assignees", assigneeIds: [ada.id] },
+        context,
+      ),
+    ).toMatchObject({ assigneeId: ada.id, assignee: ada });
+    expect(
+      applySwimlaneFieldChange(
+        card,
+        { kind: "labels", labelIds: [ux.id] },
+        context,
+      ).labels.map((cardLabel) => cardLabel.label.name),
+    ).toEqual(["UX"]);
+  });
+});
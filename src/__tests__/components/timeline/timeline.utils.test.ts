@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyTimelineDrag,
+  getCardSpan,
+  getTimelineRange,
+  planTimelineChange,
+  toDayNumber,
+} from "@/components/timeline/timeline.utils";
+
+const day = (iso: string) => toDayNumber(`${iso}T12:00:00.000Z`);
+
+describe("getCardSpan", () => {
+  it("spans from start to due date", () => {
+    expect(
+      getCardSpan({
+        startDate: "2026-03-02T00:00:00.000Z",
+        dueDate: "2026-03-05T23:59:59.999Z",
+      }),
+    ).toEqual({ start: day("2026-03-02"), end: day("2026-03-05") });
+  });
+
+  it("treats a single date as a one-day bar and ignores cards without dates", () => {
+    expect(
+      getCardSpan({ startDate: null, dueDate: "2026-03-05T23:59:59.999Z" }),
+    ).toEqual({ start: day("2026-03-05"), end: day("2026-03-05") });
+    expect(getCardSpan({ startDate: null, dueDate: null })).toBeNull();
+  });
+
+  it("collapses a start after the due date onto the due date", () => {
+    expect(
+      getCardSpan({
+        startDate: "2026-03-08T00:00:00.000Z",
+        dueDate: "2026-03-05T23:59:59.999Z",
+      }),
+    ).toEqual({ start: day("2026-03-05"), end: day("2026-03-05") });
+  });
+});
+
+describe("getTimelineRange", () => {
+  it("includes today and pads the cards by a week", () => {
+    const today = day("2026-03-01");
+    expect(
+      getTimelineRange([{ start: today + 10, end: today + 40 }], today),
+    ).toEqual({ start: today - 7, end: today + 47 });
+  });
+
+  it("shows at least four weeks", () => {
+    const today = day("2026-03-01");
+    const range = getTimelineRange([], today);
+    expect(range.end - range.start + 1).toBe(28);
+  });
+});
+
+describe("applyTimelineDrag", () => {
+  const span = { start: 10, end: 14 };
+
+  it("moves both edges or resizes one, never past the other", () => {
+    expect(applyTimelineDrag(span, "move", 3)).toEqual({ start: 13, end: 17 });
+    expect(applyTimelineDrag(span, "start", -2)).toEqual({ start: 8, end: 14 });
+    expect(applyTimelineDrag(span, "start", 9)).toEqual({ start: 14, end: 14 });
+    expect(applyTimelineDrag(span, "end", -9)).toEqual({ start: 10, end: 10 });
+  });
+});
+
+describe("planTimelineChange", () => {
+  const card = {
+    startDate: "2026-03-02T00:00:00.000Z",
+    dueDate: "2026-03-05T23:59:59.999Z",
+  };
+  const current = getCardSpan(card)!;
+
+  it("patches both dates for the card creator", () => {
+    expect(
+      planTimelineChange(
+        card,
+        applyTimelineDrag(current, "move", 2),
+        "move",
+        true,
+      ),
+    ).toEqual({
+      patch: {
+        startDate: "2026-03-04T00:00:00.000Z",
+        dueDate: "2026-03-07T23:59:59.999Z",
+      },
+      suggestedDueDate: null,
+    });
+  });
+
+  it("suggests the due date when a non-creator moves the end", () => {
+    expect(
+      planTimelineChange(
+        card,
+        applyTimelineDrag(current, "end", 3),
+        "end",
+        false,
+      ),
+    ).toEqual({ patch: null, suggestedDueDate: "2026-03-08T23:59:59.999Z" });
+  });
+
+  it("keeps a non-creator's start date only while it fits before the due date", () => {
+    expect(
+      planTimelineChange(
+        card,
+        applyTimelineDrag(current, "move", 1),
+        "move",
+        false,
+      ),
+    ).toEqual({
+      patch: { startDate: "2026-03-03T00:00:00.000Z" },
+      suggestedDueDate: "2026-03-06T23:59:59.999Z",
+    });
+    expect(
+      planTimelineChange(
+        card,
+        applyTimelineDrag(current, "move", 5),
+        "move",
+        false,
+      ).patch,
+    ).toBeNull();
+  });
+
+  it("does not invent a start date when moving a due-date-only card", () => {
+    const dueOnly = { startDate: null, dueDate: card.dueDate };
+    const span = getCardSpan(dueOnly)!;
+    expect(
+      planTimelineChange(
+        dueOnly,
+        applyTimelineDrag(span, "move", 1),
+        "move",
+        true,
+      ),
+    ).toEqual({
+      patch: { dueDate: "2026-03-06T23:59:59.999Z" },
+      suggestedDueDate: null,
+    });
+    expect(
+      planTimelineChange(
+        dueOnly,
+        applyTimelineDrag(span, "start", -2),
+        "start",
+        true,
+      ),
+    ).toEqual({
+      patch: { startDate: "2026-03-03T00:00:00.000Z" },
+      suggestedDueDate: null,
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { vi } from "vitest";
+
+export type SupabaseCall = { table: string; method: string; args: unknown[] };
+
+const EMPTY_RESULT = { data: null, error: null };
+
+/**
+ * Chainable stand-in for a supabase client. Each from(table) consumes the
+ * next queued result for that table, storage.from(bucket) the next one
+ * queued under `storage:<bucket>` and rpc(fn) the next one under `rpc:<fn>`.
+ * A table with nothing queued resolves to `{ data: null, error: null }`, or
+ * throws with `strict`. Every builder call is recorded in `calls`.
+ */
+export function supabaseMock(
+  results: Record<string, unknown[]> = {},
+  { strict = false }: { strict?: boolean } = {},
+) {
+  const queues = Object.fromEntries(
+    Object.entries(results).map(([table, list]) => [table, [...list]]),
+  );
+  const calls: SupabaseCall[] = [];
+  const chain = (table: string, result: unknown): object =>
+    new Proxy(
+      {},
+      {
+        get(_target, prop) {
+          if (prop === "then") {
+            return (resolve: (v: unknown) => unknown) =>
+              Promise.resolve(result).then(resolve);
+          }
+          return (...args: unknown[]) => {
+            calls.push({ table, method: String(prop), args });
+            return chain(table, result);
+          };
+        },
+      },
+    );
+  const next = (table: string) => {
+    const queue = queues[table];
+    if (strict && !queue?.length) {
+      throw new Error(`Unexpected query on table: ${table}`);
+    }
+    return queue?.shift() ?? EMPTY_RESULT;
+  };
+  const client = {
+    from: vi.fn((table: string) => chain(table, next(table))),
+    rpc: vi.fn((fn: string, ...args: unknown[]) => {
+      calls.push({ table: `rpc:${fn}`, method: "rpc", args });
+      return chain(`rpc:${fn}`, next(`rpc:${fn}`));
+    }),
+    storage: {
+      from: vi.fn((bucket: string) =>
+        chain(`storage:${bucket}`, next(`storage:${bucket}`)),
+      ),
+    },
+  };
+  return { client: client as never, from: client.from, calls };
+}
+
+/** The first argument of every recorded call to `method`, in call order. */
+export function callArgs(
+  calls: SupabaseCall[],
+  method: string,
+  table?: string,
+): unknown[] {
+  return calls
+    .filter(
+      (call) =>
+        call.method === method && (table === undefined || call.table === table),
+    )
+    .map((call) => call.args[0]);
+}
@@ -5,6 +5,8 @@
  * - INSERT handler maps `created_by` → `createdBy` on new cards
  * - UPDATE handler preserves `createdBy` from the existing card
  * - completedAt is mapped correctly for both INSERT and UPDATE
+ * - labels / card_labels events keep board labels and card chips in sync
+ * - trashed card events remove the card for other viewers
  */
 import { renderHook } from "@testing-library/react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
@@ -135,6 +137,7 @@ function buildSupabaseMock() {
   return {
     supabase,
     getCardsListener: () => listenersByTable["cards"] ?? null,
+    getListener: (table: string) => listenersByTable[table] ?? null,
   };
 }
 
@@ -269,3 +272,177 @@ describe("useBoardRealtime — dbRowToCardFields mapping", () => {
     expect((card as unknown as { createdBy: unknown }).createdBy).toBeNull();
   });
 });
+
+describe("useBoardRealtime — labels", () => {
+  const LABEL_ID = "label-0000-0000-0000-000000000001";
+  const LABEL = {
+    id: LABEL_ID,
+    boardId: BOARD_ID,
+    name: "Bug",
+    color: "#dc2626",
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function setup() {
+    const { supabase, getListener } = buildSupabaseMock();
+    mockCreateClient.mockReturnValue(supabase as never);
+
+    let capturedUpdater: ((b: BoardWithDetails) => BoardWithDetails) | null =
+      null;
+    const onBoardChange = vi.fn(
+      (updater: (b: BoardWithDetails) => BoardWithDetails) => {
+        capturedUpdater = updater;
+      },
+    );
+
+    renderHook(() => useBoardRealtime({ boardId: BOARD_ID, onBoardChange }));
+
+    return {
+      getListener,
+      apply: (board: BoardWithDetails) => capturedUpdater!(board),
+    };
+  }
+
+  it("subscribes to labels filtered by board and to card_labels", () => {
+    const { getListener } = setup();
+    expect(getListener("labels")).not.toBeNull();
+    expect(getListener("card_labels")).not.toBeNull();
+  });
+
+  it("attaches a label to a card on card_labels INSERT", () => {
+    const { getListener, apply } = setup();
+    const board = { ...makeBoard(), labels: [LABEL] } as BoardWithDetails;
+
+    getListener("card_labels")!({
+      eventType: "INSERT",
+      new: {
+        card_id: CARD_ID,
+        label_id: LABEL_ID,
+        created_at: "2026-01-02T00:00:00.000Z",
+      },
+      old: {},
+    });
+
+    const card = apply(board).columns[0]!.cards[0]!;
+    expect(card.labels).toHaveLength(1);
+    expect(card.labels[0]!.label.name).toBe("Bug");
+  });
+
+  it("ignores card_labels INSERT for labels the board does not know", () => {
+    const { getListener, apply } = setup();
+    const board = makeBoard();
+
+    getListener("card_labels")!({
+      eventType: "INSERT",
+      new: { card_id: CARD_ID, label_id: LABEL_ID, created_at: "" },
+      old: {},
+    });
+
+    expect(apply(board)).toBe(board);
+  });
+
+  it("detaches a label from a card on card_labels DELETE", () => {
+    const { getListener, apply } = setup();
+    const board = {
+      ...makeBoard({
+        labels: [
+          { cardId: CARD_ID, labelId: LABEL_ID, createdAt: "", label: LABEL },
+        ],
+      }),
+      labels: [LABEL],
+    } as BoardWithDetails;
+
+    getListener("card_labels")!({
+      eventType: "DELETE",
+      new: {},
+      old: { card_id: CARD_ID, label_id: LABEL_ID },
+    });
+
+    expect(apply(board).columns[0]!.cards[0]!.labels).toEqual([]);
+  });
+
+  it("renames embedded card labels on labels UPDATE", () => {
+    const { getListener, apply } = setup();
+    const board = {
+      ...makeBoard({
+        labels: [
+          { cardId: CARD_ID, labelId: LABEL_ID, createdAt: "", label: LABEL },
+        ],
+      }),
+      labels: [LABEL],
+    } as BoardWithDetails;
+
+    getListener("labels")!({
+      eventType: "UPDATE",
+      new: {
+        id: LABEL_ID,
+        board_id: BOARD_ID,
+        name: "Defect",
+        color: "#dc2626",
+        created_at: "2026-01-01T00:00:00.000Z",
+      },
+      old: {},
+    });
+
+    const next = apply(board);
+    expect(next.labels.map((l) => l.name)).toEqual(["Defect"]);
+    expect(next.columns[0]!.cards[0]!.labels[0]!.label.name).toBe("Defect");
+  });
+
+  it("removes a deleted label from the board and its cards", () => {
+    const { getListener, apply } = setup();
+    const board = {
+      ...makeBoard({
+        labels: [
+          { cardId: CARD_ID, labelId: LABEL_ID, createdAt: "", label: LABEL },
+        ],
+      }),
+      labels: [LABEL],
+    } as BoardWithDetails;
+
+    getListener("labels")!({
+      eventType: "DELETE",
+      new: {},
+      old: { id: LABEL_ID },
+    });
+
+    const next = apply(board);
+    expect(next.labels).toEqual([]);
+    expect(next.columns[0]!.cards[0]!.labels).toEqual([]);
+  });
+});
+
+describe("useBoardRealtime — trash", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("drops a card when a trashed card event arrives", () => {
+    const { supabase, getListener } = buildSupabaseMock();
+    mockCreateClient.mockReturnValue(supabase as never);
+    const onBoardChange = vi.fn();
+
+    renderHook(() => useBoardRealtime({ boardId: BOARD_ID, onBoardChange }));
+
+    getListener("card_events")!({
+      eventType: "INSERT",
+      new: { card_id: CARD_ID, board_id: BOARD_ID, event_type: "moved" },
+      old: {},
+    });
+    expect(onBoardChange).not.toHaveBeenCalled();
+
+    getListener("card_events")!({
+      eventType: "INSERT",
+      new: { card_id: CARD_ID, board_id: BOARD_ID, event_type: "trashed" },
+      old: {},
+    });
+    const updater = onBoardChange.mock.calls[0]![0] as (
+      b: BoardWithDetails,
+    ) => BoardWithDetails;
+    expect(updater(makeBoard()).columns[0]!.cards).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  boardViewStateToSearchParams,
+  DEFAULT_BOARD_FILTERS,
+  isSameBoardViewState,
+  parseBoardViewState,
+  transformSavedViewRow,
+  type BoardViewState,
+} from "@/lib/board-views";
+
+const filteredState: BoardViewState = {
+  filters: {
+    priorities: ["high", "low"],
+    assignees: ["user-1", "unassigned"],
+    labels: ["label-1"],
+    dueDate: "overdue",
+    search: "release notes",
+    sortBy: "dueDate",
+    sortOrder: "asc",
+  },
+  view: "table",
+};
+
+describe("board view URL state", () => {
+  it("round-trips filters and view mode through the query string", () => {
+    const params = boardViewStateToSearchParams(filteredState);
+
+    expect(params.get("priority")).toBe("high,low");
+    expect(params.get("q")).toBe("release notes");
+    expect(parseBoardViewState(params)).toEqual(filteredState);
+  });
+
+  it("leaves defaults out and keeps unrelated parameters", () => {
+    const params = boardViewStateToSearchParams(
+      { filters: DEFAULT_BOARD_FILTERS, view: "board" },
+      new URLSearchParams("cardId=abc&priority=high&view=table"),
+    );
+
+    expect(params.toString()).toBe("cardId=abc");
+  });
+
+  it("falls back to defaults for unknown values", () => {
+    const state = parseBoardViewState(
+      new URLSearchParams(
+        "view=gallery&priority=urgent,high&due=someday&sort=random&order=up",
+      ),
+    );
+
+    expect(state).toEqual({
+      filters: { ...DEFAULT_BOARD_FILTERS, priorities: ["high"] },
+      view: "board",
+    });
+  });
+
+  it("ignores surrounding whitespace in the search text when comparing", () => {
+    expect(
+      isSameBoardViewState(filteredState, {
+        ...filteredState,
+        filters: { ...filteredState.filters, search: " release notes " },
+      }),
+    ).toBe(true);
+    expect(
+      isSameBoardViewState(filteredState, { ...filteredState, view: "board" }),
+    ).toBe(false);
+  });
+});
+
+describe("transformSavedViewRow", () => {
+  it("fills filter fields missing from older saved views", () => {
+    const view = transformSavedViewRow({
+      id: "view-1",
+      board_id: "board-1",
+      name: "Mine",
+      is_shared: true,
+      filters: { assignees: ["user-1"] },
+      view_mode: "timeline",
+      created_by: "user-1",
+      created_at: "2026-03-01T10:00:00Z",
+      updated_at: "2026-03-01T10:00:00Z",
+    });
+
+    expect(view.filters).toEqual({
+      ...DEFAULT_BOARD_FILTERS,
+      assignees: ["user-1"],
+    });
+    expect(view.viewMode).toBe("timeline");
+    expect(view.isShared).toBe(true);
+  });
+});
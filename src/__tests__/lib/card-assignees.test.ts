@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  getCardAssigneeIds,
+  orderAssigneeIds,
+  resolveAssigneeInput,
+} from "@/lib/card-assignees";
+
+describe("orderAssigneeIds", () => {
+  it("puts the primary assignee first, then the others as added", () => {
+    expect(
+      orderAssigneeIds("u2", [
+        { user_id: "u3", created_at: "2026-06-01T09:00:00Z" },
+        { user_id: "u2", created_at: "2026-06-01T10:00:00Z" },
+        { user_id: "u1", created_at: "2026-06-01T08:00:00Z" },
+      ]),
+    ).toEqual(["u2", "u1", "u3"]);
+  });
+
+  it("keeps the primary even before its row exists", () => {
+    expect(orderAssigneeIds("u1", null)).toEqual(["u1"]);
+    expect(orderAssigneeIds(null, [])).toEqual([]);
+  });
+});
+
+describe("getCardAssigneeIds", () => {
+  it("falls back to the primary assignee", () => {
+    expect(getCardAssigneeIds({ assigneeId: "u1" })).toEqual(["u1"]);
+    expect(getCardAssigneeIds({ assigneeId: "u1", assigneeIds: [] })).toEqual([
+      "u1",
+    ]);
+    expect(getCardAssigneeIds({ assigneeId: null })).toEqual([]);
+    expect(
+      getCardAssigneeIds({ assigneeId: "u1", assigneeIds: ["u1", "u2"] }),
+    ).toEqual(["u1", "u2"]);
+  });
+});
+
+describe("resolveAssigneeInput", () => {
+  it("prefers assigneeIds and drops duplicates", () => {
+    expect(
+      resolveAssigneeInput({
+        assigneeId: "u9",
+        assigneeIds: ["u1", "u2", "u1"],
+      }),
+    ).toEqual(["u1", "u2"]);
+  });
+
+  it("maps the single assigneeId onto a list", () => {
+    expect(resolveAssigneeInput({ assigneeId: "u1" })).toEqual(["u1"]);
+    expect(resolveAssigneeInput({ assigneeId: null })).toEqual([]);
+    expect(resolveAssigneeInput({})).toBeUndefined();
+  });
+});
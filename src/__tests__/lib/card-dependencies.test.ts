@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  checkBlockedCompletion,
+  getOpenBlockerCounts,
+  wouldCreateDependencyCycle,
+} from "@/lib/card-dependencies";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+const links = (...blocked: string[]) => ({
+  data: blocked.map((id) => ({ blocked_card_id: id })),
+  error: null,
+});
+
+describe("wouldCreateDependencyCycle", () => {
+  it("detects a transitive path back to the blocker", async () => {
+    // Linking A → B while B → C → A exists
+    const { client, from } = supabaseMock({
+      card_dependencies: [links("C"), links("A")],
+    });
+
+    await expect(wouldCreateDependencyCycle(client, "A", "B")).resolves.toBe(
+      true,
+    );
+    expect(from).toHaveBeenCalledTimes(2);
+  });
+
+  it("walks diamonds once and stops when nothing is left", async () => {
+    // B → C, B → D, C → E, D → E
+    const { client, from } = supabaseMock({
+      card_dependencies: [links("C", "D"), links("E", "E"), links()],
+    });
+
+    await expect(wouldCreateDependencyCycle(client, "A", "B")).resolves.toBe(
+      false,
+    );
+    expect(from).toHaveBeenCalledTimes(3);
+  });
+
+  it("treats a self link as a cycle without querying", async () => {
+    const { client, from } = supabaseMock({});
+
+    await expect(wouldCreateDependencyCycle(client, "A", "A")).resolves.toBe(
+      true,
+    );
+    expect(from).not.toHaveBeenCalled();
+  });
+});
+
+describe("getOpenBlockerCounts", () => {
+  it("counts only blockers that are not completed", async () => {
+    const { client } = supabaseMock({
+      card_dependencies: [
+        {
+          data: [
+            { blocked_card_id: "A", blocker: { completed_at: null } },
+            { blocked_card_id: "A", blocker: [{ completed_at: null }] },
+            { blocked_card_id: "B", blocker: { completed_at: "2026-03-01" } },
+          ],
+          error: null,
+        },
+      ],
+    });
+
+    const counts = await getOpenBlockerCounts(client, ["A", "B"]);
+
+    expect([...counts]).toEqual([["A", 2]]);
+  });
+
+  it("returns no counts when the lookup fails", async () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    const { client } = supabaseMock({
+      card_dependencies: [{ data: null, error: { message: "boom" } }],
+    });
+
+    await expect(getOpenBlockerCounts(client, ["A"])).resolves.toEqual(
+      new Map(),
+    );
+    consoleError.mockRestore();
+  });
+});
+
+describe("checkBlockedCompletion", () => {
+  it("reads the board setting only when a card is blocked", async () => {
+    const { client, from } = supabaseMock({
+      card_dependencies: [
+        {
+          data: [{ blocked_card_id: "A", blocker: { completed_at: null } }],
+          error: null,
+        },
+        { data: [], error: null },
+      ],
+      boards: [{ data: { enforce_dependencies: true }, error: null }],
+    });
+
+    await expect(
+      checkBlockedCompletion(client, "board-1", ["A", "B"]),
+    ).resolves.toEqual({ blockedCardIds: ["A"], enforced: true });
+    await expect(
+      checkBlockedCompletion(client, "board-1", ["B"]),
+    ).resolves.toEqual({ blockedCardIds: [], enforced: false });
+    expect(
+      from.mock.calls.filter(([table]) => table === "boards"),
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { diffCardEvents, recordCardEvents } from "@/lib/card-events";
+
+const mockInsert = vi.fn();
+const mockFrom = vi.fn(() => ({ insert: mockInsert }));
+const supabase = { from: mockFrom } as unknown as Parameters<
+  typeof recordCardEvents
+>[0];
+
+const context = { cardId: "card-1", boardId: "board-1", actorId: "user-1" };
+
+function snapshot(overrides = {}) {
+  return {
+    title: "Card",
+    description: null,
+    assignee_id: null,
+    priority: "medium",
+    due_date: null,
+    column_id: 1,
+    completed_at: null,
+    ...overrides,
+  };
+}
+
+describe("recordCardEvents", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockInsert.mockResolvedValue({ error: null });
+  });
+
+  it("does not call insert when given zero rows", async () => {
+    await recordCardEvents(supabase, []);
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  it("does not throw when the insert fails", async () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    mockInsert.mockResolvedValue({ error: { message: "boom" } });
+    await expect(
+      recordCardEvents(
+        supabase,
+        diffCardEvents(snapshot(), snapshot({ title: "New" }), context),
+      ),
+    ).resolves.toBeUndefined();
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "[card-events] insert failed:",
+      "boom",
+    );
+    consoleSpy.mockRestore();
+  });
+});
+
+describe("diffCardEvents", () => {
+  it("returns no rows when nothing changed", () => {
+    expect(diffCardEvents(snapshot(), snapshot(), context)).toEqual([]);
+  });
+
+  it("ignores due dates that only differ in formatting", () => {
+    const rows = diffCardEvents(
+      snapshot({ due_date: "2026-03-01T00:00:00+00:00" }),
+      snapshot({ due_date: "2026-03-01T00:00:00.000Z" }),
+      context,
+    );
+    expect(rows).toEqual([]);
+  });
+
+  it("records one row per changed field with before and after values", () => {
+    const rows = diffCardEvents(
+      snapshot(),
+      snapshot({
+        title: "Renamed",
+        description: "Details",
+        assignee_id: "user-2",
+        priority: "high",
+        due_date: "2026-03-01T00:00:00.000Z",
+      }),
+      context,
+    );
+    expect(rows.map((r) => [r.event_type, r.before, r.after])).toEqual([
+      ["title_changed", "Card", "Renamed"],
+      ["description_changed", null, "Details"],
+      ["assignee_changed", null, "user-2"],
+      ["priority_changed", "medium", "high"],
+      ["due_date_changed", null, "2026-03-01T00:00:00.000Z"],
+    ]);
+    expect(rows[0]).toMatchObject({
+      card_id: "card-1",
+      board_id: "board-1",
+      actor_id: "user-1",
+    });
+  });
+
+  it("records moves with the target column title and completion changes", () => {
+    const rows = diffCardEvents(
+      snapshot(),
+      snapshot({ column_id: 3, completed_at: "2026-03-01T10:00:00.000Z" }),
+      { ...context, columnTitles: { after: "Done" } },
+    );
+    expect(rows.map((r) => [r.event_type, r.before, r.after])).toEqual([
+      [
+        "moved",
+        { columnId: 1, columnTitle: null },
+        { columnId: 3, columnTitle: "Done" },
+      ],
+      ["completed", null, "2026-03-01T10:00:00.000Z"],
+    ]);
+  });
+
+  it("records reopening a completed card", () => {
+    const rows = diffCardEvents(
+      snapshot({ completed_at: "2026-03-01T10:00:00.000Z" }),
+      snapshot(),
+      context,
+    );
+    expect(rows).toEqual([
+      expect.objectContaining({
+        event_type: "reopened",
+        before: "2026-03-01T10:00:00.000Z",
+        after: null,
+      }),
+    ]);
+  });
+
+  it("records added and removed co-assignees with the full assignee list", () => {
+    const previous = snapshot({
+      assignee_id: "user-2",
+      assignee_ids: ["user-2"],
+    });
+    const added = diffCardEvents(
+      previous,
+      snapshot({ assignee_id: "user-2", assignee_ids: ["user-2", "user-3"] }),
+      context,
+    );
+    expect(added.map((r) => [r.event_type, r.before, r.after])).toEqual([
+      ["assignee_changed", ["user-2"], ["user-2", "user-3"]],
+    ]);
+    expect(
+      diffCardEvents(
+        snapshot({ assignee_id: "user-2", assignee_ids: ["user-2", "user-3"] }),
+        previous,
+        context,
+      ).map((r) => r.event_type),
+    ).toEqual(["assignee_changed"]);
+    expect(diffCardEvents(previous, previous, context)).toEqual([]);
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import {
+  getCardQuerySuggestions,
+  getCardQueryText,
+  matchesCardQuery,
+  parseCardQuery,
+  type CardQueryContext,
+  type CardQuerySubject,
+} from "@/lib/card-query";
+
+// Wednesday; the week ends on Sunday 2026-03-15.
+const context: CardQueryContext = {
+  currentUserId: "me-id",
+  today: "2026-03-11",
+  members: [
+    { id: "me-id", name: "Mia Meier", email: "mia@example.com" },
+    { id: "anna-id", name: "Anna Schmidt", email: "anna@example.com" },
+  ],
+};
+
+const card = (overrides: Partial<CardQuerySubject> = {}): CardQuerySubject => ({
+  title: "Release notes",
+  description: "Write the changelog",
+  assigneeId: null,
+  priority: "medium",
+  dueDate: null,
+  completedAt: null,
+  createdVia: "ui",
+  attachmentCount: 0,
+  labels: [],
+  ...overrides,
+});
+
+const matches = (query: string, subject: CardQuerySubject) =>
+  matchesCardQuery(subject, parseCardQuery(query), context);
+
+describe("parseCardQuery", () => {
+  it("parses fields, value lists, negation and quoted text", () => {
+    const query = parseCardQuery(
+      'priority:high,medium -is:done label:"needs review" "exact phrase" word',
+    );
+
+    expect(query.errors).toEqual([]);
+    expect(query.nodes).toEqual([
+      { kind: "priority", negated: false, values: ["high", "medium"] },
+      { kind: "is", negated: true, values: ["done"] },
+      { kind: "label", negated: false, values: ["needs review"] },
+      { kind: "text", negated: false, value: "exact phrase" },
+      { kind: "text", negated: false, value: "word" },
+    ]);
+  });
+
+  it("parses due date comparisons", () => {
+    const query = parseCardQuery("due:<7d due:>=2026-04-01 due:today");
+
+    expect(query.nodes).toEqual([
+      {
+        kind: "due",
+        negated: false,
+        values: [
+          {
+            type: "compare",
+            comparison: "<",
+            target: { type: "relative", days: 7 },
+          },
+        ],
+      },
+      {
+        kind: "due",
+        negated: false,
+        values: [
+          {
+            type: "compare",
+            comparison: ">=",
+            target: { type: "day", day: "2026-04-01" },
+          },
+        ],
+      },
+      {
+        kind: "due",
+        negated: false,
+        values: [
+          {
+            type: "compare",
+            comparison: "=",
+            target: { type: "relative", days: 0 },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("reports invalid terms and keeps the valid ones", () => {
+    const query = parseCardQuery(
+      'priorty:high priority:urgent due:soon label: is:open "open',
+    );
+
+    expect(query.errors).toEqual([
+      { code: "unknown-field", term: "priorty:high" },
+      { code: "invalid-value", term: "priority:urgent" },
+      { code: "invalid-value", term: "due:soon" },
+      { code: "missing-value", term: "label:" },
+      { code: "unterminated-quote", term: '"open' },
+    ]);
+    expect(query.nodes).toEqual([
+      { kind: "is", negated: false, values: ["open"] },
+    ]);
+  });
+
+  it("can treat unknown fields as words", () => {
+    const query = parseCardQuery("Meeting: notes", {
+      unknownFieldsAsText: true,
+    });
+
+    expect(query.errors).toEqual([]);
+    expect(getCardQueryText(query)).toBe("Meeting: notes");
+  });
+});
+
+describe("matchesCardQuery", () => {
+  it("matches words against title and description", () => {
+    expect(matches("release changelog", card())).toBe(true);
+    expect(matches("release -changelog", card())).toBe(false);
+    expect(matches('"notes write"', card())).toBe(false);
+  });
+
+  it("resolves assignees by me, none, email, local part and name", () => {
+    const mine = card({ assigneeId: "me-id" });
+    const annas = card({ assigneeId: "anna-id" });
+
+    expect(matches("assignee:me", mine)).toBe(true);
+    expect(matches("assignee:me", annas)).toBe(false);
+    expect(matches("assignee:anna@example.com", annas)).toBe(true);
+    expect(matches("assignee:anna", annas)).toBe(true);
+    expect(matches('assignee:"anna schmidt"', annas)).toBe(true);
+    expect(matches("assignee:none", card())).toBe(true);
+    expect(matches("-assignee:none", annas)).toBe(true);
+  });
+
+  it("matches any of a card's assignees", () => {
+    const shared = card({
+      assigneeId: "anna-id",
+      assigneeIds: ["anna-id", "me-id"],
+    });
+
+    expect(matches("assignee:me", shared)).toBe(true);
+    expect(matches("assignee:anna", shared)).toBe(true);
+    expect(matches("assignee:none", shared)).toBe(false);
+  });
+
+  it("compares due dates as calendar days", () => {
+    const dueIn3 = card({ dueDate: "2026-03-14T23:59:59.999Z" });
+    const dueIn10 = card({ dueDate: "2026-03-21T23:59:59.999Z" });
+
+    expect(matches("due:<7d", dueIn3)).toBe(true);
+    expect(matches("due:<7d", dueIn10)).toBe(false);
+    expect(matches("due:week", dueIn3)).toBe(true);
+    expect(matches("due:week", dueIn10)).toBe(false);
+    expect(matches("due:2026-03-21", dueIn10)).toBe(true);
+    expect(matches("due:none", card())).toBe(true);
+    expect(matches("due:<7d", card())).toBe(false);
+  });
+
+  it("matches states, presence checks, labels and source", () => {
+    const overdue = card({
+      dueDate: "2026-03-10T23:59:59.999Z",
+      attachmentCount: 2,
+      labels: [{ id: "l1", name: "Backend" }],
+      createdVia: "api",
+    });
+
+    expect(matches("is:overdue", overdue)).toBe(true);
+    expect(
+      matches(
+        "is:overdue",
+        card({ ...overdue, completedAt: "2026-03-10T12:00:00.000Z" }),
+      ),
+    ).toBe(false);
+    expect(matches("is:open -is:done", overdue)).toBe(true);
+    expect(matches("has:attachments has:labels has:due", overdue)).toBe(true);
+    expect(matches("has:attachments", card())).toBe(false);
+    expect(matches("label:backend created-via:api", overdue)).toBe(true);
+    expect(matches("label:frontend,backend", overdue)).toBe(true);
+    expect(matches("-label:backend", overdue)).toBe(false);
+  });
+});
+
+describe("getCardQuerySuggestions", () => {
+  const source = {
+    members: context.members,
+    labels: [{ name: "Backend" }, { name: "Needs review" }],
+  };
+
+  it("suggests fields for a term without a colon", () => {
+    const input = "bug -pri";
+    const result = getCardQuerySuggestions(input, input.length, source);
+
+    expect(result.from).toBe(4);
+    expect(result.suggestions).toEqual([
+      { label: "priority:", insert: "-priority:" },
+    ]);
+  });
+
+  it("suggests values and keeps earlier list entries", () => {
+    const input = "label:Backend,ne";
+    const result = getCardQuerySuggestions(input, input.length, source);
+
+    expect(result.suggestions).toEqual([
+      {
+        label: "Needs review",
+        insert: 'label:Backend,"Needs review" ',
+      },
+    ]);
+  });
+
+  it("finds members by name", () => {
+    const input = "assignee:schm";
+    const result = getCardQuerySuggestions(input, input.length, source);
+
+    expect(result.suggestions).toEqual([
+      {
+        label: "anna@example.com",
+        detail: "Anna Schmidt",
+        insert: "assignee:anna@example.com ",
+      },
+    ]);
+  });
+});
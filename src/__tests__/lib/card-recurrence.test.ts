@@ -0,0 +1,275 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createNextRecurringCard,
+  formatRecurrenceRule,
+  getNextOccurrence,
+  getNextRecurrenceDates,
+  parseRecurrenceRule,
+  recurrenceRuleSchema,
+  type RecurringCardRow,
+} from "@/lib/card-recurrence";
+import { dispatchWebhookEvent } from "@/lib/webhooks/delivery";
+import { callArgs, supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/webhooks/delivery", () => ({
+  dispatchWebhookEvent: vi.fn().mockResolvedValue(undefined),
+}));
+
+const rule = (value: string) => {
+  const parsed = parseRecurrenceRule(value);
+  if (!parsed) throw new Error(`invalid rule ${value}`);
+  return parsed;
+};
+
+describe("parseRecurrenceRule", () => {
+  it("parses the supported parts case-insensitively", () => {
+    expect(
+      parseRecurrenceRule("RRULE:freq=weekly;interval=2;byday=TH,MO"),
+    ).toEqual({
+      freq: "WEEKLY",
+      interval: 2,
+      byDay: ["MO", "TH"],
+      byMonthDay: null,
+      until: null,
+    });
+    expect(
+      parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20261231"),
+    ).toMatchObject({ byMonthDay: -1, until: "2026-12-31" });
+  });
+
+  it("rejects rules outside the subset", () => {
+    for (const value of [
+      "",
+      "FREQ=YEARLY",
+      "INTERVAL=2",
+      "FREQ=DAILY;COUNT=3",
+      "FREQ=DAILY;INTERVAL=0",
+      "FREQ=DAILY;BYDAY=MO",
+      "FREQ=WEEKLY;BYDAY=1MO",
+      "FREQ=MONTHLY;BYMONTHDAY=32",
+      "FREQ=DAILY;UNTIL=20260231",
+      "FREQ=DAILY;FREQ=WEEKLY",
+    ]) {
+      expect(parseRecurrenceRule(value)).toBeNull();
+    }
+  });
+
+  it("formats rules canonically", () => {
+    expect(
+      formatRecurrenceRule(rule("byday=fr,mo;freq=weekly;interval=1")),
+    ).toBe("FREQ=WEEKLY;BYDAY=MO,FR");
+    expect(recurrenceRuleSchema.safeParse("FREQ=SECONDLY").success).toBe(false);
+    expect(recurrenceRuleSchema.parse("rrule:freq=daily;interval=3")).toBe(
+      "FREQ=DAILY;INTERVAL=3",
+    );
+  });
+});
+
+describe("getNextOccurrence", () => {
+  // 2026-03-11 is a Wednesday
+  it("steps daily rules by the interval", () => {
+    expect(getNextOccurrence(rule("FREQ=DAILY"), "2026-03-11")).toBe(
+      "2026-03-12",
+    );
+    expect(getNextOccurrence(rule("FREQ=DAILY;INTERVAL=3"), "2026-03-30")).toBe(
+      "2026-04-02",
+    );
+  });
+
+  it("finds the next listed weekday, skipping weeks by the interval", () => {
+    const weekdays = rule("FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR");
+    expect(getNextOccurrence(weekdays, "2026-03-11")).toBe("2026-03-12");
+    expect(getNextOccurrence(weekdays, "2026-03-13")).toBe("2026-03-16");
+    expect(
+      getNextOccurrence(rule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO"), "2026-03-11"),
+    ).toBe("2026-03-23");
+    expect(getNextOccurrence(rule("FREQ=WEEKLY"), "2026-03-11")).toBe(
+      "2026-03-18",
+    );
+  });
+
+  it("clamps month days to short months", () => {
+    const on31st = rule("FREQ=MONTHLY;BYMONTHDAY=31");
+    expect(getNextOccurrence(on31st, "2026-01-31")).toBe("2026-02-28");
+    expect(
+      getNextOccurrence(rule("FREQ=MONTHLY;BYMONTHDAY=15"), "2026-03-11"),
+    ).toBe("2026-03-15");
+    expect(
+      getNextOccurrence(
+        rule("FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=-1"),
+        "2026-11-30",
+      ),
+    ).toBe("2027-01-31");
+  });
+
+  it("ends after UNTIL", () => {
+    const until = rule("FREQ=DAILY;UNTIL=20260312");
+    expect(getNextOccurrence(until, "2026-03-11")).toBe("2026-03-12");
+    expect(getNextOccurrence(until, "2026-03-12")).toBeNull();
+  });
+});
+
+describe("getNextRecurrenceDates", () => {
+  it("continues from the due date when completed early", () => {
+    expect(
+      getNextRecurrenceDates(
+        rule("FREQ=WEEKLY"),
+        { dueDate: "2026-03-16T23:59:59.999Z", startDate: null },
+        "2026-03-12T09:00:00.000Z",
+      ),
+    ).toEqual({ dueDate: "2026-03-23T23:59:59.999Z", startDate: null });
+  });
+
+  it("continues from the completion when late, keeping the start lead", () => {
+    expect(
+      getNextRecurrenceDates(
+        rule("FREQ=WEEKLY"),
+        {
+          dueDate: "2026-03-09T23:59:59.999Z",
+          startDate: "2026-03-06T00:00:00.000Z",
+        },
+        "2026-03-11T09:00:00.000Z",
+      ),
+    ).toEqual({
+      dueDate: "2026-03-16T23:59:59.999Z",
+      startDate: "2026-03-13T00:00:00.000Z",
+    });
+  });
+
+  it("counts from the completion day for cards without a due date", () => {
+    expect(
+      getNextRecurrenceDates(
+        rule("FREQ=DAILY"),
+        { dueDate: null, startDate: null },
+        "2026-03-11T09:00:00.000Z",
+      ),
+    ).toEqual({ dueDate: "2026-03-12T23:59:59.999Z", startDate: null });
+  });
+});
+
+describe("createNextRecurringCard", () => {
+  const CARD: RecurringCardRow = {
+    id: "card-1",
+    board_id: "board-1",
+    title: "Weekly report",
+    description: "Send it",
+    priority: "high",
+    assignee_id: "u2",
+    created_by: "u1",
+    start_date: null,
+    due_date: "2026-03-16T23:59:59.999Z",
+    recurrence_rule: "FREQ=WEEKLY",
+    recurrence_column_id: 3,
+  };
+
+  beforeEach(() => vi.clearAllMocks());
+
+  it("creates the next card with labels and open subtasks", async () => {
+    const { client, calls } = supabaseMock({
+      columns: [
+        {
+          data: [
+            { id: 1, is_done: false },
+            { id: 3, is_done: false },
+            { id: 4, is_done: true },
+          ],
+          error: null,
+        },
+      ],
+      cards: [
+        { data: [{ position: 4 }], error: null },
+        {
+          data: {
+            id: "card-2",
+            title: CARD.title,
+            column_id: 3,
+            assignee_id: "u2",
+            due_date: "2026-03-23T23:59:59.999Z",
+            priority: "high",
+          },
+          error: null,
+        },
+      ],
+      card_labels: [{ data: [{ label_id: "l1" }], error: null }],
+      card_subtasks: [
+        {
+          data: [
+            { title: "Collect numbers", position: 1 },
+            { title: "Write summary", position: 2 },
+          ],
+          error: null,
+        },
+      ],
+    });
+
+    const nextId = await createNextRecurringCard(client, CARD, {
+      actorId: "u3",
+      completedAt: "2026-03-12T09:00:00.000Z",
+    });
+
+    expect(nextId).toBe("card-2");
+    expect(callArgs(calls, "insert", "cards")[0]).toMatchObject({
+      column_id: 3,
+      position: 5,
+      title: "Weekly report",
+      created_by: "u1",
+      due_date: "2026-03-23T23:59:59.999Z",
+      recurrence_rule: "FREQ=WEEKLY",
+      recurrence_source_id: "card-1",
+    });
+    expect(callArgs(calls, "insert", "card_labels")[0]).toEqual([
+      { card_id: "card-2", label_id: "l1" },
+    ]);
+    expect(callArgs(calls, "insert", "card_subtasks")[0]).toEqual([
+      { card_id: "card-2", title: "Collect numbers", position: 1 },
+      { card_id: "card-2", title: "Write summary", position: 2 },
+    ]);
+    expect(dispatchWebhookEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "card.created", actorId: "u3" }),
+    );
+  });
+
+  it("falls back to the first open column and skips existing instances", async () => {
+    const { client, calls } = supabaseMock({
+      columns: [
+        {
+          data: [
+            { id: 3, is_done: true },
+            { id: 5, is_done: false },
+          ],
+          error: null,
+        },
+      ],
+      cards: [
+        { data: [], error: null },
+        { data: null, error: { code: "23505", message: "duplicate key" } },
+      ],
+    });
+
+    const nextId = await createNextRecurringCard(client, CARD, {
+      actorId: "u1",
+      completedAt: "2026-03-12T09:00:00.000Z",
+    });
+
+    expect(nextId).toBeNull();
+    expect(callArgs(calls, "insert", "cards")[0]).toMatchObject({
+      column_id: 5,
+      position: 1,
+    });
+    expect(callArgs(calls, "insert", "card_subtasks")).toEqual([]);
+    expect(dispatchWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it("does nothing once the rule has ended", async () => {
+    const { client, from } = supabaseMock({});
+
+    const nextId = await createNextRecurringCard(
+      client,
+      { ...CARD, recurrence_rule: "FREQ=WEEKLY;UNTIL=20260320" },
+      { actorId: "u1", completedAt: "2026-03-12T09:00:00.000Z" },
+    );
+
+    expect(nextId).toBeNull();
+    expect(from).not.toHaveBeenCalled();
+  });
+});
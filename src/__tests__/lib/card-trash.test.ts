@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  getPurgeDate,
+  purgeExpiredCards,
+  restoreTrashedCard,
+} from "@/lib/card-trash";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+const NOW = new Date("2026-06-30T12:00:00Z");
+
+describe("getPurgeDate", () => {
+  it("adds the retention period to the deletion time", () => {
+    expect(getPurgeDate("2026-06-01T08:00:00Z", 30).toISOString()).toBe(
+      "2026-07-01T08:00:00.000Z",
+    );
+  });
+});
+
+describe("purgeExpiredCards", () => {
+  it("removes attachments and rows of cards past their board retention", async () => {
+    const { client, calls } = supabaseMock({
+      "rpc:expired_trashed_cards": [{ data: [{ id: "old" }], error: null }],
+      cards: [{ data: [{ id: "old" }], error: null }],
+      "storage:card-attachments": [
+        { data: [{ name: "a.pdf" }, { name: "b.png" }], error: null },
+        { data: null, error: null },
+      ],
+    });
+
+    await expect(purgeExpiredCards(client, NOW)).resolves.toBe(1);
+
+    expect(calls).toContainEqual({
+      table: "rpc:expired_trashed_cards",
+      method: "rpc",
+      args: [{ p_now: NOW.toISOString(), p_limit: 200 }],
+    });
+    expect(calls).toContainEqual({
+      table: "storage:card-attachments",
+      method: "remove",
+      args: [["old/a.pdf", "old/b.png"]],
+    });
+    expect(calls).toContainEqual({
+      table: "cards",
+      method: "in",
+      args: ["id", ["old"]],
+    });
+  });
+
+  it("does nothing when no card is due", async () => {
+    const { client, calls } = supabaseMock({
+      "rpc:expired_trashed_cards": [{ data: [], error: null }],
+    });
+
+    await expect(purgeExpiredCards(client, NOW)).resolves.toBe(0);
+    expect(calls.some((call) => call.method === "delete")).toBe(false);
+  });
+});
+
+describe("restoreTrashedCard", () => {
+  const card = { id: "c1", column_id: 7, position: 2 };
+
+  it("moves cards down when the original slot is taken", async () => {
+    const { client, calls } = supabaseMock({
+      cards: [
+        {
+          data: [
+            { id: "x", position: 2 },
+            { id: "y", position: 3 },
+          ],
+          error: null,
+        },
+      ],
+    });
+
+    await restoreTrashedCard(client, card);
+
+    const updates = calls.filter((call) => call.method === "update");
+    expect(updates.map((call) => call.args[0])).toEqual([
+      { position: 3 },
+      { position: 4 },
+      { deleted_at: null, deleted_by: null },
+    ]);
+  });
+
+  it("leaves other cards alone when the slot is free", async () => {
+    const { client, calls } = supabaseMock({
+      cards: [{ data: [{ id: "y", position: 5 }], error: null }],
+    });
+
+    await restoreTrashedCard(client, card);
+
+    const updates = calls.filter((call) => call.method === "update");
+    expect(updates.map((call) => call.args[0])).toEqual([
+      { deleted_at: null, deleted_by: null },
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { describeCommentEdits, diffText } from "@/lib/comment-revisions";
+
+describe("diffText", () => {
+  it("marks removed and added words and keeps the rest", () => {
+    expect(diffText("ship it on monday", "ship it on friday please")).toEqual([
+      { type: "equal", text: "ship it on " },
+      { type: "removed", text: "monday" },
+      { type: "added", text: "friday please" },
+    ]);
+  });
+
+  it("returns the text unchanged when nothing differs", () => {
+    expect(diffText("same", "same")).toEqual([{ type: "equal", text: "same" }]);
+  });
+});
+
+describe("describeCommentEdits", () => {
+  it("diffs every revision against the body that replaced it", () => {
+    const editor = { id: "u1", name: "U1", email: "u1@example.com" };
+    const edits = describeCommentEdits("third", [
+      { id: "r2", body: "second", createdAt: "2026-06-02T00:00:00Z", editor },
+      { id: "r1", body: "first", createdAt: "2026-06-01T00:00:00Z", editor },
+    ]);
+
+    expect(edits.map((edit) => [edit.revision.id, edit.diff])).toEqual([
+      [
+        "r2",
+        [
+          { type: "removed", text: "second" },
+          { type: "added", text: "third" },
+        ],
+      ],
+      [
+        "r1",
+        [
+          { type: "removed", text: "first" },
+          { type: "added", text: "second" },
+        ],
+      ],
+    ]);
+  });
+});
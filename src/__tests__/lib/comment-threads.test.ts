@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { groupCommentThreads, summarizeReactions } from "@/lib/comment-threads";
+
+describe("groupCommentThreads", () => {
+  it("folds replies, including replies to replies, under their top-level comment", () => {
+    const threads = groupCommentThreads([
+      { id: "a" },
+      { id: "b" },
+      { id: "a1", parentId: "a" },
+      { id: "a1x", parentId: "a1" },
+      { id: "b1", parentId: "b" },
+    ]);
+
+    expect(
+      threads.map((t) => [t.comment.id, t.replies.map((r) => r.id)]),
+    ).toEqual([
+      ["a", ["a1", "a1x"]],
+      ["b", ["b1"]],
+    ]);
+  });
+
+  it("shows replies whose parent is missing as top-level comments", () => {
+    const threads = groupCommentThreads([{ id: "r", parentId: "gone" }]);
+
+    expect(threads).toEqual([
+      { comment: { id: "r", parentId: "gone" }, replies: [] },
+    ]);
+  });
+});
+
+describe("summarizeReactions", () => {
+  it("counts per emoji in palette order and marks the user's own", () => {
+    expect(
+      summarizeReactions(
+        [
+          { emoji: "🚀", user_id: "u2" },
+          { emoji: "👍", user_id: "u2" },
+          { emoji: "👍", user_id: "u1" },
+        ],
+        "u1",
+      ),
+    ).toEqual([
+      { emoji: "👍", count: 2, reacted: true, userIds: ["u2", "u1"] },
+      { emoji: "🚀", count: 1, reacted: false, userIds: ["u2"] },
+    ]);
+  });
+});
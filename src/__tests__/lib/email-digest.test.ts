@@ -0,0 +1,261 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  buildEmailDigest,
+  getDigestPeriodStart,
+  isDigestDue,
+  runEmailDigests,
+} from "@/lib/email-digest";
+import { sendEmailDigest } from "@/lib/mailer";
+import { supabaseMock } from "@/__tests__/helpers/supabase-mock";
+
+vi.mock("@/lib/mailer", () => ({ sendEmailDigest: vi.fn() }));
+
+// A Tuesday
+const NOW = new Date("2026-06-30T12:00:00Z");
+
+const BOARD_A = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
+const BOARD_B = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+
+const digestTables = () => ({
+  boards: [
+    {
+      data: [
+        { id: BOARD_A, name: "Roadmap", is_archived: false },
+        { id: "archived", name: "Old", is_archived: true },
+      ],
+      error: null,
+    },
+  ],
+  board_members: [
+    {
+      data: [{ boards: { id: BOARD_B, name: "Support", is_archived: false } }],
+      error: null,
+    },
+  ],
+  notifications: [
+    {
+      data: [
+        {
+          id: "n1",
+          type: "card_assigned",
+          metadata: {},
+          created_at: "2026-06-30T09:00:00Z",
+          board_id: BOARD_B,
+          card_id: "c1",
+          actor: { name: "Anna" },
+          card: { title: "Reply to customer" },
+          board: { name: "Support" },
+        },
+        {
+          id: "n2",
+          type: "card_moved",
+          metadata: { columnTitle: "Done" },
+          created_at: "2026-06-29T15:00:00Z",
+          board_id: BOARD_A,
+          card_id: "c2",
+          actor: { name: "Ben" },
+          card: { title: "Release notes" },
+          board: { name: "Roadmap" },
+        },
+        {
+          id: "n3",
+          type: "comment",
+          metadata: {},
+          created_at: "2026-06-29T10:00:00Z",
+          board_id: BOARD_B,
+          card_id: "c1",
+          actor: null,
+          card: { title: "Reply to customer" },
+          board: { name: "Support" },
+        },
+      ],
+      count: 5,
+      error: null,
+    },
+  ],
+  cards: [
+    {
+      data: [
+        {
+          id: "c3",
+          title: "Invoice",
+          due_date: "2026-06-28T23:59:59.999Z",
+          board_id: BOARD_A,
+        },
+        {
+          id: "c4",
+          title: "Standup notes",
+          due_date: "2026-06-30T23:59:59.999Z",
+          board_id: BOARD_B,
+        },
+      ],
+      error: null,
+    },
+  ],
+});
+
+describe("getDigestPeriodStart", () => {
+  it("starts daily periods at midnight UTC and weekly ones on Monday", () => {
+    expect(getDigestPeriodStart("daily", NOW).toISOString()).toBe(
+      "2026-06-30T00:00:00.000Z",
+    );
+    expect(getDigestPeriodStart("weekly", NOW).toISOString()).toBe(
+      "2026-06-29T00:00:00.000Z",
+    );
+  });
+});
+
+describe("isDigestDue", () => {
+  it("sends once per period from the send hour on", () => {
+    expect(isDigestDue("daily", null, NOW)).toBe(true);
+    expect(isDigestDue("daily", "2026-06-29T06:00:00Z", NOW)).toBe(true);
+    expect(isDigestDue("daily", "2026-06-30T06:00:00Z", NOW)).toBe(false);
+    expect(isDigestDue("daily", null, new Date("2026-06-30T05:59:00Z"))).toBe(
+      false,
+    );
+    expect(isDigestDue("weekly", "2026-06-29T06:00:00Z", NOW)).toBe(false);
+    expect(isDigestDue("weekly", "2026-06-22T06:00:00Z", NOW)).toBe(true);
+    expect(isDigestDue("off", null, NOW)).toBe(false);
+  });
+});
+
+describe("buildEmailDigest", () => {
+  it("groups unread notifications by board and picks overdue and due-today cards", async () => {
+    const { client, calls } = supabaseMock(digestTables());
+
+    const digest = await buildEmailDigest(client, "u1", NOW);
+
+    expect(digest.unreadCount).toBe(5);
+    expect(
+      digest.boards.map((board) => [
+        board.boardName,
+        board.notifications.map((notification) => notification.text),
+      ]),
+    ).toEqual([
+      [
+        "Support",
+        [
+          'Anna hat Ihnen die Karte "Reply to customer" zugewiesen',
+          'Unbekannt hat "Reply to customer" kommentiert',
+        ],
+      ],
+      ["Roadmap", ['Ben hat die Karte "Release notes" nach "Done" verschoben']],
+    ]);
+    expect(digest.overdue.map((card) => card.id)).toEqual(["c3"]);
+    expect(digest.dueToday.map((card) => card.id)).toEqual(["c4"]);
+    // Archived boards are left out of both queries
+    expect(calls).toContainEqual({
+      table: "notifications",
+      method: "in",
+      args: ["board_id", [BOARD_A, BOARD_B]],
+    });
+    expect(calls).toContainEqual({
+      table: "cards",
+      method: "is",
+      args: ["deleted_at", null],
+    });
+  });
+});
+
+describe("runEmailDigests", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const user = {
+    id: "u1",
+    email: "u1@example.com",
+    name: "U1",
+    email_digest_frequency: "daily",
+    email_digest_sent_at: "2026-06-29T06:00:00Z",
+  };
+
+  it("claims the period, then sends the digest", async () => {
+    const { client, calls } = supabaseMock({
+      users: [
+        { data: [user], error: null },
+        { data: [{ id: "u1" }], error: null },
+      ],
+      ...digestTables(),
+    });
+
+    const results = await runEmailDigests(client, { now: NOW });
+
+    expect(results.map((result) => result.status)).toEqual(["sent"]);
+    expect(calls).toContainEqual({
+      table: "users",
+      method: "or",
+      args: [
+        "email_digest_sent_at.is.null,email_digest_sent_at.lt.2026-06-30T00:00:00.000Z",
+      ],
+    });
+    expect(sendEmailDigest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "u1@example.com",
+        frequency: "daily",
+      }),
+    );
+  });
+
+  it("skips users whose digest another run already claimed", async () => {
+    const { client } = supabaseMock({
+      users: [
+        { data: [user], error: null },
+        { data: [], error: null },
+      ],
+    });
+
+    const results = await runEmailDigests(client, { now: NOW });
+
+    expect(results).toEqual([]);
+    expect(sendEmailDigest).not.toHaveBeenCalled();
+  });
+
+  it("does not send an empty digest", async () => {
+    const { client } = supabaseMock({
+      users: [
+        { data: [user], error: null },
+        { data: [{ id: "u1" }], error: null },
+      ],
+      boards: [{ data: [], error: null }],
+      board_members: [{ data: [], error: null }],
+    });
+
+    const results = await runEmailDigests(client, { now: NOW });
+
+    expect(results.map((result) => result.status)).toEqual(["empty"]);
+    expect(sendEmailDigest).not.toHaveBeenCalled();
+  });
+
+  it("releases the claim when sending fails", async () => {
+    vi.mocked(sendEmailDigest).mockRejectedValueOnce(new Error("Resend down"));
+    const { client, calls } = supabaseMock({
+      users: [
+        { data: [user], error: null },
+        { data: [{ id: "u1" }], error: null },
+      ],
+      ...digestTables(),
+    });
+
+    const results = await runEmailDigests(client, { now: NOW });
+
+    expect(results.map((result) => result.status)).toEqual(["failed"]);
+    expect(calls).toContainEqual({
+      table: "users",
+      method: "update",
+      args: [{ email_digest_sent_at: "2026-06-29T06:00:00Z" }],
+    });
+  });
+
+  it("only builds digests on a dry run", async () => {
+    const { client, calls } = supabaseMock({
+      users: [{ data: [user], error: null }],
+      ...digestTables(),
+    });
+
+    const results = await runEmailDigests(client, { now: NOW, dryRun: true });
+
+    expect(results[0]?.status).toBe("dry-run");
+    expect(results[0]?.digest?.unreadCount).toBe(5);
+    expect(calls.some((call) => call.method === "update")).toBe(false);
+    expect(sendEmailDigest).not.toHaveBeenCalled();
+  });
+});
@@ -10,6 +10,7 @@ vi.mock("fs", () => ({
         "<p>{{USER_NAME}} ({{USER_EMAIL}}) registered at {{REGISTERED_AT}}</p>",
         "<a href='{{APPROVAL_URL}}'>Approve</a>",
         "<p>{{SITE_URL}}</p>",
+        "<p>{{SUMMARY}}</p>{{CARD_SECTIONS}}{{NOTIFICATION_SECTIONS}}",
         "</html>",
       ].join("\n"),
     ),
@@ -27,7 +28,8 @@ global.fetch = mockFetch;
 
 // ─── import after mocks ──────────────────────────────────────────────────────
 
-const { sendNewUserPendingNotification } = await import("@/lib/mailer");
+const { sendEmailDigest, sendNewUserPendingNotification } =
+  await import("@/lib/mailer");
 
 // ─── helpers ─────────────────────────────────────────────────────────────────
 
@@ -202,3 +204,70 @@ describe("sendNewUserPendingNotification", () => {
     });
   });
 });
+
+describe("sendEmailDigest", () => {
+  const digest = {
+    boards: [
+      {
+        boardId: "board-1",
+        boardName: "Roadmap",
+        notifications: [
+          {
+            id: "n1",
+            text: 'Anna hat "<b>Launch</b>" kommentiert',
+            cardId: "card-1",
+            createdAt: "2026-06-30T09:00:00Z",
+          },
+        ],
+      },
+    ],
+    unreadCount: 3,
+    overdue: [
+      {
+        id: "card-2",
+        title: "Invoice",
+        boardId: "board-1",
+        boardName: "Roadmap",
+        dueDate: "2026-06-28T23:59:59.999Z",
+      },
+    ],
+    dueToday: [],
+  };
+
+  const sentBody = () =>
+    JSON.parse(
+      (mockFetch.mock.calls[0] as [string, RequestInit])[1].body as string,
+    );
+
+  it("sends the digest to the user with a summary subject", async () => {
+    await sendEmailDigest({
+      to: "user@example.com",
+      userName: "User",
+      frequency: "weekly",
+      digest,
+    });
+
+    const body = sentBody();
+    expect(body.to).toEqual(["user@example.com"]);
+    expect(body.subject).toContain("wöchentliche");
+    expect(body.subject).toContain("3 ungelesene Benachrichtigungen");
+  });
+
+  it("links cards and escapes notification text", async () => {
+    await sendEmailDigest({
+      to: "user@example.com",
+      userName: null,
+      frequency: "daily",
+      digest,
+    });
+
+    const { html } = sentBody();
+    expect(html).toContain(
+      "https://app.example.com/boards/board-1?cardId=card-2",
+    );
+    expect(html).toContain("Überfällig (1)");
+    expect(html).toContain("&lt;b&gt;Launch&lt;/b&gt;");
+    expect(html).not.toContain("<b>Launch</b>");
+    expect(html).toContain("2 weitere ungelesene Benachrichtigungen");
+  });
+});
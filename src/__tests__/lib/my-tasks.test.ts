@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  getMyTaskBucket,
+  getQuickRescheduleDays,
+  groupMyTasks,
+  isCalendarDay,
+} from "@/lib/my-tasks";
+
+// 2026-03-11 is a Wednesday; that week ends on Sunday 2026-03-15.
+const TODAY = "2026-03-11";
+const due = (day: string) => `${day}T23:59:59.999Z`;
+
+describe("getMyTaskBucket", () => {
+  it("buckets due dates relative to today", () => {
+    expect(getMyTaskBucket(due("2026-03-10"), TODAY)).toBe("overdue");
+    expect(getMyTaskBucket(due("2026-03-11"), TODAY)).toBe("today");
+    expect(getMyTaskBucket(due("2026-03-12"), TODAY)).toBe("week");
+    expect(getMyTaskBucket(due("2026-03-15"), TODAY)).toBe("week");
+    expect(getMyTaskBucket(due("2026-03-16"), TODAY)).toBe("later");
+    expect(getMyTaskBucket(null, TODAY)).toBe("none");
+  });
+
+  it("has no week bucket left on a Sunday", () => {
+    expect(getMyTaskBucket(due("2026-03-16"), "2026-03-15")).toBe("later");
+  });
+});
+
+describe("groupMyTasks", () => {
+  it("returns every bucket in display order and keeps card order", () => {
+    const groups = groupMyTasks(
+      [
+        { id: "a", dueDate: null },
+        { id: "b", dueDate: due("2026-03-01") },
+        { id: "c", dueDate: due("2026-03-02") },
+      ],
+      TODAY,
+    );
+
+    expect(groups.map(({ bucket }) => bucket)).toEqual([
+      "overdue",
+      "today",
+      "week",
+      "later",
+      "none",
+    ]);
+    expect(groups[0]!.cards.map(({ id }) => id)).toEqual(["b", "c"]);
+    expect(groups[4]!.cards.map(({ id }) => id)).toEqual(["a"]);
+  });
+});
+
+describe("getQuickRescheduleDays", () => {
+  it("offers today, tomorrow and next Monday", () => {
+    expect(getQuickRescheduleDays(TODAY)).toEqual({
+      today: "2026-03-11",
+      tomorrow: "2026-03-12",
+      nextWeek: "2026-03-16",
+    });
+    expect(getQuickRescheduleDays("2026-03-16").nextWeek).toBe("2026-03-23");
+  });
+});
+
+describe("isCalendarDay", () => {
+  it("accepts real YYYY-MM-DD dates only", () => {
+    expect(isCalendarDay("2026-02-28")).toBe(true);
+    expect(isCalendarDay("2026-02-30")).toBe(false);
+    expect(isCalendarDay("11.03.2026")).toBe(false);
+  });
+});
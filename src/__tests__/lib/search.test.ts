@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { buildSearchTsQuery, parseSearchSnippet } from "@/lib/search";
+
+describe("buildSearchTsQuery", () => {
+  it("turns words into AND-ed prefix terms", () => {
+    expect(buildSearchTsQuery("Größe Änderung")).toBe("größe:* & änderung:*");
+  });
+
+  it("drops tsquery operators and punctuation", () => {
+    expect(buildSearchTsQuery("foo & (bar | !baz):*")).toBe(
+      "foo:* & bar:* & baz:*",
+    );
+  });
+
+  it("returns null when nothing searchable is left", () => {
+    expect(buildSearchTsQuery("  ?! ")).toBeNull();
+  });
+});
+
+describe("parseSearchSnippet", () => {
+  it("splits highlighted and plain text", () => {
+    expect(parseSearchSnippet("Die <mark>Rechnung</mark> fehlt")).toEqual([
+      { text: "Die ", highlighted: false },
+      { text: "Rechnung", highlighted: true },
+      { text: " fehlt", highlighted: false },
+    ]);
+  });
+
+  it("keeps unmatched markers as plain text", () => {
+    expect(parseSearchSnippet("a <mark>b")).toEqual([
+      { text: "a <mark>b", highlighted: false },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  resolveCardWatchers,
+  watcherNotificationRows,
+  type WatchRow,
+} from "@/lib/watchers";
+
+const BOARD_ID = "board-1";
+
+const watch = (
+  id: string,
+  userId: string,
+  target: { columnId?: number; cardId?: string } = {},
+): WatchRow => ({
+  id,
+  user_id: userId,
+  board_id: BOARD_ID,
+  column_id: target.columnId ?? null,
+  card_id: target.cardId ?? null,
+});
+
+describe("resolveCardWatchers", () => {
+  it("keeps the most specific matching watch per user", () => {
+    const watchers = resolveCardWatchers(
+      [
+        watch("w1", "u1"),
+        watch("w2", "u1", { cardId: "card-1" }),
+        watch("w3", "u2", { columnId: 7 }),
+        watch("w4", "u2"),
+        watch("w5", "u3", { columnId: 8 }),
+        watch("w6", "u4", { cardId: "card-2" }),
+      ],
+      "card-1",
+      [7],
+    );
+
+    expect(
+      Object.fromEntries([...watchers].map(([u, w]) => [u, w.id])),
+    ).toEqual({ u1: "w2", u2: "w3" });
+  });
+});
+
+describe("watcherNotificationRows", () => {
+  it("skips the actor and users who were already notified", () => {
+    const watchers = resolveCardWatchers(
+      [
+        watch("w1", "actor"),
+        watch("w2", "assignee"),
+        watch("w3", "u3", { columnId: 7 }),
+      ],
+      "card-1",
+      [7],
+    );
+
+    const rows = watcherNotificationRows(
+      watchers,
+      {
+        type: "card_moved",
+        actor_id: "actor",
+        card_id: "card-1",
+        board_id: BOARD_ID,
+        metadata: { columnTitle: "Done" },
+      },
+      ["assignee"],
+    );
+
+    expect(rows).toEqual([
+      {
+        user_id: "u3",
+        type: "card_moved",
+        actor_id: "actor",
+        card_id: "card-1",
+        board_id: BOARD_ID,
+        metadata: { columnTitle: "Done", watch: { id: "w3", scope: "column" } },
+      },
+    ]);
+  });
+});
@@ -14,11 +14,21 @@ const makeCard = (overrides: Partial<Card> = {}): Card => ({
   title: "Test card",
   description: null,
   position: 0,
+  startDate: null,
   dueDate: null,
   priority: "medium",
   completedAt: null,
   createdAt: new Date("2026-01-01"),
+  updatedAt: new Date("2026-01-01"),
   createdVia: "ui",
+  externalRef: null,
+  attachmentCount: 0,
+  recurrenceRule: null,
+  recurrenceColumnId: null,
+  recurrenceSourceId: null,
+  deletedAt: null,
+  deletedBy: null,
+  trashedExternalRef: null,
   assigneeId: null,
   createdBy: null,
   labels: [],
@@ -32,6 +42,8 @@ const makeColumn = (id: number, cards: Card[] = []): Column => ({
   title: `Column ${id}`,
   position: id,
   isDone: false,
+  wipLimit: null,
+  wipLimitHard: false,
   createdAt: new Date("2026-01-01"),
   cards,
 });
@@ -45,6 +57,8 @@ const makeBoard = (columns: Column[] = []): BoardWithDetails =>
     ownerId: "user-1",
     groupId: null,
     groupPosition: 0,
+    enforceDependencies: false,
+    trashRetentionDays: 30,
     createdAt: new Date("2026-01-01"),
     updatedAt: new Date("2026-01-01"),
     createdVia: "ui",
@@ -255,6 +269,8 @@ describe("addColumn", () => {
       title: "New",
       position: 1,
       isDone: false,
+      wipLimit: null,
+      wipLimitHard: false,
       createdAt: new Date(),
     });
 
@@ -272,6 +288,8 @@ describe("addColumn", () => {
       title: "New",
       position: 1,
       isDone: false,
+      wipLimit: null,
+      wipLimitHard: false,
       createdAt: new Date(),
     });
 
@@ -290,6 +308,8 @@ describe("updateColumn", () => {
       title: "Renamed",
       position: 1,
       isDone: false,
+      wipLimit: null,
+      wipLimitHard: false,
       createdAt: new Date(),
     });
 
@@ -2,14 +2,17 @@
 
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/layout/AppSidebar";
+import { SearchPaletteProvider } from "@/components/search/SearchPalette";
 
 export default function AppLayout({ children }: { children: React.ReactNode }) {
   return (
     <SidebarProvider>
-      <div className="flex min-h-screen w-full">
-        <AppSidebar />
-        <main className="flex-1 flex flex-col min-w-0">{children}</main>
-      </div>
+      <SearchPaletteProvider>
+        <div className="flex min-h-screen w-full">
+          <AppSidebar />
+          <main className="flex-1 flex flex-col min-w-0">{children}</main>
+        </div>
+      </SearchPaletteProvider>
     </SidebarProvider>
   );
 }
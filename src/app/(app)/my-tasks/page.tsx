@@ -0,0 +1,17 @@
+import { ContentTopBar } from "@/components/layout/ContentTopBar";
+import { MyTasksView } from "@/components/my-tasks/MyTasksView";
+import { t } from "@/lib/i18n";
+
+export default function MyTasksPage() {
+  return (
+    <div className="flex min-h-screen flex-col">
+      <ContentTopBar
+        title={t("myTasks.title")}
+        subtitle={t("myTasks.subtitle")}
+      />
+      <div className="flex-1 px-4 py-6 sm:px-6 lg:px-8">
+        <MyTasksView />
+      </div>
+    </div>
+  );
+}
@@ -14,7 +14,9 @@ export default async function ApiAccessPage() {
       .single(),
     supabase
       .from("api_tokens")
-      .select("id, name, prefix, last_used_at, created_at, revoked_at")
+      .select(
+        "id, name, prefix, last_used_at, created_at, revoked_at, scopes, board_ids, expires_at",
+      )
       .eq("user_id", user.id)
       .order("created_at", { ascending: false }),
   ]);
@@ -29,6 +31,9 @@ export default async function ApiAccessPage() {
         lastUsedAt: r.last_used_at,
         createdAt: r.created_at,
         revokedAt: r.revoked_at,
+        scopes: r.scopes ?? null,
+        boardIds: r.board_ids ?? null,
+        expiresAt: r.expires_at ?? null,
       }))}
     />
   );
@@ -18,6 +18,13 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import Link from "next/link";
 import {
   Loader2,
@@ -30,6 +37,7 @@ import {
   Bot,
 } from "lucide-react";
 import { t } from "@/lib/i18n";
+import type { EmailDigestFrequency } from "@/lib/email-digest";
 import {
   usePreferencesStore,
   requestDesktopPermission,
@@ -71,6 +79,11 @@ export default function ProfilePage() {
   const setDesktopNotificationsEnabled = usePreferencesStore(
     (s) => s.setDesktopNotificationsEnabled,
   );
+  const [emailDigest, setEmailDigest] = useState<EmailDigestFrequency>("off");
+  const [emailDigestSaving, setEmailDigestSaving] = useState(false);
+  const [emailDigestStatus, setEmailDigestStatus] = useState<
+    "saved" | "failed" | null
+  >(null);
   const [desktopPermission, setDesktopPermission] = useState<
     "granted" | "denied" | "default" | "unsupported"
   >("default");
@@ -114,11 +127,12 @@ export default function ProfilePage() {
 
       const { data: profile } = await supabase
         .from("users")
-        .select("name")
+        .select("name, email_digest_frequency")
         .eq("id", user.id)
         .single();
 
       reset({ name: profile?.name ?? user.user_metadata?.name ?? "" });
+      setEmailDigest(profile?.email_digest_frequency ?? "off");
       setIsLoading(false);
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -210,6 +224,27 @@ export default function ProfilePage() {
     if (granted) setDesktopNotificationsEnabled(true);
   };
 
+  const handleEmailDigestChange = async (frequency: EmailDigestFrequency) => {
+    const previous = emailDigest;
+    setEmailDigest(frequency);
+    setEmailDigestSaving(true);
+    setEmailDigestStatus(null);
+    try {
+      const res = await fetch("/api/profile/email-digest", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ frequency }),
+      });
+      if (!res.ok) throw new Error(t("notificationSettings.emailDigestFailed"));
+      setEmailDigestStatus("saved");
+    } catch {
+      setEmailDigest(previous);
+      setEmailDigestStatus("failed");
+    } finally {
+      setEmailDigestSaving(false);
+    }
+  };
+
   const handleResetPassword = async () => {
     setSubmitting(true);
     setError(null);
@@ -531,6 +566,56 @@ export default function ProfilePage() {
                   </button>
                 )}
               </div>
+
+              {/* Email digest */}
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                    <p className="text-sm font-medium text-foreground">
+                      {t("notificationSettings.emailDigest")}
+                    </p>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {t("notificationSettings.emailDigestDescription")}
+                  </p>
+                  {emailDigestStatus === "saved" && (
+                    <p className="text-xs text-green-600">
+                      {t("notificationSettings.emailDigestSaved")}
+                    </p>
+                  )}
+                  {emailDigestStatus === "failed" && (
+                    <p className="text-xs text-red-500">
+                      {t("notificationSettings.emailDigestFailed")}
+                    </p>
+                  )}
+                </div>
+                <Select
+                  value={emailDigest}
+                  onValueChange={(value) =>
+                    void handleEmailDigestChange(value as EmailDigestFrequency)
+                  }
+                  disabled={emailDigestSaving}
+                >
+                  <SelectTrigger
+                    className="w-52 shrink-0"
+                    aria-label={t("notificationSettings.emailDigest")}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">
+                      {t("notificationSettings.emailDigestOff")}
+                    </SelectItem>
+                    <SelectItem value="daily">
+                      {t("notificationSettings.emailDigestDaily")}
+                    </SelectItem>
+                    <SelectItem value="weekly">
+                      {t("notificationSettings.emailDigestWeekly")}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </CardContent>
           </Card>
         </div>
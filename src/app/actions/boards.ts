@@ -2,6 +2,11 @@
 
 import { z } from "zod";
 import { getSessionUser } from "@/lib/supabase/server";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  MAX_TRASH_RETENTION_DAYS,
+  MIN_TRASH_RETENTION_DAYS,
+} from "@/lib/card-trash";
 import type { Board } from "@/types/database";
 import type { BoardActionState } from "./boards-state";
 
@@ -15,6 +20,17 @@ const updateBoardSchema = z.object({
   boardId: z.string().uuid("Invalid board ID"),
   name: z.string().trim().min(1, "Board name is required"),
   description: z.string().optional().nullable(),
+  // Only submitted where the dialog knows the current value
+  enforceDependencies: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => (value === undefined ? undefined : value === "true")),
+  trashRetentionDays: z.coerce
+    .number()
+    .int("Trash retention must be a whole number of days")
+    .min(MIN_TRASH_RETENTION_DAYS, "Trash retention is too short")
+    .max(MAX_TRASH_RETENTION_DAYS, "Trash retention is too long")
+    .optional(),
 });
 
 export async function createBoardAction(
@@ -136,6 +152,9 @@ export async function createBoardAction(
       updatedAt: newBoard.updated_at,
       groupId: newBoard.group_id ?? null,
       groupPosition: newBoard.group_position ?? 0,
+      enforceDependencies: newBoard.enforce_dependencies ?? false,
+      trashRetentionDays:
+        newBoard.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS,
       createdVia: newBoard.created_via,
     } as Board,
   };
@@ -149,6 +168,8 @@ export async function updateBoardAction(
     boardId: formData.get("boardId"),
     name: formData.get("name"),
     description: formData.get("description") || null,
+    enforceDependencies: formData.get("enforceDependencies") ?? undefined,
+    trashRetentionDays: formData.get("trashRetentionDays") ?? undefined,
   });
   if (!parsed.success) {
     return {
@@ -181,6 +202,12 @@ export async function updateBoardAction(
     .update({
       name: parsed.data.name,
       description: parsed.data.description?.trim() || null,
+      ...(parsed.data.enforceDependencies !== undefined && {
+        enforce_dependencies: parsed.data.enforceDependencies,
+      }),
+      ...(parsed.data.trashRetentionDays !== undefined && {
+        trash_retention_days: parsed.data.trashRetentionDays,
+      }),
     })
     .eq("id", parsed.data.boardId)
     .select()
@@ -203,6 +230,9 @@ export async function updateBoardAction(
       role: memberData.role,
       groupId: updated.group_id ?? null,
       groupPosition: updated.group_position ?? 0,
+      enforceDependencies: updated.enforce_dependencies ?? false,
+      trashRetentionDays:
+        updated.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS,
       createdVia: updated.created_via,
     } as Board,
   };
@@ -74,6 +74,8 @@ export async function createColumnAction(
       title: newColumn.title,
       position: newColumn.position,
       isDone: newColumn.is_done ?? false,
+      wipLimit: newColumn.wip_limit ?? null,
+      wipLimitHard: newColumn.wip_limit_hard ?? false,
       createdAt: newColumn.created_at,
     } as Column,
   };
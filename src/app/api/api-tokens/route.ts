@@ -2,9 +2,23 @@ import { NextResponse, type NextRequest } from "next/server";
 import { z } from "zod";
 import { getSessionUser } from "@/lib/supabase/server";
 import { mintToken } from "@/lib/api-tokens/mint";
+import { API_TOKEN_SCOPES } from "@/lib/api-tokens/scopes";
 import { rateLimit } from "@/lib/api/rate-limit";
 
-const NameSchema = z.object({ name: z.string().trim().min(1).max(80) });
+// Omitting `scopes` / `boardIds` / `expiresAt` mints a full-access token that
+// never expires, matching tokens created before restrictions existed.
+const CreateTokenSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1).optional(),
+  boardIds: z.array(z.string().uuid()).min(1).max(50).optional(),
+  expiresAt: z
+    .string()
+    .datetime({ offset: true })
+    .refine((value) => new Date(value).getTime() > Date.now(), {
+      message: "expiresAt must be in the future",
+    })
+    .optional(),
+});
 
 function rateLimitResponse(userId: string) {
   const limit = rateLimit(`tokens:${userId}`);
@@ -25,7 +39,9 @@ export async function GET() {
 
   const { data, error } = await supabase
     .from("api_tokens")
-    .select("id, name, prefix, last_used_at, created_at, revoked_at")
+    .select(
+      "id, name, prefix, last_used_at, created_at, revoked_at, scopes, board_ids, expires_at",
+    )
     .eq("user_id", user.id)
     .is("revoked_at", null)
     .order("created_at", { ascending: false });
@@ -49,6 +65,9 @@ export async function GET() {
       lastUsedAt: r.last_used_at,
       createdAt: r.created_at,
       revokedAt: r.revoked_at,
+      scopes: r.scopes ?? null,
+      boardIds: r.board_ids ?? null,
+      expiresAt: r.expires_at ?? null,
     })),
   });
 }
@@ -62,10 +81,10 @@ export async function POST(req: NextRequest) {
   if (limited) return limited;
 
   const body = await req.json();
-  const parsed = NameSchema.safeParse(body);
+  const parsed = CreateTokenSchema.safeParse(body);
   if (!parsed.success) {
     return NextResponse.json(
-      { error: parsed.error.issues[0]?.message ?? "Invalid name" },
+      { error: parsed.error.issues[0]?.message ?? "Invalid input" },
       { status: 400 },
     );
   }
@@ -82,10 +101,38 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  const { name, scopes, boardIds, expiresAt } = parsed.data;
+
+  // A token may only be restricted to boards the caller is a member of
+  if (boardIds) {
+    const uniqueBoardIds = [...new Set(boardIds)];
+    const { data: memberships, error: membershipError } = await supabase
+      .from("board_members")
+      .select("board_id")
+      .eq("user_id", user.id)
+      .in("board_id", uniqueBoardIds);
+    if (membershipError) {
+      console.error("Check token boards error:", membershipError);
+      return NextResponse.json(
+        { error: "Failed to create token" },
+        { status: 500 },
+      );
+    }
+    if ((memberships ?? []).length !== uniqueBoardIds.length) {
+      return NextResponse.json(
+        { error: "Unknown board in boardIds" },
+        { status: 400 },
+      );
+    }
+  }
+
   const result = await mintToken({
     userId: user.id,
-    name: parsed.data.name,
+    name,
     supabase,
+    scopes: scopes ?? null,
+    boardIds: boardIds ? [...new Set(boardIds)] : null,
+    expiresAt: expiresAt ?? null,
   });
 
   return NextResponse.json(
@@ -95,6 +142,9 @@ export async function POST(req: NextRequest) {
       name: result.row.name,
       prefix: result.row.prefix,
       createdAt: result.row.createdAt,
+      scopes: result.row.scopes,
+      boardIds: result.row.boardIds,
+      expiresAt: result.row.expiresAt,
     },
     { status: 201 },
   );
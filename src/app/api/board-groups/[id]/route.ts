@@ -11,7 +11,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -119,7 +121,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type TimelineCard = {
+  id: string;
+  title: string;
+  priority: "high" | "medium" | "low";
+  startDate: string | null;
+  dueDate: string | null;
+  completedAt: string | null;
+  createdBy: string | null;
+  boardId: string;
+  boardName: string;
+  columnId: number;
+  columnTitle: string;
+};
+
+// GET /api/board-groups/[id]/timeline
+// Cards with a start or due date on the non-archived boards of a group, for
+// the group timeline. RLS limits the result to boards the caller is a member of.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!UUID_RE.test(id)) {
+      return NextResponse.json(
+        { error: "Invalid group ID format" },
+        { status: 400 },
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("cards")
+      .select(
+        `
+        id,
+        title,
+        priority,
+        start_date,
+        due_date,
+        completed_at,
+        created_by,
+        board_id,
+        column_id,
+        boards!inner(id, name, group_id, is_archived),
+        columns!inner(id, title)
+      `,
+      )
+      .eq("boards.group_id", id)
+      .eq("boards.is_archived", false)
+      .or("start_date.not.is.null,due_date.not.is.null")
+      .order("due_date", { ascending: true, nullsFirst: false });
+
+    if (error) {
+      console.error("Error fetching group timeline:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch timeline" },
+        { status: 500 },
+      );
+    }
+
+    const cards: TimelineCard[] = (data ?? [])
+      .filter((card) => clientCanAccessBoard(supabase, card.board_id))
+      .map((card) => {
+        const board = card.boards as unknown as { id: string; name: string };
+        const column = card.columns as unknown as { id: number; title: string };
+        return {
+          id: card.id,
+          title: card.title,
+          priority: (card.priority ?? "medium") as TimelineCard["priority"],
+          startDate: card.start_date,
+          dueDate: card.due_date,
+          completedAt: card.completed_at,
+          createdBy: card.created_by,
+          boardId: card.board_id,
+          boardName: board.name,
+          columnId: column.id,
+          columnTitle: column.title,
+        };
+      });
+
+    return NextResponse.json({ cards });
+  } catch (error) {
+    console.error("Error fetching group timeline:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -6,7 +6,9 @@ const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
 // GET /api/board-groups — visible groups (RLS-filtered)
 export async function GET() {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:read",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -59,7 +61,9 @@ export async function GET() {
 // POST /api/board-groups — create
 export async function POST(request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import {
+  buildChangesetExport,
+  type ExportCardRow,
+} from "@/lib/api/changeset-export";
+
+type BoardAccessClient = Parameters<typeof getBoardRoleForUser>[0];
+
+// GET /api/boards/[id]/export?format=changeset - Board as a ChangesetSchema
+// document, ready for POST /api/changesets/board
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: boardId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:read",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(boardId)) {
+      return NextResponse.json(
+        { error: "Invalid board ID format" },
+        { status: 400 },
+      );
+    }
+
+    const format = request.nextUrl.searchParams.get("format") ?? "changeset";
+    if (format !== "changeset") {
+      return NextResponse.json(
+        { error: `Unsupported export format "${format}"` },
+        { status: 400 },
+      );
+    }
+
+    // Any member (including viewers) may export
+    const role = await getBoardRoleForUser(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!role) {
+      return NextResponse.json(
+        { error: "Board not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const [boardResult, columnsResult, cardsResult] = await Promise.all([
+      supabase
+        .from("boards")
+        .select("name, description")
+        .eq("id", boardId)
+        .single(),
+      supabase
+        .from("columns")
+        .select("id, title, position")
+        .eq("board_id", boardId),
+      supabase
+        .from("cards")
+        .select(
+          "id, column_id, title, description, priority, due_date, position",
+        )
+        .eq("board_id", boardId),
+    ]);
+
+    if (boardResult.error || columnsResult.error || cardsResult.error) {
+      console.error(
+        "Board export error:",
+        boardResult.error ?? columnsResult.error ?? cardsResult.error,
+      );
+      return NextResponse.json(
+        { error: "Failed to export board" },
+        { status: 500 },
+      );
+    }
+
+    const cards = (cardsResult.data ?? []) as ExportCardRow[];
+    let subtasks: { card_id: string; title: string; position: number }[] = [];
+    if (cards.length > 0) {
+      const { data: subtaskRows, error: subtasksError } = await supabase
+        .from("card_subtasks")
+        .select("card_id, title, position")
+        .in(
+          "card_id",
+          cards.map((c) => c.id),
+        )
+        .is("deleted_at", null);
+      if (subtasksError) {
+        console.error("Board export error:", subtasksError);
+        return NextResponse.json(
+          { error: "Failed to export board" },
+          { status: 500 },
+        );
+      }
+      subtasks = subtaskRows ?? [];
+    }
+
+    const result = buildChangesetExport({
+      board: boardResult.data,
+      columns: columnsResult.data ?? [],
+      cards,
+      subtasks,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, details: result.details },
+        { status: 422 },
+      );
+    }
+
+    const fileName = `board-${boardId}.changeset.json`;
+    return NextResponse.json(result.changeset, {
+      headers: { "Content-Disposition": `attachment; filename="${fileName}"` },
+    });
+  } catch (error) {
+    console.error("Board export error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
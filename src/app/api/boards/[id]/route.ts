@@ -1,5 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthorizedUser } from "../../../../lib/supabase/server";
+import { clientCanAccessBoard } from "../../../../lib/api-tokens/scopes";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getOpenBlockerCounts } from "@/lib/card-dependencies";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  MAX_TRASH_RETENTION_DAYS,
+  MIN_TRASH_RETENTION_DAYS,
+} from "@/lib/card-trash";
+import {
+  CARD_LABEL_SELECT,
+  transformCardLabels,
+  transformLabel,
+  type CardLabelRow,
+} from "@/lib/card-labels";
+import { orderAssigneeIds, type CardAssigneeRow } from "@/lib/card-assignees";
+
+type CardUserRow = {
+  id: string;
+  email: string | null;
+  name: string | null;
+  avatar_url: string | null;
+};
 
 // GET /api/boards/[id] - Get a specific board
 export async function GET(
@@ -7,7 +29,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:read",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -32,6 +56,8 @@ export async function GET(
         name,
         description,
         is_archived,
+        enforce_dependencies,
+        trash_retention_days,
         created_at,
         updated_at,
         owner_id
@@ -40,7 +66,7 @@ export async function GET(
       .eq("id", boardId)
       .single();
 
-    if (boardError || !boardData) {
+    if (boardError || !boardData || !clientCanAccessBoard(supabase, boardId)) {
       console.error("Board fetch error:", boardError);
       return NextResponse.json(
         { error: "Board not found or access denied" },
@@ -136,6 +162,8 @@ export async function GET(
         title,
         position,
         is_done,
+        wip_limit,
+        wip_limit_hard,
         created_at,
         cards (
           id,
@@ -144,17 +172,41 @@ export async function GET(
           title,
           description,
           position,
+          start_date,
           due_date,
           priority,
           completed_at,
           created_at,
+          updated_at,
           created_by,
+          created_via,
           assignee_id,
+          attachment_count,
+          recurrence_rule,
+          recurrence_column_id,
+          recurrence_source_id,
+          card_subtasks (
+            completed_at,
+            deleted_at
+          ),
           users:assignee_id (
             id,
             email,
             name,
             avatar_url
+          ),
+          card_assignees (
+            user_id,
+            created_at,
+            users (
+              id,
+              email,
+              name,
+              avatar_url
+            )
+          ),
+          card_labels (
+            ${CARD_LABEL_SELECT}
           )
         )
       `,
@@ -170,6 +222,26 @@ export async function GET(
       );
     }
 
+    // Board-level label catalogue (for the label picker and filters)
+    const { data: labelsData, error: labelsError } = await supabase
+      .from("labels")
+      .select("id, board_id, name, color, created_at")
+      .eq("board_id", boardId)
+      .order("name", { ascending: true });
+
+    if (labelsError) {
+      console.error("Error fetching board labels:", labelsError);
+    }
+
+    // Open blockers per card for the blocked indicator; admin client because
+    // blockers may sit on boards the caller cannot see
+    const blockerCounts = await getOpenBlockerCounts(
+      createAdminClient(),
+      (columnsData || []).flatMap((column) =>
+        (column.cards || []).map((card) => card.id),
+      ),
+    );
+
     // Transform columns data to match expected format
     const loadedAt = new Date().toISOString();
     const columns = (columnsData || []).map((column) => {
@@ -180,6 +252,8 @@ export async function GET(
         title: column.title,
         position: column.position,
         isDone: colIsDone,
+        wipLimit: column.wip_limit ?? null,
+        wipLimitHard: column.wip_limit_hard ?? false,
         createdAt: column.created_at,
         cards: (column.cards || []).map((card) => {
           // Invariant: cards in a done column must always have completedAt set.
@@ -189,6 +263,27 @@ export async function GET(
               .completed_at ?? null;
           const completedAt =
             colIsDone && !rawCompletedAt ? loadedAt : rawCompletedAt;
+          const subtasks = (
+            (
+              card as unknown as {
+                card_subtasks?: {
+                  completed_at: string | null;
+                  deleted_at: string | null;
+                }[];
+              }
+            ).card_subtasks ?? []
+          ).filter((subtask) => !subtask.deleted_at);
+          const assigneeRows =
+            (
+              card as unknown as {
+                card_assignees?:
+                  | (CardAssigneeRow & {
+                      users?: CardUserRow | CardUserRow[] | null;
+                    })[]
+                  | null;
+              }
+            ).card_assignees ?? [];
+          const assigneeIds = orderAssigneeIds(card.assignee_id, assigneeRows);
           return {
             id: card.id,
             boardId: card.board_id,
@@ -196,14 +291,31 @@ export async function GET(
             title: card.title,
             description: card.description,
             position: card.position,
+            startDate: card.start_date,
             dueDate: card.due_date,
             priority: card.priority || "medium",
             completedAt,
             createdAt: card.created_at,
+            updatedAt: card.updated_at,
             createdBy:
               (card as unknown as { created_by?: string | null }).created_by ??
               null,
+            createdVia: card.created_via ?? "ui",
             assigneeId: card.assignee_id,
+            assigneeIds,
+            attachmentCount: card.attachment_count ?? 0,
+            recurrenceRule: card.recurrence_rule ?? null,
+            recurrenceColumnId: card.recurrence_column_id ?? null,
+            recurrenceSourceId: card.recurrence_source_id ?? null,
+            subtaskProgress: {
+              completed: subtasks.filter((subtask) => subtask.completed_at)
+                .length,
+              total: subtasks.length,
+            },
+            blockedByCount: blockerCounts.get(card.id) ?? 0,
+            labels: transformCardLabels(
+              (card as unknown as { card_labels?: CardLabelRow[] }).card_labels,
+            ),
             assignee: (() => {
               type U = {
                 id: string;
@@ -222,6 +334,20 @@ export async function GET(
                 avatarUrl: single.avatar_url,
               };
             })(),
+            // Profiles of all assignees, in assigneeIds order
+            assignees: assigneeIds.flatMap((assigneeId) => {
+              const row = assigneeRows.find((r) => r.user_id === assigneeId);
+              const u = Array.isArray(row?.users) ? row.users[0] : row?.users;
+              if (!u) return [];
+              return [
+                {
+                  id: u.id,
+                  email: u.email,
+                  name: u.name,
+                  avatarUrl: u.avatar_url,
+                },
+              ];
+            }),
           };
         }),
       };
@@ -269,6 +395,9 @@ export async function GET(
       name: boardData.name,
       description: boardData.description ?? null,
       isArchived: boardData.is_archived,
+      enforceDependencies: boardData.enforce_dependencies ?? false,
+      trashRetentionDays:
+        boardData.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS,
       createdAt: boardData.created_at,
       updatedAt: boardData.updated_at,
       ownerId: boardData.owner_id,
@@ -276,6 +405,7 @@ export async function GET(
       memberCount: memberCount ?? 0,
       columns: columns,
       members: members,
+      labels: (labelsData || []).map(transformLabel),
     };
 
     console.log("Final board object role:", board.role);
@@ -296,7 +426,9 @@ export async function PUT(
 ) {
   const { id: _id } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -313,7 +445,15 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { name, isArchived, description, groupId, groupPosition } = body;
+    const {
+      name,
+      isArchived,
+      description,
+      groupId,
+      groupPosition,
+      enforceDependencies,
+      trashRetentionDays,
+    } = body;
 
     // First, get the user's role for this board
     const { data: memberData, error: memberError } = await supabase
@@ -323,7 +463,11 @@ export async function PUT(
       .eq("user_id", user.id)
       .single();
 
-    if (memberError || !memberData) {
+    if (
+      memberError ||
+      !memberData ||
+      !clientCanAccessBoard(supabase, boardId)
+    ) {
       return NextResponse.json(
         { error: "Board not found or access denied" },
         { status: 404 },
@@ -345,6 +489,8 @@ export async function PUT(
       description: string | null;
       group_id: string | null;
       group_position: number;
+      enforce_dependencies: boolean;
+      trash_retention_days: number;
     }> = {};
     if (name !== undefined) {
       if (typeof name !== "string" || name.trim().length === 0) {
@@ -361,6 +507,28 @@ export async function PUT(
     if (description !== undefined) {
       updateData.description = description ?? null;
     }
+    if (enforceDependencies !== undefined) {
+      if (typeof enforceDependencies !== "boolean") {
+        return NextResponse.json(
+          { error: "Invalid enforceDependencies" },
+          { status: 400 },
+        );
+      }
+      updateData.enforce_dependencies = enforceDependencies;
+    }
+    if (trashRetentionDays !== undefined) {
+      if (
+        !Number.isInteger(trashRetentionDays) ||
+        trashRetentionDays < MIN_TRASH_RETENTION_DAYS ||
+        trashRetentionDays > MAX_TRASH_RETENTION_DAYS
+      ) {
+        return NextResponse.json(
+          { error: "Invalid trashRetentionDays" },
+          { status: 400 },
+        );
+      }
+      updateData.trash_retention_days = trashRetentionDays;
+    }
     if (groupId !== undefined) {
       if (groupId === null) {
         updateData.group_id = null;
@@ -428,6 +596,9 @@ export async function PUT(
         ownerId: updatedBoard.owner_id,
         groupId: updatedBoard.group_id ?? null,
         groupPosition: updatedBoard.group_position ?? 0,
+        enforceDependencies: updatedBoard.enforce_dependencies ?? false,
+        trashRetentionDays:
+          updatedBoard.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS,
         role: userRole,
       },
     });
@@ -447,7 +618,9 @@ export async function DELETE(
 ) {
   const { id } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -470,7 +643,7 @@ export async function DELETE(
       .eq("user_id", user.id)
       .single();
 
-    if (memberError || !memberData) {
+    if (memberError || !memberData || !clientCanAccessBoard(supabase, id)) {
       return NextResponse.json(
         { error: "Board not found or access denied" },
         { status: 404 },
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import { canManageBoardMembers } from "@/lib/board-permissions";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  listTrashedCards,
+} from "@/lib/card-trash";
+
+type BoardAccessClient = Parameters<typeof getBoardRoleForUser>[0];
+
+// GET /api/boards/[id]/trash - Trashed cards of the board (owners and admins)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: boardId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:read",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(boardId)) {
+      return NextResponse.json(
+        { error: "Invalid board ID format" },
+        { status: 400 },
+      );
+    }
+
+    const role = await getBoardRoleForUser(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!role) {
+      return NextResponse.json(
+        { error: "Board not found or access denied" },
+        { status: 404 },
+      );
+    }
+    if (!canManageBoardMembers(role)) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 },
+      );
+    }
+
+    const { data: board, error: boardError } = await supabase
+      .from("boards")
+      .select("trash_retention_days")
+      .eq("id", boardId)
+      .single();
+
+    if (boardError) {
+      console.error("List trash error:", boardError);
+      return NextResponse.json(
+        { error: "Failed to list trash" },
+        { status: 500 },
+      );
+    }
+
+    const retentionDays =
+      (board as { trash_retention_days?: number } | null)
+        ?.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS;
+    const cards = await listTrashedCards(
+      createAdminClient(),
+      boardId,
+      retentionDays,
+    );
+
+    return NextResponse.json({ retentionDays, cards });
+  } catch (error) {
+    console.error("List trash error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
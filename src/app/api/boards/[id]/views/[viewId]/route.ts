@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
+import {
+  BOARD_VIEW_MODES,
+  boardFiltersSchema,
+  SAVED_VIEW_SELECT,
+  transformSavedViewRow,
+  type SavedViewRow,
+} from "@/lib/board-views";
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const updateViewSchema = z
+  .object({
+    name: z.string().trim().min(1).max(80).optional(),
+    isShared: z.boolean().optional(),
+    filters: boardFiltersSchema.optional(),
+    viewMode: z.enum(BOARD_VIEW_MODES).optional(),
+  })
+  .refine((value) => Object.keys(value).length > 0, {
+    message: "Nothing to update",
+  });
+
+const notFound = () =>
+  NextResponse.json({ error: "Saved view not found" }, { status: 404 });
+
+// PATCH /api/boards/[id]/views/[viewId] - Rename, (un)share or overwrite a
+// view. Only its creator may change it; other members get 404 (RLS).
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; viewId: string }> },
+) {
+  const { id: boardId, viewId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!uuidRegex.test(boardId) || !uuidRegex.test(viewId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+    if (!clientCanAccessBoard(supabase, boardId)) return notFound();
+
+    const body = await request.json();
+    const validation = updateViewSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { name, isShared, filters, viewMode } = validation.data;
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (name !== undefined) updateData.name = name;
+    if (isShared !== undefined) updateData.is_shared = isShared;
+    if (filters !== undefined) updateData.filters = filters;
+    if (viewMode !== undefined) updateData.view_mode = viewMode;
+
+    const { data, error } = await supabase
+      .from("board_saved_views")
+      .update(updateData)
+      .eq("id", viewId)
+      .eq("board_id", boardId)
+      .eq("created_by", user.id)
+      .select(SAVED_VIEW_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Update saved view error:", error);
+      return NextResponse.json(
+        { error: "Failed to update view" },
+        { status: 500 },
+      );
+    }
+    if (!data) return notFound();
+
+    return NextResponse.json({
+      view: transformSavedViewRow(data as SavedViewRow),
+    });
+  } catch (error) {
+    console.error("Update saved view error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/boards/[id]/views/[viewId] - Only the creator may delete
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; viewId: string }> },
+) {
+  const { id: boardId, viewId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!uuidRegex.test(boardId) || !uuidRegex.test(viewId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+    if (!clientCanAccessBoard(supabase, boardId)) return notFound();
+
+    const { data, error } = await supabase
+      .from("board_saved_views")
+      .delete()
+      .eq("id", viewId)
+      .eq("board_id", boardId)
+      .eq("created_by", user.id)
+      .select("id");
+
+    if (error) {
+      console.error("Delete saved view error:", error);
+      return NextResponse.json(
+        { error: "Failed to delete view" },
+        { status: 500 },
+      );
+    }
+    if (!data || data.length === 0) return notFound();
+
+    return NextResponse.json({ message: "Saved view deleted" });
+  } catch (error) {
+    console.error("Delete saved view error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
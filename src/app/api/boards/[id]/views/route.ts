@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import {
+  BOARD_VIEW_MODES,
+  boardFiltersSchema,
+  SAVED_VIEW_SELECT,
+  transformSavedViewRow,
+  type SavedViewRow,
+} from "@/lib/board-views";
+
+type BoardAccessClient = Parameters<typeof getBoardRoleForUser>[0];
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const MAX_VIEWS_PER_USER = 50;
+
+const createViewSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  isShared: z.boolean().optional().default(false),
+  filters: boardFiltersSchema,
+  viewMode: z.enum(BOARD_VIEW_MODES).optional().default("board"),
+});
+
+// GET /api/boards/[id]/views - The caller's own and the board's shared views
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: boardId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:read",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!uuidRegex.test(boardId)) {
+      return NextResponse.json(
+        { error: "Invalid board ID format" },
+        { status: 400 },
+      );
+    }
+
+    const role = await getBoardRoleForUser(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!role) {
+      return NextResponse.json(
+        { error: "Board not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    // RLS returns the caller's own views plus the shared ones.
+    const { data, error } = await supabase
+      .from("board_saved_views")
+      .select(SAVED_VIEW_SELECT)
+      .eq("board_id", boardId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("List saved views error:", error);
+      return NextResponse.json(
+        { error: "Failed to list saved views" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({
+      views: ((data ?? []) as SavedViewRow[]).map(transformSavedViewRow),
+    });
+  } catch (error) {
+    console.error("List saved views error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/boards/[id]/views - Save the current filters under a name.
+// Any member (viewers included) may save views; they only affect display.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: boardId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!uuidRegex.test(boardId)) {
+      return NextResponse.json(
+        { error: "Invalid board ID format" },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = createViewSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const role = await getBoardRoleForUser(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!role) {
+      return NextResponse.json(
+        { error: "Board not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const { count } = await supabase
+      .from("board_saved_views")
+      .select("id", { count: "exact", head: true })
+      .eq("board_id", boardId)
+      .eq("created_by", user.id);
+    if ((count ?? 0) >= MAX_VIEWS_PER_USER) {
+      return NextResponse.json(
+        {
+          error: `You can save at most ${MAX_VIEWS_PER_USER} views per board`,
+        },
+        { status: 409 },
+      );
+    }
+
+    const { name, isShared, filters, viewMode } = validation.data;
+    const { data, error } = await supabase
+      .from("board_saved_views")
+      .insert({
+        board_id: boardId,
+        name,
+        is_shared: isShared,
+        filters,
+        view_mode: viewMode,
+        created_by: user.id,
+      })
+      .select(SAVED_VIEW_SELECT)
+      .single();
+
+    if (error || !data) {
+      console.error("Create saved view error:", error);
+      return NextResponse.json(
+        { error: "Failed to save view" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(
+      { view: transformSavedViewRow(data as SavedViewRow) },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Create saved view error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const notFound = () =>
+  NextResponse.json({ error: "Watch not found" }, { status: 404 });
+
+// DELETE /api/boards/[id]/watchers/[watchId] - Unwatch; only your own watches
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; watchId: string }> },
+) {
+  const { id: boardId, watchId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!uuidRegex.test(boardId) || !uuidRegex.test(watchId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+    if (!clientCanAccessBoard(supabase, boardId)) return notFound();
+
+    const { data, error } = await supabase
+      .from("watchers")
+      .delete()
+      .eq("id", watchId)
+      .eq("board_id", boardId)
+      .eq("user_id", user.id)
+      .select("id");
+
+    if (error) {
+      console.error("Delete watch error:", error);
+      return NextResponse.json(
+        { error: "Failed to delete watch" },
+        { status: 500 },
+      );
+    }
+    if (!data || data.length === 0) return notFound();
+
+    return NextResponse.json({ message: "Watch deleted" });
+  } catch (error) {
+    console.error("Delete watch error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
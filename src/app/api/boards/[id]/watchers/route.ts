@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import { toWatch, WATCH_SELECT, type WatchRow } from "@/lib/watchers";
+
+type BoardAccessClient = Parameters<typeof getBoardRoleForUser>[0];
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Neither set watches the whole board
+const createWatchSchema = z
+  .object({
+    columnId: z.number().int().positive().optional(),
+    cardId: z.string().uuid("Card ID must be a valid UUID").optional(),
+  })
+  .refine(({ columnId, cardId }) => !(columnId && cardId), {
+    message: "Watch either a column or a card",
+    path: ["cardId"],
+  });
+
+// GET /api/boards/[id]/watchers - The caller's watches on the board
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: boardId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:read",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!uuidRegex.test(boardId)) {
+      return NextResponse.json(
+        { error: "Invalid board ID format" },
+        { status: 400 },
+      );
+    }
+
+    const role = await getBoardRoleForUser(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!role) {
+      return NextResponse.json(
+        { error: "Board not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("watchers")
+      .select(WATCH_SELECT)
+      .eq("board_id", boardId)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("List watches error:", error);
+      return NextResponse.json(
+        { error: "Failed to list watches" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({
+      watches: ((data ?? []) as WatchRow[]).map(toWatch),
+    });
+  } catch (error) {
+    console.error("List watches error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/boards/[id]/watchers - Watch the board, one of its columns or
+// one of its cards. Watching something already watched returns that watch.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: boardId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!uuidRegex.test(boardId)) {
+      return NextResponse.json(
+        { error: "Invalid board ID format" },
+        { status: 400 },
+      );
+    }
+
+    const validation = createWatchSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+    const { columnId, cardId } = validation.data;
+
+    // Viewers may watch too: watching changes nothing on the board
+    const role = await getBoardRoleForUser(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!role) {
+      return NextResponse.json(
+        { error: "Board not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    if (columnId !== undefined || cardId !== undefined) {
+      const { data: target } = await supabase
+        .from(cardId ? "cards" : "columns")
+        .select("id, board_id")
+        .eq("id", cardId ?? columnId!)
+        .single();
+      if (!target || target.board_id !== boardId) {
+        return NextResponse.json(
+          { error: cardId ? "Card not found" : "Column not found" },
+          { status: 404 },
+        );
+      }
+    }
+
+    let existingQuery = supabase
+      .from("watchers")
+      .select(WATCH_SELECT)
+      .eq("board_id", boardId)
+      .eq("user_id", user.id);
+    existingQuery = cardId
+      ? existingQuery.eq("card_id", cardId)
+      : existingQuery.is("card_id", null);
+    existingQuery =
+      columnId !== undefined
+        ? existingQuery.eq("column_id", columnId)
+        : existingQuery.is("column_id", null);
+    const { data: existing } = await existingQuery.maybeSingle();
+    if (existing) {
+      return NextResponse.json({ watch: toWatch(existing as WatchRow) });
+    }
+
+    const { data, error } = await supabase
+      .from("watchers")
+      .insert({
+        user_id: user.id,
+        board_id: boardId,
+        column_id: columnId ?? null,
+        card_id: cardId ?? null,
+      })
+      .select(WATCH_SELECT)
+      .single();
+
+    if (error || !data) {
+      console.error("Create watch error:", error);
+      return NextResponse.json(
+        { error: "Failed to create watch" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(
+      { watch: toWatch(data as WatchRow) },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Create watch error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
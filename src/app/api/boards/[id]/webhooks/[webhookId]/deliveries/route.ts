@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  getWebhookManagementAuthorization,
+  transformWebhookDeliveryRow,
+  WEBHOOK_DELIVERY_SELECT,
+  type WebhookDeliveryRow,
+} from "@/lib/webhooks/manage";
+
+type BoardAccessClient = Parameters<
+  typeof getWebhookManagementAuthorization
+>[0];
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DELIVERY_LOG_LIMIT = 50;
+
+// GET /api/boards/[id]/webhooks/[webhookId]/deliveries - Most recent
+// deliveries of one webhook, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> },
+) {
+  const { id: boardId, webhookId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:read",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!uuidRegex.test(boardId) || !uuidRegex.test(webhookId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const authorization = await getWebhookManagementAuthorization(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    const adminClient = createAdminClient();
+    const { data: webhook } = await adminClient
+      .from("board_webhooks")
+      .select("id")
+      .eq("id", webhookId)
+      .eq("board_id", boardId)
+      .maybeSingle();
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const { data, error } = await adminClient
+      .from("webhook_deliveries")
+      .select(WEBHOOK_DELIVERY_SELECT)
+      .eq("webhook_id", webhookId)
+      .order("created_at", { ascending: false })
+      .limit(DELIVERY_LOG_LIMIT);
+
+    if (error) {
+      console.error("List webhook deliveries error:", error);
+      return NextResponse.json(
+        { error: "Failed to list deliveries" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({
+      deliveries: ((data ?? []) as WebhookDeliveryRow[]).map(
+        transformWebhookDeliveryRow,
+      ),
+    });
+  } catch (error) {
+    console.error("List webhook deliveries error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { WEBHOOK_EVENT_TYPES } from "@/lib/webhooks/events";
+import {
+  getWebhookManagementAuthorization,
+  transformWebhookRow,
+  WEBHOOK_SELECT,
+  type WebhookRow,
+} from "@/lib/webhooks/manage";
+import { generateWebhookSecret } from "@/lib/webhooks/signature";
+import { validateWebhookUrl } from "@/lib/webhooks/url";
+
+type BoardAccessClient = Parameters<
+  typeof getWebhookManagementAuthorization
+>[0];
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const updateWebhookSchema = z
+  .object({
+    url: z
+      .string()
+      .trim()
+      .max(2000)
+      .superRefine((value, ctx) => {
+        const problem = validateWebhookUrl(value);
+        if (problem) ctx.addIssue({ code: "custom", message: problem });
+      })
+      .optional(),
+    eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).optional(),
+    isActive: z.boolean().optional(),
+    rotateSecret: z.literal(true).optional(),
+  })
+  .refine((value) => Object.keys(value).length > 0, {
+    message: "Nothing to update",
+  });
+
+// PATCH /api/boards/[id]/webhooks/[webhookId] - Change URL, events or state;
+// `rotateSecret: true` issues a new secret (returned once)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> },
+) {
+  const { id: boardId, webhookId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!uuidRegex.test(boardId) || !uuidRegex.test(webhookId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = updateWebhookSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const authorization = await getWebhookManagementAuthorization(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    const { url, eventTypes, isActive, rotateSecret } = validation.data;
+    const secret = rotateSecret ? generateWebhookSecret() : null;
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (url !== undefined) updateData.url = url;
+    if (eventTypes !== undefined)
+      updateData.event_types = [...new Set(eventTypes)];
+    if (isActive !== undefined) updateData.is_active = isActive;
+    if (secret) updateData.secret = secret;
+
+    const { data, error } = await createAdminClient()
+      .from("board_webhooks")
+      .update(updateData)
+      .eq("id", webhookId)
+      .eq("board_id", boardId)
+      .select(WEBHOOK_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Update webhook error:", error);
+      return NextResponse.json(
+        { error: "Failed to update webhook" },
+        { status: 500 },
+      );
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      webhook: transformWebhookRow(data as WebhookRow),
+      ...(secret && { secret }),
+    });
+  } catch (error) {
+    console.error("Update webhook error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/boards/[id]/webhooks/[webhookId] - Remove the subscription and
+// its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> },
+) {
+  const { id: boardId, webhookId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!uuidRegex.test(boardId) || !uuidRegex.test(webhookId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const authorization = await getWebhookManagementAuthorization(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    const { data, error } = await createAdminClient()
+      .from("board_webhooks")
+      .delete()
+      .eq("id", webhookId)
+      .eq("board_id", boardId)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Delete webhook error:", error);
+      return NextResponse.json(
+        { error: "Failed to delete webhook" },
+        { status: 500 },
+      );
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete webhook error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
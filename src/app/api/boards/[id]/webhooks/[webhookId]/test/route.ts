@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { sendWebhookPing } from "@/lib/webhooks/delivery";
+import { getWebhookManagementAuthorization } from "@/lib/webhooks/manage";
+
+type BoardAccessClient = Parameters<
+  typeof getWebhookManagementAuthorization
+>[0];
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// POST /api/boards/[id]/webhooks/[webhookId]/test - Send a signed `ping`
+// delivery and report the receiver's answer. Works for inactive webhooks too.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> },
+) {
+  const { id: boardId, webhookId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!uuidRegex.test(boardId) || !uuidRegex.test(webhookId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const authorization = await getWebhookManagementAuthorization(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    const adminClient = createAdminClient();
+    const { data: webhook } = await adminClient
+      .from("board_webhooks")
+      .select("id")
+      .eq("id", webhookId)
+      .eq("board_id", boardId)
+      .maybeSingle();
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const result = await sendWebhookPing({ id: webhookId, boardId }, user.id, {
+      adminClient,
+    });
+    if (!result) {
+      return NextResponse.json(
+        { error: "Failed to send test delivery" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ delivery: result });
+  } catch (error) {
+    console.error("Test webhook error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { WEBHOOK_EVENT_TYPES } from "@/lib/webhooks/events";
+import {
+  getWebhookManagementAuthorization,
+  transformWebhookRow,
+  WEBHOOK_SELECT,
+  type WebhookRow,
+} from "@/lib/webhooks/manage";
+import { generateWebhookSecret } from "@/lib/webhooks/signature";
+import { validateWebhookUrl } from "@/lib/webhooks/url";
+
+type BoardAccessClient = Parameters<
+  typeof getWebhookManagementAuthorization
+>[0];
+
+const MAX_WEBHOOKS_PER_BOARD = 10;
+
+const createWebhookSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .max(2000)
+    .superRefine((value, ctx) => {
+      const problem = validateWebhookUrl(value);
+      if (problem) ctx.addIssue({ code: "custom", message: problem });
+    }),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+  // Omitted → generated; either way it is only ever returned once
+  secret: z.string().min(16).max(200).optional(),
+});
+
+// GET /api/boards/[id]/webhooks - List the board's webhook subscriptions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: boardId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:read",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(boardId)) {
+      return NextResponse.json(
+        { error: "Invalid board ID format" },
+        { status: 400 },
+      );
+    }
+
+    const authorization = await getWebhookManagementAuthorization(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    const { data, error } = await createAdminClient()
+      .from("board_webhooks")
+      .select(WEBHOOK_SELECT)
+      .eq("board_id", boardId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("List webhooks error:", error);
+      return NextResponse.json(
+        { error: "Failed to list webhooks" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({
+      webhooks: ((data ?? []) as WebhookRow[]).map(transformWebhookRow),
+    });
+  } catch (error) {
+    console.error("List webhooks error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/boards/[id]/webhooks - Subscribe a URL to board events
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: boardId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(boardId)) {
+      return NextResponse.json(
+        { error: "Invalid board ID format" },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = createWebhookSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const authorization = await getWebhookManagementAuthorization(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    const adminClient = createAdminClient();
+    const { count } = await adminClient
+      .from("board_webhooks")
+      .select("id", { count: "exact", head: true })
+      .eq("board_id", boardId);
+    if ((count ?? 0) >= MAX_WEBHOOKS_PER_BOARD) {
+      return NextResponse.json(
+        {
+          error: `A board can have at most ${MAX_WEBHOOKS_PER_BOARD} webhooks`,
+        },
+        { status: 409 },
+      );
+    }
+
+    const { url, eventTypes, secret } = validation.data;
+    const webhookSecret = secret ?? generateWebhookSecret();
+
+    const { data, error } = await adminClient
+      .from("board_webhooks")
+      .insert({
+        board_id: boardId,
+        url,
+        secret: webhookSecret,
+        event_types: [...new Set(eventTypes)],
+        created_by: user.id,
+      })
+      .select(WEBHOOK_SELECT)
+      .single();
+
+    if (error || !data) {
+      console.error("Create webhook error:", error);
+      return NextResponse.json(
+        { error: "Failed to create webhook" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        webhook: transformWebhookRow(data as WebhookRow),
+        secret: webhookSecret,
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Create webhook error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthorizedUser } from "../../../lib/supabase/server";
+import {
+  clientCanAccessBoard,
+  getTokenRestrictions,
+} from "../../../lib/api-tokens/scopes";
 
 // GET /api/boards - Get all boards for the current user
 export async function GET(_request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:read",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -34,7 +40,10 @@ export async function GET(_request: NextRequest) {
       );
     }
 
-    const boardIds = userBoards.map((b) => b.id);
+    const visibleBoards = userBoards.filter((b) =>
+      clientCanAccessBoard(supabase, b.id),
+    );
+    const boardIds = visibleBoards.map((b) => b.id);
     let taskCounts: Record<string, number> = {};
     if (boardIds.length > 0) {
       const { data: cardRows } = await supabase
@@ -48,7 +57,7 @@ export async function GET(_request: NextRequest) {
     }
 
     // Transform the data to match our expected format
-    const boards = userBoards.map((board) => ({
+    const boards = visibleBoards.map((board) => ({
       id: board.id,
       name: board.name,
       isArchived: board.is_archived,
@@ -77,11 +86,21 @@ export async function GET(_request: NextRequest) {
 // POST /api/boards - Create a new board
 export async function POST(request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // A token restricted to specific boards can't be widened by creating one
+    if (getTokenRestrictions(supabase)?.boardIds) {
+      return NextResponse.json(
+        { error: "Token is restricted to specific boards" },
+        { status: 403 },
+      );
+    }
+
     const body = await request.json();
     const { name, templateId } = body;
 
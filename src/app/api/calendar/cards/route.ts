@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthorizedUser } from "@/lib/supabase/server";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
 
 export type CalendarCard = {
   id: string;
@@ -17,7 +18,7 @@ export type CalendarCard = {
 // Returns all cards with a due_date in [start, end] across all boards the user is a member of.
 export async function GET(request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -72,25 +73,27 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const cards: CalendarCard[] = (data ?? []).map((card) => {
-      const board = card.boards as unknown as {
-        id: string;
-        name: string;
-        is_archived: boolean;
-      };
-      const column = card.columns as unknown as { id: number; title: string };
-      return {
-        id: card.id,
-        title: card.title,
-        dueDate: card.due_date!,
-        priority: card.priority as "high" | "medium" | "low",
-        boardId: card.board_id,
-        boardName: board.name,
-        columnId: column.id,
-        columnTitle: column.title,
-        completedAt: card.completed_at,
-      };
-    });
+    const cards: CalendarCard[] = (data ?? [])
+      .filter((card) => clientCanAccessBoard(supabase, card.board_id))
+      .map((card) => {
+        const board = card.boards as unknown as {
+          id: string;
+          name: string;
+          is_archived: boolean;
+        };
+        const column = card.columns as unknown as { id: number; title: string };
+        return {
+          id: card.id,
+          title: card.title,
+          dueDate: card.due_date!,
+          priority: card.priority as "high" | "medium" | "low",
+          boardId: card.board_id,
+          boardName: board.name,
+          columnId: column.id,
+          columnTitle: column.title,
+          completedAt: card.completed_at,
+        };
+      });
 
     return NextResponse.json({ cards });
   } catch (error) {
@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthorizedUser } from "@/lib/supabase/server";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { createNotifications } from "@/lib/notifications";
+import { recordCardEvents } from "@/lib/card-events";
+import { loadCardAssigneeIds } from "@/lib/card-assignees";
+import {
+  loadBoardWatches,
+  resolveCardWatchers,
+  watcherNotificationRows,
+} from "@/lib/watchers";
 
 const BUCKET = "card-attachments";
 const SIGNED_URL_TTL = 3600; // 1 hour
@@ -18,7 +26,7 @@ export async function GET(
 ) {
   const { id: cardId } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -30,7 +38,7 @@ export async function GET(
       .eq("id", cardId)
       .single();
 
-    if (cardError || !card) {
+    if (cardError || !card || !clientCanAccessBoard(supabase, card.board_id)) {
       return NextResponse.json(
         { error: "Card not found or access denied" },
         { status: 404 },
@@ -91,7 +99,9 @@ export async function POST(
 ) {
   const { id: cardId } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -99,11 +109,11 @@ export async function POST(
     // Verify card access and get assignee for notification
     const { data: card, error: cardError } = await supabase
       .from("cards")
-      .select("id, board_id, assignee_id")
+      .select("id, board_id, column_id, assignee_id")
       .eq("id", cardId)
       .single();
 
-    if (cardError || !card) {
+    if (cardError || !card || !clientCanAccessBoard(supabase, card.board_id)) {
       return NextResponse.json(
         { error: "Card not found or access denied" },
         { status: 404 },
@@ -149,19 +159,37 @@ export async function POST(
       .from(BUCKET)
       .createSignedUrl(storagePath, SIGNED_URL_TTL);
 
-    // Notify card assignee if they are not the uploader
-    if (card.assignee_id && card.assignee_id !== user.id) {
-      await createNotifications(createAdminClient(), [
-        {
-          user_id: card.assignee_id,
-          type: "file_upload",
-          actor_id: user.id,
-          card_id: cardId,
-          board_id: card.board_id,
-          metadata: { fileName: sanitizedName, filePath: storagePath },
-        },
-      ]);
-    }
+    // Notify the card's assignees other than the uploader, and the watchers
+    const notification = {
+      type: "file_upload" as const,
+      actor_id: user.id,
+      card_id: cardId,
+      board_id: card.board_id,
+      metadata: { fileName: sanitizedName, filePath: storagePath },
+    };
+    const assigneeIds = (
+      (await loadCardAssigneeIds(supabase, [card])).get(cardId) ?? []
+    ).filter((id) => id !== user.id);
+    const watchers = resolveCardWatchers(
+      await loadBoardWatches(supabase, card.board_id),
+      cardId,
+      [card.column_id],
+    );
+    await createNotifications(createAdminClient(), [
+      ...assigneeIds.map((id) => ({ ...notification, user_id: id })),
+      ...watcherNotificationRows(watchers, notification, assigneeIds),
+    ]);
+
+    await recordCardEvents(createAdminClient(), [
+      {
+        card_id: cardId,
+        board_id: card.board_id,
+        actor_id: user.id,
+        event_type: "attachment_added",
+        before: null,
+        after: { name: sanitizedName, path: storagePath },
+      },
+    ]);
 
     return NextResponse.json(
       {
@@ -190,7 +218,9 @@ export async function DELETE(
 ) {
   const { id: cardId } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -202,7 +232,7 @@ export async function DELETE(
       .eq("id", cardId)
       .single();
 
-    if (cardError || !card) {
+    if (cardError || !card || !clientCanAccessBoard(supabase, card.board_id)) {
       return NextResponse.json(
         { error: "Card not found or access denied" },
         { status: 404 },
@@ -233,6 +263,17 @@ export async function DELETE(
       );
     }
 
+    await recordCardEvents(createAdminClient(), [
+      {
+        card_id: cardId,
+        board_id: card.board_id,
+        actor_id: user.id,
+        event_type: "attachment_deleted",
+        before: { name: filePath.slice(cardId.length + 1), path: filePath },
+        after: null,
+      },
+    ]);
+
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("DELETE attachment error:", error);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthorizedUser } from "@/lib/supabase/server";
 import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { dispatchWebhookEvent } from "@/lib/webhooks/delivery";
 import { z } from "zod";
 
 type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
@@ -20,7 +21,9 @@ export async function PATCH(
 ) {
   const { id: cardId, requestId } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
     const boardAccessClient = supabase as unknown as BoardAccessClient;
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -40,7 +43,7 @@ export async function PATCH(
 
     const { data: card, error: cardError } = await supabase
       .from("cards")
-      .select("id, board_id, created_by")
+      .select("id, board_id, created_by, title, due_date")
       .eq("id", cardId)
       .single();
     if (cardError || !card) {
@@ -133,6 +136,24 @@ export async function PATCH(
         .eq("card_id", cardId)
         .eq("status", "pending")
         .neq("id", requestId);
+
+      // Not awaited: webhook receivers must not slow down the response
+      void dispatchWebhookEvent({
+        type: "deadline.changed",
+        boardId: card.board_id,
+        actorId: user.id,
+        data: {
+          card: { id: cardId, title: card.title },
+          previousDueDate: card.due_date
+            ? new Date(card.due_date).toISOString()
+            : null,
+          newDueDate: req.suggested_due_date
+            ? new Date(req.suggested_due_date).toISOString()
+            : null,
+          changeType: "suggestion",
+          requestId,
+        },
+      });
     }
 
     return NextResponse.json({
@@ -21,7 +21,7 @@ export async function GET(
 ) {
   const { id: cardId } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -75,7 +75,9 @@ export async function POST(
 ) {
   const { id: cardId } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
     const boardAccessClient = supabase as unknown as BoardAccessClient;
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
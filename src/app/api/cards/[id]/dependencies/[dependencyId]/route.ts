@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { loadCardDependencies } from "@/lib/card-dependencies";
+
+type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
+type RouteContext = { params: Promise<{ id: string; dependencyId: string }> };
+
+// DELETE /api/cards/[id]/dependencies/[dependencyId] — remove a link of this card
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: cardId, dependencyId } = await params;
+
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(cardId) || !uuidRegex.test(dependencyId)) {
+      return NextResponse.json(
+        { error: "Invalid card or dependency ID format" },
+        { status: 400 },
+      );
+    }
+
+    const { data: card, error: cardError } = await supabase
+      .from("cards")
+      .select("id, board_id")
+      .eq("id", cardId)
+      .single();
+
+    if (cardError || !card) {
+      return NextResponse.json(
+        { error: "Card not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const authorization = await getBoardMutationAuthorization(
+      supabase as unknown as BoardAccessClient,
+      card.board_id,
+      user.id,
+    );
+
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from("card_dependencies")
+      .delete()
+      .eq("id", dependencyId)
+      .or(`blocker_card_id.eq.${cardId},blocked_card_id.eq.${cardId}`)
+      .select("id");
+
+    if (deleteError) {
+      console.error("Remove card dependency error:", deleteError);
+      return NextResponse.json(
+        { error: "Failed to remove dependency" },
+        { status: 500 },
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: "Dependency not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(await loadCardDependencies(supabase, cardId));
+  } catch (error) {
+    console.error("Remove card dependency error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
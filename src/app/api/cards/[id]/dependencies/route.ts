@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
+import {
+  DEPENDENCY_TYPES,
+  loadCardDependencies,
+  wouldCreateDependencyCycle,
+} from "@/lib/card-dependencies";
+import { z } from "zod";
+
+type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
+type RouteContext = { params: Promise<{ id: string }> };
+
+const addDependencySchema = z.object({
+  cardId: z.string().uuid("Card ID must be a valid UUID"),
+  // "blocks": this card blocks cardId; "blocked_by": cardId blocks this card
+  type: z.enum(DEPENDENCY_TYPES),
+});
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// GET /api/cards/[id]/dependencies — cards blocking and blocked by this card
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: cardId } = await params;
+    if (!uuidRegex.test(cardId)) {
+      return NextResponse.json(
+        { error: "Invalid card ID format" },
+        { status: 400 },
+      );
+    }
+
+    // Verify card exists and user has board access (RLS)
+    const { data: card, error: cardError } = await supabase
+      .from("cards")
+      .select("id, board_id")
+      .eq("id", cardId)
+      .single();
+
+    if (cardError || !card || !clientCanAccessBoard(supabase, card.board_id)) {
+      return NextResponse.json(
+        { error: "Card not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(await loadCardDependencies(supabase, cardId));
+  } catch (error) {
+    console.error("Get card dependencies error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/cards/[id]/dependencies — link another card as blocker or blocked
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: cardId } = await params;
+    if (!uuidRegex.test(cardId)) {
+      return NextResponse.json(
+        { error: "Invalid card ID format" },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = addDependencySchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { cardId: otherCardId, type } = validation.data;
+    if (otherCardId === cardId) {
+      return NextResponse.json(
+        { error: "A card cannot depend on itself" },
+        { status: 400 },
+      );
+    }
+
+    const { data: card, error: cardError } = await supabase
+      .from("cards")
+      .select("id, board_id")
+      .eq("id", cardId)
+      .single();
+
+    if (cardError || !card) {
+      return NextResponse.json(
+        { error: "Card not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const authorization = await getBoardMutationAuthorization(
+      supabase as unknown as BoardAccessClient,
+      card.board_id,
+      user.id,
+    );
+
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    // The other card may be on any board the caller can see
+    const { data: otherCard, error: otherCardError } = await supabase
+      .from("cards")
+      .select("id, board_id")
+      .eq("id", otherCardId)
+      .single();
+
+    if (
+      otherCardError ||
+      !otherCard ||
+      !clientCanAccessBoard(supabase, otherCard.board_id)
+    ) {
+      return NextResponse.json(
+        { error: "Linked card not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const [blockerCardId, blockedCardId] =
+      type === "blocks" ? [cardId, otherCardId] : [otherCardId, cardId];
+
+    if (
+      await wouldCreateDependencyCycle(
+        createAdminClient(),
+        blockerCardId,
+        blockedCardId,
+      )
+    ) {
+      return NextResponse.json(
+        {
+          error: "This dependency would create a cycle",
+          code: "dependency_cycle",
+        },
+        { status: 409 },
+      );
+    }
+
+    const { error: insertError } = await supabase
+      .from("card_dependencies")
+      .insert({
+        blocker_card_id: blockerCardId,
+        blocked_card_id: blockedCardId,
+        created_by: user.id,
+      });
+
+    if (insertError) {
+      if (insertError.code === "23505") {
+        return NextResponse.json(
+          { error: "These cards are already linked" },
+          { status: 409 },
+        );
+      }
+      console.error("Add card dependency error:", insertError);
+      return NextResponse.json(
+        { error: "Failed to add dependency" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(await loadCardDependencies(supabase, cardId), {
+      status: 201,
+    });
+  } catch (error) {
+    console.error("Add card dependency error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
+
+const EVENT_LIMIT = 200;
+
+type EventUser = {
+  id: string;
+  email: string;
+  name: string | null;
+  avatar_url: string | null;
+};
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: cardId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Verify card access via RLS
+    const { data: card, error: cardError } = await supabase
+      .from("cards")
+      .select("id, board_id")
+      .eq("id", cardId)
+      .single();
+
+    if (cardError || !card || !clientCanAccessBoard(supabase, card.board_id)) {
+      return NextResponse.json(
+        { error: "Card not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const { data: events, error } = await supabase
+      .from("card_events")
+      .select(
+        "id, event_type, actor_id, before, after, created_at, users(id, email, name, avatar_url)",
+      )
+      .eq("card_id", cardId)
+      .order("created_at", { ascending: true })
+      .limit(EVENT_LIMIT);
+
+    if (error) {
+      console.error("Get card events error:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch card events" },
+        { status: 500 },
+      );
+    }
+
+    const transformed = (events ?? []).map((e) => {
+      const u = (e as unknown as { users?: EventUser | EventUser[] | null })
+        .users;
+      const actor = Array.isArray(u) ? u[0] : u;
+      return {
+        id: e.id,
+        type: e.event_type,
+        actorId: e.actor_id,
+        actor: actor
+          ? {
+              id: actor.id,
+              email: actor.email,
+              name: actor.name,
+              avatarUrl: actor.avatar_url,
+            }
+          : null,
+        before: e.before,
+        after: e.after,
+        createdAt: e.created_at,
+      };
+    });
+
+    return NextResponse.json({ events: transformed });
+  } catch (error) {
+    console.error("Get card events error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+
+type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
+type RouteContext = { params: Promise<{ id: string; labelId: string }> };
+
+// DELETE /api/cards/[id]/labels/[labelId] — detach a label from a card
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: cardId, labelId } = await params;
+
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(cardId) || !uuidRegex.test(labelId)) {
+      return NextResponse.json(
+        { error: "Invalid card or label ID format" },
+        { status: 400 },
+      );
+    }
+
+    const { data: card, error: cardError } = await supabase
+      .from("cards")
+      .select("id, board_id")
+      .eq("id", cardId)
+      .single();
+
+    if (cardError || !card) {
+      return NextResponse.json(
+        { error: "Card not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const authorization = await getBoardMutationAuthorization(
+      supabase as unknown as BoardAccessClient,
+      card.board_id,
+      user.id,
+    );
+
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    const { error: deleteError } = await supabase
+      .from("card_labels")
+      .delete()
+      .eq("card_id", cardId)
+      .eq("label_id", labelId);
+
+    if (deleteError) {
+      console.error("Remove card label error:", deleteError);
+      return NextResponse.json(
+        { error: "Failed to remove label" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ message: "Label removed successfully" });
+  } catch (error) {
+    console.error("Remove card label error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,322 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import {
+  CARD_LABEL_SELECT,
+  transformCardLabels,
+  type CardLabelRow,
+} from "@/lib/card-labels";
+import { z } from "zod";
+
+type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
+type RouteContext = { params: Promise<{ id: string }> };
+
+const addLabelSchema = z.object({
+  labelId: z.string().uuid("Label ID must be a valid UUID"),
+});
+
+const setLabelsSchema = z.object({
+  labelIds: z
+    .array(z.string().uuid("Label ID must be a valid UUID"))
+    .max(50, "Too many labels"),
+});
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: cardId } = await params;
+    if (!uuidRegex.test(cardId)) {
+      return NextResponse.json(
+        { error: "Invalid card ID format" },
+        { status: 400 },
+      );
+    }
+
+    // Verify card exists and user has board access (RLS)
+    const { data: card, error: cardError } = await supabase
+      .from("cards")
+      .select("id")
+      .eq("id", cardId)
+      .single();
+
+    if (cardError || !card) {
+      return NextResponse.json(
+        { error: "Card not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const { data: rows, error } = await supabase
+      .from("card_labels")
+      .select(CARD_LABEL_SELECT)
+      .eq("card_id", cardId);
+
+    if (error) {
+      console.error("Get card labels error:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch card labels" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({
+      labels: transformCardLabels(rows as unknown as CardLabelRow[]),
+    });
+  } catch (error) {
+    console.error("Get card labels error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/cards/[id]/labels — attach a single label (idempotent)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: cardId } = await params;
+    if (!uuidRegex.test(cardId)) {
+      return NextResponse.json(
+        { error: "Invalid card ID format" },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = addLabelSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { labelId } = validation.data;
+
+    const { data: card, error: cardError } = await supabase
+      .from("cards")
+      .select("id, board_id")
+      .eq("id", cardId)
+      .single();
+
+    if (cardError || !card) {
+      return NextResponse.json(
+        { error: "Card not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const authorization = await getBoardMutationAuthorization(
+      supabase as unknown as BoardAccessClient,
+      card.board_id,
+      user.id,
+    );
+
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    // Labels are board-scoped: never let a card pick up another board's label
+    const { data: label, error: labelError } = await supabase
+      .from("labels")
+      .select("id")
+      .eq("id", labelId)
+      .eq("board_id", card.board_id)
+      .single();
+
+    if (labelError || !label) {
+      return NextResponse.json(
+        { error: "Label not found or does not belong to this board" },
+        { status: 400 },
+      );
+    }
+
+    const { error: insertError } = await supabase
+      .from("card_labels")
+      .upsert(
+        { card_id: cardId, label_id: labelId },
+        { onConflict: "card_id,label_id", ignoreDuplicates: true },
+      );
+
+    if (insertError) {
+      console.error("Add card label error:", insertError);
+      return NextResponse.json(
+        { error: "Failed to add label" },
+        { status: 500 },
+      );
+    }
+
+    const { data: rows } = await supabase
+      .from("card_labels")
+      .select(CARD_LABEL_SELECT)
+      .eq("card_id", cardId);
+
+    return NextResponse.json(
+      { labels: transformCardLabels(rows as unknown as CardLabelRow[]) },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Add card label error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// PUT /api/cards/[id]/labels — replace the card's label set
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: cardId } = await params;
+    if (!uuidRegex.test(cardId)) {
+      return NextResponse.json(
+        { error: "Invalid card ID format" },
+        { status: 400 },
+      );
+    }
+
+    const body = await request.json();
+    const validation = setLabelsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const labelIds = [...new Set(validation.data.labelIds)];
+
+    const { data: card, error: cardError } = await supabase
+      .from("cards")
+      .select("id, board_id")
+      .eq("id", cardId)
+      .single();
+
+    if (cardError || !card) {
+      return NextResponse.json(
+        { error: "Card not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const authorization = await getBoardMutationAuthorization(
+      supabase as unknown as BoardAccessClient,
+      card.board_id,
+      user.id,
+    );
+
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    if (labelIds.length > 0) {
+      const { data: labels, error: labelsError } = await supabase
+        .from("labels")
+        .select("id")
+        .in("id", labelIds)
+        .eq("board_id", card.board_id);
+
+      if (labelsError || !labels || labels.length !== labelIds.length) {
+        return NextResponse.json(
+          { error: "Some labels not found or do not belong to this board" },
+          { status: 400 },
+        );
+      }
+    }
+
+    const { data: currentRows, error: currentError } = await supabase
+      .from("card_labels")
+      .select("label_id")
+      .eq("card_id", cardId);
+
+    if (currentError) {
+      console.error("Set card labels error:", currentError);
+      return NextResponse.json(
+        { error: "Failed to update labels" },
+        { status: 500 },
+      );
+    }
+
+    const currentIds = new Set(
+      (currentRows ?? []).map((r) => r.label_id as string),
+    );
+    const toAdd = labelIds.filter((id) => !currentIds.has(id));
+    const toRemove = [...currentIds].filter((id) => !labelIds.includes(id));
+
+    if (toRemove.length > 0) {
+      const { error: deleteError } = await supabase
+        .from("card_labels")
+        .delete()
+        .eq("card_id", cardId)
+        .in("label_id", toRemove);
+
+      if (deleteError) {
+        console.error("Set card labels error:", deleteError);
+        return NextResponse.json(
+          { error: "Failed to update labels" },
+          { status: 500 },
+        );
+      }
+    }
+
+    if (toAdd.length > 0) {
+      const { error: insertError } = await supabase
+        .from("card_labels")
+        .insert(
+          toAdd.map((labelId) => ({ card_id: cardId, label_id: labelId })),
+        );
+
+      if (insertError) {
+        console.error("Set card labels error:", insertError);
+        return NextResponse.json(
+          { error: "Failed to update labels" },
+          { status: 500 },
+        );
+      }
+    }
+
+    const { data: rows } = await supabase
+      .from("card_labels")
+      .select(CARD_LABEL_SELECT)
+      .eq("card_id", cardId);
+
+    return NextResponse.json({
+      labels: transformCardLabels(rows as unknown as CardLabelRow[]),
+      added: toAdd.length,
+      removed: toRemove.length,
+    });
+  } catch (error) {
+    console.error("Set card labels error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
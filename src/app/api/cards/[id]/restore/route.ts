@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { canManageBoardMembers } from "@/lib/board-permissions";
+import { restoreTrashedCard } from "@/lib/card-trash";
+import { recordCardEvents } from "@/lib/card-events";
+
+type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
+
+// POST /api/cards/[id]/restore - Take a card out of its board's trash
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: cardId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(cardId)) {
+      return NextResponse.json(
+        { error: "Invalid card ID format" },
+        { status: 400 },
+      );
+    }
+
+    // RLS hides trashed cards, so the lookup uses the service role and the
+    // board role check below stands in for the policy
+    const adminClient = createAdminClient();
+    const { data: card, error: cardError } = await adminClient
+      .from("cards")
+      .select("id, board_id, column_id, position, deleted_at")
+      .eq("id", cardId)
+      .single();
+
+    if (cardError || !card?.deleted_at) {
+      return NextResponse.json(
+        { error: "Card not found in trash" },
+        { status: 404 },
+      );
+    }
+
+    const authorization = await getBoardMutationAuthorization(
+      supabase as unknown as BoardAccessClient,
+      card.board_id,
+      user.id,
+    );
+    if (!authorization.ok) {
+      // Members of other boards must not learn that the card exists
+      return NextResponse.json(
+        {
+          error:
+            authorization.status === 404
+              ? "Card not found in trash"
+              : authorization.error,
+        },
+        { status: authorization.status },
+      );
+    }
+    if (!canManageBoardMembers(authorization.role)) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 },
+      );
+    }
+
+    await restoreTrashedCard(adminClient, card);
+    await recordCardEvents(adminClient, [
+      {
+        card_id: card.id,
+        board_id: card.board_id,
+        actor_id: user.id,
+        event_type: "restored",
+        before: { deletedAt: card.deleted_at },
+        after: null,
+      },
+    ]);
+
+    return NextResponse.json({
+      id: card.id,
+      columnId: card.column_id,
+      position: card.position,
+    });
+  } catch (error) {
+    console.error("Restore card error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
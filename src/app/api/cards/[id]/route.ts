@@ -1,9 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
+import type { PostgrestSingleResponse } from "@supabase/supabase-js";
 import { getAuthorizedUser } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getBoardMutationAuthorization } from "@/lib/board-access";
-import { createNotifications } from "@/lib/notifications";
+import { canManageBoardMembers } from "@/lib/board-permissions";
+import { createNotifications, type NotificationRow } from "@/lib/notifications";
+import { diffCardEvents, recordCardEvents } from "@/lib/card-events";
+import { dispatchWebhookEvent } from "@/lib/webhooks/delivery";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
+import {
+  CARD_READ_SELECT,
+  transformCardRow,
+  type CardReadRow,
+} from "@/lib/card-payload";
+import {
+  createNextRecurringCard,
+  recurrenceRuleSchema,
+  type RecurringCardRow,
+} from "@/lib/card-recurrence";
+import {
+  assigneeIdsSchema,
+  loadCardAssigneeIds,
+  replaceCardAssignees,
+  resolveAssigneeInput,
+} from "@/lib/card-assignees";
+import {
+  CARD_BLOCKED_ERROR_CODE,
+  checkBlockedCompletion,
+} from "@/lib/card-dependencies";
+import {
+  loadBoardWatches,
+  resolveCardWatchers,
+  watcherNotificationRows,
+} from "@/lib/watchers";
 import { z } from "zod";
+import type { ColumnMoveRow } from "@/types/database";
 
 type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
 
@@ -15,6 +46,9 @@ const updateCardSchema = z.object({
     .optional(),
   description: z.string().optional(),
   assigneeId: z.string().nullable().optional(),
+  // Replaces all assignees; the first is the primary assignee
+  assigneeIds: assigneeIdsSchema.optional(),
+  startDate: z.string().datetime().nullable().optional(),
   dueDate: z.string().datetime().nullable().optional(),
   priority: z.enum(["high", "medium", "low"]).optional(),
   columnId: z
@@ -28,26 +62,126 @@ const updateCardSchema = z.object({
     .positive("Position must be a positive integer")
     .optional(),
   completedAt: z.string().datetime().nullable().optional(),
+  recurrenceRule: recurrenceRuleSchema.nullable().optional(),
+  recurrenceColumnId: z
+    .number()
+    .int()
+    .positive("Recurrence column ID must be a positive integer")
+    .nullable()
+    .optional(),
 });
 
 type CardUpdateData = {
   title?: string;
   description?: string;
   assignee_id?: string | null;
+  start_date?: string | null;
   due_date?: string | null;
   priority?: "high" | "medium" | "low";
   column_id?: number;
   position?: number;
   completed_at?: string | null;
+  recurrence_rule?: string | null;
+  recurrence_column_id?: number | null;
 };
 
+// GET /api/cards/[id] - Card with subtasks, labels and comment/attachment counts
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: cardId } = await params;
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:read",
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(cardId)) {
+      return NextResponse.json(
+        { error: "Invalid card ID format" },
+        { status: 400 },
+      );
+    }
+
+    // RLS hides cards on boards the user is not a member of
+    const { data, error: cardError } = await supabase
+      .from("cards")
+      .select(CARD_READ_SELECT)
+      .eq("id", cardId)
+      .single();
+    const card = data as unknown as CardReadRow | null;
+
+    if (cardError || !card || !clientCanAccessBoard(supabase, card.board_id)) {
+      return NextResponse.json(
+        { error: "Card not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const [subtasksResult, commentsResult] = await Promise.all([
+      supabase
+        .from("card_subtasks")
+        .select("id, card_id, title, completed_at, position, created_at")
+        .eq("card_id", cardId)
+        .is("deleted_at", null)
+        .order("position", { ascending: true })
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("comments")
+        .select("id", { count: "exact", head: true })
+        .eq("card_id", cardId)
+        .is("deleted_at", null),
+    ]);
+
+    if (subtasksResult.error || commentsResult.error) {
+      console.error(
+        "Get card error:",
+        subtasksResult.error ?? commentsResult.error,
+      );
+      return NextResponse.json(
+        { error: "Failed to fetch card" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({
+      card: {
+        ...transformCardRow(card),
+        subtasks: (subtasksResult.data ?? []).map((s) => ({
+          id: s.id,
+          cardId: s.card_id,
+          title: s.title,
+          completedAt: s.completed_at,
+          position: s.position,
+          createdAt: s.created_at,
+        })),
+        commentsCount: commentsResult.count ?? 0,
+      },
+    });
+  } catch (error) {
+    console.error("Get card error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   const { id } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
     const boardAccessClient = supabase as unknown as BoardAccessClient;
 
     if (!user) {
@@ -80,19 +214,22 @@ export async function PATCH(
     const {
       title,
       description,
-      assigneeId,
+      startDate,
       dueDate,
       priority,
       columnId,
       position,
       completedAt,
+      recurrenceRule,
+      recurrenceColumnId,
     } = validation.data;
+    const nextAssigneeIds = resolveAssigneeInput(validation.data);
 
     // Get the existing card to verify access (using Supabase RLS)
     const { data: existingCard, error: cardError } = await supabase
       .from("cards")
       .select(
-        "id, board_id, column_id, created_by, due_date, assignee_id, completed_at",
+        "id, board_id, column_id, created_by, title, description, priority, start_date, due_date, assignee_id, completed_at",
       )
       .eq("id", cardId)
       .single();
@@ -117,6 +254,10 @@ export async function PATCH(
       );
     }
 
+    const previousAssigneeIds =
+      (await loadCardAssigneeIds(supabase, [existingCard])).get(cardId) ?? [];
+    const currentAssigneeIds = nextAssigneeIds ?? previousAssigneeIds;
+
     // Guard: only the card creator may change due_date directly.
     // Everyone else (including owners/admins) must use the suggestion workflow.
     // Cards with created_by = null pre-date creator tracking — allow deadline changes for those.
@@ -144,12 +285,35 @@ export async function PATCH(
       }
     }
 
-    // If changing column, verify the new column belongs to the same board
+    // The start date is free to edit, but a range must not end before it
+    // starts. Compare against the stored value of whichever side is unchanged.
+    const nextStartDate =
+      startDate !== undefined ? startDate : existingCard.start_date;
+    const nextDueDate = dueDate !== undefined ? dueDate : existingCard.due_date;
+    if (
+      (startDate !== undefined || dueDate !== undefined) &&
+      nextStartDate &&
+      nextDueDate &&
+      new Date(nextStartDate) > new Date(nextDueDate)
+    ) {
+      return NextResponse.json(
+        { error: "Start date must not be after the due date" },
+        { status: 400 },
+      );
+    }
+
+    // If changing column, verify the new column belongs to the same board.
+    // Like a drag on the board (bulk-update), moving into a done column
+    // completes the card, moving out reopens it, and hard WIP limits apply.
     let newColumnTitle: string | null = null;
+    let resolvedCompletedAt = completedAt;
     if (columnId && columnId !== existingCard.column_id) {
-      const { data: newColumn, error: columnError } = await supabase
+      const {
+        data: newColumn,
+        error: columnError,
+      }: PostgrestSingleResponse<ColumnMoveRow> = await supabase
         .from("columns")
-        .select("id, board_id, title")
+        .select("id, board_id, title, is_done, wip_limit, wip_limit_hard")
         .eq("id", columnId)
         .eq("board_id", existingCard.board_id)
         .single();
@@ -160,24 +324,106 @@ export async function PATCH(
           { status: 400 },
         );
       }
-      newColumnTitle =
-        (newColumn as unknown as { title?: string }).title ?? null;
+      newColumnTitle = newColumn.title;
+
+      if (newColumn.wip_limit_hard && newColumn.wip_limit !== null) {
+        const { count, error: countError } = await supabase
+          .from("cards")
+          .select("id", { count: "exact", head: true })
+          .eq("column_id", columnId);
+
+        if (countError) {
+          console.error("Error fetching cards for WIP check:", countError);
+          return NextResponse.json(
+            { error: "Failed to verify WIP limits" },
+            { status: 500 },
+          );
+        }
+        if ((count ?? 0) >= newColumn.wip_limit) {
+          return NextResponse.json(
+            {
+              error: `Column "${newColumnTitle}" has reached its WIP limit of ${newColumn.wip_limit}`,
+              columnId,
+              wipLimit: newColumn.wip_limit,
+            },
+            { status: 409 },
+          );
+        }
+      }
+
+      if (completedAt === undefined) {
+        resolvedCompletedAt = newColumn.is_done
+          ? (existingCard.completed_at ?? new Date().toISOString())
+          : null;
+      }
+    }
+
+    // Next instances of a recurring card are created in this column, so it
+    // must be an open column of the same board.
+    if (recurrenceColumnId) {
+      const { data: recurrenceColumn } = await supabase
+        .from("columns")
+        .select("id, is_done")
+        .eq("id", recurrenceColumnId)
+        .eq("board_id", existingCard.board_id)
+        .single();
+
+      if (
+        !recurrenceColumn ||
+        (recurrenceColumn as { is_done?: boolean }).is_done
+      ) {
+        return NextResponse.json(
+          {
+            error:
+              "Recurrence column must be a column of this board that is not a done column",
+          },
+          { status: 400 },
+        );
+      }
+    }
+
+    // Completing a card with open blockers: a warning, or a hard stop on
+    // boards that enforce dependencies (same as bulk-update)
+    const { blockedCardIds, enforced } = await checkBlockedCompletion(
+      createAdminClient(),
+      existingCard.board_id,
+      resolvedCompletedAt && !existingCard.completed_at ? [cardId] : [],
+    );
+
+    if (enforced) {
+      return NextResponse.json(
+        {
+          error: "This card is blocked by cards that are not completed yet",
+          code: CARD_BLOCKED_ERROR_CODE,
+          cardIds: blockedCardIds,
+        },
+        { status: 409 },
+      );
     }
 
     // Prepare update data
     const updateData: CardUpdateData = {};
     if (title !== undefined) updateData.title = title;
     if (description !== undefined) updateData.description = description;
-    if (assigneeId !== undefined) updateData.assignee_id = assigneeId;
+    if (nextAssigneeIds !== undefined)
+      updateData.assignee_id = nextAssigneeIds[0] ?? null;
+    if (startDate !== undefined)
+      updateData.start_date = startDate
+        ? new Date(startDate).toISOString()
+        : null;
     if (dueDate !== undefined)
       updateData.due_date = dueDate ? new Date(dueDate).toISOString() : null;
     if (priority !== undefined) updateData.priority = priority;
     if (columnId !== undefined) updateData.column_id = columnId;
     if (position !== undefined) updateData.position = position;
-    if (completedAt !== undefined)
-      updateData.completed_at = completedAt
-        ? new Date(completedAt).toISOString()
+    if (resolvedCompletedAt !== undefined)
+      updateData.completed_at = resolvedCompletedAt
+        ? new Date(resolvedCompletedAt).toISOString()
         : null;
+    if (recurrenceRule !== undefined)
+      updateData.recurrence_rule = recurrenceRule;
+    if (recurrenceColumnId !== undefined)
+      updateData.recurrence_column_id = recurrenceColumnId;
 
     // Update the card using Supabase (respects RLS)
     const { data: updatedCard, error: updateError } = await supabase
@@ -195,6 +441,24 @@ export async function PATCH(
       );
     }
 
+    let addedAssigneeIds: string[] = [];
+    if (nextAssigneeIds !== undefined) {
+      const { added, error: assigneesError } = await replaceCardAssignees(
+        supabase,
+        cardId,
+        nextAssigneeIds,
+        previousAssigneeIds,
+      );
+      if (assigneesError) {
+        console.error("Update card assignees error:", assigneesError);
+        return NextResponse.json(
+          { error: "Failed to update card assignees" },
+          { status: 500 },
+        );
+      }
+      addedAssigneeIds = added;
+    }
+
     // Record direct deadline changes in history for full transparency.
     // Only log when the due_date value actually changed.
     if (dueDate !== undefined) {
@@ -222,9 +486,9 @@ export async function PATCH(
     // Fetch board owner once — needed for card_completed notifications.
     let boardOwnerId: string | null = null;
     if (
-      completedAt !== undefined &&
+      resolvedCompletedAt !== undefined &&
       !existingCard.completed_at &&
-      completedAt !== null
+      resolvedCompletedAt !== null
     ) {
       const { data: boardRow } = await supabase
         .from("boards")
@@ -236,13 +500,9 @@ export async function PATCH(
 
     const notifRows: Parameters<typeof createNotifications>[1] = [];
 
-    // card_assigned: assignee changed to a new person who is not the actor
-    if (
-      assigneeId !== undefined &&
-      assigneeId !== null &&
-      assigneeId !== existingCard.assignee_id &&
-      assigneeId !== user.id
-    ) {
+    // card_assigned: every newly added assignee who is not the actor
+    for (const assigneeId of addedAssigneeIds) {
+      if (assigneeId === user.id) continue;
       notifRows.push({
         user_id: assigneeId,
         type: "card_assigned",
@@ -253,7 +513,14 @@ export async function PATCH(
       });
     }
 
-    // deadline_change: due_date changed and the assignee (not the actor) is affected
+    // Assignees other than the actor hear about the events below
+    const otherAssigneeIds = currentAssigneeIds.filter((id) => id !== user.id);
+
+    // Events that watchers of the card, its column or the board also hear
+    // about (on top of the recipients below)
+    const watchedEvents: Omit<NotificationRow, "user_id">[] = [];
+
+    // deadline_change: due_date changed and the assignees are affected
     if (dueDate !== undefined) {
       const prevDate = existingCard.due_date
         ? new Date(existingCard.due_date as string).toISOString()
@@ -261,16 +528,9 @@ export async function PATCH(
       const nextDate = updatedCard.due_date
         ? new Date(updatedCard.due_date).toISOString()
         : null;
-      const currentAssignee =
-        assigneeId !== undefined ? assigneeId : existingCard.assignee_id;
-      if (
-        prevDate !== nextDate &&
-        currentAssignee &&
-        currentAssignee !== user.id
-      ) {
-        notifRows.push({
-          user_id: currentAssignee,
-          type: "deadline_change",
+      if (prevDate !== nextDate) {
+        const event = {
+          type: "deadline_change" as const,
           actor_id: user.id,
           card_id: cardId,
           board_id: existingCard.board_id,
@@ -278,56 +538,157 @@ export async function PATCH(
             previousDueDate: prevDate,
             newDueDate: nextDate,
           },
-        });
+        };
+        watchedEvents.push(event);
+        for (const assigneeId of otherAssigneeIds) {
+          notifRows.push({ ...event, user_id: assigneeId });
+        }
       }
     }
 
-    // card_moved: column changed by someone other than the assignee
-    if (columnId !== undefined && columnId !== existingCard.column_id) {
-      const currentAssigneeId =
-        assigneeId !== undefined ? assigneeId : existingCard.assignee_id;
-      if (currentAssigneeId && currentAssigneeId !== user.id) {
-        notifRows.push({
-          user_id: currentAssigneeId,
-          type: "card_moved",
-          actor_id: user.id,
-          card_id: cardId,
-          board_id: existingCard.board_id,
-          metadata: { columnTitle: newColumnTitle ?? "" },
-        });
+    // card_moved: column changed; assignees other than the actor hear about it
+    const moved = columnId !== undefined && columnId !== existingCard.column_id;
+    if (moved) {
+      const event = {
+        type: "card_moved" as const,
+        actor_id: user.id,
+        card_id: cardId,
+        board_id: existingCard.board_id,
+        metadata: { columnTitle: newColumnTitle ?? "" },
+      };
+      watchedEvents.push(event);
+      for (const assigneeId of otherAssigneeIds) {
+        notifRows.push({ ...event, user_id: assigneeId });
       }
     }
 
-    // card_completed: manual toggle — notify board owner + assignee (not the actor)
+    // card_completed: manual toggle — notify board owner + assignees (not the actor)
     if (
-      completedAt !== undefined &&
-      completedAt !== null &&
+      resolvedCompletedAt !== undefined &&
+      resolvedCompletedAt !== null &&
       !existingCard.completed_at
     ) {
-      const currentAssigneeId =
-        assigneeId !== undefined ? assigneeId : existingCard.assignee_id;
+      const event = {
+        type: "card_completed" as const,
+        actor_id: user.id,
+        card_id: cardId,
+        board_id: existingCard.board_id,
+        metadata: {},
+      };
+      watchedEvents.push(event);
       const recipientIds = new Set<string>();
       if (boardOwnerId && boardOwnerId !== user.id) {
         recipientIds.add(boardOwnerId);
       }
-      if (currentAssigneeId && currentAssigneeId !== user.id) {
-        recipientIds.add(currentAssigneeId);
-      }
+      otherAssigneeIds.forEach((assigneeId) => recipientIds.add(assigneeId));
       for (const recipientId of recipientIds) {
-        notifRows.push({
-          user_id: recipientId,
-          type: "card_completed",
-          actor_id: user.id,
-          card_id: cardId,
-          board_id: existingCard.board_id,
-          metadata: {},
-        });
+        notifRows.push({ ...event, user_id: recipientId });
+      }
+    }
+
+    // Watchers: a move reaches the watchers of both the old and new column
+    if (watchedEvents.length > 0) {
+      const watchers = resolveCardWatchers(
+        await loadBoardWatches(supabase, existingCard.board_id),
+        cardId,
+        moved
+          ? [existingCard.column_id, updatedCard.column_id]
+          : [updatedCard.column_id],
+      );
+      for (const event of watchedEvents) {
+        notifRows.push(
+          ...watcherNotificationRows(
+            watchers,
+            event,
+            notifRows
+              .filter((row) => row.type === event.type)
+              .map((row) => row.user_id),
+          ),
+        );
       }
     }
 
     await createNotifications(createAdminClient(), notifRows);
     // ── End notifications ──────────────────────────────────────────────────
 
+    await recordCardEvents(
+      createAdminClient(),
+      diffCardEvents(
+        { ...existingCard, assignee_ids: previousAssigneeIds },
+        { ...updatedCard, assignee_ids: currentAssigneeIds },
+        {
+          cardId,
+          boardId: existingCard.board_id,
+          actorId: user.id,
+          columnTitles: { after: newColumnTitle },
+        },
+      ),
+    );
+
+    // ── Webhooks (non-throwing, not awaited) ──────────────────────────────
+    const webhookCard = { id: cardId, title: updatedCard.title };
+    if (columnId !== undefined && columnId !== existingCard.column_id) {
+      void dispatchWebhookEvent({
+        type: "card.moved",
+        boardId: existingCard.board_id,
+        actorId: user.id,
+        data: {
+          card: webhookCard,
+          fromColumnId: existingCard.column_id,
+          toColumnId: columnId,
+          toColumnTitle: newColumnTitle,
+        },
+      });
+    }
+    if (
+      resolvedCompletedAt !== undefined &&
+      resolvedCompletedAt !== null &&
+      !existingCard.completed_at
+    ) {
+      void dispatchWebhookEvent({
+        type: "card.completed",
+        boardId: existingCard.board_id,
+        actorId: user.id,
+        data: { card: webhookCard, completedAt: updatedCard.completed_at },
+      });
+    }
+    if (dueDate !== undefined) {
+      const prevDate = existingCard.due_date
+        ? new Date(existingCard.due_date as string).toISOString()
+        : null;
+      const nextDate = updatedCard.due_date
+        ? new Date(updatedCard.due_date).toISOString()
+        : null;
+      if (prevDate !== nextDate) {
+        void dispatchWebhookEvent({
+          type: "deadline.changed",
+          boardId: existingCard.board_id,
+          actorId: user.id,
+          data: {
+            card: webhookCard,
+            previousDueDate: prevDate,
+            newDueDate: nextDate,
+            changeType: "direct",
+          },
+        });
+      }
+    }
+
+    // Completing a recurring card creates its next instance
+    let nextCardId: string | null = null;
+    if (
+      resolvedCompletedAt !== undefined &&
+      resolvedCompletedAt !== null &&
+      !existingCard.completed_at &&
+      updatedCard.recurrence_rule
+    ) {
+      nextCardId = await createNextRecurringCard(
+        supabase,
+        updatedCard as RecurringCardRow,
+        { actorId: user.id, completedAt: updatedCard.completed_at },
+      );
+    }
+
     // Transform response to match expected format
     const transformedCard = {
       id: updatedCard.id,
@@ -336,15 +697,24 @@ export async function PATCH(
       title: updatedCard.title,
       description: updatedCard.description,
       assigneeId: updatedCard.assignee_id,
+      assigneeIds: currentAssigneeIds,
+      startDate: updatedCard.start_date,
       dueDate: updatedCard.due_date,
       priority: updatedCard.priority,
       completedAt: updatedCard.completed_at,
       position: updatedCard.position,
       createdAt: updatedCard.created_at,
       createdBy: updatedCard.created_by,
+      recurrenceRule: updatedCard.recurrence_rule ?? null,
+      recurrenceColumnId: updatedCard.recurrence_column_id ?? null,
+      recurrenceSourceId: updatedCard.recurrence_source_id ?? null,
     };
 
-    return NextResponse.json({ card: transformedCard });
+    return NextResponse.json({
+      card: transformedCard,
+      nextCardId,
+      blockedCardIds,
+    });
   } catch (error) {
     console.error("Update card error:", error);
     return NextResponse.json(
@@ -354,13 +724,16 @@ export async function PATCH(
   }
 }
 
+// DELETE /api/cards/[id] - Move a card to its board's trash
 export async function DELETE(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   const { id } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
     const boardAccessClient = supabase as unknown as BoardAccessClient;
 
     if (!user) {
@@ -405,10 +778,21 @@ export async function DELETE(
       );
     }
 
-    // Delete the card using Supabase (respects RLS)
-    const { error: deleteError } = await supabase
+    // Same roles as the delete policy on cards
+    if (!canManageBoardMembers(authorization.role)) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 },
+      );
+    }
+
+    // Move the card to the trash. RLS hides trashed cards from the caller,
+    // so the update runs with the service role after the check above.
+    const adminClient = createAdminClient();
+    const deletedAt = new Date().toISOString();
+    const { error: deleteError } = await adminClient
       .from("cards")
-      .delete()
+      .update({ deleted_at: deletedAt, deleted_by: user.id })
       .eq("id", cardId);
 
     if (deleteError) {
@@ -419,7 +803,20 @@ export async function DELETE(
       );
     }
 
-    return NextResponse.json({ message: "Card deleted successfully" });
+    // Realtime never delivers the trashed row to other viewers (RLS hides
+    // it); board pages drop the card when this event arrives instead
+    await recordCardEvents(adminClient, [
+      {
+        card_id: cardId,
+        board_id: existingCard.board_id,
+        actor_id: user.id,
+        event_type: "trashed",
+        before: null,
+        after: { deletedAt },
+      },
+    ]);
+
+    return NextResponse.json({ message: "Card moved to trash", deletedAt });
   } catch (error) {
     console.error("Delete card error:", error);
     return NextResponse.json(
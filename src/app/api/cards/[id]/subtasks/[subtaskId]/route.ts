@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { clientCanAccessBoardRow } from "@/lib/board-access";
+import { recordCardEvents, type CardEventRow } from "@/lib/card-events";
 import { z } from "zod";
 
 const patchSubtaskSchema = z.object({
@@ -7,17 +10,39 @@ const patchSubtaskSchema = z.object({
   title: z.string().min(1).max(200).optional(),
 });
 
+type BoardAccessClient = Parameters<typeof clientCanAccessBoardRow>[0];
 type RouteContext = { params: Promise<{ id: string; subtaskId: string }> };
 
+const EXISTING_SUBTASK_SELECT =
+  "id, card_id, title, completed_at, cards(board_id)";
+
+/** The embedded card row, which PostgREST may type as an object or array. */
+function subtaskBoardId(row: { cards: unknown }): string | null {
+  const card = Array.isArray(row.cards) ? row.cards[0] : row.cards;
+  return (card as { board_id?: string } | null)?.board_id ?? null;
+}
+
 export async function PATCH(request: NextRequest, { params }: RouteContext) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     const { id: cardId, subtaskId } = await params;
 
+    if (
+      !(await clientCanAccessBoardRow(
+        supabase as unknown as BoardAccessClient,
+        "cards",
+        cardId,
+      ))
+    ) {
+      return NextResponse.json({ error: "Subtask not found" }, { status: 404 });
+    }
+
     const body = await request.json();
     const validation = patchSubtaskSchema.safeParse(body);
     if (!validation.success) {
@@ -30,7 +55,7 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
     // Fetch the current subtask (RLS verifies board membership)
     const { data: existing, error: fetchError } = await supabase
       .from("card_subtasks")
-      .select("id, card_id, completed_at")
+      .select(EXISTING_SUBTASK_SELECT)
       .eq("id", subtaskId)
       .eq("card_id", cardId)
       .is("deleted_at", null)
@@ -66,6 +91,31 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
       );
     }
 
+    const boardId = subtaskBoardId(existing);
+    if (boardId) {
+      const base = { card_id: cardId, board_id: boardId, actor_id: user.id };
+      const eventRows: CardEventRow[] = [];
+      if (subtask.title !== existing.title) {
+        eventRows.push({
+          ...base,
+          event_type: "subtask_renamed",
+          before: { id: subtaskId, title: existing.title },
+          after: { id: subtaskId, title: subtask.title },
+        });
+      }
+      if (!existing.completed_at !== !subtask.completed_at) {
+        eventRows.push({
+          ...base,
+          event_type: subtask.completed_at
+            ? "subtask_completed"
+            : "subtask_reopened",
+          before: null,
+          after: { id: subtaskId, title: subtask.title },
+        });
+      }
+      await recordCardEvents(createAdminClient(), eventRows);
+    }
+
     return NextResponse.json({
       subtask: {
         id: subtask.id,
@@ -87,13 +137,33 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
 
 export async function DELETE(_request: NextRequest, { params }: RouteContext) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     const { id: cardId, subtaskId } = await params;
 
+    if (
+      !(await clientCanAccessBoardRow(
+        supabase as unknown as BoardAccessClient,
+        "cards",
+        cardId,
+      ))
+    ) {
+      return NextResponse.json({ error: "Subtask not found" }, { status: 404 });
+    }
+
+    const { data: existing } = await supabase
+      .from("card_subtasks")
+      .select(EXISTING_SUBTASK_SELECT)
+      .eq("id", subtaskId)
+      .eq("card_id", cardId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
     const { error } = await supabase
       .from("card_subtasks")
       .update({ deleted_at: new Date().toISOString() })
@@ -109,6 +179,20 @@ export async function DELETE(_request: NextRequest, { params }: RouteContext) {
       );
     }
 
+    const boardId = existing ? subtaskBoardId(existing) : null;
+    if (existing && boardId) {
+      await recordCardEvents(createAdminClient(), [
+        {
+          card_id: cardId,
+          board_id: boardId,
+          actor_id: user.id,
+          event_type: "subtask_deleted",
+          before: { id: subtaskId, title: existing.title },
+          after: null,
+        },
+      ]);
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Delete subtask error:", error);
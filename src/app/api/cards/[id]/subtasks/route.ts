@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
+import { recordCardEvents } from "@/lib/card-events";
 import { z } from "zod";
 
 const createSubtaskSchema = z.object({
@@ -11,7 +14,7 @@ type RouteContext = { params: Promise<{ id: string }> };
 
 export async function GET(_request: NextRequest, { params }: RouteContext) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -21,11 +24,11 @@ export async function GET(_request: NextRequest, { params }: RouteContext) {
     // Verify card exists and user has board access (RLS)
     const { data: card, error: cardError } = await supabase
       .from("cards")
-      .select("id")
+      .select("id, board_id")
       .eq("id", cardId)
       .single();
 
-    if (cardError || !card) {
+    if (cardError || !card || !clientCanAccessBoard(supabase, card.board_id)) {
       return NextResponse.json(
         { error: "Card not found or access denied" },
         { status: 404 },
@@ -69,7 +72,9 @@ export async function GET(_request: NextRequest, { params }: RouteContext) {
 
 export async function POST(request: NextRequest, { params }: RouteContext) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -79,11 +84,11 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
     // Verify card exists and user has non-viewer board access (RLS will enforce)
     const { data: card, error: cardError } = await supabase
       .from("cards")
-      .select("id")
+      .select("id, board_id")
       .eq("id", cardId)
       .single();
 
-    if (cardError || !card) {
+    if (cardError || !card || !clientCanAccessBoard(supabase, card.board_id)) {
       return NextResponse.json(
         { error: "Card not found or access denied" },
         { status: 404 },
@@ -115,6 +120,17 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
       );
     }
 
+    await recordCardEvents(createAdminClient(), [
+      {
+        card_id: cardId,
+        board_id: card.board_id,
+        actor_id: user.id,
+        event_type: "subtask_added",
+        before: null,
+        after: { id: subtask.id, title: subtask.title },
+      },
+    ]);
+
     return NextResponse.json(
       {
         subtask: {
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
+import {
+  resolveCardWatchers,
+  toWatch,
+  watchScope,
+  WATCH_SELECT,
+  type WatchRow,
+} from "@/lib/watchers";
+
+type WatcherUserRow = {
+  id: string;
+  name: string | null;
+  email: string;
+  avatar_url: string | null;
+};
+
+type WatchWithUserRow = WatchRow & {
+  users: WatcherUserRow | WatcherUserRow[] | null;
+};
+
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// GET /api/cards/[id]/watchers — everyone watching the card directly or
+// through its column or board, plus the caller's own watch
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: cardId } = await params;
+    if (!uuidRegex.test(cardId)) {
+      return NextResponse.json(
+        { error: "Invalid card ID format" },
+        { status: 400 },
+      );
+    }
+
+    // Verify card exists and user has board access (RLS)
+    const { data: card, error: cardError } = await supabase
+      .from("cards")
+      .select("id, board_id, column_id")
+      .eq("id", cardId)
+      .single();
+
+    if (cardError || !card || !clientCanAccessBoard(supabase, card.board_id)) {
+      return NextResponse.json(
+        { error: "Card not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("watchers")
+      .select(`${WATCH_SELECT}, users(id, name, email, avatar_url)`)
+      .eq("board_id", card.board_id);
+
+    if (error) {
+      console.error("Get card watchers error:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch watchers" },
+        { status: 500 },
+      );
+    }
+
+    const watchers = resolveCardWatchers(
+      (data ?? []) as WatchWithUserRow[],
+      cardId,
+      [card.column_id],
+    );
+    const own = watchers.get(user.id);
+
+    return NextResponse.json({
+      watchers: [...watchers.values()].flatMap((watch) => {
+        const users = (watch as WatchWithUserRow).users;
+        const watcher = Array.isArray(users) ? users[0] : users;
+        if (!watcher) return [];
+        return [
+          {
+            id: watcher.id,
+            name: watcher.name,
+            email: watcher.email,
+            avatarUrl: watcher.avatar_url,
+            scope: watchScope(watch),
+          },
+        ];
+      }),
+      watch: own ? toWatch(own) : null,
+    });
+  } catch (error) {
+    console.error("Get card watchers error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { z } from "zod";
+
+type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
+
+const bulkLabelsSchema = z
+  .object({
+    cardIds: z
+      .array(z.string().uuid("Card ID must be a valid UUID"))
+      .min(1, "At least one card is required")
+      .max(200, "Too many cards"),
+    addLabelIds: z
+      .array(z.string().uuid("Label ID must be a valid UUID"))
+      .default([]),
+    removeLabelIds: z
+      .array(z.string().uuid("Label ID must be a valid UUID"))
+      .default([]),
+  })
+  .refine(
+    (v) => v.addLabelIds.length > 0 || v.removeLabelIds.length > 0,
+    "Provide addLabelIds and/or removeLabelIds",
+  )
+  .refine(
+    (v) => !v.addLabelIds.some((id) => v.removeLabelIds.includes(id)),
+    "A label cannot be added and removed in the same request",
+  );
+
+// POST /api/cards/bulk-labels — add/remove labels on many cards of one board
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = bulkLabelsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const cardIds = [...new Set(validation.data.cardIds)];
+    const addLabelIds = [...new Set(validation.data.addLabelIds)];
+    const removeLabelIds = [...new Set(validation.data.removeLabelIds)];
+
+    const { data: cards, error: cardsError } = await supabase
+      .from("cards")
+      .select("id, board_id")
+      .in("id", cardIds);
+
+    if (cardsError) {
+      console.error("Error fetching cards for bulk labels:", cardsError);
+      return NextResponse.json(
+        { error: "Failed to verify cards" },
+        { status: 500 },
+      );
+    }
+
+    if (cards.length !== cardIds.length) {
+      return NextResponse.json(
+        { error: "Some cards not found or access denied" },
+        { status: 404 },
+      );
+    }
+
+    const boardIds = [...new Set(cards.map((card) => card.board_id))];
+
+    if (boardIds.length !== 1) {
+      return NextResponse.json(
+        { error: "All cards must belong to the same board" },
+        { status: 400 },
+      );
+    }
+
+    const boardId = boardIds[0]!;
+
+    const authorization = await getBoardMutationAuthorization(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    const allLabelIds = [...addLabelIds, ...removeLabelIds];
+    const { data: labels, error: labelsError } = await supabase
+      .from("labels")
+      .select("id")
+      .in("id", allLabelIds)
+      .eq("board_id", boardId);
+
+    if (labelsError || !labels || labels.length !== allLabelIds.length) {
+      return NextResponse.json(
+        { error: "Some labels not found or do not belong to this board" },
+        { status: 400 },
+      );
+    }
+
+    if (removeLabelIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from("card_labels")
+        .delete()
+        .in("card_id", cardIds)
+        .in("label_id", removeLabelIds);
+
+      if (deleteError) {
+        console.error("Bulk remove card labels error:", deleteError);
+        return NextResponse.json(
+          { error: "Failed to remove labels" },
+          { status: 500 },
+        );
+      }
+    }
+
+    if (addLabelIds.length > 0) {
+      const rows = cardIds.flatMap((cardId) =>
+        addLabelIds.map((labelId) => ({ card_id: cardId, label_id: labelId })),
+      );
+      const { error: insertError } = await supabase
+        .from("card_labels")
+        .upsert(rows, {
+          onConflict: "card_id,label_id",
+          ignoreDuplicates: true,
+        });
+
+      if (insertError) {
+        console.error("Bulk add card labels error:", insertError);
+        return NextResponse.json(
+          { error: "Failed to add labels" },
+          { status: 500 },
+        );
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      updatedCount: cardIds.length,
+    });
+  } catch (error) {
+    console.error("Bulk card labels error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -25,7 +25,9 @@ const bulkReorderSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
     const boardAccessClient = supabase as unknown as BoardAccessClient;
 
     if (!user) {
@@ -1,9 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
+import type { PostgrestResponse } from "@supabase/supabase-js";
 import { getAuthorizedUser } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { getBoardMutationAuthorization } from "@/lib/board-access";
-import { createNotifications } from "@/lib/notifications";
+import { createNotifications, type NotificationRow } from "@/lib/notifications";
+import { recordCardEvents, type CardEventRow } from "@/lib/card-events";
+import { loadCardAssigneeIds } from "@/lib/card-assignees";
+import { dispatchWebhookEvent } from "@/lib/webhooks/delivery";
+import {
+  createNextRecurringCard,
+  RECURRING_CARD_SELECT,
+  type RecurringCardRow,
+} from "@/lib/card-recurrence";
+import {
+  CARD_BLOCKED_ERROR_CODE,
+  checkBlockedCompletion,
+} from "@/lib/card-dependencies";
+import {
+  loadBoardWatches,
+  resolveCardWatchers,
+  watcherNotificationRows,
+} from "@/lib/watchers";
 import { z } from "zod";
+import type { ColumnMoveRow } from "@/types/database";
 
 type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
 
@@ -25,7 +44,9 @@ const bulkUpdateSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
     const boardAccessClient = supabase as unknown as BoardAccessClient;
 
     if (!user) {
@@ -53,7 +74,7 @@ export async function POST(request: NextRequest) {
 
     const { data: cards, error: cardsError } = await supabase
       .from("cards")
-      .select("id, board_id, assignee_id, completed_at, column_id")
+      .select(`${RECURRING_CARD_SELECT}, completed_at, column_id`)
       .in("id", cardIds);
 
     if (cardsError) {
@@ -83,9 +104,12 @@ export async function POST(request: NextRequest) {
     const boardId = boardIds[0];
     const columnIds = [...new Set(updates.map((update) => update.columnId))];
 
-    const { data: columns, error: columnsError } = await supabase
+    const {
+      data: columns,
+      error: columnsError,
+    }: PostgrestResponse<ColumnMoveRow> = await supabase
       .from("columns")
-      .select("id, board_id, is_done, title")
+      .select("id, board_id, is_done, title, wip_limit, wip_limit_hard")
       .in("id", columnIds)
       .eq("board_id", boardId);
 
@@ -117,18 +141,60 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Hard WIP limits: reject moves that would push a column over its limit.
+    // Reordering inside a column that is already over the limit stays allowed.
+    const hardLimitColumns = columns.filter(
+      (col): col is ColumnMoveRow & { wip_limit: number } =>
+        col.wip_limit_hard && col.wip_limit !== null,
+    );
+
+    if (hardLimitColumns.length > 0) {
+      const { data: columnCards, error: columnCardsError } = await supabase
+        .from("cards")
+        .select("id, column_id")
+        .in(
+          "column_id",
+          hardLimitColumns.map((col) => col.id),
+        );
+
+      if (columnCardsError) {
+        console.error("Error fetching cards for WIP check:", columnCardsError);
+        return NextResponse.json(
+          { error: "Failed to verify WIP limits" },
+          { status: 500 },
+        );
+      }
+
+      const movingIds = new Set(cardIds);
+      const sourceColumnById = new Map(cards.map((c) => [c.id, c.column_id]));
+      for (const col of hardLimitColumns) {
+        const incoming = updates.filter((u) => u.columnId === col.id);
+        const movesIn = incoming.some(
+          (u) => sourceColumnById.get(u.id) !== col.id,
+        );
+        if (!movesIn) continue;
+        const staying = (columnCards ?? []).filter(
+          (c) => c.column_id === col.id && !movingIds.has(c.id),
+        ).length;
+        if (staying + incoming.length > col.wip_limit) {
+          return NextResponse.json(
+            {
+              error: `Column "${col.title}" has reached its WIP limit of ${col.wip_limit}`,
+              columnId: col.id,
+              wipLimit: col.wip_limit,
+            },
+            { status: 409 },
+          );
+        }
+      }
+    }
+
     // Build maps of columnId → is_done and columnId → title
     const columnDoneMap = new Map<number, boolean>(
-      columns.map((col) => [
-        col.id,
-        (col as unknown as { is_done?: boolean }).is_done ?? false,
-      ]),
+      columns.map((col) => [col.id, col.is_done]),
     );
     const columnTitleMap = new Map<number, string>(
-      columns.map((col) => [
-        col.id,
-        (col as unknown as { title?: string }).title ?? "",
-      ]),
+      columns.map((col) => [col.id, col.title]),
     );
 
     const now = new Date().toISOString();
@@ -136,6 +202,31 @@ export async function POST(request: NextRequest) {
     // Pre-build a map of cardId → existing card data for notification logic
     const existingCardMap = new Map(cards.map((c) => [c.id, c]));
 
+    // Cards with open blockers: a warning, or a hard stop on boards that
+    // enforce dependencies
+    const { blockedCardIds, enforced } = await checkBlockedCompletion(
+      createAdminClient(),
+      boardId!,
+      updates
+        .filter(
+          (update) =>
+            (columnDoneMap.get(update.columnId) ?? false) &&
+            !existingCardMap.get(update.id)?.completed_at,
+        )
+        .map((update) => update.id),
+    );
+
+    if (enforced) {
+      return NextResponse.json(
+        {
+          error: "Some cards are blocked by cards that are not completed yet",
+          code: CARD_BLOCKED_ERROR_CODE,
+          cardIds: blockedCardIds,
+        },
+        { status: 409 },
+      );
+    }
+
     // Fetch board owner for card_completed notifications
     const { data: boardRow } = await supabase
       .from("boards")
@@ -169,51 +260,164 @@ export async function POST(request: NextRequest) {
 
     // Fire notifications for each moved card
     const notifRows: Parameters<typeof createNotifications>[1] = [];
-    for (const update of updates) {
+    const movedUpdates = updates.filter((update) => {
       const existing = existingCardMap.get(update.id);
-      if (!existing) continue;
-
-      const assigneeId = (existing as { assignee_id?: string | null })
-        .assignee_id;
-      const columnChanged = existing.column_id !== update.columnId;
-      if (!columnChanged) continue; // position-only reorder — no notification
+      // position-only reorder — no notification
+      return existing && existing.column_id !== update.columnId;
+    });
+    // Watchers of the card, its old or new column, or the board
+    const boardWatches =
+      movedUpdates.length > 0 ? await loadBoardWatches(supabase, boardId!) : [];
+    const assigneesByCard = await loadCardAssigneeIds(
+      supabase,
+      movedUpdates.map((update) => existingCardMap.get(update.id)!),
+    );
+    for (const update of movedUpdates) {
+      const existing = existingCardMap.get(update.id)!;
 
+      const assigneeIds = (assigneesByCard.get(update.id) ?? []).filter(
+        (id) => id !== user.id,
+      );
       const isDone = columnDoneMap.get(update.columnId) ?? false;
+      const cardRows: NotificationRow[] = [];
+      let event: Omit<NotificationRow, "user_id">;
 
       if (isDone && !existing.completed_at) {
         // Card newly moved into a done column → card_completed
-        // Notify board owner + assignee (not the actor)
+        // Notify board owner + assignees (not the actor)
+        event = {
+          type: "card_completed",
+          actor_id: user.id,
+          card_id: update.id,
+          board_id: boardId!,
+          metadata: {},
+        };
         const recipientIds = new Set<string>();
         if (boardOwnerId && boardOwnerId !== user.id)
           recipientIds.add(boardOwnerId);
-        if (assigneeId && assigneeId !== user.id) recipientIds.add(assigneeId);
+        assigneeIds.forEach((assigneeId) => recipientIds.add(assigneeId));
         for (const recipientId of recipientIds) {
-          notifRows.push({
-            user_id: recipientId,
-            type: "card_completed",
-            actor_id: user.id,
-            card_id: update.id,
-            board_id: boardId!,
-            metadata: {},
-          });
+          cardRows.push({ ...event, user_id: recipientId });
         }
-      } else if (assigneeId && assigneeId !== user.id) {
-        // Card moved to any other column → card_moved (assignee only)
-        notifRows.push({
-          user_id: assigneeId,
+      } else {
+        // Card moved to any other column → card_moved (assignees only)
+        event = {
           type: "card_moved",
           actor_id: user.id,
           card_id: update.id,
           board_id: boardId!,
           metadata: { columnTitle: columnTitleMap.get(update.columnId) ?? "" },
-        });
+        };
+        for (const assigneeId of assigneeIds) {
+          cardRows.push({ ...event, user_id: assigneeId });
+        }
       }
+
+      const watchers = resolveCardWatchers(boardWatches, update.id, [
+        existing.column_id,
+        update.columnId,
+      ]);
+      cardRows.push(
+        ...watcherNotificationRows(
+          watchers,
+          event,
+          cardRows.map((row) => row.user_id),
+        ),
+      );
+      notifRows.push(...cardRows);
     }
     await createNotifications(createAdminClient(), notifRows);
 
+    // Activity history: column moves plus the completion state they imply
+    const eventRows: CardEventRow[] = [];
+    for (const update of updates) {
+      const existing = existingCardMap.get(update.id);
+      if (!existing) continue;
+      const base = {
+        card_id: update.id,
+        board_id: boardId!,
+        actor_id: user.id,
+      };
+      if (existing.column_id !== update.columnId) {
+        eventRows.push({
+          ...base,
+          event_type: "moved",
+          before: { columnId: existing.column_id, columnTitle: null },
+          after: {
+            columnId: update.columnId,
+            columnTitle: columnTitleMap.get(update.columnId) ?? null,
+          },
+        });
+      }
+      const isDone = columnDoneMap.get(update.columnId) ?? false;
+      if (isDone && !existing.completed_at) {
+        eventRows.push({
+          ...base,
+          event_type: "completed",
+          before: null,
+          after: now,
+        });
+      } else if (!isDone && existing.completed_at) {
+        eventRows.push({
+          ...base,
+          event_type: "reopened",
+          before: existing.completed_at,
+          after: null,
+        });
+      }
+    }
+    await recordCardEvents(createAdminClient(), eventRows);
+
+    // Webhooks for cards that changed column (non-throwing, not awaited)
+    for (const update of updates) {
+      const existing = existingCardMap.get(update.id);
+      if (!existing || existing.column_id === update.columnId) continue;
+      const webhookCard = { id: update.id, title: existing.title };
+      void dispatchWebhookEvent({
+        type: "card.moved",
+        boardId: boardId!,
+        actorId: user.id,
+        data: {
+          card: webhookCard,
+          fromColumnId: existing.column_id,
+          toColumnId: update.columnId,
+          toColumnTitle: columnTitleMap.get(update.columnId) ?? null,
+        },
+      });
+      if (
+        (columnDoneMap.get(update.columnId) ?? false) &&
+        !existing.completed_at
+      ) {
+        void dispatchWebhookEvent({
+          type: "card.completed",
+          boardId: boardId!,
+          actorId: user.id,
+          data: { card: webhookCard, completedAt: now },
+        });
+      }
+    }
+
+    // Completed recurring cards get their next instance, one at a time so
+    // each lands at the end of its column
+    for (const update of updates) {
+      const existing = existingCardMap.get(update.id);
+      if (
+        !existing?.recurrence_rule ||
+        existing.completed_at ||
+        !(columnDoneMap.get(update.columnId) ?? false)
+      ) {
+        continue;
+      }
+      await createNextRecurringCard(supabase, existing as RecurringCardRow, {
+        actorId: user.id,
+        completedAt: now,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       updatedCount: updates.length,
+      blockedCardIds,
     });
   } catch (error) {
     console.error("Bulk update cards error:", error);
@@ -1,27 +1,291 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthorizedUser } from "@/lib/supabase/server";
-import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  getBoardMutationAuthorization,
+  getBoardRoleForUser,
+} from "@/lib/board-access";
+import { getTokenRestrictions } from "@/lib/api-tokens/scopes";
+import {
+  afterCursorFilter,
+  decodeCursor,
+  encodeCursor,
+} from "@/lib/api/cursor";
+import {
+  CARD_QUERY_SELECT,
+  CARD_READ_SELECT,
+  getCardQueryMembers,
+  toCardQuerySubject,
+  transformCardRow,
+  type CardQueryRow,
+  type CardReadRow,
+} from "@/lib/card-payload";
+import {
+  describeCardQueryError,
+  matchesCardQuery,
+  parseCardQuery,
+} from "@/lib/card-query";
+import {
+  assigneeIdsSchema,
+  replaceCardAssignees,
+  resolveAssigneeInput,
+} from "@/lib/card-assignees";
+import { recurrenceRuleSchema } from "@/lib/card-recurrence";
+import { createNotifications } from "@/lib/notifications";
+import { dispatchWebhookEvent } from "@/lib/webhooks/delivery";
+import { autoWatchCard } from "@/lib/watchers";
 import { z } from "zod";
 
 type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
 
-const createCardSchema = z.object({
-  boardId: z.string().uuid("Board ID must be a valid UUID"),
-  columnId: z.number().int().positive("Column ID must be a positive integer"),
-  title: z
-    .string()
-    .min(1, "Card title is required")
-    .max(160, "Card title too long"),
-  description: z.string().optional(),
-  assigneeId: z.string().optional(),
-  dueDate: z.string().datetime().optional(),
-  priority: z.enum(["high", "medium", "low"]).default("medium"),
-  position: z.number().int().optional(),
+const createCardSchema = z
+  .object({
+    boardId: z.string().uuid("Board ID must be a valid UUID"),
+    columnId: z.number().int().positive("Column ID must be a positive integer"),
+    title: z
+      .string()
+      .min(1, "Card title is required")
+      .max(160, "Card title too long"),
+    description: z.string().optional(),
+    assigneeId: z.string().optional(),
+    // Everyone the card is assigned to; the first is the primary assignee
+    assigneeIds: assigneeIdsSchema.optional(),
+    startDate: z.string().datetime().optional(),
+    dueDate: z.string().datetime().optional(),
+    priority: z.enum(["high", "medium", "low"]).default("medium"),
+    position: z.number().int().optional(),
+    recurrenceRule: recurrenceRuleSchema.optional(),
+    recurrenceColumnId: z
+      .number()
+      .int()
+      .positive("Recurrence column ID must be a positive integer")
+      .optional(),
+  })
+  .refine(
+    ({ startDate, dueDate }) =>
+      !startDate || !dueDate || new Date(startDate) <= new Date(dueDate),
+    {
+      message: "Start date must not be after the due date",
+      path: ["startDate"],
+    },
+  );
+
+const listCardsSchema = z.object({
+  boardId: z.string().uuid("Board ID must be a valid UUID").optional(),
+  columnId: z.coerce
+    .number()
+    .int()
+    .positive("Column ID must be a positive integer")
+    .optional(),
+  assigneeId: z.string().min(1).optional(),
+  priority: z.enum(["high", "medium", "low"]).optional(),
+  dueBefore: z.string().datetime({ offset: true }).optional(),
+  updatedSince: z.string().datetime({ offset: true }).optional(),
+  q: z.string().trim().max(500).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
 });
 
+// A card query (`q`) is evaluated on the server after loading; cards are
+// scanned in batches until the page is full or the scan budget is spent.
+const QUERY_BATCH_SIZE = 200;
+const MAX_QUERY_BATCHES = 10;
+
+// `assigneeId` matches any assignee. It filters a second embed so that
+// `card_assignees` in the response still lists all of them.
+const ASSIGNEE_FILTER_SELECT = "assignee_filter:card_assignees!inner(user_id)";
+
+// GET /api/cards - List cards across the caller's boards, oldest first.
+// Paginated with an opaque `cursor`; `nextCursor` is null on the last page.
+// With `q` a page may hold fewer than `limit` cards while `nextCursor` is
+// still set: the scan stopped early and continues from there.
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:read",
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = listCardsSchema.safeParse(
+      Object.fromEntries(searchParams.entries()),
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const {
+      boardId,
+      columnId,
+      assigneeId,
+      priority,
+      dueBefore,
+      updatedSince,
+      q,
+      cursor: rawCursor,
+      limit,
+    } = validation.data;
+
+    const cardQuery = q ? parseCardQuery(q) : null;
+    if (cardQuery && cardQuery.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Invalid query",
+          details: cardQuery.errors.map((queryError) => ({
+            ...queryError,
+            message: describeCardQueryError(queryError),
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+    if (rawCursor && !cursor) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    if (boardId) {
+      const role = await getBoardRoleForUser(
+        supabase as unknown as BoardAccessClient,
+        boardId,
+        user.id,
+      );
+      if (!role) {
+        return NextResponse.json(
+          { error: "Board not found or access denied" },
+          { status: 404 },
+        );
+      }
+    }
+
+    const restrictedBoardIds = boardId
+      ? null
+      : getTokenRestrictions(supabase)?.boardIds;
+
+    // RLS limits rows to boards the user is a member of
+    const fetchCards = (after: typeof cursor, batchSize: number) => {
+      const select = cardQuery ? CARD_QUERY_SELECT : CARD_READ_SELECT;
+      let query = supabase
+        .from("cards")
+        .select(assigneeId ? `${select}, ${ASSIGNEE_FILTER_SELECT}` : select);
+
+      if (boardId) query = query.eq("board_id", boardId);
+      else if (restrictedBoardIds) {
+        query = query.in("board_id", restrictedBoardIds);
+      }
+      if (columnId !== undefined) query = query.eq("column_id", columnId);
+      if (assigneeId) {
+        query = query.eq("assignee_filter.user_id", assigneeId);
+      }
+      if (priority) query = query.eq("priority", priority);
+      if (dueBefore) query = query.lt("due_date", dueBefore);
+      if (updatedSince) query = query.gte("updated_at", updatedSince);
+      if (after) query = query.or(afterCursorFilter(after));
+
+      return query
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .limit(batchSize);
+    };
+
+    let page: CardReadRow[];
+    let nextCursor: string | null = null;
+
+    if (!cardQuery) {
+      // Fetch one extra row to know whether another page exists
+      const { data, error } = await fetchCards(cursor, limit + 1);
+
+      if (error) {
+        console.error("List cards error:", error);
+        return NextResponse.json(
+          { error: "Failed to fetch cards" },
+          { status: 500 },
+        );
+      }
+
+      const rows = (data ?? []) as unknown as CardReadRow[];
+      page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+      nextCursor =
+        rows.length > limit && last
+          ? encodeCursor({ createdAt: last.created_at, id: last.id })
+          : null;
+    } else {
+      const today = new Date().toISOString().slice(0, 10);
+      page = [];
+      let scanCursor = cursor;
+      let lastScanned: CardReadRow | null = null;
+      let exhausted = false;
+
+      for (let batch = 0; batch < MAX_QUERY_BATCHES; batch++) {
+        const { data, error } = await fetchCards(scanCursor, QUERY_BATCH_SIZE);
+
+        if (error) {
+          console.error("List cards error:", error);
+          return NextResponse.json(
+            { error: "Failed to fetch cards" },
+            { status: 500 },
+          );
+        }
+
+        const rows = (data ?? []) as unknown as CardQueryRow[];
+        const context = {
+          currentUserId: user.id,
+          today,
+          members: getCardQueryMembers(rows),
+        };
+        for (const row of rows) {
+          lastScanned = row;
+          if (matchesCardQuery(toCardQuerySubject(row), cardQuery, context)) {
+            page.push(row);
+            if (page.length === limit) break;
+          }
+        }
+        if (page.length === limit) break;
+        if (rows.length < QUERY_BATCH_SIZE) {
+          exhausted = true;
+          break;
+        }
+        scanCursor = lastScanned
+          ? { createdAt: lastScanned.created_at, id: lastScanned.id }
+          : null;
+      }
+
+      nextCursor =
+        !exhausted && lastScanned
+          ? encodeCursor({
+              createdAt: lastScanned.created_at,
+              id: lastScanned.id,
+            })
+          : null;
+    }
+
+    return NextResponse.json({
+      cards: page.map(transformCardRow),
+      nextCursor,
+    });
+  } catch (error) {
+    console.error("List cards error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
 
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -43,11 +307,14 @@ export async function POST(request: NextRequest) {
       columnId,
       title,
       description,
-      assigneeId,
+      startDate,
       dueDate,
       priority,
       position,
+      recurrenceRule,
+      recurrenceColumnId,
     } = validation.data;
+    const assigneeIds = resolveAssigneeInput(validation.data) ?? [];
 
     const boardAccessClient = supabase as unknown as BoardAccessClient;
     const authorization = await getBoardMutationAuthorization(
@@ -78,6 +345,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (recurrenceColumnId) {
+      const { data: recurrenceColumn } = await supabase
+        .from("columns")
+        .select("id, is_done")
+        .eq("id", recurrenceColumnId)
+        .eq("board_id", boardId)
+        .single();
+
+      if (
+        !recurrenceColumn ||
+        (recurrenceColumn as { is_done?: boolean }).is_done
+      ) {
+        return NextResponse.json(
+          {
+            error:
+              "Recurrence column must be a column of this board that is not a done column",
+          },
+          { status: 400 },
+        );
+      }
+    }
+
     // If no position provided, get the next position in the column
     let finalPosition = position;
     if (!finalPosition) {
@@ -99,11 +388,14 @@ export async function POST(request: NextRequest) {
         column_id: columnId,
         title,
         description: description || null,
-        assignee_id: assigneeId || null,
+        assignee_id: assigneeIds[0] ?? null,
+        start_date: startDate ? new Date(startDate).toISOString() : null,
         due_date: dueDate ? new Date(dueDate).toISOString() : null,
         priority: priority || "medium",
         position: finalPosition,
         created_by: user.id,
+        recurrence_rule: recurrenceRule ?? null,
+        recurrence_column_id: recurrenceColumnId ?? null,
       })
       .select("*")
       .single();
@@ -116,6 +408,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The primary assignee is added by a trigger, the others here. The card
+    // stands if that fails; it is then assigned to the primary only.
+    let savedAssigneeIds = assigneeIds;
+    if (assigneeIds.length > 1) {
+      const { error: assigneesError } = await replaceCardAssignees(
+        supabase,
+        newCard.id,
+        assigneeIds,
+        [],
+      );
+      if (assigneesError) {
+        console.error("Create card assignees error:", assigneesError);
+        savedAssigneeIds = assigneeIds.slice(0, 1);
+      }
+    }
+
     // Transform response to match expected format
     const transformedCard = {
       id: newCard.id,
@@ -124,11 +432,15 @@ export async function POST(request: NextRequest) {
       title: newCard.title,
       description: newCard.description,
       assigneeId: newCard.assignee_id,
+      assigneeIds: savedAssigneeIds,
+      startDate: newCard.start_date,
       dueDate: newCard.due_date,
       priority: newCard.priority,
       position: newCard.position,
       createdAt: newCard.created_at,
       createdBy: newCard.created_by,
+      recurrenceRule: newCard.recurrence_rule ?? null,
+      recurrenceColumnId: newCard.recurrence_column_id ?? null,
       labels: [],
       comments: [],
     };
@@ -146,6 +458,45 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // card_assigned for everyone assigned to the new card but its creator
+    const assignedRows = savedAssigneeIds
+      .filter((assigneeId) => assigneeId !== user.id)
+      .map((assigneeId) => ({
+        user_id: assigneeId,
+        type: "card_assigned" as const,
+        actor_id: user.id,
+        card_id: newCard.id,
+        board_id: newCard.board_id,
+        metadata: {},
+      }));
+    if (assignedRows.length > 0) {
+      await createNotifications(createAdminClient(), assignedRows);
+    }
+
+    // The creator watches the new card
+    await autoWatchCard(supabase, user.id, {
+      id: newCard.id,
+      boardId: newCard.board_id,
+    });
+
+    // Not awaited: webhook receivers must not slow down the response
+    void dispatchWebhookEvent({
+      type: "card.created",
+      boardId: newCard.board_id,
+      actorId: user.id,
+      data: {
+        card: {
+          id: newCard.id,
+          title: newCard.title,
+          columnId: newCard.column_id,
+          assigneeId: newCard.assignee_id,
+          assigneeIds: savedAssigneeIds,
+          dueDate: newCard.due_date,
+          priority: newCard.priority,
+        },
+      },
+    });
+
     return NextResponse.json({ card: transformedCard }, { status: 201 });
   } catch (error) {
     console.error("Create card error:", error);
@@ -0,0 +1,231 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { ZodError } from "zod";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { BoardSyncChangesetSchema } from "@/lib/api/changeset-schema";
+import { withIdempotency } from "@/lib/api/idempotency";
+import { rateLimit } from "@/lib/api/rate-limit";
+import {
+  diffCardEvents,
+  recordCardEvents,
+  type CardEventRow,
+} from "@/lib/card-events";
+import { dispatchWebhookEvent } from "@/lib/webhooks/delivery";
+
+type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
+
+type ChangesetCardRow = {
+  id: string;
+  title: string;
+  description: string | null;
+  assignee_id: string | null;
+  priority: string;
+  due_date: string | null;
+  column_id: number;
+  completed_at: string | null;
+};
+
+/** A card the RPC created or updated, as listed in its `changes` array. */
+type ChangesetCardChange = {
+  id: string;
+  status: "created" | "updated";
+  columnTitle: string;
+  before: ChangesetCardRow | null;
+  after: ChangesetCardRow;
+};
+
+function toIso(value: string | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+// Card history and webhooks for the cards a changeset wrote, matching what
+// POST /api/cards and PATCH /api/cards/[id] record for the same changes.
+// The deadline history is written by the RPC itself.
+async function recordChangesetCardChanges(
+  changes: ChangesetCardChange[],
+  boardId: string,
+  actorId: string,
+) {
+  const events: CardEventRow[] = [];
+  for (const { before, after, columnTitle } of changes) {
+    const webhookCard = { id: after.id, title: after.title };
+    if (!before) {
+      void dispatchWebhookEvent({
+        type: "card.created",
+        boardId,
+        actorId,
+        data: {
+          card: {
+            ...webhookCard,
+            columnId: after.column_id,
+            assigneeId: after.assignee_id,
+            assigneeIds: after.assignee_id ? [after.assignee_id] : [],
+            dueDate: after.due_date,
+            priority: after.priority,
+          },
+        },
+      });
+      continue;
+    }
+
+    events.push(
+      ...diffCardEvents(before, after, {
+        cardId: after.id,
+        boardId,
+        actorId,
+        columnTitles: { after: columnTitle },
+      }),
+    );
+    if (before.column_id !== after.column_id) {
+      void dispatchWebhookEvent({
+        type: "card.moved",
+        boardId,
+        actorId,
+        data: {
+          card: webhookCard,
+          fromColumnId: before.column_id,
+          toColumnId: after.column_id,
+          toColumnTitle: columnTitle,
+        },
+      });
+    }
+    if (!before.completed_at && after.completed_at) {
+      void dispatchWebhookEvent({
+        type: "card.completed",
+        boardId,
+        actorId,
+        data: { card: webhookCard, completedAt: after.completed_at },
+      });
+    }
+    const previousDueDate = toIso(before.due_date);
+    const newDueDate = toIso(after.due_date);
+    if (previousDueDate !== newDueDate) {
+      void dispatchWebhookEvent({
+        type: "deadline.changed",
+        boardId,
+        actorId,
+        data: {
+          card: webhookCard,
+          previousDueDate,
+          newDueDate,
+          changeType: "direct",
+        },
+      });
+    }
+  }
+  await recordCardEvents(createAdminClient(), events);
+}
+
+// PATCH /api/changesets/board/[id] - Upsert columns, cards and subtasks into
+// an existing board in one transaction (see apply_board_changeset).
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: boardId } = await params;
+  const { supabase, user } = await getAuthorizedUser({
+    scope: "changesets:write",
+  });
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(boardId)) {
+    return NextResponse.json(
+      { error: "Invalid board ID format" },
+      { status: 400 },
+    );
+  }
+
+  const tokenIdForLimit = (user as { tokenId?: string }).tokenId;
+  if (tokenIdForLimit) {
+    const limit = rateLimit(tokenIdForLimit);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded" },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfter) } },
+      );
+    }
+  }
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = BoardSyncChangesetSchema.parse(body);
+  } catch (e) {
+    if (e instanceof ZodError) {
+      const first = e.issues[0];
+      return NextResponse.json(
+        {
+          error: first?.message ?? "Validation failed",
+          at: first?.path?.join(".") ?? "",
+          details: e.issues,
+        },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const authorization = await getBoardMutationAuthorization(
+    supabase as unknown as BoardAccessClient,
+    boardId,
+    user.id,
+  );
+  if (!authorization.ok) {
+    return NextResponse.json(
+      { error: authorization.error },
+      { status: authorization.status },
+    );
+  }
+
+  const idempotencyKey = req.headers.get("idempotency-key");
+  const tokenId = (user as { tokenId?: string }).tokenId ?? null;
+
+  const result = await withIdempotency(
+    {
+      tokenId: tokenId ?? "session",
+      key: tokenId ? idempotencyKey : null,
+    },
+    async () => {
+      const { data, error } = await supabase.rpc("apply_board_changeset", {
+        p_board_id: boardId,
+        payload: parsed,
+      });
+      if (error) {
+        // Raised by the RPC for a board RLS hides (no_data_found), references
+        // it can't resolve (22023) or a board update RLS refused (42501)
+        if (error.code === "P0002") {
+          return { status: 404, body: { error: "Board not found" } };
+        }
+        if (error.code === "22023") {
+          return { status: 400, body: { error: error.message } };
+        }
+        if (error.code === "42501") {
+          return { status: 403, body: { error: "Insufficient permissions" } };
+        }
+        console.error("apply_board_changeset RPC error:", error);
+        return {
+          status: 500,
+          body: {
+            error: "Failed to apply changeset",
+            details:
+              process.env.NODE_ENV !== "production" ? error.message : undefined,
+          },
+        };
+      }
+      // `changes` only feeds the history and webhooks; it is not part of the
+      // response
+      const { changes, ...body } = data as {
+        changes?: ChangesetCardChange[];
+      };
+      await recordChangesetCardChanges(changes ?? [], boardId, user.id);
+      return { status: 200, body };
+    },
+  );
+
+  return NextResponse.json(result.body, { status: result.status });
+}
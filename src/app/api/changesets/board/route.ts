@@ -1,16 +1,27 @@
 import { NextResponse, type NextRequest } from "next/server";
 import { ZodError } from "zod";
 import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getTokenRestrictions } from "@/lib/api-tokens/scopes";
 import { ChangesetSchema } from "@/lib/api/changeset-schema";
+import { planBoardChangeset } from "@/lib/api/changeset-plan";
 import { withIdempotency } from "@/lib/api/idempotency";
 import { rateLimit } from "@/lib/api/rate-limit";
 
 export async function POST(req: NextRequest) {
-  const { supabase, user } = await getAuthorizedUser();
+  const { supabase, user } = await getAuthorizedUser({
+    scope: "changesets:write",
+  });
   if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  if (getTokenRestrictions(supabase)?.boardIds) {
+    return NextResponse.json(
+      { error: "Token is restricted to specific boards" },
+      { status: 403 },
+    );
+  }
+
   const tokenIdForLimit = (user as { tokenId?: string }).tokenId;
   if (tokenIdForLimit) {
     const limit = rateLimit(tokenIdForLimit);
@@ -41,6 +52,31 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
   }
 
+  // Same guard as PUT /api/boards/[id]: the FK alone would let callers
+  // attach boards to groups they cannot see (RLS-filtered SELECT).
+  if (parsed.board.groupId) {
+    const { data: groupRow, error: groupErr } = await supabase
+      .from("board_groups")
+      .select("id")
+      .eq("id", parsed.board.groupId)
+      .maybeSingle();
+    if (groupErr || !groupRow) {
+      return NextResponse.json(
+        { error: "Group not found or access denied", at: "board.groupId" },
+        { status: 404 },
+      );
+    }
+  }
+
+  // ?dryRun=true: report the planned tree without writing rows or
+  // consuming the idempotency key
+  if (req.nextUrl.searchParams.get("dryRun") === "true") {
+    return NextResponse.json(
+      { dryRun: true, ...planBoardChangeset(parsed) },
+      { status: 200 },
+    );
+  }
+
   const idempotencyKey = req.headers.get("idempotency-key");
   const tokenId = (user as { tokenId?: string }).tokenId ?? null;
 
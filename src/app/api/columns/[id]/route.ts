@@ -20,12 +20,22 @@ const updateColumnSchema = z.object({
     .positive("Position must be a positive integer")
     .optional(),
   isDone: z.boolean().optional(),
+  wipLimit: z
+    .number()
+    .int()
+    .positive("WIP limit must be a positive integer")
+    .max(999, "WIP limit too high")
+    .nullable()
+    .optional(),
+  wipLimitHard: z.boolean().optional(),
 });
 
 type ColumnUpdateData = {
   title?: string;
   position?: number;
   is_done?: boolean;
+  wip_limit?: number | null;
+  wip_limit_hard?: boolean;
 };
 
 export async function PATCH(
@@ -33,7 +43,9 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     const boardAccessClient = supabase as unknown as BoardAccessClient;
 
     if (!user) {
@@ -58,7 +70,7 @@ export async function PATCH(
       );
     }
 
-    const { title, position, isDone } = validation.data;
+    const { title, position, isDone, wipLimit, wipLimitHard } = validation.data;
 
     // Verify the column exists and user has access (using Supabase RLS)
     const { data: existingColumn, error: columnError } = await supabase
@@ -92,6 +104,8 @@ export async function PATCH(
     if (title !== undefined) updateData.title = title;
     if (position !== undefined) updateData.position = position;
     if (isDone !== undefined) updateData.is_done = isDone;
+    if (wipLimit !== undefined) updateData.wip_limit = wipLimit;
+    if (wipLimitHard !== undefined) updateData.wip_limit_hard = wipLimitHard;
 
     // Update the column using Supabase (respects RLS)
     const { data: updatedColumn, error: updateError } = await supabase
@@ -116,6 +130,8 @@ export async function PATCH(
       title: updatedColumn.title,
       position: updatedColumn.position,
       isDone: updatedColumn.is_done,
+      wipLimit: updatedColumn.wip_limit ?? null,
+      wipLimitHard: updatedColumn.wip_limit_hard ?? false,
       createdAt: updatedColumn.created_at,
     };
 
@@ -134,7 +150,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     const boardAccessClient = supabase as unknown as BoardAccessClient;
 
     if (!user) {
@@ -19,7 +19,9 @@ const bulkUpdateSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     const boardAccessClient = supabase as unknown as BoardAccessClient;
 
     if (!user) {
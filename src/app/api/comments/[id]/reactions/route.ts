@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
+import {
+  COMMENT_REACTIONS,
+  toggleCommentReaction,
+} from "@/lib/comment-threads";
+import { z } from "zod";
+
+type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
+
+const toggleReactionSchema = z.object({
+  emoji: z.enum(COMMENT_REACTIONS),
+});
+
+// POST /api/comments/[id]/reactions — add or remove the caller's reaction
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: commentId } = await params;
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(commentId)) {
+      return NextResponse.json(
+        { error: "Invalid comment ID" },
+        { status: 400 },
+      );
+    }
+
+    const validation = toggleReactionSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validation.error.issues },
+        { status: 400 },
+      );
+    }
+
+    // Verify the comment exists and user can see it (RLS)
+    const { data: comment, error: commentError } = await supabase
+      .from("comments")
+      .select("id, deleted_at, cards!inner(board_id)")
+      .eq("id", commentId)
+      .single();
+    const card = Array.isArray(comment?.cards)
+      ? comment.cards[0]
+      : comment?.cards;
+
+    if (
+      commentError ||
+      !card ||
+      !clientCanAccessBoard(supabase, card.board_id)
+    ) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    if (comment?.deleted_at) {
+      return NextResponse.json(
+        { error: "Cannot react to a deleted comment" },
+        { status: 400 },
+      );
+    }
+
+    // Reacting follows the comment policy: viewers can read but not react
+    const authorization = await getBoardMutationAuthorization(
+      supabase as unknown as BoardAccessClient,
+      card.board_id,
+      user.id,
+    );
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    const reactions = await toggleCommentReaction(
+      supabase,
+      commentId,
+      user.id,
+      validation.data.emoji,
+    );
+
+    return NextResponse.json({ reactions });
+  } catch (error) {
+    console.error("Toggle comment reaction error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import { canManageBoardMembers } from "@/lib/board-permissions";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
+import type { CommentRevision } from "@/lib/comment-revisions";
+
+type BoardAccessClient = Parameters<typeof getBoardRoleForUser>[0];
+
+type EditorRow = { id: string; name: string | null; email: string };
+
+// GET /api/comments/[id]/revisions — previous bodies of an edited comment
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: commentId } = await params;
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(commentId)) {
+      return NextResponse.json(
+        { error: "Invalid comment ID" },
+        { status: 400 },
+      );
+    }
+
+    // Verify the comment exists and user can see it (RLS)
+    const { data: comment, error: commentError } = await supabase
+      .from("comments")
+      .select("id, deleted_at, cards!inner(board_id)")
+      .eq("id", commentId)
+      .single();
+    const card = Array.isArray(comment?.cards)
+      ? comment.cards[0]
+      : comment?.cards;
+
+    if (
+      commentError ||
+      !card ||
+      !clientCanAccessBoard(supabase, card.board_id)
+    ) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    // The history of a deleted comment is for moderation only
+    if (comment?.deleted_at) {
+      const role = await getBoardRoleForUser(
+        supabase as unknown as BoardAccessClient,
+        card.board_id,
+        user.id,
+      );
+      if (!canManageBoardMembers(role)) {
+        return NextResponse.json(
+          { error: "Insufficient permissions" },
+          { status: 403 },
+        );
+      }
+    }
+
+    const { data: rows, error: revisionsError } = await supabase
+      .from("comment_revisions")
+      .select("id, body, created_at, editor:users!editor_id(id, name, email)")
+      .eq("comment_id", commentId)
+      .order("created_at", { ascending: false });
+
+    if (revisionsError) {
+      console.error("Get comment revisions error:", revisionsError);
+      return NextResponse.json(
+        { error: "Failed to fetch comment revisions" },
+        { status: 500 },
+      );
+    }
+
+    const revisions: CommentRevision[] = (rows ?? []).map((row) => {
+      const editor = row.editor as EditorRow | EditorRow[] | null;
+      const editorRow = Array.isArray(editor) ? editor[0] : editor;
+      return {
+        id: row.id,
+        body: row.body,
+        createdAt: row.created_at,
+        editor: editorRow
+          ? { id: editorRow.id, name: editorRow.name, email: editorRow.email }
+          : null,
+      };
+    });
+
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error("Get comment revisions error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
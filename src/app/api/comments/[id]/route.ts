@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthorizedUser } from "../../../../lib/supabase/server";
 import { z } from "zod";
+import { clientCanAccessComment } from "@/lib/board-access";
+import { MAX_COMMENT_LENGTH } from "@/lib/comment-threads";
+
+type BoardAccessClient = Parameters<typeof clientCanAccessComment>[0];
 
 const updateCommentSchema = z.object({
   body: z
     .string()
     .min(1, "Comment body is required")
-    .max(1000, "Comment too long"),
+    .max(MAX_COMMENT_LENGTH, "Comment too long"),
 });
 
 export async function PATCH(
@@ -15,7 +19,9 @@ export async function PATCH(
 ) {
   const { id } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
 
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -32,6 +38,15 @@ export async function PATCH(
       );
     }
 
+    if (
+      !(await clientCanAccessComment(
+        supabase as unknown as BoardAccessClient,
+        commentId,
+      ))
+    ) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
     // Parse and validate request body
     const body = await request.json();
     const validation = updateCommentSchema.safeParse(body);
@@ -56,6 +71,7 @@ export async function PATCH(
         card_id,
         author_id,
         body,
+        parent_id,
         created_at,
         edited_at,
         deleted_at,
@@ -78,6 +94,7 @@ export async function PATCH(
       cardId: updatedComment.card_id,
       authorId: updatedComment.author_id,
       body: updatedComment.body,
+      parentId: updatedComment.parent_id ?? null,
       createdAt: updatedComment.created_at,
       editedAt:
         (updatedComment as unknown as { edited_at?: string | null })
@@ -114,7 +131,9 @@ export async function DELETE(
 ) {
   const { id } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
 
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -131,6 +150,15 @@ export async function DELETE(
       );
     }
 
+    if (
+      !(await clientCanAccessComment(
+        supabase as unknown as BoardAccessClient,
+        commentId,
+      ))
+    ) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
     // Soft-delete: set deleted_at instead of removing the row so the thread position is preserved
     const deletedAt = new Date().toISOString();
     const { error: deleteError } = await supabase
@@ -1,21 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthorizedUser } from "../../../lib/supabase/server";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
 import { createAdminClient } from "../../../lib/supabase/admin";
 import { createNotifications } from "../../../lib/notifications";
+import { dispatchWebhookEvent } from "@/lib/webhooks/delivery";
+import { getBoardRoleForUser } from "@/lib/board-access";
+import { canManageBoardMembers } from "@/lib/board-permissions";
+import { loadCardAssigneeIds } from "@/lib/card-assignees";
+import {
+  autoWatchCard,
+  loadBoardWatches,
+  resolveCardWatchers,
+  watcherNotificationRows,
+} from "@/lib/watchers";
+import { MAX_COMMENT_LENGTH, summarizeReactions } from "@/lib/comment-threads";
 import { z } from "zod";
 
+type BoardAccessClient = Parameters<typeof getBoardRoleForUser>[0];
+
 const createCommentSchema = z.object({
   cardId: z.string().uuid("Card ID must be a valid UUID"),
   body: z
     .string()
     .min(1, "Comment body is required")
-    .max(1000, "Comment too long"),
+    .max(MAX_COMMENT_LENGTH, "Comment too long"),
+  // Comment this one replies to; must be on the same card
+  parentId: z.string().uuid("Parent ID must be a valid UUID").optional(),
   mentionedUserIds: z.array(z.string().uuid()).max(20).optional().default([]),
 });
 
 export async function POST(request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "cards:write",
+    });
 
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -32,22 +50,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { cardId, body: commentBody, mentionedUserIds } = validation.data;
+    const {
+      cardId,
+      body: commentBody,
+      parentId,
+      mentionedUserIds,
+    } = validation.data;
 
     // Verify the card exists and user has access (using Supabase RLS)
     const { data: card, error: cardError } = await supabase
       .from("cards")
-      .select("id, board_id, assignee_id")
+      .select("id, board_id, column_id, assignee_id")
       .eq("id", cardId)
       .single();
 
-    if (cardError || !card) {
+    if (cardError || !card || !clientCanAccessBoard(supabase, card.board_id)) {
       return NextResponse.json(
         { error: "Card not found or access denied" },
         { status: 404 },
       );
     }
 
+    let parentAuthorId: string | null = null;
+    if (parentId) {
+      const { data: parent } = await supabase
+        .from("comments")
+        .select("id, card_id, author_id, deleted_at")
+        .eq("id", parentId)
+        .single();
+
+      if (!parent || parent.card_id !== cardId) {
+        return NextResponse.json(
+          { error: "Parent comment not found on this card" },
+          { status: 400 },
+        );
+      }
+      if (parent.deleted_at) {
+        return NextResponse.json(
+          { error: "Cannot reply to a deleted comment" },
+          { status: 400 },
+        );
+      }
+      parentAuthorId = parent.author_id ?? null;
+    }
+
     // Create the comment using Supabase (respects RLS)
     const { data: newComment, error: commentError } = await supabase
       .from("comments")
@@ -55,6 +101,7 @@ export async function POST(request: NextRequest) {
         card_id: cardId,
         author_id: user.id,
         body: commentBody,
+        parent_id: parentId ?? null,
       })
       .select(
         `
@@ -62,6 +109,7 @@ export async function POST(request: NextRequest) {
         card_id,
         author_id,
         body,
+        parent_id,
         created_at,
         users!inner(id, email, name, avatar_url)
       `,
@@ -82,7 +130,9 @@ export async function POST(request: NextRequest) {
       cardId: newComment.card_id,
       authorId: newComment.author_id,
       body: newComment.body,
+      parentId: newComment.parent_id ?? null,
       createdAt: newComment.created_at,
+      reactions: [],
       author: (() => {
         const u = (
           newComment as unknown as {
@@ -114,9 +164,28 @@ export async function POST(request: NextRequest) {
     // ── Notifications (non-throwing) ──────────────────────────────────────
     const notifRows: Parameters<typeof createNotifications>[1] = [];
 
-    // 1. Notify card assignee about the new comment (unless they wrote it)
-    const assigneeId = (card as { assignee_id?: string | null }).assignee_id;
-    if (assigneeId && assigneeId !== user.id) {
+    // 1. Notify the author of the comment being replied to
+    if (parentAuthorId && parentAuthorId !== user.id) {
+      notifRows.push({
+        user_id: parentAuthorId,
+        type: "comment_reply",
+        actor_id: user.id,
+        card_id: cardId,
+        board_id: card.board_id,
+        metadata: {
+          commentId: newComment.id,
+          parentCommentId: parentId,
+          commentExcerpt: commentBody.slice(0, 120),
+        },
+      });
+    }
+
+    // 2. Notify the card's assignees about the new comment (unless they wrote
+    //    it or were already notified about the reply)
+    const assigneeIds =
+      (await loadCardAssigneeIds(supabase, [card])).get(cardId) ?? [];
+    for (const assigneeId of assigneeIds) {
+      if (assigneeId === user.id || assigneeId === parentAuthorId) continue;
       notifRows.push({
         user_id: assigneeId,
         type: "comment_on_assigned",
@@ -130,7 +199,7 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // 2. Notify each valid @mentioned board member (skip self-mentions)
+    // 3. Notify each valid @mentioned board member (skip self-mentions)
     if (mentionedUserIds.length > 0) {
       // Validate that each mentioned user is actually a board member
       const { data: members } = await supabase
@@ -144,8 +213,9 @@ export async function POST(request: NextRequest) {
       for (const mentionedId of mentionedUserIds) {
         if (mentionedId === user.id) continue; // skip self
         if (!validMentionedIds.has(mentionedId)) continue; // not a board member
-        // Avoid duplicate if assignee was already notified above
-        if (mentionedId === assigneeId) continue;
+        // Avoid duplicate if an assignee or the parent author was already notified above
+        if (assigneeIds.includes(mentionedId) || mentionedId === parentAuthorId)
+          continue;
         notifRows.push({
           user_id: mentionedId,
           type: "mention",
@@ -160,9 +230,55 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // 4. Notify everyone watching the card, its column or the board who has
+    //    not been notified above
+    const watchers = resolveCardWatchers(
+      await loadBoardWatches(supabase, card.board_id),
+      cardId,
+      [card.column_id],
+    );
+    notifRows.push(
+      ...watcherNotificationRows(
+        watchers,
+        {
+          type: "comment",
+          actor_id: user.id,
+          card_id: cardId,
+          board_id: card.board_id,
+          metadata: {
+            commentId: newComment.id,
+            commentExcerpt: commentBody.slice(0, 120),
+          },
+        },
+        notifRows.map((row) => row.user_id),
+      ),
+    );
+
     await createNotifications(createAdminClient(), notifRows);
     // ── End notifications ──────────────────────────────────────────────────
 
+    // Commenting on a card subscribes the author to it
+    await autoWatchCard(supabase, user.id, {
+      id: cardId,
+      boardId: card.board_id,
+    });
+
+    // Not awaited: webhook receivers must not slow down the response
+    void dispatchWebhookEvent({
+      type: "comment.created",
+      boardId: card.board_id,
+      actorId: user.id,
+      data: {
+        card: { id: cardId },
+        comment: {
+          id: newComment.id,
+          body: newComment.body,
+          parentId: newComment.parent_id ?? null,
+          createdAt: newComment.created_at,
+        },
+      },
+    });
+
     return NextResponse.json(transformedComment, { status: 201 });
   } catch (error) {
     console.error("Create comment error:", error);
@@ -175,7 +291,7 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
 
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -201,7 +317,7 @@ export async function GET(request: NextRequest) {
       .eq("id", cardId)
       .single();
 
-    if (cardError || !card) {
+    if (cardError || !card || !clientCanAccessBoard(supabase, card.board_id)) {
       return NextResponse.json(
         { error: "Card not found or access denied" },
         { status: 404 },
@@ -217,10 +333,12 @@ export async function GET(request: NextRequest) {
         card_id,
         author_id,
         body,
+        parent_id,
         created_at,
         edited_at,
         deleted_at,
-        users!inner(id, email, name, avatar_url)
+        users!inner(id, email, name, avatar_url),
+        comment_reactions(emoji, user_id)
       `,
       )
       .eq("card_id", cardId)
@@ -234,13 +352,26 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Deleted bodies stay readable for board admins (moderation) only
+    let canModerate = false;
+    if (comments.some((comment) => comment.deleted_at)) {
+      const role = await getBoardRoleForUser(
+        supabase as unknown as BoardAccessClient,
+        card.board_id,
+        user.id,
+      );
+      canModerate = canManageBoardMembers(role);
+    }
+
     // Transform response to match expected format
     const transformedComments = comments.map((comment) => ({
       id: comment.id,
       cardId: comment.card_id,
       authorId: comment.author_id,
-      body: comment.body,
+      body: comment.deleted_at && !canModerate ? "" : comment.body,
+      parentId: comment.parent_id ?? null,
       createdAt: comment.created_at,
+      reactions: summarizeReactions(comment.comment_reactions ?? [], user.id),
       editedAt:
         (comment as unknown as { edited_at?: string | null }).edited_at ?? null,
       deletedAt:
@@ -9,12 +9,15 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Count cards assigned to the user on non-archived boards.
+    // Count cards assigned to the user, alone or with others, on non-archived boards.
     // RLS already limits cards to boards the user is a member of.
     const { count, error } = await supabase
       .from("cards")
-      .select("id, boards!inner(is_archived)", { count: "exact", head: true })
-      .eq("assignee_id", user.id)
+      .select("id, boards!inner(is_archived), card_assignees!inner(user_id)", {
+        count: "exact",
+        head: true,
+      })
+      .eq("card_assignees.user_id", user.id)
       .eq("boards.is_archived", false);
 
     if (error) {
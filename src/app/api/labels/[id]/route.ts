@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getAuthorizedUser } from "../../../../lib/supabase/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
 import { z } from "zod";
+import { clientCanAccessBoardRow } from "@/lib/board-access";
+
+type BoardAccessClient = Parameters<typeof clientCanAccessBoardRow>[0];
 
 const updateLabelSchema = z.object({
   name: z
     .string()
+    .trim()
     .min(1, "Label name is required")
     .max(50, "Label name too long")
     .optional(),
@@ -20,17 +24,32 @@ export async function PATCH(
 ) {
   const { id } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const labelId = parseInt(id);
+    const labelId = id;
 
-    if (isNaN(labelId)) {
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(labelId)) {
       return NextResponse.json({ error: "Invalid label ID" }, { status: 400 });
     }
 
+    if (
+      !(await clientCanAccessBoardRow(
+        supabase as unknown as BoardAccessClient,
+        "labels",
+        labelId,
+      ))
+    ) {
+      return NextResponse.json({ error: "Label not found" }, { status: 404 });
+    }
+
     // Parse and validate request body
     const body = await request.json();
     const validation = updateLabelSchema.safeParse(body);
@@ -90,17 +109,32 @@ export async function DELETE(
 ) {
   const { id } = await params;
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const labelId = parseInt(id);
+    const labelId = id;
 
-    if (isNaN(labelId)) {
+    // Validate UUID format
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(labelId)) {
       return NextResponse.json({ error: "Invalid label ID" }, { status: 400 });
     }
 
+    if (
+      !(await clientCanAccessBoardRow(
+        supabase as unknown as BoardAccessClient,
+        "labels",
+        labelId,
+      ))
+    ) {
+      return NextResponse.json({ error: "Label not found" }, { status: 404 });
+    }
+
     // Delete the label using Supabase (respects RLS and cascade)
     const { error: deleteError } = await supabase
       .from("labels")
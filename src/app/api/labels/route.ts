@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getAuthorizedUser } from "../../../lib/supabase/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getBoardMutationAuthorization } from "@/lib/board-access";
 import { z } from "zod";
 
+type BoardAccessClient = Parameters<typeof getBoardMutationAuthorization>[0];
+
 const createLabelSchema = z.object({
-  boardId: z.number().int().positive("Board ID must be a positive integer"),
+  boardId: z.string().uuid("Board ID must be a valid UUID"),
   name: z
     .string()
+    .trim()
     .min(1, "Label name is required")
     .max(50, "Label name too long"),
   color: z.string().regex(/^#[0-9A-F]{6}$/i, "Color must be a valid hex color"),
@@ -13,7 +17,9 @@ const createLabelSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:write",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -31,17 +37,30 @@ export async function POST(request: NextRequest) {
 
     const { boardId, name, color } = validation.data;
 
-    // Verify user has access to the board (using Supabase RLS)
-    const { data: board, error: boardError } = await supabase
-      .from("boards")
+    const authorization = await getBoardMutationAuthorization(
+      supabase as unknown as BoardAccessClient,
+      boardId,
+      user.id,
+    );
+
+    if (!authorization.ok) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status },
+      );
+    }
+
+    // Reject duplicate names (case-insensitive) so the picker stays unambiguous
+    const { data: existing } = await supabase
+      .from("labels")
       .select("id")
-      .eq("id", boardId)
-      .single();
+      .eq("board_id", boardId)
+      .ilike("name", name);
 
-    if (boardError || !board) {
+    if (existing && existing.length > 0) {
       return NextResponse.json(
-        { error: "Board not found or insufficient permissions" },
-        { status: 404 },
+        { error: "A label with this name already exists on this board" },
+        { status: 409 },
       );
     }
 
@@ -85,7 +104,9 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { supabase, user } = await getAuthorizedUser();
+    const { supabase, user } = await getAuthorizedUser({
+      scope: "boards:read",
+    });
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -93,20 +114,18 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const boardId = searchParams.get("boardId");
 
-    if (!boardId || isNaN(parseInt(boardId))) {
+    if (!boardId || !z.string().uuid().safeParse(boardId).success) {
       return NextResponse.json(
         { error: "Valid board ID is required" },
         { status: 400 },
       );
     }
 
-    const boardIdInt = parseInt(boardId);
-
     // Verify user has access to the board (using Supabase RLS)
     const { data: board, error: boardError } = await supabase
       .from("boards")
       .select("id")
-      .eq("id", boardIdInt)
+      .eq("id", boardId)
       .single();
 
     if (boardError || !board) {
@@ -120,7 +139,7 @@ export async function GET(request: NextRequest) {
     const { data: labels, error: labelsError } = await supabase
       .from("labels")
       .select("*")
-      .eq("board_id", boardIdInt)
+      .eq("board_id", boardId)
       .order("name");
 
     if (labelsError) {
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
+import { groupMyTasks, isCalendarDay } from "@/lib/my-tasks";
+
+export type MyTaskCard = {
+  id: string;
+  title: string;
+  priority: "high" | "medium" | "low";
+  startDate: string | null;
+  dueDate: string | null;
+  createdBy: string | null;
+  boardId: string;
+  boardName: string;
+  columnId: number;
+  columnTitle: string;
+  /** First done column of the board; quick-complete moves the card there. */
+  doneColumnId: number | null;
+};
+
+// GET /api/me/cards?today=<YYYY-MM-DD>
+// Open cards assigned to the caller, alone or with others, across all
+// non-archived boards, grouped into overdue / today / week / later / none.
+// `today` is the client's local date and defaults to the current UTC date.
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const today =
+      searchParams.get("today") ?? new Date().toISOString().slice(0, 10);
+    if (!isCalendarDay(today)) {
+      return NextResponse.json(
+        { error: "today must be a date in YYYY-MM-DD format" },
+        { status: 400 },
+      );
+    }
+
+    // RLS on cards ensures only boards the user is a member of are returned.
+    // The !inner join on boards filters out cards whose board is archived,
+    // the one on card_assignees keeps cards the caller is one assignee of.
+    const { data, error } = await supabase
+      .from("cards")
+      .select(
+        `
+        id,
+        title,
+        priority,
+        start_date,
+        due_date,
+        created_by,
+        board_id,
+        column_id,
+        boards!inner(id, name, is_archived),
+        columns!inner(id, title),
+        card_assignees!inner(user_id)
+      `,
+      )
+      .eq("card_assignees.user_id", user.id)
+      .is("completed_at", null)
+      .eq("boards.is_archived", false)
+      .order("due_date", { ascending: true, nullsFirst: false })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching my cards:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch cards" },
+        { status: 500 },
+      );
+    }
+
+    const rows = (data ?? []).filter((card) =>
+      clientCanAccessBoard(supabase, card.board_id),
+    );
+
+    const boardIds = [...new Set(rows.map((card) => card.board_id))];
+    const doneColumns = new Map<string, number>();
+    if (boardIds.length > 0) {
+      const { data: columns, error: columnsError } = await supabase
+        .from("columns")
+        .select("id, board_id")
+        .in("board_id", boardIds)
+        .eq("is_done", true)
+        .order("position", { ascending: true });
+      if (columnsError) {
+        console.error("Error fetching done columns:", columnsError);
+        return NextResponse.json(
+          { error: "Failed to fetch cards" },
+          { status: 500 },
+        );
+      }
+      (columns ?? []).forEach((column) => {
+        if (!doneColumns.has(column.board_id)) {
+          doneColumns.set(column.board_id, column.id);
+        }
+      });
+    }
+
+    const cards: MyTaskCard[] = rows.map((card) => {
+      const board = card.boards as unknown as { id: string; name: string };
+      const column = card.columns as unknown as { id: number; title: string };
+      return {
+        id: card.id,
+        title: card.title,
+        priority: card.priority as "high" | "medium" | "low",
+        startDate: card.start_date,
+        dueDate: card.due_date,
+        createdBy: card.created_by,
+        boardId: card.board_id,
+        boardName: board.name,
+        columnId: column.id,
+        columnTitle: column.title,
+        doneColumnId: doneColumns.get(card.board_id) ?? null,
+      };
+    });
+
+    return NextResponse.json({ today, groups: groupMyTasks(cards, today) });
+  } catch (error) {
+    console.error("Error fetching my cards:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionUser } from "@/lib/supabase/server";
+import { emailDigestFrequencySchema } from "@/lib/email-digest";
+
+const updateEmailDigestSchema = z.object({
+  frequency: emailDigestFrequencySchema,
+});
+
+// PUT /api/profile/email-digest - Opt in to (or out of) the email digest
+export async function PUT(request: NextRequest) {
+  try {
+    const { supabase, user } = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let parsed;
+    try {
+      const body = await request.json();
+      parsed = updateEmailDigestSchema.safeParse(body);
+    } catch (_e) {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { frequency } = parsed.data;
+
+    // RLS lets users update their own row
+    const { error } = await supabase
+      .from("users")
+      .update({ email_digest_frequency: frequency })
+      .eq("id", user.id);
+
+    if (error) {
+      console.error("Email digest update failed:", error);
+      return NextResponse.json(
+        { error: "Failed to update email digest" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ frequency });
+  } catch (error) {
+    console.error("Error in PUT /api/profile/email-digest:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
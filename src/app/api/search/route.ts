@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthorizedUser } from "@/lib/supabase/server";
+import { getTokenRestrictions } from "@/lib/api-tokens/scopes";
+import { buildSearchTsQuery, type SearchResultType } from "@/lib/search";
+import {
+  describeCardQueryError,
+  getCardQueryText,
+  matchesCardQuery,
+  parseCardQuery,
+  type CardQuery,
+} from "@/lib/card-query";
+import {
+  CARD_QUERY_SELECT,
+  getCardQueryMembers,
+  toCardQuerySubject,
+  type CardQueryRow,
+} from "@/lib/card-payload";
+
+export type SearchResult = {
+  type: SearchResultType;
+  id: string;
+  cardId: string;
+  cardTitle: string;
+  boardId: string;
+  boardName: string;
+  snippet: string;
+};
+
+type SearchRow = {
+  result_type: SearchResultType;
+  result_id: string;
+  card_id: string;
+  board_id: string;
+  board_name: string;
+  card_title: string;
+  snippet: string;
+  rank: number;
+};
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, "Query must be at least 2 characters").max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// Upper bound of full-text hits fetched when filter terms narrow them down.
+const FILTERED_SEARCH_LIMIT = 100;
+
+// GET /api/search?q=<text>&limit=<n>
+// Full-text search over card titles/descriptions, comments and subtasks on
+// every board the caller is a member of (RLS applies inside the RPC) and a
+// board-restricted token may read.
+// `q` may contain card query terms (`assignee:me is:open`, see
+// lib/card-query); they filter the hits by their card. At least one word
+// is needed for the full-text part.
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase, user } = await getAuthorizedUser({ scope: "cards:read" });
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsed = searchQuerySchema.safeParse({
+      q: searchParams.get("q") ?? "",
+      limit: searchParams.get("limit") ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { q, limit } = parsed.data;
+    const cardQuery = parseCardQuery(q, { unknownFieldsAsText: true });
+    if (cardQuery.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Invalid query",
+          details: cardQuery.errors.map((queryError) => ({
+            ...queryError,
+            message: describeCardQueryError(queryError),
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    // Words are matched by the full-text search (including comments and
+    // subtasks); everything else filters the cards of the hits.
+    const filter: CardQuery = {
+      nodes: cardQuery.nodes.filter(
+        (node) => node.kind !== "text" || node.negated,
+      ),
+      errors: [],
+    };
+    const tsQuery = buildSearchTsQuery(getCardQueryText(cardQuery));
+    if (!tsQuery) {
+      return NextResponse.json({ query: q, results: [] });
+    }
+
+    const { data, error } = await supabase.rpc("search_board_content", {
+      p_query: tsQuery,
+      p_limit: filter.nodes.length > 0 ? FILTERED_SEARCH_LIMIT : limit,
+      // Filtered inside the RPC so the limit counts only readable boards
+      p_board_ids: getTokenRestrictions(supabase)?.boardIds ?? null,
+    });
+
+    if (error) {
+      console.error("Search error:", error);
+      return NextResponse.json({ error: "Search failed" }, { status: 500 });
+    }
+
+    let rows = (data ?? []) as SearchRow[];
+
+    if (filter.nodes.length > 0 && rows.length > 0) {
+      const { data: cards, error: cardsError } = await supabase
+        .from("cards")
+        .select(CARD_QUERY_SELECT)
+        .in("id", [...new Set(rows.map((row) => row.card_id))]);
+
+      if (cardsError) {
+        console.error("Search card filter error:", cardsError);
+        return NextResponse.json({ error: "Search failed" }, { status: 500 });
+      }
+
+      const cardRows = (cards ?? []) as unknown as CardQueryRow[];
+      const context = {
+        currentUserId: user.id,
+        today: new Date().toISOString().slice(0, 10),
+        members: getCardQueryMembers(cardRows),
+      };
+      const matchingIds = new Set(
+        cardRows
+          .filter((card) =>
+            matchesCardQuery(toCardQuerySubject(card), filter, context),
+          )
+          .map((card) => card.id),
+      );
+      rows = rows.filter((row) => matchingIds.has(row.card_id)).slice(0, limit);
+    }
+
+    const results: SearchResult[] = rows.map((row) => ({
+      type: row.result_type,
+      id: row.result_id,
+      cardId: row.card_id,
+      cardTitle: row.card_title,
+      boardId: row.board_id,
+      boardName: row.board_name,
+      snippet: row.snippet,
+    }));
+
+    return NextResponse.json({ query: q, results });
+  } catch (error) {
+    console.error("Search error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -8,6 +8,7 @@ import { ContentTopBar } from "@/components/layout/ContentTopBar";
 import { CreateTokenDialog } from "./CreateTokenDialog";
 import { ClaudeMdSnippetCard } from "./ClaudeMdSnippetCard";
 import { t } from "@/lib/i18n";
+import { isTokenExpired } from "@/lib/api-tokens/scopes";
 
 export interface TokenRow {
   id: string;
@@ -16,6 +17,9 @@ export interface TokenRow {
   lastUsedAt: string | null;
   createdAt: string;
   revokedAt: string | null;
+  scopes: string[] | null;
+  boardIds: string[] | null;
+  expiresAt: string | null;
 }
 
 const fetcher = (url: string) => fetch(url).then((r) => r.json());
@@ -101,6 +105,44 @@ export function ApiAccessContent({
                       <div className="text-xs text-muted-foreground font-mono">
                         {tok.prefix}…
                       </div>
+                      <div className="flex flex-wrap gap-1 my-1">
+                        {tok.scopes === null ? (
+                          <Badge variant="secondary">
+                            {t("apiAccess.accessFull")}
+                          </Badge>
+                        ) : (
+                          tok.scopes.map((scope) => (
+                            <Badge
+                              key={scope}
+                              variant="outline"
+                              className="font-mono"
+                            >
+                              {scope}
+                            </Badge>
+                          ))
+                        )}
+                        {tok.boardIds !== null && (
+                          <Badge variant="outline">
+                            {t("apiAccess.tokenBoardCount", {
+                              count: tok.boardIds.length,
+                            })}
+                          </Badge>
+                        )}
+                        {tok.expiresAt &&
+                          (isTokenExpired(tok.expiresAt) ? (
+                            <Badge variant="destructive">
+                              {t("apiAccess.tokenExpired")}
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">
+                              {t("apiAccess.tokenExpiresAt", {
+                                date: new Date(
+                                  tok.expiresAt,
+                                ).toLocaleDateString(),
+                              })}
+                            </Badge>
+                          ))}
+                      </div>
                       <div className="text-xs text-muted-foreground">
                         {tok.lastUsedAt
                           ? `${t("apiAccess.tokenLastUsed")} ${new Date(
@@ -1,9 +1,18 @@
 "use client";
 
 import { useMemo, useState } from "react";
+import useSWR from "swr";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -16,6 +25,23 @@ import {
 import { Plus, Copy, Check } from "lucide-react";
 import { t } from "@/lib/i18n";
 import { buildClaudeMdSnippet } from "./claude-md-snippet";
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "@/lib/api-tokens/scopes";
+
+const EXPIRY_OPTIONS = ["never", "7", "30", "90", "365"] as const;
+type ExpiryOption = (typeof EXPIRY_OPTIONS)[number];
+
+const fetcher = (url: string) => fetch(url).then((r) => r.json());
+
+function expiresAtFor(option: ExpiryOption): string | undefined {
+  if (option === "never") return undefined;
+  const date = new Date();
+  date.setDate(date.getDate() + Number(option));
+  return date.toISOString();
+}
+
+function toggle<T>(list: T[], value: T, checked: boolean): T[] {
+  return checked ? [...list, value] : list.filter((v) => v !== value);
+}
 
 export function CreateTokenDialog({
   disabled,
@@ -26,11 +52,21 @@ export function CreateTokenDialog({
 }) {
   const [open, setOpen] = useState(false);
   const [name, setName] = useState("");
+  const [restricted, setRestricted] = useState(false);
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [boardIds, setBoardIds] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState<ExpiryOption>("never");
+  const [error, setError] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [created, setCreated] = useState<{ token: string } | null>(null);
   const [copied, setCopied] = useState(false);
   const [snippetCopied, setSnippetCopied] = useState(false);
 
+  const { data: boardsData } = useSWR<{
+    boards: { id: string; name: string; isArchived: boolean }[];
+  }>(open && restricted ? "/api/boards" : null, fetcher);
+  const boards = (boardsData?.boards ?? []).filter((b) => !b.isArchived);
+
   const personalizedSnippet = useMemo(() => {
     if (!created) return "";
     const baseUrl = (
@@ -42,13 +78,23 @@ export function CreateTokenDialog({
 
   const submit = async () => {
     setSubmitting(true);
+    setError(null);
     const res = await fetch("/api/api-tokens", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ name }),
+      body: JSON.stringify({
+        name,
+        scopes: restricted ? scopes : undefined,
+        boardIds: restricted && boardIds.length > 0 ? boardIds : undefined,
+        expiresAt: expiresAtFor(expiry),
+      }),
     });
     setSubmitting(false);
-    if (!res.ok) return;
+    if (!res.ok) {
+      const json = (await res.json().catch(() => ({}))) as { error?: string };
+      setError(json.error ?? t("apiAccess.createTokenFailed"));
+      return;
+    }
     const json = (await res.json()) as { token: string };
     setCreated(json);
     onCreated();
@@ -57,6 +103,11 @@ export function CreateTokenDialog({
   const close = () => {
     setOpen(false);
     setName("");
+    setRestricted(false);
+    setScopes([]);
+    setBoardIds([]);
+    setExpiry("never");
+    setError(null);
     setCreated(null);
     setCopied(false);
     setSnippetCopied(false);
@@ -85,11 +136,107 @@ export function CreateTokenDialog({
                 placeholder={t("apiAccess.tokenNamePlaceholder")}
               />
             </div>
+            <div className="space-y-2">
+              <Label>{t("apiAccess.accessLabel")}</Label>
+              <Select
+                value={restricted ? "restricted" : "full"}
+                onValueChange={(value) => setRestricted(value === "restricted")}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">
+                    {t("apiAccess.accessFull")}
+                  </SelectItem>
+                  <SelectItem value="restricted">
+                    {t("apiAccess.accessRestricted")}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {restricted && (
+              <>
+                <div className="space-y-2">
+                  <Label>{t("apiAccess.scopesLabel")}</Label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {API_TOKEN_SCOPES.map((scope) => (
+                      <label
+                        key={scope}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <Checkbox
+                          checked={scopes.includes(scope)}
+                          onCheckedChange={(checked) =>
+                            setScopes((prev) =>
+                              toggle(prev, scope, checked === true),
+                            )
+                          }
+                        />
+                        <span className="font-mono">{scope}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>{t("apiAccess.boardsLabel")}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {t("apiAccess.boardsHint")}
+                  </p>
+                  <div className="max-h-40 overflow-y-auto space-y-1 rounded-md border p-2">
+                    {boards.map((board) => (
+                      <label
+                        key={board.id}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <Checkbox
+                          checked={boardIds.includes(board.id)}
+                          onCheckedChange={(checked) =>
+                            setBoardIds((prev) =>
+                              toggle(prev, board.id, checked === true),
+                            )
+                          }
+                        />
+                        <span className="truncate">{board.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label>{t("apiAccess.expiryLabel")}</Label>
+              <Select
+                value={expiry}
+                onValueChange={(value) => setExpiry(value as ExpiryOption)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option === "never"
+                        ? t("apiAccess.expiryNever")
+                        : t("apiAccess.expiryDays", { days: option })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
             <DialogFooter>
               <Button variant="ghost" onClick={close}>
                 Abbrechen
               </Button>
-              <Button onClick={submit} disabled={submitting || !name.trim()}>
+              <Button
+                onClick={submit}
+                disabled={
+                  submitting ||
+                  !name.trim() ||
+                  (restricted && scopes.length === 0)
+                }
+              >
                 {t("apiAccess.createToken")}
               </Button>
             </DialogFooter>
@@ -45,6 +45,9 @@ describe("ApiAccessContent", () => {
             lastUsedAt: null,
             createdAt: "2026-04-20T12:00:00Z",
             revokedAt: null,
+            scopes: null,
+            boardIds: null,
+            expiresAt: null,
           },
         ]}
       />,
@@ -52,4 +55,29 @@ describe("ApiAccessContent", () => {
     expect(screen.getByText("Laptop")).toBeInTheDocument();
     expect(screen.getByText(/avk_a1b2/)).toBeInTheDocument();
   });
+
+  it("shows scope, board and expiry badges for restricted tokens", () => {
+    render(
+      <ApiAccessContent
+        initialEnabled={true}
+        initialTokens={[
+          {
+            id: "tok-2",
+            name: "CI",
+            prefix: "avk_c3d4",
+            lastUsedAt: null,
+            createdAt: "2026-04-20T12:00:00Z",
+            revokedAt: null,
+            scopes: ["cards:read"],
+            boardIds: ["b1", "b2"],
+            expiresAt: "2000-01-01T00:00:00Z",
+          },
+        ]}
+      />,
+    );
+    expect(screen.getByText("cards:read")).toBeInTheDocument();
+    expect(screen.getByText("2 Board(s)")).toBeInTheDocument();
+    expect(screen.getByText("Abgelaufen")).toBeInTheDocument();
+    expect(screen.queryByText("Vollzugriff")).toBeNull();
+  });
 });
@@ -3,7 +3,15 @@
 import { useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { ArrowLeft, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  ArrowLeft,
+  ChartGantt,
+  LayoutGrid,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -13,10 +21,13 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { ContentTopBar } from "@/components/layout/ContentTopBar";
 import { BoardCard, type BoardCardData } from "@/components/boards/BoardCard";
+import { ArchivedBoardsSection } from "@/components/boards/ArchivedBoardsSection";
 import { CreateBoardDialog } from "@/components/boards/CreateBoardDialog";
 import { EditGroupDialog } from "@/components/board-groups/EditGroupDialog";
 import { DeleteGroupDialog } from "@/components/board-groups/DeleteGroupDialog";
+import { GroupTimeline } from "@/components/timeline/GroupTimeline";
 import { t } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
 import { useCurrentUser } from "@/hooks/useCurrentUser";
 import type { Board } from "@/types/database";
 import type { DashboardBoardGroup } from "@/lib/data/board-groups";
@@ -40,6 +51,7 @@ export function GroupPageContent({
   );
   const [deletingGroup, setDeletingGroup] =
     useState<DashboardBoardGroup | null>(null);
+  const [view, setView] = useState<"boards" | "timeline">("boards");
 
   const canManage = group.createdBy === user?.id;
 
@@ -106,6 +118,22 @@ export function GroupPageContent({
     }
   };
 
+  const activeBoards = boards.filter((b) => !b.isArchived);
+  const archivedBoards = boards.filter((b) => b.isArchived);
+
+  const renderBoardGrid = (list: DashboardBoard[]) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+      {list.map((board) => (
+        <BoardCard
+          key={board.id}
+          board={board as unknown as BoardCardData}
+          onArchive={() => handleArchive(board)}
+          onAssignGroup={(gid) => handleAssignGroup(board.id, gid)}
+        />
+      ))}
+    </div>
+  );
+
   return (
     <div className="flex min-h-screen flex-col">
       <ContentTopBar
@@ -132,6 +160,28 @@ export function GroupPageContent({
         subtitle={t("boardGroups.boardCount", { count: boards.length })}
         actions={
           <div className="flex items-center gap-2">
+            {(
+              [
+                ["boards", LayoutGrid, t("boardGroups.viewBoards")],
+                ["timeline", ChartGantt, t("boardDetail.viewTimeline")],
+              ] as const
+            ).map(([value, Icon, label]) => (
+              <Button
+                key={value}
+                variant="ghost"
+                size="sm"
+                onClick={() => setView(value)}
+                title={label}
+                aria-pressed={view === value}
+                className={cn(
+                  "h-8 w-8 p-0 text-muted-foreground hover:text-foreground",
+                  view === value && "bg-accent text-foreground",
+                )}
+              >
+                <Icon className="h-4 w-4" />
+                <span className="sr-only">{label}</span>
+              </Button>
+            ))}
             <CreateBoardDialog
               defaultGroupId={group.id}
               onBoardCreated={handleBoardCreated}
@@ -177,21 +227,23 @@ export function GroupPageContent({
       />
 
       <main className="flex-1 px-4 sm:px-6 lg:px-8 py-8">
-        {boards.length === 0 ? (
+        {view === "timeline" ? (
+          <GroupTimeline
+            groupId={group.id}
+            boards={boards}
+            currentUserId={user?.id ?? null}
+          />
+        ) : boards.length === 0 ? (
           <p className="text-sm text-muted-foreground italic">
             {t("boardGroups.boardCount", { count: 0 })}
           </p>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {boards.map((board) => (
-              <BoardCard
-                key={board.id}
-                board={board as unknown as BoardCardData}
-                onArchive={() => handleArchive(board)}
-                onAssignGroup={(gid) => handleAssignGroup(board.id, gid)}
-              />
-            ))}
-          </div>
+          <>
+            {activeBoards.length > 0 && renderBoardGrid(activeBoards)}
+            <ArchivedBoardsSection count={archivedBoards.length}>
+              {renderBoardGrid(archivedBoards)}
+            </ArchivedBoardsSection>
+          </>
         )}
       </main>
 
@@ -0,0 +1,44 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { Archive, ChevronDown, ChevronRight } from "lucide-react";
+import { t } from "@/lib/i18n";
+
+interface ArchivedBoardsSectionProps {
+  count: number;
+  // The board cards, already laid out by the caller (grid or list)
+  children: ReactNode;
+}
+
+/**
+ * Collapsed-by-default block below a board grid that keeps archived boards
+ * reachable without mixing them into the active ones.
+ */
+export function ArchivedBoardsSection({
+  count,
+  children,
+}: ArchivedBoardsSectionProps) {
+  const [open, setOpen] = useState(false);
+
+  if (count === 0) return null;
+
+  return (
+    <section className="mt-10">
+      <button
+        type="button"
+        className="flex items-center gap-1.5 text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-3 hover:text-foreground"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+      >
+        {open ? (
+          <ChevronDown className="w-4 h-4" />
+        ) : (
+          <ChevronRight className="w-4 h-4" />
+        )}
+        <Archive className="w-4 h-4" />
+        {t("boardsPage.archivedSection", { count })}
+      </button>
+      {open && children}
+    </section>
+  );
+}
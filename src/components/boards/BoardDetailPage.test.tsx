@@ -6,7 +6,9 @@ import { useAppStore } from "@/store";
 import { BoardDetailPage } from "./BoardDetailPage";
 
 vi.mock("../kanban/KanbanBoard", () => ({
-  KanbanBoard: () => <div data-testid="kanban-board" />,
+  KanbanBoard: ({ userRole }: { userRole?: string }) => (
+    <div data-testid="kanban-board" data-role={userRole} />
+  ),
 }));
 
 vi.mock("../columns/CreateColumnDialog", () => ({
@@ -183,3 +185,80 @@ describe("BoardDetailPage member management access", () => {
     expectMemberCount(2);
   });
 });
+
+describe("BoardDetailPage archived boards", () => {
+  beforeEach(() => {
+    useAppStore.getState().reset();
+    vi.clearAllMocks();
+    global.fetch = vi.fn();
+  });
+
+  it("renders an archived board read-only", async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        board: createBoardResponse({ role: "owner", isArchived: true }),
+      }),
+    } as Response);
+
+    render(
+      <BoardDetailPage
+        boardId={BOARD_ID}
+        currentUser={{ id: USER_ID, email: "owner@example.com" }}
+      />,
+    );
+
+    expect(
+      await screen.findByText(t("board.archivedReadOnly")),
+    ).toBeInTheDocument();
+    expect(screen.getByTestId("kanban-board")).toHaveAttribute(
+      "data-role",
+      "viewer",
+    );
+    expect(
+      screen.queryByRole("button", { name: t("boardDetail.addColumn") }),
+    ).not.toBeInTheDocument();
+  });
+
+  it("lets owners unarchive from the read-only banner", async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          board: createBoardResponse({ role: "owner", isArchived: true }),
+        }),
+      } as Response)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ board: { id: BOARD_ID, isArchived: false } }),
+      } as Response);
+
+    render(
+      <BoardDetailPage
+        boardId={BOARD_ID}
+        currentUser={{ id: USER_ID, email: "owner@example.com" }}
+      />,
+    );
+
+    fireEvent.click(
+      await screen.findByRole("button", { name: t("board.unarchive") }),
+    );
+
+    await waitFor(() => {
+      expect(
+        screen.queryByText(t("board.archivedReadOnly")),
+      ).not.toBeInTheDocument();
+    });
+    expect(global.fetch).toHaveBeenLastCalledWith(
+      `/api/boards/${BOARD_ID}`,
+      expect.objectContaining({
+        method: "PUT",
+        body: JSON.stringify({ isArchived: false }),
+      }),
+    );
+    expect(screen.getByTestId("kanban-board")).toHaveAttribute(
+      "data-role",
+      "owner",
+    );
+  });
+});
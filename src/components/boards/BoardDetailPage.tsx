@@ -13,6 +13,14 @@ import {
   MoreHorizontal,
   Edit,
   Archive,
+  ArchiveRestore,
+  Webhook,
+  Trash,
+  Kanban,
+  Table2,
+  ChartGantt,
+  Eye,
+  EyeOff,
 } from "lucide-react";
 
 import { CreateColumnDialog } from "../columns/CreateColumnDialog";
@@ -28,11 +36,15 @@ import {
   type BoardPresenceEditingTarget,
 } from "@/hooks/useBoardPresence";
 import { useBoardRealtime } from "@/hooks/useBoardRealtime";
-import { KanbanBoard } from "../kanban/KanbanBoard";
+import { useBoardWatches } from "@/hooks/useBoardWatches";
+import { KanbanBoard, type BoardView } from "../kanban/KanbanBoard";
 import { DeleteBoardDialog } from "./DeleteBoardDialog";
 import { EditBoardDialog } from "./EditBoardDialog";
+import { BoardWebhooksDialog } from "./BoardWebhooksDialog";
+import { BoardTrashDialog } from "./BoardTrashDialog";
 import { UserManagementModal } from "../admin/UserManagementModal";
 import { BoardPresenceSummary } from "./board-presence-ui";
+import { SavedViewsMenu } from "./SavedViewsMenu";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -44,8 +56,25 @@ import { ContentTopBar } from "../layout/ContentTopBar";
 
 import type { BoardWithDetails, Column } from "../../types/database";
 import { canEditBoard, canManageBoardMembers } from "@/lib/board-permissions";
+import {
+  boardViewStateToSearchParams,
+  parseBoardViewState,
+  type BoardViewState,
+  type SavedBoardView,
+} from "@/lib/board-views";
 import { getRoleBadgeClasses, getRoleLabel } from "../../lib/role-colors";
 import { t } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+const BOARD_VIEWS = [
+  { value: "board", icon: Kanban, label: "boardDetail.viewBoard" },
+  { value: "table", icon: Table2, label: "boardDetail.viewTable" },
+  { value: "timeline", icon: ChartGantt, label: "boardDetail.viewTimeline" },
+] as const satisfies readonly {
+  value: BoardView;
+  icon: typeof Kanban;
+  label: string;
+}[];
 
 interface BoardDetailPageProps {
   boardId: string;
@@ -72,10 +101,39 @@ export function BoardDetailPage({
   const [showDeleteBoard, setShowDeleteBoard] = useState(false);
   const [showEditBoard, setShowEditBoard] = useState(false);
   const [showMembersModal, setShowMembersModal] = useState(false);
+  const [showWebhooks, setShowWebhooks] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const restoredFromTrashRef = useRef(false);
 
   const router = useRouter();
   const searchParams = useSearchParams();
   const initialCardId = searchParams.get("cardId");
+  // Filters and view mode live in the query string so a filtered board can
+  // be linked; the URL is updated in place without a navigation.
+  const [viewState, setViewState] = useState<BoardViewState>(() =>
+    parseBoardViewState(new URLSearchParams(searchParams.toString())),
+  );
+  const [activeSavedViewId, setActiveSavedViewId] = useState<string | null>(
+    null,
+  );
+  const view = viewState.view;
+
+  useEffect(() => {
+    const params = boardViewStateToSearchParams(
+      viewState,
+      new URLSearchParams(window.location.search),
+    ).toString();
+    window.history.replaceState(
+      window.history.state,
+      "",
+      params ? `?${params}` : window.location.pathname,
+    );
+  }, [viewState]);
+
+  const handleSavedViewSelect = (savedView: SavedBoardView) => {
+    setActiveSavedViewId(savedView.id);
+    setViewState({ filters: savedView.filters, view: savedView.viewMode });
+  };
 
   // Zustand store state and actions
   const _storeBoard = useCurrentBoard();
@@ -129,6 +187,7 @@ export function BoardDetailPage({
   );
 
   useBoardRealtime({ boardId, onBoardChange: handleRealtimeBoardChange });
+  const boardWatches = useBoardWatches(boardId);
 
   useEffect(() => {
     if (!initialBoard) {
@@ -191,6 +250,17 @@ export function BoardDetailPage({
     }
   };
 
+  // Restored cards come back with labels, assignee etc., so reload the board
+  // once the trash is closed rather than patching each card in
+  const handleTrashChange = (open: boolean) => {
+    setShowTrash(open);
+
+    if (!open && restoredFromTrashRef.current) {
+      restoredFromTrashRef.current = false;
+      void fetchBoard();
+    }
+  };
+
   const handleArchiveBoard = async () => {
     if (!board) return;
     try {
@@ -209,9 +279,23 @@ export function BoardDetailPage({
     }
   };
 
-  const handleBoardUpdated = (updated: { id: string; name: string }) => {
+  const handleBoardUpdated = (updated: {
+    id: string;
+    name: string;
+    enforceDependencies?: boolean;
+    trashRetentionDays?: number;
+    isArchived?: boolean;
+  }) => {
     if (!board) return;
-    const updatedBoard = { ...board, name: updated.name };
+    const updatedBoard = {
+      ...board,
+      name: updated.name,
+      enforceDependencies:
+        updated.enforceDependencies ?? board.enforceDependencies,
+      trashRetentionDays:
+        updated.trashRetentionDays ?? board.trashRetentionDays,
+      isArchived: updated.isArchived ?? board.isArchived,
+    };
     setBoard(updatedBoard);
     setCurrentBoard(updatedBoard);
   };
@@ -234,8 +318,10 @@ export function BoardDetailPage({
   // Removed test function
 
   const boardRole = board?.role;
+  // Archived boards render read-only for everyone until they are unarchived
+  const isReadOnly = board?.isArchived ?? false;
   const canManageBoard = canManageBoardMembers(boardRole);
-  const canAddColumns = canEditBoard(boardRole);
+  const canAddColumns = !isReadOnly && canEditBoard(boardRole);
   const canDeleteBoard = boardRole === "owner"; // Only owners can delete boards
   const memberCount = board?.memberCount ?? board?.members?.length ?? 0;
 
@@ -333,6 +419,35 @@ export function BoardDetailPage({
         }
         actions={
           <>
+            <SavedViewsMenu
+              boardId={boardId}
+              currentUserId={currentUser?.id ?? null}
+              state={viewState}
+              activeViewId={activeSavedViewId}
+              onSelect={handleSavedViewSelect}
+              onActiveViewChange={setActiveSavedViewId}
+            />
+
+            {BOARD_VIEWS.map(({ value, icon: Icon, label }) => (
+              <Button
+                key={value}
+                variant="ghost"
+                size="icon"
+                onClick={() =>
+                  setViewState((prev) => ({ ...prev, view: value }))
+                }
+                title={t(label)}
+                aria-pressed={view === value}
+                className={cn(
+                  "size-8 text-muted-foreground hover:text-foreground",
+                  view === value && "bg-accent text-foreground",
+                )}
+              >
+                <Icon className="size-4" />
+                <span className="sr-only">{t(label)}</span>
+              </Button>
+            ))}
+
             {canAddColumns && (
               <Button
                 variant="ghost"
@@ -348,6 +463,33 @@ export function BoardDetailPage({
               </Button>
             )}
 
+            {boardWatches.isLoaded && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => void boardWatches.toggleWatch()}
+                disabled={boardWatches.isPending}
+                aria-pressed={boardWatches.findWatch() !== null}
+                title={
+                  boardWatches.findWatch()
+                    ? t("watchers.unwatchBoard")
+                    : t("watchers.watchBoard")
+                }
+                className="size-8 text-muted-foreground hover:text-foreground"
+              >
+                {boardWatches.findWatch() ? (
+                  <EyeOff className="size-4" />
+                ) : (
+                  <Eye className="size-4" />
+                )}
+                <span className="sr-only">
+                  {boardWatches.findWatch()
+                    ? t("watchers.unwatchBoard")
+                    : t("watchers.watchBoard")}
+                </span>
+              </Button>
+            )}
+
             {canManageBoard && (
               <Button
                 variant="ghost"
@@ -377,6 +519,16 @@ export function BoardDetailPage({
                     <Edit className="mr-2 h-4 w-4" />
                     {t("board.editBoard")}
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowWebhooks(true)}>
+                    <Webhook className="mr-2 h-4 w-4" />
+                    {t("webhooks.menuItem")}
+                  </DropdownMenuItem>
+                  {!isReadOnly && (
+                    <DropdownMenuItem onClick={() => setShowTrash(true)}>
+                      <Trash className="mr-2 h-4 w-4" />
+                      {t("trash.menuItem")}
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem onClick={handleArchiveBoard}>
                     <Archive className="mr-2 h-4 w-4" />
                     {board.isArchived
@@ -402,6 +554,21 @@ export function BoardDetailPage({
         }
       />
 
+      {isReadOnly && (
+        <div className="flex flex-wrap items-center justify-between gap-2 border-b bg-muted/50 px-4 py-2 text-sm text-muted-foreground sm:px-6 lg:px-8">
+          <span className="flex items-center gap-2">
+            <Archive className="h-4 w-4 shrink-0" />
+            {t("board.archivedReadOnly")}
+          </span>
+          {canManageBoard && (
+            <Button variant="outline" size="sm" onClick={handleArchiveBoard}>
+              <ArchiveRestore className="mr-2 h-4 w-4" />
+              {t("board.unarchive")}
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 min-h-0">
         <KanbanBoard
@@ -413,11 +580,19 @@ export function BoardDetailPage({
           currentUser={currentUser || null}
           presenceMembers={presenceMembers}
           onEditingCardChange={handleEditingCardChange}
-          userRole={userRole}
+          userRole={isReadOnly ? "viewer" : userRole}
           initialCardId={initialCardId}
           onInitialCardOpened={() => {
-            router.replace(`/boards/${boardId}`);
+            const params = new URLSearchParams(window.location.search);
+            params.delete("cardId");
+            const query = params.toString();
+            router.replace(`/boards/${boardId}${query ? `?${query}` : ""}`);
           }}
+          view={view}
+          filters={viewState.filters}
+          onFiltersChange={(filters) =>
+            setViewState((prev) => ({ ...prev, filters }))
+          }
         />
       </main>
 
@@ -442,6 +617,21 @@ export function BoardDetailPage({
         onBoardUpdated={handleBoardUpdated}
       />
 
+      <BoardWebhooksDialog
+        boardId={boardId}
+        open={showWebhooks}
+        onOpenChange={setShowWebhooks}
+      />
+
+      <BoardTrashDialog
+        boardId={boardId}
+        open={showTrash}
+        onOpenChange={handleTrashChange}
+        onCardRestored={() => {
+          restoredFromTrashRef.current = true;
+        }}
+      />
+
       <UserManagementModal
         open={showMembersModal}
         onOpenChange={handleMembersModalChange}
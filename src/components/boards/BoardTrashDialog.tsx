@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Loader2, RotateCcw } from "lucide-react";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { formatDateTime, formatDisplayDate } from "@/lib/date-format";
+import { t } from "@/lib/i18n";
+import type { TrashedCard } from "@/lib/card-trash";
+
+const fetcher = (url: string) =>
+  fetch(url).then((r) => {
+    if (!r.ok) throw new Error(t("trash.loadError"));
+    return r.json();
+  });
+
+interface BoardTrashDialogProps {
+  boardId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after a card is back on the board, so the caller can reload it
+  onCardRestored?: (cardId: string) => void;
+}
+
+export function BoardTrashDialog({
+  boardId,
+  open,
+  onOpenChange,
+  onCardRestored,
+}: BoardTrashDialogProps) {
+  const {
+    data,
+    error: loadError,
+    isLoading,
+    mutate,
+  } = useSWR<{ retentionDays: number; cards: TrashedCard[] }>(
+    open ? `/api/boards/${boardId}/trash` : null,
+    fetcher,
+  );
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const close = (nextOpen: boolean) => {
+    if (!nextOpen) setError(null);
+    onOpenChange(nextOpen);
+  };
+
+  const restore = async (card: TrashedCard) => {
+    setRestoringId(card.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/cards/${card.id}/restore`, {
+        method: "POST",
+      });
+      if (!res.ok) {
+        const json = (await res.json().catch(() => ({}))) as {
+          error?: string;
+        };
+        setError(json.error ?? t("trash.restoreError"));
+        return;
+      }
+      await mutate(
+        (current) =>
+          current && {
+            ...current,
+            cards: current.cards.filter((c) => c.id !== card.id),
+          },
+        { revalidate: false },
+      );
+      onCardRestored?.(card.id);
+    } catch {
+      setError(t("trash.restoreError"));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const cards = data?.cards ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("trash.title")}</DialogTitle>
+          {data && (
+            <DialogDescription>
+              {t("trash.description", { days: data.retentionDays })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {loadError && (
+          <p className="text-sm text-destructive">{t("trash.loadError")}</p>
+        )}
+        {isLoading && (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+        {data && cards.length === 0 && (
+          <p className="text-sm text-muted-foreground">{t("trash.empty")}</p>
+        )}
+
+        <div className="space-y-2">
+          {cards.map((card) => (
+            <div
+              key={card.id}
+              className="flex items-start justify-between gap-3 rounded-md border p-3"
+            >
+              <div className="min-w-0 space-y-1">
+                <p className="truncate text-sm font-medium">{card.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {card.deletedBy
+                    ? t("trash.deletedBy", {
+                        name: card.deletedBy.name || card.deletedBy.email,
+                        date: formatDateTime(card.deletedAt),
+                      })
+                    : t("trash.deletedAt", {
+                        date: formatDateTime(card.deletedAt),
+                      })}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {card.columnTitle &&
+                    `${t("trash.column", { column: card.columnTitle })} · `}
+                  {t("trash.purgeAt", {
+                    date: formatDisplayDate(card.purgeAt),
+                  })}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="shrink-0"
+                onClick={() => void restore(card)}
+                disabled={restoringId !== null}
+              >
+                {restoringId === card.id ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                )}
+                {t("trash.restore")}
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,393 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Check, Copy, KeyRound, Send, Trash2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Badge } from "../ui/badge";
+import { Checkbox } from "../ui/checkbox";
+import { Switch } from "../ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  WEBHOOK_EVENT_TYPES,
+  type WebhookEventType,
+} from "@/lib/webhooks/events";
+import { formatDateTime } from "@/lib/date-format";
+import { t } from "@/lib/i18n";
+
+const EVENT_LABEL_KEYS = {
+  "card.created": "webhooks.events.cardCreated",
+  "card.moved": "webhooks.events.cardMoved",
+  "card.completed": "webhooks.events.cardCompleted",
+  "comment.created": "webhooks.events.commentCreated",
+  "deadline.changed": "webhooks.events.deadlineChanged",
+} as const satisfies Record<WebhookEventType, string>;
+
+const DELIVERY_STATUS_KEYS = {
+  pending: "webhooks.statusPending",
+  succeeded: "webhooks.statusSucceeded",
+  failed: "webhooks.statusFailed",
+} as const;
+
+interface Webhook {
+  id: string;
+  url: string;
+  eventTypes: WebhookEventType[];
+  isActive: boolean;
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventType: string;
+  status: keyof typeof DELIVERY_STATUS_KEYS;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+}
+
+const fetcher = (url: string) =>
+  fetch(url).then((r) => {
+    if (!r.ok) throw new Error(t("webhooks.loadError"));
+    return r.json();
+  });
+
+async function readError(res: Response, fallback: string) {
+  const json = (await res.json().catch(() => ({}))) as { error?: string };
+  return json.error ?? fallback;
+}
+
+function toggle<T>(list: T[], value: T, checked: boolean): T[] {
+  return checked ? [...list, value] : list.filter((v) => v !== value);
+}
+
+interface BoardWebhooksDialogProps {
+  boardId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function BoardWebhooksDialog({
+  boardId,
+  open,
+  onOpenChange,
+}: BoardWebhooksDialogProps) {
+  const baseUrl = `/api/boards/${boardId}/webhooks`;
+  const {
+    data,
+    error: loadError,
+    mutate,
+  } = useSWR<{ webhooks: Webhook[] }>(open ? baseUrl : null, fetcher);
+  const [url, setUrl] = useState("");
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, string>>({});
+
+  const { data: deliveriesData } = useSWR<{ deliveries: WebhookDelivery[] }>(
+    open && expandedId ? `${baseUrl}/${expandedId}/deliveries` : null,
+    fetcher,
+  );
+
+  const close = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setUrl("");
+      setEventTypes([]);
+      setError(null);
+      setSecret(null);
+      setCopied(false);
+      setExpandedId(null);
+      setTestResults({});
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const create = async () => {
+    setSubmitting(true);
+    setError(null);
+    const res = await fetch(baseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url: url.trim(), eventTypes }),
+    });
+    setSubmitting(false);
+    if (!res.ok) {
+      setError(await readError(res, t("webhooks.createError")));
+      return;
+    }
+    const json = (await res.json()) as { secret: string };
+    setSecret(json.secret);
+    setUrl("");
+    setEventTypes([]);
+    await mutate();
+  };
+
+  const update = async (id: string, body: Record<string, unknown>) => {
+    setError(null);
+    const res = await fetch(`${baseUrl}/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      setError(await readError(res, t("webhooks.updateError")));
+      return;
+    }
+    const json = (await res.json()) as { secret?: string };
+    if (json.secret) setSecret(json.secret);
+    await mutate();
+  };
+
+  const remove = async (id: string) => {
+    setError(null);
+    const res = await fetch(`${baseUrl}/${id}`, { method: "DELETE" });
+    if (!res.ok) {
+      setError(await readError(res, t("webhooks.deleteError")));
+      return;
+    }
+    if (expandedId === id) setExpandedId(null);
+    await mutate();
+  };
+
+  const sendTest = async (id: string) => {
+    const res = await fetch(`${baseUrl}/${id}/test`, { method: "POST" });
+    const json = (await res.json().catch(() => ({}))) as {
+      delivery?: { status: string; statusCode: number | null; error: string };
+      error?: string;
+    };
+    const message =
+      json.delivery?.status === "succeeded"
+        ? t("webhooks.testSucceeded", {
+            status: json.delivery.statusCode ?? "",
+          })
+        : t("webhooks.testFailed", {
+            error: json.delivery?.error ?? json.error ?? "",
+          });
+    setTestResults((prev) => ({ ...prev, [id]: message }));
+  };
+
+  const webhooks = data?.webhooks ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("webhooks.title")}</DialogTitle>
+          <DialogDescription>{t("webhooks.description")}</DialogDescription>
+        </DialogHeader>
+
+        {secret && (
+          <div className="space-y-2 rounded-md border p-3">
+            <p className="text-sm font-medium">{t("webhooks.secretTitle")}</p>
+            <p className="text-xs text-muted-foreground">
+              {t("webhooks.secretOnce")}
+            </p>
+            <div className="rounded-md bg-muted px-3 py-2 font-mono text-sm break-all">
+              {secret}
+            </div>
+            <Button
+              size="sm"
+              onClick={async () => {
+                await navigator.clipboard.writeText(secret);
+                setCopied(true);
+                window.setTimeout(() => setCopied(false), 2000);
+              }}
+            >
+              {copied ? (
+                <>
+                  <Check className="w-4 h-4 mr-2" />
+                  {t("webhooks.secretCopied")}
+                </>
+              ) : (
+                <>
+                  <Copy className="w-4 h-4 mr-2" />
+                  {t("webhooks.secretCopy")}
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {loadError && (
+            <p className="text-sm text-destructive">
+              {t("webhooks.loadError")}
+            </p>
+          )}
+          {data && webhooks.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {t("webhooks.empty")}
+            </p>
+          )}
+          {webhooks.map((webhook) => (
+            <div key={webhook.id} className="space-y-2 rounded-md border p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-mono text-sm break-all">{webhook.url}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {webhook.eventTypes.map((type) => (
+                      <Badge key={type} variant="secondary">
+                        {t(EVENT_LABEL_KEYS[type])}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <label className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                  {webhook.isActive
+                    ? t("webhooks.active")
+                    : t("webhooks.paused")}
+                  <Switch
+                    checked={webhook.isActive}
+                    onCheckedChange={(checked) =>
+                      update(webhook.id, { isActive: checked })
+                    }
+                  />
+                </label>
+              </div>
+              <div className="flex flex-wrap items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => sendTest(webhook.id)}
+                >
+                  <Send className="w-4 h-4 mr-2" />
+                  {t("webhooks.sendTest")}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setExpandedId(expandedId === webhook.id ? null : webhook.id)
+                  }
+                >
+                  {expandedId === webhook.id
+                    ? t("webhooks.hideDeliveries")
+                    : t("webhooks.showDeliveries")}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update(webhook.id, { rotateSecret: true })}
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  {t("webhooks.rotateSecret")}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => remove(webhook.id)}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  {t("webhooks.delete")}
+                </Button>
+              </div>
+              {testResults[webhook.id] && (
+                <p className="text-xs text-muted-foreground">
+                  {testResults[webhook.id]}
+                </p>
+              )}
+              {expandedId === webhook.id && (
+                <div className="space-y-1 border-t pt-2">
+                  {deliveriesData?.deliveries.length === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {t("webhooks.noDeliveries")}
+                    </p>
+                  )}
+                  {deliveriesData?.deliveries.map((delivery) => (
+                    <div
+                      key={delivery.id}
+                      className="flex flex-wrap items-center gap-2 text-xs"
+                    >
+                      <Badge
+                        variant={
+                          delivery.status === "failed"
+                            ? "destructive"
+                            : "outline"
+                        }
+                      >
+                        {t(DELIVERY_STATUS_KEYS[delivery.status])}
+                      </Badge>
+                      <span className="font-mono">{delivery.eventType}</span>
+                      <span className="text-muted-foreground">
+                        {formatDateTime(delivery.createdAt)}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {t("webhooks.deliveryAttempts", {
+                          count: delivery.attempts,
+                        })}
+                      </span>
+                      {delivery.lastError && (
+                        <span className="text-destructive">
+                          {delivery.lastError}
+                        </span>
+                      )}
+                      {delivery.nextAttemptAt && (
+                        <span className="text-muted-foreground">
+                          {t("webhooks.deliveryNextAttempt", {
+                            date: formatDateTime(delivery.nextAttemptAt),
+                          })}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">{t("webhooks.urlLabel")}</Label>
+            <Input
+              id="webhook-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder={t("webhooks.urlPlaceholder")}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t("webhooks.eventsLabel")}</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {WEBHOOK_EVENT_TYPES.map((type) => (
+                <label key={type} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={eventTypes.includes(type)}
+                    onCheckedChange={(checked) =>
+                      setEventTypes((prev) =>
+                        toggle(prev, type, checked === true),
+                      )
+                    }
+                  />
+                  {t(EVENT_LABEL_KEYS[type])}
+                </label>
+              ))}
+            </div>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <div className="flex justify-end">
+            <Button
+              onClick={create}
+              disabled={submitting || !url.trim() || eventTypes.length === 0}
+            >
+              {t("webhooks.add")}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -31,6 +31,7 @@ import { CreateBoardDialog } from "@/components/boards/CreateBoardDialog";
 import { EditBoardDialog } from "@/components/boards/EditBoardDialog";
 import { DeleteBoardDialog } from "@/components/boards/DeleteBoardDialog";
 import { BoardCard, BoardCardData } from "@/components/boards/BoardCard";
+import { ArchivedBoardsSection } from "@/components/boards/ArchivedBoardsSection";
 import type { Board, BoardWithDetails } from "@/types/database";
 import { ContentTopBar } from "@/components/layout/ContentTopBar";
 import { CreateGroupDialog } from "@/components/board-groups/CreateGroupDialog";
@@ -195,6 +196,22 @@ export function BoardsContent({
     return filtered;
   }, [boards, searchQuery, filterBy]);
 
+  // Outside the "archived" filter, archived boards move to their own section
+  const activeBoards = useMemo(
+    () =>
+      filterBy === "archived"
+        ? filteredBoards
+        : filteredBoards.filter((board) => !board.isArchived),
+    [filteredBoards, filterBy],
+  );
+  const archivedBoards = useMemo(
+    () =>
+      filterBy === "archived"
+        ? []
+        : filteredBoards.filter((board) => board.isArchived),
+    [filteredBoards, filterBy],
+  );
+
   const handleBoardCreated = (newBoard: Board) => {
     addBoard(newBoard as BoardWithDetails);
     setShowCreateBoard(false);
@@ -204,11 +221,15 @@ export function BoardsContent({
     id: string;
     name: string;
     description?: string | null;
+    isArchived?: boolean;
   }) => {
     updateBoardInList({
       id: updated.id,
       name: updated.name,
       description: updated.description ?? null,
+      ...(updated.isArchived !== undefined && {
+        isArchived: updated.isArchived,
+      }),
     });
     setEditingBoard(null);
   };
@@ -250,17 +271,41 @@ export function BoardsContent({
   const getFilterCount = (filter: string) => {
     switch (filter) {
       case "owned":
-        return boards.filter((b) => b.role === "owner").length;
+        return boards.filter((b) => b.role === "owner" && !b.isArchived).length;
       case "member":
-        return boards.filter((b) => b.role === "member" || b.role === "admin")
-          .length;
+        return boards.filter(
+          (b) => (b.role === "member" || b.role === "admin") && !b.isArchived,
+        ).length;
       case "archived":
         return boards.filter((b) => b.isArchived).length;
       default:
-        return boards.length;
+        return boards.filter((b) => !b.isArchived).length;
     }
   };
 
+  const renderBoardList = (list: BoardWithDetails[]) => (
+    <div
+      className={
+        viewMode === "grid"
+          ? "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
+          : "space-y-4"
+      }
+    >
+      {list.map((board) => (
+        <BoardCard
+          key={board.id}
+          board={board as unknown as BoardCardData}
+          viewMode={viewMode}
+          groupOptions={groupOptions}
+          onEdit={() => setEditingBoard(board)}
+          onArchive={() => handleArchiveBoard(board)}
+          onDelete={() => handleDeleteBoard(board)}
+          onAssignGroup={(gid) => handleAssignGroup(board.id, gid)}
+        />
+      ))}
+    </div>
+  );
+
   return (
     <div className="flex min-h-screen flex-col">
       <ContentTopBar
@@ -457,26 +502,11 @@ export function BoardsContent({
               </section>
             )}
 
-            <div
-              className={
-                viewMode === "grid"
-                  ? "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
-                  : "space-y-4"
-              }
-            >
-              {filteredBoards.map((board) => (
-                <BoardCard
-                  key={board.id}
-                  board={board as unknown as BoardCardData}
-                  viewMode={viewMode}
-                  groupOptions={groupOptions}
-                  onEdit={() => setEditingBoard(board)}
-                  onArchive={() => handleArchiveBoard(board)}
-                  onDelete={() => handleDeleteBoard(board)}
-                  onAssignGroup={(gid) => handleAssignGroup(board.id, gid)}
-                />
-              ))}
-            </div>
+            {activeBoards.length > 0 && renderBoardList(activeBoards)}
+
+            <ArchivedBoardsSection count={archivedBoards.length}>
+              {renderBoardList(archivedBoards)}
+            </ArchivedBoardsSection>
           </>
         )}
 
@@ -1,10 +1,11 @@
 "use client";
 
-import { useActionState } from "react";
+import { useActionState, useState } from "react";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { Textarea } from "../ui/textarea";
+import { Switch } from "../ui/switch";
 import {
   Dialog,
   DialogContent,
@@ -13,23 +14,33 @@ import {
   DialogHeader,
   DialogTitle,
 } from "../ui/dialog";
-import { Edit, Loader2 } from "lucide-react";
+import { Archive, ArchiveRestore, Download, Edit, Loader2 } from "lucide-react";
 import { t } from "@/lib/i18n";
+import {
+  MAX_TRASH_RETENTION_DAYS,
+  MIN_TRASH_RETENTION_DAYS,
+} from "@/lib/card-trash";
 import { updateBoardAction } from "@/app/actions/boards";
 import {
   INITIAL_BOARD_STATE,
   type BoardActionState,
 } from "@/app/actions/boards-state";
 
+type EditableBoard = {
+  id: string;
+  name: string;
+  description?: string | null;
+  // Only shown (and saved) where the caller knows the current value
+  enforceDependencies?: boolean;
+  trashRetentionDays?: number;
+  isArchived?: boolean;
+};
+
 interface EditBoardDialogProps {
-  board: { id: string; name: string; description?: string | null } | null;
+  board: EditableBoard | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onBoardUpdated?: (board: {
-    id: string;
-    name: string;
-    description?: string | null;
-  }) => void;
+  onBoardUpdated?: (board: EditableBoard) => void;
 }
 
 export function EditBoardDialog({
@@ -63,16 +74,14 @@ function EditBoardForm({
   onClose,
   onBoardUpdated,
 }: {
-  board: { id: string; name: string; description?: string | null };
+  board: EditableBoard;
   onClose: () => void;
-  onBoardUpdated:
-    | ((board: {
-        id: string;
-        name: string;
-        description?: string | null;
-      }) => void)
-    | undefined;
+  onBoardUpdated: ((board: EditableBoard) => void) | undefined;
 }) {
+  const [enforceDependencies, setEnforceDependencies] = useState(
+    board.enforceDependencies ?? false,
+  );
+
   const handleAction = async (
     prev: BoardActionState,
     formData: FormData,
@@ -83,6 +92,8 @@ function EditBoardForm({
         id: result.board.id,
         name: result.board.name,
         description: result.board.description ?? null,
+        enforceDependencies: result.board.enforceDependencies,
+        trashRetentionDays: result.board.trashRetentionDays,
       });
       onClose();
     }
@@ -94,7 +105,81 @@ function EditBoardForm({
     INITIAL_BOARD_STATE,
   );
 
-  const errorMessage = state.status === "error" ? state.error : null;
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Downloads the board as a changeset document (see /api/boards/[id]/export)
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const res = await fetch(
+        `/api/boards/${board.id}/export?format=changeset`,
+      );
+      if (!res.ok) {
+        const json = (await res.json().catch(() => ({}))) as {
+          error?: string;
+        };
+        setExportError(json.error ?? t("editBoard.exportError"));
+        return;
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${board.name.replace(/[^\p{L}\p{N}_-]+/gu, "-")}.changeset.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch {
+      setExportError(t("editBoard.exportError"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [archiveError, setArchiveError] = useState<string | null>(null);
+
+  const handleToggleArchive = async () => {
+    setIsArchiving(true);
+    setArchiveError(null);
+    try {
+      const res = await fetch(`/api/boards/${board.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isArchived: !board.isArchived }),
+      });
+      if (!res.ok) {
+        const json = (await res.json().catch(() => ({}))) as {
+          error?: string;
+        };
+        setArchiveError(json.error ?? t("board.archiveError"));
+        return;
+      }
+      const { board: updated } = (await res.json()) as {
+        board: { isArchived: boolean };
+      };
+      onBoardUpdated?.({
+        id: board.id,
+        name: board.name,
+        description: board.description ?? null,
+        isArchived: updated.isArchived,
+      });
+      onClose();
+    } catch {
+      setArchiveError(t("board.archiveError"));
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  const errorMessage =
+    state.status === "error"
+      ? state.error
+      : (exportError ?? archiveError ?? null);
+  const isBusy = isPending || isArchiving;
 
   return (
     <form action={formAction} className="space-y-4 sm:space-y-6">
@@ -135,16 +220,99 @@ function EditBoardForm({
         />
       </div>
 
+      {board.enforceDependencies !== undefined && (
+        <div className="flex items-start justify-between gap-4">
+          <div className="grid gap-1">
+            <Label htmlFor="enforceDependencies">
+              {t("dependencies.enforce")}
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              {t("dependencies.enforceHint")}
+            </p>
+          </div>
+          <input
+            type="hidden"
+            name="enforceDependencies"
+            value={String(enforceDependencies)}
+          />
+          <Switch
+            id="enforceDependencies"
+            checked={enforceDependencies}
+            onCheckedChange={setEnforceDependencies}
+            disabled={isPending}
+          />
+        </div>
+      )}
+
+      {board.trashRetentionDays !== undefined && (
+        <div className="flex items-start justify-between gap-4">
+          <div className="grid gap-1">
+            <Label htmlFor="trashRetentionDays">
+              {t("trash.retentionLabel")}
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              {t("trash.retentionHint")}
+            </p>
+          </div>
+          <Input
+            id="trashRetentionDays"
+            name="trashRetentionDays"
+            type="number"
+            min={MIN_TRASH_RETENTION_DAYS}
+            max={MAX_TRASH_RETENTION_DAYS}
+            step={1}
+            required
+            className="w-24 shrink-0"
+            disabled={isPending}
+            defaultValue={board.trashRetentionDays}
+          />
+        </div>
+      )}
+
       <DialogFooter className="pt-4 sm:pt-6 border-t">
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:mr-auto">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={handleExport}
+            disabled={isBusy || isExporting}
+            title={t("editBoard.exportHint")}
+          >
+            {isExporting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            {t("editBoard.export")}
+          </Button>
+          {board.isArchived !== undefined && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={handleToggleArchive}
+              disabled={isBusy}
+              title={board.isArchived ? undefined : t("editBoard.archiveHint")}
+            >
+              {isArchiving ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : board.isArchived ? (
+                <ArchiveRestore className="w-4 h-4 mr-2" />
+              ) : (
+                <Archive className="w-4 h-4 mr-2" />
+              )}
+              {board.isArchived ? t("board.unarchive") : t("board.archive")}
+            </Button>
+          )}
+        </div>
         <Button
           type="button"
           variant="outline"
           onClick={onClose}
-          disabled={isPending}
+          disabled={isBusy}
         >
           {t("common.cancel")}
         </Button>
-        <Button type="submit" disabled={isPending}>
+        <Button type="submit" disabled={isBusy}>
           {isPending ? (
             <>
               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -0,0 +1,400 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import {
+  Bookmark,
+  Check,
+  Link2,
+  Loader2,
+  Save,
+  Trash2,
+  Users,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  isSameBoardViewState,
+  type BoardViewState,
+  type SavedBoardView,
+} from "@/lib/board-views";
+import { t } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+interface SavedViewsMenuProps {
+  boardId: string;
+  currentUserId: string | null;
+  state: BoardViewState;
+  activeViewId: string | null;
+  onSelect: (view: SavedBoardView) => void;
+  onActiveViewChange: (viewId: string | null) => void;
+}
+
+const readError = async (response: Response) => {
+  const body = await response.json().catch(() => ({}));
+  return (body as { error?: string }).error ?? t("savedViews.requestFailed");
+};
+
+/**
+ * Dropdown of the board's saved filter views: the caller's own views and
+ * the ones other members shared. The current filters can be saved as a new
+ * view or written back into the selected one.
+ */
+export function SavedViewsMenu({
+  boardId,
+  currentUserId,
+  state,
+  activeViewId,
+  onSelect,
+  onActiveViewChange,
+}: SavedViewsMenuProps) {
+  const { data, mutate } = useSWR<{ views: SavedBoardView[] }>(
+    `/api/boards/${boardId}/views`,
+  );
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const views = data?.views ?? [];
+  const ownViews = views.filter((view) => view.createdBy === currentUserId);
+  const sharedViews = views.filter(
+    (view) => view.createdBy !== currentUserId && view.isShared,
+  );
+  const activeView = views.find((view) => view.id === activeViewId) ?? null;
+  const isOwnActiveView = activeView?.createdBy === currentUserId;
+  const isModified =
+    !!activeView &&
+    !isSameBoardViewState(state, {
+      filters: activeView.filters,
+      view: activeView.viewMode,
+    });
+
+  const updateActiveView = async (
+    patch: Partial<
+      Pick<SavedBoardView, "filters" | "viewMode" | "isShared" | "name">
+    >,
+  ) => {
+    if (!activeView) return;
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/boards/${boardId}/views/${activeView.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(patch),
+        },
+      );
+      if (!response.ok) {
+        setError(await readError(response));
+        return;
+      }
+      await mutate();
+    } catch (err) {
+      console.error("Failed to update saved view:", err);
+      setError(t("savedViews.requestFailed"));
+    }
+  };
+
+  const deleteActiveView = async () => {
+    if (!activeView) return;
+    if (!confirm(t("savedViews.deleteConfirm", { name: activeView.name }))) {
+      return;
+    }
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/boards/${boardId}/views/${activeView.id}`,
+        { method: "DELETE" },
+      );
+      if (!response.ok) {
+        setError(await readError(response));
+        return;
+      }
+      onActiveViewChange(null);
+      await mutate();
+    } catch (err) {
+      console.error("Failed to delete saved view:", err);
+      setError(t("savedViews.requestFailed"));
+    }
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const renderViewItem = (view: SavedBoardView) => (
+    <DropdownMenuItem
+      key={view.id}
+      onClick={() => onSelect(view)}
+      className="gap-2"
+    >
+      {view.id === activeViewId ? (
+        <Check className="size-4 shrink-0" />
+      ) : (
+        <span className="size-4 shrink-0" />
+      )}
+      <span className="truncate">{view.name}</span>
+      {view.isShared && view.createdBy === currentUserId && (
+        <Users
+          className="ml-auto size-3.5 shrink-0 text-muted-foreground"
+          aria-label={t("savedViews.shared")}
+        />
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            title={t("savedViews.title")}
+            className={cn(
+              "h-8 max-w-48 gap-1.5 px-2 text-muted-foreground hover:text-foreground",
+              activeView && "text-foreground",
+            )}
+          >
+            <Bookmark className="size-4 shrink-0" />
+            <span className="hidden truncate text-[13px] sm:inline">
+              {activeView ? activeView.name : t("savedViews.title")}
+              {isModified && " *"}
+            </span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          {ownViews.length > 0 && (
+            <DropdownMenuGroup>
+              <DropdownMenuLabel className="py-1 text-xs text-muted-foreground">
+                {t("savedViews.myViews")}
+              </DropdownMenuLabel>
+              {ownViews.map(renderViewItem)}
+            </DropdownMenuGroup>
+          )}
+          {sharedViews.length > 0 && (
+            <DropdownMenuGroup>
+              <DropdownMenuLabel className="py-1 text-xs text-muted-foreground">
+                {t("savedViews.sharedViews")}
+              </DropdownMenuLabel>
+              {sharedViews.map(renderViewItem)}
+            </DropdownMenuGroup>
+          )}
+          {views.length === 0 && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">
+              {t("savedViews.empty")}
+            </p>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setShowSaveDialog(true)}
+            className="gap-2"
+          >
+            <Save className="size-4" />
+            {t("savedViews.saveAs")}
+          </DropdownMenuItem>
+          {activeView && isOwnActiveView && isModified && (
+            <DropdownMenuItem
+              onClick={() =>
+                void updateActiveView({
+                  filters: state.filters,
+                  viewMode: state.view,
+                })
+              }
+              className="gap-2"
+            >
+              <Save className="size-4" />
+              {t("savedViews.update", { name: activeView.name })}
+            </DropdownMenuItem>
+          )}
+          {activeView && isOwnActiveView && (
+            <>
+              <DropdownMenuItem
+                onClick={() =>
+                  void updateActiveView({ isShared: !activeView.isShared })
+                }
+                className="gap-2"
+              >
+                <Users className="size-4" />
+                {activeView.isShared
+                  ? t("savedViews.unshare")
+                  : t("savedViews.share")}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => void deleteActiveView()}
+                className="gap-2 text-destructive focus:text-destructive"
+              >
+                <Trash2 className="size-4" />
+                {t("savedViews.delete")}
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onSelect={(event) => {
+              event.preventDefault();
+              void copyLink();
+            }}
+            className="gap-2"
+          >
+            {copied ? (
+              <Check className="size-4" />
+            ) : (
+              <Link2 className="size-4" />
+            )}
+            {copied ? t("savedViews.linkCopied") : t("savedViews.copyLink")}
+          </DropdownMenuItem>
+          {error && (
+            <p role="alert" className="px-2 py-1.5 text-xs text-destructive">
+              {error}
+            </p>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t("savedViews.saveTitle")}</DialogTitle>
+            <DialogDescription>
+              {t("savedViews.saveDescription")}
+            </DialogDescription>
+          </DialogHeader>
+          {showSaveDialog && (
+            <SaveViewForm
+              boardId={boardId}
+              state={state}
+              onClose={() => setShowSaveDialog(false)}
+              onSaved={async (view) => {
+                await mutate();
+                onActiveViewChange(view.id);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+function SaveViewForm({
+  boardId,
+  state,
+  onClose,
+  onSaved,
+}: {
+  boardId: string;
+  state: BoardViewState;
+  onClose: () => void;
+  onSaved: (view: SavedBoardView) => Promise<void>;
+}) {
+  const [name, setName] = useState("");
+  const [isShared, setIsShared] = useState(false);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || isPending) return;
+    setIsPending(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/boards/${boardId}/views`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          isShared,
+          filters: state.filters,
+          viewMode: state.view,
+        }),
+      });
+      if (!response.ok) {
+        setError(await readError(response));
+        return;
+      }
+      const { view } = await response.json();
+      await onSaved(view as SavedBoardView);
+      onClose();
+    } catch (err) {
+      console.error("Failed to save view:", err);
+      setError(t("savedViews.requestFailed"));
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+          {error}
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="saved-view-name">{t("savedViews.nameLabel")}</Label>
+        <Input
+          id="saved-view-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t("savedViews.namePlaceholder")}
+          disabled={isPending}
+          autoFocus
+          required
+          maxLength={80}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="saved-view-shared"
+          checked={isShared}
+          onCheckedChange={(checked) => setIsShared(checked === true)}
+          disabled={isPending}
+        />
+        <Label htmlFor="saved-view-shared" className="font-normal">
+          {t("savedViews.shareWithMembers")}
+        </Label>
+      </div>
+      <DialogFooter>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onClose}
+          disabled={isPending}
+        >
+          {t("common.cancel")}
+        </Button>
+        <Button type="submit" disabled={isPending || !name.trim()}>
+          {isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4 mr-2" />
+          )}
+          {t("savedViews.save")}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
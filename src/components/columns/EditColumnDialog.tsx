@@ -4,6 +4,7 @@ import { useState } from "react";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
 import {
   Dialog,
   DialogContent,
@@ -13,15 +14,16 @@ import {
   DialogTitle,
 } from "../ui/dialog";
 import { Loader2 } from "lucide-react";
-import { useForm } from "react-hook-form";
+import { Controller, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useAppActions, useAppState } from "@/store";
 import type { Column } from "@/types/database";
 import { t } from "@/lib/i18n";
 import {
-  createColumnSchema,
+  createEditColumnSchema,
   getColumnMutationErrorMessage,
-  type ColumnFormValues,
+  parseWipLimitInput,
+  type EditColumnFormValues,
 } from "./column-dialog.utils";
 
 interface EditColumnDialogProps {
@@ -30,7 +32,7 @@ interface EditColumnDialogProps {
   column: Column | null;
 }
 
-const schema = createColumnSchema();
+const schema = createEditColumnSchema();
 
 export function EditColumnDialog({
   open,
@@ -72,14 +74,19 @@ function EditColumnForm({
 
   const {
     register,
+    control,
     handleSubmit: rhfHandleSubmit,
     formState: { errors },
-  } = useForm<ColumnFormValues>({
+  } = useForm<EditColumnFormValues>({
     resolver: zodResolver(schema),
-    defaultValues: { title: column.title },
+    defaultValues: {
+      title: column.title,
+      wipLimit: column.wipLimit !== null ? String(column.wipLimit) : "",
+      wipLimitHard: column.wipLimitHard,
+    },
   });
 
-  const onSubmit = async (data: ColumnFormValues) => {
+  const onSubmit = async (data: EditColumnFormValues) => {
     setIsLoading(true);
     setError("");
 
@@ -87,7 +94,11 @@ function EditColumnForm({
       const response = await fetch(`/api/columns/${column.id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title: data.title }),
+        body: JSON.stringify({
+          title: data.title,
+          wipLimit: parseWipLimitInput(data.wipLimit),
+          wipLimitHard: data.wipLimitHard,
+        }),
       });
 
       if (!response.ok) {
@@ -136,6 +147,45 @@ function EditColumnForm({
             <p className="text-sm text-red-600">{errors.title.message}</p>
           )}
         </div>
+        <div className="grid gap-2">
+          <Label htmlFor="wipLimit">{t("columns.wipLimit")}</Label>
+          <Input
+            id="wipLimit"
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={999}
+            placeholder={t("columns.wipLimitPlaceholder")}
+            disabled={isLoading}
+            {...register("wipLimit")}
+          />
+          <p className="text-xs text-muted-foreground">
+            {t("columns.wipLimitHint")}
+          </p>
+          {errors.wipLimit && (
+            <p className="text-sm text-red-600">{errors.wipLimit.message}</p>
+          )}
+        </div>
+        <div className="flex items-start justify-between gap-4">
+          <div className="grid gap-1">
+            <Label htmlFor="wipLimitHard">{t("columns.wipLimitHard")}</Label>
+            <p className="text-xs text-muted-foreground">
+              {t("columns.wipLimitHardHint")}
+            </p>
+          </div>
+          <Controller
+            name="wipLimitHard"
+            control={control}
+            render={({ field }) => (
+              <Switch
+                id="wipLimitHard"
+                checked={field.value}
+                onCheckedChange={field.onChange}
+                disabled={isLoading}
+              />
+            )}
+          />
+        </div>
         {error && <div className="text-sm text-red-600">{error}</div>}
       </div>
       <DialogFooter>
@@ -5,6 +5,12 @@ export interface ColumnFormValues {
   title: string;
 }
 
+export interface EditColumnFormValues extends ColumnFormValues {
+  /** Raw input; empty means "no limit". */
+  wipLimit: string;
+  wipLimitHard: boolean;
+}
+
 export type ColumnMutationErrorKey =
   | "failedToCreate"
   | "failedToUpdate"
@@ -16,6 +22,26 @@ export function createColumnSchema() {
   });
 }
 
+export function createEditColumnSchema() {
+  return createColumnSchema().extend({
+    wipLimit: z
+      .string()
+      .trim()
+      .refine(
+        (value) =>
+          value === "" ||
+          (/^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 999),
+        t("columns.wipLimitInvalid"),
+      ),
+    wipLimitHard: z.boolean(),
+  });
+}
+
+export function parseWipLimitInput(value: string): number | null {
+  const trimmed = value.trim();
+  return trimmed === "" ? null : Number(trimmed);
+}
+
 export function getColumnMutationErrorMessage(
   errorData: unknown,
   fallbackKey: ColumnMutationErrorKey,
@@ -20,6 +20,7 @@ import {
 import { CreateBoardDialog } from "@/components/boards/CreateBoardDialog";
 import { EditBoardDialog } from "@/components/boards/EditBoardDialog";
 import { BoardCard } from "@/components/boards/BoardCard";
+import { ArchivedBoardsSection } from "@/components/boards/ArchivedBoardsSection";
 import { CreateGroupDialog } from "@/components/board-groups/CreateGroupDialog";
 import { EditGroupDialog } from "@/components/board-groups/EditGroupDialog";
 import { DeleteGroupDialog } from "@/components/board-groups/DeleteGroupDialog";
@@ -108,6 +109,15 @@ export function DashboardContent({
     [boardGroups],
   );
 
+  const activeBoards = useMemo(
+    () => boards.filter((board) => !board.isArchived),
+    [boards],
+  );
+  const archivedBoards = useMemo(
+    () => boards.filter((board) => board.isArchived),
+    [boards],
+  );
+
   // Visible groups: hide empty groups the user didn't create
   const visibleGroups = useMemo(() => {
     return boardGroups.filter(
@@ -129,11 +139,15 @@ export function DashboardContent({
     id: string;
     name: string;
     description?: string | null;
+    isArchived?: boolean;
   }) => {
     updateBoardInList({
       id: updated.id,
       name: updated.name,
       description: updated.description ?? null,
+      ...(updated.isArchived !== undefined && {
+        isArchived: updated.isArchived,
+      }),
     });
   };
 
@@ -246,7 +260,7 @@ export function DashboardContent({
           <div className="grid grid-cols-2 gap-4">
             <KpiCard
               label={t("dashboard.totalBoards")}
-              value={boards.length}
+              value={activeBoards.length}
               icon={<Kanban className="h-4 w-4 text-muted-foreground" />}
             />
             <KpiCard
@@ -336,7 +350,10 @@ export function DashboardContent({
                 </section>
               )}
 
-              {renderBoardGrid(boards)}
+              {activeBoards.length > 0 && renderBoardGrid(activeBoards)}
+              <ArchivedBoardsSection count={archivedBoards.length}>
+                {renderBoardGrid(archivedBoards)}
+              </ArchivedBoardsSection>
             </>
           )}
         </div>
@@ -11,6 +11,7 @@ import {
   Users,
   CheckCircle2,
   ArrowRight,
+  Reply,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { UserAvatar } from "@/components/ui/UserAvatar";
@@ -43,6 +44,10 @@ function typeIcon(type: DashboardActivityType) {
       return <CheckCircle2 className={cls} />;
     case "card_moved":
       return <ArrowRight className={cls} />;
+    case "comment_reply":
+      return <Reply className={cls} />;
+    case "comment":
+      return <MessageSquare className={cls} />;
   }
 }
 
@@ -64,6 +69,10 @@ function typeColor(type: DashboardActivityType): string {
       return "text-green-500";
     case "card_moved":
       return "text-blue-500";
+    case "comment_reply":
+      return "text-blue-500";
+    case "comment":
+      return "text-sky-500";
   }
 }
 
@@ -88,6 +97,10 @@ function activityText(a: DashboardActivity): string {
       return t("notifications.cardCompleted", { actor, card });
     case "card_moved":
       return t("notifications.cardMoved", { actor, card, column: "" });
+    case "comment_reply":
+      return t("notifications.commentReply", { actor, card });
+    case "comment":
+      return t("notifications.comment", { actor, card });
   }
 }
 
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { Check, ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { MAX_CARD_ASSIGNEES } from "@/lib/card-assignees";
+import { t } from "@/lib/i18n";
+
+const MAX_VISIBLE_AVATARS = 3;
+
+type AssigneeOption = {
+  id: string;
+  name?: string | null;
+  email?: string | null;
+  avatarUrl?: string | null;
+};
+
+interface AssigneeMultiSelectProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  members: AssigneeOption[];
+  currentUserId?: string | null;
+  disabled?: boolean;
+}
+
+/**
+ * Picks any number of board members as a card's assignees (up to
+ * MAX_CARD_ASSIGNEES). The first one picked is the primary assignee.
+ */
+export function AssigneeMultiSelect({
+  value,
+  onChange,
+  members,
+  currentUserId,
+  disabled,
+}: AssigneeMultiSelectProps) {
+  const [open, setOpen] = useState(false);
+
+  // The current user first, like the single-assignee select did
+  const options = [...members].sort(
+    (a, b) => Number(b.id === currentUserId) - Number(a.id === currentUserId),
+  );
+  const selected = value.flatMap((id) => {
+    const member = members.find((candidate) => candidate.id === id);
+    return member ? [member] : [];
+  });
+  const primary = selected[0];
+  const isFull = value.length >= MAX_CARD_ASSIGNEES;
+
+  const displayName = (member: AssigneeOption) =>
+    member.id === currentUserId
+      ? `${member.name || member.email} (${t("boardDetail.you")})`
+      : (member.name ?? member.email ?? "");
+
+  const handleToggle = (id: string) => {
+    onChange(
+      value.includes(id)
+        ? value.filter((assigneeId) => assigneeId !== id)
+        : [...value, id],
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className="h-10 w-full justify-between gap-2 px-3 font-normal"
+          disabled={disabled}
+          aria-label={t("editCard.assigneePlaceholder")}
+        >
+          {primary ? (
+            <span className="flex min-w-0 items-center gap-2">
+              <span className="flex shrink-0 items-center -space-x-1.5">
+                {selected.slice(0, MAX_VISIBLE_AVATARS).map((member) => (
+                  <UserAvatar
+                    key={member.id}
+                    name={member.name}
+                    email={member.email}
+                    avatarUrl={member.avatarUrl}
+                    className="h-5 w-5 shrink-0 border border-background"
+                  />
+                ))}
+              </span>
+              <span className="truncate">
+                {primary.name || primary.email}
+                {selected.length > 1 && ` +${selected.length - 1}`}
+              </span>
+            </span>
+          ) : (
+            <span className="truncate text-muted-foreground">
+              {t("editCard.noAssignee")}
+            </span>
+          )}
+          <ChevronDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="start">
+        <p className="px-1.5 pb-2 text-xs text-muted-foreground">
+          {t("editCard.assigneesHint", { max: MAX_CARD_ASSIGNEES })}
+        </p>
+        <div className="max-h-60 overflow-y-auto">
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="flex w-full items-center gap-2 rounded-md px-1.5 py-1 text-left text-sm hover:bg-muted cursor-pointer"
+          >
+            <span className="flex h-4 w-4 shrink-0 items-center justify-center">
+              {value.length === 0 && <Check className="h-3.5 w-3.5" />}
+            </span>
+            {t("editCard.noAssignee")}
+          </button>
+          {options.map((member) => {
+            const isSelected = value.includes(member.id);
+            return (
+              <button
+                key={member.id}
+                type="button"
+                onClick={() => handleToggle(member.id)}
+                disabled={!isSelected && isFull}
+                aria-pressed={isSelected}
+                className="flex w-full items-center gap-2 rounded-md px-1.5 py-1 text-left text-sm hover:bg-muted disabled:opacity-60 cursor-pointer"
+              >
+                <span className="flex h-4 w-4 shrink-0 items-center justify-center">
+                  {isSelected && <Check className="h-3.5 w-3.5" />}
+                </span>
+                <UserAvatar
+                  name={member.name}
+                  email={member.email}
+                  avatarUrl={member.avatarUrl}
+                  className="h-5 w-5 shrink-0"
+                />
+                <span className="min-w-0 flex-1 truncate">
+                  {displayName(member)}
+                </span>
+                {value[0] === member.id && (
+                  <span className="shrink-0 rounded bg-muted px-1 text-[10px] font-medium text-muted-foreground">
+                    {t("editCard.primaryAssignee")}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -24,23 +24,32 @@ import {
   Users,
   SlidersHorizontal,
   Check,
+  Tag,
+  CalendarClock,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { CardPriority } from "@/types/database";
+import type { CardPriority, Label } from "@/types/database";
 import { getPriorityConfig, getAllPriorities } from "@/lib/priority-colors";
+import { normalizeLabelColor } from "@/lib/label-colors";
 import { t } from "@/lib/i18n";
+import {
+  BOARD_DUE_DATE_FILTERS,
+  DEFAULT_BOARD_FILTERS,
+  type BoardDueDateFilter,
+  type BoardFilterValues,
+} from "@/lib/board-views";
+import type { CardQuerySuggestionSource } from "@/lib/card-query";
+import { CardQueryInput } from "./CardQueryInput";
 
-export interface BoardFilters {
-  priorities: CardPriority[];
-  assignees: string[];
-  sortBy: "priority" | "dueDate" | "title" | "created" | "updated";
-  sortOrder: "asc" | "desc";
-}
+export type BoardFilters = BoardFilterValues;
 
 interface BoardFiltersProps {
   filters: BoardFilters;
   onFiltersChange: (filters: BoardFilters) => void;
   availableAssignees: { id: string; name: string; email: string }[];
+  availableLabels?: Pick<Label, "id" | "name" | "color">[];
+  /** Board members offered by the query bar's `assignee:` autocomplete. */
+  queryMembers?: CardQuerySuggestionSource["members"];
   currentUserId?: string | undefined;
   className?: string;
 }
@@ -63,14 +72,23 @@ export function BoardFilters({
   filters,
   onFiltersChange,
   availableAssignees,
+  availableLabels = [],
+  queryMembers = [],
   currentUserId,
   className,
 }: BoardFiltersProps) {
   const priorities = getAllPriorities();
   const hasActiveFilters =
-    filters.priorities.length > 0 || filters.assignees.length > 0;
+    filters.priorities.length > 0 ||
+    filters.assignees.length > 0 ||
+    filters.labels.length > 0 ||
+    filters.dueDate !== null ||
+    filters.search.trim().length > 0;
   const totalActiveFilters =
-    filters.priorities.length + filters.assignees.length;
+    filters.priorities.length +
+    filters.assignees.length +
+    filters.labels.length +
+    (filters.dueDate ? 1 : 0);
 
   const isMyCardsActive =
     !!currentUserId && filters.assignees.includes(currentUserId);
@@ -100,6 +118,20 @@ export function BoardFilters({
     onFiltersChange({ ...filters, assignees: newAssignees });
   };
 
+  const handleLabelToggle = (labelId: string) => {
+    const newLabels = filters.labels.includes(labelId)
+      ? filters.labels.filter((id) => id !== labelId)
+      : [...filters.labels, labelId];
+    onFiltersChange({ ...filters, labels: newLabels });
+  };
+
+  const handleDueDateToggle = (dueDate: BoardDueDateFilter) => {
+    onFiltersChange({
+      ...filters,
+      dueDate: filters.dueDate === dueDate ? null : dueDate,
+    });
+  };
+
   const handleSortChange = (sortBy: BoardFilters["sortBy"]) => {
     onFiltersChange({ ...filters, sortBy });
   };
@@ -112,12 +144,7 @@ export function BoardFilters({
   };
 
   const clearAllFilters = () => {
-    onFiltersChange({
-      priorities: [],
-      assignees: [],
-      sortBy: "created",
-      sortOrder: "desc",
-    });
+    onFiltersChange(DEFAULT_BOARD_FILTERS);
   };
 
   const SortIcon = filters.sortOrder === "asc" ? SortAsc : SortDesc;
@@ -162,6 +189,55 @@ export function BoardFilters({
     </>
   );
 
+  // Shared label dropdown content
+  const labelDropdownContent = availableLabels.length > 0 && (
+    <>
+      <DropdownMenuCheckboxItem
+        checked={filters.labels.includes("unlabeled")}
+        onCheckedChange={() => handleLabelToggle("unlabeled")}
+      >
+        {t("filters.unlabeled")}
+      </DropdownMenuCheckboxItem>
+      {availableLabels.map((label) => (
+        <DropdownMenuCheckboxItem
+          key={label.id}
+          checked={filters.labels.includes(label.id)}
+          onCheckedChange={() => handleLabelToggle(label.id)}
+        >
+          <span
+            className="w-2.5 h-2.5 rounded-full mr-2 shrink-0"
+            style={{ backgroundColor: normalizeLabelColor(label.color) }}
+          />
+          <span className="truncate">{label.name}</span>
+        </DropdownMenuCheckboxItem>
+      ))}
+    </>
+  );
+
+  // Shared due date dropdown content
+  const dueDateDropdownContent = (
+    <>
+      {BOARD_DUE_DATE_FILTERS.map((value) => (
+        <DropdownMenuCheckboxItem
+          key={value}
+          checked={filters.dueDate === value}
+          onCheckedChange={() => handleDueDateToggle(value)}
+        >
+          {t(`filters.dueDateOptions.${value}`)}
+        </DropdownMenuCheckboxItem>
+      ))}
+    </>
+  );
+
+  const searchInput = (
+    <CardQueryInput
+      value={filters.search}
+      onChange={(search) => onFiltersChange({ ...filters, search })}
+      members={queryMembers}
+      labels={availableLabels}
+    />
+  );
+
   // Shared sort dropdown content
   const sortDropdownContent = (
     <>
@@ -198,6 +274,8 @@ export function BoardFilters({
 
   return (
     <div className={cn("flex items-center gap-1.5", className)}>
+      {searchInput}
+
       {/* ── Mobile: single combined dropdown ──────────────────────────── */}
       <div className="flex items-center gap-1.5 sm:hidden">
         <DropdownMenu>
@@ -251,6 +329,28 @@ export function BoardFilters({
               </>
             )}
 
+            {/* Labels */}
+            {availableLabels.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuGroup>
+                  <DropdownMenuLabel className="text-xs text-muted-foreground py-1">
+                    {t("filters.label")}
+                  </DropdownMenuLabel>
+                  {labelDropdownContent}
+                </DropdownMenuGroup>
+              </>
+            )}
+
+            {/* Due date */}
+            <DropdownMenuSeparator />
+            <DropdownMenuGroup>
+              <DropdownMenuLabel className="text-xs text-muted-foreground py-1">
+                {t("filters.dueDate")}
+              </DropdownMenuLabel>
+              {dueDateDropdownContent}
+            </DropdownMenuGroup>
+
             {/* Sort */}
             <DropdownMenuSeparator />
             <DropdownMenuGroup>
@@ -396,6 +496,84 @@ export function BoardFilters({
           </DropdownMenu>
         )}
 
+        {/* Label filter */}
+        {availableLabels.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                className={cn(
+                  "h-8 w-8 relative",
+                  filters.labels.length > 0 && "bg-violet-50 border-violet-200",
+                )}
+                aria-label={t("filters.label")}
+                title={t("filters.label")}
+              >
+                <Tag className="w-4 h-4" />
+                {filters.labels.length > 0 && (
+                  <span className="absolute -top-1.5 -right-1.5 h-4 min-w-4 rounded-full bg-violet-600 text-white text-[10px] font-semibold flex items-center justify-center px-0.5 leading-none">
+                    {filters.labels.length}
+                  </span>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-56">
+              {labelDropdownContent}
+              {filters.labels.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => onFiltersChange({ ...filters, labels: [] })}
+                    className="gap-2"
+                  >
+                    <X className="w-4 h-4" />
+                    {t("filters.clearLabelFilters")}
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
+        {/* Due date filter */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon"
+              className={cn(
+                "h-8 w-8 relative",
+                filters.dueDate && "bg-amber-50 border-amber-200",
+              )}
+              aria-label={t("filters.dueDate")}
+              title={t("filters.dueDate")}
+            >
+              <CalendarClock className="w-4 h-4" />
+              {filters.dueDate && (
+                <span className="absolute -top-1.5 -right-1.5 h-4 min-w-4 rounded-full bg-amber-500 text-white text-[10px] font-semibold flex items-center justify-center px-0.5 leading-none">
+                  1
+                </span>
+              )}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-52">
+            {dueDateDropdownContent}
+            {filters.dueDate && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => onFiltersChange({ ...filters, dueDate: null })}
+                  className="gap-2"
+                >
+                  <X className="w-4 h-4" />
+                  {t("filters.clearDueDateFilter")}
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
         {/* Sort */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
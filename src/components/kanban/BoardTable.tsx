@@ -0,0 +1,612 @@
+"use client";
+
+import {
+  useRef,
+  useState,
+  type KeyboardEvent as ReactKeyboardEvent,
+} from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { LabelChip } from "@/components/ui/LabelChip";
+import { ViaApiBadge } from "@/components/ui/ViaApiBadge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { t } from "@/lib/i18n";
+import { getPriorityConfig } from "@/lib/priority-colors";
+import type {
+  BoardMemberRole,
+  Card as CardType,
+  CardPriority,
+  User,
+} from "@/types/database";
+import {
+  getEditCardDueDateInputValue,
+  normalizeEditCardDueDateForApi,
+} from "./edit-card-dialog.utils";
+import {
+  buildBoardTableRows,
+  sortBoardTableRows,
+  toggleBoardTableSort,
+  type BoardTableCard,
+  type BoardTableColumn,
+  type BoardTableSort,
+  type BoardTableSortKey,
+} from "./board-table.utils";
+
+const PRIORITIES: CardPriority[] = ["high", "medium", "low"];
+const UNASSIGNED_VALUE = "none";
+
+type CardPatch = {
+  priority?: CardPriority;
+  assigneeId?: string | null;
+  dueDate?: string | null;
+  columnId?: number;
+  position?: number;
+};
+
+interface BoardTableProps {
+  columns: BoardTableColumn[];
+  cardsByColumn: Record<number, BoardTableCard[]>;
+  members: User[];
+  currentUser: { id: string } | null;
+  userRole: BoardMemberRole;
+  onCardClick: (card: CardType) => void;
+  onCardsUpdated: (cards: CardType[]) => void;
+}
+
+function SortHeader({
+  sortKey,
+  sort,
+  onSort,
+  className,
+}: {
+  sortKey: BoardTableSortKey;
+  sort: BoardTableSort | null;
+  onSort: (key: BoardTableSortKey) => void;
+  className?: string;
+}) {
+  const active = sort?.key === sortKey;
+  const Icon = !active
+    ? ArrowUpDown
+    : sort.direction === "asc"
+      ? ArrowUp
+      : ArrowDown;
+
+  return (
+    <th
+      scope="col"
+      aria-sort={
+        active
+          ? sort.direction === "asc"
+            ? "ascending"
+            : "descending"
+          : "none"
+      }
+      className={cn("px-3 py-2 text-left font-medium", className)}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(sortKey)}
+        className="inline-flex items-center gap-1 hover:text-foreground"
+      >
+        {t(`boardTable.columns.${sortKey}`)}
+        <Icon className={cn("size-3", active ? "opacity-100" : "opacity-40")} />
+      </button>
+    </th>
+  );
+}
+
+/**
+ * List view of a board: every filtered card as a table row with inline
+ * editing of priority, assignee, due date and column.
+ */
+export function BoardTable({
+  columns,
+  cardsByColumn,
+  members,
+  currentUser,
+  userRole,
+  onCardClick,
+  onCardsUpdated,
+}: BoardTableProps) {
+  const [sort, setSort] = useState<BoardTableSort | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [savingIds, setSavingIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const rowRefs = useRef(new Map<string, HTMLTableRowElement>());
+
+  const canEdit = userRole !== "viewer";
+  const rows = sortBoardTableRows(
+    buildBoardTableRows(columns, cardsByColumn),
+    sort,
+    members,
+  );
+  const visibleIds = rows.map(({ card }) => card.id);
+  const selectedRows = rows.filter(({ card }) => selectedIds.has(card.id));
+  const allSelected =
+    rows.length > 0 && selectedRows.length === rows.length
+      ? true
+      : selectedRows.length > 0
+        ? "indeterminate"
+        : false;
+
+  const setSaving = (cardId: string, saving: boolean) =>
+    setSavingIds((current) => {
+      const next = new Set(current);
+      if (saving) next.add(cardId);
+      else next.delete(cardId);
+      return next;
+    });
+
+  const toggleSelected = (cardId: string) =>
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(cardId)) next.delete(cardId);
+      else next.add(cardId);
+      return next;
+    });
+
+  const getEndPosition = (columnId: number) => {
+    const column = columns.find((col) => col.id === columnId);
+    return column?.cards.length
+      ? Math.max(...column.cards.map((card) => card.position)) + 1
+      : 1;
+  };
+
+  const updateCard = async (
+    card: BoardTableCard,
+    patch: CardPatch,
+  ): Promise<CardType | null> => {
+    setSaving(card.id, true);
+    try {
+      const response = await fetch(`/api/cards/${card.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const column = columns.find((col) => col.id === patch.columnId);
+        setError(
+          response.status === 409 && column?.wipLimit
+            ? t("board.wipLimitReached", {
+                column: column.title,
+                limit: column.wipLimit,
+              })
+            : (data.error ?? t("boardTable.updateFailed")),
+        );
+        return null;
+      }
+
+      const assigneeId = data.card?.assigneeId ?? null;
+      return {
+        ...card,
+        ...data.card,
+        labels: card.labels,
+        comments: card.comments,
+        subtaskProgress: card.subtaskProgress,
+        assignee: members.find((member) => member.id === assigneeId),
+      } as CardType;
+    } catch (err) {
+      console.error("Failed to update card from table:", err);
+      setError(t("boardTable.updateFailed"));
+      return null;
+    } finally {
+      setSaving(card.id, false);
+    }
+  };
+
+  const handleSingleUpdate = (card: BoardTableCard, patch: CardPatch) => {
+    setError(null);
+    void updateCard(card, patch).then((updated) => {
+      if (updated) onCardsUpdated([updated]);
+    });
+  };
+
+  const handleBulkUpdate = async (
+    buildPatch: (card: BoardTableCard, index: number) => CardPatch | null,
+  ) => {
+    setError(null);
+    const targets = selectedRows
+      .map(({ card }) => card)
+      .filter((card) => !savingIds.has(card.id));
+    // Sequential, so moved cards get consecutive positions and a hard WIP
+    // limit stops the batch at the first card that no longer fits. The board
+    // is updated once at the end so no update overwrites another.
+    const updated: CardType[] = [];
+    for (const [index, card] of targets.entries()) {
+      const patch = buildPatch(card, index);
+      if (!patch) continue;
+      const result = await updateCard(card, patch);
+      if (!result) break;
+      updated.push(result);
+    }
+    if (updated.length > 0) onCardsUpdated(updated);
+  };
+
+  const onSort = (key: BoardTableSortKey) =>
+    setSort((current) => toggleBoardTableSort(current, key));
+
+  const handleRowKeyDown = (
+    event: ReactKeyboardEvent<HTMLTableRowElement>,
+    index: number,
+    card: BoardTableCard,
+  ) => {
+    // Leave keys alone while an inline editor inside the row has focus.
+    if (event.target !== event.currentTarget) return;
+
+    let nextIndex: number | null = null;
+    switch (event.key) {
+      case "ArrowDown":
+        nextIndex = Math.min(index + 1, rows.length - 1);
+        break;
+      case "ArrowUp":
+        nextIndex = Math.max(index - 1, 0);
+        break;
+      case "Home":
+        nextIndex = 0;
+        break;
+      case "End":
+        nextIndex = rows.length - 1;
+        break;
+      case "Enter":
+        event.preventDefault();
+        onCardClick(card);
+        return;
+      case " ":
+        event.preventDefault();
+        toggleSelected(card.id);
+        return;
+      case "Escape":
+        setSelectedIds(new Set());
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    const nextId = visibleIds[nextIndex];
+    if (nextId) rowRefs.current.get(nextId)?.focus();
+  };
+
+  if (rows.length === 0) {
+    return (
+      <p className="p-8 text-center text-sm text-muted-foreground">
+        {t("boardTable.empty")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 p-4 sm:p-6">
+      {selectedRows.length > 0 && (
+        <div
+          role="toolbar"
+          aria-label={t("boardTable.bulkActions")}
+          className="flex flex-wrap items-center gap-2 rounded-lg border bg-card px-3 py-2 text-sm"
+        >
+          <span className="font-medium">
+            {t("boardTable.selectedCount", { count: selectedRows.length })}
+          </span>
+          {canEdit && (
+            <>
+              <Select
+                value=""
+                onValueChange={(value) =>
+                  void handleBulkUpdate((card) =>
+                    card.priority === value
+                      ? null
+                      : { priority: value as CardPriority },
+                  )
+                }
+              >
+                <SelectTrigger size="sm" className="w-40">
+                  <SelectValue placeholder={t("boardTable.setPriority")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRIORITIES.map((priority) => (
+                    <SelectItem key={priority} value={priority}>
+                      {t(`priority.${priority}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value=""
+                onValueChange={(value) => {
+                  const assigneeId = value === UNASSIGNED_VALUE ? null : value;
+                  void handleBulkUpdate((card) =>
+                    card.assigneeId === assigneeId ? null : { assigneeId },
+                  );
+                }}
+              >
+                <SelectTrigger size="sm" className="w-44">
+                  <SelectValue placeholder={t("boardTable.setAssignee")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED_VALUE}>
+                    {t("kanban.unassigned")}
+                  </SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.name || member.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value=""
+                onValueChange={(value) => {
+                  const columnId = Number(value);
+                  const start = getEndPosition(columnId);
+                  void handleBulkUpdate((card, index) =>
+                    card.columnId === columnId
+                      ? null
+                      : { columnId, position: start + index },
+                  );
+                }}
+              >
+                <SelectTrigger size="sm" className="w-44">
+                  <SelectValue placeholder={t("boardTable.moveTo")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {columns.map((column) => (
+                    <SelectItem key={column.id} value={String(column.id)}>
+                      {column.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-8"
+            onClick={() => setSelectedIds(new Set())}
+          >
+            <X className="size-4" />
+            {t("boardTable.clearSelection")}
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <div role="alert" className="text-xs text-destructive">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border bg-card">
+        <table className="w-full text-sm">
+          <thead className="border-b bg-muted/40 text-xs text-muted-foreground">
+            <tr>
+              <th scope="col" className="w-10 px-3 py-2">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) =>
+                    setSelectedIds(
+                      checked === true ? new Set(visibleIds) : new Set(),
+                    )
+                  }
+                  aria-label={t("boardTable.selectAll")}
+                />
+              </th>
+              <SortHeader sortKey="title" sort={sort} onSort={onSort} />
+              <SortHeader sortKey="column" sort={sort} onSort={onSort} />
+              <SortHeader sortKey="assignee" sort={sort} onSort={onSort} />
+              <SortHeader sortKey="priority" sort={sort} onSort={onSort} />
+              <SortHeader sortKey="dueDate" sort={sort} onSort={onSort} />
+              <th scope="col" className="px-3 py-2 text-left font-medium">
+                {t("boardTable.columns.labels")}
+              </th>
+              <SortHeader sortKey="subtasks" sort={sort} onSort={onSort} />
+              <SortHeader sortKey="createdVia" sort={sort} onSort={onSort} />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ card, column }, index) => {
+              const selected = selectedIds.has(card.id);
+              const saving = savingIds.has(card.id);
+              const editable = canEdit && !saving;
+              // Only the creator may change a deadline directly; everyone
+              // else goes through the suggestion workflow in the card dialog.
+              const canEditDueDate =
+                editable &&
+                (!card.createdBy || card.createdBy === currentUser?.id);
+              const progress = card.subtaskProgress;
+
+              return (
+                <tr
+                  key={card.id}
+                  ref={(node) => {
+                    if (node) rowRefs.current.set(card.id, node);
+                    else rowRefs.current.delete(card.id);
+                  }}
+                  tabIndex={0}
+                  aria-selected={selected}
+                  onKeyDown={(event) => handleRowKeyDown(event, index, card)}
+                  className={cn(
+                    "border-b last:border-0 outline-none focus-visible:bg-accent/60",
+                    selected && "bg-primary/5",
+                    saving && "opacity-60",
+                  )}
+                >
+                  <td className="px-3 py-1.5">
+                    <Checkbox
+                      checked={selected}
+                      onCheckedChange={() => toggleSelected(card.id)}
+                      aria-label={t("boardTable.selectCard", {
+                        title: card.title,
+                      })}
+                    />
+                  </td>
+                  <td className="max-w-xs px-3 py-1.5">
+                    <button
+                      type="button"
+                      onClick={() => onCardClick(card)}
+                      className={cn(
+                        "truncate text-left font-medium hover:underline",
+                        card.completedAt &&
+                          "text-muted-foreground line-through",
+                      )}
+                    >
+                      {card.title}
+                    </button>
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <Select
+                      value={String(card.columnId)}
+                      disabled={!editable}
+                      onValueChange={(value) => {
+                        const columnId = Number(value);
+                        handleSingleUpdate(card, {
+                          columnId,
+                          position: getEndPosition(columnId),
+                        });
+                      }}
+                    >
+                      <SelectTrigger
+                        size="sm"
+                        className="w-40"
+                        aria-label={t("boardTable.columns.column")}
+                      >
+                        <SelectValue>{column.title}</SelectValue>
+                      </SelectTrigger>
+                      <SelectContent>
+                        {columns.map((option) => (
+                          <SelectItem key={option.id} value={String(option.id)}>
+                            {option.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <Select
+                      value={card.assigneeId ?? UNASSIGNED_VALUE}
+                      disabled={!editable}
+                      onValueChange={(value) =>
+                        handleSingleUpdate(card, {
+                          assigneeId: value === UNASSIGNED_VALUE ? null : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger
+                        size="sm"
+                        className="w-44"
+                        aria-label={t("boardTable.columns.assignee")}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED_VALUE}>
+                          {t("kanban.unassigned")}
+                        </SelectItem>
+                        {members.map((member) => (
+                          <SelectItem key={member.id} value={member.id}>
+                            {member.name || member.email}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <Select
+                      value={card.priority}
+                      disabled={!editable}
+                      onValueChange={(value) =>
+                        handleSingleUpdate(card, {
+                          priority: value as CardPriority,
+                        })
+                      }
+                    >
+                      <SelectTrigger
+                        size="sm"
+                        className="w-32"
+                        aria-label={t("boardTable.columns.priority")}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PRIORITIES.map((priority) => (
+                          <SelectItem key={priority} value={priority}>
+                            <span
+                              className="size-2 rounded-full"
+                              style={{
+                                backgroundColor:
+                                  getPriorityConfig(priority).color,
+                              }}
+                            />
+                            {t(`priority.${priority}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="date"
+                      value={getEditCardDueDateInputValue(card.dueDate)}
+                      disabled={!canEditDueDate}
+                      title={
+                        editable && !canEditDueDate
+                          ? t("boardTable.dueDateCreatorOnly")
+                          : undefined
+                      }
+                      aria-label={t("boardTable.columns.dueDate")}
+                      onChange={(event) =>
+                        handleSingleUpdate(card, {
+                          dueDate: normalizeEditCardDueDateForApi(
+                            event.target.value,
+                          ),
+                        })
+                      }
+                      className="h-8 rounded-md border border-input bg-transparent px-2 text-sm disabled:cursor-not-allowed disabled:opacity-60"
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <div className="flex max-w-56 flex-wrap gap-1">
+                      {card.labels.map(({ label }) => (
+                        <LabelChip
+                          key={label.id}
+                          name={label.name}
+                          color={label.color}
+                        />
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-3 py-1.5 whitespace-nowrap text-muted-foreground">
+                    {progress && progress.total > 0
+                      ? t("boardTable.subtaskProgress", {
+                          completed: progress.completed,
+                          total: progress.total,
+                        })
+                      : "—"}
+                  </td>
+                  <td className="px-3 py-1.5">
+                    {card.createdVia === "api" ? (
+                      <ViaApiBadge />
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        {t("boardTable.createdViaUi")}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
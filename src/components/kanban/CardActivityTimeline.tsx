@@ -0,0 +1,267 @@
+"use client";
+
+import useSWR from "swr";
+import { Loader2 } from "lucide-react";
+import type { Column, User } from "@/types/database";
+import type { CardEventType } from "@/lib/card-events";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { formatDateTime, formatDisplayDate } from "@/lib/date-format";
+import { t } from "@/lib/i18n";
+
+interface ActivityUser {
+  id: string;
+  name: string | null;
+  email: string;
+  avatarUrl?: string | null;
+}
+
+interface CardEventItem {
+  id: string;
+  type: CardEventType;
+  actor: ActivityUser | null;
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+}
+
+interface ActivityComment {
+  id: string;
+  body: string;
+  createdAt: string;
+  deletedAt?: string | null;
+  author: ActivityUser;
+}
+
+type TimelineEntry =
+  | { kind: "event"; createdAt: string; event: CardEventItem }
+  | { kind: "comment"; createdAt: string; comment: ActivityComment };
+
+const PRIORITY_LABEL_KEYS = {
+  high: "priorities.highPriority",
+  medium: "priorities.mediumPriority",
+  low: "priorities.lowPriority",
+} as const;
+
+const fetcher = (url: string) =>
+  fetch(url).then((r) => {
+    if (!r.ok) throw new Error(t("cardActivity.loadError"));
+    return r.json();
+  });
+
+type Named = { id?: string; title?: string } | null;
+
+function field(value: unknown, key: "id" | "title"): string {
+  return String((value as Named)?.[key] ?? "");
+}
+
+interface CardActivityTimelineProps {
+  cardId: string;
+  comments: ActivityComment[];
+  columns: Column[];
+  boardMembers: User[];
+}
+
+export function CardActivityTimeline({
+  cardId,
+  comments,
+  columns,
+  boardMembers,
+}: CardActivityTimelineProps) {
+  const { data, error, isLoading } = useSWR<{ events: CardEventItem[] }>(
+    `/api/cards/${cardId}/events`,
+    fetcher,
+  );
+
+  const none = t("cardActivity.none");
+  const memberName = (id: unknown): string => {
+    // Assignee events list every assignee; older ones hold a single id
+    if (Array.isArray(id)) {
+      return id.length > 0 ? id.map(memberName).join(", ") : none;
+    }
+    if (typeof id !== "string") return none;
+    const member = boardMembers.find((m) => m.id === id);
+    return member?.name || member?.email || t("cardActivity.unknownUser");
+  };
+  const columnName = (value: unknown) => {
+    const ref = value as { columnId?: number; columnTitle?: string } | null;
+    const column = columns.find((c) => c.id === ref?.columnId);
+    return column?.title ?? ref?.columnTitle ?? `#${ref?.columnId ?? "?"}`;
+  };
+  const priorityName = (value: unknown) =>
+    typeof value === "string" && value in PRIORITY_LABEL_KEYS
+      ? t(PRIORITY_LABEL_KEYS[value as keyof typeof PRIORITY_LABEL_KEYS])
+      : none;
+  const dateName = (value: unknown) =>
+    typeof value === "string" ? formatDisplayDate(value) : none;
+
+  const describe = (event: CardEventItem): string => {
+    const actor =
+      event.actor?.name || event.actor?.email || t("cardActivity.unknownUser");
+    const { before, after } = event;
+    switch (event.type) {
+      case "title_changed":
+        return t("cardActivity.titleChanged", {
+          actor,
+          before: String(before ?? ""),
+          after: String(after ?? ""),
+        });
+      case "description_changed":
+        return t("cardActivity.descriptionChanged", { actor });
+      case "assignee_changed":
+        return t("cardActivity.assigneeChanged", {
+          actor,
+          before: memberName(before),
+          after: memberName(after),
+        });
+      case "priority_changed":
+        return t("cardActivity.priorityChanged", {
+          actor,
+          before: priorityName(before),
+          after: priorityName(after),
+        });
+      case "due_date_changed":
+        return t("cardActivity.dueDateChanged", {
+          actor,
+          before: dateName(before),
+          after: dateName(after),
+        });
+      case "start_date_changed":
+        return t("cardActivity.startDateChanged", {
+          actor,
+          before: dateName(before),
+          after: dateName(after),
+        });
+      case "moved":
+        return t("cardActivity.moved", {
+          actor,
+          before: columnName(before),
+          after: columnName(after),
+        });
+      case "completed":
+        return t("cardActivity.completed", { actor });
+      case "reopened":
+        return t("cardActivity.reopened", { actor });
+      case "subtask_added":
+        return t("cardActivity.subtaskAdded", {
+          actor,
+          title: field(after, "title"),
+        });
+      case "subtask_renamed":
+        return t("cardActivity.subtaskRenamed", {
+          actor,
+          before: field(before, "title"),
+          after: field(after, "title"),
+        });
+      case "subtask_completed":
+        return t("cardActivity.subtaskCompleted", {
+          actor,
+          title: field(after, "title"),
+        });
+      case "subtask_reopened":
+        return t("cardActivity.subtaskReopened", {
+          actor,
+          title: field(after, "title"),
+        });
+      case "subtask_deleted":
+        return t("cardActivity.subtaskDeleted", {
+          actor,
+          title: field(before, "title"),
+        });
+      case "attachment_added":
+        return t("cardActivity.attachmentAdded", {
+          actor,
+          name: String((after as { name?: string } | null)?.name ?? ""),
+        });
+      case "attachment_deleted":
+        return t("cardActivity.attachmentDeleted", {
+          actor,
+          name: String((before as { name?: string } | null)?.name ?? ""),
+        });
+      case "trashed":
+        return t("cardActivity.trashed", { actor });
+      case "restored":
+        return t("cardActivity.restored", { actor });
+    }
+  };
+
+  if (error) {
+    return (
+      <p className="text-sm text-destructive">{t("cardActivity.loadError")}</p>
+    );
+  }
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const entries: TimelineEntry[] = [
+    ...(data?.events ?? []).map(
+      (event): TimelineEntry => ({
+        kind: "event",
+        createdAt: event.createdAt,
+        event,
+      }),
+    ),
+    ...comments
+      .filter((comment) => !comment.deletedAt)
+      .map(
+        (comment): TimelineEntry => ({
+          kind: "comment",
+          createdAt: comment.createdAt,
+          comment,
+        }),
+      ),
+  ].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  );
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">{t("cardActivity.empty")}</p>
+    );
+  }
+
+  return (
+    <ol className="space-y-3 max-h-72 overflow-y-auto pr-1">
+      {entries.map((entry) => {
+        const user =
+          entry.kind === "event" ? entry.event.actor : entry.comment.author;
+        return (
+          <li
+            key={`${entry.kind}-${entry.kind === "event" ? entry.event.id : entry.comment.id}`}
+            className="flex gap-3"
+          >
+            <UserAvatar
+              name={user?.name}
+              email={user?.email}
+              avatarUrl={user?.avatarUrl}
+              className="h-6 w-6 shrink-0 mt-0.5"
+            />
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="text-sm">
+                {entry.kind === "event"
+                  ? describe(entry.event)
+                  : t("cardActivity.commented", {
+                      actor:
+                        entry.comment.author.name || entry.comment.author.email,
+                    })}
+              </p>
+              {entry.kind === "comment" && (
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words line-clamp-3">
+                  {entry.comment.body}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {formatDateTime(entry.createdAt)}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,489 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  Eye,
+  EyeOff,
+  Loader2,
+  Pencil,
+  Reply,
+  Send,
+  SmilePlus,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { MarkdownViewer } from "@/components/ui/markdown-viewer";
+import {
+  MentionTextarea,
+  type MentionTextareaRef,
+} from "@/components/ui/MentionTextarea";
+import { CommentRevisionsPopover } from "@/components/kanban/CommentRevisionsPopover";
+import {
+  COMMENT_REACTIONS,
+  type CommentReaction,
+  type CommentThread,
+} from "@/lib/comment-threads";
+import type { User } from "@/types/database";
+import { t } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { formatDateTime } from "@/lib/date-format";
+
+export type CardCommentItem = {
+  id: string;
+  body: string;
+  parentId?: string | null;
+  createdAt: string;
+  editedAt?: string | null;
+  deletedAt?: string | null;
+  reactions?: CommentReaction[];
+  author: {
+    id: string;
+    name: string | null;
+    email: string;
+    avatarUrl?: string | null;
+  };
+};
+
+// Threads with more replies than this start collapsed
+const REPLIES_SHOWN_EXPANDED = 2;
+
+interface CardCommentThreadProps {
+  thread: CommentThread<CardCommentItem>;
+  currentUserId: string | null;
+  // False for viewers: no replies, edits or reactions
+  canWrite: boolean;
+  boardMembers: User[];
+  disabled: boolean;
+  onSaveEdit: (commentId: string, body: string) => Promise<boolean>;
+  onDelete: (commentId: string) => Promise<void>;
+  onReply: (
+    parentId: string,
+    body: string,
+    mentionedUserIds: string[],
+  ) => Promise<boolean>;
+  onToggleReaction: (commentId: string, emoji: string) => Promise<void>;
+}
+
+/** A top-level comment with its collapsible replies and reply box. */
+export function CardCommentThread({
+  thread,
+  currentUserId,
+  canWrite,
+  boardMembers,
+  disabled,
+  onSaveEdit,
+  onDelete,
+  onReply,
+  onToggleReaction,
+}: CardCommentThreadProps) {
+  const { comment, replies } = thread;
+  const [expanded, setExpanded] = useState(
+    replies.length <= REPLIES_SHOWN_EXPANDED,
+  );
+  const [replyTarget, setReplyTarget] = useState<CardCommentItem | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const replyRef = useRef<MentionTextareaRef>(null);
+
+  const memberNames = new Map(
+    boardMembers.map((m) => [m.id, m.name || m.email]),
+  );
+
+  const startReply = (target: CardCommentItem) => {
+    setReplyTarget(target);
+    setExpanded(true);
+  };
+
+  const cancelReply = () => {
+    setReplyTarget(null);
+    setReplyBody("");
+    replyRef.current?.reset();
+  };
+
+  const submitReply = async () => {
+    if (!replyTarget || !replyBody.trim()) return;
+    const sent = await onReply(
+      replyTarget.id,
+      replyBody.trim(),
+      replyRef.current?.getMentionedUserIds() ?? [],
+    );
+    if (sent) cancelReply();
+  };
+
+  const renderComment = (c: CardCommentItem, isReply: boolean) => (
+    <CardComment
+      key={c.id}
+      comment={c}
+      isReply={isReply}
+      isOwn={currentUserId === c.author.id}
+      canWrite={canWrite}
+      disabled={disabled}
+      memberNames={memberNames}
+      onReply={() => startReply(c)}
+      onSaveEdit={(body) => onSaveEdit(c.id, body)}
+      onDelete={() => onDelete(c.id)}
+      onToggleReaction={(emoji) => onToggleReaction(c.id, emoji)}
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      {renderComment(comment, false)}
+
+      {replies.length > 0 && (
+        <div className="ml-6 space-y-2 border-l pl-3">
+          <button
+            type="button"
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => setExpanded((prev) => !prev)}
+            aria-expanded={expanded}
+          >
+            {expanded ? (
+              <ChevronDown className="h-3 w-3" />
+            ) : (
+              <ChevronRight className="h-3 w-3" />
+            )}
+            {expanded
+              ? t("editCard.commentHideReplies")
+              : t("editCard.commentShowReplies", { count: replies.length })}
+          </button>
+          {expanded && replies.map((reply) => renderComment(reply, true))}
+        </div>
+      )}
+
+      {replyTarget && (
+        <div className="ml-6 space-y-1 border-l pl-3">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {t("editCard.commentReplyTo", {
+                name: replyTarget.author.name || replyTarget.author.email,
+              })}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              onClick={cancelReply}
+              aria-label={t("common.cancel")}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+          <div className="flex items-start gap-2">
+            <div className="flex-1">
+              <MentionTextarea
+                ref={replyRef}
+                value={replyBody}
+                onChange={setReplyBody}
+                boardMembers={boardMembers}
+                placeholder={t("editCard.commentReplyPlaceholder")}
+                disabled={disabled}
+                onSubmit={() => void submitReply()}
+              />
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => void submitReply()}
+              title={t("editCard.commentReply")}
+              disabled={disabled || !replyBody.trim()}
+            >
+              {disabled ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Send className="h-3.5 w-3.5" />
+              )}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CardComment({
+  comment: c,
+  isReply,
+  isOwn,
+  canWrite,
+  disabled,
+  memberNames,
+  onReply,
+  onSaveEdit,
+  onDelete,
+  onToggleReaction,
+}: {
+  comment: CardCommentItem;
+  isReply: boolean;
+  isOwn: boolean;
+  canWrite: boolean;
+  disabled: boolean;
+  memberNames: Map<string, string>;
+  onReply: () => void;
+  onSaveEdit: (body: string) => Promise<boolean>;
+  onDelete: () => Promise<void>;
+  onToggleReaction: (emoji: string) => Promise<void>;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editBody, setEditBody] = useState("");
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [showDeletedBody, setShowDeletedBody] = useState(false);
+  const isDeleted = !!c.deletedAt;
+  const reactions = c.reactions ?? [];
+
+  const saveEdit = async () => {
+    if (!editBody.trim()) return;
+    if (await onSaveEdit(editBody.trim())) {
+      setIsEditing(false);
+      setEditBody("");
+    }
+  };
+
+  const react = (emoji: string) => {
+    setPickerOpen(false);
+    void onToggleReaction(emoji);
+  };
+
+  return (
+    <div
+      className={cn(
+        "group flex gap-3 rounded-lg border",
+        isReply ? "p-3" : "p-4",
+        isDeleted ? "bg-muted/10 opacity-60" : "bg-muted/20",
+      )}
+    >
+      <UserAvatar
+        name={c.author.name}
+        email={c.author.email}
+        avatarUrl={c.author.avatarUrl}
+        className={cn("shrink-0 mt-0.5", isReply ? "h-6 w-6" : "h-7 w-7")}
+      />
+
+      <div className="flex-1 min-w-0">
+        {/* Header */}
+        <div className="flex items-baseline justify-between gap-2">
+          <span className="text-sm font-medium leading-none">
+            {c.author.name || c.author.email}
+            {isOwn && (
+              <span className="ml-1 text-xs text-muted-foreground font-normal">
+                ({t("boardDetail.you")})
+              </span>
+            )}
+          </span>
+          <div className="flex items-center gap-1 shrink-0">
+            <span className="text-xs text-muted-foreground">
+              {formatDateTime(c.createdAt)}
+            </span>
+            {canWrite && !isDeleted && (
+              <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={onReply}
+                  disabled={disabled}
+                  aria-label={t("editCard.commentReply")}
+                >
+                  <Reply className="h-3 w-3" />
+                </Button>
+                {isOwn && (
+                  <>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => {
+                        setIsEditing(true);
+                        setEditBody(c.body);
+                      }}
+                      disabled={disabled}
+                      aria-label={t("common.edit")}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 hover:text-destructive"
+                      onClick={() => void onDelete()}
+                      disabled={disabled}
+                      aria-label={t("common.delete")}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Body, deleted notice, or inline editor */}
+        {isDeleted ? (
+          <div>
+            <p className="mt-1.5 flex items-center gap-2 text-sm italic text-muted-foreground">
+              {t("editCard.commentDeleted")} · {formatDateTime(c.deletedAt!)}
+              {/* Only board admins receive the body of a deleted comment */}
+              {c.body && (
+                <button
+                  type="button"
+                  className="flex items-center gap-1 text-xs not-italic hover:text-foreground"
+                  onClick={() => setShowDeletedBody((prev) => !prev)}
+                  aria-expanded={showDeletedBody}
+                >
+                  {showDeletedBody ? (
+                    <EyeOff className="h-3 w-3" />
+                  ) : (
+                    <Eye className="h-3 w-3" />
+                  )}
+                  {showDeletedBody
+                    ? t("editCard.commentHideDeleted")
+                    : t("editCard.commentShowDeleted")}
+                </button>
+              )}
+            </p>
+            {showDeletedBody && c.body && (
+              <>
+                <MarkdownViewer
+                  content={c.body}
+                  className="mt-1.5 text-sm wrap-break-word"
+                />
+                {c.editedAt && (
+                  <CommentRevisionsPopover
+                    commentId={c.id}
+                    body={c.body}
+                    createdAt={c.createdAt}
+                    editedAt={c.editedAt}
+                  />
+                )}
+              </>
+            )}
+          </div>
+        ) : isEditing ? (
+          <div className="mt-2 space-y-2">
+            <Textarea
+              value={editBody}
+              onChange={(e) => setEditBody(e.target.value)}
+              rows={3}
+              className="text-sm resize-none"
+              autoFocus
+            />
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => void saveEdit()}
+                disabled={disabled || !editBody.trim()}
+              >
+                {disabled ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <Send className="h-3 w-3" />
+                )}
+                <span className="hidden sm:inline">{t("common.save")}</span>
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setIsEditing(false);
+                  setEditBody("");
+                }}
+              >
+                <X className="h-3 w-3 sm:hidden" />
+                <span className="hidden sm:inline">{t("common.cancel")}</span>
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div>
+            <MarkdownViewer
+              content={c.body}
+              className="mt-1.5 text-sm wrap-break-word"
+            />
+            {c.editedAt && (
+              <CommentRevisionsPopover
+                commentId={c.id}
+                body={c.body}
+                createdAt={c.createdAt}
+                editedAt={c.editedAt}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Reactions */}
+        {!isDeleted && (reactions.length > 0 || canWrite) && (
+          <div className="mt-2 flex flex-wrap items-center gap-1">
+            {reactions.map((reaction) => (
+              <button
+                key={reaction.emoji}
+                type="button"
+                className={cn(
+                  "flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs",
+                  reaction.reacted
+                    ? "border-primary/40 bg-primary/10"
+                    : "bg-background",
+                  canWrite ? "hover:bg-accent" : "cursor-default",
+                )}
+                title={reaction.userIds
+                  .map((id) => memberNames.get(id) ?? "?")
+                  .join(", ")}
+                aria-pressed={reaction.reacted}
+                onClick={() => canWrite && react(reaction.emoji)}
+                disabled={disabled}
+              >
+                <span>{reaction.emoji}</span>
+                <span className="text-muted-foreground">{reaction.count}</span>
+              </button>
+            ))}
+            {canWrite && (
+              <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-muted-foreground opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+                    disabled={disabled}
+                    aria-label={t("editCard.commentAddReaction")}
+                  >
+                    <SmilePlus className="h-3.5 w-3.5" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-1" align="start">
+                  <div className="flex gap-0.5">
+                    {COMMENT_REACTIONS.map((emoji) => (
+                      <button
+                        key={emoji}
+                        type="button"
+                        className="rounded p-1 text-base hover:bg-accent"
+                        onClick={() => react(emoji)}
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </div>
+                </PopoverContent>
+              </Popover>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
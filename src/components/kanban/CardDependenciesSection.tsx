@@ -0,0 +1,298 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import useSWR from "swr";
+import { CheckCircle2, GitMerge, Loader2, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { t } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import {
+  DEPENDENCY_TYPES,
+  type CardDependencies,
+  type DependencyCard,
+  type DependencyType,
+} from "@/lib/card-dependencies";
+import type { SearchResult } from "@/app/api/search/route";
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+interface CardDependenciesSectionProps {
+  cardId: string;
+  boardId: string;
+  disabled?: boolean;
+  // Called with the number of open blockers whenever the links change
+  onBlockedByCountChange?: (count: number) => void;
+  onError?: (message: string) => void;
+}
+
+const countOpenBlockers = (dependencies: CardDependencies) =>
+  dependencies.blockedBy.filter((card) => !card.completedAt).length;
+
+/**
+ * "Blocked by" and "blocks" links of a card. Cards are picked with the
+ * full-text search, so they may come from any board the user can see.
+ */
+export function CardDependenciesSection({
+  cardId,
+  boardId,
+  disabled = false,
+  onBlockedByCountChange,
+  onError,
+}: CardDependenciesSectionProps) {
+  const dependenciesKey = `/api/cards/${cardId}/dependencies`;
+  const { data, isLoading, mutate } = useSWR<CardDependencies>(dependenciesKey);
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState<DependencyType>("blocked_by");
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setDebouncedQuery(query.trim()),
+      SEARCH_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const searchKey =
+    open && debouncedQuery.length >= MIN_QUERY_LENGTH
+      ? `/api/search?q=${encodeURIComponent(debouncedQuery)}`
+      : null;
+  const { data: searchData, isLoading: isSearching } = useSWR<{
+    results: SearchResult[];
+  }>(searchKey, { keepPreviousData: true });
+
+  const linkedIds = new Set(
+    [...(data?.blockedBy ?? []), ...(data?.blocks ?? [])].map(
+      (card) => card.cardId,
+    ),
+  );
+  // One entry per card; comment and subtask hits point at their card
+  const candidates = searchKey
+    ? (searchData?.results ?? []).filter(
+        (result, index, results) =>
+          result.cardId !== cardId &&
+          !linkedIds.has(result.cardId) &&
+          results.findIndex((other) => other.cardId === result.cardId) ===
+            index,
+      )
+    : [];
+
+  const applyResponse = async (res: Response) => {
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(
+        (err as { error?: string }).error ?? t("dependencies.failedToUpdate"),
+      );
+    }
+    const next = (await res.json()) as CardDependencies;
+    await mutate(next, { revalidate: false });
+    onBlockedByCountChange?.(countOpenBlockers(next));
+  };
+
+  const handleAdd = async (result: SearchResult) => {
+    setPendingId(result.cardId);
+    try {
+      const res = await fetch(dependenciesKey, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cardId: result.cardId, type }),
+      });
+      await applyResponse(res);
+      setQuery("");
+      setOpen(false);
+    } catch (e: unknown) {
+      onError?.(
+        e instanceof Error ? e.message : t("dependencies.failedToUpdate"),
+      );
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRemove = async (card: DependencyCard) => {
+    setPendingId(card.dependencyId);
+    try {
+      const res = await fetch(`${dependenciesKey}/${card.dependencyId}`, {
+        method: "DELETE",
+      });
+      await applyResponse(res);
+    } catch (e: unknown) {
+      onError?.(
+        e instanceof Error ? e.message : t("dependencies.failedToUpdate"),
+      );
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const renderList = (title: string, cards: DependencyCard[]) =>
+    cards.length > 0 && (
+      <div className="flex flex-col gap-1">
+        <span className="text-xs font-medium text-muted-foreground">
+          {title}
+        </span>
+        {cards.map((card) => (
+          <div
+            key={card.dependencyId}
+            className="flex items-center gap-2 rounded-md border bg-background px-2 py-1 text-sm"
+          >
+            {card.completedAt && (
+              <CheckCircle2
+                className="h-3.5 w-3.5 shrink-0 text-green-600"
+                aria-label={t("card.completed")}
+              />
+            )}
+            <a
+              href={`/boards/${card.boardId}?cardId=${card.cardId}`}
+              className={cn(
+                "min-w-0 flex-1 truncate hover:underline",
+                card.completedAt && "text-muted-foreground line-through",
+              )}
+            >
+              {card.title}
+            </a>
+            {card.boardId !== boardId && card.boardName && (
+              <span className="max-w-[40%] shrink-0 truncate text-xs text-muted-foreground">
+                {card.boardName}
+              </span>
+            )}
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => void handleRemove(card)}
+                disabled={pendingId !== null}
+                aria-label={t("dependencies.remove")}
+                className="shrink-0 rounded p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground disabled:opacity-60"
+              >
+                {pendingId === card.dependencyId ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <X className="h-3.5 w-3.5" />
+                )}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+
+  const isEmpty =
+    !data || (data.blockedBy.length === 0 && data.blocks.length === 0);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1.5 text-sm font-medium">
+          <GitMerge className="h-3.5 w-3.5 text-muted-foreground" />
+          {t("dependencies.title")}
+        </Label>
+        {!disabled && (
+          <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+              <Button type="button" size="sm" variant="outline">
+                <Plus className="h-3.5 w-3.5" />
+                <span className="hidden sm:inline">
+                  {t("dependencies.add")}
+                </span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80 p-2" align="end">
+              <Select
+                value={type}
+                onValueChange={(next) => setType(next as DependencyType)}
+              >
+                <SelectTrigger
+                  className="mb-2 h-8 w-full"
+                  aria-label={t("dependencies.type")}
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEPENDENCY_TYPES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {t(`dependencies.types.${option}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t("dependencies.searchPlaceholder")}
+                maxLength={200}
+                className="mb-2 w-full rounded-md border border-input bg-background px-2.5 py-1.5 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+              <div className="max-h-56 overflow-y-auto">
+                {query.trim().length < MIN_QUERY_LENGTH ? (
+                  <p className="px-1 py-2 text-xs text-muted-foreground">
+                    {t("search.minChars")}
+                  </p>
+                ) : isSearching && candidates.length === 0 ? (
+                  <p className="px-1 py-2 text-xs text-muted-foreground">
+                    {t("search.searching")}
+                  </p>
+                ) : candidates.length === 0 ? (
+                  <p className="px-1 py-2 text-xs text-muted-foreground">
+                    {t("dependencies.noResults")}
+                  </p>
+                ) : (
+                  candidates.map((result) => (
+                    <button
+                      key={result.cardId}
+                      type="button"
+                      onClick={() => void handleAdd(result)}
+                      disabled={pendingId !== null}
+                      className="flex w-full items-center gap-2 rounded-md px-1.5 py-1 text-left text-sm hover:bg-muted disabled:opacity-60 cursor-pointer"
+                    >
+                      <span className="flex h-4 w-4 shrink-0 items-center justify-center">
+                        {pendingId === result.cardId && (
+                          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        )}
+                      </span>
+                      <span className="min-w-0 flex-1 truncate">
+                        {result.cardTitle}
+                      </span>
+                      <span className="max-w-[40%] shrink-0 truncate text-xs text-muted-foreground">
+                        {result.boardName}
+                      </span>
+                    </button>
+                  ))
+                )}
+              </div>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : isEmpty ? (
+        <p className="text-xs text-muted-foreground">
+          {t("dependencies.none")}
+        </p>
+      ) : (
+        <>
+          {renderList(t("dependencies.types.blocked_by"), data.blockedBy)}
+          {renderList(t("dependencies.types.blocks"), data.blocks)}
+        </>
+      )}
+    </div>
+  );
+}
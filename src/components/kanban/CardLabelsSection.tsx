@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Loader2, Plus, Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { LabelChip } from "@/components/ui/LabelChip";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { t } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { LABEL_COLOR_PRESETS } from "@/lib/label-colors";
+import type {
+  CardLabelWithLabel,
+  Label as DatabaseLabel,
+} from "@/types/database";
+
+interface CardLabelsSectionProps {
+  cardId: string;
+  boardId: string;
+  boardLabels: DatabaseLabel[];
+  value: CardLabelWithLabel[];
+  disabled?: boolean;
+  onChange: (labels: CardLabelWithLabel[]) => void;
+  // Called when a label is created inline so the board can add it to its list
+  onLabelCreated?: ((label: DatabaseLabel) => void) | undefined;
+  onError?: (message: string) => void;
+}
+
+export function CardLabelsSection({
+  cardId,
+  boardId,
+  boardLabels,
+  value,
+  disabled = false,
+  onChange,
+  onLabelCreated,
+  onError,
+}: CardLabelsSectionProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [newColor, setNewColor] = useState<string>(LABEL_COLOR_PRESETS[5]);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  const selectedIds = new Set(value.map((cardLabel) => cardLabel.labelId));
+  const trimmedQuery = query.trim();
+  const filteredLabels = boardLabels.filter((label) =>
+    label.name.toLowerCase().includes(trimmedQuery.toLowerCase()),
+  );
+  const exactMatch = boardLabels.some(
+    (label) => label.name.toLowerCase() === trimmedQuery.toLowerCase(),
+  );
+
+  const applyResponse = async (res: Response) => {
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(
+        (err as { error?: string }).error ?? t("labels.failedToUpdate"),
+      );
+    }
+    const { labels } = (await res.json()) as { labels: CardLabelWithLabel[] };
+    onChange(labels);
+  };
+
+  const attachLabel = async (labelId: string) => {
+    const res = await fetch(`/api/cards/${cardId}/labels`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ labelId }),
+    });
+    await applyResponse(res);
+  };
+
+  const handleToggle = async (label: DatabaseLabel) => {
+    setPendingId(label.id);
+    try {
+      if (selectedIds.has(label.id)) {
+        const res = await fetch(`/api/cards/${cardId}/labels/${label.id}`, {
+          method: "DELETE",
+        });
+        if (!res.ok) {
+          const err = await res.json().catch(() => ({}));
+          throw new Error(
+            (err as { error?: string }).error ?? t("labels.failedToUpdate"),
+          );
+        }
+        onChange(value.filter((cardLabel) => cardLabel.labelId !== label.id));
+      } else {
+        await attachLabel(label.id);
+      }
+    } catch (e: unknown) {
+      onError?.(e instanceof Error ? e.message : t("labels.failedToUpdate"));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!trimmedQuery || exactMatch) return;
+    setCreating(true);
+    try {
+      const res = await fetch("/api/labels", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          boardId,
+          name: trimmedQuery,
+          color: newColor,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(
+          (err as { error?: string }).error ?? t("labels.failedToCreate"),
+        );
+      }
+      const label = (await res.json()) as DatabaseLabel;
+      onLabelCreated?.(label);
+      await attachLabel(label.id);
+      setQuery("");
+    } catch (e: unknown) {
+      onError?.(e instanceof Error ? e.message : t("labels.failedToCreate"));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1.5 text-sm font-medium">
+          <Tag className="h-3.5 w-3.5 text-muted-foreground" />
+          {t("labels.title")}
+        </Label>
+        {!disabled && (
+          <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+              <Button type="button" size="sm" variant="outline">
+                <Plus className="h-3.5 w-3.5" />
+                <span className="hidden sm:inline">{t("labels.addLabel")}</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-2" align="end">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    void handleCreate();
+                  }
+                }}
+                placeholder={t("labels.searchOrCreate")}
+                maxLength={50}
+                className="mb-2 w-full rounded-md border border-input bg-background px-2.5 py-1.5 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+
+              <div className="max-h-48 overflow-y-auto">
+                {boardLabels.length === 0 && !trimmedQuery && (
+                  <p className="px-1 py-2 text-xs text-muted-foreground">
+                    {t("labels.noBoardLabels")}
+                  </p>
+                )}
+                {filteredLabels.map((label) => {
+                  const isSelected = selectedIds.has(label.id);
+                  return (
+                    <button
+                      key={label.id}
+                      type="button"
+                      onClick={() => void handleToggle(label)}
+                      disabled={pendingId !== null || creating}
+                      className="flex w-full items-center gap-2 rounded-md px-1.5 py-1 text-left hover:bg-muted disabled:opacity-60 cursor-pointer"
+                    >
+                      <span className="flex h-4 w-4 shrink-0 items-center justify-center">
+                        {pendingId === label.id ? (
+                          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        ) : (
+                          isSelected && <Check className="h-3.5 w-3.5" />
+                        )}
+                      </span>
+                      <LabelChip
+                        name={label.name}
+                        color={label.color}
+                        size="md"
+                      />
+                    </button>
+                  );
+                })}
+              </div>
+
+              {trimmedQuery && !exactMatch && (
+                <div className="mt-2 border-t pt-2">
+                  <div className="mb-2 flex flex-wrap gap-1">
+                    {LABEL_COLOR_PRESETS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => setNewColor(color)}
+                        className={cn(
+                          "h-5 w-5 rounded-full border-2 cursor-pointer",
+                          newColor === color
+                            ? "border-gray-900"
+                            : "border-transparent",
+                        )}
+                        style={{ backgroundColor: color }}
+                        aria-label={`${t("labels.color")} ${color}`}
+                      />
+                    ))}
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    className="w-full justify-start"
+                    disabled={creating}
+                    onClick={() => void handleCreate()}
+                  >
+                    {creating ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <Plus className="h-3.5 w-3.5" />
+                    )}
+                    <span className="truncate">
+                      {t("labels.createLabel", { name: trimmedQuery })}
+                    </span>
+                  </Button>
+                </div>
+              )}
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+
+      {value.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map((cardLabel) => (
+            <LabelChip
+              key={cardLabel.labelId}
+              name={cardLabel.label.name}
+              color={cardLabel.label.color}
+              size="md"
+              onRemove={
+                disabled ? undefined : () => void handleToggle(cardLabel.label)
+              }
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">{t("labels.noLabels")}</p>
+      )}
+    </div>
+  );
+}
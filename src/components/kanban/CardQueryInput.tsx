@@ -0,0 +1,166 @@
+"use client";
+
+import { useId, useMemo, useRef, useState } from "react";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  getCardQuerySuggestions,
+  parseCardQuery,
+  type CardQuerySuggestionSource,
+} from "@/lib/card-query";
+import { t } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+interface CardQueryInputProps extends CardQuerySuggestionSource {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+/**
+ * Query bar for board cards with autocomplete for filter fields and their
+ * values. Terms that do not parse are listed below the input.
+ */
+export function CardQueryInput({
+  value,
+  onChange,
+  members,
+  labels,
+  className,
+}: CardQueryInputProps) {
+  const listId = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(value.length);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const { from, to, suggestions } = useMemo(
+    () => getCardQuerySuggestions(value, caret, { members, labels }),
+    [value, caret, members, labels],
+  );
+  const errors = useMemo(() => parseCardQuery(value).errors, [value]);
+  const showList = open && (suggestions.length > 0 || errors.length > 0);
+  const active = Math.min(activeIndex, Math.max(suggestions.length - 1, 0));
+
+  const syncCaret = () =>
+    setCaret(inputRef.current?.selectionStart ?? value.length);
+
+  const applySuggestion = (index: number) => {
+    const suggestion = suggestions[index];
+    if (!suggestion) return;
+    const next = value.slice(0, from) + suggestion.insert + value.slice(to);
+    const nextCaret = from + suggestion.insert.length;
+    onChange(next);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+    requestAnimationFrame(() =>
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret),
+    );
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Escape") {
+      setOpen(false);
+      return;
+    }
+    if (!showList || suggestions.length === 0) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((active + step + suggestions.length) % suggestions.length);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      applySuggestion(active);
+    }
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className="pointer-events-none absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        type="search"
+        role="combobox"
+        aria-label={t("filters.search")}
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={
+          showList && suggestions.length > 0 ? `${listId}-${active}` : undefined
+        }
+        aria-invalid={errors.length > 0 || undefined}
+        title={t("cardQuery.help")}
+        value={value}
+        onChange={(event) => {
+          onChange(event.target.value);
+          setCaret(event.target.selectionStart ?? event.target.value.length);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => {
+          syncCaret();
+          setOpen(true);
+        }}
+        onBlur={() => setOpen(false)}
+        onClick={syncCaret}
+        onKeyUp={(event) => {
+          if (event.key === "ArrowLeft" || event.key === "ArrowRight") {
+            syncCaret();
+          }
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder={t("filters.searchPlaceholder")}
+        maxLength={200}
+        className={cn(
+          "h-8 w-32 pl-7 text-sm sm:w-44 sm:focus:w-72 transition-[width]",
+          errors.length > 0 && "border-destructive",
+        )}
+      />
+      {showList && (
+        <div className="absolute left-0 top-full z-50 mt-1 w-72 rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+          {errors.map((error) => (
+            <p
+              key={`${error.code}-${error.term}`}
+              role="alert"
+              className="px-2 py-1 text-xs text-destructive"
+            >
+              {t(`cardQuery.errors.${error.code}`, { term: error.term })}
+            </p>
+          ))}
+          {suggestions.length > 0 && (
+            <ul
+              id={listId}
+              role="listbox"
+              aria-label={t("cardQuery.suggestions")}
+            >
+              {suggestions.map((suggestion, index) => (
+                <li
+                  key={suggestion.insert}
+                  id={`${listId}-${index}`}
+                  role="option"
+                  aria-selected={index === active}
+                  // Keep focus in the input so the caret position survives.
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => applySuggestion(index)}
+                  className={cn(
+                    "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1 text-sm",
+                    index === active && "bg-accent text-accent-foreground",
+                  )}
+                >
+                  <span className="truncate font-mono text-xs">
+                    {suggestion.label}
+                  </span>
+                  {suggestion.detail && (
+                    <span className="ml-auto truncate text-xs text-muted-foreground">
+                      {suggestion.detail}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
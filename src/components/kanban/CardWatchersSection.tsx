@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Eye, EyeOff, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import type { Watch, WatchScope } from "@/lib/watchers";
+import { t } from "@/lib/i18n";
+
+const MAX_VISIBLE_WATCHERS = 5;
+
+type CardWatcher = {
+  id: string;
+  name: string | null;
+  email: string;
+  avatarUrl: string | null;
+  scope: WatchScope;
+};
+
+type CardWatchersResponse = {
+  watchers: CardWatcher[];
+  watch: Watch | null;
+};
+
+export const cardWatchersKey = (cardId: string) =>
+  `/api/cards/${cardId}/watchers`;
+
+const SCOPE_LABEL_KEYS = {
+  card: "watchers.viaCard",
+  column: "watchers.viaColumn",
+  board: "watchers.viaBoard",
+} as const;
+
+interface CardWatchersSectionProps {
+  cardId: string;
+  boardId: string;
+  onError?: (message: string) => void;
+}
+
+/**
+ * Watch toggle and watcher avatars of a card. Viewers can watch as well.
+ * A watch inherited from the column or board is shown but has to be
+ * removed where it was set.
+ */
+export function CardWatchersSection({
+  cardId,
+  boardId,
+  onError,
+}: CardWatchersSectionProps) {
+  const key = cardWatchersKey(cardId);
+  const { data, mutate } = useSWR<CardWatchersResponse>(key);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const watchers = data?.watchers ?? [];
+  const visible = watchers.slice(0, MAX_VISIBLE_WATCHERS);
+  const hiddenCount = watchers.length - visible.length;
+  const watch = data?.watch ?? null;
+  const inherited = watch !== null && watch.scope !== "card";
+
+  const handleToggle = async () => {
+    setIsSaving(true);
+    try {
+      const res = watch
+        ? await fetch(`/api/boards/${boardId}/watchers/${watch.id}`, {
+            method: "DELETE",
+          })
+        : await fetch(`/api/boards/${boardId}/watchers`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ cardId }),
+          });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(
+          (err as { error?: string }).error ?? t("watchers.failedToUpdate"),
+        );
+      }
+      await mutate();
+    } catch (e: unknown) {
+      onError?.(e instanceof Error ? e.message : t("watchers.failedToUpdate"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div className="flex items-center gap-2 min-w-0">
+        {visible.length > 0 ? (
+          <div className="flex items-center -space-x-2">
+            {visible.map((watcher) => (
+              <UserAvatar
+                key={watcher.id}
+                title={`${watcher.name || watcher.email} (${t(SCOPE_LABEL_KEYS[watcher.scope])})`}
+                name={watcher.name}
+                email={watcher.email}
+                avatarUrl={watcher.avatarUrl}
+                className="h-6 w-6 border-2 border-background"
+              />
+            ))}
+            {hiddenCount > 0 && (
+              <span className="flex h-6 w-6 items-center justify-center rounded-full border-2 border-background bg-muted text-[10px] font-semibold">
+                +{hiddenCount}
+              </span>
+            )}
+          </div>
+        ) : null}
+        <span className="text-xs text-muted-foreground truncate">
+          {t("watchers.count", { count: watchers.length })}
+        </span>
+      </div>
+      <Button
+        type="button"
+        variant={watch ? "secondary" : "outline"}
+        size="sm"
+        onClick={() => void handleToggle()}
+        disabled={!data || isSaving || inherited}
+        title={
+          inherited ? t(SCOPE_LABEL_KEYS[watch.scope]) : t("watchers.hint")
+        }
+        aria-pressed={watch !== null}
+      >
+        {isSaving ? (
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        ) : watch ? (
+          <EyeOff className="h-3.5 w-3.5" />
+        ) : (
+          <Eye className="h-3.5 w-3.5" />
+        )}
+        {watch ? t("watchers.unwatch") : t("watchers.watch")}
+      </Button>
+    </div>
+  );
+}
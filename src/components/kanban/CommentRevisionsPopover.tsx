@@ -0,0 +1,142 @@
+"use client";
+
+import useSWR from "swr";
+import { Loader2 } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  describeCommentEdits,
+  type CommentRevision,
+} from "@/lib/comment-revisions";
+import { formatDateTime } from "@/lib/date-format";
+import { t } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+const fetcher = (url: string) =>
+  fetch(url).then((r) => {
+    if (!r.ok) throw new Error(t("editCard.commentHistoryError"));
+    return r.json();
+  });
+
+interface CommentRevisionsPopoverProps {
+  commentId: string;
+  // The body shown now, the newest side of the latest diff
+  body: string;
+  createdAt: string;
+  editedAt: string;
+}
+
+/** The "(edited)" marker; opens the comment's edit history with diffs. */
+export function CommentRevisionsPopover({
+  commentId,
+  body,
+  createdAt,
+  editedAt,
+}: CommentRevisionsPopoverProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="mt-1 text-xs text-muted-foreground italic hover:underline"
+        >
+          {t("editCard.commentEdited")} · {formatDateTime(editedAt)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 max-w-[90vw] p-3" align="start">
+        <CommentHistory
+          commentId={commentId}
+          body={body}
+          createdAt={createdAt}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function CommentHistory({
+  commentId,
+  body,
+  createdAt,
+}: {
+  commentId: string;
+  body: string;
+  createdAt: string;
+}) {
+  const { data, error, isLoading } = useSWR<{ revisions: CommentRevision[] }>(
+    `/api/comments/${commentId}/revisions`,
+    fetcher,
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <p className="text-sm text-destructive">
+        {t("editCard.commentHistoryError")}
+      </p>
+    );
+  }
+
+  const edits = describeCommentEdits(body, data.revisions);
+  const original = data.revisions[data.revisions.length - 1];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium">
+        {t("editCard.commentHistory", { count: edits.length })}
+      </p>
+      <ol className="max-h-80 space-y-3 overflow-y-auto">
+        {edits.map(({ revision, diff }) => (
+          <li key={revision.id} className="space-y-1">
+            <p className="text-xs text-muted-foreground">
+              {t("editCard.commentHistoryEdit", {
+                name:
+                  revision.editor?.name ||
+                  revision.editor?.email ||
+                  t("cardActivity.unknownUser"),
+                date: formatDateTime(revision.createdAt),
+              })}
+            </p>
+            <p className="whitespace-pre-wrap wrap-break-word rounded border bg-muted/20 p-2 text-sm">
+              {diff.map((part, index) => (
+                <span
+                  key={index}
+                  className={cn(
+                    part.type === "added" &&
+                      "bg-green-500/20 text-green-800 dark:text-green-300",
+                    part.type === "removed" &&
+                      "bg-red-500/20 text-red-800 line-through dark:text-red-300",
+                  )}
+                >
+                  {part.text}
+                </span>
+              ))}
+            </p>
+          </li>
+        ))}
+        {original && (
+          <li className="space-y-1">
+            <p className="text-xs text-muted-foreground">
+              {t("editCard.commentHistoryOriginal", {
+                date: formatDateTime(createdAt),
+              })}
+            </p>
+            <p className="whitespace-pre-wrap wrap-break-word rounded border bg-muted/20 p-2 text-sm">
+              {original.body}
+            </p>
+          </li>
+        )}
+      </ol>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import Image from "next/image";
+import { mutate as mutateSWR } from "swr";
 import {
   Dialog,
   DialogContent,
@@ -12,7 +13,6 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
 import {
   Popover,
@@ -21,6 +21,7 @@ import {
 } from "@/components/ui/popover";
 
 import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Select,
   SelectContent,
@@ -31,7 +32,6 @@ import {
 import {
   Loader2,
   Trash2,
-  Pencil,
   File as FileIcon,
   FileText,
   FileArchive,
@@ -52,6 +52,7 @@ import {
   Plus,
   Download,
   ExternalLink,
+  History,
 } from "lucide-react";
 import type {
   Card,
@@ -59,11 +60,21 @@ import type {
   User,
   Label as DatabaseLabel,
   CardPriority,
+  CardLabelWithLabel,
 } from "@/types/database";
 import { MarkdownEditor } from "@/components/ui/markdown-editor";
 import { PrioritySelector } from "@/components/ui/priority-selector";
-import { UserAvatar } from "@/components/ui/UserAvatar";
 import { DeadlineSection } from "./DeadlineSection";
+import { CardLabelsSection } from "./CardLabelsSection";
+import { AssigneeMultiSelect } from "./AssigneeMultiSelect";
+import { CardDependenciesSection } from "./CardDependenciesSection";
+import { CardWatchersSection, cardWatchersKey } from "./CardWatchersSection";
+import { CardActivityTimeline } from "./CardActivityTimeline";
+import { CardCommentThread, type CardCommentItem } from "./CardCommentThread";
+import {
+  DEFAULT_RECURRENCE_COLUMN,
+  RecurrenceSection,
+} from "./RecurrenceSection";
 import {
   MentionTextarea,
   type MentionTextareaRef,
@@ -71,14 +82,19 @@ import {
 
 import { t } from "@/lib/i18n";
 import { cn } from "@/lib/utils";
-import { formatDisplayDate, formatDateTime } from "@/lib/date-format";
+import { formatDisplayDate } from "@/lib/date-format";
 import { useForm, Controller } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { parseRecurrenceRule } from "@/lib/card-recurrence";
+import { getCardAssigneeIds } from "@/lib/card-assignees";
+import { CARD_BLOCKED_ERROR_CODE } from "@/lib/card-dependencies";
+import { MAX_COMMENT_LENGTH, groupCommentThreads } from "@/lib/comment-threads";
 import {
   getEditCardAttachmentErrorMessage,
   getEditCardDueDateInputValue,
   normalizeEditCardDueDateForApi,
+  normalizeEditCardStartDateForApi,
 } from "./edit-card-dialog.utils";
 
 interface EditCardDialogProps {
@@ -99,22 +115,9 @@ interface EditCardDialogProps {
   onCardUpdated?: (card: Card) => void;
   onCardDeleted?: (cardId: string) => void;
   onCardCreated?: (card: Card) => void;
+  onLabelCreated?: (label: DatabaseLabel) => void;
 }
 
-type CommentItem = {
-  id: string;
-  body: string;
-  createdAt: string;
-  editedAt?: string | null;
-  deletedAt?: string | null;
-  author: {
-    id: string;
-    name: string | null;
-    email: string;
-    avatarUrl?: string | null;
-  };
-};
-
 type AttachmentItem = {
   name: string;
   path: string;
@@ -123,50 +126,6 @@ type AttachmentItem = {
   size: number | undefined;
 };
 
-/** Escape text for safe insertion into innerHTML */
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
-}
-
-/**
- * Render comment body: URLs become domain-only anchor tags (full URL on hover),
- * @mentions are highlighted, and HTML entities are escaped.
- */
-function renderCommentBody(body: string): string {
-  const urlRegex = /https?:\/\/[^\s<>"]+/g;
-  let result = "";
-  let lastIndex = 0;
-  let match: RegExpExecArray | null;
-
-  while ((match = urlRegex.exec(body)) !== null) {
-    const textBefore = body.slice(lastIndex, match.index);
-    result += escapeHtml(textBefore).replace(
-      /@([\w.]+)/g,
-      '<span class="mention-highlight">@$1</span>',
-    );
-
-    const rawUrl = match[0];
-    try {
-      const parsed = new URL(rawUrl);
-      const safeHref = escapeHtml(rawUrl).replace(/"/g, "&quot;");
-      result += `<a href="${safeHref}" title="${safeHref}" target="_blank" rel="noopener noreferrer" class="comment-link">${parsed.hostname}</a>`;
-    } catch {
-      result += escapeHtml(rawUrl);
-    }
-    lastIndex = match.index + rawUrl.length;
-  }
-
-  const remaining = body.slice(lastIndex);
-  result += escapeHtml(remaining).replace(
-    /@([\w.]+)/g,
-    '<span class="mention-highlight">@$1</span>',
-  );
-  return result;
-}
-
 const parseCalendarDate = (value: string | undefined): Date | undefined => {
   if (!value) return undefined;
 
@@ -197,6 +156,67 @@ const getCalendarFieldValue = (date: Date | undefined): string => {
   return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
 };
 
+/** Date picker with a clear button for the optional start date. */
+function StartDatePicker({
+  id,
+  value,
+  disabled,
+  onChange,
+}: {
+  id: string;
+  value: string | undefined;
+  disabled: boolean;
+  onChange: (value: string) => void;
+}) {
+  const selectedDate = parseCalendarDate(value);
+  return (
+    <div className="flex items-center gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            disabled={disabled}
+            className={cn(
+              "h-10 flex-1 justify-start text-left font-normal",
+              !selectedDate && "text-muted-foreground",
+            )}
+          >
+            <CalendarIcon className="h-4 w-4" />
+            <span>
+              {selectedDate
+                ? formatDisplayDate(selectedDate)
+                : t("editCard.dueDatePlaceholder")}
+            </span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={selectedDate}
+            onSelect={(date) => onChange(getCalendarFieldValue(date))}
+            disabled={disabled}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {value ? (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          disabled={disabled}
+          onClick={() => onChange("")}
+          aria-label={t("editCard.clearStartDate")}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      ) : null}
+    </div>
+  );
+}
+
 const imageExts = new Set(["png", "jpg", "jpeg", "gif", "webp", "bmp", "svg"]);
 
 const isImageFile = (name: string) =>
@@ -349,6 +369,7 @@ export function EditCardDialog({
   card,
   columns,
   boardMembers,
+  boardLabels,
   currentUser,
   userRole = "member",
   onCardUpdated,
@@ -356,8 +377,11 @@ export function EditCardDialog({
   boardId,
   defaultColumnId,
   onCardCreated,
+  onLabelCreated,
 }: EditCardDialogProps) {
   const isViewer = userRole === "viewer";
+  // Same roles as the card context menu; deleted cards go to the trash
+  const canDelete = userRole === "owner" || userRole === "admin";
   const [isLoading, setIsLoading] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [error, setError] = useState("");
@@ -369,9 +393,15 @@ export function EditCardDialog({
     title: z.string().min(1, t("editCard.titleRequired")),
     columnId: z.string().min(1, t("editCard.columnRequired")),
     description: z.string().optional().default(""),
-    assigneeId: z.string().optional().default("none"),
+    assigneeIds: z.array(z.string()).optional().default([]),
+    startDate: z.string().optional().default(""),
     dueDate: z.string().optional().default(""),
     priority: z.enum(["high", "medium", "low"]).optional().default("medium"),
+    recurrenceRule: z.string().optional().default(""),
+    recurrenceColumnId: z
+      .string()
+      .optional()
+      .default(DEFAULT_RECURRENCE_COLUMN),
   });
   type CardFormInput = z.input<typeof CardFormSchema>;
   type CardFormValues = z.output<typeof CardFormSchema>;
@@ -386,10 +416,15 @@ export function EditCardDialog({
         : defaultColumnId
           ? String(defaultColumnId)
           : "",
-      assigneeId: currentUser?.id || "none",
+      assigneeIds: currentUser ? [currentUser.id] : [],
+      startDate: getEditCardDueDateInputValue(card?.startDate),
       dueDate: getEditCardDueDateInputValue(card?.dueDate),
 
       priority: (card?.priority as CardPriority) || "medium",
+      recurrenceRule: card?.recurrenceRule ?? "",
+      recurrenceColumnId: card?.recurrenceColumnId
+        ? String(card.recurrenceColumnId)
+        : DEFAULT_RECURRENCE_COLUMN,
     },
   });
   const {
@@ -400,12 +435,25 @@ export function EditCardDialog({
     reset,
   } = form;
 
+  // The current user may be missing from boardMembers (e.g. board owner)
+  const assigneeOptions = [
+    ...(currentUser &&
+    !boardMembers?.some((member) => member.id === currentUser.id)
+      ? [
+          {
+            ...currentUser,
+            avatarUrl:
+              (currentUser as { avatarUrl?: string | null }).avatarUrl ?? null,
+          },
+        ]
+      : []),
+    ...(boardMembers ?? []),
+  ];
+
   // Comments state
-  const [comments, setComments] = useState<CommentItem[]>([]);
+  const [comments, setComments] = useState<CardCommentItem[]>([]);
   const [commentsLoading, setCommentsLoading] = useState(false);
   const [commentBody, setCommentBody] = useState("");
-  const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
-  const [editingCommentBody, setEditingCommentBody] = useState("");
 
   // Attachments state
   const [attachments, setAttachments] = useState<AttachmentItem[]>([]);
@@ -427,6 +475,44 @@ export function EditCardDialog({
   const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
   const [subtaskAdding, setSubtaskAdding] = useState(false);
 
+  // Labels state (saved immediately, independent of the form submit)
+  const [cardLabels, setCardLabels] = useState<CardLabelWithLabel[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setCardLabels(
+      (card as (Card & { labels?: CardLabelWithLabel[] }) | null)?.labels ?? [],
+    );
+  }, [open, card]);
+
+  // Open blockers, kept in sync with the dependencies section so the board
+  // shows the blocked indicator without a reload
+  const [blockedByCount, setBlockedByCount] = useState(0);
+
+  useEffect(() => {
+    if (!open) return;
+    setBlockedByCount(
+      (card as (Card & { blockedByCount?: number }) | null)?.blockedByCount ??
+        0,
+    );
+  }, [open, card]);
+
+  const handleLabelsChange = (labels: CardLabelWithLabel[]) => {
+    setCardLabels(labels);
+    if (card) onCardUpdated?.({ ...card, labels, blockedByCount } as Card);
+  };
+
+  const handleBlockedByCountChange = (count: number) => {
+    setBlockedByCount(count);
+    if (card) {
+      onCardUpdated?.({
+        ...card,
+        labels: cardLabels,
+        blockedByCount: count,
+      } as Card);
+    }
+  };
+
   // Initialize form from card when editing, or defaults when creating.
   useEffect(() => {
     if (!open) return;
@@ -435,18 +521,26 @@ export function EditCardDialog({
         title: card.title,
         description: card.description || "",
         columnId: card.columnId ? String(card.columnId) : "",
-        assigneeId: card.assigneeId || "none",
+        assigneeIds: getCardAssigneeIds(card),
+        startDate: getEditCardDueDateInputValue(card.startDate),
         dueDate: getEditCardDueDateInputValue(card.dueDate),
         priority: (card.priority as CardPriority) || "medium",
+        recurrenceRule: card.recurrenceRule ?? "",
+        recurrenceColumnId: card.recurrenceColumnId
+          ? String(card.recurrenceColumnId)
+          : DEFAULT_RECURRENCE_COLUMN,
       });
     } else {
       reset({
         title: "",
         description: "",
         columnId: defaultColumnId ? String(defaultColumnId) : "",
-        assigneeId: currentUser?.id || "none",
+        assigneeIds: currentUser ? [currentUser.id] : [],
+        startDate: "",
         dueDate: "",
         priority: "medium",
+        recurrenceRule: "",
+        recurrenceColumnId: DEFAULT_RECURRENCE_COLUMN,
       });
     }
   }, [open, card, defaultColumnId, currentUser, reset]);
@@ -462,7 +556,7 @@ export function EditCardDialog({
           const data = await res.json();
           setComments(
             (data.comments || []).map(
-              (c: CommentItem & { id: number | string }) => ({
+              (c: CardCommentItem & { id: number | string }) => ({
                 ...c,
                 id: String(c.id),
               }),
@@ -507,10 +601,21 @@ export function EditCardDialog({
     fetchSubtasks();
   }, [open, card]);
 
+  // The API rejects longer bodies; say why instead of "Invalid input"
+  const isCommentTooLong = (body: string) => {
+    if (body.length <= MAX_COMMENT_LENGTH) return false;
+    setError(t("editCard.commentTooLong", { max: MAX_COMMENT_LENGTH }));
+    return true;
+  };
+
   const handleSubmitComment = useCallback(
     async (e?: React.FormEvent) => {
       e?.preventDefault();
       if (!card || !commentBody.trim()) return;
+      if (commentBody.trim().length > MAX_COMMENT_LENGTH) {
+        setError(t("editCard.commentTooLong", { max: MAX_COMMENT_LENGTH }));
+        return;
+      }
       const mentionedUserIds =
         mentionTextareaRef.current?.getMentionedUserIds() ?? [];
       try {
@@ -532,6 +637,8 @@ export function EditCardDialog({
           ]);
           setCommentBody("");
           mentionTextareaRef.current?.reset();
+          // Commenting subscribes the author to the card
+          void mutateSWR(cardWatchersKey(card.id));
         } else {
           const err = await res.json();
           setError(err.error || t("editCard.failedToAddComment"));
@@ -610,19 +717,17 @@ export function EditCardDialog({
     }
   };
 
-  const handleStartEditComment = (comment: CommentItem) => {
-    setEditingCommentId(comment.id);
-    setEditingCommentBody(comment.body);
-  };
-
-  const handleSaveComment = async (commentId: string) => {
-    if (!editingCommentBody.trim()) return;
+  const handleSaveComment = async (
+    commentId: string,
+    body: string,
+  ): Promise<boolean> => {
+    if (isCommentTooLong(body)) return false;
     try {
       setCommentsLoading(true);
       const res = await fetch(`/api/comments/${commentId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ body: editingCommentBody.trim() }),
+        body: JSON.stringify({ body }),
       });
       if (res.ok) {
         const updated = await res.json();
@@ -631,23 +736,80 @@ export function EditCardDialog({
             c.id === commentId
               ? {
                   ...c,
-                  body: updated.body ?? editingCommentBody.trim(),
+                  body: updated.body ?? body,
                   editedAt: updated.editedAt ?? new Date().toISOString(),
                 }
               : c,
           ),
         );
-        setEditingCommentId(null);
-        setEditingCommentBody("");
-      } else {
-        const err = await res.json();
-        setError(err.error || t("editCard.failedToEditComment"));
+        return true;
       }
+      const err = await res.json();
+      setError(err.error || t("editCard.failedToEditComment"));
+      return false;
     } finally {
       setCommentsLoading(false);
     }
   };
 
+  const handleReplyComment = async (
+    parentId: string,
+    body: string,
+    mentionedUserIds: string[],
+  ): Promise<boolean> => {
+    if (!card || isCommentTooLong(body)) return false;
+    try {
+      setCommentsLoading(true);
+      const res = await fetch("/api/comments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          cardId: card.id,
+          body,
+          parentId,
+          mentionedUserIds,
+        }),
+      });
+      if (res.ok) {
+        const created = await res.json();
+        setComments((prev) => [
+          ...prev,
+          { ...created, id: String(created.id) },
+        ]);
+        void mutateSWR(cardWatchersKey(card.id));
+        return true;
+      }
+      const err = await res.json();
+      setError(err.error || t("editCard.failedToReply"));
+      return false;
+    } catch {
+      setError(t("editCard.failedToReply"));
+      return false;
+    } finally {
+      setCommentsLoading(false);
+    }
+  };
+
+  const handleToggleReaction = async (commentId: string, emoji: string) => {
+    try {
+      const res = await fetch(`/api/comments/${commentId}/reactions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emoji }),
+      });
+      if (!res.ok) {
+        setError(t("editCard.failedToReact"));
+        return;
+      }
+      const { reactions } = await res.json();
+      setComments((prev) =>
+        prev.map((c) => (c.id === commentId ? { ...c, reactions } : c)),
+      );
+    } catch {
+      setError(t("editCard.failedToReact"));
+    }
+  };
+
   const handleDeleteComment = async (commentId: string) => {
     try {
       setCommentsLoading(true);
@@ -780,15 +942,34 @@ export function EditCardDialog({
       if (values.dueDate && !dueDate) {
         throw new Error(t("editCard.invalidDueDate"));
       }
+      const startDate = normalizeEditCardStartDateForApi(values.startDate);
+      if (values.startDate && !startDate) {
+        throw new Error(t("editCard.invalidStartDate"));
+      }
+      if (startDate && dueDate && startDate > dueDate) {
+        throw new Error(t("editCard.startAfterDue"));
+      }
+      const recurrenceRule = values.recurrenceRule.trim() || null;
+      if (recurrenceRule && !parseRecurrenceRule(recurrenceRule)) {
+        throw new Error(t("recurrence.invalid"));
+      }
+      const recurrenceColumnId =
+        recurrenceRule &&
+        values.recurrenceColumnId !== DEFAULT_RECURRENCE_COLUMN
+          ? parseInt(values.recurrenceColumnId)
+          : null;
 
       if (card) {
         const patchBody: Record<string, unknown> = {
           title: values.title.trim(),
           description: values.description.trim() || null,
           columnId: parseInt(values.columnId),
-          assigneeId: values.assigneeId === "none" ? null : values.assigneeId,
+          assigneeIds: values.assigneeIds,
           priority: values.priority,
+          startDate,
           dueDate: dueDate,
+          recurrenceRule,
+          recurrenceColumnId,
         };
         const response = await fetch(`/api/cards/${card.id}`, {
           method: "PATCH",
@@ -797,10 +978,13 @@ export function EditCardDialog({
         });
         if (!response.ok) {
           const errorData = await response.json();
+          if (errorData.code === CARD_BLOCKED_ERROR_CODE) {
+            throw new Error(t("dependencies.moveRejected"));
+          }
           throw new Error(errorData.error || t("editCard.failedToUpdate"));
         }
         const { card: updatedCard } = await response.json();
-        onCardUpdated?.(updatedCard);
+        onCardUpdated?.({ ...updatedCard, labels: cardLabels, blockedByCount });
         handleClose();
       } else {
         if (!boardId) {
@@ -815,7 +999,8 @@ export function EditCardDialog({
             columnId: parseInt(values.columnId),
             title: values.title.trim(),
             description: values.description.trim() || null,
-            assigneeId: values.assigneeId === "none" ? null : values.assigneeId,
+            assigneeIds: values.assigneeIds,
+            startDate: startDate || undefined,
             dueDate: dueDate || undefined,
             priority: values.priority,
           }),
@@ -865,13 +1050,14 @@ export function EditCardDialog({
       title: "",
       description: "",
       columnId: defaultColumnId ? String(defaultColumnId) : "",
-      assigneeId: currentUser?.id || "none",
+      assigneeIds: currentUser ? [currentUser.id] : [],
+      startDate: "",
       dueDate: "",
       priority: "medium",
+      recurrenceRule: "",
+      recurrenceColumnId: DEFAULT_RECURRENCE_COLUMN,
     });
     setError("");
-    setEditingCommentId(null);
-    setEditingCommentBody("");
     setAttachments([]);
     onOpenChange(false);
   };
@@ -913,6 +1099,15 @@ export function EditCardDialog({
                     })}
               </DialogDescription>
             </DialogHeader>
+            {/* Watching: outside the fieldset, viewers may watch too */}
+            {card && boardId ? (
+              <CardWatchersSection
+                key={card.id}
+                cardId={card.id}
+                boardId={boardId}
+                onError={setError}
+              />
+            ) : null}
             {isViewer && (
               <div className="text-sm text-amber-700 bg-amber-50 p-3 rounded-md border border-amber-200">
                 {t("editCard.viewerReadOnly")}
@@ -1033,73 +1228,52 @@ export function EditCardDialog({
                       {t("editCard.assigneeLabel")}
                     </Label>
                     <Controller
-                      name="assigneeId"
+                      name="assigneeIds"
                       control={control}
                       render={({ field }) => (
-                        <Select
-                          value={field.value || "none"}
-                          onValueChange={field.onChange}
+                        <AssigneeMultiSelect
+                          value={field.value ?? []}
+                          onChange={field.onChange}
+                          members={assigneeOptions}
+                          currentUserId={currentUser?.id ?? null}
                           disabled={isLoading || isDeleting}
-                        >
-                          <SelectTrigger className="h-10">
-                            <SelectValue
-                              placeholder={t("editCard.assigneePlaceholder")}
-                            />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="none">
-                              {t("editCard.noAssignee")}
-                            </SelectItem>
-                            {currentUser && (
-                              <SelectItem
-                                key={currentUser.id}
-                                value={currentUser.id}
-                              >
-                                <div className="flex items-center gap-2">
-                                  <UserAvatar
-                                    name={currentUser.name}
-                                    email={currentUser.email}
-                                    avatarUrl={
-                                      (
-                                        currentUser as {
-                                          avatarUrl?: string | null;
-                                        }
-                                      ).avatarUrl
-                                    }
-                                    className="h-5 w-5 shrink-0"
-                                  />
-                                  <span>
-                                    {currentUser.name || currentUser.email} (
-                                    {t("boardDetail.you")})
-                                  </span>
-                                </div>
-                              </SelectItem>
-                            )}
-                            {boardMembers
-                              ?.filter(
-                                (member) => member.id !== currentUser?.id,
-                              )
-                              .map((member) => (
-                                <SelectItem key={member.id} value={member.id}>
-                                  <div className="flex items-center gap-2">
-                                    <UserAvatar
-                                      name={member.name}
-                                      email={member.email}
-                                      avatarUrl={member.avatarUrl}
-                                      className="h-5 w-5 shrink-0"
-                                    />
-                                    <span>{member.name || member.email}</span>
-                                  </div>
-                                </SelectItem>
-                              ))}
-                          </SelectContent>
-                        </Select>
+                        />
                       )}
                     />
                   </div>
                 </div>
               </div>
 
+              {/* Labels: only in edit mode */}
+              {card && boardId ? (
+                <div className="rounded-lg border bg-muted/20 p-3 sm:p-4">
+                  <CardLabelsSection
+                    cardId={card.id}
+                    boardId={boardId}
+                    boardLabels={boardLabels}
+                    value={cardLabels}
+                    disabled={isViewer || isLoading || isDeleting}
+                    onChange={handleLabelsChange}
+                    onLabelCreated={onLabelCreated}
+                    onError={setError}
+                  />
+                </div>
+              ) : null}
+
+              {/* Dependencies: only in edit mode */}
+              {card && boardId ? (
+                <div className="rounded-lg border bg-muted/20 p-3 sm:p-4">
+                  <CardDependenciesSection
+                    key={card.id}
+                    cardId={card.id}
+                    boardId={boardId}
+                    disabled={isViewer || isLoading || isDeleting}
+                    onBlockedByCountChange={handleBlockedByCountChange}
+                    onError={setError}
+                  />
+                </div>
+              ) : null}
+
               {/* Subtasks: only in edit mode */}
               {card ? (
                 <div className="rounded-lg border bg-muted/20 p-3 sm:p-4">
@@ -1225,8 +1399,26 @@ export function EditCardDialog({
                   {/* Row 2: Due Date | Attachments */}
                   <div className="rounded-lg border bg-muted/20 p-3 sm:p-4">
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
-                      {/* Due Date */}
+                      {/* Start + Due Date */}
                       <div className="flex flex-col gap-2">
+                        <Label
+                          htmlFor="startDateEdit"
+                          className="text-sm font-medium"
+                        >
+                          {t("editCard.startDateLabel")}
+                        </Label>
+                        <Controller
+                          name="startDate"
+                          control={control}
+                          render={({ field }) => (
+                            <StartDatePicker
+                              id="startDateEdit"
+                              value={field.value}
+                              disabled={isLoading || isDeleting}
+                              onChange={field.onChange}
+                            />
+                          )}
+                        />
                         <Controller
                           name="dueDate"
                           control={control}
@@ -1252,6 +1444,29 @@ export function EditCardDialog({
                             );
                           }}
                         />
+                        <Controller
+                          name="recurrenceRule"
+                          control={control}
+                          render={({ field }) => (
+                            <RecurrenceSection
+                              key={card.id}
+                              value={field.value ?? ""}
+                              onChange={field.onChange}
+                              columnId={
+                                watch("recurrenceColumnId") ??
+                                DEFAULT_RECURRENCE_COLUMN
+                              }
+                              onColumnIdChange={(value) =>
+                                form.setValue("recurrenceColumnId", value, {
+                                  shouldDirty: true,
+                                })
+                              }
+                              columns={columns}
+                              dueDate={watch("dueDate") ?? ""}
+                              disabled={isViewer || isLoading || isDeleting}
+                            />
+                          )}
+                        />
                         {isCompleted && card?.completedAt && (
                           <div className="mt-1 inline-flex items-center gap-1.5 rounded-md border border-green-200 bg-green-50 px-2.5 py-1 text-xs font-medium text-green-700">
                             <CheckCircle2 className="h-3.5 w-3.5 shrink-0" />
@@ -1333,287 +1548,214 @@ export function EditCardDialog({
                   </div>
 
                   {/* Row 3: Discussion */}
-                  <div className="space-y-3 sm:space-y-4 pt-4 sm:pt-6 border-t">
-                    <Label className="flex items-center gap-1.5 text-sm font-medium">
-                      <MessageSquare className="h-3.5 w-3.5 text-muted-foreground" />
-                      {t("editCard.discussion")}
-                    </Label>
-
-                    {/* Comment list */}
-                    <div className="space-y-3 max-h-72 overflow-y-auto pr-1">
-                      {commentsLoading && comments.length === 0 && (
-                        <div className="flex justify-center py-4">
-                          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
-                        </div>
-                      )}
-                      {!commentsLoading && comments.length === 0 && (
-                        <p className="text-sm text-muted-foreground">
-                          {t("editCard.noComments")}
-                        </p>
-                      )}
-                      {comments.map((c) => {
-                        const isOwn = currentUser?.id === c.author.id;
-                        const isEditing = editingCommentId === c.id;
-                        const isDeleted = !!c.deletedAt;
-
-                        return (
-                          <div
-                            key={c.id}
-                            className={`group flex gap-3 rounded-lg border p-4 ${isDeleted ? "bg-muted/10 opacity-60" : "bg-muted/20"}`}
-                          >
-                            {/* Avatar */}
-                            <UserAvatar
-                              name={c.author.name}
-                              email={c.author.email}
-                              avatarUrl={c.author.avatarUrl}
-                              className="h-7 w-7 shrink-0 mt-0.5"
-                            />
+                  <Tabs
+                    defaultValue="discussion"
+                    className="space-y-3 sm:space-y-4 pt-4 sm:pt-6 border-t"
+                  >
+                    <TabsList>
+                      <TabsTrigger
+                        value="discussion"
+                        className="flex items-center gap-1.5"
+                      >
+                        <MessageSquare className="h-3.5 w-3.5" />
+                        {t("editCard.discussion")}
+                      </TabsTrigger>
+                      <TabsTrigger
+                        value="activity"
+                        className="flex items-center gap-1.5"
+                      >
+                        <History className="h-3.5 w-3.5" />
+                        {t("cardActivity.tabActivity")}
+                      </TabsTrigger>
+                    </TabsList>
+
+                    <TabsContent value="activity">
+                      <CardActivityTimeline
+                        cardId={card.id}
+                        comments={comments}
+                        columns={columns}
+                        boardMembers={boardMembers}
+                      />
+                    </TabsContent>
+
+                    <TabsContent
+                      value="discussion"
+                      className="space-y-3 sm:space-y-4"
+                    >
+                      {/* Comment list */}
+                      <div className="space-y-3 max-h-72 overflow-y-auto pr-1">
+                        {commentsLoading && comments.length === 0 && (
+                          <div className="flex justify-center py-4">
+                            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                          </div>
+                        )}
+                        {!commentsLoading && comments.length === 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            {t("editCard.noComments")}
+                          </p>
+                        )}
+                        {groupCommentThreads(comments).map((thread) => (
+                          <CardCommentThread
+                            key={thread.comment.id}
+                            thread={thread}
+                            currentUserId={currentUser?.id ?? null}
+                            canWrite={!isViewer}
+                            boardMembers={boardMembers}
+                            disabled={commentsLoading}
+                            onSaveEdit={handleSaveComment}
+                            onDelete={handleDeleteComment}
+                            onReply={handleReplyComment}
+                            onToggleReaction={handleToggleReaction}
+                          />
+                        ))}
+                      </div>
 
-                            <div className="flex-1 min-w-0">
-                              {/* Header */}
-                              <div className="flex items-baseline justify-between gap-2">
-                                <span className="text-sm font-medium leading-none">
-                                  {c.author.name || c.author.email}
-                                  {isOwn && (
-                                    <span className="ml-1 text-xs text-muted-foreground font-normal">
-                                      ({t("boardDetail.you")})
-                                    </span>
-                                  )}
-                                </span>
-                                <div className="flex items-center gap-1 shrink-0">
-                                  <span className="text-xs text-muted-foreground">
-                                    {formatDateTime(c.createdAt)}
-                                  </span>
-                                  {isOwn && !isViewer && !isDeleted && (
-                                    <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
-                                      <Button
-                                        type="button"
-                                        variant="ghost"
-                                        size="icon"
-                                        className="h-6 w-6"
-                                        onClick={() =>
-                                          handleStartEditComment(c)
-                                        }
-                                        disabled={commentsLoading}
-                                        aria-label={t("common.edit")}
-                                      >
-                                        <Pencil className="h-3 w-3" />
-                                      </Button>
-                                      <Button
-                                        type="button"
-                                        variant="ghost"
-                                        size="icon"
-                                        className="h-6 w-6 hover:text-destructive"
-                                        onClick={() =>
-                                          handleDeleteComment(c.id)
-                                        }
-                                        disabled={commentsLoading}
-                                        aria-label={t("common.delete")}
-                                      >
-                                        <Trash2 className="h-3 w-3" />
-                                      </Button>
-                                    </div>
-                                  )}
-                                </div>
-                              </div>
-
-                              {/* Body, deleted notice, or inline editor */}
-                              {isDeleted ? (
-                                <p className="mt-1.5 text-sm italic text-muted-foreground">
-                                  {t("editCard.commentDeleted")} ·{" "}
-                                  {formatDateTime(c.deletedAt!)}
-                                </p>
-                              ) : isEditing ? (
-                                <div className="mt-2 space-y-2">
-                                  <Textarea
-                                    value={editingCommentBody}
-                                    onChange={(e) =>
-                                      setEditingCommentBody(e.target.value)
-                                    }
-                                    rows={3}
-                                    className="text-sm resize-none"
-                                    autoFocus
-                                  />
-                                  <div className="flex gap-2">
-                                    <Button
-                                      type="button"
-                                      size="sm"
-                                      onClick={() => handleSaveComment(c.id)}
-                                      disabled={
-                                        commentsLoading ||
-                                        !editingCommentBody.trim()
-                                      }
-                                    >
-                                      {commentsLoading ? (
-                                        <Loader2 className="h-3 w-3 animate-spin" />
-                                      ) : (
-                                        <Send className="h-3 w-3" />
-                                      )}
-                                      <span className="hidden sm:inline">
-                                        {t("common.save")}
-                                      </span>
-                                    </Button>
-                                    <Button
-                                      type="button"
-                                      size="sm"
-                                      variant="outline"
-                                      onClick={() => {
-                                        setEditingCommentId(null);
-                                        setEditingCommentBody("");
-                                      }}
-                                    >
-                                      <X className="h-3 w-3 sm:hidden" />
-                                      <span className="hidden sm:inline">
-                                        {t("common.cancel")}
-                                      </span>
-                                    </Button>
-                                  </div>
-                                </div>
-                              ) : (
-                                <div>
-                                  <p
-                                    className="mt-1.5 text-sm whitespace-pre-wrap wrap-break-word"
-                                    dangerouslySetInnerHTML={{
-                                      __html: renderCommentBody(c.body),
-                                    }}
-                                  />
-                                  {c.editedAt && (
-                                    <p className="mt-1 text-xs text-muted-foreground italic">
-                                      {t("editCard.commentEdited")} ·{" "}
-                                      {formatDateTime(c.editedAt)}
-                                    </p>
-                                  )}
-                                </div>
+                      {/* New comment input */}
+                      {!isViewer && (
+                        <div className="flex items-start gap-2 pt-1">
+                          <div className="flex-1">
+                            <MentionTextarea
+                              ref={mentionTextareaRef}
+                              value={commentBody}
+                              onChange={setCommentBody}
+                              boardMembers={boardMembers}
+                              placeholder={t(
+                                "editCard.commentMentionPlaceholder",
                               )}
-                            </div>
+                              disabled={
+                                commentsLoading || isLoading || isDeleting
+                              }
+                              onSubmit={() => void handleSubmitComment()}
+                            />
                           </div>
-                        );
-                      })}
-                    </div>
-
-                    {/* New comment input */}
-                    {!isViewer && (
-                      <div className="flex items-start gap-2 pt-1">
-                        <div className="flex-1">
-                          <MentionTextarea
-                            ref={mentionTextareaRef}
-                            value={commentBody}
-                            onChange={setCommentBody}
-                            boardMembers={boardMembers}
-                            placeholder={t(
-                              "editCard.commentMentionPlaceholder",
-                            )}
+                          <Button
+                            type="button"
+                            size="sm"
+                            onClick={() => void handleSubmitComment()}
+                            title={t("editCard.commentButton")}
                             disabled={
-                              commentsLoading || isLoading || isDeleting
+                              !commentBody.trim() ||
+                              commentsLoading ||
+                              isLoading ||
+                              isDeleting
                             }
-                            onSubmit={() => void handleSubmitComment()}
-                          />
+                          >
+                            {commentsLoading ? (
+                              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                            ) : (
+                              <Send className="h-3.5 w-3.5" />
+                            )}
+                            <span className="hidden sm:inline">
+                              {t("editCard.commentButton")}
+                            </span>
+                          </Button>
                         </div>
-                        <Button
-                          type="button"
-                          size="sm"
-                          onClick={() => void handleSubmitComment()}
-                          title={t("editCard.commentButton")}
-                          disabled={
-                            !commentBody.trim() ||
-                            commentsLoading ||
-                            isLoading ||
-                            isDeleting
-                          }
-                        >
-                          {commentsLoading ? (
-                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                          ) : (
-                            <Send className="h-3.5 w-3.5" />
-                          )}
-                          <span className="hidden sm:inline">
-                            {t("editCard.commentButton")}
-                          </span>
-                        </Button>
-                      </div>
-                    )}
-                  </div>
+                      )}
+                    </TabsContent>
+                  </Tabs>
                 </>
               ) : (
-                /* Create mode: just due date */
-                <div className="flex flex-col gap-2 max-w-xs">
-                  <Label
-                    htmlFor="dueDateCreate"
-                    className="text-sm font-medium"
-                  >
-                    {t("editCard.dueDateLabel")}
-                  </Label>
-                  <Controller
-                    name="dueDate"
-                    control={control}
-                    render={({ field }) => {
-                      const selectedDate = parseCalendarDate(field.value);
-                      return (
-                        <div className="flex items-center gap-2">
-                          <Popover>
-                            <PopoverTrigger asChild>
+                /* Create mode: start and due date */
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="flex flex-col gap-2">
+                    <Label
+                      htmlFor="startDateCreate"
+                      className="text-sm font-medium"
+                    >
+                      {t("editCard.startDateLabel")}
+                    </Label>
+                    <Controller
+                      name="startDate"
+                      control={control}
+                      render={({ field }) => (
+                        <StartDatePicker
+                          id="startDateCreate"
+                          value={field.value}
+                          disabled={isLoading || isDeleting}
+                          onChange={field.onChange}
+                        />
+                      )}
+                    />
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <Label
+                      htmlFor="dueDateCreate"
+                      className="text-sm font-medium"
+                    >
+                      {t("editCard.dueDateLabel")}
+                    </Label>
+                    <Controller
+                      name="dueDate"
+                      control={control}
+                      render={({ field }) => {
+                        const selectedDate = parseCalendarDate(field.value);
+                        return (
+                          <div className="flex items-center gap-2">
+                            <Popover>
+                              <PopoverTrigger asChild>
+                                <Button
+                                  id="dueDateCreate"
+                                  type="button"
+                                  variant="outline"
+                                  disabled={isLoading || isDeleting}
+                                  className={cn(
+                                    "h-10 flex-1 justify-start text-left font-normal",
+                                    !selectedDate && "text-muted-foreground",
+                                  )}
+                                >
+                                  <CalendarIcon className="h-4 w-4" />
+                                  <span>
+                                    {selectedDate
+                                      ? formatDisplayDate(selectedDate)
+                                      : t("editCard.dueDatePlaceholder")}
+                                  </span>
+                                </Button>
+                              </PopoverTrigger>
+                              <PopoverContent
+                                className="w-auto p-0"
+                                align="start"
+                              >
+                                <Calendar
+                                  mode="single"
+                                  selected={selectedDate}
+                                  onSelect={(date) =>
+                                    field.onChange(getCalendarFieldValue(date))
+                                  }
+                                  disabled={isLoading || isDeleting}
+                                  initialFocus
+                                />
+                              </PopoverContent>
+                            </Popover>
+                            {field.value ? (
                               <Button
-                                id="dueDateCreate"
                                 type="button"
-                                variant="outline"
+                                variant="ghost"
+                                size="icon"
                                 disabled={isLoading || isDeleting}
-                                className={cn(
-                                  "h-10 flex-1 justify-start text-left font-normal",
-                                  !selectedDate && "text-muted-foreground",
-                                )}
+                                onClick={() => field.onChange("")}
+                                aria-label={t("editCard.clearDueDate")}
                               >
-                                <CalendarIcon className="h-4 w-4" />
-                                <span>
-                                  {selectedDate
-                                    ? formatDisplayDate(selectedDate)
-                                    : t("editCard.dueDatePlaceholder")}
-                                </span>
+                                <X className="h-4 w-4" />
                               </Button>
-                            </PopoverTrigger>
-                            <PopoverContent
-                              className="w-auto p-0"
-                              align="start"
-                            >
-                              <Calendar
-                                mode="single"
-                                selected={selectedDate}
-                                onSelect={(date) =>
-                                  field.onChange(getCalendarFieldValue(date))
-                                }
-                                disabled={isLoading || isDeleting}
-                                initialFocus
-                              />
-                            </PopoverContent>
-                          </Popover>
-                          {field.value ? (
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="icon"
-                              disabled={isLoading || isDeleting}
-                              onClick={() => field.onChange("")}
-                              aria-label={t("editCard.clearDueDate")}
-                            >
-                              <X className="h-4 w-4" />
-                            </Button>
-                          ) : null}
-                        </div>
-                      );
-                    }}
-                  />
+                            ) : null}
+                          </div>
+                        );
+                      }}
+                    />
+                  </div>
                 </div>
               )}
             </fieldset>
           </div>
 
           <DialogFooter className="shrink-0 px-4 sm:px-8 py-4 sm:py-6 border-t flex justify-between">
-            {card && !isViewer && (
+            {card && canDelete && (
               <Button
                 type="button"
                 variant="destructive"
                 onClick={handleDelete}
                 disabled={isLoading || isDeleting}
-                title={t("common.delete")}
+                title={t("trash.moveToTrash")}
               >
                 {isDeleting ? (
                   <Loader2 className="h-4 w-4 animate-spin" />
@@ -3,6 +3,7 @@
 import {
   useState,
   useEffect,
+  useMemo,
   useRef,
   useOptimistic,
   useTransition,
@@ -26,19 +27,43 @@ import { KanbanColumn } from "./KanbanColumn";
 import { KanbanCard } from "./KanbanCard";
 import { EditCardDialog } from "./EditCardDialog";
 import { EmptyBoard } from "./EmptyStates";
+import { KanbanSwimlanes, SwimlaneModeMenu } from "./KanbanSwimlanes";
+import { BoardTable } from "./BoardTable";
+import { TimelineView } from "@/components/timeline/TimelineView";
 // import { Button } from '../ui/button';
 
 import {
+  calculateCardMove,
   calculateColumnMove,
   bulkUpdateColumnPositions,
+  validateDragOperation,
 } from "../../lib/dnd-utils";
 import type {
   BoardWithDetails,
   Card as CardType,
   BoardMemberRole,
+  Label,
 } from "../../types/database";
-import { BoardFilters } from "./BoardFilters";
+import {
+  BoardFilters,
+  type BoardFilters as BoardFilterState,
+} from "./BoardFilters";
 import { getKanbanColumnsLayoutStyle } from "./kanban-layout.utils";
+import { applyBoardTableUpdates } from "./board-table.utils";
+import {
+  buildBoardTimelineGroups,
+  type TimelineCard,
+} from "@/components/timeline/timeline.utils";
+import {
+  applySwimlaneFieldChange,
+  buildSwimlanes,
+  getCardLaneKey,
+  getSwimlaneFieldChange,
+  parseSwimlaneCellId,
+  saveSwimlaneFieldChange,
+  type SwimlaneCard,
+  type SwimlaneMode,
+} from "./swimlanes.utils";
 import { useBoardFilters } from "@/hooks/useBoardFilters";
 import type {
   BoardPresenceEditingTarget,
@@ -47,9 +72,13 @@ import type {
 import { getCardEditingMembers } from "@/components/boards/board-presence-ui";
 import { useAppActions, type StoreCard } from "@/store";
 import { t } from "@/lib/i18n";
+import { CARD_BLOCKED_ERROR_CODE } from "@/lib/card-dependencies";
+import type { BoardViewMode } from "@/lib/board-views";
 
 type OptimisticColumns = BoardWithDetails["columns"];
 
+export type BoardView = BoardViewMode;
+
 type OptimisticAction =
   | {
       type: "moveColumn";
@@ -61,6 +90,11 @@ type OptimisticAction =
       targetColumnId: number;
       targetPosition: number;
       isDone: boolean;
+    }
+  | {
+      type: "swimlaneMove";
+      card: SwimlaneCard;
+      updates: Array<{ id: string; columnId: number; position: number }>;
     };
 
 function kanbanOptimisticReducer(
@@ -103,6 +137,25 @@ function kanbanOptimisticReducer(
         return { ...col, cards: filteredCards };
       });
     }
+
+    case "swimlaneMove": {
+      const cards = state
+        .flatMap((col) => col.cards)
+        .map((card) => {
+          const base = card.id === action.card.id ? action.card : card;
+          const update = action.updates.find((u) => u.id === card.id);
+          return update
+            ? { ...base, columnId: update.columnId, position: update.position }
+            : base;
+        });
+
+      return state.map((col) => ({
+        ...col,
+        cards: cards
+          .filter((card) => card.columnId === col.id)
+          .sort((a, b) => a.position - b.position),
+      }));
+    }
   }
 }
 
@@ -120,6 +173,11 @@ interface KanbanBoardProps {
   userRole?: BoardMemberRole;
   initialCardId?: string | null;
   onInitialCardOpened?: () => void;
+  /** Kanban columns, table or timeline; all share the filter bar. */
+  view?: BoardView;
+  /** Controlled filter state (URL / saved views); local state when omitted. */
+  filters?: BoardFilterState;
+  onFiltersChange?: (filters: BoardFilterState) => void;
 }
 
 export function KanbanBoard({
@@ -131,11 +189,17 @@ export function KanbanBoard({
   userRole = "member",
   initialCardId,
   onInitialCardOpened,
+  view = "board",
+  filters: controlledFilters,
+  onFiltersChange,
 }: KanbanBoardProps) {
   const [activeCard, setActiveCard] = useState<CardType | null>(null);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [editingCard, setEditingCard] = useState<CardType | null>(null);
   const [isPending, startTransition] = useTransition();
+  const [moveError, setMoveError] = useState<string | null>(null);
+  const [moveWarning, setMoveWarning] = useState<string | null>(null);
+  const [swimlaneMode, setSwimlaneMode] = useState<SwimlaneMode>("none");
   const autoOpenedRef = useRef(false);
 
   const [optimisticColumns, applyOptimistic] = useOptimistic(
@@ -145,7 +209,13 @@ export function KanbanBoard({
 
   // Auto-open a card when ?cardId is present in URL
   useEffect(() => {
-    if (!initialCardId || autoOpenedRef.current) return;
+    // The page clears ?cardId after opening, so a later link (e.g. from the
+    // search palette) to a card on the same board opens it again.
+    if (!initialCardId) {
+      autoOpenedRef.current = false;
+      return;
+    }
+    if (autoOpenedRef.current) return;
     const card = boardData.columns
       .flatMap((col) => col.cards || [])
       .find((c) => c.id === initialCardId);
@@ -165,15 +235,33 @@ export function KanbanBoard({
   // are reflected in filter stats immediately)
   const allCards = optimisticColumns.flatMap((col) => col.cards || []);
 
+  // Board members, for `assignee:` in the query bar and its autocomplete
+  const queryMembers = useMemo(
+    () =>
+      (boardData.members ?? []).map(({ user }) => ({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+      })),
+    [boardData.members],
+  );
+
   // Board filters hook
   const {
     filters,
     setFilters,
     cardsByColumn,
     availableAssignees,
+    availableLabels,
     stats,
     hasActiveFilters,
-  } = useBoardFilters(allCards);
+  } = useBoardFilters(allCards, undefined, {
+    currentUserId: currentUser?.id ?? null,
+    queryMembers,
+    ...(controlledFilters && onFiltersChange
+      ? { controlled: { filters: controlledFilters, onFiltersChange } }
+      : {}),
+  });
 
   // Drag and drop sensors — distance constraint prevents clicks from starting a drag
   const sensors = useSensors(
@@ -198,6 +286,8 @@ export function KanbanBoard({
 
     if (card) {
       setActiveCard(card);
+      setMoveError(null);
+      setMoveWarning(null);
     }
   };
 
@@ -205,6 +295,169 @@ export function KanbanBoard({
     // Optional: Add visual feedback during drag over
   };
 
+  const showWipLimitError = (column: OptimisticColumns[number] | undefined) => {
+    if (!column?.wipLimit) return;
+    setMoveError(
+      t("board.wipLimitReached", {
+        column: column.title,
+        limit: column.wipLimit,
+      }),
+    );
+  };
+
+  // A 409 from bulk-update is either a hard WIP limit or, on boards that
+  // enforce dependencies, a card that is still blocked
+  const showMoveConflict = (
+    errorData: { code?: string },
+    column: OptimisticColumns[number] | undefined,
+  ) => {
+    if (errorData.code === CARD_BLOCKED_ERROR_CODE) {
+      setMoveError(t("dependencies.moveRejected"));
+    } else {
+      showWipLimitError(column);
+    }
+  };
+
+  // Completing a blocked card is allowed unless the board enforces
+  // dependencies; the server has the final say (blockers may have changed)
+  const isBlockedCompletion = (
+    card: OptimisticColumns[number]["cards"][number],
+    column: OptimisticColumns[number] | undefined,
+  ) =>
+    Boolean(column?.isDone) &&
+    card.columnId !== column?.id &&
+    !card.completedAt &&
+    (card.blockedByCount ?? 0) > 0;
+
+  const showBlockedWarning = async (response: Response) => {
+    const result = (await response.json().catch(() => ({}))) as {
+      blockedCardIds?: string[];
+    };
+    if (result.blockedCardIds?.length) {
+      setMoveWarning(t("dependencies.moveWarning"));
+    }
+  };
+
+  // Swimlane drop: reposition via the regular card move calculation, then
+  // update the grouping field when the card lands in another lane.
+  const handleSwimlaneCardDrop = (
+    draggedCard: SwimlaneCard,
+    overId: string | number,
+  ) => {
+    if (swimlaneMode === "none") return;
+
+    let targetColumnId: number;
+    let targetPosition: number;
+    let targetLaneKey: string;
+
+    const cell = parseSwimlaneCellId(overId);
+    if (cell) {
+      targetColumnId = cell.columnId;
+      targetLaneKey = cell.laneKey;
+      const targetColumn = optimisticColumns.find(
+        (col) => col.id === targetColumnId,
+      );
+      const maxPosition = targetColumn?.cards.length
+        ? Math.max(...targetColumn.cards.map((c) => c.position))
+        : 0;
+      // Changing only the lane keeps the card where it is in its column.
+      targetPosition =
+        draggedCard.columnId === targetColumnId
+          ? draggedCard.position
+          : maxPosition + 1;
+    } else {
+      const targetCard = optimisticColumns
+        .flatMap((col) => col.cards)
+        .find((card) => card.id === overId);
+      if (!targetCard) return;
+
+      targetColumnId = targetCard.columnId;
+      targetPosition = targetCard.position;
+      targetLaneKey = getCardLaneKey(targetCard, swimlaneMode);
+    }
+
+    const change = getSwimlaneFieldChange(
+      draggedCard,
+      swimlaneMode,
+      targetLaneKey,
+    );
+    const columnChanged = draggedCard.columnId !== targetColumnId;
+    const positionChanged =
+      columnChanged || draggedCard.position !== targetPosition;
+    if (!change && !positionChanged) return;
+
+    const targetCol = optimisticColumns.find((c) => c.id === targetColumnId);
+    if (
+      boardData.enforceDependencies &&
+      isBlockedCompletion(draggedCard, targetCol)
+    ) {
+      setMoveError(t("dependencies.moveRejected"));
+      return;
+    }
+    let updates: Array<{ id: string; columnId: number; position: number }> = [];
+    if (positionChanged) {
+      const move = calculateCardMove(
+        draggedCard.id,
+        targetColumnId,
+        targetPosition,
+        optimisticColumns.map((col) => ({ ...col, cards: [...col.cards] })),
+      );
+      if (!move) {
+        showWipLimitError(targetCol);
+        return;
+      }
+      updates = move.updates;
+    }
+
+    const boardContext = {
+      members: boardData.members?.map((m) => m.user) || [],
+      labels: boardData.labels,
+    };
+    let card = change
+      ? applySwimlaneFieldChange(draggedCard, change, boardContext)
+      : draggedCard;
+    if (columnChanged) {
+      card = {
+        ...card,
+        completedAt: (targetCol?.isDone
+          ? new Date().toISOString()
+          : null) as unknown as Date | null,
+      };
+    }
+    const action: OptimisticAction = { type: "swimlaneMove", card, updates };
+
+    startTransition(async () => {
+      applyOptimistic(action);
+
+      try {
+        if (change) {
+          await saveSwimlaneFieldChange(draggedCard.id, change);
+        }
+        if (updates.length > 0) {
+          const response = await fetch("/api/cards/bulk-update", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ updates }),
+          });
+          if (!response.ok) {
+            const errorData = await response.json();
+            if (response.status === 409) showMoveConflict(errorData, targetCol);
+            throw new Error(`API Error: ${JSON.stringify(errorData)}`);
+          }
+          await showBlockedWarning(response);
+        }
+
+        onBoardDataChange?.({
+          ...boardData,
+          columns: kanbanOptimisticReducer(boardData.columns, action),
+        });
+      } catch (error) {
+        console.error("Failed to move card between swimlanes:", error);
+        setMoveError((current) => current ?? t("swimlanes.updateFailed"));
+      }
+    });
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
     setActiveCard(null);
@@ -261,6 +514,11 @@ export function KanbanBoard({
       .find((card) => card.id === cardId);
     if (!draggedCard) return;
 
+    if (swimlaneMode !== "none") {
+      handleSwimlaneCardDrop(draggedCard, over.id);
+      return;
+    }
+
     let targetColumnId: number;
     let targetPosition: number;
 
@@ -291,6 +549,17 @@ export function KanbanBoard({
     }
 
     const targetCol = optimisticColumns.find((c) => c.id === targetColumnId);
+    if (!validateDragOperation(cardId, targetColumnId, optimisticColumns)) {
+      showWipLimitError(targetCol);
+      return;
+    }
+    if (
+      boardData.enforceDependencies &&
+      isBlockedCompletion(draggedCard, targetCol)
+    ) {
+      setMoveError(t("dependencies.moveRejected"));
+      return;
+    }
     const isDone = Boolean(targetCol?.isDone);
 
     startTransition(async () => {
@@ -319,8 +588,10 @@ export function KanbanBoard({
 
         if (!response.ok) {
           const errorData = await response.json();
+          if (response.status === 409) showMoveConflict(errorData, targetCol);
           throw new Error(`API Error: ${JSON.stringify(errorData)}`);
         }
+        await showBlockedWarning(response);
 
         const newColumns = kanbanOptimisticReducer(boardData.columns, {
           type: "moveCard",
@@ -463,6 +734,48 @@ export function KanbanBoard({
     }
   };
 
+  // Inline edits from the table view may touch several cards at once.
+  const handleTableCardsUpdated = (updatedCards: CardType[]) => {
+    updatedCards.forEach((card) =>
+      updateCard({
+        ...card,
+        labels: (card as StoreCard).labels || [],
+        comments: (card as StoreCard).comments || [],
+      } as StoreCard),
+    );
+    onBoardDataChange?.({
+      ...boardData,
+      columns: applyBoardTableUpdates(
+        boardData.columns,
+        updatedCards as OptimisticColumns[number]["cards"],
+      ),
+    });
+  };
+
+  const findBoardCard = (cardId: string) =>
+    boardData.columns
+      .flatMap((column) => column.cards)
+      .find((card) => card.id === cardId);
+
+  const handleTimelineCardOpen = (timelineCard: TimelineCard) => {
+    const card = findBoardCard(timelineCard.id);
+    if (card) handleCardClick(card as CardType);
+  };
+
+  const handleTimelineCardChanged = (timelineCard: TimelineCard) => {
+    const card = findBoardCard(timelineCard.id);
+    if (!card) return;
+    handleTableCardsUpdated([
+      {
+        ...card,
+        startDate: timelineCard.startDate
+          ? new Date(timelineCard.startDate)
+          : null,
+        dueDate: timelineCard.dueDate ? new Date(timelineCard.dueDate) : null,
+      } as CardType,
+    ]);
+  };
+
   const handleCardDeleted = (cardId: string) => {
     // Use Zustand store action first
     deleteCard(cardId);
@@ -481,6 +794,17 @@ export function KanbanBoard({
     }
   };
 
+  const handleLabelCreated = (label: Label) => {
+    if (!onBoardDataChange) return;
+    if (boardData.labels.some((existing) => existing.id === label.id)) return;
+    onBoardDataChange({
+      ...boardData,
+      labels: [...boardData.labels, label].sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
+    });
+  };
+
   // Check if board has no columns
   const hasNoColumns = !optimisticColumns || optimisticColumns.length === 0;
   const columnsLayoutStyle = getKanbanColumnsLayoutStyle(
@@ -500,12 +824,22 @@ export function KanbanBoard({
       {/* Board Filters */}
       <div className="border-b border-border/40 bg-card/40 backdrop-blur-sm">
         <div className="px-4 py-2.5 sm:px-6 sm:py-3 lg:px-8">
-          <BoardFilters
-            filters={filters}
-            onFiltersChange={setFilters}
-            availableAssignees={availableAssignees}
-            currentUserId={currentUser?.id}
-          />
+          <div className="flex items-center gap-1.5">
+            <BoardFilters
+              filters={filters}
+              onFiltersChange={setFilters}
+              availableAssignees={availableAssignees}
+              availableLabels={availableLabels}
+              queryMembers={queryMembers}
+              currentUserId={currentUser?.id}
+            />
+            {view === "board" && (
+              <SwimlaneModeMenu
+                mode={swimlaneMode}
+                onModeChange={setSwimlaneMode}
+              />
+            )}
+          </div>
           {hasActiveFilters && (
             <div className="mt-2 text-xs text-muted-foreground">
               {t("board.showingCards", {
@@ -516,70 +850,142 @@ export function KanbanBoard({
                 ` (${t("board.hiddenCards", { count: stats.hidden })})`}
             </div>
           )}
+          {moveError && (
+            <div role="alert" className="mt-2 text-xs text-destructive">
+              {moveError}
+            </div>
+          )}
+          {!moveError && moveWarning && (
+            <div role="status" className="mt-2 text-xs text-amber-700">
+              {moveWarning}
+            </div>
+          )}
         </div>
       </div>
 
       {/* Main Content */}
-      <DndContext
-        sensors={sensors}
-        onDragStart={handleDragStart}
-        onDragOver={handleDragOver}
-        onDragEnd={handleDragEnd}
-      >
-        <div className="flex-1 overflow-auto kanban-scroll-container">
-          <div
-            className="grid gap-4 p-4 sm:gap-6 sm:p-6 kanban-board-columns"
-            style={columnsLayoutStyle}
-          >
-            <SortableContext
-              items={optimisticColumns.map((col) => `column-${col.id}`)}
-              strategy={horizontalListSortingStrategy}
-            >
-              {optimisticColumns.map((column) => (
-                <KanbanColumn
-                  key={column.id}
-                  column={column}
-                  cards={cardsByColumn[column.id] || []}
-                  boardId={boardData.id}
-                  boardMembers={boardData.members?.map((m) => m.user) || []}
-                  boardLabels={boardData.labels}
-                  allColumns={optimisticColumns}
-                  getEditingMembersForCard={(cardId) =>
-                    getCardEditingMembers(presenceMembers, cardId)
-                  }
-                  isLoading={isPending}
-                  onCardCreated={handleCardCreated}
-                  onCardClick={handleCardClick}
-                  onCardEdit={handleCardClick}
-                  onCardUpdated={handleCardUpdated}
-                  currentUser={currentUser}
-                  userRole={userRole}
-                />
-              ))}
-            </SortableContext>
-          </div>
+      {view === "timeline" ? (
+        <div className="flex-1 overflow-auto p-4 sm:p-6">
+          <TimelineView
+            {...buildBoardTimelineGroups(
+              { ...boardData, columns: optimisticColumns },
+              cardsByColumn as Record<
+                number,
+                OptimisticColumns[number]["cards"]
+              >,
+            )}
+            currentUserId={currentUser?.id ?? null}
+            canEditBoard={() => userRole !== "viewer"}
+            onCardOpen={handleTimelineCardOpen}
+            onCardChanged={handleTimelineCardChanged}
+          />
         </div>
-
-        {/* Drag Overlay */}
-        <DragOverlay>
-          {activeCard ? (
-            <div className="rotate-3 opacity-90">
-              <KanbanCard
-                card={activeCard}
+      ) : view === "table" ? (
+        <div className="flex-1 overflow-auto">
+          <BoardTable
+            columns={optimisticColumns}
+            cardsByColumn={
+              cardsByColumn as Record<
+                number,
+                OptimisticColumns[number]["cards"]
+              >
+            }
+            members={boardData.members?.map((m) => m.user) || []}
+            currentUser={currentUser}
+            userRole={userRole}
+            onCardClick={handleCardClick}
+            onCardsUpdated={handleTableCardsUpdated}
+          />
+        </div>
+      ) : (
+        <DndContext
+          sensors={sensors}
+          onDragStart={handleDragStart}
+          onDragOver={handleDragOver}
+          onDragEnd={handleDragEnd}
+        >
+          <div className="flex-1 overflow-auto kanban-scroll-container">
+            {swimlaneMode !== "none" ? (
+              <KanbanSwimlanes
+                mode={swimlaneMode}
+                lanes={buildSwimlanes(
+                  swimlaneMode,
+                  Object.values(cardsByColumn).flat() as SwimlaneCard[],
+                  {
+                    members: boardData.members?.map((m) => m.user) || [],
+                    labels: boardData.labels,
+                  },
+                )}
+                columns={optimisticColumns}
+                columnsLayoutStyle={columnsLayoutStyle}
                 boardMembers={boardData.members?.map((m) => m.user) || []}
                 boardLabels={boardData.labels}
-                allColumns={boardData.columns}
-                currentUser={currentUser || null}
-                editingMembers={getCardEditingMembers(
-                  presenceMembers,
-                  activeCard.id,
-                )}
+                getEditingMembersForCard={(cardId) =>
+                  getCardEditingMembers(presenceMembers, cardId)
+                }
+                isLoading={isPending}
+                currentUser={currentUser}
                 userRole={userRole}
+                onCardClick={handleCardClick}
+                onCardUpdated={handleCardUpdated}
               />
-            </div>
-          ) : null}
-        </DragOverlay>
-      </DndContext>
+            ) : (
+              <div
+                className="grid gap-4 p-4 sm:gap-6 sm:p-6 kanban-board-columns"
+                style={columnsLayoutStyle}
+              >
+                <SortableContext
+                  items={optimisticColumns.map((col) => `column-${col.id}`)}
+                  strategy={horizontalListSortingStrategy}
+                >
+                  {optimisticColumns.map((column) => (
+                    <KanbanColumn
+                      key={column.id}
+                      column={column}
+                      cards={cardsByColumn[column.id] || []}
+                      totalCardCount={column.cards.length}
+                      boardId={boardData.id}
+                      boardMembers={boardData.members?.map((m) => m.user) || []}
+                      boardLabels={boardData.labels}
+                      allColumns={optimisticColumns}
+                      getEditingMembersForCard={(cardId) =>
+                        getCardEditingMembers(presenceMembers, cardId)
+                      }
+                      isLoading={isPending}
+                      onCardCreated={handleCardCreated}
+                      onCardClick={handleCardClick}
+                      onCardEdit={handleCardClick}
+                      onCardUpdated={handleCardUpdated}
+                      currentUser={currentUser}
+                      userRole={userRole}
+                    />
+                  ))}
+                </SortableContext>
+              </div>
+            )}
+          </div>
+
+          {/* Drag Overlay */}
+          <DragOverlay>
+            {activeCard ? (
+              <div className="rotate-3 opacity-90">
+                <KanbanCard
+                  card={activeCard}
+                  boardMembers={boardData.members?.map((m) => m.user) || []}
+                  boardLabels={boardData.labels}
+                  allColumns={boardData.columns}
+                  currentUser={currentUser || null}
+                  editingMembers={getCardEditingMembers(
+                    presenceMembers,
+                    activeCard.id,
+                  )}
+                  userRole={userRole}
+                />
+              </div>
+            ) : null}
+          </DragOverlay>
+        </DndContext>
+      )}
 
       {/* Edit Card Dialog */}
       <EditCardDialog
@@ -590,9 +996,11 @@ export function KanbanBoard({
         boardMembers={boardData.members?.map((m) => m.user) || []}
         boardLabels={boardData.labels}
         currentUser={currentUser}
+        boardId={boardData.id}
         userRole={userRole}
         onCardUpdated={handleCardUpdated}
         onCardDeleted={handleCardDeleted}
+        onLabelCreated={handleLabelCreated}
       />
     </div>
   );
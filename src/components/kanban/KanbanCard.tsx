@@ -4,8 +4,7 @@ import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import type { CSSProperties } from "react";
 import { Card } from "@/components/ui/card";
-// import { Badge } from '@/components/ui/badge'; // Removed for now since labels aren't implemented
-import { Calendar, Pencil, CheckCircle2 } from "lucide-react";
+import { Ban, Calendar, Pencil, CheckCircle2, Repeat } from "lucide-react";
 import { t } from "@/lib/i18n";
 import type {
   Card as CardType,
@@ -14,22 +13,32 @@ import type {
   CardPriority,
   User,
   Label,
+  CardLabelWithLabel,
 } from "@/types/database";
 import { UserAvatar } from "@/components/ui/UserAvatar";
 import { getPriorityConfig } from "@/lib/priority-colors";
 import { formatDueDate, isOverdue, isDueSoon } from "@/lib/board-permissions";
 import { formatDisplayDate } from "@/lib/date-format";
+import { getCardAssigneeIds } from "@/lib/card-assignees";
 import { CompactMarkdownViewer } from "@/components/ui/markdown-viewer";
 import { PriorityBadge } from "@/components/ui/priority-selector";
 import { ViaApiBadge } from "@/components/ui/ViaApiBadge";
+import { LabelChip } from "@/components/ui/LabelChip";
 import { AutoCardContextMenu } from "./CardContextMenu";
 import { useCardActionsWithStore } from "@/hooks/useCardActionsWithStore";
 import type { BoardPresenceMember } from "@/hooks/useBoardPresence";
 
 type KanbanCardData = CardType & {
   assignee?: User | null;
+  assigneeIds?: string[];
+  assignees?: User[];
+  labels?: CardLabelWithLabel[];
+  blockedByCount?: number;
 };
 
+const MAX_VISIBLE_LABELS = 4;
+const MAX_VISIBLE_ASSIGNEES = 3;
+
 interface KanbanCardProps {
   card: KanbanCardData;
   boardMembers?: User[];
@@ -53,7 +62,7 @@ interface KanbanCardProps {
 export function KanbanCard({
   card,
   boardMembers = [],
-  boardLabels: _boardLabels = [], // Unused for now
+  boardLabels = [],
   allColumns = [],
   currentUser,
   editingMembers = [],
@@ -136,6 +145,7 @@ export function KanbanCard({
   };
 
   const isCompleted = Boolean(card.completedAt);
+  const isBlocked = !isCompleted && (card.blockedByCount ?? 0) > 0;
 
   // Determine if currently dragging
   const isCurrentlyDragging = sortableIsDragging;
@@ -168,22 +178,34 @@ export function KanbanCard({
   const formattedDueDate = formatDueDate(card.dueDate);
 
   // Prefer assignee data from the board payload, then fall back to board members.
-  const assignee =
-    card.assignee ??
-    boardMembers.find((member) => member.id === card.assigneeId) ??
-    null;
+  const assignees = getCardAssigneeIds(card).flatMap((assigneeId) => {
+    const assignee =
+      card.assignees?.find((user) => user.id === assigneeId) ??
+      (card.assignee?.id === assigneeId ? card.assignee : undefined) ??
+      boardMembers.find((member) => member.id === assigneeId);
+    return assignee ? [assignee] : [];
+  });
+  const primaryAssignee = assignees[0] ?? null;
+  const visibleAssignees = assignees.slice(0, MAX_VISIBLE_ASSIGNEES);
+  const hiddenAssigneeCount = assignees.length - visibleAssignees.length;
 
   // Presence: exclude the current user (they know they're editing)
   const otherEditors = editingMembers.filter(
     (m) => m.userId !== currentUser?.id,
   );
-  const isAssigneeEditing = assignee
-    ? otherEditors.some((m) => m.userId === assignee.id)
-    : false;
   const nonAssigneeEditors = otherEditors.filter(
-    (m) => m.userId !== assignee?.id,
+    (m) => !assignees.some((assignee) => assignee.id === m.userId),
   );
 
+  // Prefer the live board label (realtime renames/recolors) over the embedded copy
+  const cardLabels = (card.labels ?? []).map(
+    (cardLabel) =>
+      boardLabels.find((label) => label.id === cardLabel.labelId) ??
+      cardLabel.label,
+  );
+  const visibleLabels = cardLabels.slice(0, MAX_VISIBLE_LABELS);
+  const hiddenLabelCount = cardLabels.length - visibleLabels.length;
+
   return (
     <AutoCardContextMenu
       card={card}
@@ -212,6 +234,20 @@ export function KanbanCard({
           {card.createdVia === "api" && <ViaApiBadge />}
         </div>
 
+        {/* Labels */}
+        {cardLabels.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {visibleLabels.map((label) => (
+              <LabelChip key={label.id} name={label.name} color={label.color} />
+            ))}
+            {hiddenLabelCount > 0 && (
+              <span className="inline-flex items-center rounded-full bg-gray-100 px-2 py-0.5 text-[10px] font-medium text-gray-600">
+                {t("labels.moreLabels", { count: hiddenLabelCount })}
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Content: title + description + due date */}
         <div className="flex flex-col gap-1.5">
           <h4
@@ -228,7 +264,10 @@ export function KanbanCard({
             />
           )}
 
-          {(isCompleted || card.dueDate) && (
+          {(isCompleted ||
+            isBlocked ||
+            card.dueDate ||
+            card.recurrenceRule) && (
             <div className="mt-0.5 flex flex-wrap gap-1">
               {isCompleted && (
                 <div className="inline-flex w-fit items-center gap-1 rounded-md border border-green-200 bg-green-50 px-2 py-0.5 text-xs font-medium text-green-700">
@@ -240,6 +279,17 @@ export function KanbanCard({
                   </span>
                 </div>
               )}
+              {isBlocked && (
+                <div
+                  className="inline-flex w-fit items-center gap-1 rounded-md border border-red-200 bg-red-50 px-2 py-0.5 text-xs font-medium text-red-700"
+                  title={t("dependencies.blockedBy", {
+                    count: card.blockedByCount ?? 0,
+                  })}
+                >
+                  <Ban className="h-3 w-3 shrink-0" />
+                  <span>{t("dependencies.blocked")}</span>
+                </div>
+              )}
               {card.dueDate && (
                 <div
                   className={`inline-flex w-fit items-center gap-1 rounded-md border px-2 py-0.5 text-xs font-medium ${
@@ -258,14 +308,23 @@ export function KanbanCard({
                   </span>
                 </div>
               )}
+              {card.recurrenceRule && (
+                <div
+                  className="inline-flex w-fit items-center rounded-md border border-gray-200 bg-white/80 px-1.5 py-0.5 text-gray-500"
+                  title={t("recurrence.badge")}
+                  aria-label={t("recurrence.badge")}
+                >
+                  <Repeat className="h-3 w-3 shrink-0" />
+                </div>
+              )}
             </div>
           )}
         </div>
 
-        {/* Footer: presence editors (left) + assignee (right) */}
-        {(assignee || nonAssigneeEditors.length > 0) && (
+        {/* Footer: presence editors (left) + assignees (right) */}
+        {(primaryAssignee || nonAssigneeEditors.length > 0) && (
           <div className="flex items-center gap-2 pt-0.5">
-            {/* Left: editors who are not the assignee */}
+            {/* Left: editors who are not assignees */}
             {nonAssigneeEditors.length > 0 &&
               (() => {
                 const editor = nonAssigneeEditors[0]!;
@@ -288,17 +347,29 @@ export function KanbanCard({
                 );
               })()}
 
-            {/* Right: assignee avatar + name */}
-            {assignee && (
+            {/* Right: stacked assignee avatars + primary assignee name */}
+            {primaryAssignee && (
               <div className="flex items-center gap-2 ml-auto min-w-0">
-                <UserAvatar
-                  name={assignee.name}
-                  email={assignee.email}
-                  avatarUrl={assignee.avatarUrl}
-                  className={`h-7 w-7 shrink-0 ${isAssigneeEditing ? "presence-editing-ring border-2" : "border border-gray-200"}`}
-                />
+                <div className="flex items-center -space-x-2 shrink-0">
+                  {visibleAssignees.map((assignee) => (
+                    <UserAvatar
+                      key={assignee.id}
+                      title={assignee.name || assignee.email}
+                      name={assignee.name}
+                      email={assignee.email}
+                      avatarUrl={assignee.avatarUrl}
+                      className={`h-7 w-7 shrink-0 ${otherEditors.some((m) => m.userId === assignee.id) ? "presence-editing-ring border-2" : "border border-gray-200"}`}
+                    />
+                  ))}
+                  {hiddenAssigneeCount > 0 && (
+                    <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full border border-gray-200 bg-muted text-[10px] font-semibold">
+                      +{hiddenAssigneeCount}
+                    </span>
+                  )}
+                </div>
                 <span className="truncate text-xs text-gray-600 font-medium">
-                  {assignee.name || assignee.email}
+                  {primaryAssignee.name || primaryAssignee.email}
+                  {assignees.length > 1 && ` +${assignees.length - 1}`}
                 </span>
               </div>
             )}
@@ -20,6 +20,9 @@ import {
   Trash2,
   CheckCircle2,
   Circle,
+  AlertTriangle,
+  Eye,
+  EyeOff,
 } from "lucide-react";
 import { t } from "@/lib/i18n";
 import { Card } from "@/components/ui/card";
@@ -33,6 +36,8 @@ import {
 import { DeleteColumnDialog } from "../columns/DeleteColumnDialog";
 import { EditColumnDialog } from "../columns/EditColumnDialog";
 import { useAppActions } from "@/store";
+import { useBoardWatches } from "@/hooks/useBoardWatches";
+import { getWipLimitStatus } from "@/lib/dnd-utils";
 import type {
   Column,
   Card as CardType,
@@ -45,6 +50,8 @@ import type { BoardPresenceMember } from "@/hooks/useBoardPresence";
 interface KanbanColumnProps {
   column: Column;
   cards: CardType[];
+  /** All cards in the column, ignoring filters — used for the WIP count. */
+  totalCardCount?: number;
   boardId: string;
   boardMembers: User[];
   boardLabels: Label[];
@@ -67,6 +74,7 @@ interface KanbanColumnProps {
 export function KanbanColumn({
   column,
   cards,
+  totalCardCount = cards.length,
   boardId,
   boardMembers,
   boardLabels,
@@ -84,6 +92,12 @@ export function KanbanColumn({
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const { updateColumn } = useAppActions();
+  const {
+    findWatch,
+    toggleWatch,
+    isPending: isWatchPending,
+  } = useBoardWatches(boardId);
+  const columnWatch = findWatch(column.id);
 
   const isViewer = userRole === "viewer";
 
@@ -146,6 +160,15 @@ export function KanbanColumn({
   const hasCards = cards && cards.length > 0;
   const canDeleteColumn =
     ["owner", "admin", "member"].includes(userRole) && !hasCards;
+  const wipStatus = getWipLimitStatus(totalCardCount, column.wipLimit);
+  const countBadgeClass =
+    wipStatus === "exceeded"
+      ? "bg-red-100 text-red-700"
+      : wipStatus === "atLimit"
+        ? "bg-amber-100 text-amber-800"
+        : column.isDone
+          ? "bg-green-100 text-green-700"
+          : "bg-gray-200 text-gray-700";
 
   return (
     <div
@@ -155,7 +178,7 @@ export function KanbanColumn({
     >
       {/* Column Header */}
       <div
-        className={`flex items-center justify-between p-4 rounded-t-lg border border-b-0 ${column.isDone ? "bg-green-50" : "bg-gray-50"}`}
+        className={`flex items-center justify-between p-4 rounded-t-lg border border-b-0 ${wipStatus === "exceeded" ? "bg-red-50 border-red-200" : column.isDone ? "bg-green-50" : "bg-gray-50"}`}
       >
         <div className="flex items-center space-x-2">
           {/* Drag Handle for Column — hidden for viewers */}
@@ -177,47 +200,79 @@ export function KanbanColumn({
             {column.title}
           </h3>
           <span
-            className={`text-xs px-2 py-1 rounded-full ${column.isDone ? "bg-green-100 text-green-700" : "bg-gray-200 text-gray-700"}`}
+            className={`text-xs px-2 py-1 rounded-full ${countBadgeClass}`}
+            {...(column.wipLimit !== null && {
+              title: t("column.wipLimitTitle", {
+                count: totalCardCount,
+                limit: column.wipLimit,
+              }),
+            })}
           >
-            {cards.length}
+            {column.wipLimit !== null
+              ? `${totalCardCount}/${column.wipLimit}`
+              : cards.length}
           </span>
+          {wipStatus === "exceeded" && (
+            <AlertTriangle
+              className="w-4 h-4 text-red-600 shrink-0"
+              aria-label={t("column.wipLimitExceeded")}
+            />
+          )}
         </div>
-        {/* Column actions — hidden for viewers */}
-        {!isViewer && (
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                <MoreHorizontal className="w-4 h-4" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end" className="w-56">
-              <DropdownMenuItem onClick={handleEditColumn}>
-                <Edit className="mr-2 h-4 w-4" />
-                {t("column.edit")}
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => void handleToggleDone()}>
-                {column.isDone ? (
-                  <Circle className="mr-2 h-4 w-4 text-gray-500" />
-                ) : (
-                  <CheckCircle2 className="mr-2 h-4 w-4 text-green-600" />
-                )}
-                {t(column.isDone ? "column.markAsActive" : "column.markAsDone")}
-              </DropdownMenuItem>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem
-                onClick={handleDeleteColumn}
-                disabled={!canDeleteColumn}
-                className="text-red-600 focus:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <Trash2 className="mr-2 h-4 w-4" />
-                {t("column.delete")}
-                {hasCards && (
-                  <span className="ml-2 text-xs">{t("column.hasCards")}</span>
-                )}
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
-        )}
+        {/* Column actions — viewers only get the watch toggle */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+              <MoreHorizontal className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuItem
+              onClick={() => void toggleWatch(column.id)}
+              disabled={isWatchPending}
+            >
+              {columnWatch ? (
+                <EyeOff className="mr-2 h-4 w-4" />
+              ) : (
+                <Eye className="mr-2 h-4 w-4" />
+              )}
+              {columnWatch
+                ? t("watchers.unwatchColumn")
+                : t("watchers.watchColumn")}
+            </DropdownMenuItem>
+            {!isViewer && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={handleEditColumn}>
+                  <Edit className="mr-2 h-4 w-4" />
+                  {t("column.edit")}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => void handleToggleDone()}>
+                  {column.isDone ? (
+                    <Circle className="mr-2 h-4 w-4 text-gray-500" />
+                  ) : (
+                    <CheckCircle2 className="mr-2 h-4 w-4 text-green-600" />
+                  )}
+                  {t(
+                    column.isDone ? "column.markAsActive" : "column.markAsDone",
+                  )}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={handleDeleteColumn}
+                  disabled={!canDeleteColumn}
+                  className="text-red-600 focus:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {t("column.delete")}
+                  {hasCards && (
+                    <span className="ml-2 text-xs">{t("column.hasCards")}</span>
+                  )}
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       {/* Cards Container */}
@@ -0,0 +1,348 @@
+"use client";
+
+import { useState, type CSSProperties } from "react";
+import { useDroppable } from "@dnd-kit/core";
+import {
+  SortableContext,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { ChevronDown, ChevronRight, Rows3, Check } from "lucide-react";
+import { KanbanCard } from "./KanbanCard";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { UserAvatar } from "@/components/ui/UserAvatar";
+import { getWipLimitStatus } from "@/lib/dnd-utils";
+import { getPriorityConfig } from "@/lib/priority-colors";
+import { normalizeLabelColor } from "@/lib/label-colors";
+import { cn } from "@/lib/utils";
+import { t } from "@/lib/i18n";
+import {
+  SWIMLANE_MODES,
+  getSwimlaneCellId,
+  type GroupedSwimlaneMode,
+  type Swimlane,
+  type SwimlaneCard,
+  type SwimlaneMode,
+} from "./swimlanes.utils";
+import type {
+  BoardWithDetails,
+  BoardMemberRole,
+  Card as CardType,
+  Label,
+  User,
+} from "@/types/database";
+import type { BoardPresenceMember } from "@/hooks/useBoardPresence";
+
+type CurrentUser = {
+  id: string;
+  name?: string | null;
+  email?: string | null;
+  avatarUrl?: string | null;
+} | null;
+
+interface SwimlaneModeMenuProps {
+  mode: SwimlaneMode;
+  onModeChange: (mode: SwimlaneMode) => void;
+}
+
+export function SwimlaneModeMenu({
+  mode,
+  onModeChange,
+}: SwimlaneModeMenuProps) {
+  const label =
+    mode === "none"
+      ? t("swimlanes.groupBy")
+      : t("swimlanes.groupByValue", { mode: t(`swimlanes.modes.${mode}`) });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className={cn(
+            "h-8 w-8",
+            mode !== "none" && "bg-violet-50 border-violet-200",
+          )}
+          aria-label={label}
+          title={label}
+        >
+          <Rows3 className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-48">
+        {SWIMLANE_MODES.map((value) => (
+          <DropdownMenuItem
+            key={value}
+            onClick={() => onModeChange(value)}
+            className="gap-2"
+          >
+            <Check
+              className={cn(
+                "w-4 h-4",
+                mode === value ? "opacity-100" : "opacity-0",
+              )}
+            />
+            {t(`swimlanes.modes.${value}`)}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function getLaneTitle(lane: Swimlane, mode: GroupedSwimlaneMode): string {
+  if (lane.user) return lane.user.name || lane.user.email;
+  if (lane.label) return lane.label.name;
+  if (lane.priority) return t(`priority.${lane.priority}`);
+  return mode === "label" ? t("swimlanes.noLabel") : t("swimlanes.unassigned");
+}
+
+function LaneMarker({ lane }: { lane: Swimlane }) {
+  if (lane.user) {
+    return (
+      <UserAvatar
+        name={lane.user.name}
+        email={lane.user.email}
+        avatarUrl={lane.user.avatarUrl}
+        className="h-6 w-6 shrink-0 border border-gray-200"
+        textClassName="text-[10px]"
+      />
+    );
+  }
+  if (lane.label) {
+    return (
+      <span
+        className="w-3 h-3 rounded-full shrink-0"
+        style={{ backgroundColor: normalizeLabelColor(lane.label.color) }}
+      />
+    );
+  }
+  if (lane.priority) {
+    return (
+      <span
+        className="w-3 h-3 rounded-full shrink-0"
+        style={{ backgroundColor: getPriorityConfig(lane.priority).color }}
+      />
+    );
+  }
+  return null;
+}
+
+interface SwimlaneCellProps {
+  laneKey: string;
+  columnId: number;
+  cards: SwimlaneCard[];
+  boardMembers: User[];
+  boardLabels: Label[];
+  allColumns: BoardWithDetails["columns"];
+  getEditingMembersForCard: (cardId: string) => BoardPresenceMember[];
+  isLoading: boolean;
+  currentUser: CurrentUser;
+  userRole: BoardMemberRole;
+  onCardClick: (card: CardType) => void;
+  onCardUpdated: (card: CardType) => void;
+}
+
+function SwimlaneCell({
+  laneKey,
+  columnId,
+  cards,
+  boardMembers,
+  boardLabels,
+  allColumns,
+  getEditingMembersForCard,
+  isLoading,
+  currentUser,
+  userRole,
+  onCardClick,
+  onCardUpdated,
+}: SwimlaneCellProps) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: getSwimlaneCellId(laneKey, columnId),
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "min-h-[96px] rounded-lg border p-3 transition-colors",
+        isOver ? "bg-blue-50 border-blue-200" : "bg-white",
+        isLoading && "opacity-50",
+      )}
+    >
+      <SortableContext
+        items={cards.map((card) => card.id)}
+        strategy={verticalListSortingStrategy}
+      >
+        <div className="space-y-3">
+          {cards.map((card) => (
+            <KanbanCard
+              key={card.id}
+              card={card}
+              boardMembers={boardMembers}
+              boardLabels={boardLabels}
+              allColumns={allColumns}
+              editingMembers={getEditingMembersForCard(card.id)}
+              currentUser={currentUser}
+              userRole={userRole}
+              onClick={() => onCardClick(card)}
+              onEdit={() => onCardClick(card)}
+              onCardUpdated={onCardUpdated}
+            />
+          ))}
+        </div>
+      </SortableContext>
+    </div>
+  );
+}
+
+interface KanbanSwimlanesProps {
+  mode: GroupedSwimlaneMode;
+  lanes: Swimlane[];
+  columns: BoardWithDetails["columns"];
+  columnsLayoutStyle: CSSProperties;
+  boardMembers: User[];
+  boardLabels: Label[];
+  getEditingMembersForCard: (cardId: string) => BoardPresenceMember[];
+  isLoading?: boolean;
+  currentUser: CurrentUser;
+  userRole?: BoardMemberRole;
+  onCardClick: (card: CardType) => void;
+  onCardUpdated: (card: CardType) => void;
+}
+
+/**
+ * Board body in swimlane mode: one row of column cells per lane. Column
+ * reordering and per-column menus stay in the regular column view.
+ */
+export function KanbanSwimlanes({
+  mode,
+  lanes,
+  columns,
+  columnsLayoutStyle,
+  boardMembers,
+  boardLabels,
+  getEditingMembersForCard,
+  isLoading = false,
+  currentUser,
+  userRole = "member",
+  onCardClick,
+  onCardUpdated,
+}: KanbanSwimlanesProps) {
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(
+    () => new Set(),
+  );
+
+  const toggleLane = (key: string) => {
+    setCollapsedLanes((previous) => {
+      const next = new Set(previous);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="p-4 sm:p-6 space-y-4">
+      {/* Column headers */}
+      <div
+        className="grid gap-4 sm:gap-6 sticky top-0 z-10 bg-background pb-2"
+        style={columnsLayoutStyle}
+      >
+        {columns.map((column) => {
+          const wipStatus = getWipLimitStatus(
+            column.cards.length,
+            column.wipLimit,
+          );
+          return (
+            <div
+              key={column.id}
+              className={cn(
+                "flex items-center gap-2 rounded-lg border px-4 py-2",
+                wipStatus === "exceeded"
+                  ? "bg-red-50 border-red-200"
+                  : column.isDone
+                    ? "bg-green-50"
+                    : "bg-gray-50",
+              )}
+            >
+              <h3 className="font-semibold text-gray-900 truncate">
+                {column.title}
+              </h3>
+              <span
+                className={cn(
+                  "text-xs px-2 py-1 rounded-full",
+                  wipStatus === "exceeded"
+                    ? "bg-red-100 text-red-700"
+                    : wipStatus === "atLimit"
+                      ? "bg-amber-100 text-amber-800"
+                      : "bg-gray-200 text-gray-700",
+                )}
+              >
+                {column.wipLimit !== null
+                  ? `${column.cards.length}/${column.wipLimit}`
+                  : column.cards.length}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {lanes.map((lane) => {
+        const title = getLaneTitle(lane, mode);
+        const collapsed = collapsedLanes.has(lane.key);
+        const ToggleIcon = collapsed ? ChevronRight : ChevronDown;
+
+        return (
+          <section key={lane.key} aria-label={title}>
+            <button
+              type="button"
+              onClick={() => toggleLane(lane.key)}
+              aria-expanded={!collapsed}
+              aria-label={t(
+                collapsed ? "swimlanes.expandLane" : "swimlanes.collapseLane",
+                { lane: title },
+              )}
+              className="flex items-center gap-2 mb-2 rounded px-1 py-1 text-sm font-medium text-gray-800 hover:bg-gray-100"
+            >
+              <ToggleIcon className="w-4 h-4 text-gray-500" />
+              <LaneMarker lane={lane} />
+              <span className="truncate">{title}</span>
+              <span className="text-xs px-2 py-0.5 rounded-full bg-gray-200 text-gray-700">
+                {t("swimlanes.laneCount", { count: lane.count })}
+              </span>
+            </button>
+
+            {!collapsed && (
+              <div className="grid gap-4 sm:gap-6" style={columnsLayoutStyle}>
+                {columns.map((column) => (
+                  <SwimlaneCell
+                    key={column.id}
+                    laneKey={lane.key}
+                    columnId={column.id}
+                    cards={lane.cardsByColumn[column.id] ?? []}
+                    boardMembers={boardMembers}
+                    boardLabels={boardLabels}
+                    allColumns={columns}
+                    getEditingMembersForCard={getEditingMembersForCard}
+                    isLoading={isLoading}
+                    currentUser={currentUser}
+                    userRole={userRole}
+                    onCardClick={onCardClick}
+                    onCardUpdated={onCardUpdated}
+                  />
+                ))}
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
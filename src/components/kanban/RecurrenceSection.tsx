@@ -0,0 +1,313 @@
+"use client";
+
+import { useState } from "react";
+import { Repeat } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Column } from "@/types/database";
+import {
+  formatRecurrenceRule,
+  isWeekdayRecurrence,
+  MAX_RECURRENCE_INTERVAL,
+  parseRecurrenceRule,
+  RECURRENCE_WEEKDAYS,
+  WEEKDAY_RECURRENCE_RULE,
+  type RecurrenceRule,
+} from "@/lib/card-recurrence";
+import { t } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+const PRESETS = [
+  "none",
+  "daily",
+  "weekdays",
+  "weekly",
+  "monthly",
+  "custom",
+] as const;
+type RecurrencePreset = (typeof PRESETS)[number];
+
+/** Select value for "first open column"; Radix items need a non-empty value. */
+export const DEFAULT_RECURRENCE_COLUMN = "default";
+
+interface RecurrenceSectionProps {
+  /** RRULE subset, "" = not recurring */
+  value: string;
+  onChange: (value: string) => void;
+  /** Select value of the column for next instances */
+  columnId: string;
+  onColumnIdChange: (value: string) => void;
+  columns: Column[];
+  /** "YYYY-MM-DD"; seeds the weekday and month day of new rules */
+  dueDate: string;
+  disabled?: boolean;
+}
+
+const getPreset = (rule: RecurrenceRule | null): RecurrencePreset => {
+  if (!rule || rule.until) return "custom";
+  if (isWeekdayRecurrence(rule)) return "weekdays";
+  return rule.freq === "DAILY"
+    ? "daily"
+    : rule.freq === "WEEKLY"
+      ? "weekly"
+      : "monthly";
+};
+
+/**
+ * Recurrence rule editor for a card: presets for the common rules with
+ * interval, weekday and month day controls, a raw RRULE field for
+ * everything else, and the column the next instance is created in.
+ */
+export function RecurrenceSection({
+  value,
+  onChange,
+  columnId,
+  onColumnIdChange,
+  columns,
+  dueDate,
+  disabled = false,
+}: RecurrenceSectionProps) {
+  // "custom" sticks while typing, even once the text parses as a preset
+  const [customMode, setCustomMode] = useState(false);
+  const rule = value ? parseRecurrenceRule(value) : null;
+  const preset: RecurrencePreset = !value
+    ? "none"
+    : customMode
+      ? "custom"
+      : getPreset(rule);
+
+  const dueDay = /^\d{4}-\d{2}-\d{2}$/.test(dueDate)
+    ? new Date(`${dueDate}T00:00:00.000Z`)
+    : null;
+  const seedWeekday =
+    RECURRENCE_WEEKDAYS[dueDay ? (dueDay.getUTCDay() + 6) % 7 : 0] ?? "MO";
+  const seedMonthDay = dueDay ? dueDay.getUTCDate() : 1;
+
+  const update = (patch: Partial<RecurrenceRule>) => {
+    if (!rule) return;
+    onChange(formatRecurrenceRule({ ...rule, ...patch }));
+  };
+
+  const handlePresetChange = (next: RecurrencePreset) => {
+    setCustomMode(next === "custom");
+    const base = { interval: 1, byDay: [], byMonthDay: null, until: null };
+    switch (next) {
+      case "none":
+        onChange("");
+        break;
+      case "daily":
+        onChange(formatRecurrenceRule({ ...base, freq: "DAILY" }));
+        break;
+      case "weekdays":
+        onChange(WEEKDAY_RECURRENCE_RULE);
+        break;
+      case "weekly":
+        onChange(
+          formatRecurrenceRule({
+            ...base,
+            freq: "WEEKLY",
+            byDay: [seedWeekday],
+          }),
+        );
+        break;
+      case "monthly":
+        onChange(
+          formatRecurrenceRule({
+            ...base,
+            freq: "MONTHLY",
+            byMonthDay: seedMonthDay,
+          }),
+        );
+        break;
+      case "custom":
+        if (!value) onChange("FREQ=DAILY");
+        break;
+    }
+  };
+
+  const openColumns = columns.filter((column) => !column.isDone);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Label
+        htmlFor="recurrencePreset"
+        className="flex items-center gap-1.5 text-sm font-medium"
+      >
+        <Repeat className="h-3.5 w-3.5 text-muted-foreground" />
+        {t("recurrence.label")}
+      </Label>
+      <Select
+        value={preset}
+        onValueChange={(next) => handlePresetChange(next as RecurrencePreset)}
+        disabled={disabled}
+      >
+        <SelectTrigger id="recurrencePreset" className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PRESETS.map((option) => (
+            <SelectItem key={option} value={option}>
+              {t(`recurrence.presets.${option}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {rule &&
+        (preset === "daily" || preset === "weekly" || preset === "monthly") && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">
+              {t("recurrence.every")}
+            </span>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_RECURRENCE_INTERVAL}
+              value={rule.interval}
+              onChange={(e) => {
+                const interval = Number(e.target.value);
+                if (interval >= 1 && interval <= MAX_RECURRENCE_INTERVAL) {
+                  update({ interval: Math.floor(interval) });
+                }
+              }}
+              disabled={disabled}
+              aria-label={t("recurrence.every")}
+              className="h-8 w-16"
+            />
+            <span className="text-muted-foreground">
+              {t(`recurrence.units.${rule.freq}`)}
+            </span>
+            {preset === "monthly" && (
+              <Select
+                value={String(rule.byMonthDay ?? seedMonthDay)}
+                onValueChange={(day) => update({ byMonthDay: Number(day) })}
+                disabled={disabled}
+              >
+                <SelectTrigger
+                  className="h-8 w-36"
+                  aria-label={t("recurrence.onDay")}
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 31 }, (_, index) => index + 1).map(
+                    (day) => (
+                      <SelectItem key={day} value={String(day)}>
+                        {t("recurrence.onDay")} {day}.
+                      </SelectItem>
+                    ),
+                  )}
+                  <SelectItem value="-1">{t("recurrence.lastDay")}</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
+      {rule && preset === "weekly" && (
+        <div className="flex flex-wrap gap-1">
+          {RECURRENCE_WEEKDAYS.map((day) => {
+            const selected = rule.byDay.includes(day);
+            return (
+              <button
+                key={day}
+                type="button"
+                aria-pressed={selected}
+                disabled={disabled}
+                onClick={() => {
+                  const byDay = selected
+                    ? rule.byDay.filter((d) => d !== day)
+                    : [...rule.byDay, day];
+                  // At least one day, otherwise the due weekday is implied
+                  if (byDay.length > 0) {
+                    update({
+                      byDay: RECURRENCE_WEEKDAYS.filter((d) =>
+                        byDay.includes(d),
+                      ),
+                    });
+                  }
+                }}
+                className={cn(
+                  "h-7 w-8 rounded-md border text-xs font-medium transition-colors disabled:cursor-default",
+                  selected
+                    ? "border-primary bg-primary text-primary-foreground"
+                    : "hover:bg-muted",
+                )}
+              >
+                {t(`recurrence.weekdays.${day}`)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {preset === "custom" && (
+        <div className="flex flex-col gap-1">
+          <Input
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={t("recurrence.customPlaceholder")}
+            aria-label={t("recurrence.presets.custom")}
+            aria-invalid={!rule || undefined}
+            disabled={disabled}
+            maxLength={200}
+            className={cn(
+              "h-8 font-mono text-xs",
+              !rule && "border-destructive",
+            )}
+          />
+          <p
+            className={cn(
+              "text-xs",
+              rule ? "text-muted-foreground" : "text-destructive",
+            )}
+          >
+            {rule ? t("recurrence.customHelp") : t("recurrence.invalid")}
+          </p>
+        </div>
+      )}
+
+      {preset !== "none" && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <Label
+              htmlFor="recurrenceColumn"
+              className="shrink-0 font-normal text-muted-foreground"
+            >
+              {t("recurrence.column")}
+            </Label>
+            <Select
+              value={columnId}
+              onValueChange={onColumnIdChange}
+              disabled={disabled}
+            >
+              <SelectTrigger id="recurrenceColumn" className="h-8 flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_RECURRENCE_COLUMN}>
+                  {t("recurrence.columnDefault")}
+                </SelectItem>
+                {openColumns.map((column) => (
+                  <SelectItem key={column.id} value={String(column.id)}>
+                    {column.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t("recurrence.hint")}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import type { BoardWithDetails, User } from "@/types/database";
+import { getPriorityLevel } from "@/lib/priority-colors";
+
+export type BoardTableColumn = BoardWithDetails["columns"][number];
+export type BoardTableCard = BoardTableColumn["cards"][number];
+
+export type BoardTableSortKey =
+  | "title"
+  | "column"
+  | "assignee"
+  | "priority"
+  | "dueDate"
+  | "subtasks"
+  | "createdVia";
+
+export type BoardTableSort = {
+  key: BoardTableSortKey;
+  direction: "asc" | "desc";
+};
+
+export interface BoardTableRow {
+  card: BoardTableCard;
+  column: BoardTableColumn;
+}
+
+/**
+ * Flatten the filtered cards into table rows, column by column. Within a
+ * column the order from the board filters is kept, so an unsorted table
+ * lists cards the same way the Kanban view does.
+ */
+export function buildBoardTableRows(
+  columns: BoardTableColumn[],
+  cardsByColumn: Record<number, BoardTableCard[]>,
+): BoardTableRow[] {
+  return [...columns]
+    .sort((a, b) => a.position - b.position)
+    .flatMap((column) =>
+      (cardsByColumn[column.id] ?? []).map((card) => ({ card, column })),
+    );
+}
+
+const getDueTime = (card: BoardTableCard) => {
+  if (!card.dueDate) return null;
+  const time = new Date(card.dueDate).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const getSubtaskRatio = (card: BoardTableCard) => {
+  const progress = card.subtaskProgress;
+  if (!progress || progress.total === 0) return null;
+  return progress.completed / progress.total;
+};
+
+/**
+ * Sort table rows by a column header. Cards without a value (no assignee,
+ * no due date, no subtasks) always sort last; ties keep the current order.
+ */
+export function sortBoardTableRows(
+  rows: BoardTableRow[],
+  sort: BoardTableSort | null,
+  members: User[],
+): BoardTableRow[] {
+  if (!sort) return rows;
+
+  const memberNames = new Map(
+    members.map((member) => [member.id, member.name || member.email]),
+  );
+  const getValue = ({
+    card,
+    column,
+  }: BoardTableRow): string | number | null => {
+    switch (sort.key) {
+      case "title":
+        return card.title;
+      case "column":
+        return column.position;
+      case "assignee":
+        return card.assigneeId
+          ? (memberNames.get(card.assigneeId) ?? card.assignee?.name ?? null)
+          : null;
+      case "priority":
+        return getPriorityLevel(card.priority);
+      case "dueDate":
+        return getDueTime(card);
+      case "subtasks":
+        return getSubtaskRatio(card);
+      case "createdVia":
+        return card.createdVia;
+    }
+  };
+
+  const direction = sort.direction === "asc" ? 1 : -1;
+  return rows
+    .map((row, index) => ({ row, index, value: getValue(row) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        if (a.value === b.value) return a.index - b.index;
+        return a.value === null ? 1 : -1;
+      }
+      const compared =
+        typeof a.value === "number" && typeof b.value === "number"
+          ? a.value - b.value
+          : String(a.value).localeCompare(String(b.value));
+      return compared === 0 ? a.index - b.index : compared * direction;
+    })
+    .map(({ row }) => row);
+}
+
+/** Header click cycle: ascending, descending, then back to board order. */
+export function toggleBoardTableSort(
+  current: BoardTableSort | null,
+  key: BoardTableSortKey,
+): BoardTableSort | null {
+  if (current?.key !== key) return { key, direction: "asc" };
+  return current.direction === "asc" ? { key, direction: "desc" } : null;
+}
+
+/**
+ * Merge cards returned by inline table edits into the board columns in one
+ * pass. Cards that changed column are moved and the target column is
+ * re-sorted by position.
+ */
+export function applyBoardTableUpdates(
+  columns: BoardTableColumn[],
+  updatedCards: BoardTableCard[],
+): BoardTableColumn[] {
+  const updates = new Map(updatedCards.map((card) => [card.id, card]));
+
+  return columns.map((column) => {
+    const kept = column.cards
+      .filter(
+        (card) => (updates.get(card.id)?.columnId ?? column.id) === column.id,
+      )
+      .map((card) => updates.get(card.id) ?? card);
+    const movedIn = updatedCards.filter(
+      (card) =>
+        card.columnId === column.id &&
+        !column.cards.some((existing) => existing.id === card.id),
+    );
+    if (movedIn.length === 0) return { ...column, cards: kept };
+    return {
+      ...column,
+      cards: [...kept, ...movedIn].sort((a, b) => a.position - b.position),
+    };
+  });
+}
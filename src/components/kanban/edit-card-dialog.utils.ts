@@ -31,7 +31,21 @@ export function getEditCardDueDateInputValue(
 export function normalizeEditCardDueDateForApi(
   dueDateInput: string,
 ): string | null {
-  const trimmed = dueDateInput.trim();
+  return normalizeDateInputForApi(dueDateInput, "end");
+}
+
+/** Start dates are stored at the start of the day, due dates at its end. */
+export function normalizeEditCardStartDateForApi(
+  startDateInput: string,
+): string | null {
+  return normalizeDateInputForApi(startDateInput, "start");
+}
+
+function normalizeDateInputForApi(
+  dateInput: string,
+  boundary: "start" | "end",
+): string | null {
+  const trimmed = dateInput.trim();
   if (!trimmed) return null;
 
   const match = EDIT_CARD_DUE_DATE_PATTERN.exec(trimmed);
@@ -42,7 +56,10 @@ export function normalizeEditCardDueDateForApi(
   const month = Number(monthPart);
   const day = Number(dayPart);
 
-  const parsed = new Date(Date.UTC(year, month - 1, day, 23, 59, 59, 999));
+  const parsed =
+    boundary === "end"
+      ? new Date(Date.UTC(year, month - 1, day, 23, 59, 59, 999))
+      : new Date(Date.UTC(year, month - 1, day));
   if (
     Number.isNaN(parsed.getTime()) ||
     parsed.getUTCFullYear() !== year ||
@@ -0,0 +1,248 @@
+import type {
+  BoardWithDetails,
+  CardPriority,
+  Label,
+  User,
+} from "@/types/database";
+import { getCardAssigneeIds } from "@/lib/card-assignees";
+
+export type SwimlaneMode = "none" | "assignee" | "priority" | "label";
+export type GroupedSwimlaneMode = Exclude<SwimlaneMode, "none">;
+
+export const SWIMLANE_MODES: SwimlaneMode[] = [
+  "none",
+  "assignee",
+  "priority",
+  "label",
+];
+
+/** Lane key for cards without an assignee or without labels. */
+export const EMPTY_LANE_KEY = "none";
+
+const PRIORITY_LANES: CardPriority[] = ["high", "medium", "low"];
+const CELL_ID_PREFIX = "lane-drop:";
+
+export type SwimlaneCard = BoardWithDetails["columns"][number]["cards"][number];
+
+export interface Swimlane {
+  key: string;
+  user?: User;
+  label?: Label;
+  priority?: CardPriority;
+  /** Cards in this lane grouped by column id, sorted by position. */
+  cardsByColumn: Record<number, SwimlaneCard[]>;
+  count: number;
+}
+
+/**
+ * The lane a card belongs to. In label mode a card with several labels sits
+ * in the lane of its first label by name.
+ */
+export function getCardLaneKey(
+  card: SwimlaneCard,
+  mode: GroupedSwimlaneMode,
+): string {
+  switch (mode) {
+    case "assignee":
+      return card.assigneeId ?? EMPTY_LANE_KEY;
+    case "priority":
+      return card.priority;
+    case "label": {
+      const [primary] = [...card.labels].sort((a, b) =>
+        a.label.name.localeCompare(b.label.name),
+      );
+      return primary?.labelId ?? EMPTY_LANE_KEY;
+    }
+  }
+}
+
+/**
+ * Group cards into lanes. Every board member, priority or label gets a lane
+ * even when empty so cards can be dragged into it; the "unassigned" and
+ * "no label" lanes come last.
+ */
+export function buildSwimlanes(
+  mode: GroupedSwimlaneMode,
+  cards: SwimlaneCard[],
+  { members, labels }: { members: User[]; labels: Label[] },
+): Swimlane[] {
+  const lanes = new Map<string, Swimlane>();
+  const addLane = (key: string, extra: Partial<Swimlane> = {}) => {
+    if (!lanes.has(key)) {
+      lanes.set(key, { key, cardsByColumn: {}, count: 0, ...extra });
+    }
+  };
+
+  if (mode === "assignee") {
+    [...members]
+      .sort((a, b) => (a.name || a.email).localeCompare(b.name || b.email))
+      .forEach((user) => addLane(user.id, { user }));
+    // Assignees who have since left the board still get a lane.
+    cards.forEach((card) => {
+      if (card.assigneeId && card.assignee) {
+        addLane(card.assigneeId, { user: card.assignee });
+      }
+    });
+  } else if (mode === "priority") {
+    PRIORITY_LANES.forEach((priority) => addLane(priority, { priority }));
+  } else {
+    [...labels]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((label) => addLane(label.id, { label }));
+  }
+  if (mode !== "priority") addLane(EMPTY_LANE_KEY);
+
+  for (const card of cards) {
+    const key = getCardLaneKey(card, mode);
+    addLane(key);
+    const lane = lanes.get(key)!;
+    (lane.cardsByColumn[card.columnId] ??= []).push(card);
+    lane.count += 1;
+  }
+
+  for (const lane of lanes.values()) {
+    for (const columnCards of Object.values(lane.cardsByColumn)) {
+      columnCards.sort((a, b) => a.position - b.position);
+    }
+  }
+
+  // Keep the empty lane at the bottom even if a card created it early.
+  const result = [...lanes.values()];
+  return [
+    ...result.filter((lane) => lane.key !== EMPTY_LANE_KEY),
+    ...result.filter((lane) => lane.key === EMPTY_LANE_KEY),
+  ];
+}
+
+export function getSwimlaneCellId(laneKey: string, columnId: number): string {
+  return `${CELL_ID_PREFIX}${laneKey}:${columnId}`;
+}
+
+export function parseSwimlaneCellId(
+  id: string | number,
+): { laneKey: string; columnId: number } | null {
+  if (typeof id !== "string" || !id.startsWith(CELL_ID_PREFIX)) return null;
+  const rest = id.slice(CELL_ID_PREFIX.length);
+  const separator = rest.lastIndexOf(":");
+  if (separator <= 0) return null;
+  const columnId = Number(rest.slice(separator + 1));
+  if (!Number.isInteger(columnId)) return null;
+  return { laneKey: rest.slice(0, separator), columnId };
+}
+
+export type SwimlaneFieldChange =
+  | { kind: "assignees"; assigneeIds: string[] }
+  | { kind: "priority"; priority: CardPriority }
+  | { kind: "labels"; labelIds: string[] };
+
+/**
+ * The field update that moves a card into another lane, or null when it is
+ * already there. Dropping into a person's or label lane swaps the card's
+ * current lane assignee or label for the new one and keeps the others;
+ * dropping into "unassigned" or "no label" clears them.
+ */
+export function getSwimlaneFieldChange(
+  card: SwimlaneCard,
+  mode: GroupedSwimlaneMode,
+  targetLaneKey: string,
+): SwimlaneFieldChange | null {
+  const sourceLaneKey = getCardLaneKey(card, mode);
+  if (sourceLaneKey === targetLaneKey) return null;
+
+  switch (mode) {
+    case "assignee": {
+      if (targetLaneKey === EMPTY_LANE_KEY) {
+        return { kind: "assignees", assigneeIds: [] };
+      }
+      // The lane follows the primary assignee, so the new person goes first
+      const assigneeIds = getCardAssigneeIds(card).filter(
+        (id) => id !== sourceLaneKey && id !== targetLaneKey,
+      );
+      return {
+        kind: "assignees",
+        assigneeIds: [targetLaneKey, ...assigneeIds],
+      };
+    }
+    case "priority":
+      return { kind: "priority", priority: targetLaneKey as CardPriority };
+    case "label": {
+      if (targetLaneKey === EMPTY_LANE_KEY) {
+        return { kind: "labels", labelIds: [] };
+      }
+      const labelIds = card.labels
+        .map((cardLabel) => cardLabel.labelId)
+        .filter((id) => id !== sourceLaneKey && id !== targetLaneKey);
+      return { kind: "labels", labelIds: [...labelIds, targetLaneKey] };
+    }
+  }
+}
+
+/** Apply a lane change to the local card so the board updates immediately. */
+export function applySwimlaneFieldChange(
+  card: SwimlaneCard,
+  change: SwimlaneFieldChange,
+  { members, labels }: { members: User[]; labels: Label[] },
+): SwimlaneCard {
+  switch (change.kind) {
+    case "assignees": {
+      const { assignee: _previous, ...rest } = card;
+      const assignees = change.assigneeIds.flatMap((id) => {
+        const user =
+          members.find((m) => m.id === id) ??
+          card.assignees?.find((a) => a.id === id);
+        return user ? [user] : [];
+      });
+      const assignee = assignees.find((a) => a.id === change.assigneeIds[0]);
+      return {
+        ...rest,
+        assigneeId: change.assigneeIds[0] ?? null,
+        assigneeIds: change.assigneeIds,
+        assignees,
+        ...(assignee ? { assignee } : {}),
+      };
+    }
+    case "priority":
+      return { ...card, priority: change.priority };
+    case "labels":
+      return {
+        ...card,
+        labels: change.labelIds.flatMap((labelId) => {
+          const existing = card.labels.find((l) => l.labelId === labelId);
+          if (existing) return [existing];
+          const label = labels.find((l) => l.id === labelId);
+          return label
+            ? [{ cardId: card.id, labelId, createdAt: new Date(), label }]
+            : [];
+        }),
+      };
+  }
+}
+
+/**
+ * API function to persist a lane change on the card
+ */
+export async function saveSwimlaneFieldChange(
+  cardId: string,
+  change: SwimlaneFieldChange,
+): Promise<void> {
+  const response =
+    change.kind === "labels"
+      ? await fetch(`/api/cards/${cardId}/labels`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ labelIds: change.labelIds }),
+        })
+      : await fetch(`/api/cards/${cardId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            change.kind === "assignees"
+              ? { assigneeIds: change.assigneeIds }
+              : { priority: change.priority },
+          ),
+        });
+
+  if (!response.ok) {
+    throw new Error("Failed to update card lane");
+  }
+}
@@ -8,10 +8,12 @@ import {
   LayoutDashboard,
   Kanban,
   CalendarDays,
+  ListTodo,
   Shield,
   LogOut,
   UserRound,
   ChevronsUpDown,
+  Search,
 } from "lucide-react";
 import {
   Sidebar,
@@ -40,6 +42,7 @@ import {
 import { UserAvatar } from "@/components/ui/UserAvatar";
 import { NotificationCenter } from "@/components/notifications/NotificationCenter";
 import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { useSearchPalette } from "@/components/search/SearchPalette";
 import { createClient } from "@/lib/supabase/client";
 import { t } from "@/lib/i18n";
 
@@ -54,6 +57,11 @@ const NAV_ITEMS = [
     href: "/boards",
     icon: Kanban,
   },
+  {
+    labelKey: "sidebar.myTasks" as const,
+    href: "/my-tasks",
+    icon: ListTodo,
+  },
   {
     labelKey: "sidebar.calendar" as const,
     href: "/calendar",
@@ -211,6 +219,7 @@ function SidebarBoardGroupsSection({ pathname }: { pathname: string }) {
 export function AppSidebar() {
   const pathname = usePathname();
   const { user } = useCurrentUser();
+  const searchPalette = useSearchPalette();
 
   return (
     <Sidebar collapsible="icon" variant="sidebar">
@@ -222,6 +231,20 @@ export function AppSidebar() {
         <SidebarGroup>
           <SidebarGroupLabel>{t("sidebar.navigation")}</SidebarGroupLabel>
           <SidebarMenu>
+            {searchPalette ? (
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  onClick={searchPalette.openSearch}
+                  tooltip={t("search.open")}
+                >
+                  <Search />
+                  <span>{t("search.open")}</span>
+                  <kbd className="ml-auto text-[10px] text-muted-foreground">
+                    {t("search.shortcut")}
+                  </kbd>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            ) : null}
             {NAV_ITEMS.map((item) => {
               const isActive =
                 item.href === "/dashboard"
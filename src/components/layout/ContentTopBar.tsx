@@ -1,7 +1,11 @@
 "use client";
 
 import type { ReactNode } from "react";
+import { Search } from "lucide-react";
 import { SidebarTrigger } from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { useSearchPalette } from "@/components/search/SearchPalette";
+import { t } from "@/lib/i18n";
 
 interface ContentTopBarProps {
   title: ReactNode;
@@ -18,6 +22,8 @@ export function ContentTopBar({
   actionsStart,
   actions,
 }: ContentTopBarProps) {
+  const searchPalette = useSearchPalette();
+
   return (
     <header className="flex flex-col border-b border-sidebar-border/40 bg-background/80 backdrop-blur-md">
       <div className="flex items-center gap-3 px-4 py-3 sm:px-6 lg:px-8">
@@ -38,6 +44,19 @@ export function ContentTopBar({
           ) : null}
         </div>
 
+        {searchPalette ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 text-muted-foreground hover:text-foreground"
+            onClick={searchPalette.openSearch}
+            aria-label={t("search.open")}
+            title={`${t("search.open")} (${t("search.shortcut")})`}
+          >
+            <Search className="size-4" />
+          </Button>
+        ) : null}
+
         {actions ? (
           <div className="flex items-center gap-1.5 sm:gap-2">{actions}</div>
         ) : null}
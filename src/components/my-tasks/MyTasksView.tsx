@@ -0,0 +1,326 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { CalendarClock, CheckCircle2, Circle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { normalizeEditCardDueDateForApi } from "@/components/kanban/edit-card-dialog.utils";
+import type { MyTaskCard } from "@/app/api/me/cards/route";
+import {
+  getQuickRescheduleDays,
+  toLocalCalendarDay,
+  type MyTaskBucket,
+} from "@/lib/my-tasks";
+import { getPriorityConfig } from "@/lib/priority-colors";
+import { formatDisplayDate } from "@/lib/date-format";
+import { t } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+
+type MyTasksResponse = {
+  today: string;
+  groups: { bucket: MyTaskBucket; cards: MyTaskCard[] }[];
+};
+
+type CardNotice = { kind: "error" | "info"; text: string };
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  return (data as { error?: string }).error || fallback;
+};
+
+function RescheduleMenu({
+  today,
+  disabled,
+  onSelect,
+}: {
+  today: string;
+  disabled: boolean;
+  onSelect: (day: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const quickDays = getQuickRescheduleDays(today);
+  const select = (day: string) => {
+    setOpen(false);
+    onSelect(day);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          disabled={disabled}
+          title={t("myTasks.reschedule")}
+          className="size-8 text-muted-foreground hover:text-foreground"
+        >
+          <CalendarClock className="size-4" />
+          <span className="sr-only">{t("myTasks.reschedule")}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="flex gap-1 border-b p-2">
+          {(["today", "tomorrow", "nextWeek"] as const).map((key) => (
+            <Button
+              key={key}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => select(quickDays[key])}
+            >
+              {t(`myTasks.quick.${key}`)}
+            </Button>
+          ))}
+        </div>
+        <Calendar
+          mode="single"
+          onSelect={(date) => date && select(toLocalCalendarDay(date))}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Open cards assigned to the current user across all boards, grouped by due
+ * date. Cards can be completed and rescheduled in place; due dates of cards
+ * created by someone else are proposed through a deadline request.
+ */
+export function MyTasksView() {
+  const { user } = useCurrentUser();
+  const [today] = useState(() => toLocalCalendarDay(new Date()));
+  const { data, error, isLoading, mutate } = useSWR<MyTasksResponse>(
+    `/api/me/cards?today=${today}`,
+  );
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+  const [notices, setNotices] = useState<Record<string, CardNotice>>({});
+
+  const runCardAction = async (
+    card: MyTaskCard,
+    action: () => Promise<CardNotice | null>,
+  ) => {
+    setBusyIds((current) => new Set(current).add(card.id));
+    setNotices(({ [card.id]: _removed, ...rest }) => rest);
+    let notice: CardNotice | null;
+    try {
+      notice = await action();
+    } catch (actionError) {
+      console.error("My tasks action failed:", actionError);
+      notice = { kind: "error", text: t("myTasks.actionFailed") };
+    }
+    setBusyIds((current) => {
+      const next = new Set(current);
+      next.delete(card.id);
+      return next;
+    });
+    if (notice) setNotices((current) => ({ ...current, [card.id]: notice }));
+  };
+
+  const handleComplete = (card: MyTaskCard) =>
+    runCardAction(card, async () => {
+      // Moving into the board's done column completes the card like a drag
+      // on the board would; boards without one only get completedAt.
+      const response = await fetch(`/api/cards/${card.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          card.doneColumnId !== null
+            ? { columnId: card.doneColumnId }
+            : { completedAt: new Date().toISOString() },
+        ),
+      });
+      if (!response.ok) {
+        return {
+          kind: "error",
+          text: await readError(response, t("myTasks.actionFailed")),
+        };
+      }
+      await mutate();
+      return null;
+    });
+
+  const handleReschedule = (card: MyTaskCard, day: string) =>
+    runCardAction(card, async () => {
+      const dueDate = normalizeEditCardDueDateForApi(day);
+      if (!dueDate) return null;
+
+      if (!card.createdBy || card.createdBy === user?.id) {
+        const response = await fetch(`/api/cards/${card.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ dueDate }),
+        });
+        if (!response.ok) {
+          return {
+            kind: "error",
+            text: await readError(response, t("myTasks.actionFailed")),
+          };
+        }
+        await mutate();
+        return null;
+      }
+
+      const response = await fetch(`/api/cards/${card.id}/deadline-requests`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ suggestedDueDate: dueDate }),
+      });
+      if (!response.ok) {
+        return {
+          kind: "error",
+          text: await readError(response, t("myTasks.actionFailed")),
+        };
+      }
+      return {
+        kind: "info",
+        text: t("myTasks.deadlineSuggested", {
+          date: formatDisplayDate(dueDate, { useUtc: true }),
+        }),
+      };
+    });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 p-6 text-sm text-muted-foreground">
+        <Loader2 className="size-4 animate-spin" />
+        {t("myTasks.loading")}
+      </div>
+    );
+  }
+  if (error || !data) {
+    return (
+      <p role="alert" className="p-6 text-sm text-destructive">
+        {t("myTasks.errorLoading")}
+      </p>
+    );
+  }
+
+  const total = data.groups.reduce((sum, group) => sum + group.cards.length, 0);
+  if (total === 0) {
+    return (
+      <p className="p-8 text-center text-sm text-muted-foreground">
+        {t("myTasks.empty")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      {data.groups
+        .filter((group) => group.cards.length > 0)
+        .map((group) => (
+          <section
+            key={group.bucket}
+            aria-labelledby={`my-tasks-${group.bucket}`}
+          >
+            <h2
+              id={`my-tasks-${group.bucket}`}
+              className={cn(
+                "mb-2 flex items-center gap-2 text-sm font-semibold",
+                group.bucket === "overdue" && "text-destructive",
+              )}
+            >
+              {t(`myTasks.bucket.${group.bucket}`)}
+              <span className="text-xs font-normal text-muted-foreground">
+                {group.cards.length}
+              </span>
+            </h2>
+            <ul className="divide-y rounded-lg border bg-card">
+              {group.cards.map((card) => {
+                const busy = busyIds.has(card.id);
+                const notice = notices[card.id];
+                return (
+                  <li
+                    key={card.id}
+                    className="flex items-start gap-3 px-3 py-2"
+                  >
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={busy}
+                      onClick={() => void handleComplete(card)}
+                      title={t("myTasks.complete")}
+                      className="group size-8 shrink-0 text-muted-foreground hover:text-emerald-600"
+                    >
+                      {busy ? (
+                        <Loader2 className="size-4 animate-spin" />
+                      ) : (
+                        <>
+                          <Circle className="size-4 group-hover:hidden" />
+                          <CheckCircle2 className="hidden size-4 group-hover:block" />
+                        </>
+                      )}
+                      <span className="sr-only">{t("myTasks.complete")}</span>
+                    </Button>
+                    <div className="min-w-0 flex-1 py-1">
+                      <Link
+                        href={`/boards/${card.boardId}?cardId=${card.id}`}
+                        className="block truncate text-sm font-medium hover:underline"
+                      >
+                        {card.title}
+                      </Link>
+                      <div className="mt-0.5 flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground">
+                        <span
+                          className="inline-block size-2 rounded-full"
+                          style={{
+                            backgroundColor: getPriorityConfig(card.priority)
+                              .color,
+                          }}
+                          aria-hidden
+                        />
+                        <span className="truncate">
+                          {card.boardName} · {card.columnTitle}
+                        </span>
+                        {card.dueDate && (
+                          <span
+                            className={cn(
+                              group.bucket === "overdue" && "text-destructive",
+                            )}
+                          >
+                            {t("myTasks.dueOn", {
+                              date: formatDisplayDate(card.dueDate, {
+                                useUtc: true,
+                              }),
+                            })}
+                          </span>
+                        )}
+                      </div>
+                      {notice && (
+                        <p
+                          role={notice.kind === "error" ? "alert" : "status"}
+                          className={cn(
+                            "mt-1 text-xs",
+                            notice.kind === "error"
+                              ? "text-destructive"
+                              : "text-muted-foreground",
+                          )}
+                        >
+                          {notice.text}
+                        </p>
+                      )}
+                    </div>
+                    <RescheduleMenu
+                      today={data.today}
+                      disabled={busy}
+                      onSelect={(day) => void handleReschedule(card, day)}
+                    />
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))}
+    </div>
+  );
+}
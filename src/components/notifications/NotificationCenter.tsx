@@ -17,8 +17,10 @@ import {
   Users,
   CheckCircle2,
   ArrowRight,
+  Reply,
   Trash2,
   CheckCheck,
+  EyeOff,
 } from "lucide-react";
 import {
   Popover,
@@ -64,6 +66,10 @@ function typeIcon(type: NotificationType) {
       return <CheckCircle2 className={cls} />;
     case "card_moved":
       return <ArrowRight className={cls} />;
+    case "comment_reply":
+      return <Reply className={cls} />;
+    case "comment":
+      return <MessageSquare className={cls} />;
   }
 }
 
@@ -85,6 +91,10 @@ function typeColor(type: NotificationType): string {
       return "text-green-500";
     case "card_moved":
       return "text-blue-500";
+    case "comment_reply":
+      return "text-blue-500";
+    case "comment":
+      return "text-sky-500";
   }
 }
 
@@ -111,6 +121,10 @@ function notifText(n: NotificationItem): string {
       const column = (n.metadata?.columnTitle as string | undefined) ?? "";
       return t("notifications.cardMoved", { actor, card, column });
     }
+    case "comment_reply":
+      return t("notifications.commentReply", { actor, card });
+    case "comment":
+      return t("notifications.comment", { actor, card });
   }
 }
 
@@ -122,6 +136,13 @@ function relativeTime(iso: string): string {
   return `vor ${Math.floor(diff / 86400)} T.`;
 }
 
+// Set on notifications that reached the user as a watcher
+function notifWatch(n: NotificationItem): { id: string; scope: string } | null {
+  const watch = n.metadata?.watch as { id?: unknown; scope?: unknown } | null;
+  if (!n.board || typeof watch?.id !== "string") return null;
+  return { id: watch.id, scope: String(watch.scope ?? "card") };
+}
+
 function initials(name: string | null): string {
   if (!name) return "?";
   return name
@@ -136,13 +157,24 @@ function initials(name: string | null): string {
 
 function NotificationRow({
   n,
+  unwatched,
   onRead,
   onDelete,
+  onUnwatch,
 }: {
   n: NotificationItem;
+  unwatched: boolean;
   onRead: (n: NotificationItem) => void;
   onDelete: (n: NotificationItem) => void;
+  onUnwatch: (n: NotificationItem) => void;
 }) {
+  const watch = notifWatch(n);
+  const unwatchLabel =
+    watch?.scope === "board"
+      ? t("watchers.unwatchBoard")
+      : watch?.scope === "column"
+        ? t("watchers.unwatchColumn")
+        : t("watchers.unwatch");
   return (
     <div
       className={`flex items-start gap-3 px-4 py-3 transition-colors hover:bg-gray-50 ${
@@ -193,6 +225,17 @@ function NotificationRow({
         >
           <Trash2 className="h-3.5 w-3.5" />
         </button>
+        {watch && (
+          <button
+            onClick={() => onUnwatch(n)}
+            disabled={unwatched}
+            aria-label={unwatched ? t("watchers.unwatched") : unwatchLabel}
+            title={unwatched ? t("watchers.unwatched") : unwatchLabel}
+            className="text-gray-300 hover:text-gray-600 transition-colors disabled:text-gray-200 disabled:cursor-default"
+          >
+            <EyeOff className="h-3.5 w-3.5" />
+          </button>
+        )}
       </div>
     </div>
   );
@@ -233,6 +276,8 @@ export function NotificationCenter() {
     return Notification.permission as "granted" | "denied" | "default";
   });
   const [testResult, setTestResult] = useState<NotificationResult | null>(null);
+  // Watches removed from here, so their other notifications stop offering it
+  const [unwatchedIds, setUnwatchedIds] = useState<Set<string>>(new Set());
 
   function refreshBrowserPermission() {
     if (typeof window === "undefined" || !("Notification" in window)) {
@@ -305,6 +350,18 @@ export function NotificationCenter() {
     await fetch("/api/notifications/mark-all-read", { method: "POST" });
   }
 
+  async function handleUnwatch(n: NotificationItem) {
+    const watch = notifWatch(n);
+    if (!watch || !n.board) return;
+    const res = await fetch(`/api/boards/${n.board.id}/watchers/${watch.id}`, {
+      method: "DELETE",
+    });
+    // 404: already unwatched elsewhere
+    if (res.ok || res.status === 404) {
+      setUnwatchedIds((prev) => new Set(prev).add(watch.id));
+    }
+  }
+
   async function handleDelete(n: NotificationItem) {
     deleteNotification(n.id);
     await fetch(`/api/notifications/${n.id}`, { method: "DELETE" });
@@ -480,8 +537,10 @@ export function NotificationCenter() {
                 <NotificationRow
                   key={n.id}
                   n={n}
+                  unwatched={unwatchedIds.has(notifWatch(n)?.id ?? "")}
                   onRead={handleRead}
                   onDelete={handleDelete}
+                  onUnwatch={(item) => void handleUnwatch(item)}
                 />
               ))}
             </div>
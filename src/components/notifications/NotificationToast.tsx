@@ -34,6 +34,10 @@ function toastLabel(n: NotificationItem): string {
       const column = (n.metadata?.columnTitle as string | undefined) ?? "";
       return t("notifications.cardMoved", { actor, card, column });
     }
+    case "comment_reply":
+      return t("notifications.commentReply", { actor, card });
+    case "comment":
+      return t("notifications.comment", { actor, card });
   }
 }
 
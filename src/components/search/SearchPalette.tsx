@@ -0,0 +1,237 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type KeyboardEvent as ReactKeyboardEvent,
+  type ReactNode,
+} from "react";
+import { useRouter } from "next/navigation";
+import useSWR from "swr";
+import {
+  FileText,
+  ListChecks,
+  Loader2,
+  MessageSquare,
+  Search,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { t } from "@/lib/i18n";
+import { parseSearchSnippet, type SearchResultType } from "@/lib/search";
+import type { SearchResult } from "@/app/api/search/route";
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+const RESULT_ICONS: Record<SearchResultType, typeof FileText> = {
+  card: FileText,
+  comment: MessageSquare,
+  subtask: ListChecks,
+};
+
+type SearchPaletteContextValue = {
+  openSearch: () => void;
+};
+
+const SearchPaletteContext = createContext<SearchPaletteContextValue | null>(
+  null,
+);
+
+/** Returns null outside the app shell (e.g. isolated component tests). */
+export function useSearchPalette() {
+  return useContext(SearchPaletteContext);
+}
+
+function SearchSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {parseSearchSnippet(snippet).map((segment, index) =>
+        segment.highlighted ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-yellow-200 px-0.5 text-foreground"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+/** Mounted only while open, so the query resets every time it closes. */
+function SearchPaletteDialog({ onClose }: { onClose: () => void }) {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setDebouncedQuery(query.trim()),
+      SEARCH_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const searchKey =
+    debouncedQuery.length >= MIN_QUERY_LENGTH
+      ? `/api/search?q=${encodeURIComponent(debouncedQuery)}`
+      : null;
+  const { data, error, isLoading } = useSWR<{ results: SearchResult[] }>(
+    searchKey,
+    { keepPreviousData: true },
+  );
+  const results = searchKey ? (data?.results ?? []) : [];
+
+  const openResult = (result: SearchResult) => {
+    onClose();
+    router.push(`/boards/${result.boardId}?cardId=${result.cardId}`);
+  };
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (results.length === 0) return;
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((index) => (index + 1) % results.length);
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((index) => (index - 1 + results.length) % results.length);
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      const result = results[Math.min(activeIndex, results.length - 1)];
+      if (result) openResult(result);
+    }
+  };
+
+  let status: string | null = null;
+  if (query.trim().length < MIN_QUERY_LENGTH) {
+    status = t("search.minChars");
+  } else if (error) {
+    status = t("search.error");
+  } else if (isLoading && results.length === 0) {
+    status = t("search.searching");
+  } else if (searchKey && data && results.length === 0) {
+    status = t("search.noResults", { query: debouncedQuery });
+  }
+
+  return (
+    <Dialog open onOpenChange={(next) => !next && onClose()}>
+      <DialogContent
+        showCloseButton={false}
+        className="top-[15%] translate-y-0 gap-0 p-0 sm:max-w-xl"
+      >
+        <DialogTitle className="sr-only">{t("search.title")}</DialogTitle>
+        <DialogDescription className="sr-only">
+          {t("search.placeholder")}
+        </DialogDescription>
+        <div className="flex items-center gap-2 border-b px-3">
+          <Search className="size-4 shrink-0 text-muted-foreground" />
+          <Input
+            autoFocus
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={t("search.placeholder")}
+            aria-label={t("search.title")}
+            className="h-12 border-0 px-0 shadow-none focus-visible:ring-0"
+          />
+          {isLoading && (
+            <Loader2 className="size-4 shrink-0 animate-spin text-muted-foreground" />
+          )}
+        </div>
+
+        {results.length > 0 ? (
+          <ul role="listbox" className="max-h-[60vh] overflow-y-auto p-2">
+            {results.map((result, index) => {
+              const Icon = RESULT_ICONS[result.type];
+              return (
+                <li
+                  key={`${result.type}-${result.id}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                >
+                  <button
+                    type="button"
+                    onClick={() => openResult(result)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={cn(
+                      "flex w-full items-start gap-3 rounded-md px-3 py-2 text-left",
+                      index === activeIndex && "bg-accent",
+                    )}
+                  >
+                    <Icon className="mt-0.5 size-4 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-baseline gap-2">
+                        <span className="truncate text-sm font-medium">
+                          {result.cardTitle}
+                        </span>
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          {t(`search.types.${result.type}`)} ·{" "}
+                          {t("search.inBoard", { board: result.boardName })}
+                        </span>
+                      </div>
+                      <p className="line-clamp-2 text-xs text-muted-foreground">
+                        <SearchSnippet snippet={result.snippet} />
+                      </p>
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          status && (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">
+              {status}
+            </p>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Global search palette, opened from the sidebar, the top bar or with
+ * Cmd/Ctrl+K.
+ */
+export function SearchPaletteProvider({ children }: { children: ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const openSearch = useCallback(() => setOpen(true), []);
+  const value = useMemo(() => ({ openSearch }), [openSearch]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setOpen((previous) => !previous);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  return (
+    <SearchPaletteContext.Provider value={value}>
+      {children}
+      {open && <SearchPaletteDialog onClose={() => setOpen(false)} />}
+    </SearchPaletteContext.Provider>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import useSWR from "swr";
+import { useRouter } from "next/navigation";
+import { t } from "@/lib/i18n";
+import type { DashboardBoard } from "@/lib/data/dashboard";
+import { TimelineView } from "./TimelineView";
+import type { TimelineCard, TimelineGroup } from "./timeline.utils";
+
+interface GroupTimelineProps {
+  groupId: string;
+  boards: DashboardBoard[];
+  currentUserId: string | null;
+}
+
+/** Timeline of all dated cards across the boards of a group, one row group per board. */
+export function GroupTimeline({
+  groupId,
+  boards,
+  currentUserId,
+}: GroupTimelineProps) {
+  const router = useRouter();
+  const { data, error, isLoading, mutate } = useSWR<{
+    cards: TimelineCard[];
+  }>(`/api/board-groups/${groupId}/timeline`);
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-muted-foreground">{t("timeline.loading")}</p>
+    );
+  }
+  if (error) {
+    return (
+      <p role="alert" className="text-sm text-destructive">
+        {t("timeline.errorLoading")}
+      </p>
+    );
+  }
+
+  const cards = data?.cards ?? [];
+  const groups: TimelineGroup[] = boards
+    .filter((board) => !board.isArchived)
+    .map((board) => ({
+      key: board.id,
+      label: board.name,
+      cards: cards.filter((card) => card.boardId === board.id),
+    }));
+
+  const handleCardChanged = (changed: TimelineCard) => {
+    void mutate(
+      (current) =>
+        current && {
+          cards: current.cards.map((card) =>
+            card.id === changed.id ? changed : card,
+          ),
+        },
+      { revalidate: false },
+    );
+  };
+
+  return (
+    <TimelineView
+      groups={groups}
+      currentUserId={currentUserId}
+      canEditBoard={(boardId) =>
+        boards.find((board) => board.id === boardId)?.role !== "viewer"
+      }
+      onCardOpen={(card) =>
+        router.push(`/boards/${card.boardId}?cardId=${card.id}`)
+      }
+      onCardChanged={handleCardChanged}
+    />
+  );
+}
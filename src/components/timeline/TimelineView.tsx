@@ -0,0 +1,404 @@
+"use client";
+
+import {
+  useRef,
+  useState,
+  type PointerEvent as ReactPointerEvent,
+} from "react";
+import { format } from "date-fns";
+import { de as dateFnsLocale } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { t } from "@/lib/i18n";
+import { getPriorityConfig } from "@/lib/priority-colors";
+import {
+  applyTimelineDrag,
+  dayNumberToDate,
+  getCardSpan,
+  getTimelineRange,
+  planTimelineChange,
+  toDayNumber,
+  type DaySpan,
+  type TimelineCard,
+  type TimelineDragMode,
+  type TimelineGroup,
+} from "./timeline.utils";
+
+const DAY_WIDTH = 28;
+const LABEL_WIDTH = 240;
+const ROW_HEIGHT = 36;
+
+interface TimelineViewProps {
+  groups: TimelineGroup[];
+  currentUserId: string | null;
+  canEditBoard: (boardId: string) => boolean;
+  onCardOpen: (card: TimelineCard) => void;
+  onCardChanged: (card: TimelineCard) => void;
+  /** Cards without start and due date; they have no bar. */
+  unscheduledCount?: number;
+}
+
+type DragState = {
+  card: TimelineCard;
+  mode: TimelineDragMode;
+  span: DaySpan;
+  originX: number;
+  deltaDays: number;
+};
+
+/**
+ * Gantt-style timeline: one bar per card from its start to its due date.
+ * Bars can be dragged to move the range or resized at either edge; due date
+ * changes by anyone but the card creator become deadline suggestions.
+ */
+export function TimelineView({
+  groups,
+  currentUserId,
+  canEditBoard,
+  onCardOpen,
+  onCardChanged,
+  unscheduledCount = 0,
+}: TimelineViewProps) {
+  const [today] = useState(() => toDayNumber(new Date()));
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [pendingSpans, setPendingSpans] = useState<Record<string, DaySpan>>({});
+  const [message, setMessage] = useState<{
+    kind: "error" | "info";
+    text: string;
+  } | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const spans = new Map<string, DaySpan>();
+  groups.forEach((group) =>
+    group.cards.forEach((card) => {
+      const span = pendingSpans[card.id] ?? getCardSpan(card);
+      if (span) spans.set(card.id, span);
+    }),
+  );
+  const range = getTimelineRange([...spans.values()], today);
+  const days = Array.from(
+    { length: range.end - range.start + 1 },
+    (_, index) => range.start + index,
+  );
+  const trackWidth = days.length * DAY_WIDTH;
+
+  const canEditDueDate = (card: TimelineCard) =>
+    !card.createdBy || card.createdBy === currentUserId;
+
+  const clearPending = (cardId: string) =>
+    setPendingSpans((current) => {
+      const next = { ...current };
+      delete next[cardId];
+      return next;
+    });
+
+  const saveChange = async (
+    card: TimelineCard,
+    next: DaySpan,
+    mode: TimelineDragMode,
+  ) => {
+    const plan = planTimelineChange(card, next, mode, canEditDueDate(card));
+    if (!plan.patch && !plan.suggestedDueDate) return;
+
+    setMessage(null);
+    setPendingSpans((current) => ({ ...current, [card.id]: next }));
+    try {
+      if (plan.patch) {
+        const response = await fetch(`/api/cards/${card.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(plan.patch),
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || t("timeline.updateFailed"));
+        }
+        onCardChanged({
+          ...card,
+          startDate: data.card?.startDate ?? null,
+          dueDate: data.card?.dueDate ?? null,
+        });
+      }
+      if (plan.suggestedDueDate) {
+        const response = await fetch(
+          `/api/cards/${card.id}/deadline-requests`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ suggestedDueDate: plan.suggestedDueDate }),
+          },
+        );
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || t("timeline.suggestionFailed"));
+        }
+        setMessage({
+          kind: "info",
+          text: t("timeline.deadlineSuggested", { title: card.title }),
+        });
+      }
+    } catch (error) {
+      console.error("Failed to update card from timeline:", error);
+      setMessage({
+        kind: "error",
+        text:
+          error instanceof Error ? error.message : t("timeline.updateFailed"),
+      });
+    } finally {
+      clearPending(card.id);
+    }
+  };
+
+  const handlePointerDown = (
+    event: ReactPointerEvent<HTMLElement>,
+    card: TimelineCard,
+    mode: TimelineDragMode,
+  ) => {
+    const span = spans.get(card.id);
+    if (!span || event.button !== 0) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const state = { card, mode, span, originX: event.clientX, deltaDays: 0 };
+    dragRef.current = state;
+    setDrag(state);
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLElement>) => {
+    const current = dragRef.current;
+    if (!current) return;
+    const deltaDays = Math.round((event.clientX - current.originX) / DAY_WIDTH);
+    if (deltaDays === current.deltaDays) return;
+    const state = { ...current, deltaDays };
+    dragRef.current = state;
+    setDrag(state);
+  };
+
+  const handlePointerUp = () => {
+    const current = dragRef.current;
+    dragRef.current = null;
+    setDrag(null);
+    if (!current) return;
+
+    if (current.deltaDays === 0) {
+      if (current.mode === "move") onCardOpen(current.card);
+      return;
+    }
+    void saveChange(
+      current.card,
+      applyTimelineDrag(current.span, current.mode, current.deltaDays),
+      current.mode,
+    );
+  };
+
+  const getDisplaySpan = (card: TimelineCard) => {
+    const span = spans.get(card.id);
+    if (!span) return null;
+    return drag?.card.id === card.id
+      ? applyTimelineDrag(drag.span, drag.mode, drag.deltaDays)
+      : span;
+  };
+
+  const totalCards = groups.reduce((sum, group) => sum + group.cards.length, 0);
+
+  return (
+    <div className="flex flex-col gap-3">
+      {message && (
+        <div
+          role={message.kind === "error" ? "alert" : "status"}
+          className={cn(
+            "text-xs",
+            message.kind === "error"
+              ? "text-destructive"
+              : "text-muted-foreground",
+          )}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {totalCards === 0 ? (
+        <p className="p-8 text-center text-sm text-muted-foreground">
+          {t("timeline.empty")}
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border bg-card">
+          <div className="relative" style={{ width: LABEL_WIDTH + trackWidth }}>
+            {/* Header: months and days */}
+            <div className="sticky top-0 z-20 flex border-b bg-card text-[10px] text-muted-foreground">
+              <div
+                className="sticky left-0 z-10 shrink-0 border-r bg-card"
+                style={{ width: LABEL_WIDTH }}
+              />
+              {days.map((day) => {
+                const date = dayNumberToDate(day);
+                const showMonth =
+                  day === range.start || date.getUTCDate() === 1;
+                return (
+                  <div
+                    key={day}
+                    className={cn(
+                      "relative shrink-0 pb-1 pt-4 text-center",
+                      day === today && "font-semibold text-red-600",
+                    )}
+                    style={{ width: DAY_WIDTH }}
+                  >
+                    {showMonth && (
+                      <span className="absolute left-1 top-0.5 whitespace-nowrap font-medium text-foreground">
+                        {format(date, "MMM yyyy", { locale: dateFnsLocale })}
+                      </span>
+                    )}
+                    {date.getUTCDate()}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Weekend shading and today marker */}
+            <div
+              className="pointer-events-none absolute bottom-0 top-0"
+              style={{ left: LABEL_WIDTH, width: trackWidth }}
+              aria-hidden
+            >
+              {days.map((day, index) => {
+                const weekday = dayNumberToDate(day).getUTCDay();
+                return weekday === 0 || weekday === 6 ? (
+                  <div
+                    key={day}
+                    className="absolute bottom-0 top-0 bg-muted/50"
+                    style={{ left: index * DAY_WIDTH, width: DAY_WIDTH }}
+                  />
+                ) : null;
+              })}
+              <div
+                className="absolute bottom-0 top-0 z-10 w-0.5 bg-red-500"
+                style={{
+                  left: (today - range.start) * DAY_WIDTH + DAY_WIDTH / 2,
+                }}
+                title={t("timeline.today")}
+              />
+            </div>
+
+            {groups.map((group) =>
+              group.cards.length === 0 ? null : (
+                <div key={group.key}>
+                  <div className="relative flex border-b bg-muted/30 text-xs font-semibold">
+                    <div
+                      className="sticky left-0 truncate bg-muted/30 px-3 py-1.5"
+                      style={{ width: LABEL_WIDTH }}
+                    >
+                      {group.label}
+                    </div>
+                  </div>
+                  {group.cards.map((card) => {
+                    const span = getDisplaySpan(card);
+                    const editable = canEditBoard(card.boardId);
+                    const color = getPriorityConfig(card.priority).color;
+                    return (
+                      <div
+                        key={card.id}
+                        className="relative flex border-b last:border-0"
+                        style={{ height: ROW_HEIGHT }}
+                      >
+                        <button
+                          type="button"
+                          onClick={() => onCardOpen(card)}
+                          className="sticky left-0 z-10 flex shrink-0 flex-col justify-center border-r bg-card px-3 text-left hover:bg-accent"
+                          style={{ width: LABEL_WIDTH }}
+                        >
+                          <span
+                            className={cn(
+                              "truncate text-xs font-medium",
+                              card.completedAt &&
+                                "text-muted-foreground line-through",
+                            )}
+                          >
+                            {card.title}
+                          </span>
+                          <span className="truncate text-[10px] text-muted-foreground">
+                            {card.columnTitle}
+                          </span>
+                        </button>
+                        {span && (
+                          <div
+                            role="button"
+                            tabIndex={0}
+                            aria-label={t("timeline.barLabel", {
+                              title: card.title,
+                              start: format(
+                                dayNumberToDate(span.start),
+                                "d. MMM",
+                                { locale: dateFnsLocale },
+                              ),
+                              end: format(dayNumberToDate(span.end), "d. MMM", {
+                                locale: dateFnsLocale,
+                              }),
+                            })}
+                            onKeyDown={(event) => {
+                              if (event.key === "Enter") onCardOpen(card);
+                            }}
+                            onPointerDown={
+                              editable
+                                ? (event) =>
+                                    handlePointerDown(event, card, "move")
+                                : undefined
+                            }
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                            onClick={
+                              editable ? undefined : () => onCardOpen(card)
+                            }
+                            className={cn(
+                              "absolute top-1.5 z-10 flex h-6 touch-none select-none items-center overflow-hidden rounded-md border px-2 text-[11px] font-medium text-white shadow-sm",
+                              editable ? "cursor-grab" : "cursor-pointer",
+                              drag?.card.id === card.id && "cursor-grabbing",
+                              card.completedAt && "opacity-50",
+                              pendingSpans[card.id] && "animate-pulse",
+                            )}
+                            style={{
+                              left:
+                                LABEL_WIDTH +
+                                (span.start - range.start) * DAY_WIDTH +
+                                2,
+                              width:
+                                (span.end - span.start + 1) * DAY_WIDTH - 4,
+                              backgroundColor: color,
+                              borderColor: color,
+                            }}
+                          >
+                            {editable && (
+                              <span
+                                className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize"
+                                onPointerDown={(event) =>
+                                  handlePointerDown(event, card, "start")
+                                }
+                              />
+                            )}
+                            <span className="truncate">{card.title}</span>
+                            {editable && (
+                              <span
+                                className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize"
+                                onPointerDown={(event) =>
+                                  handlePointerDown(event, card, "end")
+                                }
+                              />
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ),
+            )}
+          </div>
+        </div>
+      )}
+
+      {unscheduledCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {t("timeline.unscheduled", { count: unscheduledCount })}
+        </p>
+      )}
+    </div>
+  );
+}
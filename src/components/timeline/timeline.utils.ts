@@ -0,0 +1,178 @@
+import type { TimelineCard } from "@/app/api/board-groups/[id]/timeline/route";
+import type { BoardWithDetails } from "@/types/database";
+
+export type { TimelineCard };
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_VISIBLE_DAYS = 28;
+const RANGE_PADDING_DAYS = 7;
+
+/** Inclusive range of UTC day numbers (days since 1970-01-01). */
+export interface DaySpan {
+  start: number;
+  end: number;
+}
+
+export type TimelineDragMode = "move" | "start" | "end";
+
+export interface TimelineGroup {
+  key: string;
+  label: string;
+  cards: TimelineCard[];
+}
+
+export function toDayNumber(value: Date | string): number {
+  const time = value instanceof Date ? value.getTime() : Date.parse(value);
+  return Math.floor(time / DAY_MS);
+}
+
+export function dayNumberToDate(day: number): Date {
+  return new Date(day * DAY_MS);
+}
+
+/**
+ * The days a card covers. A card with only a due date (or only a start date)
+ * is a single day; a start after the due date (possible after an approved
+ * deadline request) collapses onto the due date. Null without any date.
+ */
+export function getCardSpan(
+  card: Pick<TimelineCard, "startDate" | "dueDate">,
+): DaySpan | null {
+  const start = card.startDate ? toDayNumber(card.startDate) : null;
+  const end = card.dueDate ? toDayNumber(card.dueDate) : null;
+  if (start === null && end === null) return null;
+  const last = end ?? start!;
+  return { start: Math.min(start ?? last, last), end: last };
+}
+
+/**
+ * Visible day range: every card plus today, padded by a week on both sides
+ * and at least four weeks wide.
+ */
+export function getTimelineRange(spans: DaySpan[], today: number): DaySpan {
+  const start =
+    Math.min(today, ...spans.map((span) => span.start)) - RANGE_PADDING_DAYS;
+  const end = Math.max(
+    Math.max(today, ...spans.map((span) => span.end)) + RANGE_PADDING_DAYS,
+    start + MIN_VISIBLE_DAYS - 1,
+  );
+  return { start, end };
+}
+
+/** Span after dragging the bar or one of its edges by `deltaDays`. */
+export function applyTimelineDrag(
+  span: DaySpan,
+  mode: TimelineDragMode,
+  deltaDays: number,
+): DaySpan {
+  switch (mode) {
+    case "move":
+      return { start: span.start + deltaDays, end: span.end + deltaDays };
+    case "start":
+      return {
+        start: Math.min(span.start + deltaDays, span.end),
+        end: span.end,
+      };
+    case "end":
+      return {
+        start: span.start,
+        end: Math.max(span.end + deltaDays, span.start),
+      };
+  }
+}
+
+const startOfDayIso = (day: number) => dayNumberToDate(day).toISOString();
+const endOfDayIso = (day: number) =>
+  new Date((day + 1) * DAY_MS - 1).toISOString();
+
+export interface TimelineChangePlan {
+  /** Fields to send to PATCH /api/cards/:id, or null when nothing changes. */
+  patch: { startDate?: string; dueDate?: string } | null;
+  /** Due date to propose through the deadline request flow instead. */
+  suggestedDueDate: string | null;
+}
+
+/**
+ * Turn a drag into API calls. Only dates the card already has (or the edge
+ * that was dragged) are written, so moving a card with just a due date does
+ * not invent a start date. Users who may not change the due date directly
+ * get a deadline suggestion instead; their start date is only saved when it
+ * still fits before the current due date.
+ */
+export function planTimelineChange(
+  card: Pick<TimelineCard, "startDate" | "dueDate">,
+  next: DaySpan,
+  mode: TimelineDragMode,
+  canEditDueDate: boolean,
+): TimelineChangePlan {
+  const current = getCardSpan(card);
+  if (!current) return { patch: null, suggestedDueDate: null };
+
+  const patch: { startDate?: string; dueDate?: string } = {};
+  let suggestedDueDate: string | null = null;
+
+  const writesStart =
+    next.start !== current.start &&
+    (Boolean(card.startDate) || mode === "start");
+  const writesDue =
+    next.end !== current.end && (Boolean(card.dueDate) || mode === "end");
+
+  if (writesDue) {
+    if (canEditDueDate) patch.dueDate = endOfDayIso(next.end);
+    else suggestedDueDate = endOfDayIso(next.end);
+  }
+  if (writesStart) {
+    const dueLimit = patch.dueDate ? next.end : current.end;
+    if (canEditDueDate || !card.dueDate || next.start <= dueLimit) {
+      patch.startDate = startOfDayIso(next.start);
+    }
+  }
+
+  return {
+    patch: Object.keys(patch).length > 0 ? patch : null,
+    suggestedDueDate,
+  };
+}
+
+type BoardTimelineColumn = BoardWithDetails["columns"][number];
+type BoardTimelineCard = BoardTimelineColumn["cards"][number];
+
+const toIsoOrNull = (value: Date | string | null | undefined) =>
+  value ? new Date(value).toISOString() : null;
+
+/**
+ * One timeline group per board column, in board order, from the filtered
+ * cards. Cards without any date are left out and only counted.
+ */
+export function buildBoardTimelineGroups(
+  board: Pick<BoardWithDetails, "id" | "name" | "columns">,
+  cardsByColumn: Record<number, BoardTimelineCard[]>,
+): { groups: TimelineGroup[]; unscheduledCount: number } {
+  let unscheduledCount = 0;
+  const groups = [...board.columns]
+    .sort((a, b) => a.position - b.position)
+    .map((column) => {
+      const cards: TimelineCard[] = [];
+      (cardsByColumn[column.id] ?? []).forEach((card) => {
+        if (!card.startDate && !card.dueDate) {
+          unscheduledCount += 1;
+          return;
+        }
+        cards.push({
+          id: card.id,
+          title: card.title,
+          priority: card.priority,
+          startDate: toIsoOrNull(card.startDate),
+          dueDate: toIsoOrNull(card.dueDate),
+          completedAt: toIsoOrNull(card.completedAt),
+          createdBy: card.createdBy,
+          boardId: board.id,
+          boardName: board.name,
+          columnId: column.id,
+          columnTitle: column.title,
+        });
+      });
+      return { key: String(column.id), label: column.title, cards };
+    });
+  return { groups, unscheduledCount };
+}
@@ -0,0 +1,49 @@
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getLabelTextColor, normalizeLabelColor } from "@/lib/label-colors";
+import { t } from "@/lib/i18n";
+
+interface LabelChipProps {
+  name: string;
+  color: string | null | undefined;
+  size?: "sm" | "md";
+  onRemove?: (() => void) | undefined;
+  className?: string;
+}
+
+export function LabelChip({
+  name,
+  color,
+  size = "sm",
+  onRemove,
+  className,
+}: LabelChipProps) {
+  const background = normalizeLabelColor(color);
+
+  return (
+    <span
+      className={cn(
+        "inline-flex max-w-full items-center gap-1 rounded-full font-medium",
+        size === "sm" ? "px-2 py-0.5 text-[10px]" : "px-2.5 py-1 text-xs",
+        className,
+      )}
+      style={{ backgroundColor: background, color: getLabelTextColor(color) }}
+      title={name}
+    >
+      <span className="truncate">{name}</span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="shrink-0 rounded-full p-0.5 hover:bg-black/15 cursor-pointer"
+          aria-label={t("labels.removeLabel", { name })}
+        >
+          <X className="h-2.5 w-2.5" />
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,35 @@
+-- Migration 45: wire card labels end-to-end.
+--
+-- labels / card_labels have existed since migration 06 and were re-policed in
+-- migration 44, but nothing attached labels to cards. The board UI now renders
+-- label chips and keeps them in sync via Supabase Realtime, so both tables
+-- join the supabase_realtime publication (same pattern as migration 17).
+--
+-- card_labels has no board_id column, so the client subscribes without a
+-- filter and drops events for cards it does not know about. The composite
+-- primary key (card_id, label_id) is enough for DELETE payloads — no
+-- REPLICA IDENTITY FULL needed.
+
+CREATE INDEX IF NOT EXISTS card_labels_label_id_idx
+  ON public.card_labels(label_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'labels'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.labels;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'card_labels'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.card_labels;
+  END IF;
+END $$;
@@ -0,0 +1,37 @@
+-- Migration 46: scoped, board-restricted and expiring API tokens.
+--
+-- Until now every avk_ token carried the full rights of its owner and only
+-- revoked_at could stop it. Three optional restrictions are added:
+--   scopes     — allowed scopes (boards:read, boards:write, cards:read,
+--                cards:write, changesets:write). NULL = full access, which
+--                keeps every existing token working unchanged.
+--   board_ids  — boards the token may touch. NULL = all boards of the owner.
+--   expires_at — after this instant the token is rejected like a revoked one.
+-- Enforcement happens in the API layer (authenticateBearerToken /
+-- getAuthorizedUser / board-access); RLS still applies underneath.
+
+ALTER TABLE public.api_tokens
+  ADD COLUMN IF NOT EXISTS scopes     TEXT[],
+  ADD COLUMN IF NOT EXISTS board_ids  UUID[],
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'api_tokens_scopes_check'
+  ) THEN
+    ALTER TABLE public.api_tokens
+      ADD CONSTRAINT api_tokens_scopes_check CHECK (
+        scopes IS NULL OR (
+          cardinality(scopes) > 0 AND
+          scopes <@ ARRAY[
+            'boards:read',
+            'boards:write',
+            'cards:read',
+            'cards:write',
+            'changesets:write'
+          ]::TEXT[]
+        )
+      );
+  END IF;
+END $$;
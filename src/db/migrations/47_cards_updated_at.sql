@@ -0,0 +1,33 @@
+-- Migration 47: cards.updated_at for the card read API.
+--
+-- GET /api/cards supports `updatedSince` so API clients can poll for changes.
+-- Cards had no modification timestamp, so one is added here and kept current
+-- by a BEFORE UPDATE trigger. Existing rows are backfilled from created_at.
+-- The (created_at, id) index backs the keyset pagination of GET /api/cards.
+
+ALTER TABLE public.cards
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+
+UPDATE public.cards SET updated_at = created_at WHERE updated_at IS NULL;
+
+ALTER TABLE public.cards
+  ALTER COLUMN updated_at SET DEFAULT NOW(),
+  ALTER COLUMN updated_at SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.touch_card_updated_at() RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public, pg_catalog;
+
+DROP TRIGGER IF EXISTS cards_touch_updated_at ON public.cards;
+CREATE TRIGGER cards_touch_updated_at
+  BEFORE UPDATE ON public.cards
+  FOR EACH ROW EXECUTE FUNCTION public.touch_card_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_cards_created_at_id
+  ON public.cards (created_at, id);
+CREATE INDEX IF NOT EXISTS idx_cards_updated_at
+  ON public.cards (updated_at);
@@ -0,0 +1,66 @@
+-- Migration 49: outgoing webhooks for board events.
+--
+-- board_webhooks holds one subscription per row: target URL, signing secret
+-- and the event types it wants (card.created, card.moved, card.completed,
+-- comment.created, deadline.changed). Owners and admins manage them through
+-- /api/boards/[id]/webhooks; the routes check the role and then use the
+-- service role, so neither table has user-facing policies. The secret never
+-- leaves the server after creation.
+--
+-- webhook_deliveries is the delivery log and the retry queue at the same
+-- time: a row is pending until the receiver answers 2xx (succeeded) or the
+-- attempt budget is spent (failed). next_attempt_at drives the exponential
+-- backoff; pending rows that are due are picked up again by the server.
+
+CREATE TABLE IF NOT EXISTS public.board_webhooks (
+  id          UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  board_id    UUID         NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+  url         TEXT         NOT NULL,
+  secret      TEXT         NOT NULL,
+  event_types TEXT[]       NOT NULL,
+  is_active   BOOLEAN      NOT NULL DEFAULT TRUE,
+  created_by  TEXT         REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  CONSTRAINT board_webhooks_event_types_check CHECK (
+    cardinality(event_types) > 0 AND
+    event_types <@ ARRAY[
+      'card.created',
+      'card.moved',
+      'card.completed',
+      'comment.created',
+      'deadline.changed'
+    ]::text[]
+  )
+);
+
+CREATE INDEX IF NOT EXISTS board_webhooks_board_id_idx
+  ON public.board_webhooks (board_id)
+  WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id               UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id       UUID         NOT NULL REFERENCES public.board_webhooks(id) ON DELETE CASCADE,
+  event_type       TEXT         NOT NULL,
+  payload          JSONB        NOT NULL,
+  status           TEXT         NOT NULL DEFAULT 'pending'
+                   CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts         INTEGER      NOT NULL DEFAULT 0,
+  last_status_code INTEGER,
+  last_error       TEXT,
+  next_attempt_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  created_at       TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  delivered_at     TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_id_idx
+  ON public.webhook_deliveries (webhook_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx
+  ON public.webhook_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.board_webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Server-side only — no user-facing policies; service role bypasses.
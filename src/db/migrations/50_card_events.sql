@@ -0,0 +1,53 @@
+-- Migration 50: card activity history.
+--
+-- One row per change to a card: field edits (title, description, assignee,
+-- priority, due date), column moves, completion, subtask and attachment
+-- changes. before / after hold the old and new value as JSON (null when the
+-- event has no "before", e.g. subtask_added). Rows are written by the API
+-- routes with the service role after the mutation succeeded, so there are no
+-- INSERT/UPDATE policies; board members can read the history of their cards.
+--
+-- board_id is denormalised from the card so the SELECT policy and the
+-- activity queries don't need a join.
+
+CREATE TABLE IF NOT EXISTS public.card_events (
+  id          UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_id     UUID         NOT NULL REFERENCES public.cards(id) ON DELETE CASCADE,
+  board_id    UUID         NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+  actor_id    TEXT         REFERENCES public.users(id) ON DELETE SET NULL,
+  event_type  TEXT         NOT NULL CHECK (event_type IN (
+                'title_changed',
+                'description_changed',
+                'assignee_changed',
+                'priority_changed',
+                'due_date_changed',
+                'moved',
+                'completed',
+                'reopened',
+                'subtask_added',
+                'subtask_renamed',
+                'subtask_completed',
+                'subtask_reopened',
+                'subtask_deleted',
+                'attachment_added',
+                'attachment_deleted'
+              )),
+  before      JSONB,
+  after       JSONB,
+  created_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS card_events_card_id_idx
+  ON public.card_events (card_id, created_at);
+
+ALTER TABLE public.card_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Board members can view card events"
+  ON public.card_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.board_members bm
+      WHERE bm.board_id = card_events.board_id
+        AND bm.user_id = auth.uid()::text
+    )
+  );
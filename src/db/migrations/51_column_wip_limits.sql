@@ -0,0 +1,11 @@
+-- Migration 51: work-in-progress limits per column.
+--
+-- wip_limit is the maximum number of cards a column should hold; NULL means
+-- no limit. By default the limit is advisory (the board shows a warning when
+-- it is exceeded). With wip_limit_hard = true, moves that would push the
+-- column over its limit are rejected by POST /api/cards/bulk-update.
+
+ALTER TABLE public.columns
+  ADD COLUMN IF NOT EXISTS wip_limit INTEGER
+    CHECK (wip_limit IS NULL OR wip_limit > 0),
+  ADD COLUMN IF NOT EXISTS wip_limit_hard BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,122 @@
+-- Migration 52: full-text search over cards, comments and subtasks.
+--
+-- Each searchable table gets a stored search_vector combining the German and
+-- English dictionaries (the app is used in both languages), backed by a GIN
+-- index. Card titles are weighted above descriptions.
+--
+-- search_board_content() runs as SECURITY INVOKER, so the existing RLS
+-- policies on cards / comments / card_subtasks limit hits to boards the
+-- caller is a member of. p_query is a to_tsquery expression built by the
+-- API route (prefix terms joined with &); it is applied with both
+-- dictionaries and OR-ed. Deleted comments and subtasks and archived boards
+-- are excluded. Snippets are highlighted with <mark>…</mark>.
+
+ALTER TABLE public.cards
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('german'::regconfig, coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('german'::regconfig, coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B')
+  ) STORED;
+
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('german'::regconfig, coalesce(body, '')) ||
+    to_tsvector('english'::regconfig, coalesce(body, ''))
+  ) STORED;
+
+ALTER TABLE public.card_subtasks
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('german'::regconfig, coalesce(title, '')) ||
+    to_tsvector('english'::regconfig, coalesce(title, ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_cards_search_vector
+  ON public.cards USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_comments_search_vector
+  ON public.comments USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_card_subtasks_search_vector
+  ON public.card_subtasks USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION public.search_board_content(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  result_type TEXT,
+  result_id   UUID,
+  card_id     UUID,
+  board_id    UUID,
+  board_name  TEXT,
+  card_title  TEXT,
+  snippet     TEXT,
+  rank        REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_catalog
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('german'::regconfig, p_query) ||
+           to_tsquery('english'::regconfig, p_query) AS query
+  ),
+  hits AS (
+    SELECT 'card'::text AS result_type,
+           c.id AS result_id,
+           c.id AS card_id,
+           c.board_id,
+           c.title::text AS card_title,
+           coalesce(c.description, c.title)::text AS body,
+           ts_rank(c.search_vector, q.query) AS rank
+      FROM public.cards c, q
+     WHERE c.search_vector @@ q.query
+    UNION ALL
+    SELECT 'comment'::text,
+           cm.id,
+           cm.card_id,
+           c.board_id,
+           c.title::text,
+           cm.body,
+           ts_rank(cm.search_vector, q.query)
+      FROM public.comments cm
+      JOIN public.cards c ON c.id = cm.card_id, q
+     WHERE cm.deleted_at IS NULL
+       AND cm.search_vector @@ q.query
+    UNION ALL
+    SELECT 'subtask'::text,
+           s.id,
+           s.card_id,
+           c.board_id,
+           c.title::text,
+           s.title::text,
+           ts_rank(s.search_vector, q.query)
+      FROM public.card_subtasks s
+      JOIN public.cards c ON c.id = s.card_id, q
+     WHERE s.deleted_at IS NULL
+       AND s.search_vector @@ q.query
+  )
+  SELECT h.result_type,
+         h.result_id,
+         h.card_id,
+         h.board_id,
+         b.name::text,
+         h.card_title,
+         ts_headline(
+           'german'::regconfig,
+           h.body,
+           q.query,
+           'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=1'
+         ),
+         h.rank
+    FROM hits h
+    JOIN public.boards b ON b.id = h.board_id, q
+   WHERE NOT b.is_archived
+   ORDER BY h.rank DESC, h.card_title
+   LIMIT LEAST(GREATEST(coalesce(p_limit, 20), 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_board_content(TEXT, INTEGER) TO authenticated;
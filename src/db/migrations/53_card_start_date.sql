@@ -0,0 +1,36 @@
+-- Migration 53: optional start date on cards for the timeline view.
+--
+-- start_date plans a range together with due_date; both stay optional. The
+-- API rejects a start after the due date, but there is no CHECK constraint:
+-- an approved deadline request may move the due date before the start, and
+-- must not fail because of it. Unlike due_date, start_date is not guarded by
+-- the creator-only deadline rule: any member who may edit the card can change
+-- it.
+--
+-- card_events gets a start_date_changed event type so the card history shows
+-- these edits next to due date changes.
+
+ALTER TABLE public.cards
+  ADD COLUMN IF NOT EXISTS start_date TIMESTAMPTZ;
+
+ALTER TABLE public.card_events
+  DROP CONSTRAINT IF EXISTS card_events_event_type_check;
+ALTER TABLE public.card_events
+  ADD CONSTRAINT card_events_event_type_check CHECK (event_type IN (
+    'title_changed',
+    'description_changed',
+    'assignee_changed',
+    'priority_changed',
+    'due_date_changed',
+    'start_date_changed',
+    'moved',
+    'completed',
+    'reopened',
+    'subtask_added',
+    'subtask_renamed',
+    'subtask_completed',
+    'subtask_reopened',
+    'subtask_deleted',
+    'attachment_added',
+    'attachment_deleted'
+  ));
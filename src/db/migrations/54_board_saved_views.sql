@@ -0,0 +1,57 @@
+-- Migration 54: named, saved filter views per board.
+--
+-- A saved view stores the board filters (priority, assignee, label, due
+-- date, text search, sort) as JSON plus the view mode (board, table,
+-- timeline). Views are private to their creator unless is_shared is set,
+-- in which case every member of the board can select them. Only the creator
+-- can change or delete a view; the API validates the filters JSON, so the
+-- table does not constrain its shape.
+
+CREATE TABLE IF NOT EXISTS public.board_saved_views (
+  id          UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  board_id    UUID         NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+  name        TEXT         NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  is_shared   BOOLEAN      NOT NULL DEFAULT FALSE,
+  filters     JSONB        NOT NULL DEFAULT '{}'::jsonb,
+  view_mode   TEXT         NOT NULL DEFAULT 'board'
+              CHECK (view_mode IN ('board', 'table', 'timeline')),
+  created_by  TEXT         NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS board_saved_views_board_id_idx
+  ON public.board_saved_views (board_id, name);
+
+ALTER TABLE public.board_saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view own and shared saved views"
+  ON public.board_saved_views FOR SELECT
+  USING (
+    (is_shared OR created_by = auth.uid()::text)
+    AND EXISTS (
+      SELECT 1 FROM public.board_members bm
+      WHERE bm.board_id = board_saved_views.board_id
+        AND bm.user_id = auth.uid()::text
+    )
+  );
+
+CREATE POLICY "Members can create their own saved views"
+  ON public.board_saved_views FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM public.board_members bm
+      WHERE bm.board_id = board_saved_views.board_id
+        AND bm.user_id = auth.uid()::text
+    )
+  );
+
+CREATE POLICY "Creators can update their saved views"
+  ON public.board_saved_views FOR UPDATE
+  USING (created_by = auth.uid()::text)
+  WITH CHECK (created_by = auth.uid()::text);
+
+CREATE POLICY "Creators can delete their saved views"
+  ON public.board_saved_views FOR DELETE
+  USING (created_by = auth.uid()::text);
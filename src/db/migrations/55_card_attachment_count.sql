@@ -0,0 +1,60 @@
+-- Migration 55: cards.attachment_count for the card query language.
+--
+-- Attachments only exist as objects in the card-attachments storage bucket
+-- (path {cardId}/{file}), so "has:attachments" could not be answered without
+-- listing storage per card. The count is kept on the card instead: an AFTER
+-- INSERT/DELETE trigger on storage.objects adjusts it, and existing objects
+-- are counted once here. The trigger runs as SECURITY DEFINER because the
+-- uploading member's role may not update every card column under RLS.
+
+ALTER TABLE public.cards
+  ADD COLUMN IF NOT EXISTS attachment_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.cards c
+SET attachment_count = counts.total
+FROM (
+  SELECT split_part(name, '/', 1)::uuid AS card_id, COUNT(*)::integer AS total
+  FROM storage.objects
+  WHERE bucket_id = 'card-attachments'
+    AND split_part(name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  GROUP BY 1
+) counts
+WHERE c.id = counts.card_id;
+
+CREATE OR REPLACE FUNCTION public.sync_card_attachment_count() RETURNS TRIGGER AS $$
+DECLARE
+  object_row storage.objects%ROWTYPE;
+  card_ref TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    object_row := NEW;
+  ELSE
+    object_row := OLD;
+  END IF;
+
+  IF object_row.bucket_id <> 'card-attachments' THEN
+    RETURN NULL;
+  END IF;
+
+  card_ref := split_part(object_row.name, '/', 1);
+  IF card_ref !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.cards
+  SET attachment_count = GREATEST(
+    attachment_count + CASE WHEN TG_OP = 'INSERT' THEN 1 ELSE -1 END,
+    0
+  )
+  WHERE id = card_ref::uuid;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog;
+
+DROP TRIGGER IF EXISTS storage_objects_card_attachment_count ON storage.objects;
+CREATE TRIGGER storage_objects_card_attachment_count
+  AFTER INSERT OR DELETE ON storage.objects
+  FOR EACH ROW EXECUTE FUNCTION public.sync_card_attachment_count();
@@ -0,0 +1,24 @@
+-- Migration 56: recurring cards.
+--
+-- recurrence_rule holds a subset of RFC 5545 RRULE (FREQ=DAILY|WEEKLY|MONTHLY
+-- with INTERVAL, BYDAY, BYMONTHDAY and UNTIL), validated and normalised by
+-- the API. When a card with a rule is completed, the API creates the next
+-- instance in recurrence_column_id (or the board's first open column when it
+-- is null or the column was deleted) with the next due date, the labels and
+-- the subtasks of the completed card.
+--
+-- recurrence_source_id points from an instance back to the card it was
+-- created from. The partial unique index makes the spawn idempotent: a card
+-- that is reopened and completed again, or completed by two requests at
+-- once, still gets exactly one follow-up card.
+
+ALTER TABLE public.cards
+  ADD COLUMN IF NOT EXISTS recurrence_rule TEXT,
+  ADD COLUMN IF NOT EXISTS recurrence_column_id INTEGER
+    REFERENCES public.columns(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recurrence_source_id UUID
+    REFERENCES public.cards(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS cards_recurrence_source_id_key
+  ON public.cards (recurrence_source_id)
+  WHERE recurrence_source_id IS NOT NULL;
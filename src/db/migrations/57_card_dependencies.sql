@@ -0,0 +1,72 @@
+-- Migration 57: card dependencies ("blocks" / "blocked by").
+--
+-- A row says that blocker_card_id has to be completed before
+-- blocked_card_id. Both cards may live on different boards; a link is
+-- visible to users who can see both cards, and can be created or removed by
+-- users who can see both and edit at least one of them. The API rejects
+-- links that would close a cycle (A blocks B blocks ... blocks A).
+--
+-- boards.enforce_dependencies turns the warning shown when a card with open
+-- blockers is moved into a done column into a hard stop for that board.
+
+CREATE TABLE IF NOT EXISTS public.card_dependencies (
+  id               UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  blocker_card_id  UUID         NOT NULL REFERENCES public.cards(id) ON DELETE CASCADE,
+  blocked_card_id  UUID         NOT NULL REFERENCES public.cards(id) ON DELETE CASCADE,
+  created_by       TEXT         REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at       TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  CONSTRAINT card_dependencies_unique UNIQUE (blocker_card_id, blocked_card_id),
+  CONSTRAINT card_dependencies_not_self CHECK (blocker_card_id <> blocked_card_id)
+);
+
+CREATE INDEX IF NOT EXISTS card_dependencies_blocked_card_id_idx
+  ON public.card_dependencies (blocked_card_id);
+
+ALTER TABLE public.card_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view dependencies between visible cards"
+  ON public.card_dependencies FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.cards blocker, public.cards blocked
+      WHERE blocker.id = card_dependencies.blocker_card_id
+        AND blocked.id = card_dependencies.blocked_card_id
+        AND is_board_member(auth.uid()::text, blocker.board_id::text, 'viewer')
+        AND is_board_member(auth.uid()::text, blocked.board_id::text, 'viewer')
+    )
+  );
+
+CREATE POLICY "Members can link cards they can edit"
+  ON public.card_dependencies FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.cards blocker, public.cards blocked
+      WHERE blocker.id = card_dependencies.blocker_card_id
+        AND blocked.id = card_dependencies.blocked_card_id
+        AND is_board_member(auth.uid()::text, blocker.board_id::text, 'viewer')
+        AND is_board_member(auth.uid()::text, blocked.board_id::text, 'viewer')
+        AND (
+          is_board_member(auth.uid()::text, blocker.board_id::text, 'member')
+          OR is_board_member(auth.uid()::text, blocked.board_id::text, 'member')
+        )
+    )
+  );
+
+CREATE POLICY "Members can unlink cards they can edit"
+  ON public.card_dependencies FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.cards blocker, public.cards blocked
+      WHERE blocker.id = card_dependencies.blocker_card_id
+        AND blocked.id = card_dependencies.blocked_card_id
+        AND is_board_member(auth.uid()::text, blocker.board_id::text, 'viewer')
+        AND is_board_member(auth.uid()::text, blocked.board_id::text, 'viewer')
+        AND (
+          is_board_member(auth.uid()::text, blocker.board_id::text, 'member')
+          OR is_board_member(auth.uid()::text, blocked.board_id::text, 'member')
+        )
+    )
+  );
+
+ALTER TABLE public.boards
+  ADD COLUMN IF NOT EXISTS enforce_dependencies BOOLEAN NOT NULL DEFAULT FALSE;
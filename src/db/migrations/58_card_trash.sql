@@ -0,0 +1,39 @@
+-- Migration 58: card trash.
+--
+-- Deleting a card now moves it to the board's trash: deleted_at / deleted_by
+-- are set and the row, its comments, subtasks, labels and attachments stay
+-- in place. Owners and admins can list the trash and restore a card to its
+-- original column and position. The server purges cards whose deleted_at is
+-- older than the board's trash_retention_days for good, attachments
+-- included.
+--
+-- The read policy on cards now skips trashed rows, so every query made with
+-- a user's client (board view, search, calendar, exports, and the policies
+-- of comments / subtasks that look up their card) treats them as gone.
+-- Trash listing, restore and purge run with the service role after the API
+-- has checked the caller's board role.
+
+ALTER TABLE public.cards
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by TEXT
+    REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS cards_board_id_deleted_at_idx
+  ON public.cards (board_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE public.boards
+  ADD COLUMN IF NOT EXISTS trash_retention_days INTEGER NOT NULL DEFAULT 30;
+
+ALTER TABLE public.boards
+  DROP CONSTRAINT IF EXISTS boards_trash_retention_days_check;
+ALTER TABLE public.boards
+  ADD CONSTRAINT boards_trash_retention_days_check
+  CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+DROP POLICY IF EXISTS "Users can read cards" ON public.cards;
+CREATE POLICY "Users can read cards" ON public.cards
+  FOR SELECT USING (
+    deleted_at IS NULL
+    AND is_board_member(auth.uid()::text, board_id::text, 'viewer')
+  );
@@ -0,0 +1,81 @@
+-- Migration 59: threaded comment replies and emoji reactions.
+--
+-- comments.parent_id points at the comment a reply answers. Replies to
+-- replies keep pointing at their direct parent; the UI folds every reply
+-- into the thread of its top-level comment. The body limit moves from 1000
+-- (API only) to 10000 characters, now also enforced here.
+--
+-- comment_reactions holds one row per (comment, user, emoji); reacting
+-- again with the same emoji removes the row. Board members who can comment
+-- can react, everyone who can read the comment can see the reactions.
+--
+-- comment_reply notifies the author of the parent comment.
+
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS comments_parent_id_idx
+  ON public.comments (parent_id)
+  WHERE parent_id IS NOT NULL;
+
+-- safe: existing bodies were capped at 1000 characters by the API
+ALTER TABLE public.comments
+  DROP CONSTRAINT IF EXISTS comments_body_length_check;
+
+ALTER TABLE public.comments
+  ADD CONSTRAINT comments_body_length_check CHECK (char_length(body) <= 10000);
+
+CREATE TABLE IF NOT EXISTS public.comment_reactions (
+  comment_id  UUID         NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id     TEXT         NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  emoji       TEXT         NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (comment_id, user_id, emoji)
+);
+
+ALTER TABLE public.comment_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view reactions on visible comments"
+  ON public.comment_reactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.comments
+      JOIN public.cards ON cards.id = comments.card_id
+      WHERE comments.id = comment_reactions.comment_id
+        AND is_board_member(auth.uid()::text, cards.board_id::text, 'viewer')
+    )
+  );
+
+CREATE POLICY "Members can add their own reactions"
+  ON public.comment_reactions FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM public.comments
+      JOIN public.cards ON cards.id = comments.card_id
+      WHERE comments.id = comment_reactions.comment_id
+        AND is_board_member(auth.uid()::text, cards.board_id::text, 'member')
+    )
+  );
+
+CREATE POLICY "Users can remove their own reactions"
+  ON public.comment_reactions FOR DELETE
+  USING (user_id = auth.uid()::text);
+
+-- safe: expanding CHECK constraint; existing rows are unaffected
+ALTER TABLE public.notifications
+  DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+-- safe: expanding CHECK constraint; existing rows are unaffected
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'mention',
+    'comment_on_assigned',
+    'deadline_change',
+    'file_upload',
+    'card_assigned',
+    'board_member_added',
+    'card_completed',
+    'card_moved',
+    'comment_reply'
+  ));
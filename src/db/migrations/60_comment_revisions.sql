@@ -0,0 +1,59 @@
+-- Migration 60: comment edit history.
+--
+-- Migration 16 added comments.edited_at, but the previous text was lost on
+-- every edit. comment_revisions now keeps one row per edit: the body as it
+-- was before the edit, who made the edit and when. Rows are written by a
+-- BEFORE UPDATE trigger on comments, so every path that changes a body is
+-- covered; the trigger runs as SECURITY DEFINER because clients get no
+-- insert policy on the table.
+--
+-- Everyone who can read a comment can read its history, except for
+-- soft-deleted comments: their revisions are limited to board admins and
+-- owners, matching the API, which only returns a deleted comment's body to
+-- them.
+
+CREATE TABLE IF NOT EXISTS public.comment_revisions (
+  id          UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id  UUID         NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  editor_id   TEXT         REFERENCES public.users(id) ON DELETE SET NULL,
+  body        TEXT         NOT NULL,
+  created_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS comment_revisions_comment_id_idx
+  ON public.comment_revisions (comment_id, created_at DESC);
+
+ALTER TABLE public.comment_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view revisions of visible comments"
+  ON public.comment_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.comments
+      JOIN public.cards ON cards.id = comments.card_id
+      WHERE comments.id = comment_revisions.comment_id
+        AND is_board_member(auth.uid()::text, cards.board_id::text, 'viewer')
+        AND (
+          comments.deleted_at IS NULL
+          OR is_board_member(auth.uid()::text, cards.board_id::text, 'admin')
+        )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.record_comment_revision() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    INSERT INTO public.comment_revisions (comment_id, editor_id, body)
+    VALUES (OLD.id, COALESCE(auth.uid()::text, NEW.author_id), OLD.body);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog;
+
+DROP TRIGGER IF EXISTS comments_record_revision ON public.comments;
+CREATE TRIGGER comments_record_revision
+  BEFORE UPDATE OF body ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.record_comment_revision();
@@ -0,0 +1,91 @@
+-- Migration 61: watchers.
+--
+-- Until now notifications only reached a card's assignee and mentioned
+-- users. A watchers row subscribes a user to a card (card_id set), to every
+-- card in a column (column_id set) or to every card on a board (neither
+-- set). Watchers get comment, card_moved, card_completed, deadline_change
+-- and file_upload notifications. Users auto-watch cards they create or
+-- comment on.
+--
+-- Everyone who can read a board can see its watchers (the card dialog shows
+-- them) and watch or unwatch for themselves. Removing a board member drops
+-- their watches on that board.
+
+CREATE TABLE IF NOT EXISTS public.watchers (
+  id          UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id     TEXT         NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  board_id    UUID         NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+  column_id   INTEGER      REFERENCES public.columns(id) ON DELETE CASCADE,
+  card_id     UUID         REFERENCES public.cards(id) ON DELETE CASCADE,
+  created_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  CONSTRAINT watchers_single_target_check
+    CHECK (column_id IS NULL OR card_id IS NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS watchers_card_unique
+  ON public.watchers (user_id, card_id)
+  WHERE card_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS watchers_column_unique
+  ON public.watchers (user_id, column_id)
+  WHERE column_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS watchers_board_unique
+  ON public.watchers (user_id, board_id)
+  WHERE column_id IS NULL AND card_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS watchers_board_id_idx
+  ON public.watchers (board_id);
+
+ALTER TABLE public.watchers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view watchers"
+  ON public.watchers FOR SELECT
+  USING (is_board_member(auth.uid()::text, board_id::text, 'viewer'));
+
+CREATE POLICY "Members can watch"
+  ON public.watchers FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()::text
+    AND is_board_member(auth.uid()::text, board_id::text, 'viewer')
+  );
+
+CREATE POLICY "Users can unwatch"
+  ON public.watchers FOR DELETE
+  USING (user_id = auth.uid()::text);
+
+CREATE OR REPLACE FUNCTION public.remove_member_watchers() RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.watchers -- safe: runs when a member is removed, not during the migration
+  WHERE user_id = OLD.user_id
+    AND board_id = OLD.board_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog;
+
+DROP TRIGGER IF EXISTS board_members_remove_watchers ON public.board_members;
+CREATE TRIGGER board_members_remove_watchers
+  AFTER DELETE ON public.board_members
+  FOR EACH ROW EXECUTE FUNCTION public.remove_member_watchers();
+
+-- safe: expanding CHECK constraint; existing rows are unaffected
+ALTER TABLE public.notifications
+  DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+-- safe: expanding CHECK constraint; existing rows are unaffected
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'mention',
+    'comment_on_assigned',
+    'deadline_change',
+    'file_upload',
+    'card_assigned',
+    'board_member_added',
+    'card_completed',
+    'card_moved',
+    'comment_reply',
+    'comment'
+  ));
@@ -0,0 +1,79 @@
+-- Migration 62: multiple assignees per card.
+--
+-- card_assignees lists everyone a card is assigned to. cards.assignee_id
+-- stays as the primary assignee, which older API clients read as
+-- `assigneeId`, and always has a row here too: an AFTER INSERT/UPDATE
+-- trigger on cards adds it, so code paths that only set assignee_id
+-- (recurring cards, older clients) keep both in sync. The API removes the
+-- other rows when an update replaces the assignee list.
+--
+-- Same policies as card_labels: board viewers can read, members can change.
+-- The table joins the supabase_realtime publication like card_labels
+-- (migration 45); it has no board_id column either, so the client subscribes
+-- without a filter and drops events for cards it does not know about.
+
+CREATE TABLE IF NOT EXISTS public.card_assignees (
+  card_id     UUID         NOT NULL REFERENCES public.cards(id) ON DELETE CASCADE,
+  user_id     VARCHAR      NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at  TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (card_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS card_assignees_user_id_idx
+  ON public.card_assignees (user_id);
+
+INSERT INTO public.card_assignees (card_id, user_id, created_at)
+SELECT id, assignee_id, created_at
+FROM public.cards
+WHERE assignee_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.card_assignees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read card assignees" ON public.card_assignees
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.cards
+      WHERE cards.id = card_assignees.card_id
+        AND is_board_member(auth.uid()::text, cards.board_id::text, 'viewer')
+    )
+  );
+
+CREATE POLICY "Board members can manage card assignees" ON public.card_assignees
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.cards
+      WHERE cards.id = card_assignees.card_id
+        AND is_board_member(auth.uid()::text, cards.board_id::text, 'member')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.sync_primary_card_assignee() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assignee_id IS NOT NULL THEN
+    INSERT INTO public.card_assignees (card_id, user_id)
+    VALUES (NEW.id, NEW.assignee_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog;
+
+DROP TRIGGER IF EXISTS cards_sync_primary_assignee ON public.cards;
+CREATE TRIGGER cards_sync_primary_assignee
+  AFTER INSERT OR UPDATE OF assignee_id ON public.cards
+  FOR EACH ROW EXECUTE FUNCTION public.sync_primary_card_assignee();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'card_assignees'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.card_assignees;
+  END IF;
+END $$;
@@ -0,0 +1,15 @@
+-- Migration 63: opt-in email digest of unread notifications.
+--
+-- email_digest_frequency is chosen on the profile page ('off' by default).
+-- The server sends digests hourly once they are due (src/lib/email-digest.ts)
+-- and records the time in email_digest_sent_at, so each user gets at most one
+-- digest per day or week even with several server processes running.
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS email_digest_frequency VARCHAR(10) NOT NULL DEFAULT 'off'
+    CHECK (email_digest_frequency IN ('off', 'daily', 'weekly')),
+  ADD COLUMN IF NOT EXISTS email_digest_sent_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS users_email_digest_frequency_idx
+  ON public.users (email_digest_frequency)
+  WHERE email_digest_frequency <> 'off';
@@ -0,0 +1,47 @@
+-- Migration 64: free a trashed card's external_ref.
+--
+-- Trashed cards are hidden by the read policy on cards (migration 58), so
+-- apply_board_changeset no longer matches them by external_ref and inserts
+-- a new card instead, which ran into idx_cards_board_external_ref. Moving a
+-- card to the trash now parks its ref in trashed_external_ref, and the next
+-- changeset creates a fresh card for it. Restoring the card puts the ref
+-- back unless another card on the board has taken it meanwhile.
+
+ALTER TABLE public.cards
+  ADD COLUMN IF NOT EXISTS trashed_external_ref TEXT;
+
+UPDATE public.cards
+SET trashed_external_ref = external_ref,
+    external_ref = NULL
+WHERE deleted_at IS NOT NULL AND external_ref IS NOT NULL;
+
+-- SECURITY DEFINER so the restore check sees every card on the board
+CREATE OR REPLACE FUNCTION public.park_trashed_card_external_ref()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    NEW.trashed_external_ref := NEW.external_ref;
+    NEW.external_ref := NULL;
+  ELSIF NEW.deleted_at IS NULL AND OLD.deleted_at IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.cards
+      WHERE board_id = NEW.board_id
+        AND external_ref = NEW.trashed_external_ref
+        AND id <> NEW.id
+    ) THEN
+      NEW.external_ref := COALESCE(NEW.external_ref, NEW.trashed_external_ref);
+    END IF;
+    NEW.trashed_external_ref := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cards_park_trashed_external_ref ON public.cards;
+CREATE TRIGGER cards_park_trashed_external_ref
+  BEFORE UPDATE OF deleted_at ON public.cards
+  FOR EACH ROW EXECUTE FUNCTION public.park_trashed_card_external_ref();
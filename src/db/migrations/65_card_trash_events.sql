@@ -0,0 +1,46 @@
+-- Migration 65: trash and restore show up in the card history and reach
+-- other viewers of the board.
+--
+-- Realtime checks each subscriber's read policy against the new row, and
+-- the read policy on cards hides trashed rows (migration 58), so the UPDATE
+-- that moves a card to the trash is never delivered. The DELETE route now
+-- writes a 'trashed' card event, which board members can read; board pages
+-- subscribe to card_events and drop the card when one arrives. Restores are
+-- recorded as 'restored' for the history; their card UPDATE is delivered as
+-- usual.
+
+ALTER TABLE public.card_events
+  DROP CONSTRAINT IF EXISTS card_events_event_type_check;
+ALTER TABLE public.card_events
+  ADD CONSTRAINT card_events_event_type_check CHECK (event_type IN (
+    'title_changed',
+    'description_changed',
+    'assignee_changed',
+    'priority_changed',
+    'due_date_changed',
+    'start_date_changed',
+    'moved',
+    'completed',
+    'reopened',
+    'subtask_added',
+    'subtask_renamed',
+    'subtask_completed',
+    'subtask_reopened',
+    'subtask_deleted',
+    'attachment_added',
+    'attachment_deleted',
+    'trashed',
+    'restored'
+  ));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'card_events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.card_events;
+  END IF;
+END $$;
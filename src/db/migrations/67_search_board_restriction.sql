@@ -0,0 +1,95 @@
+-- Migration 67: limit search to the boards of a restricted API token.
+--
+-- search_board_content() applied p_limit before the API route dropped hits
+-- on boards a board-restricted token may not read, so such a token could get
+-- short or empty pages while matches existed on its own boards. The route
+-- now passes the token's board_ids as p_board_ids and the function filters
+-- before the limit. NULL keeps the old behaviour (every board the caller is
+-- a member of).
+
+-- Adding a parameter creates a new overload; remove the old one so calls
+-- with two named arguments stay unambiguous
+DROP FUNCTION IF EXISTS public.search_board_content(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_board_content(
+  p_query     TEXT,
+  p_limit     INTEGER DEFAULT 20,
+  p_board_ids UUID[]  DEFAULT NULL
+)
+RETURNS TABLE (
+  result_type TEXT,
+  result_id   UUID,
+  card_id     UUID,
+  board_id    UUID,
+  board_name  TEXT,
+  card_title  TEXT,
+  snippet     TEXT,
+  rank        REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_catalog
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('german'::regconfig, p_query) ||
+           to_tsquery('english'::regconfig, p_query) AS query
+  ),
+  hits AS (
+    SELECT 'card'::text AS result_type,
+           c.id AS result_id,
+           c.id AS card_id,
+           c.board_id,
+           c.title::text AS card_title,
+           coalesce(c.description, c.title)::text AS body,
+           ts_rank(c.search_vector, q.query) AS rank
+      FROM public.cards c, q
+     WHERE c.search_vector @@ q.query
+    UNION ALL
+    SELECT 'comment'::text,
+           cm.id,
+           cm.card_id,
+           c.board_id,
+           c.title::text,
+           cm.body,
+           ts_rank(cm.search_vector, q.query)
+      FROM public.comments cm
+      JOIN public.cards c ON c.id = cm.card_id, q
+     WHERE cm.deleted_at IS NULL
+       AND cm.search_vector @@ q.query
+    UNION ALL
+    SELECT 'subtask'::text,
+           s.id,
+           s.card_id,
+           c.board_id,
+           c.title::text,
+           s.title::text,
+           ts_rank(s.search_vector, q.query)
+      FROM public.card_subtasks s
+      JOIN public.cards c ON c.id = s.card_id, q
+     WHERE s.deleted_at IS NULL
+       AND s.search_vector @@ q.query
+  )
+  SELECT h.result_type,
+         h.result_id,
+         h.card_id,
+         h.board_id,
+         b.name::text,
+         h.card_title,
+         ts_headline(
+           'german'::regconfig,
+           h.body,
+           q.query,
+           'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=1'
+         ),
+         h.rank
+    FROM hits h
+    JOIN public.boards b ON b.id = h.board_id, q
+   WHERE NOT b.is_archived
+     AND (p_board_ids IS NULL OR h.board_id = ANY (p_board_ids))
+   ORDER BY h.rank DESC, h.card_title
+   LIMIT LEAST(GREATEST(coalesce(p_limit, 20), 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_board_content(TEXT, INTEGER, UUID[])
+  TO authenticated;
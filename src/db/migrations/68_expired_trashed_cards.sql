@@ -0,0 +1,35 @@
+-- Migration 68: find expired trash in the database.
+--
+-- The purge used to load the oldest trashed cards and apply each board's
+-- trash_retention_days afterwards. A batch full of old cards from boards
+-- with a long retention then kept expired cards of short-retention boards
+-- from ever being purged. expired_trashed_cards() compares deleted_at with
+-- the board's retention in the query and returns at most p_limit cards,
+-- longest expired first.
+--
+-- Only the server's service-role client purges, and the read policy on
+-- cards hides trashed rows from everyone else anyway.
+
+CREATE OR REPLACE FUNCTION public.expired_trashed_cards(
+  p_now   TIMESTAMPTZ DEFAULT now(),
+  p_limit INTEGER     DEFAULT 200
+)
+RETURNS TABLE (id UUID)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_catalog
+AS $$
+  SELECT c.id
+    FROM public.cards c
+    JOIN public.boards b ON b.id = c.board_id
+   WHERE c.deleted_at IS NOT NULL
+     AND c.deleted_at + make_interval(days => b.trash_retention_days) <= p_now
+   ORDER BY c.deleted_at + make_interval(days => b.trash_retention_days)
+   LIMIT GREATEST(coalesce(p_limit, 200), 1);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expired_trashed_cards(TIMESTAMPTZ, INTEGER)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expired_trashed_cards(TIMESTAMPTZ, INTEGER)
+  TO service_role;
@@ -0,0 +1,375 @@
+-- Migration 69: apply_board_changeset applies the deadline rule of PATCH
+-- /api/cards/[id] and reports what it changed.
+--
+-- Only a card's creator may change its due date directly; everyone else
+-- goes through deadline suggestions. Changesets changed due dates for any
+-- member. A matched card whose dueDate would change for someone else's card
+-- is now rejected with reason 'deadline', like the WIP and dependency rules
+-- of migration 66. Direct deadline changes the changeset does apply are
+-- added to card_deadline_requests as 'applied' / 'direct' rows.
+--
+-- The result gains a 'changes' array with the card row before and after
+-- every create and update. The API route turns it into card_events rows and
+-- webhook deliveries, which need the service role and the webhook sender,
+-- and drops it from the response.
+
+CREATE OR REPLACE FUNCTION public.apply_board_changeset(
+  p_board_id UUID,
+  payload JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  v_user_id      TEXT := auth.uid()::text;
+  v_board        JSONB := COALESCE(payload->'board', '{}'::jsonb);
+  v_columns      JSONB := COALESCE(payload->'columns', '[]'::jsonb);
+  v_cards        JSONB := COALESCE(payload->'cards', '[]'::jsonb);
+  v_board_row    public.boards%ROWTYPE;
+  v_board_updated BOOLEAN := FALSE;
+  v_rows         INTEGER;
+  v_col          JSONB;
+  v_card         JSONB;
+  v_sub          JSONB;
+  v_col_row      public.columns%ROWTYPE;
+  v_existing     public.cards%ROWTYPE;
+  v_saved        public.cards%ROWTYPE;
+  v_sub_row      public.card_subtasks%ROWTYPE;
+  v_found        BOOLEAN;
+  v_col_id       INTEGER;
+  v_col_done     BOOLEAN;
+  v_wip_limit    INTEGER;
+  v_wip_hard     BOOLEAN;
+  v_col_count    INTEGER;
+  v_reject       TEXT;
+  v_card_id      UUID;
+  v_position     INTEGER;
+  v_status       TEXT;
+  v_new_desc     TEXT;
+  v_new_priority TEXT;
+  v_new_due      public.cards.due_date%TYPE;
+  v_new_ref      TEXT;
+  v_new_completed TIMESTAMPTZ;
+  v_completed    BOOLEAN;
+  v_cols_created   INTEGER := 0;
+  v_cols_updated   INTEGER := 0;
+  v_cols_unchanged INTEGER := 0;
+  v_cards_created   INTEGER := 0;
+  v_cards_updated   INTEGER := 0;
+  v_cards_unchanged INTEGER := 0;
+  v_cards_rejected  INTEGER := 0;
+  v_subs_created   INTEGER := 0;
+  v_subs_updated   INTEGER := 0;
+  v_subs_unchanged INTEGER := 0;
+  v_card_results JSONB := '[]'::jsonb;
+  v_changes      JSONB := '[]'::jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'auth.uid() is null — caller must be authenticated';
+  END IF;
+
+  -- RLS hides boards the caller is not a member of
+  SELECT * INTO v_board_row FROM public.boards WHERE id = p_board_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'board % not found', p_board_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- 1. Board name / description (only keys present in the payload)
+  IF (v_board ? 'name' AND v_board->>'name' IS DISTINCT FROM v_board_row.name)
+     OR (v_board ? 'description'
+         AND v_board->>'description' IS DISTINCT FROM v_board_row.description)
+  THEN
+    UPDATE public.boards
+    SET name = COALESCE(v_board->>'name', name),
+        description = CASE WHEN v_board ? 'description'
+                           THEN v_board->>'description'
+                           ELSE description END
+    WHERE id = p_board_id;
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    IF v_rows = 0 THEN
+      RAISE EXCEPTION 'not allowed to update board %', p_board_id
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    v_board_updated := TRUE;
+    v_board_row.name := COALESCE(v_board->>'name', v_board_row.name);
+  END IF;
+
+  -- 2. Columns, matched by title
+  FOR v_col IN SELECT * FROM jsonb_array_elements(v_columns) LOOP
+    SELECT * INTO v_col_row
+    FROM public.columns
+    WHERE board_id = p_board_id AND title = v_col->>'title'
+    ORDER BY position
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.columns (board_id, title, position)
+      VALUES (p_board_id, v_col->>'title', (v_col->>'position')::int);
+      v_cols_created := v_cols_created + 1;
+    ELSIF v_col_row.position IS DISTINCT FROM (v_col->>'position')::int THEN
+      UPDATE public.columns
+      SET position = (v_col->>'position')::int
+      WHERE id = v_col_row.id;
+      v_cols_updated := v_cols_updated + 1;
+    ELSE
+      v_cols_unchanged := v_cols_unchanged + 1;
+    END IF;
+  END LOOP;
+
+  -- 3. Cards + subtasks
+  FOR v_card IN SELECT * FROM jsonb_array_elements(v_cards) LOOP
+    -- columnRef may name a column from this payload or one already on the board
+    SELECT id, is_done, wip_limit, wip_limit_hard
+    INTO v_col_id, v_col_done, v_wip_limit, v_wip_hard
+    FROM public.columns
+    WHERE board_id = p_board_id AND title = v_card->>'columnRef'
+    ORDER BY position
+    LIMIT 1;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'columnRef "%" does not match any column on this board',
+        v_card->>'columnRef'
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    v_found := FALSE;
+    v_reject := NULL;
+    IF v_card ? 'id' THEN
+      SELECT * INTO v_existing
+      FROM public.cards
+      WHERE id = (v_card->>'id')::uuid AND board_id = p_board_id;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'card % not found on this board', v_card->>'id'
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+      v_found := TRUE;
+    ELSIF v_card ? 'externalRef' THEN
+      SELECT * INTO v_existing
+      FROM public.cards
+      WHERE board_id = p_board_id AND external_ref = v_card->>'externalRef';
+      v_found := FOUND;
+    END IF;
+
+    IF NOT v_found THEN
+      SELECT COALESCE(MAX(position), 0) + 1 INTO v_position
+      FROM public.cards
+      WHERE column_id = v_col_id;
+
+      INSERT INTO public.cards (
+        board_id, column_id, title, description, priority, due_date,
+        position, created_by, created_via, external_ref, completed_at
+      )
+      VALUES (
+        p_board_id,
+        v_col_id,
+        v_card->>'title',
+        v_card->>'description',
+        COALESCE(v_card->>'priority', 'medium'),
+        NULLIF(v_card->>'dueDate', '')::timestamptz,
+        v_position,
+        v_user_id,
+        'api',
+        v_card->>'externalRef',
+        CASE WHEN v_col_done THEN NOW() END
+      )
+      RETURNING * INTO v_saved;
+
+      v_card_id := v_saved.id;
+      v_status := 'created';
+      v_cards_created := v_cards_created + 1;
+      v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+        'id', v_card_id,
+        'status', v_status,
+        'columnTitle', v_card->>'columnRef',
+        'before', NULL,
+        'after', to_jsonb(v_saved)
+      ));
+    ELSE
+      v_card_id := v_existing.id;
+      v_new_desc := CASE WHEN v_card ? 'description'
+                         THEN v_card->>'description'
+                         ELSE v_existing.description END;
+      v_new_priority := COALESCE(v_card->>'priority', v_existing.priority);
+      v_new_due := CASE WHEN v_card ? 'dueDate'
+                        THEN NULLIF(v_card->>'dueDate', '')::timestamptz
+                        ELSE v_existing.due_date END;
+      v_new_ref := COALESCE(v_card->>'externalRef', v_existing.external_ref);
+
+      -- A move follows the rules of PATCH /api/cards/[id] and bulk-update:
+      -- a full column with a hard WIP limit, or a done column while the
+      -- board enforces dependencies and the card has open blockers, rejects
+      -- the card and none of its changes are applied
+      IF v_existing.column_id <> v_col_id THEN
+        IF v_wip_hard AND v_wip_limit IS NOT NULL THEN
+          SELECT COUNT(*) INTO v_col_count
+          FROM public.cards
+          WHERE column_id = v_col_id;
+          IF v_col_count >= v_wip_limit THEN
+            v_reject := 'wip_limit';
+          END IF;
+        END IF;
+        IF v_reject IS NULL
+           AND v_col_done
+           AND v_existing.completed_at IS NULL
+           AND v_board_row.enforce_dependencies
+           AND public.card_open_blocker_count(v_card_id) > 0
+        THEN
+          v_reject := 'blocked';
+        END IF;
+      END IF;
+
+      -- Like PATCH, only the card's creator changes its deadline directly;
+      -- cards from before creator tracking (created_by NULL) are open to all
+      IF v_reject IS NULL
+         AND v_new_due IS DISTINCT FROM v_existing.due_date
+         AND v_existing.created_by IS NOT NULL
+         AND v_existing.created_by <> v_user_id
+      THEN
+        v_reject := 'deadline';
+      END IF;
+
+      IF v_reject IS NOT NULL THEN
+        v_status := 'rejected';
+        v_cards_rejected := v_cards_rejected + 1;
+      ELSIF ROW(v_card->>'title', v_new_desc, v_new_priority, v_new_due,
+             v_col_id, v_new_ref)
+         IS DISTINCT FROM
+         ROW(v_existing.title, v_existing.description, v_existing.priority,
+             v_existing.due_date, v_existing.column_id, v_existing.external_ref)
+      THEN
+        v_position := v_existing.position;
+        v_new_completed := v_existing.completed_at;
+        IF v_existing.column_id <> v_col_id THEN
+          -- Moved: append to the target column and mirror the done-column
+          -- auto-complete / reopen behaviour of the board UI
+          SELECT COALESCE(MAX(position), 0) + 1 INTO v_position
+          FROM public.cards
+          WHERE column_id = v_col_id;
+          v_new_completed := CASE
+            WHEN v_col_done THEN COALESCE(v_existing.completed_at, NOW())
+            ELSE NULL
+          END;
+        END IF;
+
+        UPDATE public.cards
+        SET title = v_card->>'title',
+            description = v_new_desc,
+            priority = v_new_priority,
+            due_date = v_new_due,
+            column_id = v_col_id,
+            position = v_position,
+            external_ref = v_new_ref,
+            completed_at = v_new_completed
+        WHERE id = v_card_id
+        RETURNING * INTO v_saved;
+
+        -- Direct deadline changes are kept in the deadline history, as PATCH
+        -- /api/cards/[id] does
+        IF v_new_due IS DISTINCT FROM v_existing.due_date THEN
+          INSERT INTO public.card_deadline_requests (
+            card_id, requested_by, suggested_due_date, status, change_type,
+            resolved_by, resolved_at
+          )
+          VALUES (
+            v_card_id, v_user_id, v_new_due, 'applied', 'direct',
+            v_user_id, NOW()
+          );
+        END IF;
+
+        v_status := 'updated';
+        v_cards_updated := v_cards_updated + 1;
+        v_changes := v_changes || jsonb_build_array(jsonb_build_object(
+          'id', v_card_id,
+          'status', v_status,
+          'columnTitle', v_card->>'columnRef',
+          'before', to_jsonb(v_existing),
+          'after', to_jsonb(v_saved)
+        ));
+      ELSE
+        v_status := 'unchanged';
+        v_cards_unchanged := v_cards_unchanged + 1;
+      END IF;
+    END IF;
+
+    -- Subtasks of a rejected card are left alone too
+    IF v_status <> 'rejected' THEN
+      FOR v_sub IN
+        SELECT * FROM jsonb_array_elements(COALESCE(v_card->'subtasks', '[]'::jsonb))
+      LOOP
+        v_completed := (v_sub->>'completed')::boolean;
+
+        SELECT * INTO v_sub_row
+        FROM public.card_subtasks
+        WHERE card_id = v_card_id
+          AND title = v_sub->>'title'
+          AND deleted_at IS NULL
+        ORDER BY position
+        LIMIT 1;
+
+        IF NOT FOUND THEN
+          INSERT INTO public.card_subtasks (card_id, title, created_via, completed_at)
+          VALUES (
+            v_card_id,
+            v_sub->>'title',
+            'api',
+            CASE WHEN COALESCE(v_completed, FALSE) THEN NOW() END
+          );
+          v_subs_created := v_subs_created + 1;
+        ELSIF v_completed IS NOT NULL
+              AND v_completed <> (v_sub_row.completed_at IS NOT NULL) THEN
+          UPDATE public.card_subtasks
+          SET completed_at = CASE WHEN v_completed THEN NOW() END
+          WHERE id = v_sub_row.id;
+          v_subs_updated := v_subs_updated + 1;
+        ELSE
+          v_subs_unchanged := v_subs_unchanged + 1;
+        END IF;
+      END LOOP;
+    END IF;
+
+    v_card_results := v_card_results || jsonb_build_array(
+      jsonb_build_object(
+        'id', v_card_id,
+        'externalRef', v_card->>'externalRef',
+        'title', v_card->>'title',
+        'columnId', v_col_id,
+        'status', v_status
+      ) || CASE WHEN v_reject IS NOT NULL
+                THEN jsonb_build_object('reason', v_reject)
+                ELSE '{}'::jsonb END
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'board', jsonb_build_object(
+      'id', p_board_id,
+      'name', v_board_row.name,
+      'updated', v_board_updated
+    ),
+    'counts', jsonb_build_object(
+      'columns', jsonb_build_object(
+        'created', v_cols_created,
+        'updated', v_cols_updated,
+        'unchanged', v_cols_unchanged
+      ),
+      'cards', jsonb_build_object(
+        'created', v_cards_created,
+        'updated', v_cards_updated,
+        'unchanged', v_cards_unchanged,
+        'rejected', v_cards_rejected
+      ),
+      'subtasks', jsonb_build_object(
+        'created', v_subs_created,
+        'updated', v_subs_updated,
+        'unchanged', v_subs_unchanged
+      )
+    ),
+    'cards', v_card_results,
+    'changes', v_changes
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_board_changeset(UUID, JSONB) TO authenticated;
@@ -11,6 +11,7 @@ import {
   index,
   jsonb,
   unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -39,6 +40,10 @@ export const apiTokens = pgTable(
       .notNull()
       .defaultNow(),
     revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    // NULL = full access / all boards / never expires
+    scopes: text("scopes").array(),
+    boardIds: uuid("board_ids").array(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
   },
   (t) => ({
     prefixIdx: index("api_tokens_prefix_idx").on(t.prefix),
@@ -104,6 +109,12 @@ export const boards = pgTable(
       onDelete: "set null",
     }),
     groupPosition: integer("group_position").notNull().default(0),
+    // Hard stop instead of a warning when a blocked card is completed
+    enforceDependencies: boolean("enforce_dependencies")
+      .notNull()
+      .default(false),
+    // Days a trashed card is kept before it is purged for good
+    trashRetentionDays: integer("trash_retention_days").notNull().default(30),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     createdVia: text("created_via", { enum: ["ui", "api"] })
@@ -146,6 +157,8 @@ export const columns = pgTable(
     title: varchar("title", { length: 120 }).notNull(),
     position: integer("position").notNull(),
     isDone: boolean("is_done").default(false).notNull(),
+    wipLimit: integer("wip_limit"),
+    wipLimitHard: boolean("wip_limit_hard").default(false).notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (t) => ({
@@ -173,6 +186,7 @@ export const cards = pgTable("cards", {
   createdBy: varchar("created_by").references(() => users.id, {
     onDelete: "set null",
   }),
+  startDate: timestamp("start_date"),
   dueDate: timestamp("due_date"),
   priority: varchar("priority", { enum: ["high", "medium", "low"] })
     .default("medium")
@@ -180,9 +194,34 @@ export const cards = pgTable("cards", {
   position: integer("position").notNull(),
   completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
   createdVia: text("created_via", { enum: ["ui", "api"] })
     .notNull()
     .default("ui"),
+  // Client-supplied key for changeset sync, unique per board
+  externalRef: text("external_ref"),
+  // Objects in the card-attachments bucket; kept by a storage trigger
+  attachmentCount: integer("attachment_count").notNull().default(0),
+  // RRULE subset; see src/lib/card-recurrence.ts
+  recurrenceRule: text("recurrence_rule"),
+  recurrenceColumnId: integer("recurrence_column_id").references(
+    () => columns.id,
+    { onDelete: "set null" },
+  ),
+  // The completed card this instance was created from
+  recurrenceSourceId: uuid("recurrence_source_id").references(
+    (): AnyPgColumn => cards.id,
+    { onDelete: "set null" },
+  ),
+  // Set while the card is in the board's trash; see src/lib/card-trash.ts
+  deletedAt: timestamp("deleted_at", { withTimezone: true }),
+  deletedBy: varchar("deleted_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  // externalRef while trashed, so changesets can reuse it (migration 64)
+  trashedExternalRef: text("trashed_external_ref"),
 });
 
 // Labels table
@@ -213,6 +252,27 @@ export const cardLabels = pgTable(
   }),
 );
 
+// Card assignees join table - everyone a card is assigned to. cards.assigneeId
+// stays the primary assignee and always has a row here as well.
+export const cardAssignees = pgTable(
+  "card_assignees",
+  {
+    cardId: uuid("card_id")
+      .notNull()
+      .references(() => cards.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.cardId, table.userId] }),
+    userIdx: index("card_assignees_user_id_idx").on(table.userId),
+  }),
+);
+
 // Card subtasks table - per-card checklist items
 export const cardSubtasks = pgTable("card_subtasks", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -229,6 +289,33 @@ export const cardSubtasks = pgTable("card_subtasks", {
     .default("ui"),
 });
 
+// Card dependencies table - blocker card must be completed before blocked card
+export const cardDependencies = pgTable(
+  "card_dependencies",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    blockerCardId: uuid("blocker_card_id")
+      .notNull()
+      .references(() => cards.id, { onDelete: "cascade" }),
+    blockedCardId: uuid("blocked_card_id")
+      .notNull()
+      .references(() => cards.id, { onDelete: "cascade" }),
+    createdBy: varchar("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    unique: unique("card_dependencies_unique").on(
+      table.blockerCardId,
+      table.blockedCardId,
+    ),
+    blockedCardIdx: index("card_dependencies_blocked_card_id_idx").on(
+      table.blockedCardId,
+    ),
+  }),
+);
+
 // Comments table
 export const comments = pgTable("comments", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -239,9 +326,79 @@ export const comments = pgTable("comments", {
     .notNull()
     .references(() => users.id, { onDelete: "cascade" }),
   body: text("body").notNull(),
+  // Comment this one replies to; null for top-level comments
+  parentId: uuid("parent_id").references((): AnyPgColumn => comments.id, {
+    onDelete: "cascade",
+  }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  editedAt: timestamp("edited_at", { withTimezone: true }),
+  deletedAt: timestamp("deleted_at", { withTimezone: true }),
+});
+
+// Previous bodies of edited comments, written by a trigger on comments
+export const commentRevisions = pgTable("comment_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  commentId: uuid("comment_id")
+    .notNull()
+    .references(() => comments.id, { onDelete: "cascade" }),
+  editorId: varchar("editor_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
 });
 
+// Watch subscriptions: card_id set watches a card, column_id a column,
+// neither the whole board
+export const watchers = pgTable(
+  "watchers",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    boardId: uuid("board_id")
+      .notNull()
+      .references(() => boards.id, { onDelete: "cascade" }),
+    columnId: integer("column_id").references(() => columns.id, {
+      onDelete: "cascade",
+    }),
+    cardId: uuid("card_id").references(() => cards.id, {
+      onDelete: "cascade",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    boardIdx: index("watchers_board_id_idx").on(table.boardId),
+  }),
+);
+
+// Emoji reactions on comments, one row per user and emoji
+export const commentReactions = pgTable(
+  "comment_reactions",
+  {
+    commentId: uuid("comment_id")
+      .notNull()
+      .references(() => comments.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    emoji: text("emoji").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({
+      columns: [table.commentId, table.userId, table.emoji],
+    }),
+  }),
+);
+
 // Column templates table
 export const columnTemplates = pgTable("column_templates", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -409,9 +566,11 @@ export const cardsRelations = relations(cards, ({ one, many }) => ({
     references: [users.id],
   }),
   labels: many(cardLabels),
+  assignees: many(cardAssignees),
   comments: many(comments),
   subtasks: many(cardSubtasks),
   deadlineRequests: many(cardDeadlineRequests),
+  events: many(cardEvents),
 }));
 
 export const cardSubtasksRelations = relations(cardSubtasks, ({ one }) => ({
@@ -440,6 +599,17 @@ export const cardLabelsRelations = relations(cardLabels, ({ one }) => ({
   }),
 }));
 
+export const cardAssigneesRelations = relations(cardAssignees, ({ one }) => ({
+  card: one(cards, {
+    fields: [cardAssignees.cardId],
+    references: [cards.id],
+  }),
+  user: one(users, {
+    fields: [cardAssignees.userId],
+    references: [users.id],
+  }),
+}));
+
 export const commentsRelations = relations(comments, ({ one }) => ({
   card: one(cards, {
     fields: [comments.cardId],
@@ -575,3 +745,164 @@ export const cardDeadlineRequestsRelations = relations(
     }),
   }),
 );
+
+// Outgoing webhooks - per-board subscriptions, managed by owners/admins
+export const boardWebhooks = pgTable(
+  "board_webhooks",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    boardId: uuid("board_id")
+      .notNull()
+      .references(() => boards.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    secret: text("secret").notNull(),
+    eventTypes: text("event_types").array().notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdBy: text("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    boardIdIdx: index("board_webhooks_board_id_idx").on(table.boardId),
+  }),
+);
+
+// Delivery log + retry queue for board_webhooks
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    webhookId: uuid("webhook_id")
+      .notNull()
+      .references(() => boardWebhooks.id, { onDelete: "cascade" }),
+    eventType: text("event_type").notNull(),
+    payload: jsonb("payload").notNull(),
+    status: varchar("status", {
+      enum: ["pending", "succeeded", "failed"],
+    })
+      .default("pending")
+      .notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    lastStatusCode: integer("last_status_code"),
+    lastError: text("last_error"),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+  },
+  (table) => ({
+    webhookIdIdx: index("webhook_deliveries_webhook_id_idx").on(
+      table.webhookId,
+      table.createdAt,
+    ),
+  }),
+);
+
+// Card activity history - written by the card, subtask and attachment routes
+export const cardEvents = pgTable(
+  "card_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    cardId: uuid("card_id")
+      .notNull()
+      .references(() => cards.id, { onDelete: "cascade" }),
+    boardId: uuid("board_id")
+      .notNull()
+      .references(() => boards.id, { onDelete: "cascade" }),
+    actorId: text("actor_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    eventType: varchar("event_type", {
+      enum: [
+        "title_changed",
+        "description_changed",
+        "assignee_changed",
+        "priority_changed",
+        "due_date_changed",
+        "start_date_changed",
+        "moved",
+        "completed",
+        "reopened",
+        "subtask_added",
+        "subtask_renamed",
+        "subtask_completed",
+        "subtask_reopened",
+        "subtask_deleted",
+        "attachment_added",
+        "attachment_deleted",
+        "trashed",
+        "restored",
+      ],
+    }).notNull(),
+    before: jsonb("before"),
+    after: jsonb("after"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    cardIdIdx: index("card_events_card_id_idx").on(
+      table.cardId,
+      table.createdAt,
+    ),
+  }),
+);
+
+export const cardEventsRelations = relations(cardEvents, ({ one }) => ({
+  card: one(cards, {
+    fields: [cardEvents.cardId],
+    references: [cards.id],
+  }),
+  actor: one(users, {
+    fields: [cardEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+export type CardEvent = typeof cardEvents.$inferSelect;
+
+// Named filter views per board; private to the creator unless shared
+export const boardSavedViews = pgTable(
+  "board_saved_views",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    boardId: uuid("board_id")
+      .notNull()
+      .references(() => boards.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    isShared: boolean("is_shared").default(false).notNull(),
+    filters: jsonb("filters").notNull().default({}),
+    viewMode: text("view_mode", { enum: ["board", "table", "timeline"] })
+      .default("board")
+      .notNull(),
+    createdBy: text("created_by")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    boardIdIdx: index("board_saved_views_board_id_idx").on(
+      table.boardId,
+      table.name,
+    ),
+  }),
+);
+
+export type BoardSavedView = typeof boardSavedViews.$inferSelect;
+
+export type BoardWebhook = typeof boardWebhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
@@ -1,9 +1,23 @@
 "use client";
 
 import { useState, useMemo } from "react";
-import type { Card, CardPriority } from "@/types/database";
+import type {
+  Card,
+  CardPriority,
+  CardLabelWithLabel,
+  Label,
+} from "@/types/database";
 // import { sortCardsByPriority } from '@/lib/priority-colors';
 import type { BoardFilters } from "@/components/kanban/BoardFilters";
+import { DEFAULT_BOARD_FILTERS } from "@/lib/board-views";
+import { getMyTaskBucket, toLocalCalendarDay } from "@/lib/my-tasks";
+import {
+  matchesCardQuery,
+  parseCardQuery,
+  type CardQueryContext,
+  type CardQuerySubject,
+} from "@/lib/card-query";
+import { getCardAssigneeIds } from "@/lib/card-assignees";
 
 interface BoardMember {
   id: string;
@@ -11,22 +25,77 @@ interface BoardMember {
   email: string;
 }
 
-export function useBoardFilters(cards: Card[], boardMembers?: BoardMember[]) {
-  const [filters, setFilters] = useState<BoardFilters>({
-    priorities: [],
-    assignees: [],
-    sortBy: "created",
-    sortOrder: "desc",
-  });
+type CardWithLabels = Card & { labels?: CardLabelWithLabel[] };
+
+const getCardLabelIds = (card: Card): string[] =>
+  ((card as CardWithLabels).labels ?? []).map((cardLabel) => cardLabel.labelId);
+
+const toIsoDate = (value: Date | string | null | undefined) =>
+  value ? new Date(value).toISOString() : null;
+
+const toQuerySubject = (card: Card): CardQuerySubject => ({
+  title: card.title,
+  description: card.description,
+  assigneeId: card.assigneeId,
+  assigneeIds: getCardAssigneeIds(card),
+  priority: card.priority,
+  dueDate: toIsoDate(card.dueDate),
+  completedAt: toIsoDate(card.completedAt),
+  createdVia: card.createdVia,
+  attachmentCount: card.attachmentCount,
+  labels: ((card as CardWithLabels).labels ?? []).map((cardLabel) => ({
+    id: cardLabel.labelId,
+    name: cardLabel.label?.name ?? "",
+  })),
+});
+
+interface UseBoardFiltersOptions {
+  /** Resolves `assignee:me` in the query bar. */
+  currentUserId?: string | null;
+  /** Everyone who can be named in `assignee:` (board members). */
+  queryMembers?: CardQueryContext["members"];
+  /** Keep the filter state outside the hook, e.g. in the URL. */
+  controlled?: {
+    filters: BoardFilters;
+    onFiltersChange: (filters: BoardFilters) => void;
+  };
+}
+
+/**
+ * Filters and sorts board cards. Without `controlled` the filter state is
+ * local React state.
+ */
+export function useBoardFilters(
+  cards: Card[],
+  boardMembers?: BoardMember[],
+  {
+    currentUserId = null,
+    queryMembers,
+    controlled,
+  }: UseBoardFiltersOptions = {},
+) {
+  const [localFilters, setLocalFilters] = useState<BoardFilters>(
+    DEFAULT_BOARD_FILTERS,
+  );
+  const filters = controlled?.filters ?? localFilters;
+  const setFilters = (
+    next: BoardFilters | ((previous: BoardFilters) => BoardFilters),
+  ) => {
+    const value = typeof next === "function" ? next(filters) : next;
+    if (controlled) controlled.onFiltersChange(value);
+    else setLocalFilters(value);
+  };
+  // Due-date buckets are relative to the day the board was opened.
+  const [today] = useState(() => toLocalCalendarDay(new Date()));
 
   // Get available assignees from cards
   const availableAssignees = useMemo(() => {
     const assigneeMap = new Map<string, BoardMember>();
 
     cards.forEach((card) => {
-      if (card.assigneeId && boardMembers) {
-        const assignee = boardMembers.find(
-          (member) => member.id === card.assigneeId,
+      getCardAssigneeIds(card).forEach((assigneeId) => {
+        const assignee = boardMembers?.find(
+          (member) => member.id === assigneeId,
         );
         if (assignee) {
           assigneeMap.set(assignee.id, {
@@ -35,12 +104,27 @@ export function useBoardFilters(cards: Card[], boardMembers?: BoardMember[]) {
             email: assignee.email,
           });
         }
-      }
+      });
     });
 
     return Array.from(assigneeMap.values());
   }, [cards, boardMembers]);
 
+  // Get available labels from cards
+  const availableLabels = useMemo(() => {
+    const labelMap = new Map<string, Label>();
+
+    cards.forEach((card) => {
+      ((card as CardWithLabels).labels ?? []).forEach((cardLabel) => {
+        if (cardLabel.label) labelMap.set(cardLabel.labelId, cardLabel.label);
+      });
+    });
+
+    return Array.from(labelMap.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }, [cards]);
+
   // Filter and sort cards
   const filteredAndSortedCards = useMemo(() => {
     let filtered = [...cards];
@@ -53,18 +137,63 @@ export function useBoardFilters(cards: Card[], boardMembers?: BoardMember[]) {
       });
     }
 
-    // Apply assignee filters
+    // Apply assignee filters (card matches if any assignee is selected)
     if (filters.assignees.length > 0) {
       filtered = filtered.filter((card) => {
-        if (filters.assignees.includes("unassigned")) {
-          return (
-            !card.assigneeId || filters.assignees.includes(card.assigneeId)
-          );
+        const assigneeIds = getCardAssigneeIds(card);
+        if (assigneeIds.length === 0) {
+          return filters.assignees.includes("unassigned");
         }
-        return card.assigneeId && filters.assignees.includes(card.assigneeId);
+        return assigneeIds.some((assigneeId) =>
+          filters.assignees.includes(assigneeId),
+        );
       });
     }
 
+    // Apply label filters (card matches if it has any selected label)
+    if (filters.labels.length > 0) {
+      filtered = filtered.filter((card) => {
+        const labelIds = getCardLabelIds(card);
+        if (labelIds.length === 0) {
+          return filters.labels.includes("unlabeled");
+        }
+        return labelIds.some((labelId) => filters.labels.includes(labelId));
+      });
+    }
+
+    // Apply due date filter (same buckets as "My Tasks"; "week" includes today)
+    if (filters.dueDate) {
+      filtered = filtered.filter((card) => {
+        const bucket = getMyTaskBucket(toIsoDate(card.dueDate), today);
+        switch (filters.dueDate) {
+          case "overdue":
+            return bucket === "overdue" && !card.completedAt;
+          case "today":
+            return bucket === "today";
+          case "week":
+            return bucket === "today" || bucket === "week";
+          case "none":
+            return bucket === "none";
+          default:
+            return true;
+        }
+      });
+    }
+
+    // Apply the query bar (free text plus field:value terms); terms that
+    // do not parse are skipped so the board keeps filtering while typing.
+    const query = parseCardQuery(filters.search);
+    if (query.nodes.length > 0) {
+      const context: CardQueryContext = {
+        currentUserId,
+        today,
+        members: queryMembers ?? [],
+      };
+      filtered = filtered.filter((card) =>
+        matchesCardQuery(toQuerySubject(card), query, context),
+      );
+    }
+
     // Apply sorting
     filtered.sort((a, b) => {
       let comparison = 0;
@@ -110,7 +239,7 @@ export function useBoardFilters(cards: Card[], boardMembers?: BoardMember[]) {
     });
 
     return filtered;
-  }, [cards, filters]);
+  }, [cards, filters, today, currentUserId, queryMembers]);
 
   // Group filtered cards by column
   const cardsByColumn = useMemo(() => {
@@ -154,15 +283,14 @@ export function useBoardFilters(cards: Card[], boardMembers?: BoardMember[]) {
 
   // Helper functions
   const hasActiveFilters =
-    filters.priorities.length > 0 || filters.assignees.length > 0;
+    filters.priorities.length > 0 ||
+    filters.assignees.length > 0 ||
+    filters.labels.length > 0 ||
+    filters.dueDate !== null ||
+    filters.search.trim().length > 0;
 
   const clearFilters = () => {
-    setFilters({
-      priorities: [],
-      assignees: [],
-      sortBy: "created",
-      sortOrder: "desc",
-    });
+    setFilters(DEFAULT_BOARD_FILTERS);
   };
 
   const setQuickFilter = (
@@ -178,12 +306,9 @@ export function useBoardFilters(cards: Card[], boardMembers?: BoardMember[]) {
         break;
 
       case "overdue":
-        // This would require additional logic to filter by overdue cards
-        // For now, we'll sort by due date
         setFilters((prev) => ({
           ...prev,
-          sortBy: "dueDate",
-          sortOrder: "asc",
+          dueDate: "overdue",
         }));
         break;
 
@@ -211,6 +336,7 @@ export function useBoardFilters(cards: Card[], boardMembers?: BoardMember[]) {
     filteredAndSortedCards,
     cardsByColumn,
     availableAssignees,
+    availableLabels,
     stats,
     hasActiveFilters,
     clearFilters,
@@ -6,6 +6,7 @@ import type {
   RealtimePostgresChangesPayload,
 } from "@supabase/supabase-js";
 import { createClient } from "@/lib/supabase/client";
+import { getCardAssigneeIds } from "@/lib/card-assignees";
 import type { BoardWithDetails } from "@/types/database";
 
 type BoardUpdater = (prev: BoardWithDetails) => BoardWithDetails;
@@ -25,15 +26,45 @@ function dbRowToCardFields(row: DbRow) {
     title: row.title as string,
     description: (row.description as string | null) ?? null,
     position: row.position as number,
+    startDate: row.start_date ? new Date(row.start_date as string) : null,
     dueDate: row.due_date ? new Date(row.due_date as string) : null,
     priority: (row.priority as string) ?? "medium",
     completedAt: (row.completed_at as string | null) ?? null,
     createdAt: new Date(row.created_at as string),
     createdBy: (row.created_by as string | null) ?? null,
     assigneeId: (row.assignee_id as string | null) ?? null,
+    attachmentCount: (row.attachment_count as number | undefined) ?? 0,
+    recurrenceRule: (row.recurrence_rule as string | null) ?? null,
+    recurrenceColumnId: (row.recurrence_column_id as number | null) ?? null,
+    recurrenceSourceId: (row.recurrence_source_id as string | null) ?? null,
   };
 }
 
+function dbRowToLabel(row: DbRow) {
+  return {
+    id: row.id as string,
+    boardId: row.board_id as string,
+    name: row.name as string,
+    color: (row.color as string | null) ?? null,
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+/** Keep the (possibly new) primary assignee at the front of the list. */
+function withPrimaryAssignee(ids: string[], primaryId: string | null) {
+  if (!primaryId) return ids;
+  return [primaryId, ...ids.filter((id) => id !== primaryId)];
+}
+
+type BoardCard = BoardWithDetails["columns"][number]["cards"][number];
+
+function mapBoardCards(
+  board: BoardWithDetails,
+  mapper: (card: BoardCard) => BoardCard,
+): BoardWithDetails["columns"] {
+  return board.columns.map((col) => ({ ...col, cards: col.cards.map(mapper) }));
+}
+
 export function useBoardRealtime({
   boardId,
   onBoardChange,
@@ -106,6 +137,10 @@ export function useBoardRealtime({
                           (m) => m.user.id === incoming.assigneeId,
                         )?.user ?? undefined)
                       : existing.assignee,
+                  assigneeIds: withPrimaryAssignee(
+                    getCardAssigneeIds(existing),
+                    incoming.assigneeId,
+                  ),
                 }
               : { ...incoming, labels: [], comments: [] };
 
@@ -157,6 +192,30 @@ export function useBoardRealtime({
       },
     );
 
+    // The read policy hides trashed cards, so moving one to the trash never
+    // arrives as a cards UPDATE; the DELETE route records a card event instead
+    channel.on(
+      "postgres_changes",
+      {
+        event: "INSERT",
+        schema: "public",
+        table: "card_events",
+        filter: `board_id=eq.${boardId}`,
+      },
+      (payload: RealtimePostgresChangesPayload<DbRow>) => {
+        if (payload.eventType !== "INSERT") return;
+        if (payload.new.event_type !== "trashed") return;
+        const trashedId = payload.new.card_id as string;
+        stableOnBoardChange((prev) => ({
+          ...prev,
+          columns: prev.columns.map((col) => ({
+            ...col,
+            cards: col.cards.filter((c) => c.id !== trashedId),
+          })),
+        }));
+      },
+    );
+
     channel.on(
       "postgres_changes",
       {
@@ -180,6 +239,12 @@ export function useBoardRealtime({
                       title: (row.title as string) ?? col.title,
                       position: (row.position as number) ?? col.position,
                       isDone: (row.is_done as boolean) ?? col.isDone,
+                      wipLimit:
+                        row.wip_limit !== undefined
+                          ? (row.wip_limit as number | null)
+                          : col.wipLimit,
+                      wipLimitHard:
+                        (row.wip_limit_hard as boolean) ?? col.wipLimitHard,
                     }
                   : col,
               )
@@ -196,6 +261,155 @@ export function useBoardRealtime({
       },
     );
 
+    channel.on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "labels",
+        filter: `board_id=eq.${boardId}`,
+      },
+      (payload: RealtimePostgresChangesPayload<DbRow>) => {
+        const { eventType } = payload;
+
+        if (eventType === "INSERT" || eventType === "UPDATE") {
+          const label = dbRowToLabel(payload.new);
+          stableOnBoardChange((prev) => ({
+            ...prev,
+            labels: [
+              ...(prev.labels ?? []).filter((l) => l.id !== label.id),
+              label,
+            ].sort((a, b) => a.name.localeCompare(b.name)),
+            // Renames/recolors show up on the chips of every card using the label
+            columns: mapBoardCards(prev, (card) =>
+              card.labels?.some((cl) => cl.labelId === label.id)
+                ? {
+                    ...card,
+                    labels: card.labels.map((cl) =>
+                      cl.labelId === label.id ? { ...cl, label } : cl,
+                    ),
+                  }
+                : card,
+            ),
+          }));
+        } else if (eventType === "DELETE") {
+          const deletedId = (payload.old as DbRow).id as string;
+          stableOnBoardChange((prev) => ({
+            ...prev,
+            labels: (prev.labels ?? []).filter((l) => l.id !== deletedId),
+            columns: mapBoardCards(prev, (card) =>
+              card.labels?.some((cl) => cl.labelId === deletedId)
+                ? {
+                    ...card,
+                    labels: card.labels.filter(
+                      (cl) => cl.labelId !== deletedId,
+                    ),
+                  }
+                : card,
+            ),
+          }));
+        }
+      },
+    );
+
+    // card_labels has no board_id column — events for cards that are not on
+    // this board are ignored below.
+    channel.on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "card_labels",
+      },
+      (payload: RealtimePostgresChangesPayload<DbRow>) => {
+        const { eventType } = payload;
+
+        if (eventType === "INSERT") {
+          const cardId = payload.new.card_id as string;
+          const labelId = payload.new.label_id as string;
+          const createdAt = new Date(payload.new.created_at as string);
+          stableOnBoardChange((prev) => {
+            const label = (prev.labels ?? []).find((l) => l.id === labelId);
+            if (!label) return prev;
+            return {
+              ...prev,
+              columns: mapBoardCards(prev, (card) => {
+                if (card.id !== cardId) return card;
+                const current = card.labels ?? [];
+                // Skip if already attached (our own optimistic update)
+                if (current.some((cl) => cl.labelId === labelId)) return card;
+                return {
+                  ...card,
+                  labels: [...current, { cardId, labelId, createdAt, label }],
+                };
+              }),
+            };
+          });
+        } else if (eventType === "DELETE") {
+          const cardId = (payload.old as DbRow).card_id as string;
+          const labelId = (payload.old as DbRow).label_id as string;
+          stableOnBoardChange((prev) => ({
+            ...prev,
+            columns: mapBoardCards(prev, (card) =>
+              card.id === cardId
+                ? {
+                    ...card,
+                    labels: (card.labels ?? []).filter(
+                      (cl) => cl.labelId !== labelId,
+                    ),
+                  }
+                : card,
+            ),
+          }));
+        }
+      },
+    );
+
+    // Same as card_labels: no board_id column, unknown cards are ignored.
+    // Profiles for added assignees are resolved from the board members.
+    channel.on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "card_assignees",
+      },
+      (payload: RealtimePostgresChangesPayload<DbRow>) => {
+        const { eventType } = payload;
+
+        if (eventType === "INSERT") {
+          const cardId = payload.new.card_id as string;
+          const userId = payload.new.user_id as string;
+          stableOnBoardChange((prev) => ({
+            ...prev,
+            columns: mapBoardCards(prev, (card) => {
+              if (card.id !== cardId) return card;
+              const current = getCardAssigneeIds(card);
+              // Skip if already assigned (our own optimistic update)
+              if (current.includes(userId)) return card;
+              return { ...card, assigneeIds: [...current, userId] };
+            }),
+          }));
+        } else if (eventType === "DELETE") {
+          const cardId = (payload.old as DbRow).card_id as string;
+          const userId = (payload.old as DbRow).user_id as string;
+          stableOnBoardChange((prev) => ({
+            ...prev,
+            columns: mapBoardCards(prev, (card) =>
+              card.id === cardId
+                ? {
+                    ...card,
+                    assigneeIds: getCardAssigneeIds(card).filter(
+                      (id) => id !== userId,
+                    ),
+                  }
+                : card,
+            ),
+          }));
+        }
+      },
+    );
+
     channel.subscribe();
     channelRef.current = channel;
 
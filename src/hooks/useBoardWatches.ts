@@ -0,0 +1,55 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import useSWR from "swr";
+import type { Watch } from "@/lib/watchers";
+
+/**
+ * The current user's board and column watches on a board. Every column of
+ * the board shares one request through the SWR cache.
+ */
+export function useBoardWatches(boardId: string | null | undefined) {
+  const key = boardId ? `/api/boards/${boardId}/watchers` : null;
+  const { data, mutate } = useSWR<{ watches: Watch[] }>(key);
+  const [isPending, setIsPending] = useState(false);
+
+  // No columnId: the board watch
+  const findWatch = useCallback(
+    (columnId?: number): Watch | null =>
+      data?.watches.find((watch) =>
+        columnId === undefined
+          ? watch.scope === "board"
+          : watch.scope === "column" && watch.columnId === columnId,
+      ) ?? null,
+    [data],
+  );
+
+  const toggleWatch = useCallback(
+    async (columnId?: number) => {
+      if (!key) return;
+      const existing = findWatch(columnId);
+      setIsPending(true);
+      try {
+        const res = existing
+          ? await fetch(`${key}/${existing.id}`, { method: "DELETE" })
+          : await fetch(key, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(columnId === undefined ? {} : { columnId }),
+            });
+        if (!res.ok) {
+          console.error("Toggle watch failed:", res.status);
+          return;
+        }
+        await mutate();
+      } catch (err) {
+        console.error("Toggle watch failed:", err);
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [key, findWatch, mutate],
+  );
+
+  return { isLoaded: data !== undefined, isPending, findWatch, toggleWatch };
+}
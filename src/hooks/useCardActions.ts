@@ -2,6 +2,7 @@
 
 import { useState, useCallback } from "react";
 import type { Card, CardPriority } from "@/types/database";
+import { getCardAssigneeIds } from "@/lib/card-assignees";
 
 interface UseCardActionsOptions {
   onSuccess?: (message: string) => void;
@@ -141,7 +142,7 @@ export function useCardActions({
             title: `${card.title} (Copy)`,
             description: card.description,
             priority: card.priority || "medium",
-            assigneeId: card.assigneeId,
+            assigneeIds: getCardAssigneeIds(card),
             dueDate: card.dueDate,
           }),
         });
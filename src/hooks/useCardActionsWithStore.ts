@@ -2,7 +2,9 @@
 
 import { useCallback } from "react";
 import { useAppActions, type StoreCard } from "@/store";
+import { t } from "@/lib/i18n";
 import type { Card, CardPriority } from "@/types/database";
+import { getCardAssigneeIds } from "@/lib/card-assignees";
 
 interface UseCardActionsWithStoreOptions {
   onSuccess?: (message: string) => void;
@@ -181,7 +183,7 @@ export function useCardActionsWithStore({
             title: `${card.title} (Copy)`,
             description: card.description,
             priority: card.priority || "medium",
-            assigneeId: card.assigneeId,
+            assigneeIds: getCardAssigneeIds(card),
             dueDate: card.dueDate,
           }),
         });
@@ -219,7 +221,7 @@ export function useCardActionsWithStore({
     async (card: Card, skipConfirmation = false) => {
       if (!skipConfirmation) {
         const confirmed = window.confirm(
-          `Are you sure you want to delete "${card.title}"? This action cannot be undone.`,
+          t("trash.deleteConfirm", { title: card.title }),
         );
         if (!confirmed) return;
       }
@@ -240,7 +242,7 @@ export function useCardActionsWithStore({
           throw new Error(errorData.error || "Failed to delete card");
         }
 
-        handleSuccess("Card deleted successfully");
+        handleSuccess("Card moved to trash");
       } catch (err) {
         // Revert optimistic update on error - add card back with store format
         const storeCard = {
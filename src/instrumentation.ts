@@ -4,5 +4,18 @@ export async function register() {
     // secret is missing or malformed, the process exits with a clear error
     // instead of failing later inside a request handler.
     await import("./lib/env");
+
+    // Cards whose trash retention ran out are purged in the background
+    const { scheduleTrashPurge } = await import("./lib/card-trash-schedule");
+    scheduleTrashPurge();
+
+    // Opted-in users get their notification digest by email
+    const { scheduleEmailDigests } =
+      await import("./lib/email-digest-schedule");
+    scheduleEmailDigests();
+
+    // Webhook deliveries whose retry timer was lost to a restart
+    const { scheduleWebhookRetries } = await import("./lib/webhooks/schedule");
+    scheduleWebhookRetries();
   }
 }
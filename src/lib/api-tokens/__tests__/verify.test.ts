@@ -54,7 +54,47 @@ describe("authenticateBearerToken", () => {
         { id: "tok-1", user_id: "user-1", token_hash: `hashed:${FULL_TOKEN}` },
       ]) as never,
     });
-    expect(result).toEqual({ tokenId: "tok-1", userId: "user-1" });
+    expect(result).toEqual({
+      tokenId: "tok-1",
+      userId: "user-1",
+      scopes: null,
+      boardIds: null,
+    });
+  });
+
+  it("returns the token's scopes and board restriction", async () => {
+    const result = await authenticateBearerToken(FULL_TOKEN, {
+      adminClient: adminClient([
+        {
+          id: "tok-1",
+          user_id: "user-1",
+          token_hash: `hashed:${FULL_TOKEN}`,
+          scopes: ["cards:read", "not-a-scope"],
+          board_ids: ["board-1"],
+          expires_at: "2999-01-01T00:00:00Z",
+        },
+      ]) as never,
+    });
+    expect(result).toEqual({
+      tokenId: "tok-1",
+      userId: "user-1",
+      scopes: ["cards:read"],
+      boardIds: ["board-1"],
+    });
+  });
+
+  it("returns null when the token has expired", async () => {
+    const result = await authenticateBearerToken(FULL_TOKEN, {
+      adminClient: adminClient([
+        {
+          id: "tok-1",
+          user_id: "user-1",
+          token_hash: `hashed:${FULL_TOKEN}`,
+          expires_at: "2020-01-01T00:00:00Z",
+        },
+      ]) as never,
+    });
+    expect(result).toBeNull();
   });
 
   it("returns null when no row matches the prefix", async () => {
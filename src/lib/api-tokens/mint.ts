@@ -1,6 +1,7 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { generateToken } from "./format";
 import { hashToken } from "./hash";
+import type { ApiTokenScope } from "./scopes";
 
 export interface MintResult {
   token: string;
@@ -9,6 +10,9 @@ export interface MintResult {
     name: string;
     prefix: string;
     createdAt: string;
+    scopes: ApiTokenScope[] | null;
+    boardIds: string[] | null;
+    expiresAt: string | null;
   };
 }
 
@@ -16,6 +20,9 @@ export async function mintToken(args: {
   userId: string;
   name: string;
   supabase: SupabaseClient;
+  scopes?: ApiTokenScope[] | null;
+  boardIds?: string[] | null;
+  expiresAt?: string | null;
 }): Promise<MintResult> {
   const token = generateToken();
   const prefix = token.slice(0, 8);
@@ -28,8 +35,11 @@ export async function mintToken(args: {
       name: args.name,
       token_hash: tokenHash,
       prefix,
+      scopes: args.scopes ?? null,
+      board_ids: args.boardIds ?? null,
+      expires_at: args.expiresAt ?? null,
     })
-    .select("id, name, prefix, created_at")
+    .select("id, name, prefix, created_at, scopes, board_ids, expires_at")
     .single();
 
   if (error || !data) {
@@ -45,6 +55,9 @@ export async function mintToken(args: {
       name: data.name,
       prefix,
       createdAt: data.created_at,
+      scopes: data.scopes ?? null,
+      boardIds: data.board_ids ?? null,
+      expiresAt: data.expires_at ?? null,
     },
   };
 }
@@ -0,0 +1,79 @@
+export const API_TOKEN_SCOPES = [
+  "boards:read",
+  "boards:write",
+  "cards:read",
+  "cards:write",
+  "changesets:write",
+] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/**
+ * Restrictions carried by a bearer token. `null` means unrestricted, which is
+ * what every token minted before scopes existed has.
+ */
+export interface TokenRestrictions {
+  scopes: ApiTokenScope[] | null;
+  boardIds: string[] | null;
+}
+
+export function isApiTokenScope(value: string): value is ApiTokenScope {
+  return (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * `x:write` implies `x:read`; a token without scopes has full access.
+ */
+export function tokenHasScope(
+  scopes: readonly ApiTokenScope[] | null,
+  required: ApiTokenScope,
+): boolean {
+  if (scopes === null) return true;
+  if (scopes.includes(required)) return true;
+  if (required.endsWith(":read")) {
+    const write = required.replace(/:read$/, ":write");
+    return isApiTokenScope(write) && scopes.includes(write);
+  }
+  return false;
+}
+
+export function tokenAllowsBoard(
+  boardIds: readonly string[] | null,
+  boardId: string,
+): boolean {
+  return boardIds === null || boardIds.includes(boardId);
+}
+
+export function isTokenExpired(
+  expiresAt: string | null | undefined,
+  now: Date = new Date(),
+): boolean {
+  if (!expiresAt) return false;
+  return new Date(expiresAt).getTime() <= now.getTime();
+}
+
+// The Supabase client handed out for a bearer request is created per request,
+// so the token's board restriction can ride along with it. This lets
+// board-access enforce `board_ids` without threading the token through every
+// route.
+const clientRestrictions = new WeakMap<object, TokenRestrictions>();
+
+export function attachTokenRestrictions(
+  client: object,
+  restrictions: TokenRestrictions,
+): void {
+  clientRestrictions.set(client, restrictions);
+}
+
+export function getTokenRestrictions(client: object): TokenRestrictions | null {
+  return clientRestrictions.get(client) ?? null;
+}
+
+/**
+ * True unless `client` belongs to a token that is restricted to other boards.
+ * Cookie-session clients are never restricted.
+ */
+export function clientCanAccessBoard(client: object, boardId: string): boolean {
+  const restrictions = getTokenRestrictions(client);
+  return !restrictions || tokenAllowsBoard(restrictions.boardIds, boardId);
+}
@@ -1,10 +1,22 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { parsePrefix } from "./format";
 import { verifyToken } from "./hash";
+import { isApiTokenScope, isTokenExpired, type ApiTokenScope } from "./scopes";
 
 export interface AuthenticatedToken {
   tokenId: string;
   userId: string;
+  scopes: ApiTokenScope[] | null;
+  boardIds: string[] | null;
+}
+
+interface TokenCandidate {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  scopes?: string[] | null;
+  board_ids?: string[] | null;
+  expires_at?: string | null;
 }
 
 interface Args {
@@ -20,25 +32,24 @@ export async function authenticateBearerToken(
 
   const { data: candidates } = await args.adminClient
     .from("api_tokens")
-    .select("id, user_id, token_hash")
+    .select("id, user_id, token_hash, scopes, board_ids, expires_at")
     .eq("prefix", prefix)
     .is("revoked_at", null);
 
   if (!candidates || candidates.length === 0) return null;
 
-  let matched: { id: string; user_id: string } | null = null;
-  for (const c of candidates as {
-    id: string;
-    user_id: string;
-    token_hash: string;
-  }[]) {
+  let matched: TokenCandidate | null = null;
+  for (const c of candidates as TokenCandidate[]) {
     if (await verifyToken(plain, c.token_hash)) {
-      matched = { id: c.id, user_id: c.user_id };
+      matched = c;
       break;
     }
   }
   if (!matched) return null;
 
+  // Expired tokens are treated exactly like revoked ones.
+  if (isTokenExpired(matched.expires_at)) return null;
+
   const { data: user } = await args.adminClient
     .from("users")
     .select("id, api_access_enabled")
@@ -52,5 +63,11 @@ export async function authenticateBearerToken(
     .update({ last_used_at: new Date().toISOString() })
     .eq("id", matched.id);
 
-  return { tokenId: matched.id, userId: matched.user_id };
+  return {
+    tokenId: matched.id,
+    userId: matched.user_id,
+    // Unknown scope strings are dropped rather than widening access.
+    scopes: matched.scopes ? matched.scopes.filter(isApiTokenScope) : null,
+    boardIds: matched.board_ids ?? null,
+  };
 }
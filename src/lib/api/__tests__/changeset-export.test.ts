@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { ChangesetSchema } from "../changeset-schema";
+import { buildChangesetExport, toChangesetTitle } from "../changeset-export";
+
+const card = (
+  id: string,
+  columnId: number,
+  position: number,
+  overrides: Record<string, unknown> = {},
+) => ({
+  id,
+  column_id: columnId,
+  title: `Card ${id}`,
+  description: null,
+  priority: "medium" as const,
+  due_date: null,
+  position,
+  ...overrides,
+});
+
+describe("toChangesetTitle", () => {
+  it("strips characters TitleSchema rejects and cuts to 80 chars", () => {
+    expect(toChangesetTitle("Ship 🚀 it", "x")).toBe("Ship it");
+    expect(Array.from(toChangesetTitle("a".repeat(120), "x"))).toHaveLength(80);
+  });
+
+  it("falls back when nothing is left", () => {
+    expect(toChangesetTitle("🚀", "Card")).toBe("Card");
+  });
+});
+
+describe("buildChangesetExport", () => {
+  it("produces a document that ChangesetSchema accepts", () => {
+    const result = buildChangesetExport({
+      board: { name: "Roadmap", description: "Q3" },
+      columns: [
+        { id: 2, title: "Done", position: 5 },
+        { id: 1, title: "Backlog", position: 1 },
+      ],
+      cards: [
+        card("b", 1, 2, { due_date: "2026-05-01T00:00:00" }),
+        card("a", 1, 1, { priority: "high" }),
+        card("c", 2, 1),
+      ],
+      subtasks: [
+        { card_id: "a", title: "second", position: 2 },
+        { card_id: "a", title: "first", position: 1 },
+      ],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(ChangesetSchema.safeParse(result.changeset).success).toBe(true);
+    expect(result.changeset.columns).toEqual([
+      { title: "Backlog", position: 1 },
+      { title: "Done", position: 2 },
+    ]);
+    expect(result.changeset.cards?.map((c) => c.title)).toEqual([
+      "Card a",
+      "Card b",
+      "Card c",
+    ]);
+    expect(result.changeset.cards?.[0]).toMatchObject({
+      columnRef: "Backlog",
+      priority: "high",
+      subtasks: [{ title: "first" }, { title: "second" }],
+    });
+    expect(result.changeset.cards?.[1]?.dueDate).toBe(
+      "2026-05-01T00:00:00.000Z",
+    );
+  });
+
+  it("de-duplicates column titles", () => {
+    const result = buildChangesetExport({
+      board: { name: "B", description: null },
+      columns: [
+        { id: 1, title: "Todo", position: 1 },
+        { id: 2, title: "Todo", position: 2 },
+      ],
+      cards: [card("a", 2, 1)],
+      subtasks: [],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.changeset.columns.map((c) => c.title)).toEqual([
+      "Todo",
+      "Todo (2)",
+    ]);
+    expect(result.changeset.cards?.[0]?.columnRef).toBe("Todo (2)");
+  });
+
+  it("fails when the board exceeds changeset limits", () => {
+    const result = buildChangesetExport({
+      board: { name: "B", description: null },
+      columns: [],
+      cards: [],
+      subtasks: [],
+    });
+    expect(result.ok).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { ChangesetSchema } from "../changeset-schema";
+import { planBoardChangeset } from "../changeset-plan";
+
+const NOW = new Date("2026-06-01T00:00:00Z");
+
+describe("planBoardChangeset", () => {
+  it("groups cards under their columns with per-column positions", () => {
+    const plan = planBoardChangeset(
+      ChangesetSchema.parse({
+        board: { name: "Q3" },
+        columns: [
+          { title: "Done", position: 2 },
+          { title: "Backlog", position: 1 },
+        ],
+        cards: [
+          { columnRef: "Backlog", title: "A", subtasks: [{ title: "s" }] },
+          { columnRef: "Done", title: "B" },
+          { columnRef: "Backlog", title: "C" },
+        ],
+      }),
+      NOW,
+    );
+
+    expect(plan.board).toEqual({
+      name: "Q3",
+      description: null,
+      groupId: null,
+    });
+    expect(plan.columns.map((c) => c.title)).toEqual(["Backlog", "Done"]);
+    expect(plan.columns[0]?.cards.map((c) => [c.title, c.position])).toEqual([
+      ["A", 1],
+      ["C", 2],
+    ]);
+    expect(plan.counts).toEqual({ columns: 2, cards: 3, subtasks: 1 });
+    expect(plan.warnings).toEqual([]);
+  });
+
+  it("warns about duplicates, shared positions and past due dates", () => {
+    const plan = planBoardChangeset(
+      ChangesetSchema.parse({
+        board: { name: "Q3" },
+        columns: [
+          { title: "Backlog", position: 1 },
+          { title: "Doing", position: 1 },
+        ],
+        cards: [
+          { columnRef: "Backlog", title: "A" },
+          {
+            columnRef: "Backlog",
+            title: "A",
+            dueDate: "2026-01-01T00:00:00Z",
+            subtasks: [{ title: "s" }, { title: "s" }],
+          },
+        ],
+      }),
+      NOW,
+    );
+
+    expect(plan.warnings.map((w) => w.at)).toEqual([
+      "columns.1.position",
+      "cards.1.title",
+      "cards.1.dueDate",
+      "cards.1.subtasks.1.title",
+    ]);
+  });
+});
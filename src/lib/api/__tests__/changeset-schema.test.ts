@@ -1,5 +1,9 @@
 import { describe, it, expect } from "vitest";
-import { ChangesetSchema, TitleSchema } from "../changeset-schema";
+import {
+  BoardSyncChangesetSchema,
+  ChangesetSchema,
+  TitleSchema,
+} from "../changeset-schema";
 
 describe("TitleSchema", () => {
   it("accepts a normal title", () => {
@@ -74,3 +78,39 @@ describe("ChangesetSchema", () => {
     expect(r.cards?.[0]?.priority).toBe("medium");
   });
 });
+
+describe("BoardSyncChangesetSchema", () => {
+  it("accepts a cards-only payload referencing existing columns", () => {
+    const r = BoardSyncChangesetSchema.parse({
+      cards: [{ externalRef: "T-1", columnRef: "Doing", title: "Plan" }],
+    });
+    expect(r.cards?.[0]?.externalRef).toBe("T-1");
+  });
+
+  it("leaves priority unset so matched cards keep theirs", () => {
+    const r = BoardSyncChangesetSchema.parse({
+      cards: [{ columnRef: "Backlog", title: "x" }],
+    });
+    expect(r.cards?.[0]?.priority).toBeUndefined();
+  });
+
+  it("rejects duplicate card ids and externalRefs", () => {
+    const id = "3fa85f64-5717-4562-b3fc-2c963f66afa6";
+    expect(() =>
+      BoardSyncChangesetSchema.parse({
+        cards: [
+          { id, columnRef: "A", title: "x" },
+          { id, columnRef: "A", title: "y" },
+        ],
+      }),
+    ).toThrow(/more than once/);
+    expect(() =>
+      BoardSyncChangesetSchema.parse({
+        cards: [
+          { externalRef: "T-1", columnRef: "A", title: "x" },
+          { externalRef: "T-1", columnRef: "A", title: "y" },
+        ],
+      }),
+    ).toThrow(/more than once/);
+  });
+});
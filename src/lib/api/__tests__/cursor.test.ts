@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { afterCursorFilter, decodeCursor, encodeCursor } from "../cursor";
+
+describe("list cursors", () => {
+  const cursor = {
+    createdAt: "2026-04-20T12:00:00.123456",
+    id: "3fa85f64-5717-4562-b3fc-2c963f66afa6",
+  };
+
+  it("round-trips through encode/decode", () => {
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("produces URL-safe strings", () => {
+    expect(encodeCursor(cursor)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(decodeCursor("not-a-cursor")).toBeNull();
+    expect(
+      decodeCursor(Buffer.from('{"a":1}').toString("base64url")),
+    ).toBeNull();
+    expect(
+      decodeCursor(Buffer.from('["nope","x"]').toString("base64url")),
+    ).toBeNull();
+  });
+
+  it("rejects cursors that would inject into the keyset filter", () => {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+    expect(
+      decodeCursor(
+        encode([cursor.createdAt, 'x"),deleted_at.is.null,id.gt.("']),
+      ),
+    ).toBeNull();
+    expect(
+      decodeCursor(encode(['2026-04-20",id.gt."0', cursor.id])),
+    ).toBeNull();
+    expect(
+      decodeCursor(encode(["2026-04-20T12:00:00.123456+00:00", cursor.id])),
+    ).toEqual({ createdAt: "2026-04-20T12:00:00.123456+00:00", id: cursor.id });
+  });
+
+  it("builds a strict keyset filter", () => {
+    expect(afterCursorFilter(cursor)).toBe(
+      'created_at.gt."2026-04-20T12:00:00.123456",and(created_at.eq."2026-04-20T12:00:00.123456",id.gt."3fa85f64-5717-4562-b3fc-2c963f66afa6")',
+    );
+  });
+});
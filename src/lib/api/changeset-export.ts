@@ -0,0 +1,156 @@
+import { ChangesetSchema, type Changeset } from "./changeset-schema";
+
+/**
+ * Serialises a board into a `ChangesetSchema` document so it can be re-created
+ * with `POST /api/changesets/board` (same or another instance).
+ *
+ * The changeset format is stricter than the database, so the export is lossy
+ * where it has to be: titles are stripped of characters TitleSchema rejects
+ * and cut to 80 characters, duplicate column titles get a " (2)" suffix, and
+ * descriptions are cut to the schema maximum. Group membership, assignees,
+ * labels, comments and completion state are not part of the format.
+ */
+
+export interface ExportBoardRow {
+  name: string;
+  description: string | null;
+}
+
+export interface ExportColumnRow {
+  id: number;
+  title: string;
+  position: number;
+}
+
+export interface ExportCardRow {
+  id: string;
+  column_id: number;
+  title: string;
+  description: string | null;
+  priority: "high" | "medium" | "low" | null;
+  due_date: string | null;
+  position: number;
+}
+
+export interface ExportSubtaskRow {
+  card_id: string;
+  title: string;
+  position: number;
+}
+
+export type ChangesetExportResult =
+  | { ok: true; changeset: Changeset }
+  | { ok: false; error: string; details?: unknown };
+
+const TITLE_MAX = 80;
+const BOARD_DESCRIPTION_MAX = 2000;
+const CARD_DESCRIPTION_MAX = 8000;
+const FORBIDDEN_TITLE_CHARS = /[^\p{L}\p{N}\p{P}\p{Zs}]/gu;
+
+export function toChangesetTitle(raw: string, fallback: string): string {
+  const cleaned = raw
+    .normalize("NFC")
+    .replace(FORBIDDEN_TITLE_CHARS, " ")
+    .replace(/\p{Zs}+/gu, " ")
+    .trim();
+  // Cut by code point so surrogate pairs are never split
+  const cut = Array.from(cleaned).slice(0, TITLE_MAX).join("").trim();
+  return cut || fallback;
+}
+
+function truncate(value: string | null, max: number): string | undefined {
+  if (!value) return undefined;
+  return value.length > max ? value.slice(0, max) : value;
+}
+
+// cards.due_date is a timestamp without time zone; the schema wants an
+// ISO string with a designator
+function toIsoDateTime(value: string | null): string | undefined {
+  if (!value) return undefined;
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(value);
+  const date = new Date(hasZone ? value : `${value}Z`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function buildChangesetExport(input: {
+  board: ExportBoardRow;
+  columns: ExportColumnRow[];
+  cards: ExportCardRow[];
+  subtasks: ExportSubtaskRow[];
+}): ChangesetExportResult {
+  const columns = [...input.columns].sort((a, b) => a.position - b.position);
+
+  const titleByColumnId = new Map<number, string>();
+  const usedTitles = new Set<string>();
+  for (const column of columns) {
+    const base = toChangesetTitle(column.title, "Column");
+    let title = base;
+    for (let n = 2; usedTitles.has(title); n++) {
+      const suffix = ` (${n})`;
+      title = `${Array.from(base)
+        .slice(0, TITLE_MAX - suffix.length)
+        .join("")}${suffix}`;
+    }
+    usedTitles.add(title);
+    titleByColumnId.set(column.id, title);
+  }
+
+  const subtasksByCard = new Map<string, ExportSubtaskRow[]>();
+  for (const subtask of input.subtasks) {
+    const list = subtasksByCard.get(subtask.card_id) ?? [];
+    list.push(subtask);
+    subtasksByCard.set(subtask.card_id, list);
+  }
+
+  const columnOrder = new Map(columns.map((c, i) => [c.id, i]));
+  const cards = [...input.cards]
+    .filter((card) => titleByColumnId.has(card.column_id))
+    .sort(
+      (a, b) =>
+        (columnOrder.get(a.column_id) ?? 0) -
+          (columnOrder.get(b.column_id) ?? 0) || a.position - b.position,
+    )
+    .map((card) => {
+      const subtasks = (subtasksByCard.get(card.id) ?? [])
+        .sort((a, b) => a.position - b.position)
+        .map((s) => ({ title: toChangesetTitle(s.title, "Subtask") }));
+      const description = truncate(card.description, CARD_DESCRIPTION_MAX);
+      const dueDate = toIsoDateTime(card.due_date);
+      return {
+        columnRef: titleByColumnId.get(card.column_id)!,
+        title: toChangesetTitle(card.title, "Card"),
+        ...(description !== undefined && { description }),
+        priority: card.priority ?? "medium",
+        ...(dueDate !== undefined && { dueDate }),
+        ...(subtasks.length > 0 && { subtasks }),
+      };
+    });
+
+  const description = truncate(input.board.description, BOARD_DESCRIPTION_MAX);
+  const document = {
+    board: {
+      name: toChangesetTitle(input.board.name, "Board"),
+      ...(description !== undefined && { description }),
+    },
+    // Positions are renumbered so gaps and ties from drag-and-drop vanish
+    columns: columns.map((column, i) => ({
+      title: titleByColumnId.get(column.id)!,
+      position: i + 1,
+    })),
+    cards,
+  };
+
+  // Limits (columns, cards, subtasks per card) can't be fixed without
+  // dropping data, so they surface as an error instead
+  const validation = ChangesetSchema.safeParse(document);
+  if (!validation.success) {
+    const first = validation.error.issues[0];
+    return {
+      ok: false,
+      error: `Board cannot be expressed as a changeset: ${first?.path.join(".") || "document"} — ${first?.message ?? "invalid"}`,
+      details: validation.error.issues,
+    };
+  }
+
+  return { ok: true, changeset: validation.data };
+}
@@ -0,0 +1,114 @@
+import type { Changeset } from "./changeset-schema";
+
+/**
+ * What `create_board_changeset` would insert for a validated changeset, used
+ * by `POST /api/changesets/board?dryRun=true`. Card positions mirror the RPC:
+ * 1-indexed per column, in request order.
+ */
+export interface ChangesetPlan {
+  board: { name: string; description: string | null; groupId: string | null };
+  columns: {
+    title: string;
+    position: number;
+    cards: {
+      title: string;
+      description: string | null;
+      priority: "high" | "medium" | "low";
+      dueDate: string | null;
+      position: number;
+      subtasks: { title: string }[];
+    }[];
+  }[];
+  counts: { columns: number; cards: number; subtasks: number };
+  warnings: ChangesetWarning[];
+}
+
+/** Not an error — the changeset would still be applied as-is. */
+export interface ChangesetWarning {
+  at: string;
+  message: string;
+}
+
+export function planBoardChangeset(
+  changeset: Changeset,
+  now: Date = new Date(),
+): ChangesetPlan {
+  const warnings: ChangesetWarning[] = [];
+
+  const seenPositions = new Map<number, string>();
+  changeset.columns.forEach((column, i) => {
+    const other = seenPositions.get(column.position);
+    if (other !== undefined) {
+      warnings.push({
+        at: `columns.${i}.position`,
+        message: `column "${column.title}" shares position ${column.position} with "${other}"`,
+      });
+    } else {
+      seenPositions.set(column.position, column.title);
+    }
+  });
+
+  const columns: ChangesetPlan["columns"] = changeset.columns.map((c) => ({
+    title: c.title,
+    position: c.position,
+    cards: [],
+  }));
+  const byTitle = new Map(columns.map((c) => [c.title, c]));
+
+  let subtaskCount = 0;
+  (changeset.cards ?? []).forEach((card, i) => {
+    const column = byTitle.get(card.columnRef);
+    // Unreachable after ChangesetSchema validation
+    if (!column) return;
+
+    if (column.cards.some((c) => c.title === card.title)) {
+      warnings.push({
+        at: `cards.${i}.title`,
+        message: `column "${column.title}" already gets a card titled "${card.title}"`,
+      });
+    }
+    if (card.dueDate && new Date(card.dueDate).getTime() < now.getTime()) {
+      warnings.push({
+        at: `cards.${i}.dueDate`,
+        message: `dueDate ${card.dueDate} is in the past`,
+      });
+    }
+
+    const subtasks = (card.subtasks ?? []).map((s) => ({ title: s.title }));
+    const subtaskTitles = new Set<string>();
+    subtasks.forEach((s, j) => {
+      if (subtaskTitles.has(s.title)) {
+        warnings.push({
+          at: `cards.${i}.subtasks.${j}.title`,
+          message: `duplicate subtask "${s.title}"`,
+        });
+      }
+      subtaskTitles.add(s.title);
+    });
+    subtaskCount += subtasks.length;
+
+    column.cards.push({
+      title: card.title,
+      description: card.description ?? null,
+      priority: card.priority,
+      dueDate: card.dueDate ?? null,
+      position: column.cards.length + 1,
+      subtasks,
+    });
+  });
+
+  return {
+    board: {
+      name: changeset.board.name,
+      description: changeset.board.description ?? null,
+      groupId: changeset.board.groupId ?? null,
+    },
+    columns: [...columns].sort((a, b) => a.position - b.position),
+    counts: {
+      columns: columns.length,
+      cards: changeset.cards?.length ?? 0,
+      subtasks: subtaskCount,
+    },
+    warnings,
+  };
+}
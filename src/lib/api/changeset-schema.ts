@@ -74,3 +74,88 @@ export const ChangesetSchema = z
   });
 
 export type Changeset = z.infer<typeof ChangesetSchema>;
+
+// Sync mode (PATCH /api/changesets/board/:id): the same shape, but applied to
+// an existing board. Columns are matched by title, cards by `id` or
+// `externalRef`, subtasks by title within their card. Fields left out of a
+// matched card are not touched, so `priority` has no default here. Nothing is
+// ever deleted.
+export const ExternalRefSchema = z.string().trim().min(1).max(100);
+
+export const BoardSyncChangesetSchema = z
+  .object({
+    board: z
+      .object({
+        name: TitleSchema.optional(),
+        description: z.string().max(2000).optional(),
+      })
+      .optional(),
+    columns: z
+      .array(
+        z.object({
+          title: TitleSchema,
+          position: z.number().int().positive(),
+        }),
+      )
+      .max(20)
+      .optional(),
+    cards: z
+      .array(
+        z.object({
+          id: z.string().uuid().optional(),
+          externalRef: ExternalRefSchema.optional(),
+          columnRef: TitleSchema,
+          title: TitleSchema,
+          description: z.string().max(8000).optional(),
+          priority: z.enum(["high", "medium", "low"]).optional(),
+          dueDate: z.string().datetime().nullable().optional(),
+          subtasks: z
+            .array(
+              z.object({
+                title: TitleSchema,
+                completed: z.boolean().optional(),
+              }),
+            )
+            .max(50)
+            .optional(),
+        }),
+      )
+      .max(200)
+      .optional(),
+  })
+  .superRefine((data, ctx) => {
+    const titles = new Set((data.columns ?? []).map((c) => c.title));
+    if (data.columns && titles.size !== data.columns.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["columns"],
+        message: "duplicate column titles in request",
+      });
+    }
+    const ids = new Set<string>();
+    const refs = new Set<string>();
+    (data.cards ?? []).forEach((card, i) => {
+      if (card.id) {
+        if (ids.has(card.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["cards", i, "id"],
+            message: `card id "${card.id}" appears more than once`,
+          });
+        }
+        ids.add(card.id);
+      }
+      if (card.externalRef) {
+        if (refs.has(card.externalRef)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["cards", i, "externalRef"],
+            message: `externalRef "${card.externalRef}" appears more than once`,
+          });
+        }
+        refs.add(card.externalRef);
+      }
+    });
+  });
+
+export type BoardSyncChangeset = z.infer<typeof BoardSyncChangesetSchema>;
@@ -0,0 +1,48 @@
+/**
+ * Opaque keyset cursors for list endpoints ordered by `(created_at, id)`.
+ * The cursor is the last row's sort key, base64url-encoded, so pages stay
+ * stable when rows are inserted or deleted between requests.
+ */
+import { z } from "zod";
+
+export interface ListCursor {
+  createdAt: string;
+  id: string;
+}
+
+// Both values end up inside a PostgREST filter string (afterCursorFilter), so
+// only an ISO timestamp and a UUID are accepted.
+const cursorSchema = z.tuple([
+  z.iso.datetime({ offset: true, local: true }),
+  z.string().uuid(),
+]);
+
+export function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString(
+    "base64url",
+  );
+}
+
+/** Returns `null` for anything that isn't a cursor produced by `encodeCursor`. */
+export function decodeCursor(raw: string): ListCursor | null {
+  try {
+    const parsed = cursorSchema.safeParse(
+      JSON.parse(Buffer.from(raw, "base64url").toString("utf8")),
+    );
+    if (!parsed.success) return null;
+    const [createdAt, id] = parsed.data;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PostgREST `or` filter selecting rows strictly after `cursor` in
+ * `(created_at, id)` order.
+ */
+export function afterCursorFilter(cursor: ListCursor): string {
+  const createdAt = `"${cursor.createdAt}"`;
+  const id = `"${cursor.id}"`;
+  return `created_at.gt.${createdAt},and(created_at.eq.${createdAt},id.gt.${id})`;
+}
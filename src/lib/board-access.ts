@@ -1,9 +1,15 @@
 import { canEditBoard } from "@/lib/board-permissions";
+import {
+  clientCanAccessBoard,
+  getTokenRestrictions,
+} from "@/lib/api-tokens/scopes";
 import type { BoardMemberRole } from "@/types/database";
 
 type BoardAccessRow = {
   owner_id?: string | null;
   role?: BoardMemberRole | null;
+  board_id?: string | null;
+  card_id?: string | null;
 };
 
 type BoardAccessResult = {
@@ -27,6 +33,11 @@ export async function getBoardRoleForUser(
   boardId: string,
   userId: string,
 ): Promise<BoardMemberRole | null> {
+  // Board-restricted API tokens see other boards as non-existent
+  if (!clientCanAccessBoard(supabase, boardId)) {
+    return null;
+  }
+
   const { data: board, error: boardError } = await supabase
     .from("boards")
     .select("owner_id")
@@ -83,3 +94,53 @@ export async function getBoardMutationAuthorization(
 
   return { ok: true, role };
 }
+
+/**
+ * Checks a row that belongs to a board (a card or a label) against a
+ * board-restricted API token. Unrestricted clients skip the lookup.
+ */
+export async function clientCanAccessBoardRow(
+  supabase: BoardAccessClient,
+  table: "cards" | "labels",
+  id: string,
+): Promise<boolean> {
+  if (!getTokenRestrictions(supabase)?.boardIds) {
+    return true;
+  }
+
+  const { data, error } = await supabase
+    .from(table)
+    .select("board_id")
+    .eq("id", id)
+    .single();
+
+  if (error || !data?.board_id) {
+    return false;
+  }
+
+  return clientCanAccessBoard(supabase, data.board_id);
+}
+
+/**
+ * Same as `clientCanAccessBoardRow`, for comments (which hang off a card).
+ */
+export async function clientCanAccessComment(
+  supabase: BoardAccessClient,
+  commentId: string,
+): Promise<boolean> {
+  if (!getTokenRestrictions(supabase)?.boardIds) {
+    return true;
+  }
+
+  const { data, error } = await supabase
+    .from("comments")
+    .select("card_id")
+    .eq("id", commentId)
+    .single();
+
+  if (error || !data?.card_id) {
+    return false;
+  }
+
+  return clientCanAccessBoardRow(supabase, "cards", data.card_id);
+}
@@ -1,5 +1,6 @@
 import type { BoardMemberRole } from "@/types/database";
 import { formatDisplayDate } from "@/lib/date-format";
+import { getCardAssigneeIds } from "@/lib/card-assignees";
 
 type DueDateInput = Date | string | null | undefined;
 
@@ -108,12 +109,12 @@ export function isDueSoon(
 // ---------------------------------------------------------------------------
 
 /**
- * Returns true when the card is assigned to the given user.
+ * Returns true when the given user is one of the card's assignees.
  */
 export function isAssignedToUser(
-  card: { assigneeId?: string | null },
+  card: { assigneeId?: string | null; assigneeIds?: string[] | null },
   userId: string | null | undefined,
 ): boolean {
   if (!userId) return false;
-  return card.assigneeId === userId;
+  return getCardAssigneeIds(card).includes(userId);
 }
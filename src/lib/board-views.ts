@@ -0,0 +1,188 @@
+import { z } from "zod";
+
+export const BOARD_VIEW_MODES = ["board", "table", "timeline"] as const;
+export type BoardViewMode = (typeof BOARD_VIEW_MODES)[number];
+
+export const BOARD_DUE_DATE_FILTERS = [
+  "overdue",
+  "today",
+  "week",
+  "none",
+] as const;
+export type BoardDueDateFilter = (typeof BOARD_DUE_DATE_FILTERS)[number];
+
+const BOARD_SORT_KEYS = [
+  "priority",
+  "dueDate",
+  "title",
+  "created",
+  "updated",
+] as const;
+
+export const boardFiltersSchema = z.object({
+  priorities: z.array(z.enum(["high", "medium", "low"])).max(3),
+  assignees: z.array(z.string().min(1).max(100)).max(100),
+  labels: z.array(z.string().min(1).max(100)).max(100),
+  dueDate: z.enum(BOARD_DUE_DATE_FILTERS).nullable(),
+  search: z.string().max(200),
+  sortBy: z.enum(BOARD_SORT_KEYS),
+  sortOrder: z.enum(["asc", "desc"]),
+});
+
+export type BoardFilterValues = z.infer<typeof boardFiltersSchema>;
+
+export const DEFAULT_BOARD_FILTERS: BoardFilterValues = {
+  priorities: [],
+  assignees: [],
+  labels: [],
+  dueDate: null,
+  search: "",
+  sortBy: "created",
+  sortOrder: "desc",
+};
+
+export interface BoardViewState {
+  filters: BoardFilterValues;
+  view: BoardViewMode;
+}
+
+// Query parameter names; kept short so shared links stay readable.
+const PARAMS = {
+  view: "view",
+  priorities: "priority",
+  assignees: "assignee",
+  labels: "label",
+  dueDate: "due",
+  search: "q",
+  sortBy: "sort",
+  sortOrder: "order",
+} as const;
+
+const VIEW_STATE_PARAMS = new Set<string>(Object.values(PARAMS));
+
+const readList = (params: URLSearchParams, name: string) =>
+  (params.get(name) ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+/**
+ * Read filters and view mode from a board URL. Unknown or invalid values
+ * fall back to the defaults instead of failing, so an old or hand-edited
+ * link still opens the board.
+ */
+export function parseBoardViewState(params: URLSearchParams): BoardViewState {
+  const pick = <T extends string>(
+    allowed: readonly T[],
+    value: string | null,
+  ): T | null =>
+    value && (allowed as readonly string[]).includes(value)
+      ? (value as T)
+      : null;
+
+  const candidate = {
+    priorities: readList(params, PARAMS.priorities).filter(
+      (value): value is BoardFilterValues["priorities"][number] =>
+        value === "high" || value === "medium" || value === "low",
+    ),
+    assignees: readList(params, PARAMS.assignees),
+    labels: readList(params, PARAMS.labels),
+    dueDate: pick(BOARD_DUE_DATE_FILTERS, params.get(PARAMS.dueDate)),
+    search: params.get(PARAMS.search) ?? "",
+    sortBy:
+      pick(BOARD_SORT_KEYS, params.get(PARAMS.sortBy)) ??
+      DEFAULT_BOARD_FILTERS.sortBy,
+    sortOrder:
+      pick(["asc", "desc"] as const, params.get(PARAMS.sortOrder)) ??
+      DEFAULT_BOARD_FILTERS.sortOrder,
+  };
+  const parsed = boardFiltersSchema.safeParse(candidate);
+
+  return {
+    filters: parsed.success ? parsed.data : DEFAULT_BOARD_FILTERS,
+    view: pick(BOARD_VIEW_MODES, params.get(PARAMS.view)) ?? "board",
+  };
+}
+
+/**
+ * Write filters and view mode into `base` (other parameters such as
+ * `cardId` are kept). Default values are left out so an unfiltered board
+ * keeps a clean URL.
+ */
+export function boardViewStateToSearchParams(
+  { filters, view }: BoardViewState,
+  base: URLSearchParams = new URLSearchParams(),
+): URLSearchParams {
+  const params = new URLSearchParams(base);
+  VIEW_STATE_PARAMS.forEach((name) => params.delete(name));
+
+  const search = filters.search.trim();
+  if (view !== "board") params.set(PARAMS.view, view);
+  if (filters.priorities.length > 0) {
+    params.set(PARAMS.priorities, filters.priorities.join(","));
+  }
+  if (filters.assignees.length > 0) {
+    params.set(PARAMS.assignees, filters.assignees.join(","));
+  }
+  if (filters.labels.length > 0) {
+    params.set(PARAMS.labels, filters.labels.join(","));
+  }
+  if (filters.dueDate) params.set(PARAMS.dueDate, filters.dueDate);
+  if (search) params.set(PARAMS.search, search);
+  if (filters.sortBy !== DEFAULT_BOARD_FILTERS.sortBy) {
+    params.set(PARAMS.sortBy, filters.sortBy);
+  }
+  if (filters.sortOrder !== DEFAULT_BOARD_FILTERS.sortOrder) {
+    params.set(PARAMS.sortOrder, filters.sortOrder);
+  }
+  return params;
+}
+
+/** True when both states show the same cards in the same way. */
+export function isSameBoardViewState(a: BoardViewState, b: BoardViewState) {
+  return (
+    boardViewStateToSearchParams(a).toString() ===
+    boardViewStateToSearchParams(b).toString()
+  );
+}
+
+export const SAVED_VIEW_SELECT =
+  "id, board_id, name, is_shared, filters, view_mode, created_by, created_at, updated_at";
+
+export interface SavedViewRow {
+  id: string;
+  board_id: string;
+  name: string;
+  is_shared: boolean;
+  filters: unknown;
+  view_mode: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Saved filters are re-validated on read: a view saved before a filter
+ * field existed gets that field's default.
+ */
+export function transformSavedViewRow(row: SavedViewRow) {
+  const filters = boardFiltersSchema.safeParse({
+    ...DEFAULT_BOARD_FILTERS,
+    ...(typeof row.filters === "object" ? row.filters : {}),
+  });
+  return {
+    id: row.id,
+    boardId: row.board_id,
+    name: row.name,
+    isShared: row.is_shared,
+    filters: filters.success ? filters.data : DEFAULT_BOARD_FILTERS,
+    viewMode: (BOARD_VIEW_MODES as readonly string[]).includes(row.view_mode)
+      ? (row.view_mode as BoardViewMode)
+      : "board",
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export type SavedBoardView = ReturnType<typeof transformSavedViewRow>;
@@ -0,0 +1,141 @@
+/**
+ * Card assignees: a card can be assigned to several people through
+ * `card_assignees`. `cards.assignee_id` stays the primary assignee — the
+ * one returned as `assigneeId` to clients that only know a single assignee —
+ * and always has a row in `card_assignees` as well (kept by a trigger).
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+
+export const MAX_CARD_ASSIGNEES = 10;
+
+export const assigneeIdsSchema = z
+  .array(z.string().min(1))
+  .max(MAX_CARD_ASSIGNEES, `At most ${MAX_CARD_ASSIGNEES} assignees`);
+
+/** PostgREST embed of a card's assignees; order with orderAssigneeIds. */
+export const CARD_ASSIGNEES_SELECT = `card_assignees (
+    user_id,
+    created_at
+  )`;
+
+export type CardAssigneeRow = { user_id: string; created_at: string };
+
+/** The primary assignee first, then everyone else in the order added. */
+export function orderAssigneeIds(
+  primaryId: string | null,
+  rows: CardAssigneeRow[] | null | undefined,
+): string[] {
+  const ids = [...(rows ?? [])]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((row) => row.user_id)
+    .filter((id) => id !== primaryId);
+  return primaryId ? [primaryId, ...ids] : ids;
+}
+
+/**
+ * Everyone a card on the client is assigned to. Cards from payloads without
+ * `assigneeIds` (older responses, realtime inserts) fall back to the
+ * primary assignee.
+ */
+export function getCardAssigneeIds(card: {
+  assigneeId?: string | null;
+  assigneeIds?: string[] | null;
+}): string[] {
+  if (card.assigneeIds && card.assigneeIds.length > 0) return card.assigneeIds;
+  return card.assigneeId ? [card.assigneeId] : [];
+}
+
+/**
+ * The assignee list a create or update request asks for, or undefined when
+ * it leaves assignees alone. `assigneeIds` wins; the older `assigneeId` on
+ * its own assigns just that person, and null unassigns everyone.
+ */
+export function resolveAssigneeInput(input: {
+  assigneeId?: string | null | undefined;
+  assigneeIds?: string[] | undefined;
+}): string[] | undefined {
+  if (input.assigneeIds !== undefined) return [...new Set(input.assigneeIds)];
+  if (input.assigneeId !== undefined) {
+    return input.assigneeId ? [input.assigneeId] : [];
+  }
+  return undefined;
+}
+
+/**
+ * Assignees per card, primary first. Non-throwing like loadBoardWatches: if
+ * the lookup fails, each card falls back to its primary assignee.
+ */
+export async function loadCardAssigneeIds(
+  supabase: SupabaseClient,
+  cards: { id: string; assignee_id: string | null }[],
+): Promise<Map<string, string[]>> {
+  const result = new Map(
+    cards.map((card) => [
+      card.id,
+      card.assignee_id ? [card.assignee_id] : ([] as string[]),
+    ]),
+  );
+  if (cards.length === 0) return result;
+
+  const { data, error } = await supabase
+    .from("card_assignees")
+    .select("card_id, user_id, created_at")
+    .in(
+      "card_id",
+      cards.map((card) => card.id),
+    );
+  if (error) {
+    console.error("[card-assignees] failed to load assignees:", error);
+    return result;
+  }
+
+  const rowsByCard = new Map<string, CardAssigneeRow[]>();
+  for (const row of (data ?? []) as (CardAssigneeRow & { card_id: string })[]) {
+    const rows = rowsByCard.get(row.card_id) ?? [];
+    rows.push(row);
+    rowsByCard.set(row.card_id, rows);
+  }
+  for (const card of cards) {
+    result.set(
+      card.id,
+      orderAssigneeIds(card.assignee_id, rowsByCard.get(card.id)),
+    );
+  }
+  return result;
+}
+
+/**
+ * Make `userIds` the card's assignees, given who was assigned before. The
+ * caller sets `cards.assignee_id` to the first of them in its own update.
+ * Returns the users that were added.
+ */
+export async function replaceCardAssignees(
+  supabase: SupabaseClient,
+  cardId: string,
+  userIds: string[],
+  previousIds: string[],
+): Promise<{ added: string[]; error: unknown }> {
+  const added = userIds.filter((id) => !previousIds.includes(id));
+  const removed = previousIds.filter((id) => !userIds.includes(id));
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from("card_assignees")
+      .delete()
+      .eq("card_id", cardId)
+      .in("user_id", removed);
+    if (error) return { added: [], error };
+  }
+
+  if (added.length > 0) {
+    // The primary may already have been added by the cards trigger
+    const { error } = await supabase.from("card_assignees").upsert(
+      added.map((userId) => ({ card_id: cardId, user_id: userId })),
+      { onConflict: "card_id,user_id", ignoreDuplicates: true },
+    );
+    if (error) return { added: [], error };
+  }
+
+  return { added, error: null };
+}
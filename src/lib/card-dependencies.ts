@@ -0,0 +1,215 @@
+/**
+ * Card dependencies: a `card_dependencies` row says that the blocker card
+ * has to be completed before the blocked card. Links may cross boards.
+ *
+ * A card with open (not completed) blockers is "blocked". Moving it into a
+ * done column succeeds with a warning, or is rejected when its board has
+ * `enforce_dependencies` set.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { single } from "@/lib/supabase/embed";
+
+export const DEPENDENCY_TYPES = ["blocks", "blocked_by"] as const;
+export type DependencyType = (typeof DEPENDENCY_TYPES)[number];
+
+/** Error code of the 409 returned when an enforced blocker stops a move. */
+export const CARD_BLOCKED_ERROR_CODE = "card_blocked";
+
+/** The card on the other end of a dependency, as shown in the card dialog. */
+export type DependencyCard = {
+  dependencyId: string;
+  cardId: string;
+  title: string;
+  boardId: string;
+  boardName: string | null;
+  columnId: number;
+  completedAt: string | null;
+};
+
+export type CardDependencies = {
+  blockedBy: DependencyCard[];
+  blocks: DependencyCard[];
+};
+
+type LinkedCardRow = {
+  id: string;
+  title: string;
+  board_id: string;
+  column_id: number;
+  completed_at: string | null;
+  boards: { name: string } | { name: string }[] | null;
+};
+
+type DependencyRow = {
+  id: string;
+  blocker_card_id: string;
+  blocked_card_id: string;
+  blocker: LinkedCardRow | LinkedCardRow[] | null;
+  blocked: LinkedCardRow | LinkedCardRow[] | null;
+};
+
+const LINKED_CARD_SELECT =
+  "id, title, board_id, column_id, completed_at, boards(name)";
+
+const DEPENDENCY_SELECT = `id, blocker_card_id, blocked_card_id, blocker:cards!card_dependencies_blocker_card_id_fkey(${LINKED_CARD_SELECT}), blocked:cards!card_dependencies_blocked_card_id_fkey(${LINKED_CARD_SELECT})`;
+
+/**
+ * Split the dependency rows of a card into the cards blocking it and the
+ * cards it blocks. Rows whose other card is not visible (RLS) are dropped.
+ */
+function toCardDependencies(
+  cardId: string,
+  rows: DependencyRow[],
+): CardDependencies {
+  const result: CardDependencies = { blockedBy: [], blocks: [] };
+  for (const row of rows) {
+    const isBlocked = row.blocked_card_id === cardId;
+    const other = single(isBlocked ? row.blocker : row.blocked);
+    if (!other) continue;
+    (isBlocked ? result.blockedBy : result.blocks).push({
+      dependencyId: row.id,
+      cardId: other.id,
+      title: other.title,
+      boardId: other.board_id,
+      boardName: single(other.boards)?.name ?? null,
+      columnId: other.column_id,
+      completedAt: other.completed_at,
+    });
+  }
+  const byTitle = (a: DependencyCard, b: DependencyCard) =>
+    a.title.localeCompare(b.title);
+  result.blockedBy.sort(byTitle);
+  result.blocks.sort(byTitle);
+  return result;
+}
+
+/**
+ * Load both directions of a card's links. With the caller's client, RLS
+ * hides links to cards the caller cannot see. Throws on query errors.
+ */
+export async function loadCardDependencies(
+  supabase: SupabaseClient,
+  cardId: string,
+): Promise<CardDependencies> {
+  const { data, error } = await supabase
+    .from("card_dependencies")
+    .select(DEPENDENCY_SELECT)
+    .or(`blocker_card_id.eq.${cardId},blocked_card_id.eq.${cardId}`);
+  if (error) throw error;
+  return toCardDependencies(cardId, (data ?? []) as unknown as DependencyRow[]);
+}
+
+/**
+ * Whether linking blocker → blocked would close a cycle, i.e. whether the
+ * blocked card already blocks the blocker, directly or transitively. Walks
+ * the links breadth-first from the blocked card, one query per level.
+ *
+ * Pass the admin client: a cycle may run through boards the caller cannot
+ * see. Throws on query errors.
+ */
+export async function wouldCreateDependencyCycle(
+  supabase: SupabaseClient,
+  blockerCardId: string,
+  blockedCardId: string,
+): Promise<boolean> {
+  if (blockerCardId === blockedCardId) return true;
+
+  const visited = new Set([blockedCardId]);
+  let frontier = [blockedCardId];
+  while (frontier.length > 0) {
+    const { data, error } = await supabase
+      .from("card_dependencies")
+      .select("blocked_card_id")
+      .in("blocker_card_id", frontier);
+    if (error) throw error;
+
+    const next: string[] = [];
+    for (const row of (data ?? []) as { blocked_card_id: string }[]) {
+      if (row.blocked_card_id === blockerCardId) return true;
+      if (visited.has(row.blocked_card_id)) continue;
+      visited.add(row.blocked_card_id);
+      next.push(row.blocked_card_id);
+    }
+    frontier = next;
+  }
+  return false;
+}
+
+/**
+ * Number of open blockers per card for the given cards; cards without open
+ * blockers are missing from the map. Pass the admin client so blockers on
+ * boards the caller cannot see still count; blockers in the trash do not.
+ *
+ * Non-throwing like recordCardEvents: a failed lookup is logged and treated
+ * as "no blockers", so board loads and moves never fail because of it.
+ */
+export async function getOpenBlockerCounts(
+  supabase: SupabaseClient,
+  cardIds: string[],
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (cardIds.length === 0) return counts;
+
+  try {
+    const { data, error } = await supabase
+      .from("card_dependencies")
+      .select(
+        "blocked_card_id, blocker:cards!card_dependencies_blocker_card_id_fkey(completed_at, deleted_at)",
+      )
+      .in("blocked_card_id", cardIds);
+    if (error) throw error;
+
+    type Blocker = {
+      completed_at: string | null;
+      deleted_at?: string | null;
+    };
+    for (const row of (data ?? []) as unknown as {
+      blocked_card_id: string;
+      blocker: Blocker | Blocker[] | null;
+    }[]) {
+      const blocker = single(row.blocker);
+      // Trashed blockers no longer hold anything up
+      if (!blocker || blocker.completed_at || blocker.deleted_at) continue;
+      counts.set(
+        row.blocked_card_id,
+        (counts.get(row.blocked_card_id) ?? 0) + 1,
+      );
+    }
+  } catch (error) {
+    console.error("[card-dependencies] blocker lookup failed:", error);
+  }
+  return counts;
+}
+
+/**
+ * Check cards that are about to be completed on one board for open
+ * blockers. `enforced` is true when the board turns the warning into a hard
+ * stop; it is only looked up when some card is blocked.
+ */
+export async function checkBlockedCompletion(
+  supabase: SupabaseClient,
+  boardId: string,
+  cardIds: string[],
+): Promise<{ blockedCardIds: string[]; enforced: boolean }> {
+  const counts = await getOpenBlockerCounts(supabase, cardIds);
+  const blockedCardIds = cardIds.filter((id) => counts.has(id));
+  if (blockedCardIds.length === 0) {
+    return { blockedCardIds, enforced: false };
+  }
+
+  const { data: board, error } = await supabase
+    .from("boards")
+    .select("enforce_dependencies")
+    .eq("id", boardId)
+    .single();
+  if (error) {
+    console.error("[card-dependencies] board lookup failed:", error);
+  }
+  return {
+    blockedCardIds,
+    enforced: Boolean(
+      (board as { enforce_dependencies?: boolean } | null)
+        ?.enforce_dependencies,
+    ),
+  };
+}
@@ -0,0 +1,148 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type CardEventType =
+  | "title_changed"
+  | "description_changed"
+  | "assignee_changed"
+  | "priority_changed"
+  | "due_date_changed"
+  | "start_date_changed"
+  | "moved"
+  | "completed"
+  | "reopened"
+  | "subtask_added"
+  | "subtask_renamed"
+  | "subtask_completed"
+  | "subtask_reopened"
+  | "subtask_deleted"
+  | "attachment_added"
+  | "attachment_deleted"
+  | "trashed"
+  | "restored";
+
+export type CardEventRow = {
+  card_id: string;
+  board_id: string;
+  actor_id: string;
+  event_type: CardEventType;
+  before: unknown;
+  after: unknown;
+};
+
+/**
+ * Insert one or more card history rows.
+ * Non-throwing: a history failure must never break the primary mutation.
+ * Uses the server-side Supabase client which bypasses RLS via the service role key.
+ */
+export async function recordCardEvents(
+  supabase: SupabaseClient,
+  rows: CardEventRow[],
+): Promise<void> {
+  if (rows.length === 0) return;
+  const { error } = await supabase.from("card_events").insert(rows);
+  if (error) {
+    console.error("[card-events] insert failed:", error.message);
+  }
+}
+
+type CardSnapshot = {
+  title: string;
+  description: string | null;
+  assignee_id: string | null;
+  /** Everyone assigned, primary first; compared when both snapshots have it. */
+  assignee_ids?: string[];
+  priority: string;
+  due_date: string | null;
+  start_date?: string | null;
+  column_id: number;
+  completed_at: string | null;
+};
+
+function toIso(value: string | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * Field-level history rows for a card update, comparing the row before and
+ * after the write. Only changed fields produce a row.
+ */
+export function diffCardEvents(
+  previous: CardSnapshot,
+  next: CardSnapshot,
+  context: {
+    cardId: string;
+    boardId: string;
+    actorId: string;
+    columnTitles?: { before?: string | null; after?: string | null };
+  },
+): CardEventRow[] {
+  const rows: CardEventRow[] = [];
+  const push = (type: CardEventType, before: unknown, after: unknown) =>
+    rows.push({
+      card_id: context.cardId,
+      board_id: context.boardId,
+      actor_id: context.actorId,
+      event_type: type,
+      before,
+      after,
+    });
+
+  if (previous.title !== next.title) {
+    push("title_changed", previous.title, next.title);
+  }
+  if ((previous.description ?? "") !== (next.description ?? "")) {
+    push("description_changed", previous.description, next.description);
+  }
+  if (previous.assignee_ids !== undefined && next.assignee_ids !== undefined) {
+    // Adding or removing a co-assignee is a change even when the primary
+    // stays; before and after then list every assignee.
+    const before = new Set(previous.assignee_ids);
+    if (
+      previous.assignee_id !== next.assignee_id ||
+      before.size !== new Set(next.assignee_ids).size ||
+      next.assignee_ids.some((id) => !before.has(id))
+    ) {
+      push("assignee_changed", previous.assignee_ids, next.assignee_ids);
+    }
+  } else if (previous.assignee_id !== next.assignee_id) {
+    push("assignee_changed", previous.assignee_id, next.assignee_id);
+  }
+  if (previous.priority !== next.priority) {
+    push("priority_changed", previous.priority, next.priority);
+  }
+  if (toIso(previous.due_date) !== toIso(next.due_date)) {
+    push("due_date_changed", toIso(previous.due_date), toIso(next.due_date));
+  }
+  // start_date is only compared when both snapshots selected it.
+  if (
+    previous.start_date !== undefined &&
+    next.start_date !== undefined &&
+    toIso(previous.start_date) !== toIso(next.start_date)
+  ) {
+    push(
+      "start_date_changed",
+      toIso(previous.start_date),
+      toIso(next.start_date),
+    );
+  }
+  if (previous.column_id !== next.column_id) {
+    push(
+      "moved",
+      {
+        columnId: previous.column_id,
+        columnTitle: context.columnTitles?.before ?? null,
+      },
+      {
+        columnId: next.column_id,
+        columnTitle: context.columnTitles?.after ?? null,
+      },
+    );
+  }
+  if (!previous.completed_at && next.completed_at) {
+    push("completed", null, toIso(next.completed_at));
+  } else if (previous.completed_at && !next.completed_at) {
+    push("reopened", toIso(previous.completed_at), null);
+  }
+
+  return rows;
+}
@@ -0,0 +1,78 @@
+/**
+ * Shared helpers for the card ↔ label join table (`card_labels`).
+ * Used by the board payload and the card label routes so every surface
+ * returns the same `{ cardId, labelId, createdAt, label }` shape.
+ */
+
+/** PostgREST select for card_labels rows with the embedded label. */
+export const CARD_LABEL_SELECT = `
+  card_id,
+  label_id,
+  created_at,
+  labels (
+    id,
+    board_id,
+    name,
+    color,
+    created_at
+  )
+`;
+
+type LabelRow = {
+  id: string;
+  board_id: string;
+  name: string;
+  color: string | null;
+  created_at: string;
+};
+
+export type CardLabelRow = {
+  card_id: string;
+  label_id: string;
+  created_at: string;
+  labels?: LabelRow | LabelRow[] | null;
+};
+
+export type CardLabelResponse = {
+  cardId: string;
+  labelId: string;
+  createdAt: string;
+  label: {
+    id: string;
+    boardId: string;
+    name: string;
+    color: string | null;
+    createdAt: string;
+  };
+};
+
+export function transformLabel(row: LabelRow) {
+  return {
+    id: row.id,
+    boardId: row.board_id,
+    name: row.name,
+    color: row.color,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Map card_labels rows (with embedded label) to the API shape.
+ * Rows whose label could not be resolved (e.g. hidden by RLS) are dropped.
+ */
+export function transformCardLabels(
+  rows: CardLabelRow[] | null | undefined,
+): CardLabelResponse[] {
+  return (rows ?? []).flatMap((row) => {
+    const embedded = Array.isArray(row.labels) ? row.labels[0] : row.labels;
+    if (!embedded) return [];
+    return [
+      {
+        cardId: row.card_id,
+        labelId: row.label_id,
+        createdAt: row.created_at,
+        label: transformLabel(embedded),
+      },
+    ];
+  });
+}
@@ -0,0 +1,174 @@
+/**
+ * Shared select + transform for the card read endpoints (`GET /api/cards`
+ * and `GET /api/cards/[id]`), so list and detail return the same card shape.
+ */
+import {
+  CARD_LABEL_SELECT,
+  transformCardLabels,
+  type CardLabelResponse,
+  type CardLabelRow,
+} from "@/lib/card-labels";
+import {
+  CARD_ASSIGNEES_SELECT,
+  orderAssigneeIds,
+  type CardAssigneeRow,
+} from "@/lib/card-assignees";
+import type { CardQueryContext, CardQuerySubject } from "@/lib/card-query";
+
+/** PostgREST select for a card with its labels and assignees. */
+export const CARD_READ_SELECT = `
+  id,
+  board_id,
+  column_id,
+  title,
+  description,
+  position,
+  start_date,
+  due_date,
+  priority,
+  completed_at,
+  created_at,
+  updated_at,
+  created_by,
+  created_via,
+  external_ref,
+  assignee_id,
+  attachment_count,
+  recurrence_rule,
+  recurrence_column_id,
+  recurrence_source_id,
+  card_labels (
+    ${CARD_LABEL_SELECT}
+  ),
+  ${CARD_ASSIGNEES_SELECT}
+`;
+
+export type CardReadRow = {
+  id: string;
+  board_id: string;
+  column_id: number;
+  title: string;
+  description: string | null;
+  position: number;
+  start_date: string | null;
+  due_date: string | null;
+  priority: "high" | "medium" | "low" | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+  created_via: "ui" | "api" | null;
+  external_ref: string | null;
+  assignee_id: string | null;
+  attachment_count?: number | null;
+  recurrence_rule?: string | null;
+  recurrence_column_id?: number | null;
+  recurrence_source_id?: string | null;
+  card_labels?: CardLabelRow[] | null;
+  card_assignees?: CardAssigneeRow[] | null;
+};
+
+export type CardReadResponse = {
+  id: string;
+  boardId: string;
+  columnId: number;
+  title: string;
+  description: string | null;
+  position: number;
+  startDate: string | null;
+  dueDate: string | null;
+  priority: "high" | "medium" | "low";
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string | null;
+  createdVia: "ui" | "api";
+  externalRef: string | null;
+  /** The primary assignee, first of `assigneeIds`. */
+  assigneeId: string | null;
+  assigneeIds: string[];
+  attachmentCount: number;
+  recurrenceRule: string | null;
+  recurrenceColumnId: number | null;
+  recurrenceSourceId: string | null;
+  labels: CardLabelResponse[];
+};
+
+export function transformCardRow(row: CardReadRow): CardReadResponse {
+  return {
+    id: row.id,
+    boardId: row.board_id,
+    columnId: row.column_id,
+    title: row.title,
+    description: row.description,
+    position: row.position,
+    startDate: row.start_date,
+    dueDate: row.due_date,
+    priority: row.priority ?? "medium",
+    completedAt: row.completed_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by,
+    createdVia: row.created_via ?? "ui",
+    externalRef: row.external_ref,
+    assigneeId: row.assignee_id,
+    assigneeIds: orderAssigneeIds(row.assignee_id, row.card_assignees),
+    attachmentCount: row.attachment_count ?? 0,
+    recurrenceRule: row.recurrence_rule ?? null,
+    recurrenceColumnId: row.recurrence_column_id ?? null,
+    recurrenceSourceId: row.recurrence_source_id ?? null,
+    labels: transformCardLabels(row.card_labels),
+  };
+}
+
+/**
+ * CARD_READ_SELECT plus the assignee profiles, used when a card query
+ * (`q`) is applied: `assignee:` terms may name people by email or name.
+ */
+export const CARD_QUERY_SELECT = `${CARD_READ_SELECT},
+  assignee_profiles:card_assignees (
+    users (
+      id,
+      name,
+      email
+    )
+  )
+`;
+
+type AssigneeRow = { id: string; name: string | null; email: string | null };
+
+export type CardQueryRow = CardReadRow & {
+  assignee_profiles?: { users: AssigneeRow | AssigneeRow[] | null }[] | null;
+};
+
+export function toCardQuerySubject(row: CardReadRow): CardQuerySubject {
+  return {
+    title: row.title,
+    description: row.description,
+    assigneeId: row.assignee_id,
+    assigneeIds: orderAssigneeIds(row.assignee_id, row.card_assignees),
+    priority: row.priority,
+    dueDate: row.due_date,
+    completedAt: row.completed_at,
+    createdVia: row.created_via,
+    attachmentCount: row.attachment_count ?? 0,
+    labels: transformCardLabels(row.card_labels).map(({ label }) => ({
+      id: label.id,
+      name: label.name,
+    })),
+  };
+}
+
+/** Distinct assignees of the rows, as the members of a query context. */
+export function getCardQueryMembers(
+  rows: CardQueryRow[],
+): CardQueryContext["members"] {
+  const members = new Map<string, AssigneeRow>();
+  rows.forEach((row) => {
+    (row.assignee_profiles ?? []).forEach(({ users }) => {
+      const assignee = Array.isArray(users) ? users[0] : users;
+      if (assignee) members.set(assignee.id, assignee);
+    });
+  });
+  return [...members.values()];
+}
@@ -0,0 +1,567 @@
+/**
+ * Card query language used by the board query bar, `GET /api/cards?q=` and
+ * `GET /api/search?q=`, e.g.
+ *
+ *   assignee:me priority:high,medium due:<7d label:backend -is:done "exact phrase"
+ *
+ * Terms are separated by whitespace and must all match. A leading `-`
+ * negates a term, comma-separated values match any of them, and double
+ * quotes allow spaces in words and values. Words without a field match the
+ * card title or description.
+ */
+import { getCardAssigneeIds } from "@/lib/card-assignees";
+
+export const CARD_QUERY_FIELDS = [
+  "assignee",
+  "priority",
+  "label",
+  "due",
+  "is",
+  "has",
+  "created-via",
+] as const;
+export type CardQueryField = (typeof CARD_QUERY_FIELDS)[number];
+
+export const CARD_QUERY_PRIORITIES = ["high", "medium", "low"] as const;
+export const CARD_QUERY_STATES = ["overdue", "done", "open"] as const;
+export const CARD_QUERY_HAS = [
+  "attachments",
+  "description",
+  "due",
+  "labels",
+] as const;
+export const CARD_QUERY_SOURCES = ["ui", "api"] as const;
+
+export type CardQueryComparison = "<" | "<=" | ">" | ">=" | "=";
+
+/** A due date condition; relative offsets count days from "today". */
+export type CardQueryDueCondition =
+  | { type: "none" }
+  | { type: "week" }
+  | {
+      type: "compare";
+      comparison: CardQueryComparison;
+      target: { type: "day"; day: string } | { type: "relative"; days: number };
+    };
+
+export type CardQueryNode =
+  | { kind: "text"; negated: boolean; value: string }
+  | { kind: "assignee"; negated: boolean; values: string[] }
+  | {
+      kind: "priority";
+      negated: boolean;
+      values: (typeof CARD_QUERY_PRIORITIES)[number][];
+    }
+  | { kind: "label"; negated: boolean; values: string[] }
+  | { kind: "due"; negated: boolean; values: CardQueryDueCondition[] }
+  | {
+      kind: "is";
+      negated: boolean;
+      values: (typeof CARD_QUERY_STATES)[number][];
+    }
+  | { kind: "has"; negated: boolean; values: (typeof CARD_QUERY_HAS)[number][] }
+  | {
+      kind: "created-via";
+      negated: boolean;
+      values: (typeof CARD_QUERY_SOURCES)[number][];
+    };
+
+export type CardQueryErrorCode =
+  | "unknown-field"
+  | "invalid-value"
+  | "missing-value"
+  | "unterminated-quote";
+
+export interface CardQueryError {
+  code: CardQueryErrorCode;
+  /** The term as typed, e.g. `priority:urgent`. */
+  term: string;
+}
+
+export interface CardQuery {
+  nodes: CardQueryNode[];
+  errors: CardQueryError[];
+}
+
+/** The card fields a query can look at. */
+export interface CardQuerySubject {
+  title: string;
+  description: string | null;
+  assigneeId: string | null;
+  /** Every assignee; without it only `assigneeId` is matched. */
+  assigneeIds?: string[];
+  priority: string | null;
+  dueDate: string | null;
+  completedAt: string | null;
+  createdVia: "ui" | "api" | null;
+  attachmentCount: number;
+  labels: { id: string; name: string }[];
+}
+
+export interface CardQueryContext {
+  currentUserId: string | null;
+  /** Calendar day (YYYY-MM-DD) that `today`, `overdue` and `7d` refer to. */
+  today: string;
+  /** Known users, so `assignee:` can name people by email or name. */
+  members: { id: string; name: string | null; email: string | null }[];
+}
+
+type RawTerm = { text: string; negated: boolean; unterminated: boolean };
+
+/** Split on whitespace outside double quotes. */
+function tokenize(input: string): RawTerm[] {
+  const terms: RawTerm[] = [];
+  let current = "";
+  let inQuotes = false;
+  const push = (unterminated: boolean) => {
+    if (current.length === 0) return;
+    const negated = current.startsWith("-") && current.length > 1;
+    terms.push({
+      text: negated ? current.slice(1) : current,
+      negated,
+      unterminated,
+    });
+    current = "";
+  };
+
+  for (const char of input) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && /\s/.test(char)) {
+      push(false);
+      continue;
+    }
+    current += char;
+  }
+  push(inQuotes);
+  return terms;
+}
+
+/** Split a value list on commas outside quotes and strip the quotes. */
+function splitValues(raw: string): string[] {
+  const values: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (const char of raw) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      continue;
+    }
+    if (char === "," && !inQuotes) {
+      values.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  values.push(current.trim());
+  return values.filter(Boolean);
+}
+
+const unquote = (value: string) => value.replace(/"/g, "").trim();
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_PATTERN = /^([+-]?\d{1,4})([dw])$/;
+const COMPARISON_PATTERN = /^(<=|>=|<|>|=)?(.*)$/;
+
+function parseDueCondition(value: string): CardQueryDueCondition | null {
+  const lower = value.toLowerCase();
+  if (lower === "none") return { type: "none" };
+  if (lower === "week") return { type: "week" };
+
+  const [, comparison = "=", rest = ""] = COMPARISON_PATTERN.exec(lower)!;
+  const compare = (
+    target: Extract<CardQueryDueCondition, { type: "compare" }>["target"],
+  ): CardQueryDueCondition => ({
+    type: "compare",
+    comparison: comparison as CardQueryComparison,
+    target,
+  });
+
+  if (rest === "today") return compare({ type: "relative", days: 0 });
+  if (rest === "tomorrow") return compare({ type: "relative", days: 1 });
+  if (DAY_PATTERN.test(rest) && !Number.isNaN(Date.parse(rest))) {
+    return compare({ type: "day", day: rest });
+  }
+  const relative = RELATIVE_PATTERN.exec(rest);
+  if (relative) {
+    const amount = Number(relative[1]);
+    return compare({
+      type: "relative",
+      days: relative[2] === "w" ? amount * 7 : amount,
+    });
+  }
+  return null;
+}
+
+function pickAll<T extends string>(
+  allowed: readonly T[],
+  values: string[],
+): T[] | null {
+  const lower = values.map((value) => value.toLowerCase());
+  return lower.every((value) => (allowed as readonly string[]).includes(value))
+    ? (lower as T[])
+    : null;
+}
+
+function parseFieldValues(
+  field: CardQueryField,
+  values: string[],
+  negated: boolean,
+): CardQueryNode | null {
+  switch (field) {
+    case "assignee":
+      return { kind: field, negated, values };
+    case "label":
+      return { kind: field, negated, values };
+    case "priority": {
+      const picked = pickAll(CARD_QUERY_PRIORITIES, values);
+      return picked && { kind: field, negated, values: picked };
+    }
+    case "is": {
+      const picked = pickAll(CARD_QUERY_STATES, values);
+      return picked && { kind: field, negated, values: picked };
+    }
+    case "has": {
+      const picked = pickAll(CARD_QUERY_HAS, values);
+      return picked && { kind: field, negated, values: picked };
+    }
+    case "created-via": {
+      const picked = pickAll(CARD_QUERY_SOURCES, values);
+      return picked && { kind: field, negated, values: picked };
+    }
+    case "due": {
+      const conditions = values.map(parseDueCondition);
+      return conditions.every(Boolean)
+        ? {
+            kind: field,
+            negated,
+            values: conditions as CardQueryDueCondition[],
+          }
+        : null;
+    }
+  }
+}
+
+/**
+ * Parse a query into nodes. Invalid terms are reported in `errors` and left
+ * out of `nodes`, so callers can still filter by the valid part while the
+ * user is typing. With `unknownFieldsAsText`, a term like `Meeting:` is
+ * searched as a word instead of being an error.
+ */
+export function parseCardQuery(
+  input: string,
+  { unknownFieldsAsText = false }: { unknownFieldsAsText?: boolean } = {},
+): CardQuery {
+  const nodes: CardQueryNode[] = [];
+  const errors: CardQueryError[] = [];
+
+  for (const term of tokenize(input)) {
+    const typed = `${term.negated ? "-" : ""}${term.text}`;
+    if (term.unterminated) {
+      errors.push({ code: "unterminated-quote", term: typed });
+      continue;
+    }
+
+    const colon = term.text.indexOf(":");
+    const quote = term.text.indexOf('"');
+    if (colon <= 0 || (quote !== -1 && quote < colon)) {
+      const value = unquote(term.text);
+      if (value) nodes.push({ kind: "text", negated: term.negated, value });
+      continue;
+    }
+
+    const field = term.text.slice(0, colon).toLowerCase();
+    if (!(CARD_QUERY_FIELDS as readonly string[]).includes(field)) {
+      if (unknownFieldsAsText) {
+        nodes.push({
+          kind: "text",
+          negated: term.negated,
+          value: unquote(term.text),
+        });
+      } else {
+        errors.push({ code: "unknown-field", term: typed });
+      }
+      continue;
+    }
+    const values = splitValues(term.text.slice(colon + 1));
+    if (values.length === 0) {
+      errors.push({ code: "missing-value", term: typed });
+      continue;
+    }
+    const node = parseFieldValues(
+      field as CardQueryField,
+      values,
+      term.negated,
+    );
+    if (node) nodes.push(node);
+    else errors.push({ code: "invalid-value", term: typed });
+  }
+
+  return { nodes, errors };
+}
+
+/** Plain-English description of a parse error, for API responses. */
+export function describeCardQueryError(error: CardQueryError): string {
+  switch (error.code) {
+    case "unknown-field":
+      return `Unknown filter in "${error.term}"; known filters are ${CARD_QUERY_FIELDS.join(", ")}`;
+    case "invalid-value":
+      return `Invalid value in "${error.term}"`;
+    case "missing-value":
+      return `Missing value in "${error.term}"`;
+    case "unterminated-quote":
+      return `Unterminated quote in "${error.term}"`;
+  }
+}
+
+const addDays = (day: string, amount: number) => {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + amount);
+  return date.toISOString().slice(0, 10);
+};
+
+// Due dates are calendar days stored in UTC, so only their UTC date counts.
+const toDay = (value: string | null) => {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime())
+    ? null
+    : parsed.toISOString().slice(0, 10);
+};
+
+function matchesDue(
+  condition: CardQueryDueCondition,
+  dueDay: string | null,
+  today: string,
+): boolean {
+  if (condition.type === "none") return dueDay === null;
+  if (dueDay === null) return false;
+  if (condition.type === "week") {
+    // Today up to and including Sunday of the current (Monday-based) week.
+    const weekday = new Date(`${today}T00:00:00.000Z`).getUTCDay();
+    return dueDay >= today && dueDay <= addDays(today, (7 - weekday) % 7);
+  }
+
+  const target =
+    condition.target.type === "day"
+      ? condition.target.day
+      : addDays(today, condition.target.days);
+  switch (condition.comparison) {
+    case "<":
+      return dueDay < target;
+    case "<=":
+      return dueDay <= target;
+    case ">":
+      return dueDay > target;
+    case ">=":
+      return dueDay >= target;
+    case "=":
+      return dueDay === target;
+  }
+}
+
+function resolveAssignee(value: string, context: CardQueryContext) {
+  const lower = value.toLowerCase();
+  if (lower === "me") return context.currentUserId;
+  const member = context.members.find(
+    (candidate) =>
+      candidate.id === value ||
+      candidate.email?.toLowerCase() === lower ||
+      candidate.email?.toLowerCase().split("@")[0] === lower ||
+      candidate.name?.toLowerCase() === lower,
+  );
+  return member?.id ?? value;
+}
+
+function matchesNode(
+  node: CardQueryNode,
+  card: CardQuerySubject,
+  context: CardQueryContext,
+): boolean {
+  switch (node.kind) {
+    case "text": {
+      const needle = node.value.toLowerCase();
+      return (
+        card.title.toLowerCase().includes(needle) ||
+        (card.description ?? "").toLowerCase().includes(needle)
+      );
+    }
+    case "assignee": {
+      const assigneeIds = getCardAssigneeIds(card);
+      return node.values.some((value) =>
+        value.toLowerCase() === "none"
+          ? assigneeIds.length === 0
+          : assigneeIds.includes(resolveAssignee(value, context) ?? ""),
+      );
+    }
+    case "priority":
+      return node.values.includes(
+        (card.priority ?? "medium") as (typeof node.values)[number],
+      );
+    case "label":
+      return node.values.some((value) =>
+        card.labels.some(
+          (label) =>
+            label.id === value ||
+            label.name.toLowerCase() === value.toLowerCase(),
+        ),
+      );
+    case "due": {
+      const dueDay = toDay(card.dueDate);
+      return node.values.some((condition) =>
+        matchesDue(condition, dueDay, context.today),
+      );
+    }
+    case "is":
+      return node.values.some((state) => {
+        if (state === "done") return !!card.completedAt;
+        if (state === "open") return !card.completedAt;
+        const dueDay = toDay(card.dueDate);
+        return !card.completedAt && dueDay !== null && dueDay < context.today;
+      });
+    case "has":
+      return node.values.some((value) => {
+        if (value === "attachments") return card.attachmentCount > 0;
+        if (value === "description") return !!card.description?.trim();
+        if (value === "due") return !!card.dueDate;
+        return card.labels.length > 0;
+      });
+    case "created-via":
+      return node.values.includes(card.createdVia ?? "ui");
+  }
+}
+
+/** True when the card matches every node of the query. */
+export function matchesCardQuery(
+  card: CardQuerySubject,
+  query: CardQuery,
+  context: CardQueryContext,
+): boolean {
+  return query.nodes.every(
+    (node) => matchesNode(node, card, context) !== node.negated,
+  );
+}
+
+/** Free-text words of the query (not negated), e.g. for full-text search. */
+export function getCardQueryText(query: CardQuery): string {
+  return query.nodes
+    .filter(
+      (node): node is Extract<CardQueryNode, { kind: "text" }> =>
+        node.kind === "text" && !node.negated,
+    )
+    .map((node) => node.value)
+    .join(" ");
+}
+
+export interface CardQuerySuggestion {
+  /** Text shown in the list. */
+  label: string;
+  /** Secondary text, e.g. the member name for an email. */
+  detail?: string;
+  /** Replaces the query from `from` to `to` of the suggestion result. */
+  insert: string;
+}
+
+export interface CardQuerySuggestionSource {
+  members: { id: string; name: string | null; email: string | null }[];
+  labels: { name: string }[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const quoteIfNeeded = (value: string) =>
+  /[\s,"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+
+/**
+ * Completions for the term under the caret: field names while the term has
+ * no colon yet, otherwise values of that field. `from`/`to` delimit the
+ * term so the caller can replace it with a suggestion's `insert`.
+ */
+export function getCardQuerySuggestions(
+  input: string,
+  caret: number,
+  source: CardQuerySuggestionSource,
+): { from: number; to: number; suggestions: CardQuerySuggestion[] } {
+  let from = caret;
+  while (from > 0 && !/\s/.test(input[from - 1]!)) from -= 1;
+  let to = caret;
+  while (to < input.length && !/\s/.test(input[to]!)) to += 1;
+
+  const term = input.slice(from, caret);
+  const prefix = term.startsWith("-") ? "-" : "";
+  const body = term.slice(prefix.length);
+  const colon = body.indexOf(":");
+
+  if (colon === -1) {
+    // Nothing typed yet: no list, so Enter and Tab keep their usual meaning.
+    const partial = body.toLowerCase();
+    if (!partial) return { from, to, suggestions: [] };
+    return {
+      from,
+      to,
+      suggestions: CARD_QUERY_FIELDS.filter((field) =>
+        field.startsWith(partial),
+      ).map((field) => ({
+        label: `${field}:`,
+        insert: `${prefix}${field}:`,
+      })),
+    };
+  }
+
+  const field = body.slice(0, colon).toLowerCase();
+  const valuePart = body.slice(colon + 1);
+  const lastComma = valuePart.lastIndexOf(",");
+  const kept = valuePart.slice(0, lastComma + 1);
+  const partial = unquote(valuePart.slice(lastComma + 1)).toLowerCase();
+
+  let candidates: { value: string; detail?: string }[] = [];
+  switch (field) {
+    case "assignee":
+      candidates = [
+        { value: "me" },
+        { value: "none" },
+        ...source.members
+          .filter((member) => member.email)
+          .map((member) => ({
+            value: member.email!,
+            ...(member.name ? { detail: member.name } : {}),
+          })),
+      ];
+      break;
+    case "label":
+      candidates = source.labels.map((label) => ({ value: label.name }));
+      break;
+    case "priority":
+      candidates = CARD_QUERY_PRIORITIES.map((value) => ({ value }));
+      break;
+    case "due":
+      candidates = ["today", "tomorrow", "week", "<7d", "<today", "none"].map(
+        (value) => ({ value }),
+      );
+      break;
+    case "is":
+      candidates = CARD_QUERY_STATES.map((value) => ({ value }));
+      break;
+    case "has":
+      candidates = CARD_QUERY_HAS.map((value) => ({ value }));
+      break;
+    case "created-via":
+      candidates = CARD_QUERY_SOURCES.map((value) => ({ value }));
+      break;
+  }
+
+  const suggestions = candidates
+    .filter(
+      ({ value, detail }) =>
+        value.toLowerCase().startsWith(partial) ||
+        (!!detail && detail.toLowerCase().includes(partial)),
+    )
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ value, detail }) => ({
+      label: value,
+      ...(detail ? { detail } : {}),
+      insert: `${prefix}${field}:${kept}${quoteIfNeeded(value)} `,
+    }));
+
+  return { from, to, suggestions };
+}
@@ -0,0 +1,436 @@
+/**
+ * Recurring cards: a subset of RFC 5545 RRULE stored in
+ * `cards.recurrence_rule`, and the follow-up card created when a recurring
+ * card is completed.
+ *
+ * Supported: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (weekly, plain
+ * weekday codes), BYMONTHDAY (monthly, one day 1-31 or -1 for the last day)
+ * and UNTIL (a date). Weeks start on Monday. A monthly day past the end of a
+ * short month falls on that month's last day.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { isCalendarDay } from "@/lib/my-tasks";
+import {
+  orderAssigneeIds,
+  replaceCardAssignees,
+  type CardAssigneeRow,
+} from "@/lib/card-assignees";
+import { dispatchWebhookEvent } from "@/lib/webhooks/delivery";
+
+export const RECURRENCE_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY"] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+/** Weekday codes in week order (Monday first). */
+export const RECURRENCE_WEEKDAYS = [
+  "MO",
+  "TU",
+  "WE",
+  "TH",
+  "FR",
+  "SA",
+  "SU",
+] as const;
+export type RecurrenceWeekday = (typeof RECURRENCE_WEEKDAYS)[number];
+
+export const MAX_RECURRENCE_INTERVAL = 99;
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** WEEKLY only; empty = the weekday of the previous due date. */
+  byDay: RecurrenceWeekday[];
+  /** MONTHLY only; null = the day of the previous due date, -1 = last day. */
+  byMonthDay: number | null;
+  /** Last day (YYYY-MM-DD) an instance may be due on. */
+  until: string | null;
+};
+
+const WEEKDAY_PRESET: RecurrenceWeekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+const isWeekday = (value: string): value is RecurrenceWeekday =>
+  (RECURRENCE_WEEKDAYS as readonly string[]).includes(value);
+
+const parseInteger = (value: string) =>
+  /^-?\d+$/.test(value) ? Number(value) : Number.NaN;
+
+/**
+ * Parse a rule such as `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH`. An optional
+ * `RRULE:` prefix is ignored. Returns null for anything outside the subset.
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const source = value.trim().replace(/^RRULE:/i, "");
+  if (!source) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of source.split(";")) {
+    if (!part) continue;
+    const [key = "", raw, ...rest] = part.split("=");
+    const name = key.trim().toUpperCase();
+    if (!name || raw === undefined || rest.length > 0 || parts.has(name)) {
+      return null;
+    }
+    parts.set(name, raw.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (!freq || !(RECURRENCE_FREQUENCIES as readonly string[]).includes(freq)) {
+    return null;
+  }
+  const rule: RecurrenceRule = {
+    freq: freq as RecurrenceFrequency,
+    interval: 1,
+    byDay: [],
+    byMonthDay: null,
+    until: null,
+  };
+
+  for (const [name, raw] of parts) {
+    switch (name) {
+      case "FREQ":
+        break;
+      case "INTERVAL": {
+        const interval = parseInteger(raw);
+        if (!(interval >= 1 && interval <= MAX_RECURRENCE_INTERVAL)) {
+          return null;
+        }
+        rule.interval = interval;
+        break;
+      }
+      case "BYDAY": {
+        const days = raw.split(",");
+        if (rule.freq !== "WEEKLY" || !days.every(isWeekday)) return null;
+        rule.byDay = RECURRENCE_WEEKDAYS.filter((day) => days.includes(day));
+        break;
+      }
+      case "BYMONTHDAY": {
+        const day = parseInteger(raw);
+        if (rule.freq !== "MONTHLY" || !((day >= 1 && day <= 31) || day === -1))
+          return null;
+        rule.byMonthDay = day;
+        break;
+      }
+      case "UNTIL": {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(raw);
+        const day = match ? `${match[1]}-${match[2]}-${match[3]}` : "";
+        if (!isCalendarDay(day)) return null;
+        rule.until = day;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  return rule;
+}
+
+/** Canonical string form; INTERVAL=1 and empty parts are left out. */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === "WEEKLY" && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  }
+  if (rule.freq === "MONTHLY" && rule.byMonthDay !== null) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+/** Monday to Friday every week, the "weekdays" preset. */
+export function isWeekdayRecurrence(rule: RecurrenceRule): boolean {
+  return (
+    rule.freq === "WEEKLY" &&
+    rule.interval === 1 &&
+    rule.byDay.join(",") === WEEKDAY_PRESET.join(",")
+  );
+}
+
+export const WEEKDAY_RECURRENCE_RULE = formatRecurrenceRule({
+  freq: "WEEKLY",
+  interval: 1,
+  byDay: WEEKDAY_PRESET,
+  byMonthDay: null,
+  until: null,
+});
+
+/** Request body field: a supported rule, stored in its canonical form. */
+export const recurrenceRuleSchema = z
+  .string()
+  .max(200)
+  .transform((value, ctx) => {
+    const rule = parseRecurrenceRule(value);
+    if (!rule) {
+      ctx.addIssue({
+        code: "custom",
+        message:
+          "Unsupported recurrence rule. Use FREQ=DAILY|WEEKLY|MONTHLY with optional INTERVAL, BYDAY, BYMONTHDAY and UNTIL",
+      });
+      return z.NEVER;
+    }
+    return formatRecurrenceRule(rule);
+  });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (day: string) => new Date(`${day}T00:00:00.000Z`);
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (day: string, amount: number) => {
+  const date = toDate(day);
+  date.setUTCDate(date.getUTCDate() + amount);
+  return toDay(date);
+};
+
+/** Monday = 0 … Sunday = 6 */
+const weekdayIndex = (day: string) => (toDate(day).getUTCDay() + 6) % 7;
+
+const monthDay = (year: number, month: number, day: number) => {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const resolved = day === -1 ? lastDay : Math.min(day, lastDay);
+  return toDay(new Date(Date.UTC(year, month, resolved)));
+};
+
+/**
+ * The first day matching `rule` strictly after `after` (YYYY-MM-DD), which
+ * also anchors weekday, month day and interval. Null once past UNTIL.
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  after: string,
+): string | null {
+  let next: string;
+  if (rule.freq === "DAILY") {
+    next = addDays(after, rule.interval);
+  } else if (rule.freq === "WEEKLY") {
+    const anchor = weekdayIndex(after);
+    const days =
+      rule.byDay.length > 0
+        ? rule.byDay.map((day) => RECURRENCE_WEEKDAYS.indexOf(day))
+        : [anchor];
+    const laterThisWeek = days.find((day) => day > anchor);
+    next =
+      laterThisWeek !== undefined
+        ? addDays(after, laterThisWeek - anchor)
+        : addDays(after, rule.interval * 7 - anchor + (days[0] ?? anchor));
+  } else {
+    const date = toDate(after);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = rule.byMonthDay ?? date.getUTCDate();
+    const thisMonth = monthDay(year, month, day);
+    next =
+      thisMonth > after
+        ? thisMonth
+        : monthDay(year, month + rule.interval, day);
+  }
+  return rule.until && next > rule.until ? null : next;
+}
+
+/** Due dates are calendar days stored at the end of the UTC day. */
+const toDueDate = (day: string) => `${day}T23:59:59.999Z`;
+
+/**
+ * Dates of the instance that follows a card completed at `completedAt`.
+ * The next due date is the next occurrence after the later of the current
+ * due day and the completion day, so a card finished late is not followed
+ * by one that is overdue already. A start date keeps its distance to the
+ * due date. Null when the rule has ended.
+ */
+export function getNextRecurrenceDates(
+  rule: RecurrenceRule,
+  card: { dueDate: string | null; startDate: string | null },
+  completedAt: string,
+): { dueDate: string; startDate: string | null } | null {
+  const completedDay = toDay(new Date(completedAt));
+  const dueDay = card.dueDate ? toDay(new Date(card.dueDate)) : null;
+  const after = dueDay && dueDay > completedDay ? dueDay : completedDay;
+  // Without BYDAY / BYMONTHDAY the due date, not the completion, sets the day
+  const anchored: RecurrenceRule =
+    dueDay && rule.freq === "WEEKLY" && rule.byDay.length === 0
+      ? { ...rule, byDay: [RECURRENCE_WEEKDAYS[weekdayIndex(dueDay)]!] }
+      : dueDay && rule.freq === "MONTHLY" && rule.byMonthDay === null
+        ? { ...rule, byMonthDay: toDate(dueDay).getUTCDate() }
+        : rule;
+  const nextDueDay = getNextOccurrence(anchored, after);
+  if (!nextDueDay) return null;
+
+  let startDate: string | null = null;
+  if (card.startDate && dueDay) {
+    const start = new Date(card.startDate);
+    const startDay = toDay(start);
+    const leadDays = Math.round(
+      (toDate(dueDay).getTime() - toDate(startDay).getTime()) / DAY_MS,
+    );
+    const timeOfDay = start.getTime() - toDate(startDay).getTime();
+    startDate = new Date(
+      toDate(addDays(nextDueDay, -leadDays)).getTime() + timeOfDay,
+    ).toISOString();
+  }
+  return { dueDate: toDueDate(nextDueDay), startDate };
+}
+
+/** Card columns read by createNextRecurringCard. */
+export type RecurringCardRow = {
+  id: string;
+  board_id: string;
+  title: string;
+  description: string | null;
+  priority: string | null;
+  assignee_id: string | null;
+  created_by: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  recurrence_rule: string | null;
+  recurrence_column_id: number | null;
+};
+
+export const RECURRING_CARD_SELECT =
+  "id, board_id, title, description, priority, assignee_id, created_by, start_date, due_date, recurrence_rule, recurrence_column_id";
+
+/**
+ * Create the next instance of a recurring card that was just completed:
+ * same title, description, priority, assignees, labels and rule, the
+ * subtasks reset to open, and the next due date. It goes to the end of the
+ * rule's column, or of the first column that is not a done column.
+ *
+ * Non-throwing like recordCardEvents: a failure is logged and the
+ * completion itself stands. Returns the new card id, or null when nothing
+ * was created (no rule, rule ended, or an instance exists already).
+ */
+export async function createNextRecurringCard(
+  supabase: SupabaseClient,
+  card: RecurringCardRow,
+  options: { actorId: string; completedAt: string },
+): Promise<string | null> {
+  const rule = card.recurrence_rule
+    ? parseRecurrenceRule(card.recurrence_rule)
+    : null;
+  if (!rule) return null;
+  const dates = getNextRecurrenceDates(
+    rule,
+    { dueDate: card.due_date, startDate: card.start_date },
+    options.completedAt,
+  );
+  if (!dates) return null;
+
+  try {
+    const { data: columns, error: columnsError } = await supabase
+      .from("columns")
+      .select("id, is_done")
+      .eq("board_id", card.board_id)
+      .order("position", { ascending: true });
+    if (columnsError) throw columnsError;
+
+    const column =
+      (columns ?? []).find(
+        (col) => col.id === card.recurrence_column_id && !col.is_done,
+      ) ?? (columns ?? []).find((col) => !col.is_done);
+    if (!column) return null;
+
+    const { data: maxPositionResult } = await supabase
+      .from("cards")
+      .select("position")
+      .eq("column_id", column.id)
+      .order("position", { ascending: false })
+      .limit(1);
+
+    const { data: newCard, error: insertError } = await supabase
+      .from("cards")
+      .insert({
+        board_id: card.board_id,
+        column_id: column.id,
+        title: card.title,
+        description: card.description,
+        priority: card.priority ?? "medium",
+        assignee_id: card.assignee_id,
+        created_by: card.created_by,
+        start_date: dates.startDate,
+        due_date: dates.dueDate,
+        position: (maxPositionResult?.[0]?.position || 0) + 1,
+        recurrence_rule: card.recurrence_rule,
+        recurrence_column_id: card.recurrence_column_id,
+        recurrence_source_id: card.id,
+      })
+      .select("id, title, column_id, assignee_id, due_date, priority")
+      .single();
+
+    if (insertError) {
+      // Unique recurrence_source_id: this card was already followed up
+      if (insertError.code === "23505") return null;
+      throw insertError;
+    }
+
+    const [labelsResult, subtasksResult, assigneesResult] = await Promise.all([
+      supabase.from("card_labels").select("label_id").eq("card_id", card.id),
+      supabase
+        .from("card_subtasks")
+        .select("title, position")
+        .eq("card_id", card.id)
+        .is("deleted_at", null),
+      supabase
+        .from("card_assignees")
+        .select("user_id, created_at")
+        .eq("card_id", card.id),
+    ]);
+    const labelRows = (labelsResult.data ?? []).map((row) => ({
+      card_id: newCard.id,
+      label_id: row.label_id,
+    }));
+    const subtaskRows = (subtasksResult.data ?? []).map((row) => ({
+      card_id: newCard.id,
+      title: row.title,
+      position: row.position,
+    }));
+    const assigneeIds = orderAssigneeIds(
+      card.assignee_id,
+      assigneesResult.data as CardAssigneeRow[] | null,
+    );
+    await Promise.all([
+      labelRows.length > 0
+        ? supabase.from("card_labels").insert(labelRows)
+        : null,
+      subtaskRows.length > 0
+        ? supabase.from("card_subtasks").insert(subtaskRows)
+        : null,
+      // The primary assignee was added by the cards trigger
+      assigneeIds.length > 1
+        ? replaceCardAssignees(supabase, newCard.id, assigneeIds, [])
+        : null,
+      supabase.from("card_deadline_requests").insert({
+        card_id: newCard.id,
+        requested_by: options.actorId,
+        suggested_due_date: newCard.due_date,
+        status: "applied",
+        change_type: "direct",
+        resolved_by: options.actorId,
+        resolved_at: new Date().toISOString(),
+      }),
+    ]);
+
+    void dispatchWebhookEvent({
+      type: "card.created",
+      boardId: card.board_id,
+      actorId: options.actorId,
+      data: {
+        card: {
+          id: newCard.id,
+          title: newCard.title,
+          columnId: newCard.column_id,
+          assigneeId: newCard.assignee_id,
+          assigneeIds,
+          dueDate: newCard.due_date,
+          priority: newCard.priority,
+        },
+        recurrenceSourceId: card.id,
+      },
+    });
+
+    return newCard.id as string;
+  } catch (error) {
+    console.error("[card-recurrence] failed to create next card:", error);
+    return null;
+  }
+}
@@ -0,0 +1,29 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { purgeExpiredCards } from "@/lib/card-trash";
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+async function runTrashPurge() {
+  try {
+    const purged = await purgeExpiredCards(createAdminClient());
+    if (purged > 0) {
+      console.log(`[card-trash] purged ${purged} expired card(s)`);
+    }
+  } catch (error) {
+    console.error("[card-trash] purge failed:", error);
+  }
+}
+
+/**
+ * Purge expired trash once at server start and then hourly. Every server
+ * process runs its own timer; purging is idempotent, so that is harmless.
+ */
+export function scheduleTrashPurge() {
+  if (purgeTimer) return;
+  purgeTimer = setInterval(() => void runTrashPurge(), PURGE_INTERVAL_MS);
+  // Do not keep the process alive just for the purge
+  purgeTimer.unref();
+  void runTrashPurge();
+}
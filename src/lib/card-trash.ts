@@ -0,0 +1,173 @@
+/**
+ * Card trash: deleting a card sets `deleted_at` / `deleted_by` instead of
+ * removing the row, and the read policy on cards hides it from every user
+ * client. Owners and admins list and restore trashed cards through the
+ * admin client once the API has checked their board role. A trigger parks
+ * the card's external_ref while it is trashed so changesets can reuse it.
+ *
+ * A trashed card is kept for its board's `trash_retention_days` and then
+ * purged for good, attachments included, by purgeExpiredCards, which the
+ * server runs on a schedule (see card-trash-schedule.ts).
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { single } from "@/lib/supabase/embed";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MIN_TRASH_RETENTION_DAYS = 1;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+const ATTACHMENTS_BUCKET = "card-attachments";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound of cards removed per purge run; the next run picks up the rest
+const PURGE_BATCH_SIZE = 200;
+
+/** A card in the board's trash, as listed in the trash dialog. */
+export type TrashedCard = {
+  id: string;
+  title: string;
+  columnId: number;
+  columnTitle: string | null;
+  position: number;
+  deletedAt: string;
+  deletedBy: { id: string; name: string | null; email: string } | null;
+  purgeAt: string;
+};
+
+type TrashedCardRow = {
+  id: string;
+  title: string;
+  column_id: number;
+  position: number;
+  deleted_at: string;
+  columns: { title: string } | { title: string }[] | null;
+  deleter:
+    | { id: string; name: string | null; email: string }
+    | { id: string; name: string | null; email: string }[]
+    | null;
+};
+
+/** When a card trashed at `deletedAt` is due to be purged. */
+export function getPurgeDate(deletedAt: string, retentionDays: number): Date {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * Trashed cards of a board, most recently deleted first. Pass the admin
+ * client; RLS hides trashed cards from everyone else. Throws on query
+ * errors.
+ */
+export async function listTrashedCards(
+  supabase: SupabaseClient,
+  boardId: string,
+  retentionDays: number,
+): Promise<TrashedCard[]> {
+  const { data, error } = await supabase
+    .from("cards")
+    .select(
+      "id, title, column_id, position, deleted_at, columns(title), deleter:deleted_by(id, name, email)",
+    )
+    .eq("board_id", boardId)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+  if (error) throw error;
+
+  return ((data ?? []) as unknown as TrashedCardRow[]).map((row) => ({
+    id: row.id,
+    title: row.title,
+    columnId: row.column_id,
+    columnTitle: single(row.columns)?.title ?? null,
+    position: row.position,
+    deletedAt: row.deleted_at,
+    deletedBy: single(row.deleter),
+    purgeAt: getPurgeDate(row.deleted_at, retentionDays).toISOString(),
+  }));
+}
+
+/**
+ * Take a card out of the trash at its original column and position. Cards
+ * at or below that position move down by one when the slot has been taken
+ * in the meantime. Pass the admin client. Throws on query errors.
+ */
+export async function restoreTrashedCard(
+  supabase: SupabaseClient,
+  card: { id: string; column_id: number; position: number },
+): Promise<void> {
+  const { data: below, error: belowError } = await supabase
+    .from("cards")
+    .select("id, position")
+    .eq("column_id", card.column_id)
+    .is("deleted_at", null)
+    .gte("position", card.position)
+    .order("position", { ascending: true });
+  if (belowError) throw belowError;
+
+  const rows = (below ?? []) as { id: string; position: number }[];
+  if (rows[0]?.position === card.position) {
+    const results = await Promise.all(
+      rows.map((row) =>
+        supabase
+          .from("cards")
+          .update({ position: row.position + 1 })
+          .eq("id", row.id),
+      ),
+    );
+    const shiftError = results.find((result) => result.error)?.error;
+    if (shiftError) throw shiftError;
+  }
+
+  const { error } = await supabase
+    .from("cards")
+    .update({ deleted_at: null, deleted_by: null })
+    .eq("id", card.id);
+  if (error) throw error;
+}
+
+/**
+ * Permanently delete trashed cards whose board retention has run out,
+ * together with their attachment files; comments, subtasks, labels and
+ * history go with the row. Returns the number of cards removed. Pass the
+ * admin client. Throws on query errors; a failed file removal is only
+ * logged so one bad object does not keep the card around forever.
+ */
+export async function purgeExpiredCards(
+  supabase: SupabaseClient,
+  now: Date = new Date(),
+): Promise<number> {
+  // Each board's retention is applied in the query (migration 68)
+  const { data, error } = await supabase.rpc("expired_trashed_cards", {
+    p_now: now.toISOString(),
+    p_limit: PURGE_BATCH_SIZE,
+  });
+  if (error) throw error;
+
+  const expiredIds = ((data ?? []) as { id: string }[]).map((row) => row.id);
+  if (expiredIds.length === 0) return 0;
+
+  for (const cardId of expiredIds) {
+    const { data: files, error: listError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .list(cardId, { limit: 1000 });
+    const paths = (files ?? []).map((file) => `${cardId}/${file.name}`);
+    const { error: removeError } =
+      paths.length > 0
+        ? await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths)
+        : { error: null };
+    if (listError || removeError) {
+      console.error(
+        "[card-trash] attachment removal failed:",
+        cardId,
+        listError ?? removeError,
+      );
+    }
+  }
+
+  // Skip cards restored while the files were being removed
+  const { data: deleted, error: deleteError } = await supabase
+    .from("cards")
+    .delete()
+    .in("id", expiredIds)
+    .not("deleted_at", "is", null)
+    .select("id");
+  if (deleteError) throw deleteError;
+  return deleted?.length ?? 0;
+}
@@ -0,0 +1,105 @@
+export type CommentRevision = {
+  id: string;
+  // The comment body as it was before this edit
+  body: string;
+  // When the edit was made
+  createdAt: string;
+  editor: { id: string; name: string | null; email: string } | null;
+};
+
+export type TextDiffPart = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+// Words and the whitespace between them, so joining the tokens gives back
+// the original text
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+// Above this many token pairs the LCS table gets too big to build in the
+// browser; the diff then shows the whole old body replaced by the new one
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Word-level diff of two comment bodies (longest common subsequence).
+ * Adjacent tokens of the same type are merged into one part.
+ */
+export function diffText(before: string, after: string): TextDiffPart[] {
+  if (before === after) {
+    return before ? [{ type: "equal", text: before }] : [];
+  }
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: "removed" as const, text: before }] : []),
+      ...(after ? [{ type: "added" as const, text: after }] : []),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        a[i] === b[j]
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const parts: TextDiffPart[] = [];
+  const push = (type: TextDiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]!);
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      push("removed", a[i]!);
+      i++;
+    } else {
+      push("added", b[j]!);
+      j++;
+    }
+  }
+  for (; i < a.length; i++) push("removed", a[i]!);
+  for (; j < b.length; j++) push("added", b[j]!);
+
+  return parts;
+}
+
+export type CommentEdit = {
+  revision: CommentRevision;
+  // From the body before this edit to the body after it
+  diff: TextDiffPart[];
+};
+
+/**
+ * Pairs each revision (newest first) with the body that replaced it, so the
+ * history can show what every edit changed.
+ */
+export function describeCommentEdits(
+  currentBody: string,
+  revisions: CommentRevision[],
+): CommentEdit[] {
+  return revisions.map((revision, index) => ({
+    revision,
+    diff: diffText(revision.body, revisions[index - 1]?.body ?? currentBody),
+  }));
+}
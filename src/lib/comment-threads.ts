@@ -0,0 +1,135 @@
+/**
+ * Comment threads and reactions. A reply stores the comment it answers in
+ * `parent_id`; replies to replies are allowed, but threads are shown one
+ * level deep, under their top-level comment. Reactions are a fixed emoji
+ * palette, toggled per user.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const MAX_COMMENT_LENGTH = 10000;
+
+export const COMMENT_REACTIONS = [
+  "👍",
+  "👎",
+  "😄",
+  "🎉",
+  "😕",
+  "❤️",
+  "🚀",
+  "👀",
+] as const;
+
+/** Reaction summary for one emoji on a comment. */
+export type CommentReaction = {
+  emoji: string;
+  count: number;
+  // Whether the current user is one of `count`
+  reacted: boolean;
+  userIds: string[];
+};
+
+type ReactionRow = { emoji: string; user_id: string };
+
+/**
+ * Group reaction rows by emoji, in palette order; emojis outside the
+ * palette (none today) go last.
+ */
+export function summarizeReactions(
+  rows: ReactionRow[],
+  currentUserId: string,
+): CommentReaction[] {
+  const byEmoji = new Map<string, string[]>();
+  for (const row of rows) {
+    byEmoji.set(row.emoji, [...(byEmoji.get(row.emoji) ?? []), row.user_id]);
+  }
+  const rank = (emoji: string) => {
+    const index = (COMMENT_REACTIONS as readonly string[]).indexOf(emoji);
+    return index === -1 ? COMMENT_REACTIONS.length : index;
+  };
+  return [...byEmoji.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .map(([emoji, userIds]) => ({
+      emoji,
+      count: userIds.length,
+      reacted: userIds.includes(currentUserId),
+      userIds,
+    }));
+}
+
+/**
+ * Add the user's reaction, or remove it if it is already there. Returns the
+ * comment's reactions afterwards. Throws on query errors.
+ */
+export async function toggleCommentReaction(
+  supabase: SupabaseClient,
+  commentId: string,
+  userId: string,
+  emoji: string,
+): Promise<CommentReaction[]> {
+  const { data: existing, error: existingError } = await supabase
+    .from("comment_reactions")
+    .select("emoji")
+    .eq("comment_id", commentId)
+    .eq("user_id", userId)
+    .eq("emoji", emoji)
+    .maybeSingle();
+  if (existingError) throw existingError;
+
+  const { error: toggleError } = existing
+    ? await supabase
+        .from("comment_reactions")
+        .delete()
+        .eq("comment_id", commentId)
+        .eq("user_id", userId)
+        .eq("emoji", emoji)
+    : await supabase
+        .from("comment_reactions")
+        .insert({ comment_id: commentId, user_id: userId, emoji });
+  if (toggleError) throw toggleError;
+
+  const { data: rows, error: listError } = await supabase
+    .from("comment_reactions")
+    .select("emoji, user_id")
+    .eq("comment_id", commentId)
+    .order("created_at", { ascending: true });
+  if (listError) throw listError;
+
+  return summarizeReactions((rows ?? []) as ReactionRow[], userId);
+}
+
+/** A top-level comment with the replies of its whole thread. */
+export type CommentThread<T> = { comment: T; replies: T[] };
+
+/**
+ * Fold a flat, chronologically ordered comment list into threads. Every
+ * reply lands under its top-level ancestor, in list order; replies whose
+ * ancestor is missing are shown as top-level comments.
+ */
+export function groupCommentThreads<
+  T extends { id: string; parentId?: string | null },
+>(comments: T[]): CommentThread<T>[] {
+  const byId = new Map(comments.map((c) => [c.id, c]));
+  const rootOf = (comment: T): T => {
+    let current = comment;
+    const seen = new Set<string>();
+    while (current.parentId && !seen.has(current.id)) {
+      seen.add(current.id);
+      const parent = byId.get(current.parentId);
+      if (!parent) break;
+      current = parent;
+    }
+    return current;
+  };
+
+  const roots = comments.map((comment) => [comment, rootOf(comment)] as const);
+  const threads = new Map<string, CommentThread<T>>();
+  for (const [comment, root] of roots) {
+    if (root.id === comment.id) {
+      threads.set(comment.id, { comment, replies: [] });
+    }
+  }
+  for (const [comment, root] of roots) {
+    if (root.id !== comment.id) threads.get(root.id)?.replies.push(comment);
+  }
+  return [...threads.values()];
+}
@@ -24,7 +24,9 @@ export type DashboardActivityType =
   | "card_assigned"
   | "board_member_added"
   | "card_completed"
-  | "card_moved";
+  | "card_moved"
+  | "comment_reply"
+  | "comment";
 
 export type DashboardDeadline = {
   cardId: string;
@@ -112,6 +114,10 @@ export async function getBoardsForUser(): Promise<DashboardBoard[]> {
   }));
 }
 
+/**
+ * KPI numbers, deadlines and recent activity for the dashboard. Archived
+ * boards are left out of every figure.
+ */
 export async function getDashboardStats(): Promise<DashboardStats> {
   const { supabase, user } = await getSessionUser();
   if (!user) {
@@ -130,14 +136,20 @@ export async function getDashboardStats(): Promise<DashboardStats> {
     await Promise.all([
       supabase
         .from("cards")
-        .select("id, boards!inner(is_archived)", { count: "exact", head: true })
-        .eq("assignee_id", user.id)
+        .select(
+          "id, boards!inner(is_archived), card_assignees!inner(user_id)",
+          { count: "exact", head: true },
+        )
+        .eq("card_assignees.user_id", user.id)
         .eq("boards.is_archived", false),
       supabase
         .from("cards")
         .select("id, boards!inner(is_archived)", { count: "exact", head: true })
         .eq("boards.is_archived", false),
-      supabase.from("board_members").select("user_id"),
+      supabase
+        .from("board_members")
+        .select("user_id, boards!inner(is_archived)")
+        .eq("boards.is_archived", false),
       supabase
         .from("cards")
         .select(
@@ -154,9 +166,11 @@ export async function getDashboardStats(): Promise<DashboardStats> {
           `id, type, created_at,
          actor:users!actor_id ( id, name, avatar_url ),
          card:cards!card_id ( id, title ),
-         board:boards!board_id ( id, name )`,
+         board:boards!board_id ( id, name, is_archived )`,
         )
         .eq("user_id", user.id)
+        // Drop archived-board activity but keep entries without a board
+        .or("board_id.is.null,board.is_archived.eq.false")
         .order("created_at", { ascending: false })
         .limit(5),
     ]);
@@ -45,6 +45,10 @@ export function calculateCardMove(
     return null;
   }
 
+  if (exceedsWipLimit(cardId, targetColumn)) {
+    return null;
+  }
+
   // Calculate all the position updates needed
   const updates: Array<{ id: string; columnId: number; position: number }> = [];
 
@@ -243,13 +247,42 @@ export function validateDragOperation(
   const targetColumn = columns.find((col) => col.id === targetColumnId);
   if (!targetColumn) return false;
 
-  // Add any business logic validation here
-  // For example, you might want to prevent moving cards to certain columns
-  // based on user permissions or card state
+  // Columns in hard WIP mode don't accept cards beyond their limit
+  if (exceedsWipLimit(cardId, targetColumn)) return false;
 
   return true;
 }
 
+export type WipLimitStatus = "none" | "under" | "atLimit" | "exceeded";
+
+/**
+ * Where a column stands relative to its WIP limit, for the header badge.
+ */
+export function getWipLimitStatus(
+  cardCount: number,
+  wipLimit: number | null,
+): WipLimitStatus {
+  if (wipLimit === null) return "none";
+  if (cardCount > wipLimit) return "exceeded";
+  if (cardCount === wipLimit) return "atLimit";
+  return "under";
+}
+
+/**
+ * Whether moving a card into the column would push it over a hard WIP limit.
+ * Reordering a card that is already in the column never exceeds the limit.
+ */
+export function exceedsWipLimit(
+  cardId: string,
+  targetColumn: ColumnWithCards,
+): boolean {
+  if (!targetColumn.wipLimitHard || targetColumn.wipLimit === null) {
+    return false;
+  }
+  if (targetColumn.cards.some((card) => card.id === cardId)) return false;
+  return targetColumn.cards.length + 1 > targetColumn.wipLimit;
+}
+
 /**
  * Calculate column reordering updates
  */
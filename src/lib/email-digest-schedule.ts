@@ -0,0 +1,38 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { runEmailDigests } from "@/lib/email-digest";
+
+const DIGEST_INTERVAL_MS = 60 * 60 * 1000;
+
+let digestTimer: NodeJS.Timeout | null = null;
+
+async function runDigests() {
+  try {
+    const results = await runEmailDigests(createAdminClient());
+    const sent = results.filter((result) => result.status === "sent").length;
+    if (sent > 0) {
+      console.log(`[email-digest] sent ${sent} digest(s)`);
+    }
+  } catch (error) {
+    console.error("[email-digest] run failed:", error);
+  }
+}
+
+/**
+ * Send due email digests once at server start and then hourly, if Resend is
+ * configured. Like the trash purge, every server process runs its own timer.
+ * Each run claims a user's digest for the period by updating
+ * email_digest_sent_at before sending, so only one process sends it.
+ */
+export function scheduleEmailDigests() {
+  if (digestTimer) return;
+  if (!process.env.RESEND_API_KEY) {
+    console.warn(
+      "[email-digest] RESEND_API_KEY is not set — email digests are disabled.",
+    );
+    return;
+  }
+  digestTimer = setInterval(() => void runDigests(), DIGEST_INTERVAL_MS);
+  // Do not keep the process alive just for the digests
+  digestTimer.unref();
+  void runDigests();
+}
@@ -0,0 +1,411 @@
+/**
+ * Email digest: users who opt in on their profile page get their unread
+ * notifications, grouped by board, plus the open cards assigned to them that
+ * are overdue or due today, once a day or once a week. runEmailDigests is
+ * called hourly by the server (email-digest-schedule.ts) and can be run by
+ * hand with scripts/send-email-digests.ts.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { t } from "@/lib/i18n";
+import { getMyTaskBucket } from "@/lib/my-tasks";
+import { sendEmailDigest } from "@/lib/mailer";
+import type { NotificationType } from "@/lib/notifications";
+import { single } from "@/lib/supabase/embed";
+
+export const EMAIL_DIGEST_FREQUENCIES = ["off", "daily", "weekly"] as const;
+
+export type EmailDigestFrequency = (typeof EMAIL_DIGEST_FREQUENCIES)[number];
+
+export const emailDigestFrequencySchema = z.enum(EMAIL_DIGEST_FREQUENCIES);
+
+/** Digests go out from this hour (UTC) on; weekly ones on Mondays. */
+export const DIGEST_SEND_HOUR_UTC = 6;
+
+// Upper bound of notifications listed in one digest; the rest are counted
+const MAX_DIGEST_NOTIFICATIONS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DigestNotification = {
+  id: string;
+  text: string;
+  cardId: string | null;
+  createdAt: string;
+};
+
+export type DigestBoard = {
+  boardId: string;
+  boardName: string;
+  notifications: DigestNotification[];
+};
+
+export type DigestCard = {
+  id: string;
+  title: string;
+  boardId: string;
+  boardName: string;
+  dueDate: string;
+};
+
+export type EmailDigest = {
+  boards: DigestBoard[];
+  /** All unread notifications, including those beyond the listed ones. */
+  unreadCount: number;
+  overdue: DigestCard[];
+  dueToday: DigestCard[];
+};
+
+export type DigestRecipient = {
+  id: string;
+  email: string;
+  name: string | null;
+  email_digest_frequency: Exclude<EmailDigestFrequency, "off">;
+  email_digest_sent_at: string | null;
+};
+
+type Named = { name?: string | null };
+
+/**
+ * Start of the digest period `now` falls in: midnight UTC of the day, or of
+ * the Monday of the week for weekly digests.
+ */
+export function getDigestPeriodStart(
+  frequency: Exclude<EmailDigestFrequency, "off">,
+  now: Date,
+): Date {
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+  if (frequency === "weekly") {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    return new Date(start.getTime() - daysSinceMonday * DAY_MS);
+  }
+  return start;
+}
+
+/**
+ * Whether a user's digest should be sent at `now`: once per period, and not
+ * before DIGEST_SEND_HOUR_UTC on the day the period starts.
+ */
+export function isDigestDue(
+  frequency: EmailDigestFrequency,
+  lastSentAt: string | null,
+  now: Date,
+): boolean {
+  if (frequency === "off") return false;
+  const periodStart = getDigestPeriodStart(frequency, now);
+  const sendFrom = new Date(
+    periodStart.getTime() + DIGEST_SEND_HOUR_UTC * 60 * 60 * 1000,
+  );
+  if (now < sendFrom) return false;
+  return !lastSentAt || new Date(lastSentAt) < periodStart;
+}
+
+export function isDigestEmpty(digest: EmailDigest): boolean {
+  return (
+    digest.unreadCount === 0 &&
+    digest.overdue.length === 0 &&
+    digest.dueToday.length === 0
+  );
+}
+
+/** Same wording as the notification center. */
+export function formatDigestNotification(row: {
+  type: NotificationType;
+  metadata: Record<string, unknown> | null;
+  actor: Named | null;
+  card: { title?: string | null } | null;
+  board: Named | null;
+}): string {
+  const actor = row.actor?.name ?? t("common.unknown");
+  const card = row.card?.title ?? "";
+  const board = row.board?.name ?? "";
+  switch (row.type) {
+    case "mention":
+      return t("notifications.mention", { actor, card });
+    case "comment_on_assigned":
+      return t("notifications.commentOnAssigned", { actor, card });
+    case "deadline_change":
+      return t("notifications.deadlineChange", { actor, card });
+    case "file_upload":
+      return t("notifications.fileUpload", { actor, card });
+    case "card_assigned":
+      return t("notifications.cardAssigned", { actor, card });
+    case "board_member_added":
+      return t("notifications.boardMemberAdded", { actor, board });
+    case "card_completed":
+      return t("notifications.cardCompleted", { actor, card });
+    case "card_moved": {
+      const column = (row.metadata?.columnTitle as string | undefined) ?? "";
+      return t("notifications.cardMoved", { actor, card, column });
+    }
+    case "comment_reply":
+      return t("notifications.commentReply", { actor, card });
+    case "comment":
+      return t("notifications.comment", { actor, card });
+  }
+}
+
+/**
+ * Boards the user owns or is a member of that are not archived, by id.
+ * The digest is built with the admin client, so nothing from boards the
+ * user has left may be listed.
+ */
+async function loadDigestBoards(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<Map<string, string>> {
+  const [owned, memberships] = await Promise.all([
+    supabase
+      .from("boards")
+      .select("id, name, is_archived")
+      .eq("owner_id", userId),
+    supabase
+      .from("board_members")
+      .select("boards!inner(id, name, is_archived)")
+      .eq("user_id", userId),
+  ]);
+  if (owned.error) throw owned.error;
+  if (memberships.error) throw memberships.error;
+
+  type BoardRow = { id: string; name: string; is_archived: boolean };
+  const rows = [
+    ...((owned.data ?? []) as BoardRow[]),
+    ...(
+      (memberships.data ?? []) as unknown as { boards: BoardRow | BoardRow[] }[]
+    )
+      .map((row) => single(row.boards))
+      .filter((board): board is BoardRow => board !== null),
+  ];
+  return new Map(
+    rows
+      .filter((board) => !board.is_archived)
+      .map((board) => [board.id, board.name]),
+  );
+}
+
+/**
+ * Collect a user's digest: unread notifications on their boards, newest
+ * first and grouped by board, and their open overdue and due-today cards.
+ * Pass the admin client. Throws on query errors.
+ */
+export async function buildEmailDigest(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date(),
+): Promise<EmailDigest> {
+  const boards = await loadDigestBoards(supabase, userId);
+  const boardIds = [...boards.keys()];
+  if (boardIds.length === 0) {
+    return { boards: [], unreadCount: 0, overdue: [], dueToday: [] };
+  }
+
+  const today = now.toISOString().slice(0, 10);
+  const tomorrow = new Date(
+    getDigestPeriodStart("daily", now).getTime() + DAY_MS,
+  ).toISOString();
+
+  const [notifications, cards] = await Promise.all([
+    supabase
+      .from("notifications")
+      .select(
+        `
+        id,
+        type,
+        metadata,
+        created_at,
+        board_id,
+        card_id,
+        actor:users!actor_id ( name ),
+        card:cards!card_id ( title ),
+        board:boards!board_id ( name )
+        `,
+        { count: "exact" },
+      )
+      .eq("user_id", userId)
+      .is("read_at", null)
+      .in("board_id", boardIds)
+      .order("created_at", { ascending: false })
+      .limit(MAX_DIGEST_NOTIFICATIONS),
+    // Same as "My Tasks": cards the user is one of the assignees of
+    supabase
+      .from("cards")
+      .select("id, title, due_date, board_id, card_assignees!inner(user_id)")
+      .eq("card_assignees.user_id", userId)
+      .in("board_id", boardIds)
+      .is("completed_at", null)
+      .is("deleted_at", null)
+      .lt("due_date", tomorrow)
+      .order("due_date", { ascending: true }),
+  ]);
+  if (notifications.error) throw notifications.error;
+  if (cards.error) throw cards.error;
+
+  type NotificationResult = {
+    id: string;
+    type: NotificationType;
+    metadata: Record<string, unknown> | null;
+    created_at: string;
+    board_id: string;
+    card_id: string | null;
+    actor: Named | Named[] | null;
+    card: { title: string } | { title: string }[] | null;
+    board: Named | Named[] | null;
+  };
+  const byBoard = new Map<string, DigestBoard>();
+  for (const row of (notifications.data ?? []) as NotificationResult[]) {
+    const group = byBoard.get(row.board_id) ?? {
+      boardId: row.board_id,
+      boardName: boards.get(row.board_id) ?? "",
+      notifications: [],
+    };
+    group.notifications.push({
+      id: row.id,
+      text: formatDigestNotification({
+        type: row.type,
+        metadata: row.metadata,
+        actor: single(row.actor),
+        card: single(row.card),
+        board: single(row.board),
+      }),
+      cardId: row.card_id,
+      createdAt: row.created_at,
+    });
+    byBoard.set(row.board_id, group);
+  }
+
+  const overdue: DigestCard[] = [];
+  const dueToday: DigestCard[] = [];
+  for (const card of (cards.data ?? []) as {
+    id: string;
+    title: string;
+    due_date: string;
+    board_id: string;
+  }[]) {
+    const bucket = getMyTaskBucket(card.due_date, today);
+    if (bucket !== "overdue" && bucket !== "today") continue;
+    (bucket === "overdue" ? overdue : dueToday).push({
+      id: card.id,
+      title: card.title,
+      boardId: card.board_id,
+      boardName: boards.get(card.board_id) ?? "",
+      dueDate: card.due_date,
+    });
+  }
+
+  return {
+    // Boards with the most recent activity first
+    boards: [...byBoard.values()],
+    unreadCount: notifications.count ?? notifications.data?.length ?? 0,
+    overdue,
+    dueToday,
+  };
+}
+
+export type DigestRunResult = {
+  userId: string;
+  email: string;
+  status: "sent" | "empty" | "failed" | "dry-run";
+  digest?: EmailDigest;
+};
+
+/**
+ * Record the send for the current period before sending, so that two runs
+ * at the same time (server and script) do not both send. Returns false if
+ * another run already did.
+ */
+async function claimDigest(
+  supabase: SupabaseClient,
+  user: DigestRecipient,
+  now: Date,
+  force: boolean,
+): Promise<boolean> {
+  let query = supabase
+    .from("users")
+    .update({ email_digest_sent_at: now.toISOString() })
+    .eq("id", user.id);
+  if (!force) {
+    const periodStart = getDigestPeriodStart(
+      user.email_digest_frequency,
+      now,
+    ).toISOString();
+    query = query.or(
+      `email_digest_sent_at.is.null,email_digest_sent_at.lt.${periodStart}`,
+    );
+  }
+  const { data, error } = await query.select("id");
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Send every due digest. A digest with nothing in it is not sent but still
+ * counts as sent for the period; a failed one is retried on the next run.
+ * `force` ignores the schedule, `dryRun` builds the digests without sending
+ * them or recording the send. Pass the admin client.
+ */
+export async function runEmailDigests(
+  supabase: SupabaseClient,
+  options: { now?: Date; force?: boolean; dryRun?: boolean } = {},
+): Promise<DigestRunResult[]> {
+  const now = options.now ?? new Date();
+  const force = options.force ?? false;
+  const { data, error } = await supabase
+    .from("users")
+    .select("id, email, name, email_digest_frequency, email_digest_sent_at")
+    .neq("email_digest_frequency", "off");
+  if (error) throw error;
+
+  const results: DigestRunResult[] = [];
+  for (const user of (data ?? []) as DigestRecipient[]) {
+    if (
+      !force &&
+      !isDigestDue(user.email_digest_frequency, user.email_digest_sent_at, now)
+    ) {
+      continue;
+    }
+
+    const result = { userId: user.id, email: user.email };
+    if (options.dryRun) {
+      try {
+        const digest = await buildEmailDigest(supabase, user.id, now);
+        results.push({ ...result, status: "dry-run", digest });
+      } catch (err) {
+        console.error("[email-digest] digest failed:", user.id, err);
+        results.push({ ...result, status: "failed" });
+      }
+      continue;
+    }
+
+    let claimed = false;
+    try {
+      claimed = await claimDigest(supabase, user, now, force);
+      if (!claimed) continue;
+
+      const digest = await buildEmailDigest(supabase, user.id, now);
+      if (isDigestEmpty(digest)) {
+        results.push({ ...result, status: "empty" });
+        continue;
+      }
+      await sendEmailDigest({
+        to: user.email,
+        userName: user.name,
+        frequency: user.email_digest_frequency,
+        digest,
+      });
+      results.push({ ...result, status: "sent" });
+    } catch (err) {
+      console.error("[email-digest] digest failed:", user.id, err);
+      results.push({ ...result, status: "failed" });
+      if (claimed) {
+        // Let the next run try again
+        await supabase
+          .from("users")
+          .update({ email_digest_sent_at: user.email_digest_sent_at })
+          .eq("id", user.id);
+      }
+    }
+  }
+  return results;
+}
@@ -0,0 +1,45 @@
+/**
+ * Label color palette and contrast helpers.
+ * Labels store a free hex color (`labels.color`); these helpers keep chips
+ * readable regardless of what the user picked.
+ */
+
+export const DEFAULT_LABEL_COLOR = "#6b7280"; // gray-500
+
+/**
+ * Preset swatches offered by the label picker
+ */
+export const LABEL_COLOR_PRESETS = [
+  "#dc2626", // red-600
+  "#ea580c", // orange-600
+  "#d97706", // amber-600
+  "#16a34a", // green-600
+  "#0d9488", // teal-600
+  "#2563eb", // blue-600
+  "#7c3aed", // violet-600
+  "#db2777", // pink-600
+  "#6b7280", // gray-500
+] as const;
+
+/**
+ * Normalize a stored label color to a 6-digit hex, falling back to gray
+ */
+export function normalizeLabelColor(color: string | null | undefined): string {
+  if (color && /^#[0-9a-f]{6}$/i.test(color)) return color.toLowerCase();
+  return DEFAULT_LABEL_COLOR;
+}
+
+/**
+ * Pick black or white text for a label background (WCAG relative luminance)
+ */
+export function getLabelTextColor(color: string | null | undefined): string {
+  const hex = normalizeLabelColor(color).slice(1);
+  const [r, g, b] = [0, 2, 4].map((i) => {
+    const channel = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return channel <= 0.03928
+      ? channel / 12.92
+      : Math.pow((channel + 0.055) / 1.055, 2.4);
+  }) as [number, number, number];
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return luminance > 0.4 ? "#111827" : "#ffffff";
+}
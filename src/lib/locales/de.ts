@@ -120,6 +120,15 @@ export const de = {
     failedToCreate: "Spalte konnte nicht erstellt werden",
     failedToUpdate: "Spalte konnte nicht aktualisiert werden",
     failedToDelete: "Spalte konnte nicht gelöscht werden",
+    wipLimit: "WIP-Limit",
+    wipLimitPlaceholder: "Kein Limit",
+    wipLimitHint:
+      "Maximale Anzahl Karten in dieser Spalte. Leer lassen für kein Limit.",
+    wipLimitInvalid:
+      "Das WIP-Limit muss eine ganze Zahl zwischen 1 und 999 sein",
+    wipLimitHard: "Limit erzwingen",
+    wipLimitHardHint:
+      "Karten können nicht in die Spalte verschoben werden, wenn das Limit erreicht ist.",
   },
 
   kanban: {
@@ -181,6 +190,9 @@ export const de = {
     clearAll: "Alle löschen",
     clearPriorityFilters: "Prioritätsfilter löschen",
     clearAssigneeFilters: "Bearbeiterfilter löschen",
+    label: "Label",
+    unlabeled: "Ohne Label",
+    clearLabelFilters: "Labelfilter löschen",
     sortAscending: "Aufsteigend sortieren",
     sortDescending: "Absteigend sortieren",
     sortBy: "Sortieren: {label}",
@@ -198,6 +210,169 @@ export const de = {
       created: "Erstellt",
       updated: "Aktualisiert",
     },
+    dueDate: "Fälligkeit",
+    dueDateOptions: {
+      overdue: "Überfällig",
+      today: "Heute fällig",
+      week: "Diese Woche fällig",
+      none: "Ohne Fälligkeitsdatum",
+    },
+    clearDueDateFilter: "Fälligkeitsfilter löschen",
+    search: "Karten filtern",
+    searchPlaceholder: "Filtern, z. B. assignee:me",
+  },
+
+  cardQuery: {
+    suggestions: "Vorschläge",
+    errors: {
+      "unknown-field": "Unbekannter Filter: {term}",
+      "invalid-value": "Ungültiger Wert: {term}",
+      "missing-value": "Wert fehlt: {term}",
+      "unterminated-quote": "Anführungszeichen nicht geschlossen: {term}",
+    },
+    help: "Filter: assignee:, priority:, label:, due:, is:, has:, created-via: – mit „-“ davor ausschließen",
+  },
+
+  recurrence: {
+    label: "Wiederholen",
+    presets: {
+      none: "Nicht wiederholen",
+      daily: "Täglich",
+      weekdays: "Werktags (Mo–Fr)",
+      weekly: "Wöchentlich",
+      monthly: "Monatlich",
+      custom: "Benutzerdefiniert (RRULE)",
+    },
+    every: "Alle",
+    units: {
+      DAILY: "Tage",
+      WEEKLY: "Wochen",
+      MONTHLY: "Monate",
+    },
+    weekdays: {
+      MO: "Mo",
+      TU: "Di",
+      WE: "Mi",
+      TH: "Do",
+      FR: "Fr",
+      SA: "Sa",
+      SU: "So",
+    },
+    onDay: "Am Tag",
+    lastDay: "Letzter Tag",
+    customPlaceholder: "z. B. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO",
+    customHelp:
+      "FREQ=DAILY|WEEKLY|MONTHLY mit INTERVAL, BYDAY, BYMONTHDAY und UNTIL",
+    invalid: "Die Wiederholungsregel wird nicht unterstützt",
+    column: "Nächste Karte in",
+    columnDefault: "Erste offene Spalte",
+    hint: "Beim Abschließen wird eine neue Karte mit dem nächsten Fälligkeitsdatum und den Aufgaben erstellt.",
+    badge: "Wiederkehrend",
+  },
+
+  watchers: {
+    watch: "Beobachten",
+    unwatch: "Nicht mehr beobachten",
+    count: "{count} Beobachter",
+    hint: "Über Kommentare, Verschiebungen, Fälligkeiten und Anhänge benachrichtigt werden",
+    viaCard: "beobachtet die Karte",
+    viaColumn: "beobachtet die Spalte",
+    viaBoard: "beobachtet das Board",
+    watchBoard: "Board beobachten",
+    unwatchBoard: "Board nicht mehr beobachten",
+    watchColumn: "Spalte beobachten",
+    unwatchColumn: "Spalte nicht mehr beobachten",
+    unwatched: "Nicht mehr beobachtet",
+    failedToUpdate: "Beobachtung konnte nicht geändert werden",
+  },
+
+  dependencies: {
+    title: "Abhängigkeiten",
+    add: "Verknüpfen",
+    type: "Art der Abhängigkeit",
+    types: {
+      blocked_by: "Blockiert durch",
+      blocks: "Blockiert",
+    },
+    searchPlaceholder: "Karte auf allen Boards suchen...",
+    noResults: "Keine passenden Karten",
+    none: "Keine Abhängigkeiten",
+    remove: "Abhängigkeit entfernen",
+    failedToUpdate: "Abhängigkeiten konnten nicht aktualisiert werden",
+    blocked: "Blockiert",
+    blockedBy: "Blockiert durch {count} offene Karte(n)",
+    moveWarning:
+      "Die Karte wurde abgeschlossen, obwohl sie noch durch offene Karten blockiert ist.",
+    moveRejected:
+      "Die Karte ist noch durch offene Karten blockiert und kann nicht abgeschlossen werden.",
+    enforce: "Abhängigkeiten erzwingen",
+    enforceHint:
+      "Blockierte Karten können erst in eine Erledigt-Spalte verschoben werden, wenn alle blockierenden Karten abgeschlossen sind. Sonst erscheint nur eine Warnung.",
+  },
+
+  trash: {
+    menuItem: "Papierkorb",
+    title: "Papierkorb",
+    description:
+      "Gelöschte Karten bleiben {days} Tage im Papierkorb und werden danach endgültig gelöscht.",
+    empty: "Der Papierkorb ist leer.",
+    loadError: "Papierkorb konnte nicht geladen werden",
+    restore: "Wiederherstellen",
+    restoreError: "Karte konnte nicht wiederhergestellt werden",
+    deletedBy: "Gelöscht von {name} am {date}",
+    deletedAt: "Gelöscht am {date}",
+    column: "Spalte: {column}",
+    purgeAt: "Wird am {date} endgültig gelöscht",
+    moveToTrash: "In den Papierkorb verschieben",
+    deleteConfirm:
+      "„{title}“ in den Papierkorb verschieben? Eigentümer und Administratoren können die Karte dort wiederherstellen.",
+    retentionLabel: "Aufbewahrung im Papierkorb (Tage)",
+    retentionHint:
+      "Gelöschte Karten werden nach dieser Zeit mit Kommentaren, Aufgaben und Anhängen endgültig gelöscht.",
+  },
+
+  swimlanes: {
+    groupBy: "Swimlanes",
+    groupByValue: "Swimlanes: {mode}",
+    modes: {
+      none: "Keine",
+      assignee: "Nach Bearbeiter",
+      priority: "Nach Priorität",
+      label: "Nach Label",
+    },
+    unassigned: "Nicht zugewiesen",
+    noLabel: "Ohne Label",
+    laneCount: "{count} Karte(n)",
+    expandLane: "Swimlane „{lane}“ aufklappen",
+    collapseLane: "Swimlane „{lane}“ einklappen",
+    updateFailed: "Die Karte konnte nicht in die Swimlane verschoben werden.",
+  },
+
+  boardTable: {
+    columns: {
+      title: "Titel",
+      column: "Spalte",
+      assignee: "Bearbeiter",
+      priority: "Priorität",
+      dueDate: "Fällig",
+      labels: "Labels",
+      subtasks: "Unteraufgaben",
+      createdVia: "Erstellt über",
+    },
+    empty: "Keine Karten entsprechen den aktuellen Filtern.",
+    selectAll: "Alle Karten auswählen",
+    selectCard: "Karte „{title}“ auswählen",
+    selectedCount: "{count} ausgewählt",
+    bulkActions: "Aktionen für ausgewählte Karten",
+    setPriority: "Priorität setzen",
+    setAssignee: "Bearbeiter setzen",
+    moveTo: "Verschieben nach",
+    clearSelection: "Auswahl aufheben",
+    subtaskProgress: "{completed}/{total}",
+    createdViaUi: "Oberfläche",
+    dueDateCreatorOnly:
+      "Nur der Ersteller kann das Fälligkeitsdatum direkt ändern. Öffnen Sie die Karte, um eine Änderung vorzuschlagen.",
+    updateFailed: "Die Karte konnte nicht aktualisiert werden.",
   },
 
   priority: {
@@ -225,6 +400,8 @@ export const de = {
     markAsDone: "Als Erledigungs-Spalte markieren",
     markAsActive: "Als aktive Spalte markieren",
     doneColumn: "Erledigungs-Spalte",
+    wipLimitTitle: "{count} von maximal {limit} Karten",
+    wipLimitExceeded: "WIP-Limit überschritten",
   },
 
   createBoard: {
@@ -250,6 +427,12 @@ export const de = {
     description: "Board-Namen und Einstellungen aktualisieren.",
     submit: "Board aktualisieren",
     updating: "Wird aktualisiert...",
+    export: "Exportieren",
+    exportHint:
+      "Board als Changeset-JSON herunterladen (für POST /api/changesets/board)",
+    exportError: "Board konnte nicht exportiert werden",
+    archiveHint:
+      "Archivierte Boards sind schreibgeschützt und erscheinen nicht mehr in Übersichten und Statistiken.",
   },
 
   emptyStates: {
@@ -282,10 +465,15 @@ export const de = {
     editBoard: "Board bearbeiten",
     archive: "Archivieren",
     unarchive: "Archivierung aufheben",
+    archivedReadOnly:
+      "Dieses Board ist archiviert und kann nur gelesen werden. Heben Sie die Archivierung auf, um es wieder zu bearbeiten.",
+    archiveError: "Archivierung konnte nicht geändert werden",
     team: "Team",
     created: "Erstellt am {date}",
     showingCards: "Zeige {filtered} von {total} Karten",
     hiddenCards: "({count} ausgeblendet)",
+    wipLimitReached:
+      "„{column}“ hat das WIP-Limit von {limit} Karten erreicht. Die Karte wurde nicht verschoben.",
   },
 
   boardDetail: {
@@ -309,6 +497,33 @@ export const de = {
     addColumn: "Spalte hinzufügen",
     saveAsTemplate: "Als Vorlage speichern",
     manageUsers: "Mitglieder verwalten",
+    viewBoard: "Kanban-Ansicht",
+    viewTable: "Tabellenansicht",
+    viewTimeline: "Zeitleiste",
+  },
+
+  savedViews: {
+    title: "Ansichten",
+    myViews: "Meine Ansichten",
+    sharedViews: "Geteilte Ansichten",
+    shared: "Mit Mitgliedern geteilt",
+    empty: "Noch keine gespeicherten Ansichten",
+    saveAs: "Aktuelle Ansicht speichern…",
+    update: "Änderungen in „{name}“ speichern",
+    share: "Mit Mitgliedern teilen",
+    unshare: "Nicht mehr teilen",
+    delete: "Ansicht löschen",
+    deleteConfirm: "Die Ansicht „{name}“ wirklich löschen?",
+    copyLink: "Link kopieren",
+    linkCopied: "Link kopiert",
+    saveTitle: "Ansicht speichern",
+    saveDescription:
+      "Speichert Filter, Sortierung und Darstellung dieses Boards unter einem Namen.",
+    nameLabel: "Name",
+    namePlaceholder: "z. B. Meine überfälligen Karten",
+    shareWithMembers: "Mit allen Board-Mitgliedern teilen",
+    save: "Speichern",
+    requestFailed: "Aktion ist fehlgeschlagen",
   },
 
   inviteMembers: {
@@ -326,6 +541,20 @@ export const de = {
     doneOn: "Erledigt am {date}",
   },
 
+  labels: {
+    title: "Labels",
+    addLabel: "Label hinzufügen",
+    noLabels: "Keine Labels",
+    noBoardLabels: "Dieses Board hat noch keine Labels.",
+    searchOrCreate: "Label suchen oder erstellen…",
+    createLabel: "Label „{name}“ erstellen",
+    removeLabel: "Label {name} entfernen",
+    color: "Farbe",
+    moreLabels: "+{count}",
+    failedToUpdate: "Labels konnten nicht aktualisiert werden",
+    failedToCreate: "Label konnte nicht erstellt werden",
+  },
+
   editCard: {
     titleEdit: "Karte bearbeiten",
     titleCreate: "Neue Karte erstellen",
@@ -344,6 +573,10 @@ export const de = {
     dueDatePlaceholder: "Datum auswählen",
     clearDueDate: "Datum entfernen",
     invalidDueDate: "Bitte ein gültiges Fälligkeitsdatum eingeben",
+    startDateLabel: "Start am",
+    clearStartDate: "Startdatum entfernen",
+    invalidStartDate: "Bitte ein gültiges Startdatum eingeben",
+    startAfterDue: "Das Startdatum darf nicht nach dem Fälligkeitsdatum liegen",
     // Deadline suggestion workflow
     deadlineHistoryTitle: "Terminverlauf",
     deadlineNoHistory: "Noch keine Terminänderungen.",
@@ -376,6 +609,9 @@ export const de = {
     assigneeLabel: "Bearbeiter",
     assigneePlaceholder: "Bearbeiter auswählen",
     noAssignee: "Nicht zugewiesen",
+    assigneesHint:
+      "Bis zu {max} Bearbeiter. Die zuerst gewählte Person ist Hauptbearbeiter.",
+    primaryAssignee: "Haupt",
     discussion: "Diskussion",
     noComments: "Noch keine Kommentare.",
     commentPlaceholder: "Kommentar schreiben...",
@@ -399,6 +635,21 @@ export const de = {
     failedToDeleteComment: "Kommentar konnte nicht gelöscht werden",
     commentDeleted: "Kommentar gelöscht",
     commentEdited: "bearbeitet",
+    commentHistory: "Verlauf ({count} Änderung(en))",
+    commentHistoryEdit: "{name} am {date}",
+    commentHistoryOriginal: "Original vom {date}",
+    commentHistoryError: "Verlauf konnte nicht geladen werden",
+    commentShowDeleted: "Inhalt anzeigen",
+    commentHideDeleted: "Inhalt ausblenden",
+    commentReply: "Antworten",
+    commentReplyTo: "Antwort an {name}",
+    commentReplyPlaceholder: "Antwort schreiben... (@Name für Erwähnung)",
+    commentShowReplies: "{count} Antwort(en) anzeigen",
+    commentHideReplies: "Antworten ausblenden",
+    commentAddReaction: "Reaktion hinzufügen",
+    commentTooLong: "Kommentar ist zu lang (max. {max} Zeichen)",
+    failedToReply: "Antwort konnte nicht gesendet werden",
+    failedToReact: "Reaktion konnte nicht gespeichert werden",
     subtasks: "Aufgaben",
     subtasksProgress: "{done}/{total}",
     subtaskPlaceholder: "Aufgabe hinzufügen…",
@@ -564,6 +815,7 @@ export const de = {
     dashboard: "Dashboard",
     boards: "Boards",
     boardGroups: "Boardgruppen",
+    myTasks: "Meine Aufgaben",
     calendar: "Kalender",
     admin: "Benutzerverwaltung",
     adminSection: "Administration",
@@ -571,6 +823,23 @@ export const de = {
     signOut: "Abmelden",
   },
 
+  search: {
+    open: "Suchen",
+    shortcut: "Strg+K",
+    title: "Suche",
+    placeholder: "Karten, Kommentare und Unteraufgaben durchsuchen …",
+    minChars: "Mindestens 2 Zeichen eingeben",
+    searching: "Suche läuft …",
+    noResults: "Keine Treffer für „{query}“",
+    error: "Die Suche ist fehlgeschlagen.",
+    inBoard: "in {board}",
+    types: {
+      card: "Karte",
+      comment: "Kommentar",
+      subtask: "Unteraufgabe",
+    },
+  },
+
   calendar: {
     title: "Kalender",
     subtitle: "Fälligkeitsdaten über alle Boards",
@@ -587,6 +856,46 @@ export const de = {
     errorLoading: "Fehler beim Laden des Kalenders",
   },
 
+  myTasks: {
+    title: "Meine Aufgaben",
+    subtitle: "Offene Karten, die Ihnen zugewiesen sind, über alle Boards",
+    loading: "Aufgaben werden geladen...",
+    errorLoading: "Fehler beim Laden der Aufgaben",
+    empty: "Keine offenen Aufgaben – alles erledigt!",
+    bucket: {
+      overdue: "Überfällig",
+      today: "Heute",
+      week: "Diese Woche",
+      later: "Später",
+      none: "Ohne Fälligkeitsdatum",
+    },
+    dueOn: "Fällig am {date}",
+    complete: "Als erledigt markieren",
+    reschedule: "Verschieben",
+    quick: {
+      today: "Heute",
+      tomorrow: "Morgen",
+      nextWeek: "Nächste Woche",
+    },
+    deadlineSuggested:
+      "Neues Fälligkeitsdatum ({date}) wurde dem Ersteller vorgeschlagen",
+    actionFailed: "Aktion ist fehlgeschlagen",
+  },
+
+  timeline: {
+    title: "Zeitleiste",
+    today: "Heute",
+    empty: "Keine Karten mit Start- oder Fälligkeitsdatum",
+    unscheduled: "{count} Karte(n) ohne Datum werden nicht angezeigt",
+    barLabel: "{title}: {start} bis {end}",
+    updateFailed: "Karte konnte nicht aktualisiert werden",
+    suggestionFailed: "Terminvorschlag konnte nicht gesendet werden",
+    deadlineSuggested:
+      'Neues Fälligkeitsdatum für "{title}" wurde dem Ersteller vorgeschlagen',
+    loading: "Zeitleiste wird geladen...",
+    errorLoading: "Fehler beim Laden der Zeitleiste",
+  },
+
   dashboard: {
     title: "Dashboard",
     subtitle:
@@ -664,6 +973,7 @@ export const de = {
     sectionTitle: "Gruppen",
     sectionEmpty: "Noch keine Gruppen angelegt",
     ungroupedBoards: "Ungruppierte Boards",
+    viewBoards: "Board-Übersicht",
   },
 
   boardsPage: {
@@ -686,6 +996,7 @@ export const de = {
     newBoard: "Neues Board",
     deleteFailed: "Board konnte nicht gelöscht werden",
     adminBadge: "Admin",
+    archivedSection: "Archivierte Boards ({count})",
   },
 
   profile: {
@@ -899,6 +1210,8 @@ export const de = {
     boardMemberAdded: '{actor} hat Sie zum Board "{board}" hinzugefügt',
     cardCompleted: '{actor} hat die Karte "{card}" als erledigt markiert',
     cardMoved: '{actor} hat die Karte "{card}" nach "{column}" verschoben',
+    commentReply: '{actor} hat auf Ihren Kommentar zu "{card}" geantwortet',
+    comment: '{actor} hat "{card}" kommentiert',
     liveTitle: "Neue Benachrichtigung",
     dismiss: "Schließen",
     commentMentionPlaceholder: "Kommentar schreiben... (@Name für Erwähnung)",
@@ -923,6 +1236,15 @@ export const de = {
     desktopNotificationsRequest: "Berechtigung anfordern",
     desktopNotificationsUnsupported:
       "Desktop-Benachrichtigungen werden von diesem Browser nicht unterstützt.",
+    emailDigest: "E-Mail-Zusammenfassung",
+    emailDigestDescription:
+      "Ungelesene Benachrichtigungen nach Board sowie überfällige und heute fällige Karten per E-Mail.",
+    emailDigestOff: "Aus",
+    emailDigestDaily: "Täglich",
+    emailDigestWeekly: "Wöchentlich (montags)",
+    emailDigestSaved: "Einstellung für die E-Mail-Zusammenfassung gespeichert.",
+    emailDigestFailed:
+      "Die E-Mail-Zusammenfassung konnte nicht gespeichert werden.",
   },
   apiAccess: {
     title: "Claude API-Zugang",
@@ -939,6 +1261,20 @@ export const de = {
     createToken: "Neuen Token erstellen",
     tokenName: "Name",
     tokenNamePlaceholder: 'z. B. „Claude Code Laptop"',
+    accessLabel: "Zugriff",
+    accessFull: "Vollzugriff",
+    accessRestricted: "Eingeschränkt",
+    scopesLabel: "Berechtigungen",
+    boardsLabel: "Boards",
+    boardsHint:
+      "Ohne Auswahl gilt der Token für alle Boards, auf die du Zugriff hast.",
+    expiryLabel: "Ablauf",
+    expiryNever: "Läuft nie ab",
+    expiryDays: "In {days} Tagen",
+    createTokenFailed: "Token konnte nicht erstellt werden.",
+    tokenBoardCount: "{count} Board(s)",
+    tokenExpiresAt: "Läuft ab am {date}",
+    tokenExpired: "Abgelaufen",
     tokenCreatedTitle: "Token erstellt",
     tokenCreatedOnce:
       "Kopiere diesen Token jetzt. Er wird aus Sicherheitsgründen nicht erneut angezeigt.",
@@ -968,6 +1304,77 @@ export const de = {
     claudeMdReplaceTokenHint:
       'Ersetze "<HIER-DEINEN-TOKEN-EINSETZEN>" lokal in deiner .env durch den oben erstellten Token.',
   },
+  webhooks: {
+    menuItem: "Webhooks",
+    title: "Webhooks",
+    description:
+      "Externe Dienste bei Änderungen an diesem Board per signiertem HTTP-POST benachrichtigen.",
+    empty: "Noch keine Webhooks eingerichtet.",
+    urlLabel: "Ziel-URL",
+    urlPlaceholder: "https://example.com/webhooks/kanban",
+    eventsLabel: "Ereignisse",
+    add: "Webhook hinzufügen",
+    createError: "Webhook konnte nicht erstellt werden",
+    updateError: "Webhook konnte nicht aktualisiert werden",
+    deleteError: "Webhook konnte nicht gelöscht werden",
+    loadError: "Webhooks konnten nicht geladen werden",
+    active: "Aktiv",
+    paused: "Pausiert",
+    delete: "Löschen",
+    sendTest: "Test senden",
+    testSucceeded: "Test erfolgreich (HTTP {status})",
+    testFailed: "Test fehlgeschlagen: {error}",
+    showDeliveries: "Zustellungen",
+    hideDeliveries: "Zustellungen ausblenden",
+    noDeliveries: "Noch keine Zustellungen.",
+    deliveryAttempts: "{count} Versuch(e)",
+    deliveryNextAttempt: "Nächster Versuch {date}",
+    statusPending: "Ausstehend",
+    statusSucceeded: "Zugestellt",
+    statusFailed: "Fehlgeschlagen",
+    secretTitle: "Signatur-Secret",
+    secretOnce:
+      "Kopiere dieses Secret jetzt. Es wird nicht erneut angezeigt und dient zur Prüfung des X-Kanban-Signature-Headers.",
+    secretCopy: "Secret kopieren",
+    secretCopied: "Kopiert",
+    rotateSecret: "Secret erneuern",
+    events: {
+      cardCreated: "Karte erstellt",
+      cardMoved: "Karte verschoben",
+      cardCompleted: "Karte erledigt",
+      commentCreated: "Neuer Kommentar",
+      deadlineChanged: "Frist geändert",
+    },
+  },
+
+  cardActivity: {
+    tabActivity: "Aktivität",
+    loadError: "Aktivität konnte nicht geladen werden",
+    empty: "Noch keine Aktivität.",
+    unknownUser: "Unbekannt",
+    none: "keine",
+    commented: "{actor} hat kommentiert",
+    titleChanged: "{actor} hat den Titel von „{before}“ in „{after}“ geändert",
+    descriptionChanged: "{actor} hat die Beschreibung geändert",
+    assigneeChanged:
+      "{actor} hat den Bearbeiter von {before} auf {after} geändert",
+    priorityChanged:
+      "{actor} hat die Priorität von {before} auf {after} geändert",
+    dueDateChanged: "{actor} hat die Frist von {before} auf {after} geändert",
+    startDateChanged: "{actor} hat den Start von {before} auf {after} geändert",
+    moved: "{actor} hat die Karte von {before} nach {after} verschoben",
+    completed: "{actor} hat die Karte erledigt",
+    reopened: "{actor} hat die Karte wieder geöffnet",
+    subtaskAdded: "{actor} hat die Aufgabe „{title}“ hinzugefügt",
+    subtaskRenamed: "{actor} hat die Aufgabe „{before}“ in „{after}“ umbenannt",
+    subtaskCompleted: "{actor} hat die Aufgabe „{title}“ erledigt",
+    subtaskReopened: "{actor} hat die Aufgabe „{title}“ wieder geöffnet",
+    subtaskDeleted: "{actor} hat die Aufgabe „{title}“ gelöscht",
+    attachmentAdded: "{actor} hat die Datei „{name}“ angehängt",
+    attachmentDeleted: "{actor} hat die Datei „{name}“ entfernt",
+    trashed: "{actor} hat die Karte in den Papierkorb verschoben",
+    restored: "{actor} hat die Karte aus dem Papierkorb wiederhergestellt",
+  },
 } as const;
 
 export type DeLocale = typeof de;
@@ -1,5 +1,7 @@
 import fs from "fs";
 import path from "path";
+import { formatDisplayDate } from "@/lib/date-format";
+import type { DigestCard, EmailDigest } from "@/lib/email-digest";
 
 const FROM_ADDRESS = "kanban@aviam-projektentwicklung.de";
 
@@ -81,3 +83,99 @@ export async function sendNewUserPendingNotification(params: {
     html,
   });
 }
+
+function cardUrl(siteUrl: string, boardId: string, cardId: string) {
+  return `${siteUrl}/boards/${boardId}?cardId=${cardId}`;
+}
+
+function renderDigestCards(
+  siteUrl: string,
+  title: string,
+  cards: DigestCard[],
+): string {
+  if (cards.length === 0) return "";
+  const items = cards
+    .map(
+      (card) =>
+        `<li class="item"><a href="${escapeHtml(cardUrl(siteUrl, card.boardId, card.id))}">${escapeHtml(card.title)}</a>` +
+        `<span class="item-meta">${escapeHtml(card.boardName)} &middot; ${escapeHtml(formatDisplayDate(card.dueDate, { useUtc: true }))}</span></li>`,
+    )
+    .join("");
+  return `<div class="section"><div class="section-header">${escapeHtml(title)} (${cards.length})</div><ul class="items">${items}</ul></div>`;
+}
+
+function renderDigestNotifications(
+  siteUrl: string,
+  digest: EmailDigest,
+): string {
+  return digest.boards
+    .map((board) => {
+      const items = board.notifications
+        .map((notification) => {
+          const text = escapeHtml(notification.text);
+          const link = notification.cardId
+            ? escapeHtml(cardUrl(siteUrl, board.boardId, notification.cardId))
+            : escapeHtml(`${siteUrl}/boards/${board.boardId}`);
+          return `<li class="item"><a href="${link}">${text}</a></li>`;
+        })
+        .join("");
+      return `<div class="section"><div class="section-header">${escapeHtml(board.boardName)}</div><ul class="items">${items}</ul></div>`;
+    })
+    .join("");
+}
+
+/**
+ * Send a user their email digest (see src/lib/email-digest.ts). Throws when
+ * Resend is not configured or rejects the email.
+ */
+export async function sendEmailDigest(params: {
+  to: string;
+  userName: string | null;
+  frequency: "daily" | "weekly";
+  digest: EmailDigest;
+}) {
+  const { digest } = params;
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL ?? "";
+  const period =
+    params.frequency === "weekly"
+      ? "Ihre wöchentliche Zusammenfassung"
+      : "Ihre tägliche Zusammenfassung";
+
+  const listed = digest.boards.reduce(
+    (sum, board) => sum + board.notifications.length,
+    0,
+  );
+  const moreCount = digest.unreadCount - listed;
+  const summary = [
+    `${digest.unreadCount} ungelesene Benachrichtigung${digest.unreadCount === 1 ? "" : "en"}`,
+    `${digest.overdue.length} überfällige Karte${digest.overdue.length === 1 ? "" : "n"}`,
+    `${digest.dueToday.length} heute fällig`,
+  ].join(" · ");
+
+  let html = readTemplate("email-digest.html");
+  html = html
+    .replaceAll("{{SITE_URL}}", escapeHtml(siteUrl))
+    .replaceAll("{{USER_NAME}}", escapeHtml(params.userName ?? params.to))
+    .replaceAll("{{PERIOD_LABEL}}", escapeHtml(period))
+    .replaceAll("{{SUMMARY}}", escapeHtml(summary))
+    .replaceAll(
+      "{{CARD_SECTIONS}}",
+      renderDigestCards(siteUrl, "Überfällig", digest.overdue) +
+        renderDigestCards(siteUrl, "Heute fällig", digest.dueToday),
+    )
+    .replaceAll(
+      "{{NOTIFICATION_SECTIONS}}",
+      renderDigestNotifications(siteUrl, digest) +
+        (moreCount > 0
+          ? `<p class="more">… und ${moreCount} weitere ungelesene Benachrichtigung${moreCount === 1 ? "" : "en"}</p>`
+          : ""),
+    )
+    .replaceAll("{{DASHBOARD_URL}}", escapeHtml(`${siteUrl}/dashboard`))
+    .replaceAll("{{SETTINGS_URL}}", escapeHtml(`${siteUrl}/profile`));
+
+  await sendViaResend({
+    to: params.to,
+    subject: `${period} – ${summary}`,
+    html,
+  });
+}
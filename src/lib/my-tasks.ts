@@ -0,0 +1,82 @@
+export type MyTaskBucket = "overdue" | "today" | "week" | "later" | "none";
+
+/** Display order of the "My Tasks" groups. */
+export const MY_TASK_BUCKETS: MyTaskBucket[] = [
+  "overdue",
+  "today",
+  "week",
+  "later",
+  "none",
+];
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Validate a YYYY-MM-DD calendar day as sent by the client. */
+export function isCalendarDay(value: string): boolean {
+  if (!DAY_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return (
+    !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === value
+  );
+}
+
+/** The calendar day of `date` in the local time zone, as YYYY-MM-DD. */
+export function toLocalCalendarDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+const addDays = (day: string, amount: number) => {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + amount);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Bucket for a due date relative to `today` (YYYY-MM-DD). Due dates are
+ * calendar days stored in UTC, so only their UTC date is compared. "This
+ * week" runs up to and including Sunday of the current (Monday-based) week.
+ */
+export function getMyTaskBucket(
+  dueDate: string | null,
+  today: string,
+): MyTaskBucket {
+  if (!dueDate) return "none";
+  const parsed = new Date(dueDate);
+  if (Number.isNaN(parsed.getTime())) return "none";
+
+  const dueDay = parsed.toISOString().slice(0, 10);
+  if (dueDay < today) return "overdue";
+  if (dueDay === today) return "today";
+
+  const weekday = new Date(`${today}T00:00:00.000Z`).getUTCDay();
+  const endOfWeek = addDays(today, (7 - weekday) % 7);
+  return dueDay <= endOfWeek ? "week" : "later";
+}
+
+/** Group cards into all buckets in display order, keeping the input order. */
+export function groupMyTasks<T extends { dueDate: string | null }>(
+  cards: T[],
+  today: string,
+): { bucket: MyTaskBucket; cards: T[] }[] {
+  const groups = new Map<MyTaskBucket, T[]>(
+    MY_TASK_BUCKETS.map((bucket) => [bucket, []]),
+  );
+  cards.forEach((card) =>
+    groups.get(getMyTaskBucket(card.dueDate, today))!.push(card),
+  );
+  return MY_TASK_BUCKETS.map((bucket) => ({
+    bucket,
+    cards: groups.get(bucket)!,
+  }));
+}
+
+/** Quick-reschedule targets relative to `today`: today, tomorrow, next Monday. */
+export function getQuickRescheduleDays(today: string) {
+  const weekday = new Date(`${today}T00:00:00.000Z`).getUTCDay();
+  return {
+    today,
+    tomorrow: addDays(today, 1),
+    nextWeek: addDays(today, (8 - weekday) % 7 || 7),
+  };
+}
@@ -8,7 +8,9 @@ export type NotificationType =
   | "card_assigned"
   | "board_member_added"
   | "card_completed"
-  | "card_moved";
+  | "card_moved"
+  | "comment_reply"
+  | "comment";
 
 export type NotificationRow = {
   user_id: string;
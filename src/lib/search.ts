@@ -0,0 +1,64 @@
+/**
+ * Helpers for the full-text search endpoint and palette.
+ */
+
+export type SearchResultType = "card" | "comment" | "subtask";
+
+export const SEARCH_HIGHLIGHT_START = "<mark>";
+export const SEARCH_HIGHLIGHT_END = "</mark>";
+
+const MAX_SEARCH_TERMS = 8;
+
+/**
+ * Turn free text into a to_tsquery expression: every word becomes a prefix
+ * term and all terms must match. Everything except letters and digits is
+ * dropped, so the result is always a valid tsquery. Returns null when
+ * nothing searchable is left.
+ */
+export function buildSearchTsQuery(input: string): string | null {
+  const terms = input
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_SEARCH_TERMS);
+
+  if (terms.length === 0) return null;
+  return terms.map((term) => `${term}:*`).join(" & ");
+}
+
+export type SnippetSegment = { text: string; highlighted: boolean };
+
+/**
+ * Split a ts_headline snippet into plain and highlighted segments so it can
+ * be rendered without injecting HTML.
+ */
+export function parseSearchSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  let rest = snippet;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(SEARCH_HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+    const end = rest.indexOf(
+      SEARCH_HIGHLIGHT_END,
+      start + SEARCH_HIGHLIGHT_START.length,
+    );
+    if (end === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    segments.push({
+      text: rest.slice(start + SEARCH_HIGHLIGHT_START.length, end),
+      highlighted: true,
+    });
+    rest = rest.slice(end + SEARCH_HIGHLIGHT_END.length);
+  }
+
+  return segments.filter((segment) => segment.text.length > 0);
+}
@@ -14,6 +14,7 @@ vi.mock("@/lib/api-tokens/verify", () => ({
 import { headers } from "next/headers";
 import { authenticateBearerToken } from "@/lib/api-tokens/verify";
 import { getAuthorizedUser } from "../server";
+import { clientCanAccessBoard } from "@/lib/api-tokens/scopes";
 
 const mockHeaders = vi.mocked(headers);
 const mockAuth = vi.mocked(authenticateBearerToken);
@@ -33,7 +34,12 @@ describe("getAuthorizedUser", () => {
       get: (k: string) =>
         k.toLowerCase() === "authorization" ? "Bearer avk_xxx" : null,
     } as never);
-    mockAuth.mockResolvedValue({ tokenId: "t1", userId: "u1" });
+    mockAuth.mockResolvedValue({
+      tokenId: "t1",
+      userId: "u1",
+      scopes: null,
+      boardIds: null,
+    });
 
     const result = await getAuthorizedUser();
     expect(mockAuth).toHaveBeenCalledWith("avk_xxx", expect.any(Object));
@@ -50,4 +56,78 @@ describe("getAuthorizedUser", () => {
     const result = await getAuthorizedUser();
     expect(result.user).toBeNull();
   });
+
+  describe("scoped tokens", () => {
+    const bearerHeaders = () =>
+      mockHeaders.mockReturnValue({
+        get: (k: string) =>
+          k.toLowerCase() === "authorization" ? "Bearer avk_xxx" : null,
+      } as never);
+
+    it("accepts a token that has the route's scope", async () => {
+      bearerHeaders();
+      mockAuth.mockResolvedValue({
+        tokenId: "t1",
+        userId: "u1",
+        scopes: ["cards:write"],
+        boardIds: null,
+      });
+
+      const result = await getAuthorizedUser({ scope: "cards:write" });
+      expect(result.user).toEqual(expect.objectContaining({ id: "u1" }));
+    });
+
+    it("treats a write scope as granting the matching read scope", async () => {
+      bearerHeaders();
+      mockAuth.mockResolvedValue({
+        tokenId: "t1",
+        userId: "u1",
+        scopes: ["boards:write"],
+        boardIds: null,
+      });
+
+      const result = await getAuthorizedUser({ scope: "boards:read" });
+      expect(result.user).not.toBeNull();
+    });
+
+    it("rejects a token that lacks the route's scope", async () => {
+      bearerHeaders();
+      mockAuth.mockResolvedValue({
+        tokenId: "t1",
+        userId: "u1",
+        scopes: ["boards:read"],
+        boardIds: null,
+      });
+
+      const result = await getAuthorizedUser({ scope: "cards:write" });
+      expect(result.user).toBeNull();
+    });
+
+    it("rejects scoped tokens on routes that declare no scope", async () => {
+      bearerHeaders();
+      mockAuth.mockResolvedValue({
+        tokenId: "t1",
+        userId: "u1",
+        scopes: ["boards:read", "boards:write", "cards:write"],
+        boardIds: null,
+      });
+
+      const result = await getAuthorizedUser();
+      expect(result.user).toBeNull();
+    });
+
+    it("attaches the board restriction to the returned client", async () => {
+      bearerHeaders();
+      mockAuth.mockResolvedValue({
+        tokenId: "t1",
+        userId: "u1",
+        scopes: ["cards:read"],
+        boardIds: ["board-a"],
+      });
+
+      const { supabase } = await getAuthorizedUser({ scope: "cards:read" });
+      expect(clientCanAccessBoard(supabase, "board-a")).toBe(true);
+      expect(clientCanAccessBoard(supabase, "board-b")).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,4 @@
+/** PostgREST may type an embedded to-one row as an object or an array. */
+export function single<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
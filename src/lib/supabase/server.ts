@@ -3,6 +3,11 @@ import { createClient as createServiceClient } from "@supabase/supabase-js";
 import jwt from "jsonwebtoken";
 import { cookies, headers } from "next/headers";
 import { authenticateBearerToken } from "@/lib/api-tokens/verify";
+import {
+  attachTokenRestrictions,
+  tokenHasScope,
+  type ApiTokenScope,
+} from "@/lib/api-tokens/scopes";
 
 export async function createClient() {
   const cookieStore = await cookies();
@@ -78,8 +83,15 @@ function signSupabaseJwt(userId: string): string {
  * token authenticates, returns a Supabase client whose requests carry a
  * short-lived JWT for the token's user so existing RLS policies
  * (`auth.uid() = …`) keep working unchanged.
+ *
+ * `scope` is what the calling route needs. Scoped tokens are rejected when
+ * they lack it — and on routes that declare no scope at all, which stay
+ * reserved for full-access tokens and cookie sessions. Board restrictions
+ * ride along with the returned client (see `clientCanAccessBoard`).
  */
-export async function getAuthorizedUser() {
+export async function getAuthorizedUser(
+  options: { scope?: ApiTokenScope } = {},
+) {
   const h = await headers();
   const authHeader = h.get("authorization") ?? h.get("Authorization");
 
@@ -91,6 +103,12 @@ export async function getAuthorizedUser() {
     if (!result) {
       return { supabase: await createClient(), user: null };
     }
+    if (
+      result.scopes !== null &&
+      (!options.scope || !tokenHasScope(result.scopes, options.scope))
+    ) {
+      return { supabase: await createClient(), user: null };
+    }
     const accessToken = signSupabaseJwt(result.userId);
     const supabase = createServiceClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -100,6 +118,10 @@ export async function getAuthorizedUser() {
         global: { headers: { Authorization: `Bearer ${accessToken}` } },
       },
     );
+    attachTokenRestrictions(supabase, {
+      scopes: result.scopes,
+      boardIds: result.boardIds,
+    });
     return {
       supabase,
       user: { id: result.userId, tokenId: result.tokenId } as never,
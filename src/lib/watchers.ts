@@ -0,0 +1,142 @@
+/**
+ * Watchers: a `watchers` row subscribes a user to one card, to every card in
+ * a column, or to every card on a board. Watchers get notified about
+ * comments, moves, completions, deadline changes and uploads on the cards
+ * they watch, on top of the assignee / mention notifications.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NotificationRow } from "@/lib/notifications";
+
+export type WatchScope = "card" | "column" | "board";
+
+export type WatchRow = {
+  id: string;
+  user_id: string;
+  board_id: string;
+  column_id: number | null;
+  card_id: string | null;
+};
+
+export type Watch = {
+  id: string;
+  scope: WatchScope;
+  boardId: string;
+  columnId: number | null;
+  cardId: string | null;
+};
+
+export const WATCH_SELECT = "id, user_id, board_id, column_id, card_id";
+
+const SCOPE_RANK: Record<WatchScope, number> = { card: 0, column: 1, board: 2 };
+
+export function watchScope(row: WatchRow): WatchScope {
+  if (row.card_id) return "card";
+  if (row.column_id !== null) return "column";
+  return "board";
+}
+
+export function toWatch(row: WatchRow): Watch {
+  return {
+    id: row.id,
+    scope: watchScope(row),
+    boardId: row.board_id,
+    columnId: row.column_id,
+    cardId: row.card_id,
+  };
+}
+
+/**
+ * All watches on a board. Non-throwing like `createNotifications`: a failed
+ * lookup only means watchers miss this notification.
+ */
+export async function loadBoardWatches(
+  supabase: SupabaseClient,
+  boardId: string,
+): Promise<WatchRow[]> {
+  const { data, error } = await supabase
+    .from("watchers")
+    .select(WATCH_SELECT)
+    .eq("board_id", boardId);
+  if (error) {
+    console.error("[watchers] lookup failed:", error.message);
+    return [];
+  }
+  return (data ?? []) as WatchRow[];
+}
+
+/**
+ * The watchers of a card, keyed by user, each with their most specific
+ * watch (card before column before board). `columnIds` lists the columns
+ * that count: the card's column, or for a move both source and target.
+ */
+export function resolveCardWatchers(
+  watches: WatchRow[],
+  cardId: string,
+  columnIds: number[],
+): Map<string, WatchRow> {
+  const byUser = new Map<string, WatchRow>();
+  for (const watch of watches) {
+    const scope = watchScope(watch);
+    const applies =
+      scope === "card"
+        ? watch.card_id === cardId
+        : scope === "column"
+          ? columnIds.includes(watch.column_id!)
+          : true;
+    if (!applies) continue;
+
+    const current = byUser.get(watch.user_id);
+    if (!current || SCOPE_RANK[scope] < SCOPE_RANK[watchScope(current)]) {
+      byUser.set(watch.user_id, watch);
+    }
+  }
+  return byUser;
+}
+
+/**
+ * Notification rows for the watchers of a card, skipping the actor and
+ * anyone in `alreadyNotified`. The watch that matched goes into the
+ * metadata so the notification center can offer to unwatch it.
+ */
+export function watcherNotificationRows(
+  watchers: Map<string, WatchRow>,
+  notification: Omit<NotificationRow, "user_id">,
+  alreadyNotified: Iterable<string> = [],
+): NotificationRow[] {
+  const skip = new Set(alreadyNotified);
+  skip.add(notification.actor_id);
+
+  const rows: NotificationRow[] = [];
+  for (const [userId, watch] of watchers) {
+    if (skip.has(userId)) continue;
+    rows.push({
+      ...notification,
+      user_id: userId,
+      metadata: {
+        ...notification.metadata,
+        watch: { id: watch.id, scope: watchScope(watch) },
+      },
+    });
+  }
+  return rows;
+}
+
+/**
+ * Subscribes a user to a card they created or commented on. Non-throwing;
+ * already watching the card is not an error.
+ */
+export async function autoWatchCard(
+  supabase: SupabaseClient,
+  userId: string,
+  card: { id: string; boardId: string },
+): Promise<void> {
+  const { error } = await supabase.from("watchers").insert({
+    user_id: userId,
+    board_id: card.boardId,
+    card_id: card.id,
+  });
+  // 23505: unique violation, the user already watches the card
+  if (error && error.code !== "23505") {
+    console.error("[watchers] auto-watch failed:", error.message);
+  }
+}
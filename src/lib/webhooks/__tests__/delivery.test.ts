@@ -0,0 +1,360 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  deliverWebhook,
+  dispatchWebhookEvent,
+  MAX_DELIVERY_ATTEMPTS,
+  retryDelayMs,
+  sendWebhookPing,
+} from "../delivery";
+import { verifyWebhookSignature } from "../signature";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Tiny in-memory stand-in for the service-role client, covering the query
+ * shapes delivery.ts uses. Embeds `board_webhooks(...)` into deliveries.
+ */
+function fakeAdmin(tables: {
+  board_webhooks: Row[];
+  webhook_deliveries: Row[];
+}) {
+  const query = (table: keyof typeof tables) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let mode: "select" | "update" = "select";
+    let patch: Row = {};
+    let embed = false;
+    let limit = Infinity;
+
+    const matching = () =>
+      tables[table].filter((r) => filters.every((f) => f(r)));
+    const project = (row: Row) =>
+      embed
+        ? {
+            ...row,
+            board_webhooks:
+              tables.board_webhooks.find((w) => w.id === row.webhook_id) ??
+              null,
+          }
+        : row;
+    const run = () => {
+      const rows = matching().slice(0, limit);
+      if (mode === "update") rows.forEach((r) => Object.assign(r, patch));
+      return rows.map(project);
+    };
+
+    const builder = {
+      select(columns?: string) {
+        embed = !!columns?.includes("board_webhooks(");
+        return builder;
+      },
+      update(values: Row) {
+        mode = "update";
+        patch = values;
+        return builder;
+      },
+      insert(values: Row | Row[]) {
+        tables[table].push(
+          ...(Array.isArray(values) ? values : [values]).map((v) => ({
+            status: "pending",
+            attempts: 0,
+            next_attempt_at: new Date().toISOString(),
+            ...v,
+          })),
+        );
+        return Promise.resolve({ data: null, error: null });
+      },
+      eq(column: string, value: unknown) {
+        filters.push((r) => r[column] === value);
+        return builder;
+      },
+      lte(column: string, value: string) {
+        filters.push((r) => String(r[column]) <= value);
+        return builder;
+      },
+      contains(column: string, value: unknown[]) {
+        filters.push((r) =>
+          value.every((v) => (r[column] as unknown[]).includes(v)),
+        );
+        return builder;
+      },
+      order() {
+        return builder;
+      },
+      limit(n: number) {
+        limit = n;
+        return builder;
+      },
+      maybeSingle() {
+        return Promise.resolve({ data: run()[0] ?? null, error: null });
+      },
+      then(resolve: (value: { data: Row[]; error: null }) => unknown) {
+        return Promise.resolve({ data: run(), error: null }).then(resolve);
+      },
+    };
+    return builder;
+  };
+  return { from: vi.fn(query) };
+}
+
+interface Received {
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+let server: Server;
+let receiverUrl: string;
+let received: Received[] = [];
+let nextStatus = 200;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = nextStatus;
+      res.end("ok");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const SECRET = "whsec_test_secret_value";
+const BOARD_ID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+
+function setup(webhook: Partial<Row> = {}) {
+  const tables = {
+    board_webhooks: [
+      {
+        id: "w1",
+        board_id: BOARD_ID,
+        url: receiverUrl,
+        secret: SECRET,
+        event_types: ["card.created", "card.moved"],
+        is_active: true,
+        ...webhook,
+      },
+    ],
+    webhook_deliveries: [] as Row[],
+  };
+  return { tables, admin: fakeAdmin(tables) };
+}
+
+describe("webhook delivery", () => {
+  beforeEach(() => {
+    received = [];
+    nextStatus = 200;
+  });
+
+  it("delivers a signed payload to the local receiver", async () => {
+    const { tables, admin } = setup();
+
+    await dispatchWebhookEvent(
+      {
+        type: "card.created",
+        boardId: BOARD_ID,
+        actorId: "u1",
+        data: { card: { id: "c1", title: "Plan" } },
+      },
+      { adminClient: admin as never },
+    );
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    const timestamp = Number(request!.headers["x-kanban-timestamp"]);
+    expect(request!.headers["x-kanban-event"]).toBe("card.created");
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        timestamp,
+        request!.body,
+        request!.headers["x-kanban-signature"] as string,
+      ),
+    ).toBe(true);
+
+    const payload = JSON.parse(request!.body);
+    expect(payload).toMatchObject({
+      event: "card.created",
+      boardId: BOARD_ID,
+      actorId: "u1",
+      data: { card: { id: "c1", title: "Plan" } },
+    });
+    expect(payload.id).toBe(request!.headers["x-kanban-delivery"]);
+
+    expect(tables.webhook_deliveries).toHaveLength(1);
+    expect(tables.webhook_deliveries[0]).toMatchObject({
+      status: "succeeded",
+      attempts: 1,
+      last_status_code: 200,
+      last_error: null,
+    });
+  });
+
+  it("skips webhooks that are not subscribed to the event", async () => {
+    const { tables, admin } = setup({ event_types: ["comment.created"] });
+
+    await dispatchWebhookEvent(
+      { type: "card.created", boardId: BOARD_ID, actorId: "u1", data: {} },
+      { adminClient: admin as never },
+    );
+
+    expect(received).toHaveLength(0);
+    expect(tables.webhook_deliveries).toHaveLength(0);
+  });
+
+  it("schedules a retry with backoff when the receiver fails", async () => {
+    nextStatus = 500;
+    const { tables, admin } = setup();
+    const scheduleRetry = vi.fn();
+
+    await dispatchWebhookEvent(
+      { type: "card.moved", boardId: BOARD_ID, actorId: "u1", data: {} },
+      { adminClient: admin as never, scheduleRetry },
+    );
+
+    const delivery = tables.webhook_deliveries[0]!;
+    expect(delivery).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      last_status_code: 500,
+      last_error: "Receiver responded 500",
+    });
+    expect(scheduleRetry).toHaveBeenCalledWith(
+      expect.any(Function),
+      retryDelayMs(1),
+    );
+
+    // The scheduled retry reaches the receiver again and succeeds
+    nextStatus = 204;
+    scheduleRetry.mock.calls[0]![0]();
+    await vi.waitFor(() => expect(delivery.status).toBe("succeeded"));
+    expect(delivery.attempts).toBe(2);
+    expect(received).toHaveLength(2);
+  });
+
+  it("gives up after the last attempt", async () => {
+    nextStatus = 503;
+    const { tables, admin } = setup();
+    tables.webhook_deliveries.push({
+      id: "d1",
+      webhook_id: "w1",
+      status: "pending",
+      attempts: MAX_DELIVERY_ATTEMPTS - 1,
+      payload: { id: "d1", event: "card.moved", data: {} },
+    });
+    const scheduleRetry = vi.fn();
+
+    const result = await deliverWebhook("d1", {
+      adminClient: admin as never,
+      scheduleRetry,
+    });
+
+    expect(result).toMatchObject({
+      status: "failed",
+      attempts: MAX_DELIVERY_ATTEMPTS,
+    });
+    expect(scheduleRetry).not.toHaveBeenCalled();
+  });
+
+  it("records connection errors", async () => {
+    const { tables, admin } = setup({ url: "http://127.0.0.1:1/closed" });
+
+    await dispatchWebhookEvent(
+      { type: "card.created", boardId: BOARD_ID, actorId: "u1", data: {} },
+      { adminClient: admin as never, scheduleRetry: vi.fn() },
+    );
+
+    expect(tables.webhook_deliveries[0]).toMatchObject({
+      status: "pending",
+      last_status_code: null,
+    });
+    expect(tables.webhook_deliveries[0]!.last_error).toEqual(
+      expect.any(String),
+    );
+  });
+
+  it("refuses private addresses and names that resolve to them", async () => {
+    const port = new URL(receiverUrl).port;
+    for (const url of [
+      receiverUrl,
+      `http://localhost:${port}/hook`,
+      `http://[::ffff:127.0.0.1]:${port}/hook`,
+    ]) {
+      const { tables, admin } = setup({ url });
+
+      await dispatchWebhookEvent(
+        { type: "card.created", boardId: BOARD_ID, actorId: "u1", data: {} },
+        {
+          adminClient: admin as never,
+          allowPrivateAddresses: false,
+          scheduleRetry: vi.fn(),
+        },
+      );
+
+      expect(tables.webhook_deliveries[0]).toMatchObject({
+        status: "pending",
+        last_status_code: null,
+        last_error: expect.stringMatching(/private or loopback/),
+      });
+    }
+    expect(received).toHaveLength(0);
+  });
+
+  it("does not follow redirects", async () => {
+    nextStatus = 302;
+    const { tables, admin } = setup();
+
+    await dispatchWebhookEvent(
+      { type: "card.created", boardId: BOARD_ID, actorId: "u1", data: {} },
+      { adminClient: admin as never, scheduleRetry: vi.fn() },
+    );
+
+    expect(received).toHaveLength(1);
+    expect(tables.webhook_deliveries[0]).toMatchObject({
+      status: "pending",
+      last_error: "Receiver responded 302",
+    });
+  });
+
+  it("sends test pings to paused webhooks without retrying", async () => {
+    nextStatus = 500;
+    const { admin } = setup({ is_active: false });
+
+    const result = await sendWebhookPing(
+      { id: "w1", boardId: BOARD_ID },
+      "u1",
+      {
+        adminClient: admin as never,
+      },
+    );
+
+    expect(received[0]!.headers["x-kanban-event"]).toBe("ping");
+    expect(result).toMatchObject({
+      status: "failed",
+      attempts: 1,
+      statusCode: 500,
+    });
+  });
+
+  it("backs off exponentially up to one hour", () => {
+    expect(retryDelayMs(1)).toBe(60_000);
+    expect(retryDelayMs(2)).toBe(120_000);
+    expect(retryDelayMs(3)).toBe(240_000);
+    expect(retryDelayMs(10)).toBe(60 * 60_000);
+  });
+});
@@ -0,0 +1,98 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SECRET_PREFIX,
+} from "../signature";
+import { isPrivateAddress, validateWebhookUrl } from "../url";
+
+describe("webhook signatures", () => {
+  it("signs `${timestamp}.${body}` with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", "s3cret")
+      .update('1700000000.{"a":1}')
+      .digest("hex");
+    expect(signWebhookPayload("s3cret", 1700000000, '{"a":1}')).toBe(
+      `sha256=${expected}`,
+    );
+  });
+
+  it("verifies matching signatures only", () => {
+    const signature = signWebhookPayload("s3cret", 1, "body");
+    expect(verifyWebhookSignature("s3cret", 1, "body", signature)).toBe(true);
+    expect(verifyWebhookSignature("other", 1, "body", signature)).toBe(false);
+    expect(verifyWebhookSignature("s3cret", 2, "body", signature)).toBe(false);
+    expect(verifyWebhookSignature("s3cret", 1, "body", "sha256=00")).toBe(
+      false,
+    );
+  });
+
+  it("generates distinct prefixed secrets", () => {
+    const a = generateWebhookSecret();
+    expect(a.startsWith(WEBHOOK_SECRET_PREFIX)).toBe(true);
+    expect(a).not.toBe(generateWebhookSecret());
+  });
+});
+
+describe("validateWebhookUrl", () => {
+  it("allows http to a local receiver outside production", () => {
+    expect(validateWebhookUrl("http://localhost:4000/hook", false)).toBeNull();
+  });
+
+  it("requires https and a public host in production", () => {
+    expect(validateWebhookUrl("https://example.com/hook", true)).toBeNull();
+    expect(validateWebhookUrl("http://example.com/hook", true)).toBe(
+      "url must use https",
+    );
+    expect(validateWebhookUrl("https://127.0.0.1/hook", true)).toMatch(
+      /private or loopback/,
+    );
+    expect(validateWebhookUrl("https://10.1.2.3/hook", true)).toMatch(
+      /private or loopback/,
+    );
+    for (const host of [
+      "[::ffff:127.0.0.1]",
+      "[::1]",
+      "0.1.2.3",
+      "100.64.0.1",
+      "app.localhost",
+    ]) {
+      expect(validateWebhookUrl(`https://${host}/hook`, true)).toMatch(
+        /private or loopback/,
+      );
+    }
+  });
+
+  it("classifies private and public addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "0.0.0.0",
+      "100.100.1.1",
+      "169.254.169.254",
+      "172.31.0.1",
+      "::1",
+      "::ffff:7f00:1",
+      "fd12::1",
+      "fe80::1",
+      "not-an-ip",
+    ]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ["93.184.216.34", "100.128.0.1", "2606:4700::1"]) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  it("rejects non-http schemes, credentials and garbage", () => {
+    expect(validateWebhookUrl("ftp://example.com", false)).toBe(
+      "url must use http or https",
+    );
+    expect(validateWebhookUrl("https://u:p@example.com", false)).toBe(
+      "url must not contain credentials",
+    );
+    expect(validateWebhookUrl("not a url", false)).toBe(
+      "url must be an absolute URL",
+    );
+  });
+});
@@ -0,0 +1,299 @@
+import { randomUUID } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  WEBHOOK_PING_EVENT,
+  type WebhookEvent,
+  type WebhookPayload,
+} from "./events";
+import { signWebhookPayload } from "./signature";
+import { postWebhook } from "./transport";
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const BASE_RETRY_MS = 60_000;
+const MAX_RETRY_MS = 60 * 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const SWEEP_BATCH_SIZE = 20;
+
+export interface DeliveryOptions {
+  /**
+   * Optional admin client override. Defaults to a fresh service-role client.
+   * Tests inject a mock here; production callers can omit.
+   */
+  adminClient?: SupabaseClient;
+  /**
+   * Deliver to loopback / private addresses. Defaults to true outside
+   * production so a local receiver can be used.
+   */
+  allowPrivateAddresses?: boolean;
+  /** Defaults to MAX_DELIVERY_ATTEMPTS. */
+  maxAttempts?: number;
+  /** Deliver even when the webhook is paused (test pings). */
+  includeInactive?: boolean;
+  /** Defaults to an unref'd setTimeout so retries never keep the process up. */
+  scheduleRetry?: (run: () => void, delayMs: number) => void;
+}
+
+export interface DeliveryResult {
+  deliveryId: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  statusCode: number | null;
+  error: string | null;
+}
+
+/** Delay before the next attempt after `attempts` failed ones: 1m, 2m, 4m, … */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+}
+
+function defaultScheduleRetry(run: () => void, delayMs: number) {
+  const timer = setTimeout(run, delayMs);
+  timer.unref?.();
+}
+
+type DeliveryRow = {
+  id: string;
+  status: string;
+  attempts: number;
+  payload: WebhookPayload;
+  board_webhooks:
+    | { url: string; secret: string; is_active: boolean }
+    | { url: string; secret: string; is_active: boolean }[]
+    | null;
+};
+
+/**
+ * Make one delivery attempt and record the outcome on the delivery row.
+ * Returns null when the row is gone, already settled, or another worker
+ * claimed this attempt first.
+ */
+export async function deliverWebhook(
+  deliveryId: string,
+  options: DeliveryOptions = {},
+): Promise<DeliveryResult | null> {
+  const admin = options.adminClient ?? createAdminClient();
+
+  const { data, error } = await admin
+    .from("webhook_deliveries")
+    .select(
+      "id, status, attempts, payload, board_webhooks(url, secret, is_active)",
+    )
+    .eq("id", deliveryId)
+    .maybeSingle();
+  if (error || !data) {
+    if (error) console.error("[webhooks] load delivery failed:", error.message);
+    return null;
+  }
+  const delivery = data as DeliveryRow;
+  if (delivery.status !== "pending") return null;
+
+  // Claim the attempt: a concurrent sweep that read the same row loses here
+  const { data: claimed } = await admin
+    .from("webhook_deliveries")
+    .update({ attempts: delivery.attempts + 1 })
+    .eq("id", deliveryId)
+    .eq("status", "pending")
+    .eq("attempts", delivery.attempts)
+    .select("id")
+    .maybeSingle();
+  if (!claimed) return null;
+  const attempts = delivery.attempts + 1;
+
+  const webhook = Array.isArray(delivery.board_webhooks)
+    ? delivery.board_webhooks[0]
+    : delivery.board_webhooks;
+
+  let statusCode: number | null = null;
+  let errorMessage: string | null = null;
+  const disabled = !webhook || (!webhook.is_active && !options.includeInactive);
+  if (!webhook || disabled) {
+    errorMessage = "Webhook is disabled";
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      // Resolves the host, refuses private addresses and connects to the
+      // address it checked; redirects are not followed
+      statusCode = await postWebhook(webhook.url, {
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "kanban-app-webhooks/1",
+          "X-Kanban-Event": delivery.payload.event,
+          "X-Kanban-Delivery": delivery.id,
+          "X-Kanban-Timestamp": String(timestamp),
+          "X-Kanban-Signature": signWebhookPayload(
+            webhook.secret,
+            timestamp,
+            body,
+          ),
+        },
+        body,
+        timeoutMs: REQUEST_TIMEOUT_MS,
+        allowPrivateAddresses:
+          options.allowPrivateAddresses ??
+          process.env.NODE_ENV !== "production",
+      });
+      if (statusCode < 200 || statusCode > 299) {
+        errorMessage = `Receiver responded ${statusCode}`;
+      }
+    } catch (e) {
+      errorMessage = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  const now = new Date();
+  const giveUp =
+    errorMessage !== null &&
+    (attempts >= (options.maxAttempts ?? MAX_DELIVERY_ATTEMPTS) || disabled);
+  const status: DeliveryResult["status"] =
+    errorMessage === null ? "succeeded" : giveUp ? "failed" : "pending";
+  const delay = retryDelayMs(attempts);
+
+  const { error: updateError } = await admin
+    .from("webhook_deliveries")
+    .update({
+      status,
+      last_status_code: statusCode,
+      last_error: errorMessage,
+      delivered_at: status === "succeeded" ? now.toISOString() : null,
+      ...(status === "pending" && {
+        next_attempt_at: new Date(now.getTime() + delay).toISOString(),
+      }),
+    })
+    .eq("id", deliveryId);
+  if (updateError) {
+    console.error("[webhooks] update delivery failed:", updateError.message);
+  }
+
+  if (status === "pending") {
+    (options.scheduleRetry ?? defaultScheduleRetry)(() => {
+      void deliverWebhook(deliveryId, options);
+    }, delay);
+  }
+
+  return { deliveryId, status, attempts, statusCode, error: errorMessage };
+}
+
+/**
+ * Retry pending deliveries whose next_attempt_at has passed. Runs on a
+ * schedule (see schedule.ts) to pick up retries whose in-process timer was
+ * lost.
+ */
+export async function retryDueWebhookDeliveries(
+  options: DeliveryOptions = {},
+): Promise<void> {
+  const admin = options.adminClient ?? createAdminClient();
+  const { data, error } = await admin
+    .from("webhook_deliveries")
+    .select("id")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(SWEEP_BATCH_SIZE);
+  if (error) {
+    console.error("[webhooks] sweep failed:", error.message);
+    return;
+  }
+  for (const row of data ?? []) {
+    await deliverWebhook(row.id as string, options);
+  }
+}
+
+/**
+ * Queue one delivery per active subscription for the event and make the
+ * first attempt right away. Failed attempts are retried with exponential
+ * backoff up to MAX_DELIVERY_ATTEMPTS.
+ *
+ * Non-throwing, like createNotifications: a webhook failure must never
+ * break the primary mutation. Routes call it without awaiting so a slow
+ * receiver doesn't hold up the response.
+ */
+export async function dispatchWebhookEvent(
+  event: WebhookEvent,
+  options: DeliveryOptions = {},
+): Promise<void> {
+  try {
+    const admin = options.adminClient ?? createAdminClient();
+    const scoped = { ...options, adminClient: admin };
+
+    const { data: hooks, error } = await admin
+      .from("board_webhooks")
+      .select("id")
+      .eq("board_id", event.boardId)
+      .eq("is_active", true)
+      .contains("event_types", [event.type]);
+    if (error) {
+      console.error("[webhooks] load subscriptions failed:", error.message);
+      return;
+    }
+
+    if ((hooks ?? []).length > 0) {
+      const createdAt = new Date().toISOString();
+      const rows = (hooks ?? []).map((hook) => {
+        const id = randomUUID();
+        const payload: WebhookPayload = {
+          id,
+          event: event.type,
+          createdAt,
+          boardId: event.boardId,
+          actorId: event.actorId,
+          data: event.data,
+        };
+        return { id, webhook_id: hook.id, event_type: event.type, payload };
+      });
+
+      const { error: insertError } = await admin
+        .from("webhook_deliveries")
+        .insert(rows);
+      if (insertError) {
+        console.error(
+          "[webhooks] queue deliveries failed:",
+          insertError.message,
+        );
+        return;
+      }
+
+      await Promise.all(rows.map((row) => deliverWebhook(row.id, scoped)));
+    }
+  } catch (e) {
+    console.error("[webhooks] dispatch failed:", e);
+  }
+}
+
+/**
+ * Queue and attempt a `ping` delivery for one webhook, regardless of its
+ * event types or paused state. Used by the "send test" endpoint; not retried.
+ */
+export async function sendWebhookPing(
+  webhook: { id: string; boardId: string },
+  actorId: string,
+  options: DeliveryOptions = {},
+): Promise<DeliveryResult | null> {
+  const admin = options.adminClient ?? createAdminClient();
+  const id = randomUUID();
+  const payload: WebhookPayload = {
+    id,
+    event: WEBHOOK_PING_EVENT,
+    createdAt: new Date().toISOString(),
+    boardId: webhook.boardId,
+    actorId,
+    data: {},
+  };
+  const { error } = await admin.from("webhook_deliveries").insert({
+    id,
+    webhook_id: webhook.id,
+    event_type: WEBHOOK_PING_EVENT,
+    payload,
+  });
+  if (error) {
+    console.error("[webhooks] queue ping failed:", error.message);
+    return null;
+  }
+  return deliverWebhook(id, {
+    ...options,
+    adminClient: admin,
+    maxAttempts: 1,
+    includeInactive: true,
+  });
+}
@@ -0,0 +1,33 @@
+/**
+ * Board events that can be subscribed to. Must stay in sync with the
+ * board_webhooks_event_types_check constraint (migration 49).
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  "card.created",
+  "card.moved",
+  "card.completed",
+  "comment.created",
+  "deadline.changed",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/** Sent by the "send test" endpoint only; never subscribable. */
+export const WEBHOOK_PING_EVENT = "ping";
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  boardId: string;
+  actorId: string;
+  data: Record<string, unknown>;
+}
+
+/** JSON body POSTed to the receiver. `id` is the delivery id. */
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEventType | typeof WEBHOOK_PING_EVENT;
+  createdAt: string;
+  boardId: string;
+  actorId: string | null;
+  data: Record<string, unknown>;
+}
@@ -0,0 +1,85 @@
+import { getBoardRoleForUser } from "@/lib/board-access";
+import { canManageBoardMembers } from "@/lib/board-permissions";
+
+type BoardAccessClient = Parameters<typeof getBoardRoleForUser>[0];
+
+export type WebhookManagementAuthorization =
+  | { ok: true }
+  | { ok: false; status: 403 | 404; error: string };
+
+/** Webhooks are managed by board owners and admins only. */
+export async function getWebhookManagementAuthorization(
+  supabase: BoardAccessClient,
+  boardId: string,
+  userId: string,
+): Promise<WebhookManagementAuthorization> {
+  const role = await getBoardRoleForUser(supabase, boardId, userId);
+  if (!role) {
+    return {
+      ok: false,
+      status: 404,
+      error: "Board not found or access denied",
+    };
+  }
+  if (!canManageBoardMembers(role)) {
+    return { ok: false, status: 403, error: "Insufficient permissions" };
+  }
+  return { ok: true };
+}
+
+export const WEBHOOK_SELECT =
+  "id, board_id, url, event_types, is_active, created_by, created_at, updated_at";
+
+export interface WebhookRow {
+  id: string;
+  board_id: string;
+  url: string;
+  event_types: string[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** The secret is deliberately not part of the read shape. */
+export function transformWebhookRow(row: WebhookRow) {
+  return {
+    id: row.id,
+    boardId: row.board_id,
+    url: row.url,
+    eventTypes: row.event_types,
+    isActive: row.is_active,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const WEBHOOK_DELIVERY_SELECT =
+  "id, event_type, status, attempts, last_status_code, last_error, next_attempt_at, created_at, delivered_at";
+
+export interface WebhookDeliveryRow {
+  id: string;
+  event_type: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  next_attempt_at: string;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export function transformWebhookDeliveryRow(row: WebhookDeliveryRow) {
+  return {
+    id: row.id,
+    eventType: row.event_type,
+    status: row.status,
+    attempts: row.attempts,
+    lastStatusCode: row.last_status_code,
+    lastError: row.last_error,
+    nextAttemptAt: row.status === "pending" ? row.next_attempt_at : null,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at,
+  };
+}
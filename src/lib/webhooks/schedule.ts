@@ -0,0 +1,28 @@
+import { retryDueWebhookDeliveries } from "./delivery";
+
+// The shortest retry delay (see retryDelayMs)
+const RETRY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+let retryTimer: NodeJS.Timeout | null = null;
+
+async function runRetrySweep() {
+  try {
+    await retryDueWebhookDeliveries();
+  } catch (error) {
+    console.error("[webhooks] retry sweep failed:", error);
+  }
+}
+
+/**
+ * Retry due webhook deliveries once at server start and then every minute,
+ * so a retry whose in-process timer was lost to a restart still runs. Like
+ * the trash purge, every server process runs its own timer; deliverWebhook
+ * claims each attempt, so two processes never send the same one.
+ */
+export function scheduleWebhookRetries() {
+  if (retryTimer) return;
+  retryTimer = setInterval(() => void runRetrySweep(), RETRY_SWEEP_INTERVAL_MS);
+  // Do not keep the process alive just for the retries
+  retryTimer.unref();
+  void runRetrySweep();
+}
@@ -0,0 +1,108 @@
+import { lookup as dnsLookup, type LookupAddress } from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import { isPrivateAddress, urlHost } from "./url";
+
+export interface WebhookRequest {
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+  /**
+   * Let the request reach loopback / private addresses. Only outside
+   * production, so deliveries can be tested against a local receiver.
+   */
+  allowPrivateAddresses: boolean;
+}
+
+/**
+ * Resolve like the default lookup, but fail when any address of the host is
+ * private. The socket connects to the address returned here, so a DNS
+ * answer that changes after the check (rebinding) cannot slip through.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+    const list = addresses as LookupAddress[];
+    const first = list[0];
+    if (!first || list.some((entry) => isPrivateAddress(entry.address))) {
+      callback(
+        new Error(`${hostname} resolves to a private or loopback address`),
+        "",
+        0,
+      );
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (e: null, all: LookupAddress[]) => void)(
+        null,
+        list,
+      );
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+/**
+ * POST a webhook and resolve with the receiver's status code. The response
+ * body is discarded and redirects are not followed. Rejects on connection
+ * errors, timeouts and, unless allowed, private target addresses.
+ */
+export function postWebhook(
+  rawUrl: string,
+  request: WebhookRequest,
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      reject(new Error("Invalid webhook URL"));
+      return;
+    }
+    const client =
+      url.protocol === "https:"
+        ? https
+        : url.protocol === "http:"
+          ? http
+          : null;
+    if (!client) {
+      reject(new Error("Webhook URL must use http or https"));
+      return;
+    }
+
+    // Literal addresses skip the lookup, so they are checked here
+    const host = urlHost(url);
+    if (
+      !request.allowPrivateAddresses &&
+      isIP(host) !== 0 &&
+      isPrivateAddress(host)
+    ) {
+      reject(new Error(`${host} is a private or loopback address`));
+      return;
+    }
+
+    const req = client.request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          ...request.headers,
+          "Content-Length": String(Buffer.byteLength(request.body)),
+        },
+        signal: AbortSignal.timeout(request.timeoutMs),
+        ...(!request.allowPrivateAddresses && { lookup: publicOnlyLookup }),
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      },
+    );
+    req.on("error", reject);
+    req.end(request.body);
+  });
+}
@@ -0,0 +1,89 @@
+import { BlockList, isIP } from "node:net";
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges a
+// webhook must never reach
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  // NAT64 embeds an IPv4 address. IPv4-mapped ones (::ffff:a.b.c.d) need no
+  // entry: BlockList checks them against the IPv4 ranges above.
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+const LOCAL_HOST_PATTERNS = [/^localhost$/i, /\.localhost$/i];
+
+/**
+ * Whether an IP address is loopback, private, link-local, CGNAT or otherwise
+ * not publicly routable. Anything that is not an IP address counts as
+ * private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/** URL hostname without the brackets of an IPv6 literal. */
+export function urlHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+/**
+ * Returns an error message, or null when the URL may be used as a webhook
+ * target. Production requires https and refuses loopback / private-network
+ * hosts; elsewhere plain http to a local receiver is allowed so deliveries
+ * can be tested end to end.
+ *
+ * Only literal addresses can be checked here. Names are resolved and
+ * checked again on every delivery (see transport.ts).
+ */
+export function validateWebhookUrl(
+  raw: string,
+  production: boolean = process.env.NODE_ENV === "production",
+): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return "url must be an absolute URL";
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "url must use http or https";
+  }
+  if (url.username || url.password) {
+    return "url must not contain credentials";
+  }
+  if (!production) return null;
+
+  if (url.protocol !== "https:") {
+    return "url must use https";
+  }
+  const host = urlHost(url);
+  if (
+    LOCAL_HOST_PATTERNS.some((pattern) => pattern.test(host)) ||
+    (isIP(host) !== 0 && isPrivateAddress(host))
+  ) {
+    return "url must not point to a private or loopback address";
+  }
+  return null;
+}
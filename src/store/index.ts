@@ -19,7 +19,9 @@ export type NotificationType =
   | "card_assigned"
   | "board_member_added"
   | "card_completed"
-  | "card_moved";
+  | "card_moved"
+  | "comment_reply"
+  | "comment";
 
 export type NotificationItem = {
   id: string;
@@ -26,6 +26,7 @@ export type Subtask = InferSelectModel<typeof cardSubtasks>;
 export type NewSubtask = InferInsertModel<typeof cardSubtasks>;
 export type Label = InferSelectModel<typeof labels>;
 export type CardLabel = InferSelectModel<typeof cardLabels>;
+export type CardLabelWithLabel = CardLabel & { label: Label };
 export type Comment = InferSelectModel<typeof comments>;
 export type AdminAuditLog = InferSelectModel<typeof adminAuditLog>;
 export type UserInvitation = InferSelectModel<typeof userInvitations>;
@@ -57,8 +58,14 @@ export type BoardWithDetails = Board & {
   columns: (Column & {
     cards: (Card & {
       assignee?: User;
-      labels: (CardLabel & { label: Label })[];
+      // Everyone the card is assigned to, the primary (assigneeId) first
+      assigneeIds?: string[];
+      assignees?: User[];
+      labels: CardLabelWithLabel[];
       comments: (Comment & { author: User })[];
+      subtaskProgress?: SubtaskProgress;
+      // Number of linked cards blocking this one that are not completed
+      blockedByCount?: number;
     })[];
   })[];
   labels: Label[];
@@ -69,9 +76,11 @@ export type BoardWithDetails = Board & {
   isArchived?: boolean;
 };
 
+export type SubtaskProgress = { completed: number; total: number };
+
 export type CardWithDetails = Card & {
   assignee?: User;
-  labels: (CardLabel & { label: Label })[];
+  labels: CardLabelWithLabel[];
   comments: (Comment & { author: User })[];
   column: Column;
   board: Board;
@@ -80,7 +89,7 @@ export type CardWithDetails = Card & {
 export type ColumnWithCards = Column & {
   cards: (Card & {
     assignee?: User;
-    labels: (CardLabel & { label: Label })[];
+    labels: CardLabelWithLabel[];
   })[];
 };
 
@@ -106,6 +115,7 @@ export type CreateCardRequest = {
   title: string;
   description?: string;
   assigneeId?: string;
+  assigneeIds?: string[];
   dueDate?: Date;
   priority?: CardPriority;
   position: number;
@@ -115,6 +125,7 @@ export type UpdateCardRequest = {
   title?: string;
   description?: string;
   assigneeId?: string | null;
+  assigneeIds?: string[];
   dueDate?: Date | null;
   priority?: CardPriority;
   columnId?: number;
@@ -130,6 +141,7 @@ export type CreateLabelRequest = {
 export type CreateCommentRequest = {
   cardId: string;
   body: string;
+  parentId?: string;
 };
 
 export type BulkUpdateCardRequest = {
@@ -138,10 +150,21 @@ export type BulkUpdateCardRequest = {
   position: number;
 }[];
 
+// Column fields a card move reads to complete the card and check the WIP
+// limit, as PostgREST returns them
+export type ColumnMoveRow = {
+  id: number;
+  board_id: string;
+  title: string;
+  is_done: boolean;
+  wip_limit: number | null;
+  wip_limit_hard: boolean;
+};
+
 // Filter types for API queries
 export type CardFilters = {
   assigneeId?: string;
-  labelIds?: number[];
+  labelIds?: string[];
   dueDate?: "overdue" | "today" | "week" | "none";
   priority?: CardPriority | "all";
 };